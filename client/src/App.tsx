@@ -10,26 +10,31 @@ import VolunteerPage from './auth/pages/VolunteerPage';
 import { ModalProvider } from './contexts/ModalContext.tsx';
 import { PostingViewModeProvider } from './hooks/PostingViewModeContext';
 import { NotificationsProvider } from './notifications/NotificationsContext';
+import AdminAuditLog from './pages/admin/AdminAuditLog';
 import AdminCrises from './pages/admin/AdminCrises';
 import AdminHome from './pages/admin/AdminHome';
 import AdminReportDetail from './pages/admin/AdminReportDetail';
 import AdminReports from './pages/admin/AdminReports';
 import AdminRequests from './pages/admin/AdminRequests';
 import AdminSettings from './pages/admin/AdminSettings';
+import AdminSkills from './pages/admin/AdminSkills';
 import AdminLogin from './pages/AdminLogin';
 import CertificateVerification from './pages/CertificateVerification';
 import ForgotPassword from './pages/ForgotPassword';
+import GuardianConsent from './pages/GuardianConsent';
 import GuidePage from './pages/GuidePage';
 import HomePage from './pages/HomePage';
 import NotFoundPage from './pages/NotFoundPage';
 import OrganizationCrisisPostings from './pages/organization/OrganizationCrisisPostings';
 import OrganizationHome from './pages/organization/OrganizationHome';
+import OrganizationMessages from './pages/organization/OrganizationMessages';
 import OrganizationOwnProfile from './pages/organization/OrganizationProfile';
 import OrganizationSearch from './pages/organization/OrganizationSearch';
 import OrganizationSettings from './pages/organization/OrganizationSettings';
 import OrganizationVolunteerProfile from './pages/organization/OrganizationVolunteerProfile';
 import PostingAttendance from './pages/organization/PostingAttendance';
 import PostingCreate from './pages/organization/PostingCreate';
+import OrganizationInvite from './pages/OrganizationInvite';
 import OrganizationProfile from './pages/OrganizationProfile';
 import OrganizationRequest from './pages/OrganizationRequest';
 import Posting from './pages/Posting';
@@ -39,7 +44,9 @@ import VolunteerCrisisPostings from './pages/volunteer/VolunteerCrisisPostings';
 import VolunteerEnrollments from './pages/volunteer/VolunteerEnrollments';
 import VolunteerForYou from './pages/volunteer/VolunteerForYou';
 import VolunteerHome from './pages/volunteer/VolunteerHome';
+import VolunteerMessages from './pages/volunteer/VolunteerMessages';
 import VolunteerProfile from './pages/volunteer/VolunteerProfile';
+import VolunteerSaved from './pages/volunteer/VolunteerSaved';
 import VolunteerSearch from './pages/volunteer/VolunteerSearch';
 import VolunteerSettings from './pages/volunteer/VolunteerSettings';
 import VolunteerCreate from './pages/VolunteerCreate';
@@ -62,6 +69,7 @@ function App() {
                     <Route path="volunteer/create" element={<VolunteerCreate />} />
                     <Route path="volunteer/verify-email" element={<VolunteerVerifyEmail />} />
                     <Route path="organization/request" element={<OrganizationRequest />} />
+                    <Route path="organization/invite" element={<OrganizationInvite />} />
                     <Route path="forgot-password" element={<ForgotPassword />} />
                   </Route>
 
@@ -71,6 +79,8 @@ function App() {
                     <Route path="reports" element={<AdminReports />} />
                     <Route path="reports/:reportType/:reportId" element={<AdminReportDetail />} />
                     <Route path="crises" element={<AdminCrises />} />
+                    <Route path="skills" element={<AdminSkills />} />
+                    <Route path="audit-log" element={<AdminAuditLog />} />
                     <Route path="settings" element={<AdminSettings />} />
                   </Route>
 
@@ -81,6 +91,7 @@ function App() {
                     <Route path="posting/:id/attendance" element={<PostingAttendance />} />
                     <Route path="crises/:crisisId/postings" element={<OrganizationCrisisPostings />} />
                     <Route path="profile" element={<OrganizationOwnProfile />} />
+                    <Route path="messages" element={<OrganizationMessages />} />
                     <Route path="settings" element={<OrganizationSettings />} />
                     <Route path="volunteer/:volunteerId" element={<OrganizationVolunteerProfile />} />
                   </Route>
@@ -92,12 +103,15 @@ function App() {
                     <Route path="for-you" element={<VolunteerForYou />} />
                     <Route path="crises/:crisisId/postings" element={<VolunteerCrisisPostings />} />
                     <Route path="profile" element={<VolunteerProfile />} />
+                    <Route path="messages" element={<VolunteerMessages />} />
+                    <Route path="saved" element={<VolunteerSaved />} />
                     <Route path="search" element={<VolunteerSearch />} />
                     <Route path="settings" element={<VolunteerSettings />} />
                   </Route>
 
                   <Route path="guide" element={<GuidePage />} />
                   <Route path="certificate/verify" element={<CertificateVerification />} />
+                  <Route path="guardian-consent" element={<GuardianConsent />} />
 
                   <Route element={<SharedPage roles={['volunteer', 'organization']} />}>
                     <Route path="posting/:id" element={<Posting />} />
@@ -52,6 +52,7 @@ export type AuthContextType = {
   createVolunteer: (volunteer: NewVolunteerAccount) => Promise<VolunteerCreateResponse>;
   verifyVolunteerEmail: (key: string) => Promise<VolunteerVerifyEmailResponse>;
   resendVolunteerVerification: (email: string) => Promise<void>;
+  acceptOrganizationInvite: (key: string, member: { first_name: string; last_name: string; password: string }) => Promise<void>;
   changePassword: (oldPassword: string, newPassword: string) => Promise<void>;
   deleteAccount: (password: string) => Promise<void>;
   logout: () => void;
@@ -67,6 +68,7 @@ const AuthContext = createContext<AuthContextType>({
   createVolunteer: async () => ({ requires_email_verification: true }),
   verifyVolunteerEmail: async () => ({ volunteer: {} as VolunteerAccountWithoutPassword, token: '' }),
   resendVolunteerVerification: async () => {},
+  acceptOrganizationInvite: async () => {},
   changePassword: async () => {},
   deleteAccount: async () => {},
   logout: () => {},
@@ -233,6 +235,25 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     });
   }, []);
 
+  const acceptOrganizationInvite = useCallback(async (key: string, member: { first_name: string; last_name: string; password: string }) => {
+    try {
+      const response = await requestServer<UserLoginResponse>('/user/organization-invite/accept', {
+        method: 'POST',
+        body: { key, ...member },
+      });
+
+      localStorage.setItem(JWT_STORAGE_KEY, response.token);
+      setUser({
+        role: 'organization',
+        account: response.organization!,
+      });
+      window.localStorage.setItem(AUTH_EVENT_KEY, `login-organization-${response.organization!.id}-${Date.now()}`);
+    } catch (error) {
+      localStorage.removeItem(JWT_STORAGE_KEY);
+      throw error;
+    }
+  }, []);
+
   const changePassword = useCallback(async (currentPassword: string, newPassword: string) => {
     if (!user) return;
 
@@ -296,7 +317,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   }, [user, navigate]);
 
   return (
-    <AuthContext.Provider value={{ user, loaded, refreshUser, loginAdmin, loginUser, createVolunteer, verifyVolunteerEmail, resendVolunteerVerification, changePassword, deleteAccount, logout, restrictRoute }}>
+    <AuthContext.Provider value={{ user, loaded, refreshUser, loginAdmin, loginUser, createVolunteer, verifyVolunteerEmail, resendVolunteerVerification, acceptOrganizationInvite, changePassword, deleteAccount, logout, restrictRoute }}>
       {children}
     </AuthContext.Provider>
   );
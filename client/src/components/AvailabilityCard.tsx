@@ -0,0 +1,199 @@
+import { CalendarClock, CalendarX2, Plus, Save, X } from 'lucide-react';
+import { useState } from 'react';
+
+import Button from './Button';
+import Card from './Card';
+import IconButton from './IconButton';
+import Loading from './Loading';
+import { WEEKDAY_LABELS } from './postings/postingUtils';
+import useNotifications from '../notifications/useNotifications';
+import requestServer from '../utils/requestServer';
+import useAsync from '../utils/useAsync';
+
+import type { VolunteerAvailabilityResponse } from '../../../server/src/api/types';
+import type { VolunteerAvailability, VolunteerAvailabilityWindowEntry } from '../../../server/src/db/tables';
+
+const MAX_WINDOWS = 28;
+
+const NEW_WINDOW: VolunteerAvailabilityWindowEntry = { weekday: 6, start_time: '09:00', end_time: '17:00' };
+
+const getAvailability = async () => requestServer<VolunteerAvailabilityResponse>('/volunteer/availability', { includeJwt: true });
+
+function AvailabilityEditor({ availability, onSaved }: {
+  availability: VolunteerAvailability;
+  onSaved: (response: VolunteerAvailabilityResponse) => void;
+}) {
+  const notifications = useNotifications();
+  const [windows, setWindows] = useState(availability.windows);
+  const [blackoutDates, setBlackoutDates] = useState(availability.blackout_dates);
+  const [blackoutDate, setBlackoutDate] = useState('');
+
+  const { loading: saving, trigger: triggerSave } = useAsync(
+    async (body: VolunteerAvailability) => requestServer<VolunteerAvailabilityResponse>('/volunteer/availability', {
+      method: 'PUT',
+      body,
+      includeJwt: true,
+    }),
+    { notifyOnError: true },
+  );
+
+  const updateWindow = (index: number, changes: Partial<VolunteerAvailabilityWindowEntry>) => {
+    setWindows(current => current.map((window, windowIndex) => (windowIndex === index ? { ...window, ...changes } : window)));
+  };
+
+  const addBlackoutDate = () => {
+    if (!blackoutDate) return;
+    setBlackoutDates(current => Array.from(new Set([...current, blackoutDate])).sort());
+    setBlackoutDate('');
+  };
+
+  const save = async () => {
+    try {
+      const response = await triggerSave({ windows, blackout_dates: blackoutDates });
+      setWindows(response.availability.windows);
+      setBlackoutDates(response.availability.blackout_dates);
+      onSaved(response);
+    } catch {
+      return;
+    }
+
+    notifications.push({
+      type: 'success',
+      message: 'Availability saved.',
+    });
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <p className="text-sm font-medium inline-flex items-center gap-2">
+          <CalendarClock size={14} className="text-primary" />
+          Weekly Time Windows
+        </p>
+        {windows.length === 0 && (
+          <p className="text-xs opacity-70">
+            No windows yet, so you are treated as available any time.
+          </p>
+        )}
+        {windows.map((window, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <select
+              className="select select-bordered select-sm w-24"
+              value={window.weekday}
+              onChange={event => updateWindow(index, { weekday: Number(event.target.value) })}
+              aria-label={`Window ${index + 1} day`}
+            >
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <option key={label} value={weekday}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="time"
+              className="input input-bordered input-sm w-32"
+              value={window.start_time}
+              onChange={event => updateWindow(index, { start_time: event.target.value })}
+              aria-label={`Window ${index + 1} start time`}
+            />
+            <span className="text-sm opacity-70">to</span>
+            <input
+              type="time"
+              className="input input-bordered input-sm w-32"
+              value={window.end_time}
+              onChange={event => updateWindow(index, { end_time: event.target.value })}
+              aria-label={`Window ${index + 1} end time`}
+            />
+            <IconButton
+              type="button"
+              size="sm"
+              Icon={X}
+              onClick={() => setWindows(current => current.filter((_, windowIndex) => windowIndex !== index))}
+              aria-label={`Remove window ${index + 1}`}
+            />
+          </div>
+        ))}
+        <button
+          type="button"
+          className="btn btn-xs btn-ghost"
+          onClick={() => setWindows(current => [...current, { ...NEW_WINDOW }])}
+          disabled={windows.length >= MAX_WINDOWS}
+        >
+          <Plus size={12} />
+          Add time window
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium inline-flex items-center gap-2">
+          <CalendarX2 size={14} className="text-warning" />
+          Blackout Dates
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            className="input input-bordered input-sm w-44"
+            value={blackoutDate}
+            onChange={event => setBlackoutDate(event.target.value)}
+            aria-label="Blackout date"
+          />
+          <IconButton
+            type="button"
+            color="primary"
+            size="sm"
+            Icon={Plus}
+            onClick={addBlackoutDate}
+            disabled={!blackoutDate}
+            aria-label="Add blackout date"
+          />
+        </div>
+        {blackoutDates.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {blackoutDates.map(date => (
+              <span key={date} className="badge badge-outline badge-warning gap-1">
+                {date}
+                <button
+                  type="button"
+                  className="cursor-pointer hover:opacity-70"
+                  onClick={() => setBlackoutDates(current => current.filter(existingDate => existingDate !== date))}
+                  aria-label={`Remove blackout date ${date}`}
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <Button size="sm" color="primary" Icon={Save} loading={saving} onClick={() => { void save(); }}>
+          Save Availability
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function AvailabilityCard() {
+  const { data: loadedAvailability, loading } = useAsync(getAvailability, { immediate: true });
+  const [updatedAvailability, setUpdatedAvailability] = useState<VolunteerAvailabilityResponse | null>(null);
+  const response = updatedAvailability ?? loadedAvailability;
+
+  return (
+    <Card
+      title="Availability"
+      description="When you can usually volunteer. Used to recommend postings and warn you about clashes."
+      Icon={CalendarClock}
+    >
+      {loading && !response
+        ? <Loading size="md" />
+        : (
+            <AvailabilityEditor
+              availability={response?.availability ?? { windows: [], blackout_dates: [] }}
+              onSaved={setUpdatedAvailability}
+            />
+          )}
+    </Card>
+  );
+}
+
+export default AvailabilityCard;
@@ -0,0 +1,120 @@
+import { CalendarSync, Copy, Link2, Link2Off, RefreshCcw } from 'lucide-react';
+import { useCallback, useState } from 'react';
+
+import Button from './Button';
+import Card from './Card';
+import Loading from './Loading';
+import useNotifications from '../notifications/useNotifications';
+import { getCalendarFeedUrls } from '../utils/calendarFile';
+import requestServer from '../utils/requestServer';
+import useAsync from '../utils/useAsync';
+
+import type { UserCalendarFeedResponse } from '../../../server/src/api/types';
+
+const getFeed = async () => requestServer<UserCalendarFeedResponse>('/user/calendar-feed', { includeJwt: true });
+
+type CalendarFeedCardProps = {
+  description: string;
+};
+
+function CalendarFeedCard({ description }: CalendarFeedCardProps) {
+  const notifications = useNotifications();
+  const { data: loadedFeed, loading } = useAsync(getFeed, { immediate: true });
+  const [updatedFeed, setUpdatedFeed] = useState<UserCalendarFeedResponse | null>(null);
+  const feed = updatedFeed ?? loadedFeed;
+
+  const { loading: rotating, trigger: triggerRotate } = useAsync(
+    async () => requestServer<UserCalendarFeedResponse>('/user/calendar-feed', { method: 'POST', includeJwt: true }),
+    { notifyOnError: true },
+  );
+
+  const { loading: revoking, trigger: triggerRevoke } = useAsync(
+    async () => requestServer('/user/calendar-feed', { method: 'DELETE', includeJwt: true }),
+    { notifyOnError: true },
+  );
+
+  const rotateFeed = useCallback(async () => {
+    try {
+      setUpdatedFeed(await triggerRotate());
+    } catch {
+      return;
+    }
+
+    notifications.push({ type: 'success', message: 'A new calendar link was created. Older links no longer update.' });
+  }, [notifications, triggerRotate]);
+
+  const revokeFeed = useCallback(async () => {
+    try {
+      await triggerRevoke();
+    } catch {
+      return;
+    }
+
+    setUpdatedFeed({ feed_path: null });
+    notifications.push({ type: 'success', message: 'Calendar link turned off.' });
+  }, [notifications, triggerRevoke]);
+
+  const urls = feed?.feed_path ? getCalendarFeedUrls(feed.feed_path) : null;
+
+  const copyFeedUrl = useCallback(async () => {
+    if (!urls) return;
+
+    try {
+      await navigator.clipboard.writeText(urls.httpUrl);
+      notifications.push({ type: 'success', message: 'Calendar link copied.' });
+    } catch {
+      notifications.push({ type: 'error', message: 'Could not copy the calendar link.' });
+    }
+  }, [notifications, urls]);
+
+  return (
+    <Card
+      title="Calendar Sync"
+      description={description}
+      Icon={CalendarSync}
+    >
+      {loading && !feed
+        ? <Loading size="md" />
+        : urls
+          ? (
+              <div className="space-y-3">
+                <input
+                  type="text"
+                  className="input input-bordered input-sm w-full font-mono"
+                  value={urls.httpUrl}
+                  readOnly
+                  aria-label="Calendar feed link"
+                  onFocus={event => event.target.select()}
+                />
+                <p className="text-xs opacity-70">
+                  Anyone with this link can see your schedule. Create a new link if it was shared by mistake.
+                </p>
+                <div className="flex flex-wrap justify-end gap-2">
+                  <Button size="sm" style="outline" color="error" Icon={Link2Off} loading={revoking} onClick={() => { void revokeFeed(); }}>
+                    Turn Off
+                  </Button>
+                  <Button size="sm" style="outline" Icon={RefreshCcw} loading={rotating} onClick={() => { void rotateFeed(); }}>
+                    New Link
+                  </Button>
+                  <Button size="sm" style="outline" Icon={Copy} onClick={() => { void copyFeedUrl(); }}>
+                    Copy
+                  </Button>
+                  <a className="btn btn-sm btn-primary" href={urls.webcalUrl}>
+                    <Link2 size={16} />
+                    Subscribe
+                  </a>
+                </div>
+              </div>
+            )
+          : (
+              <div className="flex justify-end">
+                <Button size="sm" color="primary" Icon={Link2} loading={rotating} onClick={() => { void rotateFeed(); }}>
+                  Create Calendar Link
+                </Button>
+              </div>
+            )}
+    </Card>
+  );
+}
+
+export default CalendarFeedCard;
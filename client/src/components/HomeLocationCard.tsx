@@ -0,0 +1,117 @@
+import { House, MapPin, Save, Trash2 } from 'lucide-react';
+import { useCallback, useState } from 'react';
+
+import Button from './Button';
+import Card from './Card';
+import Loading from './Loading';
+import LocationPicker from './LocationPicker';
+import useNotifications from '../notifications/useNotifications';
+import requestServer from '../utils/requestServer';
+import useAsync from '../utils/useAsync';
+
+import type { VolunteerHomeLocationResponse } from '../../../server/src/api/types';
+import type { VolunteerHomeLocation } from '../../../server/src/db/tables';
+
+const DEFAULT_POSITION: [number, number] = [33.90192863620578, 35.477959277880416];
+
+const getHomeLocation = async () => requestServer<VolunteerHomeLocationResponse>('/volunteer/home-location', { includeJwt: true });
+
+function HomeLocationEditor({ homeLocation, onSaved }: {
+  homeLocation: VolunteerHomeLocation | null;
+  onSaved: (response: VolunteerHomeLocationResponse) => void;
+}) {
+  const notifications = useNotifications();
+  const [position, setPosition] = useState<[number, number]>(
+    homeLocation ? [homeLocation.latitude, homeLocation.longitude] : DEFAULT_POSITION,
+  );
+  const [locationName, setLocationName] = useState(homeLocation?.location_name ?? '');
+
+  const { loading: saving, trigger: triggerSave } = useAsync(
+    async (body: { home_location: VolunteerHomeLocation | null }) => requestServer<VolunteerHomeLocationResponse>('/volunteer/home-location', {
+      method: 'PUT',
+      body,
+      includeJwt: true,
+    }),
+    { notifyOnError: true },
+  );
+
+  const onSetPosition = useCallback((nextPosition: [number, number], name?: string) => {
+    setPosition(nextPosition);
+    if (name) setLocationName(name);
+  }, []);
+
+  const save = async (nextHomeLocation: VolunteerHomeLocation | null) => {
+    try {
+      onSaved(await triggerSave({ home_location: nextHomeLocation }));
+    } catch {
+      return;
+    }
+
+    notifications.push({
+      type: 'success',
+      message: nextHomeLocation ? 'Home location saved.' : 'Home location removed.',
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="input input-bordered flex w-full items-center gap-2">
+        <MapPin size={16} className="opacity-70" />
+        <input
+          type="text"
+          className="grow"
+          placeholder="Neighborhood or city"
+          aria-label="Home location name"
+          value={locationName}
+          onChange={event => setLocationName(event.target.value)}
+        />
+      </label>
+      <LocationPicker position={position} setPosition={onSetPosition} className="h-72" />
+      <p className="text-xs opacity-70">
+        Only you can see this location. It is never shown to organizations.
+      </p>
+      <div className="flex flex-wrap justify-end gap-2">
+        {homeLocation && (
+          <Button size="sm" style="outline" color="error" Icon={Trash2} loading={saving} onClick={() => { void save(null); }}>
+            Remove
+          </Button>
+        )}
+        <Button
+          size="sm"
+          color="primary"
+          Icon={Save}
+          loading={saving}
+          disabled={locationName.trim().length < 2}
+          onClick={() => { void save({ latitude: position[0], longitude: position[1], location_name: locationName.trim() }); }}
+        >
+          Save Location
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function HomeLocationCard() {
+  const { data: loadedHomeLocation, loading } = useAsync(getHomeLocation, { immediate: true });
+  const [updatedHomeLocation, setUpdatedHomeLocation] = useState<VolunteerHomeLocationResponse | null>(null);
+  const response = updatedHomeLocation ?? loadedHomeLocation;
+
+  return (
+    <Card
+      title="Home Location"
+      description="Used as the starting point when you search for postings near you."
+      Icon={House}
+    >
+      {loading && !response
+        ? <Loading size="md" />
+        : (
+            <HomeLocationEditor
+              homeLocation={response?.home_location ?? null}
+              onSaved={setUpdatedHomeLocation}
+            />
+          )}
+    </Card>
+  );
+}
+
+export default HomeLocationCard;
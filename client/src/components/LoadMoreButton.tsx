@@ -0,0 +1,59 @@
+import { ChevronsDown } from 'lucide-react';
+import { useEffect, useRef } from 'react';
+
+import Button from './Button';
+
+type LoadMoreButtonProps = {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+  autoLoad?: boolean;
+};
+
+function LoadMoreButton({
+  hasMore,
+  loading,
+  onLoadMore,
+  autoLoad = true,
+}: LoadMoreButtonProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  });
+
+  // Loads the next page once the button scrolls into view, keeping the button as a fallback
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!autoLoad || !hasMore || loading || !container || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMoreRef.current();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [autoLoad, hasMore, loading]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={containerRef} className="flex justify-center py-2">
+      <Button
+        type="button"
+        style="outline"
+        Icon={ChevronsDown}
+        loading={loading}
+        disabled={loading}
+        onClick={onLoadMore}
+      >
+        Load More
+      </Button>
+    </div>
+  );
+}
+
+export default LoadMoreButton;
@@ -0,0 +1,106 @@
+import { BellRing } from 'lucide-react';
+import { useCallback, useState } from 'react';
+
+import Card from './Card';
+import Loading from './Loading';
+import requestServer from '../utils/requestServer';
+import useAsync from '../utils/useAsync';
+
+import type { UserNotificationPreferencesResponse } from '../../../server/src/api/types';
+import type { NotificationType } from '../../../server/src/db/tables';
+
+type NotificationPreferenceEntry = UserNotificationPreferencesResponse['preferences'][number];
+type NotificationChannel = 'email_enabled' | 'in_app_enabled';
+
+const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  application_accepted: 'Application accepted',
+  application_rejected: 'Application not accepted',
+  posting_deleted: 'Posting removed',
+  waitlist_promoted: 'Spot opened up from a waitlist',
+  shift_reminder: 'Upcoming shift reminders',
+  shift_roster: 'Tomorrow\'s volunteer roster',
+  saved_search_match: 'New postings matching saved searches',
+  followed_organization_posting: 'New postings from organizations you follow',
+  guardian_consent_response: 'Guardian answered a consent request',
+  new_message: 'New messages',
+  organization_request_submitted: 'New organization request',
+  organization_account_created: 'Organization account created',
+};
+
+const getPreferences = async () => {
+  const response = await requestServer<UserNotificationPreferencesResponse>('/user/notifications/preferences', {
+    includeJwt: true,
+  });
+  return response.preferences;
+};
+
+function NotificationPreferencesCard() {
+  const { data: loadedPreferences, loading } = useAsync(getPreferences, { immediate: true });
+  const [updatedPreferences, setUpdatedPreferences] = useState<NotificationPreferenceEntry[] | null>(null);
+  const preferences = updatedPreferences ?? loadedPreferences;
+
+  const savePreference = useCallback(async (preference: NotificationPreferenceEntry) => {
+    const response = await requestServer<UserNotificationPreferencesResponse>('/user/notifications/preferences', {
+      method: 'PUT',
+      body: { preferences: [preference] },
+      includeJwt: true,
+    });
+    return response.preferences;
+  }, []);
+
+  const { trigger: triggerSave, loading: saving } = useAsync(savePreference, { notifyOnError: true });
+
+  const toggleChannel = useCallback(async (preference: NotificationPreferenceEntry, channel: NotificationChannel) => {
+    const nextPreferences = await triggerSave({ ...preference, [channel]: !preference[channel] });
+    setUpdatedPreferences(nextPreferences);
+  }, [triggerSave]);
+
+  if (!loading && preferences?.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card
+      title="Notifications"
+      description="Choose how you want to hear about each kind of update."
+      Icon={BellRing}
+    >
+      {loading || !preferences
+        ? <Loading size="md" />
+        : (
+            <div className="overflow-x-auto">
+              <table className="table table-sm">
+                <thead>
+                  <tr>
+                    <th>Event</th>
+                    <th className="text-center">Email</th>
+                    <th className="text-center">In-app</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preferences.map(preference => (
+                    <tr key={preference.type}>
+                      <td>{NOTIFICATION_TYPE_LABELS[preference.type]}</td>
+                      {(['email_enabled', 'in_app_enabled'] as const).map(channel => (
+                        <td key={channel} className="text-center">
+                          <input
+                            type="checkbox"
+                            className="toggle toggle-primary toggle-sm"
+                            checked={preference[channel]}
+                            onChange={() => { void toggleChannel(preference, channel); }}
+                            disabled={saving}
+                            aria-label={`${NOTIFICATION_TYPE_LABELS[preference.type]} by ${channel === 'email_enabled' ? 'email' : 'in-app notification'}`}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+    </Card>
+  );
+}
+
+export default NotificationPreferencesCard;
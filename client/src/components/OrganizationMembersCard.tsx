@@ -0,0 +1,196 @@
+import { Send, Trash2, Users } from 'lucide-react';
+import { useCallback, useState, type FormEvent } from 'react';
+
+import Button from './Button';
+import Card from './Card';
+import Loading from './Loading';
+import { DOMAIN_COLORS } from '../constants';
+import useNotifications from '../notifications/useNotifications';
+import requestServer from '../utils/requestServer';
+import useAsync from '../utils/useAsync';
+
+import type {
+  OrganizationGetMeResponse,
+  OrganizationMemberInviteResponse,
+  OrganizationMembersResponse,
+  OrganizationMemberUpdateResponse,
+} from '../../../server/src/api/types';
+import type { OrganizationMemberRole } from '../../../server/src/db/tables';
+
+const MEMBER_ROLE_LABELS: Record<OrganizationMemberRole, string> = {
+  owner: 'Owner',
+  coordinator: 'Coordinator',
+  viewer: 'Viewer',
+};
+
+const MEMBER_ROLES = Object.keys(MEMBER_ROLE_LABELS) as OrganizationMemberRole[];
+
+const getTeam = async () => {
+  const [me, { members }] = await Promise.all([
+    requestServer<OrganizationGetMeResponse>('/organization/me', { includeJwt: true }),
+    requestServer<OrganizationMembersResponse>('/organization/members', { includeJwt: true }),
+  ]);
+  return { members, role: me.organization_role, memberId: me.member?.id ?? null };
+};
+
+function OrganizationMembersCard() {
+  const notifications = useNotifications();
+  const { data: team, loading, trigger: refreshTeam } = useAsync(getTeam, { immediate: true });
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrganizationMemberRole>('coordinator');
+
+  const isOwner = team?.role === 'owner';
+
+  const { loading: inviting, trigger: triggerInvite } = useAsync(
+    async (email: string, role: OrganizationMemberRole) => requestServer<OrganizationMemberInviteResponse>('/organization/members', {
+      method: 'POST',
+      body: { email, role },
+      includeJwt: true,
+    }),
+    { notifyOnError: true },
+  );
+
+  const { loading: updating, trigger: triggerUpdate } = useAsync(
+    async (memberId: number, role: OrganizationMemberRole) => requestServer<OrganizationMemberUpdateResponse>(`/organization/members/${memberId}`, {
+      method: 'PATCH',
+      body: { role },
+      includeJwt: true,
+    }),
+    { notifyOnError: true },
+  );
+
+  const { loading: removing, trigger: triggerRemove } = useAsync(
+    async (memberId: number) => requestServer(`/organization/members/${memberId}`, {
+      method: 'DELETE',
+      includeJwt: true,
+    }),
+    { notifyOnError: true },
+  );
+
+  const inviteMember = useCallback(async (event: FormEvent) => {
+    event.preventDefault();
+    const email = inviteEmail.trim();
+    if (!email) return;
+
+    try {
+      await triggerInvite(email, inviteRole);
+    } catch {
+      return;
+    }
+
+    notifications.push({ type: 'success', message: `Invitation sent to ${email}.` });
+    setInviteEmail('');
+    await refreshTeam();
+  }, [inviteEmail, inviteRole, notifications, refreshTeam, triggerInvite]);
+
+  const changeRole = useCallback(async (memberId: number, role: OrganizationMemberRole) => {
+    try {
+      await triggerUpdate(memberId, role);
+    } catch {
+      return;
+    }
+
+    await refreshTeam();
+  }, [refreshTeam, triggerUpdate]);
+
+  const removeMember = useCallback(async (memberId: number) => {
+    try {
+      await triggerRemove(memberId);
+    } catch {
+      return;
+    }
+
+    notifications.push({ type: 'success', message: 'Member removed.' });
+    await refreshTeam();
+  }, [notifications, refreshTeam, triggerRemove]);
+
+  return (
+    <Card
+      title="Team Members"
+      description="Invite people to help manage your organization. Coordinators can manage postings and attendance, viewers can only look."
+      Icon={Users}
+      color={DOMAIN_COLORS.account}
+    >
+      {loading && !team
+        ? <Loading size="md" />
+        : !team || team.members.length === 0
+            ? <p className="text-sm opacity-70">Nobody else has been invited yet.</p>
+            : (
+                <ul className="space-y-2">
+                  {team.members.map((member) => {
+                    const canManage = isOwner && member.id !== team.memberId;
+
+                    return (
+                      <li key={member.id} className="flex items-center justify-between gap-3 rounded-box border border-base-300 p-3">
+                        <div className="min-w-0 text-sm">
+                          <p className="font-semibold">
+                            {member.joined_at ? `${member.first_name} ${member.last_name}` : 'Invitation pending'}
+                          </p>
+                          <p className="opacity-70 truncate">{member.email}</p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {canManage
+                            ? (
+                                <select
+                                  className="select select-bordered select-sm"
+                                  value={member.role}
+                                  disabled={updating}
+                                  onChange={(event) => { void changeRole(member.id, event.target.value as OrganizationMemberRole); }}
+                                  aria-label={`Role for ${member.email}`}
+                                >
+                                  {MEMBER_ROLES.map(role => (
+                                    <option key={role} value={role}>{MEMBER_ROLE_LABELS[role]}</option>
+                                  ))}
+                                </select>
+                              )
+                            : <span className="badge badge-ghost">{MEMBER_ROLE_LABELS[member.role]}</span>}
+                          {canManage && (
+                            <Button
+                              size="sm"
+                              color="error"
+                              style="outline"
+                              Icon={Trash2}
+                              disabled={removing}
+                              onClick={() => { void removeMember(member.id); }}
+                            >
+                              Remove
+                            </Button>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+      {isOwner && (
+        <form className="flex flex-wrap items-end gap-2 mt-4" onSubmit={(event) => { void inviteMember(event); }}>
+          <input
+            type="email"
+            className="input input-bordered input-sm flex-1 min-w-48"
+            placeholder="teammate@example.com"
+            value={inviteEmail}
+            onChange={event => setInviteEmail(event.target.value)}
+            aria-label="Invite email"
+            required
+          />
+          <select
+            className="select select-bordered select-sm"
+            value={inviteRole}
+            onChange={event => setInviteRole(event.target.value as OrganizationMemberRole)}
+            aria-label="Invite role"
+          >
+            {MEMBER_ROLES.map(role => (
+              <option key={role} value={role}>{MEMBER_ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+          <Button size="sm" color="primary" type="submit" Icon={Send} loading={inviting}>
+            Invite
+          </Button>
+        </form>
+      )}
+    </Card>
+  );
+}
+
+export default OrganizationMembersCard;
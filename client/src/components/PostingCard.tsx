@@ -6,7 +6,8 @@ import Card from './Card';
 import OrganizationProfilePicture from './OrganizationProfilePicture';
 import PostingDateTime from './PostingDateTime.tsx';
 import { DOMAIN_COLORS } from '../constants';
-import { formatCardDate, formatTime12Hour, hasPostingEnded, isPostingFullyBooked, normalizeTimestamp } from './postings/postingUtils';
+import PostingSearchSnippet from './postings/PostingSearchSnippet';
+import { formatCardDate, formatPostingDistance, formatTime12Hour, hasPostingEnded, isPostingFullyBooked, normalizeTimestamp } from './postings/postingUtils';
 import useNow from './postings/useNow.ts';
 import SkillsList from './skills/SkillsList';
 
@@ -50,6 +51,7 @@ function PostingCard({
   const startTimeStr = formatTime12Hour(startTimeValue) || (startDt ? startDt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', hour12: true }) : '');
   const endTimeStr = formatTime12Hour(endTimeValue) || (endDt ? endDt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', hour12: true }) : '');
   const isSingleDayPosting = !hasEndDate || startDateStr === endDateStr;
+  const distanceText = formatPostingDistance(posting.distance_km);
   const shouldShowVolunteerCapacity = posting.max_volunteers != null && (!posting.allows_partial_attendance || isSingleDayPosting);
   const shouldShowVolunteerCountOnly = !shouldShowVolunteerCapacity;
 
@@ -185,6 +187,8 @@ function PostingCard({
         </div>
       </div>
 
+      <PostingSearchSnippet snippet={posting.search_snippet} className="px-4 md:px-5 pb-3" />
+
       <div className="pt-1 pb-3 border-t border-base-200">
         <div className="px-4 md:px-5 flex justify-between items-start text-sm text-muted gap-6 pt-2">
           <PostingDateTime
@@ -204,6 +208,7 @@ function PostingCard({
               <div>
                 <p className="text-xs opacity-70">LOCATION</p>
                 <p className="text-sm">{posting.location_name || 'TBA'}</p>
+                {distanceText && <p className="text-xs opacity-70">{distanceText}</p>}
               </div>
             </div>
 
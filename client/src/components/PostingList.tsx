@@ -4,7 +4,8 @@ import { Link } from 'react-router-dom';
 
 import OrganizationProfilePicture from './OrganizationProfilePicture';
 import { DOMAIN_COLORS } from '../constants';
-import { formatCardDate, formatTime12Hour, hasPostingEnded, isPostingFullyBooked, normalizeTimestamp } from './postings/postingUtils';
+import PostingSearchSnippet from './postings/PostingSearchSnippet';
+import { formatCardDate, formatPostingDistance, formatTime12Hour, hasPostingEnded, isPostingFullyBooked, normalizeTimestamp } from './postings/postingUtils';
 import useNow from './postings/useNow.ts';
 import SkillsList from './skills/SkillsList';
 
@@ -59,7 +60,10 @@ function PostingList({
   const volunteerCountText = posting.max_volunteers
     ? `${volunteerFilled}/${posting.max_volunteers}`
     : `${volunteerFilled}`;
-  const locationText = posting.location_name || 'TBA';
+  const distanceText = formatPostingDistance(posting.distance_km);
+  const locationText = distanceText
+    ? `${posting.location_name || 'TBA'} · ${distanceText}`
+    : posting.location_name || 'TBA';
   const isPostingFull = isPostingFullyBooked(posting);
 
   const statusTag = hasEnded
@@ -262,6 +266,8 @@ function PostingList({
 
               <span className={`-ml-8 hidden min-w-0 truncate justify-self-start text-xs font-medium text-base-content ${outsideMetaValueVisibleClass}`}>{locationText}</span>
             </div>
+
+            <PostingSearchSnippet snippet={posting.search_snippet} className="mt-1" />
           </div>
         </div>
 
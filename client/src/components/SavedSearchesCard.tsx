@@ -0,0 +1,158 @@
+import { BookmarkCheck, Check, Pencil, Search, Trash2, X } from 'lucide-react';
+import { useCallback, useState } from 'react';
+
+import Button from './Button';
+import Card from './Card';
+import IconButton from './IconButton';
+import LinkButton from './LinkButton';
+import Loading from './Loading';
+import { describeSavedSearchFilters, savedSearchAlertFrequencyOptions } from './postings/savedSearchFilters';
+import useNotifications from '../notifications/useNotifications';
+import requestServer from '../utils/requestServer';
+import useAsync from '../utils/useAsync';
+
+import type { VolunteerSavedSearchesResponse, VolunteerSavedSearchResponse } from '../../../server/src/api/types';
+import type { SavedSearch, SavedSearchAlertFrequency } from '../../../server/src/db/tables';
+
+const getSavedSearches = async () => {
+  const response = await requestServer<VolunteerSavedSearchesResponse>('/volunteer/saved-searches', { includeJwt: true });
+  return response.saved_searches;
+};
+
+function SavedSearchRow({ savedSearch, onUpdated, onDeleted }: {
+  savedSearch: SavedSearch;
+  onUpdated: (savedSearch: SavedSearch) => void;
+  onDeleted: (id: number) => void;
+}) {
+  const notifications = useNotifications();
+  const [editingName, setEditingName] = useState<string | null>(null);
+
+  const { loading: saving, trigger: triggerUpdate } = useAsync(
+    async (body: { name?: string; alert_frequency?: SavedSearchAlertFrequency }) => requestServer<VolunteerSavedSearchResponse>(
+      `/volunteer/saved-searches/${savedSearch.id}`,
+      { method: 'PUT', body, includeJwt: true },
+    ),
+    { notifyOnError: true },
+  );
+
+  const { loading: deleting, trigger: triggerDelete } = useAsync(
+    async () => requestServer(`/volunteer/saved-searches/${savedSearch.id}`, { method: 'DELETE', includeJwt: true }),
+    { notifyOnError: true },
+  );
+
+  const update = async (body: { name?: string; alert_frequency?: SavedSearchAlertFrequency }) => {
+    try {
+      onUpdated((await triggerUpdate(body)).saved_search);
+    } catch {
+      return;
+    }
+
+    setEditingName(null);
+  };
+
+  const remove = async () => {
+    try {
+      await triggerDelete();
+    } catch {
+      return;
+    }
+
+    onDeleted(savedSearch.id);
+    notifications.push({ type: 'success', message: `Saved search "${savedSearch.name}" deleted.` });
+  };
+
+  return (
+    <li className="flex flex-col gap-3 py-3 sm:flex-row sm:items-center">
+      <div className="min-w-0 flex-1">
+        {editingName === null
+          ? (
+              <div className="flex items-center gap-1">
+                <span className="font-medium truncate">{savedSearch.name}</span>
+                <IconButton size="sm" type="button" Icon={Pencil} onClick={() => setEditingName(savedSearch.name)} aria-label="Rename saved search" />
+              </div>
+            )
+          : (
+              <form
+                className="flex items-center gap-1"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  void update({ name: editingName });
+                }}
+              >
+                <input
+                  type="text"
+                  className="input input-bordered input-sm w-full"
+                  value={editingName}
+                  maxLength={128}
+                  aria-label="Saved search name"
+                  onChange={event => setEditingName(event.target.value)}
+                />
+                <IconButton size="sm" type="submit" Icon={Check} disabled={saving || !editingName.trim()} aria-label="Save name" />
+                <IconButton size="sm" type="button" Icon={X} onClick={() => setEditingName(null)} aria-label="Cancel rename" />
+              </form>
+            )}
+        <p className="text-xs opacity-70 truncate">{describeSavedSearchFilters(savedSearch.filters)}</p>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="select select-bordered select-sm"
+          value={savedSearch.alert_frequency}
+          disabled={saving}
+          aria-label={`Alerts for ${savedSearch.name}`}
+          onChange={(event) => { void update({ alert_frequency: event.target.value as SavedSearchAlertFrequency }); }}
+        >
+          {savedSearchAlertFrequencyOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <LinkButton size="sm" style="outline" Icon={Search} to={`/volunteer/search?saved_search=${savedSearch.id}`}>
+          Open
+        </LinkButton>
+        <Button size="sm" style="outline" color="error" Icon={Trash2} loading={deleting} onClick={() => { void remove(); }}>
+          Delete
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+function SavedSearchesCard() {
+  const { data: loadedSavedSearches, loading } = useAsync(getSavedSearches, { immediate: true });
+  const [updatedSavedSearches, setUpdatedSavedSearches] = useState<SavedSearch[] | null>(null);
+  const savedSearches = updatedSavedSearches ?? loadedSavedSearches;
+
+  const onUpdated = useCallback((savedSearch: SavedSearch) => {
+    setUpdatedSavedSearches((savedSearches ?? []).map(current => (current.id === savedSearch.id ? savedSearch : current)));
+  }, [savedSearches]);
+
+  const onDeleted = useCallback((id: number) => {
+    setUpdatedSavedSearches((savedSearches ?? []).filter(current => current.id !== id));
+  }, [savedSearches]);
+
+  return (
+    <Card
+      title="Saved Searches"
+      description="Get alerted when new postings match a search. Save a search from the search page, then choose how often you hear about it here."
+      Icon={BookmarkCheck}
+    >
+      {loading && !savedSearches
+        ? <Loading size="md" />
+        : savedSearches && savedSearches.length > 0
+          ? (
+              <ul className="divide-y divide-base-300">
+                {savedSearches.map(savedSearch => (
+                  <SavedSearchRow
+                    key={savedSearch.id}
+                    savedSearch={savedSearch}
+                    onUpdated={onUpdated}
+                    onDeleted={onDeleted}
+                  />
+                ))}
+              </ul>
+            )
+          : <p className="text-sm opacity-70">You have no saved searches yet.</p>}
+    </Card>
+  );
+}
+
+export default SavedSearchesCard;
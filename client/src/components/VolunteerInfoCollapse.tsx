@@ -1,8 +1,9 @@
-import { Cake, FileText, Mail, Mars, MessageSquare, Venus } from 'lucide-react';
+import { Cake, FileText, Mail, Mars, MessageSquare, UserCheck, Venus } from 'lucide-react';
 import { useMemo, useState, type ReactNode } from 'react';
 import { Link } from 'react-router-dom';
 
 import IconButton from './IconButton';
+import { guardianConsentStatusBadgeClasses, guardianConsentStatusLabels } from './postings/postingUtils';
 import SkillsList from './skills/SkillsList';
 import { SERVER_BASE_URL } from '../utils/requestServer';
 
@@ -82,6 +83,8 @@ function VolunteerInfoCollapse({ volunteer, actions, profileLink }: VolunteerInf
 
   const dates = 'dates' in volunteer ? volunteer.dates : undefined;
   const requestedDates = 'requested_dates' in volunteer ? volunteer.requested_dates : undefined;
+  const answers = 'answers' in volunteer ? volunteer.answers : undefined;
+  const guardianConsent = volunteer.guardian_consent;
 
   return (
     <div className="collapse collapse-arrow border border-base-300 bg-base-100">
@@ -122,6 +125,15 @@ function VolunteerInfoCollapse({ volunteer, actions, profileLink }: VolunteerInf
                           years old
                         </span>
                       </span>
+                      {volunteer.role_name && (
+                        <span className="badge badge-sm badge-outline badge-primary">{volunteer.role_name}</span>
+                      )}
+                      {guardianConsent && (
+                        <span className={`badge badge-sm gap-1 ${guardianConsentStatusBadgeClasses[guardianConsent.status]}`}>
+                          <UserCheck size={12} />
+                          <span className="max-sm:hidden">{guardianConsentStatusLabels[guardianConsent.status]}</span>
+                        </span>
+                      )}
                     </div>
                   </div>
                 </Link>
@@ -155,6 +167,15 @@ function VolunteerInfoCollapse({ volunteer, actions, profileLink }: VolunteerInf
                           years old
                         </span>
                       </span>
+                      {volunteer.role_name && (
+                        <span className="badge badge-sm badge-outline badge-primary">{volunteer.role_name}</span>
+                      )}
+                      {guardianConsent && (
+                        <span className={`badge badge-sm gap-1 ${guardianConsentStatusBadgeClasses[guardianConsent.status]}`}>
+                          <UserCheck size={12} />
+                          <span className="max-sm:hidden">{guardianConsentStatusLabels[guardianConsent.status]}</span>
+                        </span>
+                      )}
                     </div>
                   </div>
                 </>
@@ -222,6 +243,34 @@ function VolunteerInfoCollapse({ volunteer, actions, profileLink }: VolunteerInf
             </p>
           </div>
         )}
+        {guardianConsent && (
+          <div className="mt-3">
+            <p className="text-xs font-semibold opacity-70 mb-1">Guardian Consent</p>
+            <p className="text-sm">
+              {guardianConsentStatusLabels[guardianConsent.status]}
+              {guardianConsent.guardian_name ? ` by ${guardianConsent.guardian_name}` : ''}
+              {' '}
+              <span className="opacity-70">
+                (
+                {guardianConsent.guardian_email}
+                )
+              </span>
+            </p>
+          </div>
+        )}
+        {answers && answers.length > 0 && (
+          <div className="mt-3">
+            <p className="text-xs font-semibold opacity-70 mb-1">Application Answers</p>
+            <dl className="space-y-2">
+              {answers.map(answer => (
+                <div key={answer.question_id}>
+                  <dt className="text-xs opacity-70">{answer.prompt}</dt>
+                  <dd className="text-sm">{answer.type === 'yes_no' ? (answer.answer === 'yes' ? 'Yes' : 'No') : answer.answer}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
       </div>
     </div>
   );
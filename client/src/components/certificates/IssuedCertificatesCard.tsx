@@ -0,0 +1,162 @@
+import { Ban, Download, ScrollText } from 'lucide-react';
+import { useCallback, useState } from 'react';
+
+import { downloadCertificatePdf } from './certificatePdf';
+import { DOMAIN_COLORS } from '../../constants';
+import useNotifications from '../../notifications/useNotifications';
+import requestServer from '../../utils/requestServer';
+import useAsync from '../../utils/useAsync';
+import Button from '../Button';
+import Card from '../Card';
+import CustomMessageModal from '../CustomMessageModal';
+import Loading from '../Loading';
+
+import type { IssuedCertificateWithContext } from '../../../../server/src/types';
+
+interface IssuedCertificatesCardProps {
+  endpoint: string;
+  title?: string;
+  description?: string;
+  canRevoke?: boolean;
+  canDownload?: boolean;
+  showVolunteer?: boolean;
+}
+
+const formatHours = (hours: number) => (Number.isInteger(hours) ? String(hours) : hours.toFixed(1));
+
+function IssuedCertificatesCard({
+  endpoint,
+  title = 'Issued Certificates',
+  description = 'Certificates that have been generated and can be verified publicly.',
+  canRevoke = false,
+  canDownload = false,
+  showVolunteer = false,
+}: IssuedCertificatesCardProps) {
+  const notifications = useNotifications();
+  const [revokingCertificate, setRevokingCertificate] = useState<IssuedCertificateWithContext | null>(null);
+  const [revoking, setRevoking] = useState(false);
+
+  const getCertificates = useCallback(async () => {
+    const response = await requestServer<{ certificates: IssuedCertificateWithContext[] }>(endpoint, {
+      includeJwt: true,
+    });
+    return response.certificates;
+  }, [endpoint]);
+
+  const { data: certificates, loading, trigger: refreshCertificates } = useAsync(getCertificates, { immediate: true });
+
+  const { loading: downloading, trigger: downloadCertificate } = useAsync(downloadCertificatePdf, { notifyOnError: true });
+
+  const revokeCertificate = useCallback(async (reason?: string) => {
+    if (!revokingCertificate) return;
+    if (!reason) {
+      notifications.push({ type: 'error', message: 'Please provide a reason for revoking this certificate.' });
+      return;
+    }
+
+    try {
+      setRevoking(true);
+      await requestServer(`${endpoint}/${revokingCertificate.id}/revoke`, {
+        method: 'POST',
+        body: { reason },
+        includeJwt: true,
+      });
+      notifications.push({ type: 'success', message: 'Certificate revoked.' });
+      setRevokingCertificate(null);
+      await refreshCertificates();
+    } catch (error) {
+      notifications.push({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Failed to revoke certificate.',
+      });
+    } finally {
+      setRevoking(false);
+    }
+  }, [endpoint, notifications, refreshCertificates, revokingCertificate]);
+
+  return (
+    <Card
+      title={title}
+      description={description}
+      Icon={ScrollText}
+      color={DOMAIN_COLORS.certificate}
+    >
+      {loading && !certificates
+        ? <Loading size="md" />
+        : !certificates || certificates.length === 0
+            ? <p className="text-sm opacity-70">No certificates have been issued yet.</p>
+            : (
+                <ul className="space-y-2">
+                  {certificates.map(certificate => (
+                    <li
+                      key={certificate.id}
+                      className={`flex items-start justify-between gap-3 rounded-box border border-base-300 p-3 ${certificate.revoked_at ? 'opacity-70' : ''}`}
+                    >
+                      <div className="min-w-0 text-sm space-y-1">
+                        {showVolunteer && <p className="font-semibold">{certificate.volunteer_name}</p>}
+                        <p>
+                          {`Issued ${new Date(certificate.issued_at).toLocaleDateString()} · ${formatHours(certificate.total_hours)} hours`}
+                        </p>
+                        <p className="opacity-70">
+                          {certificate.organizations.map(organization => organization.name).join(', ') || 'Platform only'}
+                        </p>
+                        {certificate.revoked_at && (
+                          <p className="text-error">
+                            {`Revoked ${new Date(certificate.revoked_at).toLocaleDateString()}`}
+                            {certificate.revocation_reason && `: ${certificate.revocation_reason}`}
+                          </p>
+                        )}
+                      </div>
+                      {certificate.revoked_at
+                        ? <span className="badge badge-error badge-sm shrink-0">Revoked</span>
+                        : (
+                            <div className="flex gap-2 shrink-0">
+                              {canDownload && (
+                                <Button
+                                  size="sm"
+                                  style="outline"
+                                  Icon={Download}
+                                  disabled={downloading}
+                                  onClick={() => { void downloadCertificate(certificate.id); }}
+                                >
+                                  PDF
+                                </Button>
+                              )}
+                              {canRevoke && (
+                                <Button
+                                  size="sm"
+                                  color="error"
+                                  style="outline"
+                                  Icon={Ban}
+                                  onClick={() => setRevokingCertificate(certificate)}
+                                >
+                                  Revoke
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+      {canRevoke && (
+        <CustomMessageModal
+          open={revokingCertificate !== null}
+          submitting={revoking}
+          onClose={() => setRevokingCertificate(null)}
+          onSubmit={revokeCertificate}
+          title="Revoke certificate"
+          placeholder="Why is this certificate being revoked?"
+          submitLabel="Revoke Certificate"
+        >
+          <p className="text-sm opacity-70">
+            Revoked certificates will show as invalid on the public verification page. This cannot be undone.
+          </p>
+        </CustomMessageModal>
+      )}
+    </Card>
+  );
+}
+
+export default IssuedCertificatesCard;
@@ -0,0 +1,37 @@
+import { SERVER_BASE_URL } from '../../utils/requestServer';
+
+export const downloadCertificatePdf = async (certificateId: number) => {
+  const token = localStorage.getItem('jwt');
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${SERVER_BASE_URL}/volunteer/certificate/issued/${certificateId}/pdf`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    let messageText = `Failed to download certificate (status ${response.status})`;
+    try {
+      const errorBody = await response.json();
+      messageText = errorBody.message ?? messageText;
+    } catch {
+      // Ignore non-JSON response body
+    }
+    throw new Error(messageText);
+  }
+
+  const blob = await response.blob();
+  const contentDisposition = response.headers.get('Content-Disposition');
+  const filename = contentDisposition?.match(/filename="([^"]+)"/)?.[1] ?? `willing-certificate-${certificateId}.pdf`;
+
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
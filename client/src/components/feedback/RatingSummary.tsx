@@ -0,0 +1,26 @@
+import StarRating from './StarRating';
+
+import type { OrganizationRatingSummary } from '../../../../server/src/types';
+
+interface RatingSummaryProps {
+  rating: OrganizationRatingSummary;
+  size?: 'xs' | 'sm' | 'md';
+}
+
+function RatingSummary({ rating, size = 'sm' }: RatingSummaryProps) {
+  if (rating.review_count === 0 || rating.average_rating === null) {
+    return <p className="text-sm opacity-70">No reviews yet</p>;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <StarRating value={rating.average_rating} size={size} />
+      <span className="text-sm">
+        <span className="font-semibold">{rating.average_rating.toFixed(1)}</span>
+        <span className="opacity-70">{` · ${rating.review_count} ${rating.review_count === 1 ? 'review' : 'reviews'}`}</span>
+      </span>
+    </div>
+  );
+}
+
+export default RatingSummary;
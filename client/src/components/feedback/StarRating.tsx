@@ -0,0 +1,52 @@
+interface StarRatingProps {
+  value: number | null;
+  onChange?: (value: number) => void;
+  size?: 'xs' | 'sm' | 'md';
+  disabled?: boolean;
+  label?: string;
+}
+
+// Tailwind safelists
+// rating-xs
+// rating-sm
+// rating-md
+
+const STARS = [1, 2, 3, 4, 5];
+
+/**
+ * Five-star rating. Read-only unless `onChange` is given; read-only values are rounded to the nearest star.
+ */
+function StarRating({ value, onChange, size = 'md', disabled = false, label = 'Rating' }: StarRatingProps) {
+  if (!onChange) {
+    const roundedValue = value === null ? 0 : Math.round(value);
+
+    return (
+      <div className={`rating rating-${size}`} role="img" aria-label={value === null ? 'Not rated yet' : `${value} out of 5 stars`}>
+        {STARS.map(star => (
+          <div
+            key={star}
+            className={`mask mask-star-2 ${star <= roundedValue ? 'bg-warning' : 'bg-base-300'}`}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`rating rating-${size}`} role="radiogroup" aria-label={label}>
+      {STARS.map(star => (
+        <input
+          key={star}
+          type="radio"
+          className="mask mask-star-2 bg-warning"
+          aria-label={`${star} star${star === 1 ? '' : 's'}`}
+          checked={value === star}
+          onChange={() => onChange(star)}
+          disabled={disabled}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default StarRating;
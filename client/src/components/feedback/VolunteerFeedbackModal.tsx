@@ -0,0 +1,85 @@
+import { Save, Trash2, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import StarRating from './StarRating';
+import Button from '../Button';
+import Modal from '../Modal';
+
+import type { VolunteerFeedback } from '../../../../server/src/db/tables';
+
+type VolunteerFeedbackModalProps = {
+  open: boolean;
+  volunteerName: string;
+  feedback: VolunteerFeedback | null;
+  onClose: () => void;
+  onSave: (rating: number, comment: string | null) => Promise<void>;
+  onDelete: () => Promise<void>;
+};
+
+function VolunteerFeedbackModal({ open, volunteerName, feedback, onClose, onSave, onDelete }: VolunteerFeedbackModalProps) {
+  const [rating, setRating] = useState<number | null>(null);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setRating(feedback?.rating ?? null);
+      setComment(feedback?.comment ?? '');
+    }
+  }, [open, feedback]);
+
+  const submit = async (action: () => Promise<void>) => {
+    setSubmitting(true);
+    try {
+      await action();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={`Feedback for ${volunteerName}`}
+      description="Only your organization and platform admins can see this feedback."
+      onClose={onClose}
+      disableBackdropClose={submitting}
+      showCloseButton={!submitting}
+    >
+      <div className="space-y-3">
+        <StarRating value={rating} onChange={setRating} disabled={submitting} label="Rate this volunteer" />
+        <textarea
+          className="textarea textarea-bordered w-full"
+          placeholder="Reliability, teamwork, anything worth remembering (optional)"
+          maxLength={1000}
+          value={comment}
+          onChange={event => setComment(event.target.value)}
+          disabled={submitting}
+        />
+
+        <div className="modal-action">
+          {feedback && (
+            <Button type="button" color="error" style="outline" Icon={Trash2} onClick={() => void submit(onDelete)} disabled={submitting}>
+              Delete
+            </Button>
+          )}
+          <Button type="button" color="ghost" Icon={X} onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            color="primary"
+            Icon={Save}
+            loading={submitting}
+            disabled={rating === null}
+            onClick={() => void submit(() => onSave(rating!, comment.trim() || null))}
+          >
+            Save Feedback
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export default VolunteerFeedbackModal;
@@ -1,8 +1,9 @@
-import { AlertCircle, ChevronDown, ClipboardCheck, Flag, Home, LogOut, Settings, ShieldUser } from 'lucide-react';
+import { AlertCircle, ChevronDown, ClipboardCheck, Flag, History, Home, LogOut, Settings, ShieldUser, Tags } from 'lucide-react';
 import { useCallback, useContext } from 'react';
 import { NavLink } from 'react-router-dom';
 
 import Navbar from './Navbar';
+import NotificationBell from './NotificationBell';
 import AuthContext from '../../../auth/AuthContext';
 import { useAdmin } from '../../../auth/useUsers';
 
@@ -38,10 +39,18 @@ function AdminNavbar() {
             <AlertCircle size={20} />
             Crises
           </NavLink>
+          <NavLink to="/admin/skills" className={softTabStyle}>
+            <Tags size={20} />
+            Skills
+          </NavLink>
           <NavLink to="/admin/reports" className={softTabStyle}>
             <Flag size={20} />
             Reports
           </NavLink>
+          <NavLink to="/admin/audit-log" className={softTabStyle}>
+            <History size={20} />
+            Audit Log
+          </NavLink>
           <NavLink to="/admin/settings" className={softTabStyle}>
             <Settings size={20} />
             Settings
@@ -49,25 +58,28 @@ function AdminNavbar() {
         </>
       )}
       right={admin && (
-        <div className="dropdown dropdown-bottom dropdown-end">
-          <div tabIndex={0} role="button" className="btn btn-ghost m-1">
-            <ShieldUser size={20} />
-            <span className="hidden sm:inline">
-              {`${admin.first_name} ${admin.last_name}`}
-            </span>
-            <ChevronDown size={14} className="opacity-50" />
+        <div className="flex items-center">
+          <NotificationBell />
+          <div className="dropdown dropdown-bottom dropdown-end">
+            <div tabIndex={0} role="button" className="btn btn-ghost m-1">
+              <ShieldUser size={20} />
+              <span className="hidden sm:inline">
+                {`${admin.first_name} ${admin.last_name}`}
+              </span>
+              <ChevronDown size={14} className="opacity-50" />
+            </div>
+            <ul tabIndex={-1} className="dropdown-content menu bg-base-100 rounded-box z-1 w-52 p-2 shadow-sm">
+              <span className="sm:hidden inline mx-2 my-4 opacity-50">
+                {`${admin.first_name} ${admin.last_name}`}
+              </span>
+              <li>
+                <button onClick={handleLogout}>
+                  <LogOut size={16} />
+                  Logout
+                </button>
+              </li>
+            </ul>
           </div>
-          <ul tabIndex={-1} className="dropdown-content menu bg-base-100 rounded-box z-1 w-52 p-2 shadow-sm">
-            <span className="sm:hidden inline mx-2 my-4 opacity-50">
-              {`${admin.first_name} ${admin.last_name}`}
-            </span>
-            <li>
-              <button onClick={handleLogout}>
-                <LogOut size={16} />
-                Logout
-              </button>
-            </li>
-          </ul>
         </div>
       )}
     />
@@ -0,0 +1,118 @@
+import { Bell, CheckCheck } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import requestServer from '../../../utils/requestServer';
+
+import type {
+  UserNotificationReadResponse,
+  UserNotificationsReadAllResponse,
+  UserNotificationsResponse,
+} from '../../../../../server/src/api/types.ts';
+import type { Notification } from '../../../../../server/src/db/tables/index.ts';
+
+const POLL_INTERVAL_MS = 60_000;
+
+function NotificationBell() {
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const response = await requestServer<UserNotificationsResponse>('/user/notifications', { includeJwt: true });
+      setNotifications(response.notifications);
+      setUnreadCount(response.unread_count);
+    } catch {
+      // The bell stays on its last known state until the next poll
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+    const intervalId = window.setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [loadNotifications]);
+
+  const openNotification = useCallback(async (notification: Notification) => {
+    (document.activeElement as HTMLElement)?.blur();
+
+    if (!notification.read_at) {
+      const response = await requestServer<UserNotificationReadResponse>(`/user/notifications/${notification.id}/read`, {
+        method: 'POST',
+        includeJwt: true,
+      });
+      setNotifications(current => current.map(item => (item.id === notification.id ? response.notification : item)));
+      setUnreadCount(count => Math.max(0, count - 1));
+    }
+
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  }, [navigate]);
+
+  const markAllRead = useCallback(async () => {
+    await requestServer<UserNotificationsReadAllResponse>('/user/notifications/read-all', {
+      method: 'POST',
+      includeJwt: true,
+    });
+    setNotifications(current => current.map(item => ({ ...item, read_at: item.read_at ?? new Date() })));
+    setUnreadCount(0);
+  }, []);
+
+  return (
+    <div className="dropdown dropdown-bottom dropdown-end">
+      <div
+        tabIndex={0}
+        role="button"
+        className="btn btn-ghost btn-circle"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        onFocus={loadNotifications}
+      >
+        <div className="indicator">
+          <Bell size={18} />
+          {unreadCount > 0 && (
+            <span className="badge badge-primary badge-xs indicator-item">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </div>
+      </div>
+      <div tabIndex={-1} className="dropdown-content bg-base-100 rounded-box z-1 w-80 shadow-sm border border-base-300">
+        <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-base-300">
+          <span className="font-semibold">Notifications</span>
+          {unreadCount > 0 && (
+            <button type="button" className="btn btn-ghost btn-xs" onClick={markAllRead}>
+              <CheckCheck size={14} />
+              Mark all read
+            </button>
+          )}
+        </div>
+        {notifications.length === 0
+          ? <p className="px-4 py-6 text-sm text-center opacity-60">You have no notifications yet.</p>
+          : (
+              <ul className="menu w-full max-h-96 overflow-y-auto flex-nowrap p-2">
+                {notifications.map(notification => (
+                  <li key={notification.id}>
+                    <button
+                      type="button"
+                      className={`flex flex-col items-start gap-1 ${notification.read_at ? 'opacity-60' : ''}`}
+                      onClick={() => openNotification(notification)}
+                    >
+                      <span className="inline-flex items-center gap-2 font-medium">
+                        {!notification.read_at && <span className="status status-primary" />}
+                        {notification.title}
+                      </span>
+                      <span className="text-xs">{notification.message}</span>
+                      <span className="text-xs opacity-60">{new Date(notification.created_at).toLocaleString()}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+      </div>
+    </div>
+  );
+}
+
+export default NotificationBell;
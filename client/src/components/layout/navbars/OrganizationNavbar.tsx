@@ -1,8 +1,9 @@
-import { Building2, LogOut, ChevronDown, Home, Search, Settings, User } from 'lucide-react';
+import { Building2, LogOut, ChevronDown, Home, MessagesSquare, Search, Settings, User } from 'lucide-react';
 import { useCallback, useContext } from 'react';
 import { NavLink } from 'react-router-dom';
 
 import Navbar from './Navbar';
+import NotificationBell from './NotificationBell';
 import AuthContext from '../../../auth/AuthContext';
 import { useOrganization } from '../../../auth/useUsers';
 
@@ -34,6 +35,10 @@ function OrganizationNavbar() {
             <Search size={20} />
             Search
           </NavLink>
+          <NavLink to="/organization/messages" className={softTabStyle}>
+            <MessagesSquare size={20} />
+            Messages
+          </NavLink>
           <NavLink to="/organization/profile" className={softTabStyle}>
             <User size={20} />
             Profile
@@ -45,25 +50,28 @@ function OrganizationNavbar() {
         </>
       )}
       right={organization && (
-        <div className="dropdown dropdown-bottom dropdown-end">
-          <div tabIndex={0} role="button" className="btn btn-ghost m-1">
-            <Building2 size={18} />
-            <span className="hidden sm:inline">
-              {organization.name}
-            </span>
-            <ChevronDown size={14} className="opacity-50" />
+        <div className="flex items-center">
+          <NotificationBell />
+          <div className="dropdown dropdown-bottom dropdown-end">
+            <div tabIndex={0} role="button" className="btn btn-ghost m-1">
+              <Building2 size={18} />
+              <span className="hidden sm:inline">
+                {organization.name}
+              </span>
+              <ChevronDown size={14} className="opacity-50" />
+            </div>
+            <ul tabIndex={-1} className="dropdown-content menu bg-base-100 rounded-box z-1 w-52 p-2 shadow-sm">
+              <span className="sm:hidden inline mx-2 my-4 opacity-50">
+                {`${organization.name}`}
+              </span>
+              <li>
+                <button onClick={handleLogout}>
+                  <LogOut size={16} />
+                  Logout
+                </button>
+              </li>
+            </ul>
           </div>
-          <ul tabIndex={-1} className="dropdown-content menu bg-base-100 rounded-box z-1 w-52 p-2 shadow-sm">
-            <span className="sm:hidden inline mx-2 my-4 opacity-50">
-              {`${organization.name}`}
-            </span>
-            <li>
-              <button onClick={handleLogout}>
-                <LogOut size={16} />
-                Logout
-              </button>
-            </li>
-          </ul>
         </div>
       )}
     />
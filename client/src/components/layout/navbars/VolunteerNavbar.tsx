@@ -1,8 +1,9 @@
-import { User, ChevronDown, LogOut, Home, Search, Settings } from 'lucide-react';
+import { User, ChevronDown, LogOut, Home, Search, Settings, Bookmark, MessagesSquare } from 'lucide-react';
 import { useCallback, useContext } from 'react';
 import { NavLink } from 'react-router-dom';
 
 import Navbar from './Navbar';
+import NotificationBell from './NotificationBell';
 import AuthContext from '../../../auth/AuthContext';
 import { useVolunteer } from '../../../auth/useUsers';
 
@@ -34,6 +35,14 @@ function VolunteerNavbar() {
             <Search size={20} />
             Search
           </NavLink>
+          <NavLink to="/volunteer/saved" className={softTabStyle}>
+            <Bookmark size={20} />
+            Saved
+          </NavLink>
+          <NavLink to="/volunteer/messages" className={softTabStyle}>
+            <MessagesSquare size={20} />
+            Messages
+          </NavLink>
           <NavLink to="/volunteer/profile" className={softTabStyle}>
             <User size={20} />
             Profile
@@ -45,25 +54,28 @@ function VolunteerNavbar() {
         </>
       )}
       right={volunteer && (
-        <div className="dropdown dropdown-bottom dropdown-end">
-          <div tabIndex={0} role="button" className="btn btn-ghost m-1">
-            <User size={18} />
-            <span className="hidden sm:inline">
-              {`${volunteer.first_name} ${volunteer.last_name}`}
-            </span>
-            <ChevronDown size={14} className="opacity-50" />
+        <div className="flex items-center">
+          <NotificationBell />
+          <div className="dropdown dropdown-bottom dropdown-end">
+            <div tabIndex={0} role="button" className="btn btn-ghost m-1">
+              <User size={18} />
+              <span className="hidden sm:inline">
+                {`${volunteer.first_name} ${volunteer.last_name}`}
+              </span>
+              <ChevronDown size={14} className="opacity-50" />
+            </div>
+            <ul tabIndex={-1} className="dropdown-content menu bg-base-100 rounded-box z-1 w-52 p-2 shadow-sm">
+              <span className="sm:hidden inline mx-2 my-4 opacity-50">
+                {`${volunteer.first_name} ${volunteer.last_name}`}
+              </span>
+              <li>
+                <button onClick={handleLogout}>
+                  <LogOut size={16} />
+                  Logout
+                </button>
+              </li>
+            </ul>
           </div>
-          <ul tabIndex={-1} className="dropdown-content menu bg-base-100 rounded-box z-1 w-52 p-2 shadow-sm">
-            <span className="sm:hidden inline mx-2 my-4 opacity-50">
-              {`${volunteer.first_name} ${volunteer.last_name}`}
-            </span>
-            <li>
-              <button onClick={handleLogout}>
-                <LogOut size={16} />
-                Logout
-              </button>
-            </li>
-          </ul>
         </div>
       )}
     />
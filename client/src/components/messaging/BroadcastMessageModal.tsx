@@ -0,0 +1,84 @@
+import { Send, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import useNotifications from '../../notifications/useNotifications';
+import requestServer from '../../utils/requestServer';
+import useAsync from '../../utils/useAsync';
+import Button from '../Button';
+import Modal from '../Modal';
+
+import type { OrganizationMessageBroadcastResponse } from '../../../../server/src/api/types';
+
+type BroadcastMessageModalProps = {
+  open: boolean;
+  postingId: number;
+  enrolledCount: number;
+  onClose: () => void;
+};
+
+function BroadcastMessageModal({ open, postingId, enrolledCount, onClose }: BroadcastMessageModalProps) {
+  const notifications = useNotifications();
+  const [body, setBody] = useState('');
+
+  useEffect(() => {
+    if (open) setBody('');
+  }, [open]);
+
+  const { loading: sending, trigger: broadcast } = useAsync(
+    async (message: string) => requestServer<OrganizationMessageBroadcastResponse>('/organization/messages/broadcast', {
+      method: 'POST',
+      includeJwt: true,
+      body: { posting_id: postingId, body: message },
+    }),
+  );
+
+  const onSend = async () => {
+    const { recipient_count } = await broadcast(body.trim());
+    notifications.push({
+      type: 'success',
+      message: `Message sent to ${recipient_count} volunteer${recipient_count === 1 ? '' : 's'}.`,
+    });
+    onClose();
+  };
+
+  return (
+    <Modal
+      open={open}
+      title="Message all enrolled volunteers"
+      description={`Each of the ${enrolledCount} enrolled volunteers receives it in their own conversation, so replies stay private.`}
+      onClose={onClose}
+      disableBackdropClose={sending}
+      showCloseButton={!sending}
+    >
+      <div className="space-y-3">
+        <textarea
+          className="textarea textarea-bordered w-full"
+          placeholder="Meeting point, what to bring, schedule changes..."
+          maxLength={5000}
+          rows={5}
+          value={body}
+          onChange={event => setBody(event.target.value)}
+          disabled={sending}
+        />
+
+        <div className="modal-action">
+          <Button type="button" color="ghost" onClick={onClose} disabled={sending} Icon={X}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            color="primary"
+            loading={sending}
+            disabled={!body.trim()}
+            Icon={Send}
+            onClick={() => { void onSend().catch(() => {}); }}
+          >
+            Send to All
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export default BroadcastMessageModal;
@@ -0,0 +1,182 @@
+import { Check, CheckCheck, Paperclip, Send, X } from 'lucide-react';
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+
+import { SERVER_BASE_URL } from '../../utils/requestServer';
+import Button from '../Button';
+import IconButton from '../IconButton';
+
+import type { MessageSenderRole } from '../../../../server/src/db/tables';
+import type { MessageWithSender } from '../../../../server/src/types';
+
+type MessageConversationProps = {
+  threadId: number;
+  messages: MessageWithSender[];
+  viewerRole: MessageSenderRole;
+  onSend: (body: string, attachment: File | null) => Promise<void>;
+};
+
+const formatMessageTime = (value: Date | string) => new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+}).format(new Date(value));
+
+function MessageConversation({ threadId, messages, viewerRole, onSend }: MessageConversationProps) {
+  const [body, setBody] = useState('');
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [sending, setSending] = useState(false);
+  const [openingAttachmentId, setOpeningAttachmentId] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages]);
+
+  const clearAttachment = () => {
+    setAttachment(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!body.trim() && !attachment) return;
+
+    setSending(true);
+    try {
+      await onSend(body.trim(), attachment);
+      setBody('');
+      clearAttachment();
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const openAttachment = async (messageId: number) => {
+    const token = localStorage.getItem('jwt');
+    if (!token) return;
+
+    setOpeningAttachmentId(messageId);
+    try {
+      const response = await fetch(`${SERVER_BASE_URL}/${viewerRole}/messages/threads/${threadId}/messages/${messageId}/attachment`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to download attachment');
+
+      const blob = await response.blob();
+      const previewUrl = URL.createObjectURL(blob);
+      window.open(previewUrl, '_blank', 'noopener,noreferrer');
+      setTimeout(() => URL.revokeObjectURL(previewUrl), 60_000);
+    } finally {
+      setOpeningAttachmentId(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="max-h-[60vh] overflow-y-auto pr-1">
+        {messages.length === 0 && (
+          <p className="text-sm opacity-60 text-center py-6">No messages yet. Say hello!</p>
+        )}
+        {messages.map((message) => {
+          const isOwn = message.sender_role === viewerRole;
+
+          return (
+            <div key={message.id} className={`chat ${isOwn ? 'chat-end' : 'chat-start'}`}>
+              <div className="chat-header text-xs opacity-70">
+                {message.sender_name}
+                <time className="ml-1">{formatMessageTime(message.created_at)}</time>
+              </div>
+              <div className={`chat-bubble whitespace-pre-wrap ${isOwn ? 'chat-bubble-primary' : ''}`}>
+                {message.body}
+                {message.attachment_name && (
+                  <button
+                    type="button"
+                    className={`link flex items-center gap-1 text-sm ${message.body ? 'mt-1' : ''}`}
+                    onClick={() => { void openAttachment(message.id).catch(() => {}); }}
+                    disabled={openingAttachmentId === message.id}
+                  >
+                    <Paperclip size={14} />
+                    {message.attachment_name}
+                  </button>
+                )}
+              </div>
+              {isOwn && (
+                <div className="chat-footer text-xs opacity-60 flex items-center gap-1">
+                  {message.read_at
+                    ? (
+                        <>
+                          <CheckCheck size={12} />
+                          {`Seen ${formatMessageTime(message.read_at)}`}
+                        </>
+                      )
+                    : (
+                        <>
+                          <Check size={12} />
+                          Sent
+                        </>
+                      )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      <form className="space-y-2" onSubmit={event => void submit(event)}>
+        <textarea
+          className="textarea textarea-bordered w-full"
+          placeholder="Write a message"
+          maxLength={5000}
+          value={body}
+          onChange={event => setBody(event.target.value)}
+          disabled={sending}
+        />
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".pdf,.png,.jpg,.jpeg"
+              className="hidden"
+              onChange={event => setAttachment(event.target.files?.[0] ?? null)}
+            />
+            <Button
+              type="button"
+              size="sm"
+              style="outline"
+              Icon={Paperclip}
+              onClick={() => fileInputRef.current?.click()}
+              disabled={sending}
+            >
+              Attach
+            </Button>
+            {attachment && (
+              <span className="flex items-center gap-1 text-sm min-w-0">
+                <span className="truncate">{attachment.name}</span>
+                <IconButton type="button" size="xs" Icon={X} onClick={clearAttachment} disabled={sending} aria-label="Remove attachment" />
+              </span>
+            )}
+          </div>
+          <Button
+            type="submit"
+            color="primary"
+            size="sm"
+            Icon={Send}
+            loading={sending}
+            disabled={!body.trim() && !attachment}
+          >
+            Send
+          </Button>
+        </div>
+        <p className="text-xs opacity-60">PDF, PNG or JPG attachments up to 5 MB.</p>
+      </form>
+    </div>
+  );
+}
+
+export default MessageConversation;
@@ -0,0 +1,64 @@
+import { Inbox, Paperclip } from 'lucide-react';
+
+import EmptyState from '../EmptyState';
+
+import type { MessageSenderRole } from '../../../../server/src/db/tables';
+import type { MessageThreadSummary } from '../../../../server/src/types';
+
+type MessageThreadListProps = {
+  threads: MessageThreadSummary[];
+  viewerRole: MessageSenderRole;
+  selectedThreadId: number | null;
+  onSelect: (threadId: number) => void;
+};
+
+function MessageThreadList({ threads, viewerRole, selectedThreadId, onSelect }: MessageThreadListProps) {
+  if (threads.length === 0) {
+    return (
+      <EmptyState
+        Icon={Inbox}
+        title="No conversations yet"
+        description={viewerRole === 'organization'
+          ? 'Message an applicant or enrolled volunteer from a posting to start a conversation.'
+          : 'Message an organization from a posting you applied to or enrolled in.'}
+        compact
+      />
+    );
+  }
+
+  return (
+    <ul className="menu w-full p-0 gap-1">
+      {threads.map(thread => (
+        <li key={thread.id}>
+          <button
+            type="button"
+            className={`flex flex-col items-start gap-0.5 ${thread.id === selectedThreadId ? 'menu-active' : ''}`}
+            onClick={() => onSelect(thread.id)}
+          >
+            <span className="flex w-full items-center justify-between gap-2">
+              <span className={thread.unread_count > 0 ? 'font-bold' : 'font-medium'}>
+                {viewerRole === 'organization' ? thread.volunteer_name : thread.organization_name}
+              </span>
+              {thread.unread_count > 0 && (
+                <span className="badge badge-primary badge-sm">{thread.unread_count}</span>
+              )}
+            </span>
+            <span className="text-xs opacity-70">{thread.posting_title}</span>
+            {thread.last_message_body !== null && (
+              <span className="text-xs opacity-60 line-clamp-1 flex items-center gap-1">
+                {thread.last_message_body || (
+                  <>
+                    <Paperclip size={12} />
+                    Attachment
+                  </>
+                )}
+              </span>
+            )}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default MessageThreadList;
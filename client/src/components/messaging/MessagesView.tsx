@@ -0,0 +1,148 @@
+import { MessagesSquare, RotateCcw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+
+import MessageConversation from './MessageConversation';
+import MessageThreadList from './MessageThreadList';
+import requestServer from '../../utils/requestServer';
+import useAsync from '../../utils/useAsync';
+import Card from '../Card';
+import EmptyState from '../EmptyState';
+import IconButton from '../IconButton';
+import ColumnLayout from '../layout/ColumnLayout';
+import Loading from '../Loading';
+
+import type {
+  OrganizationMessageSendResponse,
+  OrganizationMessageThreadResponse,
+  OrganizationMessageThreadsResponse,
+  VolunteerMessageSendResponse,
+  VolunteerMessageThreadResponse,
+  VolunteerMessageThreadsResponse,
+} from '../../../../server/src/api/types';
+import type { MessageSenderRole } from '../../../../server/src/db/tables';
+import type { MessageWithSender } from '../../../../server/src/types';
+
+type MessagesViewProps = {
+  viewerRole: MessageSenderRole;
+};
+
+function MessagesView({ viewerRole }: MessagesViewProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedThreadId = Number(searchParams.get('thread')) || null;
+  const [messages, setMessages] = useState<MessageWithSender[]>([]);
+
+  // Stable fetchers keep the triggers stable, so opening a thread from the URL runs once per thread
+  const getThreads = useCallback(
+    async () => requestServer<OrganizationMessageThreadsResponse | VolunteerMessageThreadsResponse>(`/${viewerRole}/messages`, { includeJwt: true }),
+    [viewerRole],
+  );
+  const getThread = useCallback(
+    async (threadId: number) => requestServer<OrganizationMessageThreadResponse | VolunteerMessageThreadResponse>(
+      `/${viewerRole}/messages/threads/${threadId}`,
+      { includeJwt: true },
+    ),
+    [viewerRole],
+  );
+
+  const { data: threadsData, loading: threadsLoading, trigger: loadThreads } = useAsync(getThreads, { immediate: true });
+  const { data: threadData, loading: threadLoading, trigger: loadThread } = useAsync(getThread);
+
+  const { trigger: sendMessage } = useAsync(
+    async (threadId: number, formData: FormData) => requestServer<OrganizationMessageSendResponse | VolunteerMessageSendResponse>(
+      `/${viewerRole}/messages/threads/${threadId}/messages`,
+      { method: 'POST', includeJwt: true, body: formData },
+    ),
+  );
+
+  const openThread = useCallback(async (threadId: number) => {
+    const response = await loadThread(threadId);
+    setMessages(response.messages);
+    // Opening a thread marks it as read, so the unread counts change
+    await loadThreads();
+  }, [loadThread, loadThreads]);
+
+  useEffect(() => {
+    if (!selectedThreadId) return;
+    void openThread(selectedThreadId).catch(() => {});
+  }, [selectedThreadId, openThread]);
+
+  const onSend = async (body: string, attachment: File | null) => {
+    if (!selectedThreadId) return;
+
+    const formData = new FormData();
+    formData.append('body', body);
+    if (attachment) formData.append('attachment', attachment);
+
+    const { message } = await sendMessage(selectedThreadId, formData);
+    setMessages(prev => [...prev, message]);
+    await loadThreads();
+  };
+
+  const thread = threadData?.thread.id === selectedThreadId ? threadData.thread : null;
+
+  return (
+    <ColumnLayout
+      sidebar={(
+        <Card title="Conversations" Icon={MessagesSquare}>
+          {threadsLoading && !threadsData
+            ? (
+                <div className="flex justify-center py-6">
+                  <Loading size="lg" />
+                </div>
+              )
+            : (
+                <MessageThreadList
+                  threads={threadsData?.threads ?? []}
+                  viewerRole={viewerRole}
+                  selectedThreadId={selectedThreadId}
+                  onSelect={threadId => setSearchParams({ thread: String(threadId) })}
+                />
+              )}
+        </Card>
+      )}
+    >
+      {!selectedThreadId
+        ? (
+            <EmptyState
+              Icon={MessagesSquare}
+              title="Select a conversation"
+              description="Pick a conversation on the left to read and reply."
+            />
+          )
+        : !thread
+            ? (
+                <div className="flex justify-center py-10">
+                  {threadLoading ? <Loading size="lg" /> : <p className="opacity-70">This conversation is not available.</p>}
+                </div>
+              )
+            : (
+                <Card
+                  title={viewerRole === 'organization' ? thread.volunteer_name : thread.organization_name}
+                  right={(
+                    <span className="flex items-center gap-2">
+                      <Link to={`/posting/${thread.posting_id}`} className="link text-sm">{thread.posting_title}</Link>
+                      <IconButton
+                        Icon={RotateCcw}
+                        size="sm"
+                        loading={threadLoading}
+                        onClick={() => { void openThread(thread.id).catch(() => {}); }}
+                        aria-label="Refresh conversation"
+                        title="Refresh conversation"
+                      />
+                    </span>
+                  )}
+                >
+                  <MessageConversation
+                    threadId={thread.id}
+                    messages={messages}
+                    viewerRole={viewerRole}
+                    onSend={onSend}
+                  />
+                </Card>
+              )}
+    </ColumnLayout>
+  );
+}
+
+export default MessagesView;
@@ -0,0 +1,48 @@
+import { MessageCircle } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+
+import requestServer from '../../utils/requestServer';
+import useAsync from '../../utils/useAsync';
+import Button from '../Button';
+
+import type { OrganizationMessageThreadCreateResponse, VolunteerMessageThreadCreateResponse } from '../../../../server/src/api/types';
+
+type StartConversationButtonProps = {
+  postingId: number;
+  // Organizations pick the volunteer, volunteers always talk to the posting's organization
+  volunteerId?: number;
+  label?: string;
+  size?: 'xs' | 'sm' | 'md';
+};
+
+function StartConversationButton({ postingId, volunteerId, label = 'Message', size = 'md' }: StartConversationButtonProps) {
+  const navigate = useNavigate();
+  const viewerRole = volunteerId === undefined ? 'volunteer' : 'organization';
+
+  const { loading, trigger: openThread } = useAsync(
+    async () => requestServer<OrganizationMessageThreadCreateResponse | VolunteerMessageThreadCreateResponse>(`/${viewerRole}/messages/threads`, {
+      method: 'POST',
+      includeJwt: true,
+      body: volunteerId === undefined ? { posting_id: postingId } : { posting_id: postingId, volunteer_id: volunteerId },
+    }),
+  );
+
+  const onClick = async () => {
+    const { thread } = await openThread();
+    navigate(`/${viewerRole}/messages?thread=${thread.id}`);
+  };
+
+  return (
+    <Button
+      style="outline"
+      size={size}
+      Icon={MessageCircle}
+      loading={loading}
+      onClick={() => { void onClick().catch(() => {}); }}
+    >
+      {label}
+    </Button>
+  );
+}
+
+export default StartConversationButton;
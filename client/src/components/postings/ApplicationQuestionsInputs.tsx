@@ -0,0 +1,89 @@
+import { type ApplicationAnswerDrafts } from './postingUtils';
+
+import type { PostingQuestion } from '../../../../server/src/db/tables';
+
+interface ApplicationQuestionsInputsProps {
+  questions: PostingQuestion[];
+  value: ApplicationAnswerDrafts;
+  onChange: (value: ApplicationAnswerDrafts) => void;
+  disabled?: boolean;
+}
+
+export default function ApplicationQuestionsInputs({
+  questions,
+  value,
+  onChange,
+  disabled = false,
+}: ApplicationQuestionsInputsProps) {
+  if (questions.length === 0) return null;
+
+  const setAnswer = (questionId: number, answer: string) => onChange({ ...value, [questionId]: answer });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm font-medium">The organization would like to know</p>
+      {questions.map((question) => {
+        const inputName = `application-question-${question.id}`;
+        const answer = value[question.id] ?? '';
+
+        return (
+          <fieldset key={question.id} className="fieldset w-full">
+            <label className="label" htmlFor={inputName}>
+              <span className="label-text font-medium">
+                {question.prompt}
+                {!question.is_required && <span className="font-normal opacity-60"> (optional)</span>}
+              </span>
+            </label>
+
+            {question.type === 'short_text' && (
+              <input
+                id={inputName}
+                className="input input-bordered w-full"
+                value={answer}
+                maxLength={500}
+                onChange={event => setAnswer(question.id, event.target.value)}
+                disabled={disabled}
+              />
+            )}
+
+            {question.type === 'multiple_choice' && (
+              <div className="flex flex-col gap-2">
+                {question.options.map(option => (
+                  <label key={option} className="label cursor-pointer justify-start gap-2 text-sm text-base-content">
+                    <input
+                      type="radio"
+                      className="radio radio-sm radio-primary"
+                      name={inputName}
+                      checked={answer === option}
+                      onChange={() => setAnswer(question.id, option)}
+                      disabled={disabled}
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {question.type === 'yes_no' && (
+              <div className="flex gap-4">
+                {(['yes', 'no'] as const).map(option => (
+                  <label key={option} className="label cursor-pointer gap-2 text-sm text-base-content">
+                    <input
+                      type="radio"
+                      className="radio radio-sm radio-primary"
+                      name={inputName}
+                      checked={answer === option}
+                      onChange={() => setAnswer(question.id, option)}
+                      disabled={disabled}
+                    />
+                    {option === 'yes' ? 'Yes' : 'No'}
+                  </label>
+                ))}
+              </div>
+            )}
+          </fieldset>
+        );
+      })}
+    </div>
+  );
+}
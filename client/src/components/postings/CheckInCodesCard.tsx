@@ -0,0 +1,104 @@
+import { QrCode } from 'lucide-react';
+import QRCode from 'qrcode';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { formatCardDate, formatCheckInTime } from './postingUtils';
+import requestServer from '../../utils/requestServer';
+import useAsync from '../../utils/useAsync';
+import Card from '../Card';
+import Loading from '../Loading';
+
+import type { VolunteerPostingCheckInCodesResponse } from '../../../../server/src/api/types';
+
+interface CheckInCodesCardProps {
+  postingId: string;
+}
+
+const getTodayKey = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+function CheckInCodesCard({ postingId }: CheckInCodesCardProps) {
+  const getCodes = useCallback(async () => {
+    const response = await requestServer<VolunteerPostingCheckInCodesResponse>(`/volunteer/posting/${postingId}/check-in-codes`, {
+      includeJwt: true,
+    });
+    return response.codes;
+  }, [postingId]);
+
+  const { data: codes, loading } = useAsync(getCodes, { immediate: true, notifyOnError: false });
+  const [pickedDate, setPickedDate] = useState<string | null>(null);
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
+
+  // Default to today's code, or the next upcoming one
+  const selectedCode = useMemo(() => {
+    if (!codes || codes.length === 0) return undefined;
+    const todayKey = getTodayKey();
+    return codes.find(code => code.date === pickedDate)
+      ?? codes.find(code => code.date >= todayKey)
+      ?? codes[codes.length - 1];
+  }, [codes, pickedDate]);
+
+  useEffect(() => {
+    if (!selectedCode) return;
+
+    let cancelled = false;
+    QRCode.toDataURL(selectedCode.token, { margin: 1, width: 240 })
+      .then((url) => {
+        if (!cancelled) setQrCodeUrl(url);
+      })
+      .catch(() => {
+        if (!cancelled) setQrCodeUrl(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCode]);
+
+  if (!loading && (!codes || codes.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card
+      title="Check-in Code"
+      description="Show this code to the coordinator when you arrive and again when you leave."
+      Icon={QrCode}
+    >
+      {loading || !selectedCode
+        ? <Loading size="md" />
+        : (
+            <div className="flex flex-col items-center gap-3">
+              {codes!.length > 1 && (
+                <select
+                  className="select select-bordered select-sm w-full"
+                  value={selectedCode.date}
+                  onChange={event => setPickedDate(event.target.value)}
+                  aria-label="Check-in date"
+                >
+                  {codes!.map(code => (
+                    <option key={code.enrollment_date_id} value={code.date}>
+                      {formatCardDate(new Date(code.date))}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {qrCodeUrl
+                ? <img src={qrCodeUrl} alt={`Check-in code for ${formatCardDate(new Date(selectedCode.date))}`} className="w-60 h-60 rounded-box bg-white p-2" />
+                : <Loading size="md" />}
+              <p className="text-sm opacity-70">
+                {selectedCode.checked_out_at
+                  ? `Checked in at ${formatCheckInTime(selectedCode.checked_in_at)} and out at ${formatCheckInTime(selectedCode.checked_out_at)}`
+                  : selectedCode.checked_in_at
+                    ? `Checked in at ${formatCheckInTime(selectedCode.checked_in_at)}`
+                    : `Valid for ${formatCardDate(new Date(selectedCode.date))}`}
+              </p>
+            </div>
+          )}
+    </Card>
+  );
+}
+
+export default CheckInCodesCard;
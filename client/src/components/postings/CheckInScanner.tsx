@@ -0,0 +1,148 @@
+import { Camera, CameraOff, QrCode, ScanLine } from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import Button from '../Button';
+import Card from '../Card';
+
+interface CheckInScannerProps {
+  onScan: (token: string) => Promise<void>;
+  disabled?: boolean;
+}
+
+type BarcodeDetectorLike = {
+  detect: (source: HTMLVideoElement) => Promise<Array<{ rawValue: string }>>;
+};
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const SCAN_INTERVAL_MS = 500;
+const REPEAT_SCAN_COOLDOWN_MS = 5000;
+
+const getBarcodeDetectorConstructor = () => (
+  typeof window === 'undefined'
+    ? undefined
+    : (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+);
+
+function CheckInScanner({ onScan, disabled = false }: CheckInScannerProps) {
+  const [manualToken, setManualToken] = useState('');
+  const [scanning, setScanning] = useState(false);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastScanRef = useRef<{ token: string; at: number } | null>(null);
+  const canUseCamera = Boolean(getBarcodeDetectorConstructor() && navigator.mediaDevices?.getUserMedia);
+
+  const submitToken = useCallback(async (token: string) => {
+    const trimmed = token.trim();
+    if (!trimmed || scanning) return;
+
+    try {
+      setScanning(true);
+      await onScan(trimmed);
+      setManualToken('');
+    } catch {
+      // The error has already been reported by the caller
+    } finally {
+      setScanning(false);
+    }
+  }, [onScan, scanning]);
+
+  useEffect(() => {
+    if (!cameraOpen) return;
+
+    const Detector = getBarcodeDetectorConstructor();
+    if (!Detector) return;
+
+    const detector = new Detector({ formats: ['qr_code'] });
+    let stream: MediaStream | null = null;
+    let intervalId: number | undefined;
+    let cancelled = false;
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async (mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        stream = mediaStream;
+        if (!videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        await videoRef.current.play();
+
+        intervalId = window.setInterval(async () => {
+          if (!videoRef.current) return;
+          const [barcode] = await detector.detect(videoRef.current);
+          if (!barcode) return;
+
+          // The code stays in front of the camera for a while, so ignore immediate repeats
+          const lastScan = lastScanRef.current;
+          if (lastScan && lastScan.token === barcode.rawValue && Date.now() - lastScan.at < REPEAT_SCAN_COOLDOWN_MS) return;
+          lastScanRef.current = { token: barcode.rawValue, at: Date.now() };
+
+          void submitToken(barcode.rawValue);
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch(() => {
+        setCameraOpen(false);
+      });
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(intervalId);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [cameraOpen, submitToken]);
+
+  return (
+    <Card
+      title="Check-in Scanner"
+      description="Scan a volunteer's code when they arrive, and again when they leave."
+      Icon={QrCode}
+      right={canUseCamera && (
+        <Button
+          size="sm"
+          style="outline"
+          onClick={() => setCameraOpen(open => !open)}
+          disabled={disabled}
+          Icon={cameraOpen ? CameraOff : Camera}
+        >
+          {cameraOpen ? 'Stop Camera' : 'Use Camera'}
+        </Button>
+      )}
+    >
+      {cameraOpen && (
+        <video ref={videoRef} className="mb-3 w-full max-w-sm mx-auto rounded-box bg-base-300" muted playsInline />
+      )}
+      <form
+        className="join w-full"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void submitToken(manualToken);
+        }}
+      >
+        <input
+          type="text"
+          className="input input-bordered join-item grow"
+          placeholder="Scan or paste a check-in code"
+          value={manualToken}
+          onChange={event => setManualToken(event.target.value)}
+          disabled={disabled}
+          aria-label="Check-in code"
+        />
+        <Button
+          type="submit"
+          color="primary"
+          className="join-item"
+          loading={scanning}
+          disabled={disabled || !manualToken.trim()}
+          Icon={ScanLine}
+        >
+          Record
+        </Button>
+      </form>
+    </Card>
+  );
+}
+
+export default CheckInScanner;
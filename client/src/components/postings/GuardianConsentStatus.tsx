@@ -0,0 +1,64 @@
+import { Send } from 'lucide-react';
+
+import { guardianConsentStatusLabels } from './postingUtils';
+import Alert from '../Alert';
+import Button from '../Button';
+
+import type { GuardianConsentSummary } from '../../../../server/src/db/tables';
+
+interface GuardianConsentStatusProps {
+  consent: GuardianConsentSummary;
+  onResend?: () => void;
+  resending?: boolean;
+}
+
+const formatConsentDate = (value: Date | string) => new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+}).format(new Date(value));
+
+export default function GuardianConsentStatus({
+  consent,
+  onResend,
+  resending = false,
+}: GuardianConsentStatusProps) {
+  if (consent.status === 'pending') {
+    return (
+      <Alert color="warning">
+        <div className="space-y-2">
+          <p className="font-semibold">{guardianConsentStatusLabels.pending}</p>
+          <p className="text-sm">
+            We emailed
+            {' '}
+            <span className="font-medium">{consent.guardian_email}</span>
+            {' '}
+            a link to approve your request. It expires on
+            {' '}
+            {formatConsentDate(consent.expires_at)}
+            .
+          </p>
+          {onResend && (
+            <Button size="sm" style="outline" Icon={Send} loading={resending} onClick={onResend}>
+              Send again
+            </Button>
+          )}
+        </div>
+      </Alert>
+    );
+  }
+
+  if (consent.status === 'approved') {
+    return (
+      <Alert color="success">
+        {consent.guardian_name ?? consent.guardian_email}
+        {' '}
+        gave their consent
+        {consent.responded_at ? ` on ${formatConsentDate(consent.responded_at)}` : ''}
+        .
+      </Alert>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,38 @@
+import { Mail } from 'lucide-react';
+
+interface GuardianEmailInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+export default function GuardianEmailInput({
+  value,
+  onChange,
+  disabled = false,
+}: GuardianEmailInputProps) {
+  return (
+    <fieldset className="fieldset w-full">
+      <label className="label" htmlFor="guardian-email">
+        <span className="label-text font-medium">Parent or guardian email</span>
+      </label>
+      <label className="input input-bordered flex w-full items-center gap-2">
+        <Mail size={16} className="opacity-50" />
+        <input
+          id="guardian-email"
+          type="email"
+          className="grow"
+          placeholder="guardian@example.com"
+          value={value}
+          maxLength={256}
+          onChange={event => onChange(event.target.value)}
+          disabled={disabled}
+        />
+      </label>
+      <p className="text-xs opacity-70">
+        This posting needs consent from a parent or guardian for volunteers under 18.
+        We will email them a link to approve, and your spot is held until they answer.
+      </p>
+    </fieldset>
+  );
+}
@@ -44,7 +44,7 @@ function PostingCollection({
     return <>{emptyState}</>;
   }
 
-  const isCards = viewMode === 'cards';
+  const isCards = viewMode !== 'list';
   const containerClassName = isCards ? cardsContainerClassName : listContainerClassName;
 
   const items = postings.map(posting => (
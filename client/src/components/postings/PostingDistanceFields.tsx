@@ -0,0 +1,120 @@
+import { House, LocateFixed, MapPin, X } from 'lucide-react';
+import { useState } from 'react';
+
+import { postingRadiusOptions, type PostingDistanceFilterFields } from './postingFilterConfig.ts';
+import useNotifications from '../../notifications/useNotifications';
+import Button from '../Button.tsx';
+
+import type { VolunteerHomeLocation } from '../../../../server/src/db/tables/index.ts';
+
+type PostingDistanceFieldsProps = {
+  value: PostingDistanceFilterFields;
+  onChange: (value: PostingDistanceFilterFields) => void;
+  homeLocation: VolunteerHomeLocation | null;
+};
+
+const formatCoordinate = (value: number) => value.toFixed(5);
+
+function PostingDistanceFields({ value, onChange, homeLocation }: PostingDistanceFieldsProps) {
+  const notifications = useNotifications();
+  const [locating, setLocating] = useState(false);
+
+  const hasOrigin = Boolean(value.nearLatitude && value.nearLongitude);
+
+  const applyCurrentLocation = (radiusKm: string) => {
+    if (!('geolocation' in navigator)) {
+      notifications.push({ type: 'error', message: 'Your browser cannot share its location.' });
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false);
+        onChange({
+          radiusKm,
+          nearLatitude: formatCoordinate(position.coords.latitude),
+          nearLongitude: formatCoordinate(position.coords.longitude),
+          nearLocationName: 'Current location',
+        });
+      },
+      () => {
+        setLocating(false);
+        notifications.push({ type: 'error', message: 'Could not get your current location.' });
+      },
+      { timeout: 10_000, maximumAge: 5 * 60_000 },
+    );
+  };
+
+  const applyHomeLocation = (radiusKm: string) => {
+    if (!homeLocation) return;
+
+    onChange({
+      radiusKm,
+      nearLatitude: formatCoordinate(homeLocation.latitude),
+      nearLongitude: formatCoordinate(homeLocation.longitude),
+      nearLocationName: homeLocation.location_name,
+    });
+  };
+
+  // Picking a radius before an origin starts from the saved home location, or the browser's location
+  const changeRadius = (radiusKm: string) => {
+    if (hasOrigin || !radiusKm) {
+      onChange({ ...value, radiusKm });
+    } else if (homeLocation) {
+      applyHomeLocation(radiusKm);
+    } else {
+      applyCurrentLocation(radiusKm);
+    }
+  };
+
+  const clearOrigin = () => {
+    onChange({ radiusKm: '', nearLatitude: '', nearLongitude: '', nearLocationName: '' });
+  };
+
+  return (
+    <fieldset className="fieldset w-full">
+      <label className="label" htmlFor="posting-distance-radius">
+        <span className="label-text font-medium">Distance</span>
+      </label>
+      <div className="flex flex-col gap-3 md:flex-row md:items-center">
+        <select
+          id="posting-distance-radius"
+          className="select select-bordered w-full focus:select-primary md:w-48"
+          value={value.radiusKm}
+          disabled={locating}
+          onChange={event => changeRadius(event.target.value)}
+        >
+          {postingRadiusOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+
+        <span className="flex min-w-0 flex-1 items-center gap-2 text-sm opacity-80">
+          <MapPin size={16} className="shrink-0" />
+          <span className="truncate">
+            {hasOrigin ? `From ${value.nearLocationName || 'selected location'}` : 'Choose where to measure distance from'}
+          </span>
+        </span>
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" size="sm" style="outline" Icon={LocateFixed} loading={locating} onClick={() => applyCurrentLocation(value.radiusKm)}>
+            Use my location
+          </Button>
+          {homeLocation && (
+            <Button type="button" size="sm" style="outline" Icon={House} onClick={() => applyHomeLocation(value.radiusKm)}>
+              Use home location
+            </Button>
+          )}
+          {hasOrigin && (
+            <Button type="button" size="sm" color="ghost" Icon={X} onClick={clearOrigin}>
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+    </fieldset>
+  );
+}
+
+export default PostingDistanceFields;
@@ -0,0 +1,215 @@
+import { divIcon, latLngBounds } from 'leaflet';
+import { MapPinned, MapPinOff } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { MapContainer, Marker, Popup, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+
+import { clusterPostings, toPostingMapBounds, type PostingMapBounds, type PostingMapCluster } from './postingMapClusters.ts';
+import useNotifications from '../../notifications/useNotifications';
+import Loading from '../Loading.tsx';
+import PostingCard from '../PostingCard.tsx';
+
+import 'leaflet/dist/leaflet.css';
+import type { PostingWithContext } from '../../../../server/src/types.ts';
+
+const DEFAULT_CENTER: [number, number] = [33.8547, 35.8623];
+const DEFAULT_ZOOM = 9;
+
+const postingIcon = divIcon({
+  className: 'posting-map-marker',
+  html: `
+    <div class="text-primary drop-shadow-md">
+      <svg viewBox="0 0 24 24" fill="currentColor" class="w-10 h-10" xmlns="http://www.w3.org/2000/svg">
+        <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z" />
+      </svg>
+    </div>`,
+  iconSize: [40, 40],
+  iconAnchor: [20, 40],
+  popupAnchor: [0, -36],
+});
+
+/**
+ * The postings in the visible area, and whether the area held more than the map loaded.
+ */
+export type PostingMapPostings = {
+  postings: PostingWithContext[];
+  truncated: boolean;
+};
+
+const getClusterIcon = (count: number) => divIcon({
+  className: 'posting-map-cluster',
+  html: `<div class="flex h-10 w-10 items-center justify-center rounded-full bg-primary text-primary-content text-sm font-semibold shadow-lg ring-4 ring-primary/30">${count}</div>`,
+  iconSize: [40, 40],
+  iconAnchor: [20, 20],
+});
+
+type PostingMapMarkersProps = {
+  fetchPostings: (bounds: PostingMapBounds) => Promise<PostingMapPostings>;
+  showCrisis: boolean;
+  crisisBasePath: string;
+  onLoadingChange: (loading: boolean) => void;
+  onCountChange: (count: number, truncated: boolean) => void;
+};
+
+function PostingMapMarkers({ fetchPostings, showCrisis, crisisBasePath, onLoadingChange, onCountChange }: PostingMapMarkersProps) {
+  const map = useMap();
+  const notifications = useNotifications();
+  const [postings, setPostings] = useState<PostingWithContext[]>([]);
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  const latestRequestRef = useRef(0);
+
+  const loadVisiblePostings = useCallback(async () => {
+    const bounds = map.getBounds();
+    const requestId = latestRequestRef.current + 1;
+    latestRequestRef.current = requestId;
+    onLoadingChange(true);
+
+    try {
+      const { postings: visiblePostings, truncated } = await fetchPostings(
+        toPostingMapBounds(bounds.getSouth(), bounds.getWest(), bounds.getNorth(), bounds.getEast()),
+      );
+      if (requestId !== latestRequestRef.current) return;
+      setPostings(visiblePostings);
+      onCountChange(visiblePostings.length, truncated);
+    } catch (error) {
+      // Keep the markers from the last successful load
+      notifications.push({ type: 'error', message: error instanceof Error ? error.message : 'Failed to load postings' });
+    } finally {
+      if (requestId === latestRequestRef.current) onLoadingChange(false);
+    }
+  }, [fetchPostings, map, notifications, onCountChange, onLoadingChange]);
+
+  // Reload whenever the filters behind fetchPostings change
+  useEffect(() => {
+    void loadVisiblePostings();
+  }, [loadVisiblePostings]);
+
+  useMapEvents({
+    moveend: () => {
+      setZoom(map.getZoom());
+      void loadVisiblePostings();
+    },
+  });
+
+  const clusters = useMemo(
+    () => clusterPostings(postings, (latitude, longitude) => map.project([latitude, longitude], zoom)),
+    [map, postings, zoom],
+  );
+
+  const zoomToCluster = (cluster: PostingMapCluster) => {
+    const bounds = latLngBounds(cluster.postings.map(posting => [posting.latitude!, posting.longitude!]));
+    if (bounds.getNorthEast().equals(bounds.getSouthWest())) return;
+    map.fitBounds(bounds.pad(0.2));
+  };
+
+  return (
+    <>
+      {clusters.map((cluster) => {
+        if (cluster.postings.length === 1) {
+          const posting = cluster.postings[0];
+
+          return (
+            <Marker key={`posting-${posting.id}`} icon={postingIcon} position={[cluster.latitude, cluster.longitude]}>
+              <Popup minWidth={280} maxWidth={320}>
+                <PostingCard posting={posting} showCrisis={showCrisis} crisisBasePath={crisisBasePath} />
+              </Popup>
+            </Marker>
+          );
+        }
+
+        const isStacked = cluster.postings.every(posting => (
+          posting.latitude === cluster.postings[0].latitude && posting.longitude === cluster.postings[0].longitude
+        ));
+
+        return (
+          <Marker
+            key={`cluster-${cluster.key}`}
+            icon={getClusterIcon(cluster.postings.length)}
+            position={[cluster.latitude, cluster.longitude]}
+            eventHandlers={{ click: () => zoomToCluster(cluster) }}
+          >
+            {isStacked && (
+              <Popup minWidth={280} maxWidth={320}>
+                <div className="max-h-96 space-y-3 overflow-y-auto pr-1">
+                  {cluster.postings.map(posting => (
+                    <PostingCard key={posting.id} posting={posting} showCrisis={showCrisis} crisisBasePath={crisisBasePath} />
+                  ))}
+                </div>
+              </Popup>
+            )}
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
+
+type PostingMapProps = {
+  fetchPostings: (bounds: PostingMapBounds) => Promise<PostingMapPostings>;
+  center?: [number, number];
+  showCrisis?: boolean;
+  crisisBasePath?: string;
+};
+
+function PostingMap({
+  fetchPostings,
+  center = DEFAULT_CENTER,
+  showCrisis = true,
+  crisisBasePath = '/volunteer/crises',
+}: PostingMapProps) {
+  const [darkTheme] = useState(() => window.matchMedia('(prefers-color-scheme: dark)').matches);
+  const [loading, setLoading] = useState(false);
+  const [count, setCount] = useState<number | null>(null);
+  const [truncated, setTruncated] = useState(false);
+
+  const handleCountChange = useCallback((nextCount: number, nextTruncated: boolean) => {
+    setCount(nextCount);
+    setTruncated(nextTruncated);
+  }, []);
+
+  return (
+    <div className="relative h-[70vh] min-h-96 overflow-hidden rounded-lg border border-base-content/20 shadow-inner">
+      <MapContainer center={center} zoom={DEFAULT_ZOOM} scrollWheelZoom className="h-full w-full">
+        <TileLayer
+          className={darkTheme ? 'brightness-300' : ''}
+          attribution='&copy; <a href="http://www.openstreetmap.org/copyright">OpenStreetMap</a>, &copy; <a href="https://carto.com/attributions">CARTO</a>'
+          url={darkTheme
+            ? 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png'
+            : 'https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png'}
+        />
+        <PostingMapMarkers
+          fetchPostings={fetchPostings}
+          showCrisis={showCrisis}
+          crisisBasePath={crisisBasePath}
+          onLoadingChange={setLoading}
+          onCountChange={handleCountChange}
+        />
+      </MapContainer>
+
+      {loading && (
+        <div className="absolute top-3 right-3 z-500 rounded-full bg-base-100 p-2 shadow-lg">
+          <Loading size="sm" />
+        </div>
+      )}
+
+      {!loading && count === 0 && (
+        <div className="pointer-events-none absolute inset-x-0 bottom-4 z-500 flex justify-center">
+          <span className="inline-flex items-center gap-2 rounded-full bg-base-100 px-4 py-2 text-sm shadow-lg">
+            <MapPinOff size={16} />
+            No postings in this area. Zoom out or move the map.
+          </span>
+        </div>
+      )}
+
+      {!loading && truncated && (
+        <div className="pointer-events-none absolute inset-x-0 bottom-4 z-500 flex justify-center">
+          <span className="inline-flex items-center gap-2 rounded-full bg-base-100 px-4 py-2 text-sm shadow-lg">
+            <MapPinned size={16} />
+            {`Showing the first ${count} postings in this area. Zoom in or add filters to see the rest.`}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PostingMap;
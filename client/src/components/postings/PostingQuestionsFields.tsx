@@ -0,0 +1,184 @@
+import { ListChecks, Plus, X } from 'lucide-react';
+import { useCallback } from 'react';
+
+import {
+  EMPTY_POSTING_QUESTION,
+  postingQuestionTypeOptions,
+  type PostingQuestionDraft,
+} from './postingUtils';
+
+import type { PostingQuestionType } from '../../../../server/src/db/tables';
+
+interface PostingQuestionsFieldsProps {
+  value: PostingQuestionDraft[];
+  onChange: (value: PostingQuestionDraft[]) => void;
+  disabled?: boolean;
+}
+
+const MAX_QUESTIONS = 10;
+const MAX_OPTIONS = 10;
+
+function PostingQuestionOptionsInput({
+  options,
+  onChange,
+  disabled,
+  questionLabel,
+}: {
+  options: string[];
+  onChange: (options: string[]) => void;
+  disabled: boolean;
+  questionLabel: string;
+}) {
+  return (
+    <div className="space-y-2 pl-3 border-l-2 border-base-300">
+      {options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            className="input input-bordered input-sm grow"
+            placeholder={`Option ${index + 1}`}
+            value={option}
+            maxLength={100}
+            onChange={event => onChange(options.map((current, optionIndex) => (optionIndex === index ? event.target.value : current)))}
+            aria-label={`${questionLabel} option ${index + 1}`}
+            disabled={disabled}
+          />
+          <button
+            type="button"
+            className="cursor-pointer hover:opacity-70"
+            onClick={() => onChange(options.filter((_, optionIndex) => optionIndex !== index))}
+            aria-label={`Remove ${questionLabel} option ${index + 1}`}
+            disabled={disabled}
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        className="btn btn-xs btn-ghost"
+        onClick={() => onChange([...options, ''])}
+        disabled={disabled || options.length >= MAX_OPTIONS}
+      >
+        <Plus size={12} />
+        Add option
+      </button>
+    </div>
+  );
+}
+
+export default function PostingQuestionsFields({
+  value,
+  onChange,
+  disabled = false,
+}: PostingQuestionsFieldsProps) {
+  const updateQuestion = useCallback((index: number, changes: Partial<PostingQuestionDraft>) => {
+    onChange(value.map((question, questionIndex) => (questionIndex === index ? { ...question, ...changes } : question)));
+  }, [onChange, value]);
+
+  const changeQuestionType = useCallback((index: number, type: PostingQuestionType) => {
+    const question = value[index];
+    if (!question) return;
+
+    updateQuestion(index, {
+      type,
+      options: type === 'multiple_choice' && question.options.length === 0 ? ['', ''] : question.options,
+    });
+  }, [updateQuestion, value]);
+
+  const addQuestion = useCallback(() => {
+    onChange([...value, { ...EMPTY_POSTING_QUESTION }]);
+  }, [onChange, value]);
+
+  const removeQuestion = useCallback((index: number) => {
+    onChange(value.filter((_, questionIndex) => questionIndex !== index));
+  }, [onChange, value]);
+
+  return (
+    <div className="rounded-box border border-base-300 bg-base-200/50 p-4 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h4 className="font-semibold inline-flex items-center gap-2">
+            <ListChecks size={16} className="text-primary" />
+            Application Questions
+          </h4>
+          <p className="text-xs opacity-70 mt-1">
+            Optional. Ask applicants screening questions that you can review with their application.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="btn btn-sm btn-outline btn-primary"
+          onClick={addQuestion}
+          disabled={disabled || value.length >= MAX_QUESTIONS}
+        >
+          <Plus size={14} />
+          Add question
+        </button>
+      </div>
+
+      {value.length > 0 && (
+        <ol className="space-y-3">
+          {value.map((question, index) => {
+            const questionLabel = `Question ${index + 1}`;
+
+            return (
+              <li key={question.id ?? `new-${index}`} className="rounded-box border border-base-300 bg-base-100 p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    className="input input-bordered input-sm grow"
+                    placeholder="Question, e.g. Do you have first aid training?"
+                    value={question.prompt}
+                    maxLength={300}
+                    onChange={event => updateQuestion(index, { prompt: event.target.value })}
+                    aria-label={`${questionLabel} prompt`}
+                    disabled={disabled}
+                  />
+                  <button
+                    type="button"
+                    className="cursor-pointer hover:opacity-70"
+                    onClick={() => removeQuestion(index)}
+                    aria-label={`Remove ${questionLabel.toLowerCase()}`}
+                    disabled={disabled}
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <select
+                    className="select select-bordered select-sm"
+                    value={question.type}
+                    onChange={event => changeQuestionType(index, event.target.value as PostingQuestionType)}
+                    aria-label={`${questionLabel} type`}
+                    disabled={disabled}
+                  >
+                    {postingQuestionTypeOptions.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <label className="label cursor-pointer gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-sm checkbox-primary"
+                      checked={question.is_required}
+                      onChange={event => updateQuestion(index, { is_required: event.target.checked })}
+                      disabled={disabled}
+                    />
+                    Required
+                  </label>
+                </div>
+                {question.type === 'multiple_choice' && (
+                  <PostingQuestionOptionsInput
+                    options={question.options}
+                    onChange={options => updateQuestion(index, { options })}
+                    disabled={disabled}
+                    questionLabel={questionLabel}
+                  />
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { MessageSquareHeart, Save, Trash2 } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+import useNotifications from '../../notifications/useNotifications';
+import requestServer from '../../utils/requestServer';
+import useAsync from '../../utils/useAsync';
+import Button from '../Button';
+import Card from '../Card';
+import StarRating from '../feedback/StarRating';
+
+import type { VolunteerPostingReviewResponse } from '../../../../server/src/api/types';
+
+interface PostingReviewCardProps {
+  postingId: string;
+}
+
+function PostingReviewCard({ postingId }: PostingReviewCardProps) {
+  const notifications = useNotifications();
+  const [rating, setRating] = useState<number | null>(null);
+  const [comment, setComment] = useState('');
+  const [hasReview, setHasReview] = useState(false);
+
+  const getReview = useCallback(async () => requestServer<VolunteerPostingReviewResponse>(`/volunteer/posting/${postingId}/review`, {
+    includeJwt: true,
+  }), [postingId]);
+
+  const { data: reviewStatus } = useAsync(getReview, { immediate: true, notifyOnError: false });
+
+  useEffect(() => {
+    if (!reviewStatus) return;
+    setRating(reviewStatus.review?.rating ?? null);
+    setComment(reviewStatus.review?.comment ?? '');
+    setHasReview(Boolean(reviewStatus.review));
+  }, [reviewStatus]);
+
+  const { trigger: saveReview, loading: saving } = useAsync(
+    async () => requestServer<VolunteerPostingReviewResponse>(`/volunteer/posting/${postingId}/review`, {
+      method: 'PUT',
+      includeJwt: true,
+      body: { rating, comment: comment.trim() || null },
+    }),
+    { notifyOnError: true },
+  );
+
+  const { trigger: deleteReview, loading: deleting } = useAsync(
+    async () => requestServer<VolunteerPostingReviewResponse>(`/volunteer/posting/${postingId}/review`, {
+      method: 'DELETE',
+      includeJwt: true,
+    }),
+    { notifyOnError: true },
+  );
+
+  const onSave = async () => {
+    await saveReview();
+    setHasReview(true);
+    notifications.push({
+      type: 'success',
+      message: 'Thanks for your review!',
+    });
+  };
+
+  const onDelete = async () => {
+    await deleteReview();
+    setHasReview(false);
+    setRating(null);
+    setComment('');
+    notifications.push({
+      type: 'success',
+      message: 'Your review was removed.',
+    });
+  };
+
+  if (!reviewStatus?.can_review) {
+    return null;
+  }
+
+  return (
+    <Card
+      title="Your Review"
+      description="How was this opportunity? Your rating is added to the organization's profile."
+      Icon={MessageSquareHeart}
+    >
+      <div className="flex flex-col gap-3">
+        <StarRating value={rating} onChange={setRating} disabled={saving || deleting} label="Rate this opportunity" />
+        <textarea
+          className="textarea textarea-bordered w-full"
+          placeholder="Share what went well or what could be better (optional)"
+          maxLength={1000}
+          value={comment}
+          onChange={event => setComment(event.target.value)}
+          disabled={saving || deleting}
+        />
+        <div className="flex justify-end gap-2">
+          {hasReview && (
+            <Button
+              type="button"
+              color="ghost"
+              onClick={() => void onDelete()}
+              loading={deleting}
+              disabled={saving}
+              Icon={Trash2}
+            >
+              Remove
+            </Button>
+          )}
+          <Button
+            type="button"
+            color="primary"
+            onClick={() => void onSave()}
+            loading={saving}
+            disabled={rating === null || deleting}
+            Icon={Save}
+          >
+            {hasReview ? 'Update Review' : 'Submit Review'}
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+export default PostingReviewCard;
@@ -0,0 +1,192 @@
+import { Plus, UserCog, X } from 'lucide-react';
+import { useCallback, useState } from 'react';
+
+import { EMPTY_POSTING_ROLE, type PostingRoleDraft } from './postingUtils';
+import IconButton from '../IconButton';
+import SkillsList from '../skills/SkillsList';
+import SkillSuggestionsMenu from '../skills/SkillSuggestionsMenu';
+import useSkillSuggestions from '../skills/useSkillSuggestions';
+
+interface PostingRolesFieldsProps {
+  value: PostingRoleDraft[];
+  onChange: (value: PostingRoleDraft[]) => void;
+  disabled?: boolean;
+}
+
+function PostingRoleSkillsInput({
+  skills,
+  onChange,
+  disabled,
+}: {
+  skills: string[];
+  onChange: (skills: string[]) => void;
+  disabled: boolean;
+}) {
+  const [skillInput, setSkillInput] = useState('');
+  const suggestions = useSkillSuggestions(disabled ? '' : skillInput, skills);
+
+  const addSkill = useCallback((skill: string) => {
+    const trimmed = skill.trim();
+    if (trimmed && !skills.includes(trimmed)) {
+      onChange([...skills, trimmed]);
+    }
+    setSkillInput('');
+  }, [onChange, skills]);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative w-full">
+        <div className="join w-full">
+          <input
+            className="input input-bordered input-sm join-item grow"
+            placeholder="Required skill, e.g. Driving license"
+            value={skillInput}
+            onChange={event => setSkillInput(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                event.preventDefault();
+                addSkill(skillInput);
+              }
+            }}
+            disabled={disabled}
+          />
+          <IconButton
+            type="button"
+            color="primary"
+            size="sm"
+            className="join-item"
+            onClick={() => addSkill(skillInput)}
+            Icon={Plus}
+            disabled={disabled}
+          />
+        </div>
+        <SkillSuggestionsMenu suggestions={suggestions} onSelect={suggestion => addSkill(suggestion.name)} />
+      </div>
+      <SkillsList
+        skills={skills}
+        action={({ index }) => (
+          <button
+            type="button"
+            onClick={() => onChange(skills.filter((_, skillIndex) => skillIndex !== index))}
+            className="cursor-pointer hover:opacity-70"
+            disabled={disabled}
+          >
+            <X size={14} />
+          </button>
+        )}
+        enableLimit={false}
+      />
+    </div>
+  );
+}
+
+export default function PostingRolesFields({
+  value,
+  onChange,
+  disabled = false,
+}: PostingRolesFieldsProps) {
+  const updateRole = useCallback((index: number, changes: Partial<PostingRoleDraft>) => {
+    onChange(value.map((role, roleIndex) => (roleIndex === index ? { ...role, ...changes } : role)));
+  }, [onChange, value]);
+
+  const addRole = useCallback(() => {
+    onChange([...value, { ...EMPTY_POSTING_ROLE }]);
+  }, [onChange, value]);
+
+  const removeRole = useCallback((index: number) => {
+    onChange(value.filter((_, roleIndex) => roleIndex !== index));
+  }, [onChange, value]);
+
+  const totalCapacity = value.every(role => role.max_volunteers)
+    ? value.reduce((total, role) => total + Number(role.max_volunteers), 0)
+    : null;
+
+  return (
+    <div className="rounded-box border border-base-300 bg-base-200/50 p-4 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h4 className="font-semibold inline-flex items-center gap-2">
+            <UserCog size={16} className="text-primary" />
+            Roles
+          </h4>
+          <p className="text-xs opacity-70 mt-1">
+            Optional. Split the posting into roles with their own spots, skills and minimum age.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="btn btn-sm btn-outline btn-primary"
+          onClick={addRole}
+          disabled={disabled}
+        >
+          <Plus size={14} />
+          Add role
+        </button>
+      </div>
+
+      {value.length > 0 && (
+        <ul className="space-y-3">
+          {value.map((role, index) => (
+            <li key={role.id ?? `new-${index}`} className="rounded-box border border-base-300 bg-base-100 p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  className="input input-bordered input-sm grow"
+                  placeholder="Role name, e.g. Driver"
+                  value={role.name}
+                  maxLength={64}
+                  onChange={event => updateRole(index, { name: event.target.value })}
+                  aria-label={`Role ${index + 1} name`}
+                  disabled={disabled}
+                />
+                <button
+                  type="button"
+                  className="cursor-pointer hover:opacity-70"
+                  onClick={() => removeRole(index)}
+                  aria-label={`Remove role ${role.name || index + 1}`}
+                  disabled={disabled}
+                >
+                  <X size={16} />
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  className="input input-bordered input-sm"
+                  placeholder="Spots (optional)"
+                  value={role.max_volunteers}
+                  onChange={event => updateRole(index, { max_volunteers: event.target.value })}
+                  aria-label={`Role ${index + 1} spots`}
+                  disabled={disabled}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  className="input input-bordered input-sm"
+                  placeholder="Min age (optional)"
+                  value={role.minimum_age}
+                  onChange={event => updateRole(index, { minimum_age: event.target.value })}
+                  aria-label={`Role ${index + 1} minimum age`}
+                  disabled={disabled}
+                />
+              </div>
+              <PostingRoleSkillsInput
+                skills={role.skills}
+                onChange={skills => updateRole(index, { skills })}
+                disabled={disabled}
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {value.length > 0 && (
+        <p className="text-xs opacity-70">
+          {totalCapacity === null
+            ? 'At least one role has no limit, so the posting has no overall limit.'
+            : `The posting is limited to ${totalCapacity} volunteer${totalCapacity === 1 ? '' : 's'} across its roles.`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { Cake, Users } from 'lucide-react';
+
+import SkillsList from '../skills/SkillsList';
+
+import type { PostingRoleWithContext } from '../../../../server/src/types';
+
+interface PostingRolesListProps {
+  roles: PostingRoleWithContext[];
+  showEnrollmentCount?: boolean;
+  selectedRoleId?: number | null;
+  onSelect?: (roleId: number) => void;
+  disabled?: boolean;
+}
+
+export default function PostingRolesList({
+  roles,
+  showEnrollmentCount = true,
+  selectedRoleId,
+  onSelect,
+  disabled = false,
+}: PostingRolesListProps) {
+  return (
+    <ul className="space-y-2">
+      {roles.map((role) => {
+        const isFull = role.max_volunteers != null && role.enrollment_count >= role.max_volunteers;
+        const content = (
+          <>
+            <span className="flex items-center justify-between gap-2 w-full">
+              <span className="font-medium">{role.name}</span>
+              <span className="flex gap-2">
+                {role.minimum_age != null && (
+                  <span className="badge badge-sm gap-1">
+                    <Cake size={12} />
+                    {`${role.minimum_age}+`}
+                  </span>
+                )}
+                {showEnrollmentCount && (
+                  <span className={`badge badge-sm gap-1 ${isFull ? 'badge-error' : ''}`}>
+                    <Users size={12} />
+                    {role.max_volunteers != null
+                      ? `${role.enrollment_count}/${role.max_volunteers}`
+                      : role.enrollment_count}
+                  </span>
+                )}
+              </span>
+            </span>
+            <SkillsList skills={role.skills} enableLimit={false} />
+          </>
+        );
+
+        return (
+          <li key={role.id}>
+            {onSelect
+              ? (
+                  <label className={`flex items-start gap-3 rounded-box border p-3 cursor-pointer ${selectedRoleId === role.id ? 'border-primary bg-primary/5' : 'border-base-300'}`}>
+                    <input
+                      type="radio"
+                      name="posting-role"
+                      className="radio radio-primary radio-sm mt-1"
+                      checked={selectedRoleId === role.id}
+                      onChange={() => onSelect(role.id)}
+                      disabled={disabled}
+                    />
+                    <span className="flex flex-col grow">{content}</span>
+                  </label>
+                )
+              : (
+                  <div className="flex flex-col rounded-box border border-base-300 p-3">{content}</div>
+                )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,243 @@
+import { CalendarX2, Plus, Repeat, X } from 'lucide-react';
+import { useCallback, useMemo, useState } from 'react';
+
+import { getPostingDates, WEEKDAY_LABELS, type PostingScheduleValue } from './postingUtils';
+import IconButton from '../IconButton';
+
+interface PostingScheduleFieldsProps {
+  value: PostingScheduleValue;
+  onChange: (value: PostingScheduleValue) => void;
+  startDate: string;
+  endDate: string;
+  disabled?: boolean;
+}
+
+export default function PostingScheduleFields({
+  value,
+  onChange,
+  startDate,
+  endDate,
+  disabled = false,
+}: PostingScheduleFieldsProps) {
+  const [exceptionDate, setExceptionDate] = useState('');
+  const [exceptionStartTime, setExceptionStartTime] = useState('');
+  const [exceptionEndTime, setExceptionEndTime] = useState('');
+
+  const isRecurring = value.weekdays !== null;
+
+  const scheduledDates = useMemo(() => (
+    startDate
+      ? getPostingDates(startDate, endDate || startDate, {
+          recurrence_weekdays: value.weekdays,
+          recurrence_interval: value.interval,
+        })
+      : []
+  ), [startDate, endDate, value.weekdays, value.interval]);
+
+  const occurrenceCount = useMemo(() => {
+    const skippedDates = new Set(value.exceptions.filter(exception => exception.is_skipped).map(exception => exception.date));
+    return scheduledDates.filter(date => !skippedDates.has(date)).length;
+  }, [scheduledDates, value.exceptions]);
+
+  const availableExceptionDates = useMemo(() => {
+    const exceptionDates = new Set(value.exceptions.map(exception => exception.date));
+    return scheduledDates.filter(date => !exceptionDates.has(date));
+  }, [scheduledDates, value.exceptions]);
+
+  const toggleRecurring = useCallback(() => {
+    onChange({
+      ...value,
+      weekdays: isRecurring ? null : [],
+      interval: 1,
+      exceptions: [],
+    });
+  }, [isRecurring, onChange, value]);
+
+  const toggleWeekday = useCallback((weekday: number) => {
+    const weekdays = value.weekdays ?? [];
+    onChange({
+      ...value,
+      weekdays: weekdays.includes(weekday)
+        ? weekdays.filter(day => day !== weekday)
+        : [...weekdays, weekday].sort((left, right) => left - right),
+      exceptions: [],
+    });
+  }, [onChange, value]);
+
+  const addException = useCallback((isSkipped: boolean) => {
+    if (!exceptionDate) return;
+    if (!isSkipped && !exceptionStartTime && !exceptionEndTime) return;
+
+    onChange({
+      ...value,
+      exceptions: [
+        ...value.exceptions,
+        {
+          date: exceptionDate,
+          is_skipped: isSkipped,
+          start_time: isSkipped ? '' : exceptionStartTime,
+          end_time: isSkipped ? '' : exceptionEndTime,
+        },
+      ].sort((left, right) => left.date.localeCompare(right.date)),
+    });
+    setExceptionDate('');
+    setExceptionStartTime('');
+    setExceptionEndTime('');
+  }, [exceptionDate, exceptionEndTime, exceptionStartTime, onChange, value]);
+
+  const removeException = useCallback((date: string) => {
+    onChange({
+      ...value,
+      exceptions: value.exceptions.filter(exception => exception.date !== date),
+    });
+  }, [onChange, value]);
+
+  return (
+    <div className="rounded-box border border-base-300 bg-base-200/50 p-4 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h4 className="font-semibold inline-flex items-center gap-2">
+            <Repeat size={16} className="text-primary" />
+            Schedule
+          </h4>
+          <p className="text-xs opacity-70 mt-1">
+            {isRecurring
+              ? 'The posting runs on the selected weekdays within the date range.'
+              : 'The posting runs every day within the date range.'}
+          </p>
+        </div>
+        <label className="label cursor-pointer gap-2">
+          <span className="label-text text-sm">Repeats weekly</span>
+          <input
+            type="checkbox"
+            className="toggle toggle-primary toggle-sm"
+            checked={isRecurring}
+            onChange={toggleRecurring}
+            disabled={disabled}
+          />
+        </label>
+      </div>
+
+      {isRecurring && (
+        <div className="space-y-3">
+          <div className="join flex-wrap">
+            {WEEKDAY_LABELS.map((label, weekday) => (
+              <button
+                key={label}
+                type="button"
+                className={`join-item btn btn-sm ${value.weekdays?.includes(weekday) ? 'btn-primary' : 'btn-outline'}`}
+                onClick={() => toggleWeekday(weekday)}
+                aria-pressed={value.weekdays?.includes(weekday) ?? false}
+                disabled={disabled}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            Every
+            <input
+              type="number"
+              min={1}
+              max={52}
+              className="input input-bordered input-sm w-20"
+              value={value.interval}
+              onChange={(event) => {
+                const interval = Math.min(52, Math.max(1, Number(event.target.value) || 1));
+                onChange({ ...value, interval, exceptions: [] });
+              }}
+              disabled={disabled}
+            />
+            {value.interval === 1 ? 'week' : 'weeks'}
+          </label>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium inline-flex items-center gap-2">
+          <CalendarX2 size={14} className="text-warning" />
+          Exceptions
+        </p>
+        <div className="flex flex-wrap items-end gap-2">
+          <select
+            className="select select-bordered select-sm"
+            value={exceptionDate}
+            onChange={event => setExceptionDate(event.target.value)}
+            disabled={disabled || availableExceptionDates.length === 0}
+          >
+            <option value="">Select a date</option>
+            {availableExceptionDates.map(date => (
+              <option key={date} value={date}>{date}</option>
+            ))}
+          </select>
+          <input
+            type="time"
+            className="input input-bordered input-sm w-32"
+            value={exceptionStartTime}
+            onChange={event => setExceptionStartTime(event.target.value)}
+            aria-label="Exception start time"
+            disabled={disabled}
+          />
+          <input
+            type="time"
+            className="input input-bordered input-sm w-32"
+            value={exceptionEndTime}
+            onChange={event => setExceptionEndTime(event.target.value)}
+            aria-label="Exception end time"
+            disabled={disabled}
+          />
+          <IconButton
+            type="button"
+            color="primary"
+            size="sm"
+            onClick={() => addException(false)}
+            Icon={Plus}
+            disabled={disabled || !exceptionDate || (!exceptionStartTime && !exceptionEndTime)}
+          />
+          <button
+            type="button"
+            className="btn btn-sm btn-outline btn-warning"
+            onClick={() => addException(true)}
+            disabled={disabled || !exceptionDate}
+          >
+            Skip date
+          </button>
+        </div>
+
+        {value.exceptions.length === 0
+          ? <p className="text-xs italic text-base-content/60">Skip a date or change its times.</p>
+          : (
+              <ul className="space-y-1">
+                {value.exceptions.map(exception => (
+                  <li key={exception.date} className="flex items-center justify-between gap-2 text-sm">
+                    <span>
+                      <span className="font-medium">{exception.date}</span>
+                      {' — '}
+                      {exception.is_skipped
+                        ? 'Skipped'
+                        : `${exception.start_time || 'usual start'} to ${exception.end_time || 'usual end'}`}
+                    </span>
+                    <button
+                      type="button"
+                      className="cursor-pointer hover:opacity-70"
+                      onClick={() => removeException(exception.date)}
+                      aria-label={`Remove exception for ${exception.date}`}
+                      disabled={disabled}
+                    >
+                      <X size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+      </div>
+
+      {startDate && (
+        <p className="text-xs opacity-70">
+          {`${occurrenceCount} date${occurrenceCount === 1 ? '' : 's'} scheduled`}
+        </p>
+      )}
+    </div>
+  );
+}
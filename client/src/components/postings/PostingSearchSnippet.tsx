@@ -0,0 +1,22 @@
+import type { SearchSnippetSegment } from '../../../../server/src/types';
+
+type PostingSearchSnippetProps = {
+  snippet: SearchSnippetSegment[] | null | undefined;
+  className?: string;
+};
+
+function PostingSearchSnippet({ snippet, className = '' }: PostingSearchSnippetProps) {
+  if (!snippet || snippet.length === 0) return null;
+
+  return (
+    <p className={`text-sm text-muted line-clamp-2 ${className}`}>
+      {snippet.map((segment, index) => (
+        segment.highlighted
+          ? <mark key={index} className="bg-warning/40 text-inherit rounded-sm px-0.5">{segment.text}</mark>
+          : <span key={index}>{segment.text}</span>
+      ))}
+    </p>
+  );
+}
+
+export default PostingSearchSnippet;
@@ -1,9 +1,11 @@
-import { TextSearch, ClipboardList, Building2, AlertTriangle, type LucideIcon } from 'lucide-react';
-import { type ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
+import { TextSearch, ClipboardList, Building2, AlertTriangle, BookmarkPlus, type LucideIcon } from 'lucide-react';
+import { type ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useLocation, useSearchParams } from 'react-router-dom';
 
 import {
+  buildPostingDistanceQuery,
   buildSharedPostingQuery,
+  getPostingSearchStorageKey,
   hasSharedAdvancedPostingFilters,
   postingSortOptions,
   resolvePostingSortOption,
@@ -11,6 +13,7 @@ import {
   toPostingSortOptionValue,
   toVolunteerPostingSortOptionValue,
   volunteerPostingSortOptions,
+  type PostingDistanceFilterFields,
   type PostingSortDir,
   type SharedPostingFilterFields,
   type PostingSortBy,
@@ -18,6 +21,8 @@ import {
   type VolunteerPostingSortBy,
   type VolunteerPostingSortOptionValue,
 } from './postingFilterConfig.ts';
+import { usePostingViewMode } from '../../hooks/usePostingViewMode';
+import useNotifications from '../../notifications/useNotifications';
 import { FormField } from '../../utils/formUtils.tsx';
 import requestServer from '../../utils/requestServer.ts';
 import useAsync from '../../utils/useAsync';
@@ -28,7 +33,12 @@ import CrisisCard from './CrisisCard.tsx';
 import OrganizationCard from './OrganizationCard.tsx';
 import PostingCollection from './PostingCollection.tsx';
 import Loading from '../Loading.tsx';
+import LoadMoreButton from '../LoadMoreButton.tsx';
+import PostingDistanceFields from './PostingDistanceFields.tsx';
 import PostingFiltersCard from './PostingFiltersCard.tsx';
+import PostingMap, { type PostingMapPostings } from './PostingMap.tsx';
+import { type PostingMapBounds } from './postingMapClusters.ts';
+import useHomeLocation from './useHomeLocation.ts';
 import PageContainer from '../layout/PageContainer.tsx';
 import PageHeader from '../layout/PageHeader.tsx';
 
@@ -42,7 +52,7 @@ import type {
 import type { Crisis } from '../../../../server/src/db/tables/index.ts';
 import type { PostingWithContext } from '../../../../server/src/types.ts';
 
-export type PostingSearchFilters = SharedPostingFilterFields & {
+export type PostingSearchFilters = SharedPostingFilterFields & PostingDistanceFilterFields & {
   sortBy: VolunteerPostingSortBy | PostingSortBy | CrisisPostingSortBy;
   sortDir: PostingSortDir;
   startDateFrom: string;
@@ -50,12 +60,17 @@ export type PostingSearchFilters = SharedPostingFilterFields & {
   startTimeFrom: string;
   endTimeTo: string;
   hideFull: boolean;
+  hideUnavailable: boolean;
   crisisId: 'all' | `${number}`;
   entity: 'postings' | 'organizations' | 'crises';
   crisisFilter: 'all' | 'pinned_only' | 'unpinned_only';
   organizationCertificateFilter: 'all' | 'enabled' | 'disabled';
 };
 
+// The map follows the cursor through the visible area, stopping after MAP_POSTINGS_MAX_PAGES of the largest page
+const MAP_POSTINGS_LIMIT = 100;
+const MAP_POSTINGS_MAX_PAGES = 5;
+
 type PostingCrisisOption = {
   id: number;
   name: string;
@@ -88,8 +103,12 @@ type PostingSearchViewProps = {
   enableCrisisFilter?: boolean;
   crisisOptions?: PostingCrisisOption[];
   enableOrganizationSearch?: boolean;
+  enableDistanceFilter?: boolean;
+  enableAvailabilityFilter?: boolean;
+  enableMap?: boolean;
   showEntityTabs?: boolean;
   postingsTopContent?: ReactNode;
+  onSaveSearch?: (filters: PostingSearchFilters) => void;
 };
 
 const toPostingSearchFormValues = (filters: PostingSearchFilters): PostingSearchFormValues => ({
@@ -107,10 +126,15 @@ const toPostingSearchFormValues = (filters: PostingSearchFilters): PostingSearch
   startTimeFrom: filters.startTimeFrom,
   endTimeTo: filters.endTimeTo,
   hideFull: filters.hideFull,
+  hideUnavailable: filters.hideUnavailable,
   crisisId: filters.crisisId,
   entity: filters.entity,
   postingFilter: filters.postingFilter,
   organizationCertificateFilter: filters.organizationCertificateFilter,
+  radiusKm: filters.radiusKm,
+  nearLatitude: filters.nearLatitude,
+  nearLongitude: filters.nearLongitude,
+  nearLocationName: filters.nearLocationName,
 });
 
 const fromPostingSearchFormValues = (values: PostingSearchFormValues): PostingSearchFilters => {
@@ -147,9 +171,14 @@ const fromPostingSearchFormValues = (values: PostingSearchFormValues): PostingSe
     startTimeFrom: values.startTimeFrom,
     endTimeTo: values.endTimeTo,
     hideFull: values.hideFull,
+    hideUnavailable: values.hideUnavailable,
     crisisId: values.crisisId,
     entity: values.entity,
     postingFilter: values.postingFilter ?? 'all',
+    radiusKm: values.radiusKm ?? '',
+    nearLatitude: values.nearLatitude ?? '',
+    nearLongitude: values.nearLongitude ?? '',
+    nearLocationName: values.nearLocationName ?? '',
     crisisFilter, organizationCertificateFilter: values.organizationCertificateFilter ?? 'all' } as PostingSearchFilters;
 };
 
@@ -162,11 +191,16 @@ const getCleanDefaultsForEntity = (entity: PostingSearchFilters['entity']): Post
   startTimeFrom: '',
   endTimeTo: '',
   hideFull: false,
+  hideUnavailable: false,
   crisisId: 'all',
   entity,
   crisisFilter: 'all',
   postingFilter: 'all',
   organizationCertificateFilter: 'all',
+  radiusKm: '',
+  nearLatitude: '',
+  nearLongitude: '',
+  nearLocationName: '',
 });
 
 function PostingSearchView({
@@ -187,12 +221,18 @@ function PostingSearchView({
   enableCrisisFilter = false,
   crisisOptions = [],
   enableOrganizationSearch = false,
+  enableDistanceFilter = false,
+  enableAvailabilityFilter = false,
+  enableMap = false,
   showEntityTabs = true,
   postingsTopContent,
+  onSaveSearch,
 }: PostingSearchViewProps) {
   const location = useLocation();
+  const homeLocation = useHomeLocation();
+  const { viewMode } = usePostingViewMode();
   const [searchParams, setSearchParams] = useSearchParams();
-  const storageKey = useMemo(() => `posting-search-filters:${location.pathname}`, [location.pathname]);
+  const storageKey = useMemo(() => getPostingSearchStorageKey(location.pathname), [location.pathname]);
 
   const [persistedFilters, setPersistedFilters] = useState<Partial<PostingSearchFilters> | undefined>(() => {
     if (typeof window === 'undefined') return undefined;
@@ -237,11 +277,16 @@ function PostingSearchView({
     startTimeFrom: '',
     endTimeTo: '',
     hideFull: false,
+    hideUnavailable: false,
     crisisId: 'all',
     entity: 'postings',
     crisisFilter: 'all',
     postingFilter: 'all',
     organizationCertificateFilter: 'all',
+    radiusKm: '',
+    nearLatitude: '',
+    nearLongitude: '',
+    nearLocationName: '',
     ...persistedFilters,
     ...initialFilters,
   }), [initialFilters, persistedFilters]);
@@ -285,23 +330,51 @@ function PostingSearchView({
   const [crises, setCrises] = useState<Crisis[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadedFiltersRef = useRef<PostingSearchFilters | null>(null);
+  const notifications = useNotifications();
 
   const { trigger: fetchPostingsRequest } = useAsync(
     async (url: string) => requestServer<VolunteerPostingSearchResponse | VolunteerEnrollmentsResponse>(url, { includeJwt: true }),
     { notifyOnError: true },
   );
 
-  const fetchPostings = useCallback(async (activeFilters: PostingSearchFilters) => {
+  const buildPostingsUrl = useCallback((activeFilters: PostingSearchFilters, extraQuery: Record<string, string> = {}) => {
     const baseUrl = fetchUrl ?? '/volunteer/posting';
-    const query = new URLSearchParams(buildSharedPostingQuery(activeFilters));
+    const query = new URLSearchParams({
+      ...buildSharedPostingQuery(activeFilters),
+      ...(enableDistanceFilter ? buildPostingDistanceQuery(activeFilters) : {}),
+      ...extraQuery,
+    });
     if (activeFilters.hideFull) query.append('hide_full', 'true');
+    if (enableAvailabilityFilter && activeFilters.hideUnavailable) query.append('hide_unavailable', 'true');
     if (activeFilters.crisisId !== 'all') query.append('crisis_id', activeFilters.crisisId);
 
     const separator = baseUrl.includes('?') ? '&' : '?';
-    const url = query.size > 0 ? `${baseUrl}${separator}${query.toString()}` : baseUrl;
+    return query.size > 0 ? `${baseUrl}${separator}${query.toString()}` : baseUrl;
+  }, [fetchUrl, enableDistanceFilter, enableAvailabilityFilter]);
+
+  const buildOrganizationsUrl = useCallback((activeFilters: PostingSearchFilters, extraQuery: Record<string, string> = {}) => {
+    const orgQuery = new URLSearchParams(extraQuery);
+    if (activeFilters.search) orgQuery.append('search', activeFilters.search);
+    if (activeFilters.sortBy === 'title') {
+      orgQuery.append('sort_by', 'title');
+      orgQuery.append('sort_dir', activeFilters.sortDir);
+    }
+    if (activeFilters.organizationCertificateFilter && activeFilters.organizationCertificateFilter !== 'all') {
+      orgQuery.append('certificate_enabled', activeFilters.organizationCertificateFilter);
+    }
+    return orgQuery.toString() ? `${organizationsFetchUrl}?${orgQuery.toString()}` : organizationsFetchUrl;
+  }, [organizationsFetchUrl]);
+
+  const fetchPostings = useCallback(async (activeFilters: PostingSearchFilters) => {
+    const url = buildPostingsUrl(activeFilters);
 
     setLoading(true);
     setError(null);
+    setNextCursor(null);
+    loadedFiltersRef.current = activeFilters;
 
     try {
       const shouldFetchPostings = activeFilters.entity === 'postings';
@@ -310,23 +383,11 @@ function PostingSearchView({
 
       const postingPromise = shouldFetchPostings
         ? fetchPostingsRequest(url)
-        : Promise.resolve({ postings: [] } as VolunteerPostingSearchResponse);
+        : Promise.resolve({ postings: [], next_cursor: null } as VolunteerPostingSearchResponse);
 
       const organizationsPromise = shouldFetchOrgs
-        ? (() => {
-            const orgQuery = new URLSearchParams();
-            if (activeFilters.search) orgQuery.append('search', activeFilters.search);
-            if (activeFilters.sortBy === 'title') {
-              orgQuery.append('sort_by', 'title');
-              orgQuery.append('sort_dir', activeFilters.sortDir);
-            }
-            if (activeFilters.organizationCertificateFilter && activeFilters.organizationCertificateFilter !== 'all') {
-              orgQuery.append('certificate_enabled', activeFilters.organizationCertificateFilter);
-            }
-            const orgUrl = orgQuery.toString() ? `${organizationsFetchUrl}?${orgQuery.toString()}` : organizationsFetchUrl;
-            return requestServer<VolunteerOrganizationSearchResponse>(orgUrl, { includeJwt: true });
-          })()
-        : Promise.resolve({ organizations: [] } as VolunteerOrganizationSearchResponse);
+        ? requestServer<VolunteerOrganizationSearchResponse>(buildOrganizationsUrl(activeFilters), { includeJwt: true })
+        : Promise.resolve({ organizations: [], next_cursor: null } as VolunteerOrganizationSearchResponse);
 
       const crisesPromise = shouldFetchCrises
         ? (() => {
@@ -360,6 +421,9 @@ function PostingSearchView({
       const postProcessFilteredPostings = filterPostings ? filterPostings(postingResponse.postings) : postingResponse.postings;
       setPostings(postProcessFilteredPostings);
       setOrganizations(organizationResponse.organizations);
+      setNextCursor(activeFilters.entity === 'organizations'
+        ? organizationResponse.next_cursor
+        : postingResponse.next_cursor);
 
       let orderedCrises = crisisResponse.crises;
       const shouldApplyClientCrisisSort = activeFilters.entity === 'crises'
@@ -387,7 +451,83 @@ function PostingSearchView({
     } finally {
       setLoading(false);
     }
-  }, [fetchPostingsRequest, fetchUrl, filterPostings, enableOrganizationSearch, organizationsFetchUrl, crisesFetchBasePath]);
+  }, [fetchPostingsRequest, buildPostingsUrl, buildOrganizationsUrl, filterPostings, enableOrganizationSearch, crisesFetchBasePath]);
+
+  const loadMore = useCallback(async () => {
+    const loadedFilters = loadedFiltersRef.current;
+    if (!loadedFilters || !nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+
+    try {
+      if (loadedFilters.entity === 'organizations') {
+        const response = await requestServer<VolunteerOrganizationSearchResponse>(
+          buildOrganizationsUrl(loadedFilters, { cursor: nextCursor }),
+          { includeJwt: true },
+        );
+        if (loadedFiltersRef.current !== loadedFilters) return;
+
+        setOrganizations(prev => [...prev, ...response.organizations]);
+        setNextCursor(response.next_cursor);
+      } else {
+        const response = await requestServer<VolunteerPostingSearchResponse>(
+          buildPostingsUrl(loadedFilters, { cursor: nextCursor }),
+          { includeJwt: true },
+        );
+        if (loadedFiltersRef.current !== loadedFilters) return;
+
+        const nextPostings = filterPostings ? filterPostings(response.postings) : response.postings;
+        setPostings(prev => [...prev, ...nextPostings]);
+        setNextCursor(response.next_cursor);
+      }
+    } catch (loadError) {
+      notifications.push({
+        type: 'error',
+        message: loadError instanceof Error ? loadError.message : 'Failed to load more results.',
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [buildOrganizationsUrl, buildPostingsUrl, filterPostings, loadingMore, nextCursor, notifications]);
+
+  // Pages pass filterPostings inline, so read it through a ref to keep the map from refetching on every render
+  const filterPostingsRef = useRef(filterPostings);
+  useEffect(() => {
+    filterPostingsRef.current = filterPostings;
+  });
+
+  // Pages also rebuild initialFilters on every render, so the map refetches only when the filter values change
+  const activeFiltersSnapshot = JSON.stringify(activeFilters);
+
+  const fetchMapPostings = useCallback(async (bounds: PostingMapBounds): Promise<PostingMapPostings> => {
+    const filters = JSON.parse(activeFiltersSnapshot) as PostingSearchFilters;
+    const boundsQuery = {
+      limit: String(MAP_POSTINGS_LIMIT),
+      min_latitude: String(bounds.minLatitude),
+      max_latitude: String(bounds.maxLatitude),
+      min_longitude: String(bounds.minLongitude),
+      max_longitude: String(bounds.maxLongitude),
+    };
+
+    const postings: PostingWithContext[] = [];
+    let cursor: string | null = null;
+
+    for (let page = 0; page < MAP_POSTINGS_MAX_PAGES; page += 1) {
+      const response: VolunteerPostingSearchResponse = await requestServer<VolunteerPostingSearchResponse>(
+        buildPostingsUrl(filters, cursor ? { ...boundsQuery, cursor } : boundsQuery),
+        { includeJwt: true },
+      );
+
+      postings.push(...response.postings);
+      cursor = response.next_cursor;
+      if (!cursor) break;
+    }
+
+    return {
+      postings: filterPostingsRef.current ? filterPostingsRef.current(postings) : postings,
+      truncated: cursor !== null,
+    };
+  }, [activeFiltersSnapshot, buildPostingsUrl]);
 
   const applyFilters = useCallback(async (formValues: PostingSearchFormValues) => {
     const withEntity = { ...formValues, entity: activeEntity };
@@ -455,10 +595,14 @@ function PostingSearchView({
     }
   }, [searchParams, setSearchParams, showEntityTabs, storageKey, persistedFilters]);
 
+  const showPostingMap = enableMap && viewMode === 'map' && activeEntity === 'postings';
+
   const postingsInlineControls = activeEntity === 'postings'
     ? (postingsTopContent ?? actions)
     : undefined;
 
+  const showSaveSearch = Boolean(onSaveSearch) && activeEntity === 'postings';
+
   const headerActions = showEntityTabs
     ? undefined
     : actions;
@@ -558,7 +702,9 @@ function PostingSearchView({
                 { label: 'Title (A-Z)', value: 'title_asc' },
                 { label: 'Title (Z-A)', value: 'title_desc' },
               ]
-            : volunteerPostingSortOptions.map(option => ({ label: option.label, value: option.value }))}
+            : volunteerPostingSortOptions
+                .filter(option => enableDistanceFilter || option.sortBy !== 'nearest')
+                .map(option => ({ label: option.label, value: option.value }))}
         extraFields={(form) => {
           if (activeEntity === 'postings') {
             return (
@@ -615,10 +761,29 @@ function PostingSearchView({
         }}
         showAdvanced={activeEntity === 'postings'}
         getHasAdvancedFiltersApplied={values => activeEntity === 'postings'
-          ? (hasSharedAdvancedPostingFilters(values) || values.hideFull || values.crisisId !== 'all')
+          ? (hasSharedAdvancedPostingFilters(values) || values.hideFull || (enableAvailabilityFilter && values.hideUnavailable) || values.crisisId !== 'all' || Boolean(values.radiusKm))
           : false}
         renderAdvancedFields={form => (
           <>
+            {enableDistanceFilter && (
+              <div className="lg:col-span-2">
+                <PostingDistanceFields
+                  value={{
+                    radiusKm: form.watch('radiusKm') ?? '',
+                    nearLatitude: form.watch('nearLatitude') ?? '',
+                    nearLongitude: form.watch('nearLongitude') ?? '',
+                    nearLocationName: form.watch('nearLocationName') ?? '',
+                  }}
+                  onChange={(distance) => {
+                    (Object.keys(distance) as Array<keyof PostingDistanceFilterFields>).forEach((key) => {
+                      form.setValue(key, distance[key], { shouldDirty: true, shouldTouch: true });
+                    });
+                  }}
+                  homeLocation={homeLocation}
+                />
+              </div>
+            )}
+
             <div className="lg:col-span-2">
               <CalendarInfo
                 selectionMode="range"
@@ -683,80 +848,112 @@ function PostingSearchView({
                 <span className="label-text">Hide full postings</span>
               </label>
             </div>
+
+            {enableAvailabilityFilter && (
+              <div className="lg:col-span-2 flex items-end">
+                <label className="label cursor-pointer justify-start gap-3 py-0">
+                  <input
+                    type="checkbox"
+                    className="checkbox checkbox-sm"
+                    {...form.register('hideUnavailable')}
+                  />
+                  <span className="label-text">Hide postings I can&apos;t attend</span>
+                </label>
+              </div>
+            )}
           </>
         )}
       />
 
-      {postingsInlineControls && (
-        <div className="-mt-1 mb-2 flex justify-end">
+      {(postingsInlineControls || showSaveSearch) && (
+        <div className="-mt-1 mb-2 flex flex-wrap justify-end gap-2">
+          {showSaveSearch && (
+            <Button size="sm" style="outline" Icon={BookmarkPlus} onClick={() => onSaveSearch?.(activeFilters)}>
+              Save Search
+            </Button>
+          )}
           {postingsInlineControls}
         </div>
       )}
 
       {error && <div className="mb-4 text-sm text-base-content/70">Unable to load postings.</div>}
 
-      {loading
+      {showPostingMap
         ? (
-            <div className="p-6">
-              <div className="flex justify-center mt-8">
-                <Loading size="xl" />
-              </div>
-            </div>
+            <PostingMap
+              fetchPostings={fetchMapPostings}
+              center={homeLocation ? [homeLocation.latitude, homeLocation.longitude] : undefined}
+              crisisBasePath={crisisBasePath}
+            />
           )
-        : activeEntity === 'crises'
+        : loading
           ? (
-              crises.length === 0
+              <div className="p-6">
+                <div className="flex justify-center mt-8">
+                  <Loading size="xl" />
+                </div>
+              </div>
+            )
+          : activeEntity === 'crises'
+            ? (
+                crises.length === 0
+                  ? (
+                      <EmptyState
+                        Icon={icon}
+                        title="No crises found"
+                        description="Try a different search term or check again later."
+                      />
+                    )
+                  : (
+                      <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+                        {crises.map(crisis => (
+                          <CrisisCard key={crisis.id} crisis={crisis} link={`${crisisBasePath}/${crisis.id}/postings`} />
+                        ))}
+                      </div>
+                    )
+              )
+            : (postings.length === 0 && !organizations.length)
                 ? (
                     <EmptyState
                       Icon={icon}
-                      title="No crises found"
-                      description="Try a different search term or check again later."
+                      title={activeEntity === 'organizations' ? 'No organizations found' : 'No postings found'}
+                      description={activeEntity === 'organizations' ? 'No organizations found yet.' : emptyMessage}
                     />
                   )
                 : (
-                    <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
-                      {crises.map(crisis => (
-                        <CrisisCard key={crisis.id} crisis={crisis} link={`${crisisBasePath}/${crisis.id}/postings`} />
-                      ))}
-                    </div>
-                  )
-            )
-          : (postings.length === 0 && !organizations.length)
-              ? (
-                  <EmptyState
-                    Icon={icon}
-                    title={activeEntity === 'organizations' ? 'No organizations found' : 'No postings found'}
-                    description={activeEntity === 'organizations' ? 'No organizations found yet.' : emptyMessage}
-                  />
-                )
-              : (
-                  <>
-                    {postings.length > 0 && (
-                      <div>
-                        <PostingCollection
-                          postings={postings}
-                          showCrisis
-                          crisisBasePath={crisisBasePath}
-                          cardsContainerClassName="grid grid-cols-1 gap-6 lg:grid-cols-2 2xl:grid-cols-3"
-                          listContainerClassName="space-y-4"
-                        />
-                      </div>
-                    )}
-
-                    {enableOrganizationSearch && organizations.length > 0 && (
-                      <div>
-                        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
-                          {organizations.map(organization => (
-                            <OrganizationCard
-                              key={organization.id}
-                              organization={organization}
-                            />
-                          ))}
+                    <>
+                      {postings.length > 0 && (
+                        <div>
+                          <PostingCollection
+                            postings={postings}
+                            showCrisis
+                            crisisBasePath={crisisBasePath}
+                            cardsContainerClassName="grid grid-cols-1 gap-6 lg:grid-cols-2 2xl:grid-cols-3"
+                            listContainerClassName="space-y-4"
+                          />
                         </div>
-                      </div>
-                    )}
-                  </>
-                )}
+                      )}
+
+                      {enableOrganizationSearch && organizations.length > 0 && (
+                        <div>
+                          <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+                            {organizations.map(organization => (
+                              <OrganizationCard
+                                key={organization.id}
+                                organization={organization}
+                              />
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      <LoadMoreButton
+                        hasMore={nextCursor !== null}
+                        loading={loadingMore}
+                        onLoadMore={() => { void loadMore(); }}
+                      />
+                    </>
+                  )}
     </PageContainer>
   );
 }
@@ -1,30 +1,46 @@
-import { LayoutGrid, List } from 'lucide-react';
+import { LayoutGrid, List, MapIcon } from 'lucide-react';
 
 import { usePostingViewMode } from '../../hooks/usePostingViewMode';
 
-function PostingViewModeToggle() {
+type PostingViewModeToggleProps = {
+  showMap?: boolean;
+};
+
+function PostingViewModeToggle({ showMap = false }: PostingViewModeToggleProps) {
   const { viewMode, setViewMode } = usePostingViewMode();
+  const activeViewMode = viewMode === 'map' && !showMap ? 'cards' : viewMode;
 
   return (
     <div className="join">
       <button
         type="button"
-        className={`join-item btn btn-sm ${viewMode === 'cards' ? 'btn-primary' : 'btn-outline'}`}
+        className={`join-item btn btn-sm ${activeViewMode === 'cards' ? 'btn-primary' : 'btn-outline'}`}
         onClick={() => setViewMode('cards')}
-        aria-pressed={viewMode === 'cards'}
+        aria-pressed={activeViewMode === 'cards'}
       >
         <LayoutGrid size={14} />
         <span className="max-lg:hidden">Cards</span>
       </button>
       <button
         type="button"
-        className={`join-item btn btn-sm ${viewMode === 'list' ? 'btn-primary' : 'btn-outline'}`}
+        className={`join-item btn btn-sm ${activeViewMode === 'list' ? 'btn-primary' : 'btn-outline'}`}
         onClick={() => setViewMode('list')}
-        aria-pressed={viewMode === 'list'}
+        aria-pressed={activeViewMode === 'list'}
       >
         <List size={14} />
         <span className="max-lg:hidden">List</span>
       </button>
+      {showMap && (
+        <button
+          type="button"
+          className={`join-item btn btn-sm ${activeViewMode === 'map' ? 'btn-primary' : 'btn-outline'}`}
+          onClick={() => setViewMode('map')}
+          aria-pressed={activeViewMode === 'map'}
+        >
+          <MapIcon size={14} />
+          <span className="max-lg:hidden">Map</span>
+        </button>
+      )}
     </div>
   );
 }
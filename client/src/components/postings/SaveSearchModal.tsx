@@ -0,0 +1,85 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { BookmarkPlus, X } from 'lucide-react';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import zod from 'zod';
+
+import { savedSearchAlertFrequencyOptions } from './savedSearchFilters.ts';
+import { executeAndShowError, FormField, FormRootError } from '../../utils/formUtils.tsx';
+import Button from '../Button.tsx';
+import Modal from '../Modal.tsx';
+
+import type { SavedSearchAlertFrequency } from '../../../../server/src/db/tables/index.ts';
+
+const saveSearchFormSchema = zod.object({
+  name: zod.string().trim().min(1, 'Name is required').max(128, 'Name must be at most 128 characters'),
+  alert_frequency: zod.enum(['immediate', 'daily', 'off']),
+});
+
+type SaveSearchFormData = zod.infer<typeof saveSearchFormSchema>;
+
+type SaveSearchModalProps = {
+  open: boolean;
+  defaultName: string;
+  onClose: () => void;
+  onSave: (name: string, alertFrequency: SavedSearchAlertFrequency) => Promise<void>;
+};
+
+function SaveSearchModal({ open, defaultName, onClose, onSave }: SaveSearchModalProps) {
+  const form = useForm<SaveSearchFormData>({
+    resolver: zodResolver(saveSearchFormSchema),
+    defaultValues: { name: defaultName, alert_frequency: 'immediate' },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ name: defaultName, alert_frequency: 'immediate' });
+    }
+  }, [open, defaultName, form]);
+
+  const handleSubmit = form.handleSubmit(async (data) => {
+    await executeAndShowError(form, () => onSave(data.name, data.alert_frequency));
+  });
+
+  const submitting = form.formState.isSubmitting;
+
+  return (
+    <Modal
+      open={open}
+      title="Save this search"
+      description="We will let you know when new postings match these filters."
+      onClose={onClose}
+      disableBackdropClose={submitting}
+      showCloseButton={!submitting}
+    >
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <FormField
+          form={form}
+          name="name"
+          label="Name"
+          placeholder="Weekend food drives"
+        />
+
+        <FormField
+          form={form}
+          name="alert_frequency"
+          label="Alerts"
+          selectOptions={savedSearchAlertFrequencyOptions}
+        />
+
+        <FormRootError form={form} />
+
+        <div className="modal-action">
+          <Button type="button" color="ghost" Icon={X} onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button type="submit" color="primary" Icon={BookmarkPlus} loading={submitting}>
+            Save Search
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+export default SaveSearchModal;
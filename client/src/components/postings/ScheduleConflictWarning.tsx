@@ -0,0 +1,69 @@
+import { CalendarClock } from 'lucide-react';
+
+import Alert from '../Alert';
+
+import type { ScheduleConflict } from '../../../../server/src/types';
+
+interface ScheduleConflictWarningProps {
+  conflicts: ScheduleConflict[];
+  unavailableDates: string[];
+  ignoreConflicts: boolean;
+  onIgnoreConflictsChange: (value: boolean) => void;
+  disabled?: boolean;
+}
+
+const formatTimeRange = (conflict: ScheduleConflict) => (conflict.start_time && conflict.end_time
+  ? ` (${conflict.start_time.slice(0, 5)} - ${conflict.end_time.slice(0, 5)})`
+  : '');
+
+export default function ScheduleConflictWarning({
+  conflicts,
+  unavailableDates,
+  ignoreConflicts,
+  onIgnoreConflictsChange,
+  disabled = false,
+}: ScheduleConflictWarningProps) {
+  if (conflicts.length === 0 && unavailableDates.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert color="warning" icon={CalendarClock} className="text-sm">
+      <div className="space-y-2">
+        {conflicts.length > 0 && (
+          <div>
+            <p className="font-medium">This overlaps with postings you are already enrolled in:</p>
+            <ul className="list-disc pl-5">
+              {conflicts.map(conflict => (
+                <li key={`${conflict.posting_id}-${conflict.date}`}>
+                  {conflict.posting_title}
+                  {' on '}
+                  {conflict.date}
+                  {formatTimeRange(conflict)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {unavailableDates.length > 0 && (
+          <p>
+            {'Outside your availability: '}
+            {unavailableDates.join(', ')}
+          </p>
+        )}
+        {conflicts.length > 0 && (
+          <label className="label cursor-pointer justify-start gap-2 py-0">
+            <input
+              type="checkbox"
+              className="checkbox checkbox-sm checkbox-warning"
+              checked={ignoreConflicts}
+              onChange={event => onIgnoreConflictsChange(event.target.checked)}
+              disabled={disabled}
+            />
+            <span className="label-text">Apply anyway, I can manage both</span>
+          </label>
+        )}
+      </div>
+    </Alert>
+  );
+}
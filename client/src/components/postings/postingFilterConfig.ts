@@ -21,6 +21,13 @@ export type SharedPostingFilterFields = {
   organizationCertificateFilter: 'all' | 'enabled' | 'disabled';
 };
 
+export type PostingDistanceFilterFields = {
+  radiusKm: string;
+  nearLatitude: string;
+  nearLongitude: string;
+  nearLocationName: string;
+};
+
 export type PostingSortBy = SharedPostingSortBy | 'title';
 export type PostingSortOptionValue = SharedPostingSortOptionValue | 'title_asc' | 'title_desc';
 
@@ -39,8 +46,8 @@ export const postingSortOptions: PostingSortOption[] = [
   { value: 'title_desc', label: 'Title (Z-A)', sortBy: 'title', sortDir: 'desc' },
 ];
 
-export type VolunteerPostingSortBy = SharedPostingSortBy | 'recommended';
-export type VolunteerPostingSortOptionValue = SharedPostingSortOptionValue | 'recommended_desc';
+export type VolunteerPostingSortBy = SharedPostingSortBy | 'recommended' | 'nearest';
+export type VolunteerPostingSortOptionValue = SharedPostingSortOptionValue | 'recommended_desc' | 'nearest_asc';
 
 export type VolunteerPostingSortOption = {
   value: VolunteerPostingSortOptionValue;
@@ -52,12 +59,22 @@ export type VolunteerPostingSortOption = {
 export const volunteerPostingSortOptions: VolunteerPostingSortOption[] = [
   { value: 'created_at_desc', label: 'Most Recent', sortBy: 'created_at', sortDir: 'desc' },
   { value: 'recommended_desc', label: 'Recommended (Best Match)', sortBy: 'recommended', sortDir: 'desc' },
+  { value: 'nearest_asc', label: 'Nearest First', sortBy: 'nearest', sortDir: 'asc' },
   { value: 'start_date_asc', label: 'Start Date (Oldest)', sortBy: 'start_date', sortDir: 'asc' },
   { value: 'start_date_desc', label: 'Start Date (Newest)', sortBy: 'start_date', sortDir: 'desc' },
   { value: 'title_asc', label: 'Title (A-Z)', sortBy: 'title', sortDir: 'asc' },
   { value: 'title_desc', label: 'Title (Z-A)', sortBy: 'title', sortDir: 'desc' },
 ];
 
+export const postingRadiusOptions = [
+  { label: 'Any distance', value: '' },
+  { label: 'Within 5 km', value: '5' },
+  { label: 'Within 10 km', value: '10' },
+  { label: 'Within 25 km', value: '25' },
+  { label: 'Within 50 km', value: '50' },
+  { label: 'Within 100 km', value: '100' },
+];
+
 const getSortOptionByFields = <
   TOption extends { sortBy: string; sortDir: PostingSortDir },
 >(
@@ -101,6 +118,18 @@ export const buildSharedPostingQuery = (filters: SharedPostingFilterFields): Rec
   return query;
 };
 
+export const buildPostingDistanceQuery = (filters: PostingDistanceFilterFields): Record<string, string> => {
+  const query: Record<string, string> = {};
+
+  if (!filters.nearLatitude || !filters.nearLongitude) return query;
+
+  query.near_latitude = filters.nearLatitude;
+  query.near_longitude = filters.nearLongitude;
+  if (filters.radiusKm) query.radius_km = filters.radiusKm;
+
+  return query;
+};
+
 export const hasSharedAdvancedPostingFilters = (filters: Pick<SharedPostingFilterFields, 'startDateFrom' | 'endDateTo' | 'startTimeFrom' | 'endTimeTo' | 'postingFilter'>): boolean => Boolean(
   filters.startDateFrom
   || filters.endDateTo
@@ -108,3 +137,6 @@ export const hasSharedAdvancedPostingFilters = (filters: Pick<SharedPostingFilte
   || filters.endTimeTo
   || (filters.postingFilter && filters.postingFilter !== 'all'),
 );
+
+// Search pages remember their last applied filters per route for the browser session
+export const getPostingSearchStorageKey = (pathname: string) => `posting-search-filters:${pathname}`;
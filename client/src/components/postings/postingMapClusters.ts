@@ -0,0 +1,65 @@
+import type { PostingWithContext } from '../../../../server/src/types';
+
+export type PostingMapBounds = {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+};
+
+export type PostingMapCluster = {
+  key: string;
+  latitude: number;
+  longitude: number;
+  postings: PostingWithContext[];
+};
+
+type ProjectPoint = (latitude: number, longitude: number) => { x: number; y: number };
+
+const CLUSTER_CELL_SIZE_PX = 64;
+
+const wrapLongitude = (longitude: number) => ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Converts the map viewport to the bounding box sent to the server. A viewport
+ * that crosses the antimeridian yields a minimum longitude greater than the maximum.
+ */
+export const toPostingMapBounds = (south: number, west: number, north: number, east: number): PostingMapBounds => {
+  if (east - west >= 360) {
+    return { minLatitude: south, maxLatitude: north, minLongitude: -180, maxLongitude: 180 };
+  }
+
+  return {
+    minLatitude: south,
+    maxLatitude: north,
+    minLongitude: wrapLongitude(west),
+    maxLongitude: wrapLongitude(east),
+  };
+};
+
+/**
+ * Groups postings whose markers fall in the same square of the screen at the
+ * current zoom level, so nearby postings are drawn as a single counted marker.
+ */
+export const clusterPostings = (
+  postings: PostingWithContext[],
+  project: ProjectPoint,
+  cellSize: number = CLUSTER_CELL_SIZE_PX,
+): PostingMapCluster[] => {
+  const cells = new Map<string, PostingWithContext[]>();
+
+  postings.forEach((posting) => {
+    if (posting.latitude == null || posting.longitude == null) return;
+
+    const point = project(posting.latitude, posting.longitude);
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    cells.set(key, [...(cells.get(key) ?? []), posting]);
+  });
+
+  return [...cells.entries()].map(([key, cellPostings]) => ({
+    key,
+    latitude: cellPostings.reduce((sum, posting) => sum + posting.latitude!, 0) / cellPostings.length,
+    longitude: cellPostings.reduce((sum, posting) => sum + posting.longitude!, 0) / cellPostings.length,
+    postings: cellPostings,
+  }));
+};
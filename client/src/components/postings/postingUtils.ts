@@ -1,6 +1,7 @@
-import { getLocalOffsetMinutes } from '../../utils/timeUtils.ts';
+import { getLocalOffsetMinutes, toLocalTime, toUtcTime } from '../../utils/timeUtils.ts';
 
-import type { PostingWithContext } from '../../../../server/src/types';
+import type { GuardianConsentStatus, PostingOccurrenceOverrideEntry, PostingQuestion, PostingQuestionType } from '../../../../server/src/db/tables';
+import type { PostingRoleWithContext, PostingWithContext } from '../../../../server/src/types';
 
 type PostingEndFields = {
   end_date: string | Date | null | undefined;
@@ -86,9 +87,24 @@ export const formatCardDate = (dateValue: Date | null): string => {
   }).format(dateValue);
 };
 
+export const formatCheckInTime = (value: string | Date | null | undefined): string => {
+  const timestamp = normalizeTimestamp(value);
+  if (!timestamp) return '';
+  return timestamp.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', hour12: true });
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+export type PostingRecurrence = {
+  recurrence_weekdays?: number[] | null;
+  recurrence_interval?: number | null;
+  occurrence_overrides?: Array<{ date: string; is_skipped: boolean }>;
+};
+
 export const getPostingDates = (
   startDate: string | Date,
   endDate: string | Date | null | undefined,
+  recurrence: PostingRecurrence = {},
 ): string[] => {
   const parseIsoDateParts = (value: string) => {
     const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
@@ -114,18 +130,47 @@ export const getPostingDates = (
 
   if (!startParts || !endParts) return [];
 
+  const weekdays = recurrence.recurrence_weekdays?.length ? recurrence.recurrence_weekdays : undefined;
+  const interval = Math.max(1, recurrence.recurrence_interval ?? 1);
+  const skippedDates = new Set((recurrence.occurrence_overrides ?? [])
+    .filter(override => override.is_skipped)
+    .map(override => override.date));
+
   const result: string[] = [];
   const current = new Date(Date.UTC(startParts.year, startParts.month - 1, startParts.day));
   const end = new Date(Date.UTC(endParts.year, endParts.month - 1, endParts.day));
+  // Weeks are counted from the Sunday on or before the start date, matching the server
+  const firstWeekStart = current.getTime() - current.getUTCDay() * 24 * 60 * 60 * 1000;
 
   while (current.getTime() <= end.getTime()) {
-    result.push(formatDateToIso(current));
+    const weekIndex = Math.floor((current.getTime() - firstWeekStart) / (7 * 24 * 60 * 60 * 1000));
+    const isScheduled = !weekdays || (weekdays.includes(current.getUTCDay()) && weekIndex % interval === 0);
+    const date = formatDateToIso(current);
+
+    if (isScheduled && !skippedDates.has(date)) {
+      result.push(date);
+    }
+
     current.setUTCDate(current.getUTCDate() + 1); // advance by one UTC day
   }
 
   return result;
 };
 
+export const formatRecurrenceSummary = (recurrence: PostingRecurrence): string | undefined => {
+  if (!recurrence.recurrence_weekdays?.length) return undefined;
+
+  const days = [...recurrence.recurrence_weekdays]
+    .sort((left, right) => left - right)
+    .map(day => WEEKDAY_LABELS[day])
+    .join(', ');
+  const interval = recurrence.recurrence_interval ?? 1;
+
+  return interval > 1
+    ? `Every ${interval} weeks on ${days}`
+    : `Every week on ${days}`;
+};
+
 export const isPostingFullyBooked = (posting: PostingWithContext): boolean => {
   if (posting.max_volunteers == null) return false;
 
@@ -133,10 +178,160 @@ export const isPostingFullyBooked = (posting: PostingWithContext): boolean => {
     return (posting.enrollment_count ?? 0) >= posting.max_volunteers;
   }
 
-  const postingDates = getPostingDates(posting.start_date, posting.end_date);
+  const postingDates = getPostingDates(posting.start_date, posting.end_date, posting);
   if (postingDates.length === 0) return false;
 
   return postingDates.every(
     date => (posting.date_capacity?.[date] ?? 0) >= posting.max_volunteers!,
   );
 };
+
+export const formatPostingDistance = (distanceKm: number | null | undefined): string | undefined => {
+  if (distanceKm == null) return undefined;
+  if (distanceKm < 1) return `${Math.max(Math.round(distanceKm * 1000), 10)} m away`;
+
+  return `${distanceKm < 10 ? distanceKm.toFixed(1) : Math.round(distanceKm)} km away`;
+};
+
+export type PostingScheduleException = {
+  date: string;
+  is_skipped: boolean;
+  start_time: string;
+  end_time: string;
+};
+
+export type PostingScheduleValue = {
+  weekdays: number[] | null;
+  interval: number;
+  exceptions: PostingScheduleException[];
+};
+
+export const EMPTY_POSTING_SCHEDULE: PostingScheduleValue = {
+  weekdays: null,
+  interval: 1,
+  exceptions: [],
+};
+
+export const toPostingSchedulePayload = (schedule: PostingScheduleValue) => ({
+  recurrence_weekdays: schedule.weekdays,
+  recurrence_interval: schedule.interval,
+  occurrence_overrides: schedule.exceptions.map(exception => ({
+    date: exception.date,
+    is_skipped: exception.is_skipped,
+    start_time: exception.start_time ? toUtcTime(exception.start_time) : null,
+    end_time: exception.end_time ? toUtcTime(exception.end_time) : null,
+  })),
+});
+
+export const toPostingScheduleValue = (
+  posting: { recurrence_weekdays: number[] | null; recurrence_interval: number },
+  overrides: PostingOccurrenceOverrideEntry[] = [],
+): PostingScheduleValue => ({
+  weekdays: posting.recurrence_weekdays,
+  interval: posting.recurrence_interval,
+  exceptions: overrides.map(override => ({
+    date: override.date,
+    is_skipped: override.is_skipped,
+    start_time: override.start_time ? toLocalTime(override.start_time.slice(0, 5)) : '',
+    end_time: override.end_time ? toLocalTime(override.end_time.slice(0, 5)) : '',
+  })),
+});
+
+export type PostingRoleDraft = {
+  id?: number;
+  name: string;
+  max_volunteers: string;
+  minimum_age: string;
+  skills: string[];
+};
+
+export const EMPTY_POSTING_ROLE: PostingRoleDraft = {
+  name: '',
+  max_volunteers: '',
+  minimum_age: '',
+  skills: [],
+};
+
+export const toPostingRolesPayload = (roles: PostingRoleDraft[]) => roles.map(role => ({
+  ...(role.id !== undefined ? { id: role.id } : {}),
+  name: role.name.trim(),
+  max_volunteers: role.max_volunteers ? Number(role.max_volunteers) : null,
+  minimum_age: role.minimum_age ? Number(role.minimum_age) : null,
+  skills: role.skills,
+}));
+
+export const toPostingRoleDrafts = (roles: PostingRoleWithContext[] = []): PostingRoleDraft[] => roles.map(role => ({
+  id: role.id,
+  name: role.name,
+  max_volunteers: role.max_volunteers?.toString() ?? '',
+  minimum_age: role.minimum_age?.toString() ?? '',
+  skills: role.skills,
+}));
+
+export type PostingQuestionDraft = {
+  id?: number;
+  prompt: string;
+  type: PostingQuestionType;
+  options: string[];
+  is_required: boolean;
+};
+
+export const EMPTY_POSTING_QUESTION: PostingQuestionDraft = {
+  prompt: '',
+  type: 'short_text',
+  options: [],
+  is_required: false,
+};
+
+export const postingQuestionTypeOptions: { value: PostingQuestionType; label: string }[] = [
+  { value: 'short_text', label: 'Short text' },
+  { value: 'multiple_choice', label: 'Multiple choice' },
+  { value: 'yes_no', label: 'Yes / No' },
+];
+
+export const toPostingQuestionsPayload = (questions: PostingQuestionDraft[]) => questions.map(question => ({
+  ...(question.id !== undefined ? { id: question.id } : {}),
+  prompt: question.prompt.trim(),
+  type: question.type,
+  options: question.type === 'multiple_choice'
+    ? question.options.map(option => option.trim()).filter(Boolean)
+    : [],
+  is_required: question.is_required,
+}));
+
+export const toPostingQuestionDrafts = (questions: PostingQuestion[] = []): PostingQuestionDraft[] => questions.map(question => ({
+  id: question.id,
+  prompt: question.prompt,
+  type: question.type,
+  options: question.options,
+  is_required: question.is_required,
+}));
+
+export type ApplicationAnswerDrafts = Record<number, string>;
+
+export type ApplicationAnswerPayload = {
+  question_id: number;
+  answer: string;
+};
+
+export const getUnansweredRequiredQuestion = (questions: PostingQuestion[], answers: ApplicationAnswerDrafts) => (
+  questions.find(question => question.is_required && !answers[question.id]?.trim())
+);
+
+export const toApplicationAnswersPayload = (questions: PostingQuestion[], answers: ApplicationAnswerDrafts): ApplicationAnswerPayload[] => questions
+  .map(question => ({ question_id: question.id, answer: answers[question.id]?.trim() ?? '' }))
+  .filter(answer => answer.answer);
+
+export const guardianConsentStatusLabels: Record<GuardianConsentStatus, string> = {
+  pending: 'Awaiting guardian consent',
+  approved: 'Guardian consent given',
+  declined: 'Guardian declined',
+  cancelled: 'Consent request cancelled',
+};
+
+export const guardianConsentStatusBadgeClasses: Record<GuardianConsentStatus, string> = {
+  pending: 'badge-warning',
+  approved: 'badge-success',
+  declined: 'badge-error',
+  cancelled: 'badge-ghost',
+};
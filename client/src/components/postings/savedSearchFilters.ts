@@ -0,0 +1,77 @@
+import type { PostingSearchFilters } from './PostingSearchView.tsx';
+import type { SavedSearchAlertFrequency, SavedSearchFilters } from '../../../../server/src/db/tables/index.ts';
+
+export const savedSearchAlertFrequencyOptions: { label: string; value: SavedSearchAlertFrequency }[] = [
+  { label: 'Right away', value: 'immediate' },
+  { label: 'Daily digest', value: 'daily' },
+  { label: 'No alerts', value: 'off' },
+];
+
+export const toSavedSearchFilters = (filters: PostingSearchFilters): SavedSearchFilters => {
+  const radiusKm = Number(filters.radiusKm);
+  const hasNear = radiusKm > 0 && filters.nearLatitude !== '' && filters.nearLongitude !== '';
+
+  return {
+    search: filters.search.trim(),
+    skill_id: null,
+    posting_filter: filters.postingFilter,
+    crisis_id: filters.crisisId === 'all' ? null : Number(filters.crisisId),
+    start_date_from: filters.startDateFrom || null,
+    end_date_to: filters.endDateTo || null,
+    start_time_from: filters.startTimeFrom || null,
+    end_time_to: filters.endTimeTo || null,
+    near: hasNear
+      ? {
+          latitude: Number(filters.nearLatitude),
+          longitude: Number(filters.nearLongitude),
+          location_name: filters.nearLocationName,
+          radius_km: radiusKm,
+        }
+      : null,
+    hide_full: filters.hideFull,
+  };
+};
+
+export const fromSavedSearchFilters = (filters: SavedSearchFilters): Partial<PostingSearchFilters> => ({
+  entity: 'postings',
+  search: filters.search,
+  postingFilter: filters.posting_filter,
+  crisisId: filters.crisis_id === null ? 'all' : `${filters.crisis_id}`,
+  startDateFrom: filters.start_date_from ?? '',
+  endDateTo: filters.end_date_to ?? '',
+  startTimeFrom: filters.start_time_from ?? '',
+  endTimeTo: filters.end_time_to ?? '',
+  radiusKm: filters.near?.radius_km ? String(filters.near.radius_km) : '',
+  nearLatitude: filters.near ? String(filters.near.latitude) : '',
+  nearLongitude: filters.near ? String(filters.near.longitude) : '',
+  nearLocationName: filters.near?.location_name ?? '',
+  hideFull: filters.hide_full,
+});
+
+const POSTING_FILTER_LABELS: Record<SavedSearchFilters['posting_filter'], string | null> = {
+  all: null,
+  open: 'Open postings',
+  review: 'Review-based postings',
+  partial: 'Partial commitment',
+  full: 'Full commitment',
+  tagged: 'Tagged postings',
+  untagged: 'Untagged postings',
+};
+
+export const describeSavedSearchFilters = (filters: SavedSearchFilters): string => {
+  const parts = [
+    filters.search ? `"${filters.search}"` : null,
+    filters.skill_id !== null ? 'Specific skill' : null,
+    POSTING_FILTER_LABELS[filters.posting_filter],
+    filters.near?.radius_km ? `Within ${filters.near.radius_km} km of ${filters.near.location_name || 'a location'}` : null,
+    filters.start_date_from || filters.end_date_to
+      ? `${filters.start_date_from ?? 'Any date'} to ${filters.end_date_to ?? 'any date'}`
+      : null,
+    filters.start_time_from ? `Starts after ${filters.start_time_from}` : null,
+    filters.end_time_to ? `Ends by ${filters.end_time_to}` : null,
+    filters.crisis_id !== null ? 'Crisis postings' : null,
+    filters.hide_full ? 'Hides full postings' : null,
+  ].filter(part => part !== null);
+
+  return parts.length > 0 ? parts.join(' · ') : 'All postings';
+};
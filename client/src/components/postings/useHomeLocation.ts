@@ -0,0 +1,52 @@
+import { useCallback, useContext, useEffect, useMemo } from 'react';
+
+import AuthContext from '../../auth/AuthContext';
+import requestServer from '../../utils/requestServer';
+import useAsync from '../../utils/useAsync';
+
+import type { VolunteerHomeLocationResponse } from '../../../../server/src/api/types';
+import type { OrganizationAccountWithoutPassword, VolunteerHomeLocation } from '../../../../server/src/db/tables';
+
+/**
+ * The saved location distance searches start from: a volunteer's home location,
+ * or an organization's own address. Null until loaded or when none is saved.
+ */
+function useHomeLocation(): VolunteerHomeLocation | null {
+  const { user } = useContext(AuthContext);
+  const role = user?.role;
+
+  const getVolunteerHomeLocation = useCallback(
+    async () => requestServer<VolunteerHomeLocationResponse>('/volunteer/home-location', { includeJwt: true }),
+    [],
+  );
+
+  const { data: volunteerHomeLocation, trigger } = useAsync(getVolunteerHomeLocation, { notifyOnError: false });
+
+  useEffect(() => {
+    if (role !== 'volunteer') return;
+    trigger().catch(() => {});
+  }, [role, trigger]);
+
+  const organization = role === 'organization' ? user?.account as OrganizationAccountWithoutPassword : undefined;
+  const organizationLatitude = organization?.latitude ?? null;
+  const organizationLongitude = organization?.longitude ?? null;
+  const organizationLocationName = organization?.location_name ?? '';
+
+  return useMemo(() => {
+    if (role === 'volunteer') {
+      return volunteerHomeLocation?.home_location ?? null;
+    }
+
+    if (role === 'organization' && organizationLatitude !== null && organizationLongitude !== null) {
+      return {
+        latitude: organizationLatitude,
+        longitude: organizationLongitude,
+        location_name: organizationLocationName,
+      };
+    }
+
+    return null;
+  }, [role, volunteerHomeLocation, organizationLatitude, organizationLongitude, organizationLocationName]);
+}
+
+export default useHomeLocation;
@@ -0,0 +1,31 @@
+import type { SkillSuggestion } from '../../../../server/src/api/types';
+
+interface SkillSuggestionsMenuProps {
+  suggestions: SkillSuggestion[];
+  onSelect: (suggestion: SkillSuggestion) => void;
+}
+
+export default function SkillSuggestionsMenu({ suggestions, onSelect }: SkillSuggestionsMenuProps) {
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="menu menu-sm absolute z-20 mt-1 w-full flex-nowrap max-h-60 overflow-y-auto rounded-box border border-base-content/20 bg-base-100 shadow-lg">
+      {suggestions.map(suggestion => (
+        <li key={suggestion.id}>
+          <button
+            type="button"
+            className="flex justify-between"
+            onClick={() => onSelect(suggestion)}
+          >
+            <span>{suggestion.name}</span>
+            {suggestion.category && (
+              <span className="text-xs capitalize opacity-60">{suggestion.category}</span>
+            )}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -2,6 +2,8 @@ import { Plus, X } from 'lucide-react';
 import { useState, useCallback } from 'react';
 
 import SkillsList from './SkillsList';
+import SkillSuggestionsMenu from './SkillSuggestionsMenu';
+import useSkillSuggestions from './useSkillSuggestions';
 import IconButton from '../IconButton';
 
 interface SkillsInputProps {
@@ -11,14 +13,15 @@ interface SkillsInputProps {
 
 export default function SkillsInput({ skills, setSkills }: SkillsInputProps) {
   const [skillInput, setSkillInput] = useState('');
+  const suggestions = useSkillSuggestions(skillInput, skills);
 
-  const addSkill = useCallback(() => {
-    const trimmed = skillInput.trim();
+  const addSkill = useCallback((skill: string) => {
+    const trimmed = skill.trim();
     if (trimmed && !skills.includes(trimmed)) {
       setSkills(prev => [...prev, trimmed]);
       setSkillInput('');
     }
-  }, [skillInput, skills, setSkills]);
+  }, [skills, setSkills]);
 
   const removeSkill = useCallback(
     (index: number) => {
@@ -32,26 +35,31 @@ export default function SkillsInput({ skills, setSkills }: SkillsInputProps) {
       <label className="label">
         <span className="label-text font-medium">Skills</span>
       </label>
-      <div className="join w-full">
-        <input
-          className="input input-bordered join-item grow"
-          placeholder="e.g. First Aid"
-          value={skillInput}
-          onChange={e => setSkillInput(e.target.value)}
-          onKeyDown={(e) => {
-            if (e.key === 'Enter') {
-              e.preventDefault();
-              addSkill();
-            }
-          }}
-        />
-        <IconButton
-          type="button"
-          color="primary"
-          className="join-item"
-          onClick={addSkill}
-          Icon={Plus}
-        />
+      <div className="relative w-full">
+        <div className="join w-full">
+          <input
+            className="input input-bordered join-item grow"
+            placeholder="e.g. First Aid"
+            value={skillInput}
+            onChange={e => setSkillInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addSkill(skillInput);
+              }
+            }}
+            aria-autocomplete="list"
+          />
+          <IconButton
+            type="button"
+            color="primary"
+            className="join-item"
+            onClick={() => addSkill(skillInput)}
+            Icon={Plus}
+          />
+        </div>
+
+        <SkillSuggestionsMenu suggestions={suggestions} onSelect={suggestion => addSkill(suggestion.name)} />
       </div>
 
       {skills.length === 0
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+
+import requestServer from '../../utils/requestServer';
+
+import type { SkillSuggestion, UserSkillsResponse } from '../../../../server/src/api/types';
+
+const SUGGESTION_DELAY_MS = 200;
+
+/**
+ * Catalog skills matching what the user is typing, leaving out the ones already picked.
+ */
+export default function useSkillSuggestions(search: string, selectedSkills: string[]) {
+  const [suggestions, setSuggestions] = useState<SkillSuggestion[]>([]);
+  const trimmedSearch = search.trim();
+
+  useEffect(() => {
+    if (!trimmedSearch) return;
+
+    let cancelled = false;
+    const timeout = window.setTimeout(() => {
+      requestServer<UserSkillsResponse>('/user/skills', {
+        includeJwt: true,
+        query: { search: trimmedSearch },
+      })
+        .then((response) => {
+          if (!cancelled) setSuggestions(response.skills);
+        })
+        .catch(() => {
+          if (!cancelled) setSuggestions([]);
+        });
+    }, SUGGESTION_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [trimmedSearch]);
+
+  const selected = new Set(selectedSkills.map(skill => skill.toLowerCase()));
+  return trimmedSearch ? suggestions.filter(suggestion => !selected.has(suggestion.name.toLowerCase())) : [];
+}
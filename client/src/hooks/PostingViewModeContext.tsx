@@ -10,7 +10,8 @@ import {
 export function PostingViewModeProvider({ children }: { children: ReactNode }) {
   const [viewModeState, setViewModeState] = useState<PostingViewMode>(() => {
     if (typeof window === 'undefined') return 'cards';
-    return window.localStorage.getItem(postingViewModeStorageKey) === 'list' ? 'list' : 'cards';
+    const storedViewMode = window.localStorage.getItem(postingViewModeStorageKey);
+    return storedViewMode === 'list' || storedViewMode === 'map' ? storedViewMode : 'cards';
   });
 
   const setViewMode = (mode: PostingViewMode) => {
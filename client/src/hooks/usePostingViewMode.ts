@@ -1,6 +1,7 @@
 import { createContext, useContext } from 'react';
 
-export type PostingViewMode = 'cards' | 'list';
+// Views that cannot plot postings on a map treat 'map' as 'cards'
+export type PostingViewMode = 'cards' | 'list' | 'map';
 
 export type PostingViewModeContextValue = {
   viewMode: PostingViewMode;
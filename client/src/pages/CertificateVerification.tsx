@@ -1,7 +1,8 @@
 import { zodResolver } from '@hookform/resolvers/zod';
-import { CheckCircle2, FileSearch, ShieldAlert } from 'lucide-react';
+import { Ban, CheckCircle2, FileSearch, ShieldAlert } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
+import { useSearchParams } from 'react-router-dom';
 import { z } from 'zod';
 
 import Button from '../components/Button';
@@ -30,6 +31,7 @@ type VerificationFormData = z.infer<typeof verificationSchema>;
 const CERTIFICATE_PREVIEW_ID = 'certificate-preview-verify';
 
 function CertificateVerification() {
+  const [searchParams] = useSearchParams();
   const [result, setResult] = useState<PublicCertificateVerificationResponse | null>(null);
   const [verifiedToken, setVerifiedToken] = useState<string>('');
   const previewViewportRef = useRef<HTMLDivElement | null>(null);
@@ -39,7 +41,7 @@ function CertificateVerification() {
     resolver: zodResolver(verificationSchema),
     mode: 'onTouched',
     defaultValues: {
-      token: '',
+      token: searchParams.get('token') ?? '',
     },
   });
 
@@ -60,6 +62,14 @@ function CertificateVerification() {
     });
   });
 
+  // Codes scanned from a PDF certificate link here with the token prefilled
+  const initialToken = useRef(searchParams.get('token'));
+  useEffect(() => {
+    if (!initialToken.current) return;
+    initialToken.current = null;
+    void onVerify();
+  }, [onVerify]);
+
   useEffect(() => {
     const viewportElement = previewViewportRef.current;
     if (!viewportElement || !result?.valid) return undefined;
@@ -116,12 +126,19 @@ function CertificateVerification() {
 
         {result && (
           <Card
-            title={result.valid ? 'Certificate is valid' : 'Certificate is invalid'}
-            Icon={result.valid ? CheckCircle2 : ShieldAlert}
+            title={result.valid ? 'Certificate is valid' : result.revoked_at ? 'Certificate is revoked' : 'Certificate is invalid'}
+            Icon={result.valid ? CheckCircle2 : result.revoked_at ? Ban : ShieldAlert}
           >
             <p className={result.valid ? 'text-success' : 'text-error'}>
               {result.message}
             </p>
+            {result.revoked_at && (
+              <p className="mt-2 text-sm opacity-70">
+                Revoked on:
+                {' '}
+                {new Date(result.revoked_at).toLocaleString()}
+              </p>
+            )}
             {result.valid && result.issued_at && (
               <p className="mt-2 text-sm opacity-70">
                 Issued at:
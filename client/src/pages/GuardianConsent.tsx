@@ -0,0 +1,217 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Calendar, CheckCircle2, MapPin, ShieldAlert, User, UserCheck, X } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { useSearchParams } from 'react-router-dom';
+
+import Alert from '../components/Alert';
+import Button from '../components/Button';
+import Card from '../components/Card';
+import Footer from '../components/layout/Footer';
+import UserNavbar from '../components/layout/navbars/UserNavbar';
+import PageContainer from '../components/layout/PageContainer';
+import PageHeader from '../components/layout/PageHeader';
+import Loading from '../components/Loading';
+import { guardianConsentFormSchema, type GuardianConsentFormData } from '../schemas/posting';
+import { executeAndShowError, FormField, FormRootError } from '../utils/formUtils';
+import requestServer from '../utils/requestServer';
+import useAsync from '../utils/useAsync';
+
+import type { PublicGuardianConsentDecisionResponse, PublicGuardianConsentResponse } from '../../../server/src/api/types';
+
+type GuardianConsentDecision = 'approve' | 'decline';
+
+const OUTCOME_MESSAGES: Record<PublicGuardianConsentDecisionResponse['outcome'], string> = {
+  approved: 'Thank you. The organization can now go ahead with the application.',
+  enrolled: 'Thank you. The volunteer is now enrolled.',
+  full: 'Thank you. Unfortunately the posting filled up in the meantime, so the volunteer was not enrolled.',
+  declined: 'Thank you. The application was withdrawn.',
+};
+
+const CLOSED_REQUEST_MESSAGES: Record<Exclude<PublicGuardianConsentResponse['status'], 'pending'>, string> = {
+  approved: 'This request was already approved.',
+  declined: 'This request was already declined.',
+  cancelled: 'This request is no longer active. The volunteer may have withdrawn or sent a new request.',
+};
+
+const formatDate = (value: string | null) => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  if (!year || !month || !day) return value;
+
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  }).format(new Date(year, month - 1, day));
+};
+
+function GuardianConsent() {
+  const [searchParams] = useSearchParams();
+  const token = (searchParams.get('token') ?? '').trim();
+  const [result, setResult] = useState<PublicGuardianConsentDecisionResponse | null>(null);
+  const [submittingDecision, setSubmittingDecision] = useState<GuardianConsentDecision | null>(null);
+
+  const getConsent = useCallback(
+    async () => requestServer<PublicGuardianConsentResponse>('/public/guardian-consent', { query: { token } }),
+    [token],
+  );
+
+  const { data: consent, loading, error, trigger } = useAsync(getConsent, { notifyOnError: false });
+
+  useEffect(() => {
+    if (!token) return;
+    trigger().catch(() => {});
+  }, [token, trigger]);
+
+  const form = useForm<GuardianConsentFormData>({
+    resolver: zodResolver(guardianConsentFormSchema),
+    mode: 'onTouched',
+  });
+
+  const submitDecision = (decision: GuardianConsentDecision) => form.handleSubmit(async (data) => {
+    setSubmittingDecision(decision);
+    try {
+      await executeAndShowError(form, async () => {
+        const response = await requestServer<PublicGuardianConsentDecisionResponse>('/public/guardian-consent', {
+          method: 'POST',
+          body: {
+            token,
+            decision,
+            guardian_name: data.guardian_name,
+          },
+        });
+        setResult(response);
+      });
+    } finally {
+      setSubmittingDecision(null);
+    }
+  });
+
+  const dateRange = consent
+    ? [formatDate(consent.start_date), formatDate(consent.end_date)]
+        .filter((date, index, dates): date is string => Boolean(date) && dates.indexOf(date) === index)
+        .join(' - ')
+    : '';
+
+  return (
+    <div className="min-h-screen flex flex-col bg-base-100">
+      <UserNavbar />
+      <PageContainer>
+        <PageHeader
+          title="Guardian Consent"
+          subtitle="Review a volunteering request from someone in your care."
+          icon={UserCheck}
+        />
+
+        {!token || error
+          ? (
+              <Card title="Consent link unavailable" Icon={ShieldAlert} color="error">
+                <p className="opacity-80">
+                  {error?.message ?? 'This consent link is missing a token.'}
+                </p>
+              </Card>
+            )
+          : loading || !consent
+            ? (
+                <Card>
+                  <Loading size="md" />
+                </Card>
+              )
+            : (
+                <>
+                  <Card
+                    title={consent.posting_title}
+                    description={consent.organization_name || undefined}
+                    Icon={Calendar}
+                  >
+                    <p>
+                      <span className="font-semibold">{consent.volunteer_first_name}</span>
+                      {' '}
+                      would like to volunteer for this opportunity and named you as their parent or guardian.
+                    </p>
+                    <div className="flex flex-wrap gap-4 mt-3 text-sm opacity-80">
+                      {dateRange && (
+                        <span className="inline-flex items-center gap-1">
+                          <Calendar size={14} />
+                          {dateRange}
+                        </span>
+                      )}
+                      {consent.location_name && (
+                        <span className="inline-flex items-center gap-1">
+                          <MapPin size={14} />
+                          {consent.location_name}
+                        </span>
+                      )}
+                    </div>
+                    {consent.posting_description && (
+                      <p className="mt-3 text-sm whitespace-pre-line">{consent.posting_description}</p>
+                    )}
+                  </Card>
+
+                  <Card title="Your Answer" Icon={UserCheck}>
+                    {result
+                      ? (
+                          <Alert color={result.status === 'approved' ? 'success' : 'info'} icon={CheckCircle2}>
+                            {OUTCOME_MESSAGES[result.outcome]}
+                          </Alert>
+                        )
+                      : consent.status !== 'pending'
+                        ? (
+                            <Alert color="info">
+                              {CLOSED_REQUEST_MESSAGES[consent.status]}
+                            </Alert>
+                          )
+                        : consent.is_expired
+                          ? (
+                              <Alert color="warning">
+                                This consent link has expired. Please ask the volunteer to send a new one.
+                              </Alert>
+                            )
+                          : (
+                              <form onSubmit={event => event.preventDefault()} className="space-y-4">
+                                <FormField
+                                  form={form}
+                                  name="guardian_name"
+                                  label="Your Full Name"
+                                  Icon={User}
+                                />
+                                <p className="text-xs opacity-70">
+                                  Your name, the time of your answer and your browser details are recorded with your decision.
+                                </p>
+                                <FormRootError form={form} />
+                                <div className="flex flex-wrap justify-end gap-2">
+                                  <Button
+                                    type="button"
+                                    color="error"
+                                    style="outline"
+                                    Icon={X}
+                                    loading={submittingDecision === 'decline'}
+                                    disabled={submittingDecision !== null}
+                                    onClick={submitDecision('decline')}
+                                  >
+                                    Decline
+                                  </Button>
+                                  <Button
+                                    type="button"
+                                    color="success"
+                                    Icon={CheckCircle2}
+                                    loading={submittingDecision === 'approve'}
+                                    disabled={submittingDecision !== null}
+                                    onClick={submitDecision('approve')}
+                                  >
+                                    Give Consent
+                                  </Button>
+                                </div>
+                              </form>
+                            )}
+                  </Card>
+                </>
+              )}
+      </PageContainer>
+      <Footer />
+    </div>
+  );
+}
+
+export default GuardianConsent;
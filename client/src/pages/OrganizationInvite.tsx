@@ -0,0 +1,151 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CheckCircle, LockKeyhole, LogIn, User, UserPlus } from 'lucide-react';
+import { useCallback, useContext, useEffect } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+
+import AuthContext from '../auth/AuthContext';
+import Button from '../components/Button';
+import Card from '../components/Card';
+import Hero from '../components/layout/Hero';
+import LinkButton from '../components/LinkButton';
+import Loading from '../components/Loading';
+import { organizationInviteAcceptSchema, type OrganizationInviteAcceptFormData } from '../schemas/auth';
+import { executeAndShowError, FormField, FormRootError } from '../utils/formUtils';
+import requestServer from '../utils/requestServer';
+import useAsync from '../utils/useAsync';
+
+import type { UserOrganizationInviteResponse } from '../../../server/src/api/types';
+
+const MEMBER_ROLE_DESCRIPTIONS: Record<UserOrganizationInviteResponse['role'], string> = {
+  owner: 'As an owner you can manage postings, attendance, certificates and the team.',
+  coordinator: 'As a coordinator you can manage postings, applications and attendance.',
+  viewer: 'As a viewer you can see postings, applications and attendance.',
+};
+
+function OrganizationInvite() {
+  const [searchParams] = useSearchParams();
+  const inviteKey = (searchParams.get('key') ?? '').trim();
+  const navigate = useNavigate();
+  const auth = useContext(AuthContext);
+
+  const getInvite = useCallback(
+    async () => requestServer<UserOrganizationInviteResponse>('/user/organization-invite', { query: { key: inviteKey } }),
+    [inviteKey],
+  );
+
+  const { data: invite, loading, error, trigger } = useAsync(getInvite, { notifyOnError: false });
+
+  useEffect(() => {
+    if (!inviteKey) return;
+    trigger().catch(() => {});
+  }, [inviteKey, trigger]);
+
+  const form = useForm<OrganizationInviteAcceptFormData>({
+    resolver: zodResolver(organizationInviteAcceptSchema),
+    mode: 'onTouched',
+    reValidateMode: 'onChange',
+  });
+
+  const passwordValue = useWatch({ control: form.control, name: 'password' });
+  const confirmValue = useWatch({ control: form.control, name: 'confirmPassword' });
+  useEffect(() => {
+    if (!confirmValue) return;
+    void form.trigger('confirmPassword');
+  }, [confirmValue, form, passwordValue]);
+
+  const submit = form.handleSubmit(async (data) => {
+    await executeAndShowError(form, async () => {
+      await auth.acceptOrganizationInvite(inviteKey, {
+        first_name: data.first_name,
+        last_name: data.last_name,
+        password: data.password,
+      });
+      navigate('/organization', { replace: true });
+    });
+  });
+
+  if (!inviteKey || error) {
+    return (
+      <Hero>
+        <Card>
+          <h2 className="font-bold text-2xl text-center">Invitation unavailable</h2>
+          <p className="opacity-80 text-center">
+            {error?.message ?? 'This invitation link is missing a token.'}
+            {' '}
+            Ask your organization to send you a new invitation.
+          </p>
+          <LinkButton color="primary" className="mx-auto" to="/login" Icon={LogIn} layout="wide">
+            Back to login
+          </LinkButton>
+        </Card>
+      </Hero>
+    );
+  }
+
+  if (loading || !invite) {
+    return (
+      <Hero>
+        <Card>
+          <Loading size="md" />
+        </Card>
+      </Hero>
+    );
+  }
+
+  return (
+    <Hero
+      title={`Join ${invite.organization_name}`}
+      description={`You were invited as ${invite.email}. ${MEMBER_ROLE_DESCRIPTIONS[invite.role]}`}
+    >
+      <Card>
+        <form className="w-full max-w-lg" onSubmit={submit}>
+          <FormField
+            form={form}
+            label="First Name"
+            name="first_name"
+            Icon={User}
+          />
+
+          <FormField
+            form={form}
+            label="Last Name"
+            name="last_name"
+            Icon={User}
+          />
+
+          <FormField
+            form={form}
+            label="Password"
+            name="password"
+            type="password"
+            Icon={LockKeyhole}
+          />
+
+          <FormField
+            form={form}
+            label="Confirm Password"
+            name="confirmPassword"
+            type="password"
+            Icon={CheckCircle}
+          />
+
+          <FormRootError form={form} />
+
+          <div className="card-actions justify-end mt-4">
+            <Button
+              color="primary"
+              type="submit"
+              loading={form.formState.isSubmitting}
+              Icon={UserPlus}
+            >
+              Join Organization
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </Hero>
+  );
+}
+
+export default OrganizationInvite;
@@ -1,5 +1,5 @@
 import { zodResolver } from '@hookform/resolvers/zod';
-import { AlertTriangle, Building2, ClipboardList, Flag, Globe, Mail, MapPin, Phone } from 'lucide-react';
+import { AlertTriangle, Building2, ClipboardList, Flag, Globe, Mail, MapPin, Phone, UserCheck, UserPlus } from 'lucide-react';
 import { useContext, useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { useParams } from 'react-router-dom';
@@ -9,6 +9,7 @@ import AuthContext from '../auth/AuthContext';
 import Button from '../components/Button';
 import Card from '../components/Card';
 import EmptyState from '../components/EmptyState';
+import RatingSummary from '../components/feedback/RatingSummary';
 import ColumnLayout from '../components/layout/ColumnLayout';
 import PageContainer from '../components/layout/PageContainer';
 import PageHeader from '../components/layout/PageHeader';
@@ -23,7 +24,11 @@ import useNotifications from '../notifications/useNotifications';
 import requestServer from '../utils/requestServer';
 import useAsync from '../utils/useAsync';
 
-import type { OrganizationProfileResponse, VolunteerReportOrganizationResponse } from '../../../server/src/api/types';
+import type {
+  OrganizationProfileResponse,
+  VolunteerOrganizationFollowResponse,
+  VolunteerReportOrganizationResponse,
+} from '../../../server/src/api/types';
 import type { PostingWithContext } from '../../../server/src/types';
 
 const reportOrganizationSchema = zod.object({
@@ -39,6 +44,8 @@ function OrganizationProfile() {
   const notifications = useNotifications();
   const { user } = useContext(AuthContext);
   const isOrganization = user?.role === 'organization';
+  const isVolunteer = user?.role === 'volunteer';
+  const [updatedIsFollowing, setUpdatedIsFollowing] = useState<boolean | null>(null);
   const reportForm = useForm<ReportOrganizationFormData>({
     resolver: zodResolver(reportOrganizationSchema),
     mode: 'onTouched',
@@ -64,6 +71,39 @@ function OrganizationProfile() {
     { immediate: !!id },
   );
 
+  const { data: followStatus } = useAsync(
+    async () => requestServer<VolunteerOrganizationFollowResponse>(`/volunteer/organization/${id}/follow`, {
+      includeJwt: true,
+    }),
+    { immediate: isVolunteer && !!id, notifyOnError: false },
+  );
+  const isFollowing = updatedIsFollowing ?? followStatus?.is_following ?? false;
+
+  const { loading: togglingFollow, trigger: updateFollow } = useAsync(
+    async (follow: boolean) => requestServer<VolunteerOrganizationFollowResponse>(`/volunteer/organization/${id}/follow`, {
+      method: follow ? 'POST' : 'DELETE',
+      includeJwt: true,
+    }),
+    { notifyOnError: true },
+  );
+
+  const toggleFollow = async () => {
+    let response: VolunteerOrganizationFollowResponse;
+    try {
+      response = await updateFollow(!isFollowing);
+    } catch {
+      return;
+    }
+
+    setUpdatedIsFollowing(response.is_following);
+    notifications.push({
+      type: 'success',
+      message: response.is_following
+        ? 'You will be notified when this organization publishes new postings.'
+        : 'You unfollowed this organization.',
+    });
+  };
+
   const closeReportModal = () => {
     setReportModalOpen(false);
   };
@@ -148,16 +188,31 @@ function OrganizationProfile() {
         defaultBackTo="/"
         actions={
           !isOrganization && (
-            <Button
-              color="error"
-              style="outline"
-              type="button"
-              Icon={Flag}
-              onClick={openReportModal}
-              size="sm"
-            >
-              Report organization
-            </Button>
+            <span className="flex gap-2 flex-wrap justify-end">
+              {isVolunteer && (
+                <Button
+                  color="primary"
+                  style={isFollowing ? undefined : 'outline'}
+                  type="button"
+                  Icon={isFollowing ? UserCheck : UserPlus}
+                  onClick={() => { void toggleFollow(); }}
+                  loading={togglingFollow}
+                  size="sm"
+                >
+                  {isFollowing ? 'Following' : 'Follow'}
+                </Button>
+              )}
+              <Button
+                color="error"
+                style="outline"
+                type="button"
+                Icon={Flag}
+                onClick={openReportModal}
+                size="sm"
+              >
+                Report organization
+              </Button>
+            </span>
           )
         }
       />
@@ -196,6 +251,9 @@ function OrganizationProfile() {
                   <h2 className="text-2xl font-bold mt-4">
                     {data.organization.name}
                   </h2>
+                  <div className="mt-2">
+                    <RatingSummary rating={data.rating} />
+                  </div>
                 </div>
                 <div className="divider my-4" />
 
@@ -2,24 +2,34 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import {
   Check,
   AlertTriangle,
+  Bookmark,
+  BookmarkCheck,
   Calendar,
+  CalendarPlus,
   CalendarX2,
   Cake,
   CheckCircle2,
   ClipboardList,
   Clock3,
+  Download,
   Edit3,
+  Hourglass,
   House,
   ListChecks,
   Lock,
   LockOpen,
   MapPin,
+  Megaphone,
   RefreshCcw,
+  Repeat,
   Save,
   Send,
   ShieldCheck,
   Tag,
   Trash2,
+  User,
+  UserCheck,
+  UserCog,
   Users,
   SquareArrowRight,
   X,
@@ -41,10 +51,39 @@ import PageHeader from '../components/layout/PageHeader.tsx';
 import LinkButton from '../components/LinkButton.tsx';
 import Loading from '../components/Loading.tsx';
 import LocationPicker from '../components/LocationPicker.tsx';
+import BroadcastMessageModal from '../components/messaging/BroadcastMessageModal.tsx';
+import StartConversationButton from '../components/messaging/StartConversationButton.tsx';
 import OrganizationProfilePicture from '../components/OrganizationProfilePicture.tsx';
 import PostingDateTime from '../components/PostingDateTime.tsx';
+import ApplicationQuestionsInputs from '../components/postings/ApplicationQuestionsInputs.tsx';
+import CheckInCodesCard from '../components/postings/CheckInCodesCard.tsx';
 import CrisisCard from '../components/postings/CrisisCard.tsx';
-import { hasPostingEnded as hasPostingEndedByTime } from '../components/postings/postingUtils.ts';
+import GuardianConsentStatus from '../components/postings/GuardianConsentStatus.tsx';
+import GuardianEmailInput from '../components/postings/GuardianEmailInput.tsx';
+import PostingQuestionsFields from '../components/postings/PostingQuestionsFields.tsx';
+import PostingReviewCard from '../components/postings/PostingReviewCard.tsx';
+import PostingRolesFields from '../components/postings/PostingRolesFields.tsx';
+import PostingRolesList from '../components/postings/PostingRolesList.tsx';
+import PostingScheduleFields from '../components/postings/PostingScheduleFields.tsx';
+import {
+  EMPTY_POSTING_SCHEDULE,
+  formatRecurrenceSummary,
+  getUnansweredRequiredQuestion,
+  hasPostingEnded as hasPostingEndedByTime,
+  toApplicationAnswersPayload,
+  toPostingQuestionDrafts,
+  toPostingQuestionsPayload,
+  toPostingRoleDrafts,
+  toPostingRolesPayload,
+  toPostingSchedulePayload,
+  toPostingScheduleValue,
+  type ApplicationAnswerDrafts,
+  type ApplicationAnswerPayload,
+  type PostingQuestionDraft,
+  type PostingRoleDraft,
+  type PostingScheduleValue,
+} from '../components/postings/postingUtils.ts';
+import ScheduleConflictWarning from '../components/postings/ScheduleConflictWarning.tsx';
 import useNow from '../components/postings/useNow.ts';
 import SkillsInput from '../components/skills/SkillsInput.tsx';
 import SkillsList from '../components/skills/SkillsList.tsx';
@@ -54,8 +93,9 @@ import { DOMAIN_COLORS } from '../constants';
 import { useModal } from '../contexts/useModal.ts';
 import useNotifications from '../notifications/useNotifications';
 import { postingEditFormSchema, type PostingEditFormData } from '../schemas/posting';
+import { downloadPostingCalendar } from '../utils/calendarFile.ts';
 import { executeAndShowError, FormField } from '../utils/formUtils.tsx';
-import requestServer from '../utils/requestServer.ts';
+import requestServer, { SERVER_BASE_URL } from '../utils/requestServer.ts';
 import { toLocalTime, toUtcTime } from '../utils/timeUtils.ts';
 import useAsync from '../utils/useAsync';
 import { useOrganization } from '../utils/useUsers.ts';
@@ -68,10 +108,22 @@ import type {
   PostingResponse,
   OrganizationProfileResponse,
   VolunteerCrisisResponse,
+  VolunteerGuardianConsentResendResponse,
+  VolunteerPostingBookmarkResponse,
+  VolunteerPostingEnrollResponse,
   VolunteerPostingResponse,
+  VolunteerPostingWaitlistResponse,
 } from '../../../server/src/api/types.ts';
-import type { Crisis } from '../../../server/src/db/tables/index.ts';
-import type { PostingApplication, PostingEnrollment, PostingWithContext, PostingWithSkills } from '../../../server/src/types.ts';
+import type { Crisis, GuardianConsentSummary, PostingQuestion } from '../../../server/src/db/tables/index.ts';
+import type {
+  PostingApplication,
+  PostingEnrollment,
+  PostingRoleWithContext,
+  PostingWaitlistStatus,
+  PostingWithContext,
+  PostingWithSkills,
+  ScheduleConflict,
+} from '../../../server/src/types.ts';
 
 const parseLocalDateParts = (value: string | Date) => {
   if (typeof value === 'string') {
@@ -191,6 +243,7 @@ function PostingPage() {
   const [applications, setApplications] = useState<PostingApplication[]>([]);
   const [hasPendingApplication, setHasPendingApplication] = useState(false);
   const [isEnrolled, setIsEnrolled] = useState(false);
+  const [broadcastOpen, setBroadcastOpen] = useState(false);
   const [skills, setSkills] = useState<string[]>([]);
   const [selectedCrisisId, setSelectedCrisisId] = useState<number | undefined>(undefined);
   const [availableCrises, setAvailableCrises] = useState<OrganizationCrisesResponse['crises']>([]);
@@ -203,10 +256,31 @@ function PostingPage() {
   const [applying, setApplying] = useState(false);
   const [withdrawing, setWithdrawing] = useState(false);
   const [processingApplicationId, setProcessingApplicationId] = useState<number | null>(null);
+  const [exportingApplications, setExportingApplications] = useState(false);
   const [isApplyModalOpen, setIsApplyModalOpen] = useState(false);
   const [selectedApplicationDates, setSelectedApplicationDates] = useState<string[]>([]);
   const [selectedVolunteerDates, setSelectedVolunteerDates] = useState<string[]>([]);
+  const [waitlist, setWaitlist] = useState<PostingWaitlistStatus | null>(null);
+  const [isWaitlistModalOpen, setIsWaitlistModalOpen] = useState(false);
+  const [selectedWaitlistDates, setSelectedWaitlistDates] = useState<string[]>([]);
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const [leavingWaitlist, setLeavingWaitlist] = useState(false);
+  const [isBookmarked, setIsBookmarked] = useState(false);
   const [postingDates, setPostingDates] = useState<string[]>([]);
+  const [schedule, setSchedule] = useState<PostingScheduleValue>(EMPTY_POSTING_SCHEDULE);
+  const [savedSchedule, setSavedSchedule] = useState<PostingScheduleValue>(EMPTY_POSTING_SCHEDULE);
+  const [roles, setRoles] = useState<PostingRoleWithContext[]>([]);
+  const [roleDrafts, setRoleDrafts] = useState<PostingRoleDraft[]>([]);
+  const [questions, setQuestions] = useState<PostingQuestion[]>([]);
+  const [questionDrafts, setQuestionDrafts] = useState<PostingQuestionDraft[]>([]);
+  const [applicationAnswers, setApplicationAnswers] = useState<ApplicationAnswerDrafts>({});
+  const [guardianConsent, setGuardianConsent] = useState<GuardianConsentSummary | null>(null);
+  const [needsGuardianConsent, setNeedsGuardianConsent] = useState(false);
+  const [guardianEmail, setGuardianEmail] = useState('');
+  const [scheduleConflicts, setScheduleConflicts] = useState<ScheduleConflict[]>([]);
+  const [unavailableDates, setUnavailableDates] = useState<string[]>([]);
+  const [ignoreScheduleConflicts, setIgnoreScheduleConflicts] = useState(false);
+  const [selectedRoleId, setSelectedRoleId] = useState<number | null>(null);
   const [isEditMode, setIsEditMode] = useState(false);
   const [postingEnrollmentCount, setPostingEnrollmentCount] = useState(0);
   const [postingOrganization, setPostingOrganization] = useState<{ id: number; name: string; logoPath?: string | null } | null>(null);
@@ -221,6 +295,7 @@ function PostingPage() {
       automatic_acceptance: true,
       is_closed: false,
       allows_partial_attendance: false,
+      requires_guardian_consent: false,
     },
   });
 
@@ -338,22 +413,22 @@ function PostingPage() {
       setIsEnrolled(postingResponse.posting.application_status === 'registered');
       setPostingEnrollmentCount(postingResponse.posting.enrollment_count);
       const normalizedPostingDates = normalizeDateOnlyList(postingResponse.posting_dates ?? []);
-      const computedPostingDates = buildDateRangeInclusive(
-        postingResponse.posting.start_date,
-        postingResponse.posting.end_date ?? postingResponse.posting.start_date,
-      );
-      const normalizedStartDate = normalizeDateOnlyValue(postingResponse.posting.start_date);
-      const normalizedEndDate = normalizeDateOnlyValue(
-        postingResponse.posting.end_date ?? postingResponse.posting.start_date,
-      );
-      const mergedPostingDates = Array.from(new Set([
-        ...normalizedPostingDates,
-        ...computedPostingDates,
-        normalizedStartDate,
-        normalizedEndDate,
-      ].filter(Boolean))).sort();
-      setPostingDates(mergedPostingDates);
+      setPostingDates(normalizedPostingDates.length > 0
+        ? normalizedPostingDates
+        : buildDateRangeInclusive(
+            postingResponse.posting.start_date,
+            postingResponse.posting.end_date ?? postingResponse.posting.start_date,
+          ));
       setSelectedVolunteerDates(normalizeDateOnlyList(postingResponse.selected_dates ?? []));
+      setWaitlist(postingResponse.waitlist ?? null);
+      setIsBookmarked(postingResponse.is_bookmarked ?? false);
+      setRoles(postingResponse.posting.roles ?? []);
+      setQuestions(postingResponse.questions ?? []);
+      setGuardianConsent(postingResponse.guardian_consent ?? null);
+      setNeedsGuardianConsent(postingResponse.needs_guardian_consent ?? false);
+      setScheduleConflicts(postingResponse.schedule_conflicts ?? []);
+      setUnavailableDates(postingResponse.unavailable_dates ?? []);
+      setSelectedRoleId(postingResponse.selected_role_id ?? null);
       setSkills(postingResponse.posting.skills.map(s => s.name));
       setSelectedCrisisId(postingResponse.posting.crisis_id ?? undefined);
       setPosition([
@@ -393,6 +468,7 @@ function PostingPage() {
         automatic_acceptance: postingResponse.posting.automatic_acceptance,
         is_closed: postingResponse.posting.is_closed,
         allows_partial_attendance: postingResponse.posting.allows_partial_attendance,
+        requires_guardian_consent: postingResponse.posting.requires_guardian_consent,
       });
 
       return;
@@ -413,7 +489,8 @@ function PostingPage() {
       setEnrollments(enrollmentsResponse.enrollments);
       setPostingEnrollmentCount(enrollmentsResponse.enrollments.length);
 
-      if (!postingResponse.posting.automatic_acceptance) {
+      // Open postings only hold applications for minors waiting on their guardian
+      if (!postingResponse.posting.automatic_acceptance || postingResponse.posting.requires_guardian_consent) {
         const applicationsResponse = await requestServer<PostingApplicationsReponse>(
           `/organization/posting/${id}/applications`,
           { includeJwt: true },
@@ -432,6 +509,16 @@ function PostingPage() {
     setIsEnrolled(false);
     setHasPendingApplication(false);
     setSelectedVolunteerDates([]);
+    setWaitlist(null);
+    setPostingDates(postingResponse.posting_dates);
+    const postingSchedule = toPostingScheduleValue(postingResponse.posting, postingResponse.occurrence_overrides);
+    setSchedule(postingSchedule);
+    setSavedSchedule(postingSchedule);
+    setRoles(postingResponse.roles);
+    setRoleDrafts(toPostingRoleDrafts(postingResponse.roles));
+    setQuestions(postingResponse.questions);
+    setQuestionDrafts(toPostingQuestionDrafts(postingResponse.questions));
+    setSelectedRoleId(null);
     setSkills(postingResponse.skills.map(s => s.name));
     setSelectedCrisisId(postingResponse.posting.crisis_id ?? undefined);
     setPosition([
@@ -471,6 +558,7 @@ function PostingPage() {
       automatic_acceptance: postingResponse.posting.automatic_acceptance,
       is_closed: postingResponse.posting.is_closed,
       allows_partial_attendance: postingResponse.posting.allows_partial_attendance,
+      requires_guardian_consent: postingResponse.posting.requires_guardian_consent,
     });
   }, [id, form, isVolunteerView, account]);
 
@@ -507,17 +595,63 @@ function PostingPage() {
   );
 
   const { trigger: applyToPosting } = useAsync(
-    async (postingId: string, message?: string, dates?: string[]) => requestServer(`/volunteer/posting/${postingId}/enroll`, {
+    async (postingId: string, message?: string, dates?: string[], roleId?: number, answers?: ApplicationAnswerPayload[], guardianEmailValue?: string, ignoreConflicts?: boolean) => requestServer<VolunteerPostingEnrollResponse>(`/volunteer/posting/${postingId}/enroll`, {
       method: 'POST',
       body: {
         message,
         dates,
+        role_id: roleId,
+        answers,
+        guardian_email: guardianEmailValue,
+        ignore_schedule_conflicts: ignoreConflicts,
       },
       includeJwt: true,
     }),
     { notifyOnError: true },
   );
 
+  const { trigger: joinPostingWaitlist } = useAsync(
+    async (postingId: string, message?: string, dates?: string[], roleId?: number, answers?: ApplicationAnswerPayload[], guardianEmailValue?: string) => requestServer<VolunteerPostingWaitlistResponse>(
+      `/volunteer/posting/${postingId}/waitlist`,
+      {
+        method: 'POST',
+        body: {
+          message,
+          dates,
+          role_id: roleId,
+          answers,
+          guardian_email: guardianEmailValue,
+        },
+        includeJwt: true,
+      },
+    ),
+    { notifyOnError: true },
+  );
+
+  const { loading: resendingGuardianConsent, trigger: requestGuardianConsentResend } = useAsync(
+    async (postingId: string) => requestServer<VolunteerGuardianConsentResendResponse>(
+      `/volunteer/posting/${postingId}/guardian-consent/resend`,
+      { method: 'POST', includeJwt: true },
+    ),
+    { notifyOnError: true },
+  );
+
+  const { trigger: leavePostingWaitlist } = useAsync(
+    async (postingId: string) => requestServer(`/volunteer/posting/${postingId}/waitlist`, {
+      method: 'DELETE',
+      includeJwt: true,
+    }),
+    { notifyOnError: true },
+  );
+
+  const { loading: togglingBookmark, trigger: updateBookmark } = useAsync(
+    async (postingId: string, bookmarked: boolean) => requestServer<VolunteerPostingBookmarkResponse>(`/volunteer/posting/${postingId}/bookmark`, {
+      method: bookmarked ? 'POST' : 'DELETE',
+      includeJwt: true,
+    }),
+    { notifyOnError: true },
+  );
+
   const { trigger: withdrawFromPosting } = useAsync(
     async (postingId: string) => requestServer(`/volunteer/posting/${postingId}/enroll`, {
       method: 'DELETE',
@@ -526,6 +660,8 @@ function PostingPage() {
     { notifyOnError: true },
   );
 
+  const { loading: downloadingCalendar, trigger: downloadCalendar } = useAsync(downloadPostingCalendar, { notifyOnError: true });
+
   const { trigger: acceptPostingApplication } = useAsync(
     async (postingId: string, applicationId: number) => requestServer(
       `/organization/posting/${postingId}/applications/${applicationId}/accept`,
@@ -550,6 +686,60 @@ function PostingPage() {
     { notifyOnError: true },
   );
 
+  const { trigger: requestApplicationsCsv } = useAsync(
+    async (postingId: string) => {
+      const token = localStorage.getItem('jwt');
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${SERVER_BASE_URL}/organization/posting/${postingId}/applications/export`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        let messageText = `Failed to export CSV (status ${response.status})`;
+        try {
+          const errorBody = await response.json();
+          messageText = errorBody.message ?? messageText;
+        } catch {
+          // Ignore non-JSON response body
+        }
+        throw new Error(messageText);
+      }
+
+      const blob = await response.blob();
+      const contentDisposition = response.headers.get('Content-Disposition');
+      const filenameFromHeader = contentDisposition?.match(/filename="([^"]+)"/)?.[1];
+
+      return {
+        blob,
+        filename: filenameFromHeader ?? `posting-${postingId}-applications.csv`,
+      };
+    },
+    { notifyOnError: true },
+  );
+
+  const exportApplicationsCsv = useCallback(async () => {
+    if (!id || exportingApplications) return;
+
+    try {
+      setExportingApplications(true);
+      const { blob, filename } = await requestApplicationsCsv(id);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(link.href);
+    } finally {
+      setExportingApplications(false);
+    }
+  }, [exportingApplications, id, requestApplicationsCsv]);
+
   const onSave = form.handleSubmit(async (data) => {
     if (!isEditMode || !posting || !id || !account?.id) return;
 
@@ -567,6 +757,7 @@ function PostingPage() {
           minimum_age: data.minimum_age === '' ? null : data.minimum_age ? Number(data.minimum_age) : undefined,
           automatic_acceptance: data.automatic_acceptance,
           allows_partial_attendance: data.allows_partial_attendance,
+          requires_guardian_consent: data.requires_guardian_consent,
           is_closed: data.is_closed,
           skills: skills.length > 0 ? skills : undefined,
           crisis_id: selectedCrisisId ?? null,
@@ -574,6 +765,9 @@ function PostingPage() {
           start_time: data.start_time ? toUtcTime(data.start_time) : data.start_time,
           end_date: data.end_date,
           end_time: data.end_time ? toUtcTime(data.end_time) : data.end_time,
+          ...toPostingSchedulePayload(schedule),
+          roles: toPostingRolesPayload(roleDrafts),
+          questions: toPostingQuestionsPayload(questionDrafts),
         };
 
         const response = await updatePosting(id, payload);
@@ -585,6 +779,15 @@ function PostingPage() {
 
         setPosting(updatedPosting);
         setCurrentPostingCrisis(response.crisis);
+        setPostingDates(response.posting_dates);
+        const updatedSchedule = toPostingScheduleValue(response.posting, response.occurrence_overrides);
+        setSchedule(updatedSchedule);
+        setSavedSchedule(updatedSchedule);
+        setRoles(response.roles);
+        setRoleDrafts(toPostingRoleDrafts(response.roles));
+        setQuestions(response.questions);
+        setQuestionDrafts(toPostingQuestionDrafts(response.questions));
+        form.setValue('max_volunteers', response.posting.max_volunteers?.toString() ?? '');
         setSkills(response.skills.map(s => s.name));
         setSelectedCrisisId(response.posting.crisis_id ?? undefined);
         notifications.push({
@@ -613,15 +816,19 @@ function PostingPage() {
       automatic_acceptance: posting.automatic_acceptance,
       is_closed: posting.is_closed,
       allows_partial_attendance: posting.allows_partial_attendance,
+      requires_guardian_consent: posting.requires_guardian_consent,
     });
     setSkills(posting.skills.map((s: { name: string }) => s.name));
+    setSchedule(savedSchedule);
+    setRoleDrafts(toPostingRoleDrafts(roles));
+    setQuestionDrafts(toPostingQuestionDrafts(questions));
     setSelectedCrisisId(posting.crisis_id ?? undefined);
     setPosition([
       posting.latitude ?? 33.90192863620578,
       posting.longitude ?? 35.477959277880416,
     ]);
     setIsEditMode(false);
-  }, [form, posting]);
+  }, [form, posting, questions, roles, savedSchedule]);
 
   const onDelete = useCallback(async () => {
     if (!id) return;
@@ -668,16 +875,31 @@ function PostingPage() {
     }
   };
 
+  // Partial attendance only clashes on the days the volunteer picks
+  const picksApplicationDates = Boolean(posting?.allows_partial_attendance) && postingDates.length > 1;
+
+  const applicationScheduleConflicts = useMemo(() => (picksApplicationDates
+    ? scheduleConflicts.filter(conflict => selectedApplicationDates.includes(conflict.date))
+    : scheduleConflicts), [picksApplicationDates, scheduleConflicts, selectedApplicationDates]);
+
+  const applicationUnavailableDates = useMemo(() => (picksApplicationDates
+    ? unavailableDates.filter(date => selectedApplicationDates.includes(date))
+    : unavailableDates), [picksApplicationDates, unavailableDates, selectedApplicationDates]);
+
   const closeApplyModal = useCallback(() => {
     setIsApplyModalOpen(false);
     setSelectedApplicationDates([]);
+    setApplicationAnswers({});
   }, []);
 
   const openApplyModal = useCallback(() => {
     if (!id || hasPendingApplication || isEnrolled || hasEnded) return;
     setSelectedApplicationDates([]);
+    setApplicationAnswers({});
+    setIgnoreScheduleConflicts(false);
+    setGuardianEmail(guardianConsent?.guardian_email ?? '');
     setIsApplyModalOpen(true);
-  }, [id, hasPendingApplication, isEnrolled, hasEnded]);
+  }, [id, hasPendingApplication, isEnrolled, hasEnded, guardianConsent]);
 
   const submitApplication = useCallback(async (message?: string) => {
     if (!id || hasPendingApplication || isEnrolled || hasEnded || !posting) return;
@@ -689,23 +911,49 @@ function PostingPage() {
       }
     }
 
+    const unansweredQuestion = getUnansweredRequiredQuestion(questions, applicationAnswers);
+    if (unansweredQuestion) {
+      notifications.push({ type: 'error', message: `Please answer "${unansweredQuestion.prompt}".` });
+      return;
+    }
+
+    if (needsGuardianConsent && !guardianEmail.trim()) {
+      notifications.push({ type: 'error', message: 'Please enter the email address of your parent or guardian.' });
+      return;
+    }
+
+    if (applicationScheduleConflicts.length > 0 && !ignoreScheduleConflicts) {
+      notifications.push({ type: 'error', message: 'This posting overlaps with one you are already enrolled in. Confirm to apply anyway.' });
+      return;
+    }
+
     try {
       setApplying(true);
 
-      await applyToPosting(id, message, posting.allows_partial_attendance ? selectedApplicationDates : undefined);
+      const response = await applyToPosting(
+        id,
+        message,
+        posting.allows_partial_attendance ? selectedApplicationDates : undefined,
+        selectedRoleId ?? undefined,
+        toApplicationAnswersPayload(questions, applicationAnswers),
+        needsGuardianConsent ? guardianEmail.trim() : undefined,
+        ignoreScheduleConflicts,
+      );
 
       setHasPendingApplication(true);
       setIsApplyModalOpen(false);
       notifications.push({
         type: 'success',
-        message: 'Application submitted successfully.',
+        message: response.guardian_consent
+          ? `Application submitted. We emailed ${response.guardian_consent.guardian_email} to ask for their consent.`
+          : 'Application submitted successfully.',
       });
 
       await loadPosting();
     } finally {
       setApplying(false);
     }
-  }, [applyToPosting, id, hasPendingApplication, isEnrolled, hasEnded, notifications, loadPosting, posting, postingDates, selectedApplicationDates]);
+  }, [applyToPosting, id, hasPendingApplication, isEnrolled, hasEnded, notifications, loadPosting, posting, postingDates, questions, applicationAnswers, selectedApplicationDates, selectedRoleId, needsGuardianConsent, guardianEmail, applicationScheduleConflicts, ignoreScheduleConflicts]);
 
   const canWithdrawFromPosting = useMemo(() => {
     if (!posting) return false;
@@ -753,6 +1001,118 @@ function PostingPage() {
     }
   }, [canWithdrawFromPosting, hasPendingApplication, id, isEnrolled, loadPosting, modal, notifications, withdrawFromPosting]);
 
+  const closeWaitlistModal = useCallback(() => {
+    setIsWaitlistModalOpen(false);
+    setSelectedWaitlistDates([]);
+    setApplicationAnswers({});
+  }, []);
+
+  const openWaitlistModal = useCallback(() => {
+    if (!id || waitlist || hasEnded) return;
+    setSelectedWaitlistDates([]);
+    setApplicationAnswers({});
+    setGuardianEmail(guardianConsent?.guardian_email ?? '');
+    setIsWaitlistModalOpen(true);
+  }, [id, waitlist, hasEnded, guardianConsent]);
+
+  const submitWaitlist = useCallback(async (message?: string) => {
+    if (!id || waitlist || hasEnded || !posting) return;
+
+    if (posting.allows_partial_attendance && selectedWaitlistDates.length === 0) {
+      notifications.push({ type: 'error', message: 'Please select at least one full date to join its waitlist.' });
+      return;
+    }
+
+    const unansweredQuestion = getUnansweredRequiredQuestion(questions, applicationAnswers);
+    if (unansweredQuestion) {
+      notifications.push({ type: 'error', message: `Please answer "${unansweredQuestion.prompt}".` });
+      return;
+    }
+
+    if (needsGuardianConsent && !guardianEmail.trim()) {
+      notifications.push({ type: 'error', message: 'Please enter the email address of your parent or guardian.' });
+      return;
+    }
+
+    try {
+      setJoiningWaitlist(true);
+
+      const response = await joinPostingWaitlist(
+        id,
+        message,
+        posting.allows_partial_attendance ? selectedWaitlistDates : undefined,
+        selectedRoleId ?? undefined,
+        toApplicationAnswersPayload(questions, applicationAnswers),
+        needsGuardianConsent ? guardianEmail.trim() : undefined,
+      );
+
+      setWaitlist(response.waitlist);
+      if (response.guardian_consent) {
+        setGuardianConsent(response.guardian_consent);
+      }
+      setIsWaitlistModalOpen(false);
+      notifications.push({
+        type: 'success',
+        message: response.guardian_consent
+          ? `You joined the waitlist. We emailed ${response.guardian_consent.guardian_email} to ask for their consent.`
+          : 'You joined the waitlist. We will email you if a spot opens up.',
+      });
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  }, [applicationAnswers, guardianEmail, hasEnded, id, joinPostingWaitlist, needsGuardianConsent, notifications, posting, questions, selectedRoleId, selectedWaitlistDates, waitlist]);
+
+  const resendGuardianConsent = useCallback(async () => {
+    if (!id) return;
+
+    const response = await requestGuardianConsentResend(id);
+    setGuardianConsent(response.guardian_consent);
+    notifications.push({
+      type: 'success',
+      message: `We emailed ${response.guardian_consent.guardian_email} again.`,
+    });
+  }, [id, notifications, requestGuardianConsentResend]);
+
+  const leaveWaitlist = useCallback(async () => {
+    if (!id || !waitlist) return;
+
+    const choice = await modal.promptModal({
+      title: 'Leave Waitlist',
+      content: 'Are you sure you want to give up your place on the waitlist?',
+      actions: [
+        { value: 'cancel', label: 'Cancel', color: 'ghost' },
+        { value: 'confirm', label: 'Leave waitlist', color: 'error' },
+      ],
+      cancelable: true,
+    });
+
+    if (choice !== 'confirm') return;
+
+    try {
+      setLeavingWaitlist(true);
+      await leavePostingWaitlist(id);
+
+      setWaitlist(null);
+      notifications.push({
+        type: 'success',
+        message: 'You left the waitlist.',
+      });
+    } finally {
+      setLeavingWaitlist(false);
+    }
+  }, [id, leavePostingWaitlist, modal, notifications, waitlist]);
+
+  const toggleBookmark = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const response = await updateBookmark(id, !isBookmarked);
+      setIsBookmarked(response.is_bookmarked);
+    } catch {
+      return;
+    }
+  }, [id, isBookmarked, updateBookmark]);
+
   const acceptApplication = useCallback(async (applicationId: number) => {
     if (!id) return;
 
@@ -825,6 +1185,26 @@ function PostingPage() {
       };
     }
 
+    if (!hasPendingApplication && waitlist) {
+      return {
+        label: 'Waitlisted',
+        description: 'You are on the waitlist and will be enrolled automatically when a spot opens up.',
+        badgeClassName: `badge badge-${DOMAIN_COLORS.pending} inline-flex items-center gap-1`,
+        cardColor: 'warning' as const,
+        Icon: Hourglass,
+      };
+    }
+
+    if (guardianConsent?.status === 'pending' && (hasPendingApplication || waitlist)) {
+      return {
+        label: 'Awaiting Guardian Consent',
+        description: 'Your parent or guardian needs to approve before you can take part.',
+        badgeClassName: `badge badge-${DOMAIN_COLORS.pending} inline-flex items-center gap-1`,
+        cardColor: 'warning' as const,
+        Icon: UserCheck,
+      };
+    }
+
     if (hasPendingApplication) {
       return {
         label: 'Pending Review',
@@ -842,7 +1222,7 @@ function PostingPage() {
       cardColor: 'neutral' as const,
       Icon: ShieldCheck,
     };
-  }, [hasPendingApplication, isEnrolled]);
+  }, [guardianConsent, hasPendingApplication, isEnrolled, waitlist]);
 
   const formattedSelectedDates = useMemo(() => (
     (selectedVolunteerDates ?? []).map(date => formatDisplayDate(date))
@@ -865,22 +1245,44 @@ function PostingPage() {
 
   const isSingleDayPosting = startDate === endDate;
 
+  const selectedRole = useMemo(() => (
+    roles.find(role => role.id === selectedRoleId)
+  ), [roles, selectedRoleId]);
+  const isRoleSelectionMissing = roles.length > 0 && !selectedRole;
+  const canChangeSelectedRole = isVolunteerView && !isEnrolled && !hasPendingApplication && !waitlist;
+
   const fullPostingDates = useMemo(() => {
     if (!posting?.allows_partial_attendance) return [];
-    const maxVolunteers = posting.max_volunteers;
+    const maxVolunteers = selectedRole ? selectedRole.max_volunteers : posting.max_volunteers;
     if (maxVolunteers == null) return [];
 
-    const dateCapacity = 'date_capacity' in posting ? (posting.date_capacity ?? {}) : {};
+    const dateCapacity = selectedRole
+      ? selectedRole.date_capacity
+      : 'date_capacity' in posting ? (posting.date_capacity ?? {}) : {};
     return postingDates.filter(date => (dateCapacity[date] ?? 0) >= maxVolunteers);
-  }, [posting, postingDates]);
+  }, [posting, postingDates, selectedRole]);
+
+  const waitlistableDates = useMemo(() => (
+    fullPostingDates.filter(date => !selectedVolunteerDates.includes(date))
+  ), [fullPostingDates, selectedVolunteerDates]);
+
+  const waitlistLabel = useMemo(() => {
+    if (!waitlist) return null;
+    if (waitlist.position != null) return `#${waitlist.position} in line`;
+    return waitlist.dates
+      .map(({ date, position }) => `${formatDisplayDate(date)} (#${position})`)
+      .join(', ');
+  }, [waitlist]);
 
   const postingDateDetails = useMemo(() => {
     if (!posting || !postingDates.length) return {};
-    const maxVolunteers = posting.max_volunteers;
+    const maxVolunteers = selectedRole ? selectedRole.max_volunteers : posting.max_volunteers;
     if (maxVolunteers == null) return {};
 
-    const combinedCapacity = 'date_capacity' in posting ? (posting.date_capacity ?? {}) : {};
-    const confirmedCapacity = 'confirmed_date_capacity' in posting
+    const combinedCapacity = selectedRole
+      ? selectedRole.date_capacity
+      : 'date_capacity' in posting ? (posting.date_capacity ?? {}) : {};
+    const confirmedCapacity = !selectedRole && 'confirmed_date_capacity' in posting
       ? (posting.confirmed_date_capacity ?? {})
       : combinedCapacity;
 
@@ -892,7 +1294,7 @@ function PostingPage() {
         : `${confirmedEnrolled}/${maxVolunteers}`;
       return acc;
     }, {});
-  }, [posting, postingDates]);
+  }, [posting, postingDates, selectedRole]);
 
   const canOpenAttendancePage = useMemo(() => {
     if (isVolunteerView || !posting) return false;
@@ -925,6 +1327,13 @@ function PostingPage() {
     if (maxVolunteers == null) return undefined;
     return Math.max(0, maxVolunteers - currentEnrollmentCount);
   }, [currentEnrollmentCount, maxVolunteers]);
+
+  const isFullCommitmentPostingFull = Boolean(posting && !posting.allows_partial_attendance && (selectedRole
+    ? selectedRole.max_volunteers != null && selectedRole.enrollment_count >= selectedRole.max_volunteers
+    : remainingSpots === 0));
+  const canJoinPartialWaitlist = Boolean(
+    posting?.allows_partial_attendance && !waitlist && !hasEnded && !hasPendingApplication && waitlistableDates.length > 0,
+  );
   if (loading) {
     return (
       <div className="grow bg-base-200">
@@ -996,6 +1405,69 @@ function PostingPage() {
             <p className="text-xs text-muted mt-2">You must select at least one available day. Full days are unavailable.</p>
           </div>
         )}
+        {questions.length > 0 && (
+          <div className="mt-3">
+            <ApplicationQuestionsInputs
+              questions={questions}
+              value={applicationAnswers}
+              onChange={setApplicationAnswers}
+              disabled={applying}
+            />
+          </div>
+        )}
+        {needsGuardianConsent && (
+          <div className="mt-3">
+            <GuardianEmailInput value={guardianEmail} onChange={setGuardianEmail} disabled={applying} />
+          </div>
+        )}
+        <div className="mt-3">
+          <ScheduleConflictWarning
+            conflicts={applicationScheduleConflicts}
+            unavailableDates={applicationUnavailableDates}
+            ignoreConflicts={ignoreScheduleConflicts}
+            onIgnoreConflictsChange={setIgnoreScheduleConflicts}
+            disabled={applying}
+          />
+        </div>
+      </CustomMessageModal>
+
+      <CustomMessageModal
+        open={isWaitlistModalOpen}
+        submitting={joiningWaitlist}
+        onClose={closeWaitlistModal}
+        onSubmit={submitWaitlist}
+        title="Join the waitlist"
+        submitLabel="Join waitlist"
+        placeholder="You can add an optional message that will be sent with your application if a spot opens up"
+      >
+        {posting?.allows_partial_attendance && (
+          <div className="mt-3">
+            <p className="text-sm font-medium mb-2">Select the full days you would like to wait for</p>
+            <CalendarInfo
+              selectionMode="multiple"
+              selectedDates={selectedWaitlistDates}
+              onSelectedDatesChange={setSelectedWaitlistDates}
+              allowedDates={waitlistableDates}
+              dateDetails={postingDateDetails}
+            />
+            <p className="text-xs text-muted mt-2">Spots are handed out per day in the order volunteers joined the waitlist.</p>
+          </div>
+        )}
+        {questions.length > 0 && (
+          <div className="mt-3">
+            <ApplicationQuestionsInputs
+              questions={questions}
+              value={applicationAnswers}
+              onChange={setApplicationAnswers}
+              disabled={joiningWaitlist}
+            />
+          </div>
+        )}
+        {needsGuardianConsent && (
+          <div className="mt-3">
+            <GuardianEmailInput value={guardianEmail} onChange={setGuardianEmail} disabled={joiningWaitlist} />
+          </div>
+        )}
       </CustomMessageModal>
 
       <PageHeader
@@ -1008,61 +1480,83 @@ function PostingPage() {
         icon={ListChecks}
         showBack
         defaultBackTo={isVolunteerView ? '/volunteer' : '/organization'}
-        actions={canManagePosting && (isEditMode
+        actions={isVolunteerView
           ? (
-              <span className="flex gap-2 flex-wrap justify-end">
-                <Button style="outline" onClick={onCancelEdit} disabled={saving} Icon={X} size="sm">
-                  Cancel
-                </Button>
-                <Button color="primary" onClick={onSave} loading={saving} Icon={Save} size="sm">
-                  Save Changes
-                </Button>
-              </span>
-            )
-          : (
-              <span className="flex gap-2 flex-wrap justify-end">
-                <LinkButton
-                  to={`/organization/posting/${posting.id}/attendance`}
-                  color="info"
-                  style="outline"
-                  disabled={!canOpenAttendancePage}
-                  Icon={ListChecks}
-                  size="sm"
-                >
-                  Attendance
-                </LinkButton>
-                <Button
-                  color="primary"
-                  onClick={() => setIsEditMode(true)}
-                  style="outline"
-                  Icon={Edit3}
-                  size="sm"
-                  disabled={hasEnded}
-                >
-                  Edit
-                </Button>
-                <Button
-                  color={posting?.is_closed ? 'success' : 'warning'}
-                  onClick={onToggleClosed}
-                  disabled={!posting || hasEnded}
-                  loading={togglingClosed}
-                  Icon={posting?.is_closed ? LockOpen : Lock}
-                  size="sm"
-                >
-                  {posting?.is_closed ? 'Reopen' : 'Close'}
-                </Button>
-                <Button
-                  color="error"
-                  onClick={onDelete}
-                  loading={deleting}
-                  Icon={Trash2}
-                  size="sm"
-                >
-                  Delete
-                </Button>
-              </span>
+              <Button
+                style={isBookmarked ? undefined : 'outline'}
+                color="primary"
+                onClick={() => { void toggleBookmark(); }}
+                loading={togglingBookmark}
+                Icon={isBookmarked ? BookmarkCheck : Bookmark}
+                size="sm"
+              >
+                {isBookmarked ? 'Saved' : 'Save'}
+              </Button>
             )
-        )}
+          : canManagePosting && (isEditMode
+            ? (
+                <span className="flex gap-2 flex-wrap justify-end">
+                  <Button style="outline" onClick={onCancelEdit} disabled={saving} Icon={X} size="sm">
+                    Cancel
+                  </Button>
+                  <Button color="primary" onClick={onSave} loading={saving} Icon={Save} size="sm">
+                    Save Changes
+                  </Button>
+                </span>
+              )
+            : (
+                <span className="flex gap-2 flex-wrap justify-end">
+                  <LinkButton
+                    to={`/organization/posting/${posting.id}/attendance`}
+                    color="info"
+                    style="outline"
+                    disabled={!canOpenAttendancePage}
+                    Icon={ListChecks}
+                    size="sm"
+                  >
+                    Attendance
+                  </LinkButton>
+                  <Button
+                    style="outline"
+                    onClick={() => { void downloadCalendar('organization', posting.id).catch(() => {}); }}
+                    loading={downloadingCalendar}
+                    Icon={CalendarPlus}
+                    size="sm"
+                  >
+                    Calendar
+                  </Button>
+                  <Button
+                    color="primary"
+                    onClick={() => setIsEditMode(true)}
+                    style="outline"
+                    Icon={Edit3}
+                    size="sm"
+                    disabled={hasEnded}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    color={posting?.is_closed ? 'success' : 'warning'}
+                    onClick={onToggleClosed}
+                    disabled={!posting || hasEnded}
+                    loading={togglingClosed}
+                    Icon={posting?.is_closed ? LockOpen : Lock}
+                    size="sm"
+                  >
+                    {posting?.is_closed ? 'Reopen' : 'Close'}
+                  </Button>
+                  <Button
+                    color="error"
+                    onClick={onDelete}
+                    loading={deleting}
+                    Icon={Trash2}
+                    size="sm"
+                  >
+                    Delete
+                  </Button>
+                </span>
+              )
+          )}
       />
 
       <ColumnLayout
@@ -1133,7 +1627,8 @@ function PostingPage() {
                         label="Max Volunteers"
                         name="max_volunteers"
                         type="number"
-                        placeholder="Optional"
+                        placeholder={roleDrafts.length > 0 ? 'Set by roles' : 'Optional'}
+                        inputProps={{ disabled: roleDrafts.length > 0 }}
                         Icon={Users}
                       />
                       <FormField
@@ -1209,6 +1704,14 @@ function PostingPage() {
                           />
                         </fieldset>
                       </div>
+
+                      <PostingScheduleFields
+                        value={schedule}
+                        onChange={setSchedule}
+                        startDate={startDate}
+                        endDate={endDate}
+                        disabled={saving}
+                      />
                     </div>
                   )
                 : (
@@ -1228,6 +1731,12 @@ function PostingPage() {
                         startTime={formattedStartTime}
                         endTime={formValues.end_time ? formattedEndTime : undefined}
                       />
+                      {formatRecurrenceSummary(posting) && (
+                        <div className="flex items-center gap-2">
+                          <Repeat size={16} className="text-primary" />
+                          <span className="text-sm">{formatRecurrenceSummary(posting)}</span>
+                        </div>
+                      )}
                       <div className="space-y-2">
                         {formValues.minimum_age && (
                           <div className="flex items-center gap-2">
@@ -1377,14 +1886,50 @@ function PostingPage() {
                           },
                         ]}
                       />
-
+                      {!isOpen && (
+                        <div className="mt-4">
+                          <PostingQuestionsFields value={questionDrafts} onChange={setQuestionDrafts} disabled={saving} />
+                        </div>
+                      )}
+                      <div className="mt-4">
+                        <ToggleButton
+                          form={form}
+                          name="requires_guardian_consent"
+                          label="Guardian Consent"
+                          disabled={saving}
+                          options={[
+                            {
+                              value: true,
+                              label: 'Required for Minors',
+                              description: 'Volunteers under 18 need a parent or guardian to approve.',
+                              Icon: UserCheck,
+                              btnColor: 'btn-primary',
+                            },
+                            {
+                              value: false,
+                              label: 'Not Required',
+                              description: 'Volunteers of any allowed age apply on their own.',
+                              Icon: User,
+                              btnColor: 'btn-secondary',
+                            },
+                          ]}
+                        />
+                      </div>
                     </>
                   )
                 : (
-                    <span className={`badge gap-2 ${posting?.is_closed ? 'badge-error' : isOpen ? 'badge-primary' : 'badge-secondary'}`}>
-                      {posting?.is_closed ? <Lock size={12} /> : isOpen ? <LockOpen size={12} /> : <Lock size={12} />}
-                      {posting?.is_closed ? 'Closed' : isOpen ? 'Open' : 'Review Based'}
-                    </span>
+                    <div className="flex flex-wrap gap-2">
+                      <span className={`badge gap-2 ${posting?.is_closed ? 'badge-error' : isOpen ? 'badge-primary' : 'badge-secondary'}`}>
+                        {posting?.is_closed ? <Lock size={12} /> : isOpen ? <LockOpen size={12} /> : <Lock size={12} />}
+                        {posting?.is_closed ? 'Closed' : isOpen ? 'Open' : 'Review Based'}
+                      </span>
+                      {posting?.requires_guardian_consent && (
+                        <span className="badge badge-outline gap-2">
+                          <UserCheck size={12} />
+                          Guardian consent for minors
+                        </span>
+                      )}
+                    </div>
                   )}
               <p className="text-xs opacity-70 mt-2">
                 {hasEnded
@@ -1398,6 +1943,19 @@ function PostingPage() {
               {!isEditMode && canManagePosting && (
                 null
               )}
+              {!isEditMode && canManagePosting && !isOpen && questions.length > 0 && (
+                <div className="mt-3">
+                  <p className="text-xs font-semibold opacity-70 mb-1">Application Questions</p>
+                  <ol className="list-decimal list-inside text-sm space-y-1">
+                    {questions.map(question => (
+                      <li key={question.id}>
+                        {question.prompt}
+                        {question.is_required && <span className="text-xs opacity-60"> (required)</span>}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
             </Card>
 
             {canManagePosting && (
@@ -1440,6 +1998,13 @@ function PostingPage() {
               </span>
             )}
           >
+            {selectedRole && !canChangeSelectedRole && (
+              <div className="mt-3">
+                <p className="text-xs font-medium uppercase tracking-wide opacity-60">Role</p>
+                <p className="text-sm mt-1">{selectedRole.name}</p>
+              </div>
+            )}
+
             {applicationDaysLabel && (
               <div className="mt-3">
                 <p className="text-xs font-medium uppercase tracking-wide opacity-60">Applied Days</p>
@@ -1447,7 +2012,60 @@ function PostingPage() {
               </div>
             )}
 
-            <div className="mt-3 flex justify-end">
+            {waitlistLabel && (
+              <div className="mt-3 flex items-end justify-between gap-3">
+                <div>
+                  <p className="text-xs font-medium uppercase tracking-wide opacity-60">Waitlist</p>
+                  <p className="text-sm mt-1">{waitlistLabel}</p>
+                </div>
+                <Button
+                  color="error"
+                  style="outline"
+                  size="sm"
+                  onClick={leaveWaitlist}
+                  loading={leavingWaitlist}
+                  Icon={X}
+                >
+                  Leave Waitlist
+                </Button>
+              </div>
+            )}
+
+            {guardianConsent && (hasPendingApplication || waitlist) && (
+              <div className="mt-3">
+                <GuardianConsentStatus
+                  consent={guardianConsent}
+                  onResend={() => { void resendGuardianConsent().catch(() => {}); }}
+                  resending={resendingGuardianConsent}
+                />
+              </div>
+            )}
+
+            <div className="mt-3 flex justify-end gap-2">
+              {(isEnrolled || hasPendingApplication) && (
+                <StartConversationButton postingId={posting.id} label="Message Organization" />
+              )}
+              {canJoinPartialWaitlist && (
+                <Button
+                  style="outline"
+                  onClick={openWaitlistModal}
+                  loading={joiningWaitlist}
+                  disabled={isRoleSelectionMissing}
+                  Icon={Hourglass}
+                >
+                  Join Waitlist
+                </Button>
+              )}
+              {isEnrolled && id && (
+                <Button
+                  style="outline"
+                  onClick={() => { void downloadCalendar('volunteer', id).catch(() => {}); }}
+                  loading={downloadingCalendar}
+                  Icon={CalendarPlus}
+                >
+                  Add to Calendar
+                </Button>
+              )}
               {isEnrolled
                 ? (
                     <span
@@ -1490,20 +2108,41 @@ function PostingPage() {
                     ? (
                         <span className="text-sm text-error font-medium">This posting has ended</span>
                       )
-                    : (
-                        <Button
-                          color="primary"
-                          onClick={openApplyModal}
-                          loading={applying}
-                          Icon={Send}
-                        >
-                          Apply
-                        </Button>
-                      )}
+                    : isFullCommitmentPostingFull
+                      ? !waitlist && (
+                          <Button
+                            color="primary"
+                            onClick={openWaitlistModal}
+                            loading={joiningWaitlist}
+                            disabled={isRoleSelectionMissing}
+                            Icon={Hourglass}
+                          >
+                            Join Waitlist
+                          </Button>
+                        )
+                      : (
+                          <Button
+                            color="primary"
+                            onClick={openApplyModal}
+                            loading={applying}
+                            disabled={isRoleSelectionMissing}
+                            Icon={Send}
+                          >
+                            Apply
+                          </Button>
+                        )}
             </div>
           </Card>
         )}
 
+        {isVolunteerView && isEnrolled && !hasEnded && id && (
+          <CheckInCodesCard postingId={id} />
+        )}
+
+        {isVolunteerView && isEnrolled && id && (
+          <PostingReviewCard postingId={id} />
+        )}
+
         <Card
           title="Required Skills"
           description="Skills needed for this opportunity."
@@ -1518,6 +2157,30 @@ function PostingPage() {
               )}
         </Card>
 
+        {(isEditMode || roles.length > 0) && (
+          <Card
+            title="Roles"
+            description={canChangeSelectedRole
+              ? 'Pick the role you would like to apply for.'
+              : 'Each role has its own spots, skills and minimum age.'}
+            Icon={UserCog}
+          >
+            {isEditMode
+              ? (
+                  <PostingRolesFields value={roleDrafts} onChange={setRoleDrafts} disabled={saving} />
+                )
+              : (
+                  <PostingRolesList
+                    roles={roles}
+                    showEnrollmentCount={!posting.allows_partial_attendance}
+                    selectedRoleId={selectedRoleId}
+                    {...(canChangeSelectedRole ? { onSelect: setSelectedRoleId } : {})}
+                    disabled={hasEnded}
+                  />
+                )}
+          </Card>
+        )}
+
         {(isVolunteerView || !canManagePosting) && (
           <Card
             title="Location"
@@ -1538,9 +2201,21 @@ function PostingPage() {
             description="Pending volunteer applications that need organization review."
             color="warning"
             Icon={ClipboardList}
-            right={
-              <span className={`badge badge-${DOMAIN_COLORS.pending} inline-flex items-center gap-1`}>{applications.length}</span>
-            }
+            right={(
+              <span className="flex items-center gap-2">
+                <Button
+                  style="outline"
+                  size="sm"
+                  onClick={() => void exportApplicationsCsv()}
+                  disabled={applications.length === 0}
+                  loading={exportingApplications}
+                  Icon={Download}
+                >
+                  Export CSV
+                </Button>
+                <span className={`badge badge-${DOMAIN_COLORS.pending} inline-flex items-center gap-1`}>{applications.length}</span>
+              </span>
+            )}
           >
             {applications.length === 0
               ? (
@@ -1559,6 +2234,7 @@ function PostingPage() {
                         profileLink={`/organization/volunteer/${app.volunteer_id}`}
                         actions={(
                           <span className="flex gap-2">
+                            <StartConversationButton postingId={posting.id} volunteerId={app.volunteer_id} />
                             <Button
                               color="success"
                               style="soft"
@@ -1592,9 +2268,20 @@ function PostingPage() {
             description="Volunteers currently enrolled in this posting."
             color="success"
             Icon={CheckCircle2}
-            right={
-              <span className={`badge badge-${DOMAIN_COLORS.enrollment} inline-flex items-center gap-1`}>{enrollments.length}</span>
-            }
+            right={(
+              <span className="flex items-center gap-2">
+                <Button
+                  style="outline"
+                  size="sm"
+                  onClick={() => setBroadcastOpen(true)}
+                  disabled={enrollments.length === 0}
+                  Icon={Megaphone}
+                >
+                  Message All
+                </Button>
+                <span className={`badge badge-${DOMAIN_COLORS.enrollment} inline-flex items-center gap-1`}>{enrollments.length}</span>
+              </span>
+            )}
           >
 
             {enrollments.length === 0
@@ -1612,6 +2299,7 @@ function PostingPage() {
                         key={volunteer.enrollment_id}
                         volunteer={volunteer}
                         profileLink={`/organization/volunteer/${volunteer.volunteer_id}`}
+                        actions={<StartConversationButton postingId={posting.id} volunteerId={volunteer.volunteer_id} />}
                       />
                     ))}
                   </div>
@@ -1619,6 +2307,15 @@ function PostingPage() {
           </Card>
         )}
       </ColumnLayout>
+
+      {canManagePosting && (
+        <BroadcastMessageModal
+          open={broadcastOpen}
+          postingId={posting.id}
+          enrolledCount={enrollments.length}
+          onClose={() => setBroadcastOpen(false)}
+        />
+      )}
     </PageContainer>
   );
 }
@@ -0,0 +1,275 @@
+import { ChevronLeft, ChevronRight, History, RotateCcw, Search } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from 'react';
+
+import { auditActionSchema, auditEntityTypeSchema } from '../../../../server/src/db/tables';
+import Button from '../../components/Button';
+import Card from '../../components/Card';
+import EmptyState from '../../components/EmptyState';
+import PageContainer from '../../components/layout/PageContainer';
+import PageHeader from '../../components/layout/PageHeader';
+import Loading from '../../components/Loading';
+import requestServer from '../../utils/requestServer';
+import useAsync from '../../utils/useAsync';
+
+import type { AdminAuditLogResponse } from '../../../../server/src/api/types';
+import type { AuditAction, AuditEntityType, AuditLog } from '../../../../server/src/db/tables';
+
+const AUDIT_LOG_PAGE_SIZE = 25;
+
+type AuditLogFilters = {
+  action: AuditAction | '';
+  entityType: AuditEntityType | '';
+  entityId: string;
+  from: string;
+  to: string;
+};
+
+const defaultFilters: AuditLogFilters = {
+  action: '',
+  entityType: '',
+  entityId: '',
+  from: '',
+  to: '',
+};
+
+const formatLabel = (value: string) => value.replace(/[._]/g, ' ');
+
+const formatSnapshot = (snapshot: AuditLog['before']) => (snapshot ? JSON.stringify(snapshot, null, 2) : 'Nothing recorded');
+
+function AuditLogEntry({ entry }: { entry: AuditLog }) {
+  return (
+    <li className="rounded-box border border-base-300 p-3">
+      <details>
+        <summary className="flex cursor-pointer flex-wrap items-center justify-between gap-2">
+          <div className="min-w-0 text-sm">
+            <p className="font-semibold capitalize">{formatLabel(entry.action)}</p>
+            <p className="opacity-70">
+              {`${formatLabel(entry.entity_type)} #${entry.entity_id} · ${entry.actor_role} #${entry.actor_id}`}
+            </p>
+          </div>
+          <span className="text-sm opacity-70">{new Date(entry.created_at).toLocaleString()}</span>
+        </summary>
+        <div className="mt-3 grid grid-cols-1 gap-3 lg:grid-cols-2">
+          <div>
+            <p className="mb-1 text-xs font-semibold uppercase opacity-60">Before</p>
+            <pre className="overflow-x-auto rounded-box bg-base-200 p-3 text-xs">{formatSnapshot(entry.before)}</pre>
+          </div>
+          <div>
+            <p className="mb-1 text-xs font-semibold uppercase opacity-60">After</p>
+            <pre className="overflow-x-auto rounded-box bg-base-200 p-3 text-xs">{formatSnapshot(entry.after)}</pre>
+          </div>
+        </div>
+      </details>
+    </li>
+  );
+}
+
+function AdminAuditLog() {
+  const [filters, setFilters] = useState<AuditLogFilters>(defaultFilters);
+  const [activeFilters, setActiveFilters] = useState<AuditLogFilters>(defaultFilters);
+  const [page, setPage] = useState(1);
+
+  const getAuditLog = useCallback(async (nextFilters: AuditLogFilters, nextPage: number) => {
+    const query: Record<string, string> = {
+      page: String(nextPage),
+      limit: String(AUDIT_LOG_PAGE_SIZE),
+    };
+
+    if (nextFilters.action) query.action = nextFilters.action;
+    if (nextFilters.entityType) query.entity_type = nextFilters.entityType;
+    if (nextFilters.entityId.trim()) query.entity_id = nextFilters.entityId.trim();
+    if (nextFilters.from) query.from = new Date(nextFilters.from).toISOString();
+    if (nextFilters.to) query.to = new Date(nextFilters.to).toISOString();
+
+    return requestServer<AdminAuditLogResponse>('/admin/audit-log', {
+      includeJwt: true,
+      query,
+    });
+  }, []);
+
+  const { data: auditLog, loading, trigger: refreshAuditLog } = useAsync(getAuditLog, { notifyOnError: true });
+
+  useEffect(() => {
+    refreshAuditLog(activeFilters, page).catch(() => {});
+  }, [activeFilters, page, refreshAuditLog]);
+
+  const pageCount = auditLog ? Math.max(1, Math.ceil(auditLog.total / auditLog.limit)) : 1;
+
+  const hasPendingChanges = useMemo(() => JSON.stringify(filters) !== JSON.stringify(activeFilters), [filters, activeFilters]);
+
+  const applyFilters = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setActiveFilters(filters);
+    setPage(1);
+  };
+
+  const resetFilters = () => {
+    setFilters(defaultFilters);
+    setActiveFilters(defaultFilters);
+    setPage(1);
+  };
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Audit Log"
+        subtitle="Review moderation decisions and other changes made by admins."
+        icon={History}
+      />
+
+      <section className="flex flex-col gap-4">
+        <Card title="Filters">
+          <form className="space-y-4" onSubmit={applyFilters}>
+            <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+              <div>
+                <label className="label" htmlFor="admin-audit-log-action">
+                  <span className="label-text">Action</span>
+                </label>
+                <select
+                  id="admin-audit-log-action"
+                  className="select select-bordered w-full"
+                  value={filters.action}
+                  onChange={event => setFilters(prev => ({ ...prev, action: event.target.value as AuditLogFilters['action'] }))}
+                >
+                  <option value="">All actions</option>
+                  {auditActionSchema.options.map(action => (
+                    <option key={action} value={action}>{formatLabel(action)}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="label" htmlFor="admin-audit-log-entity-type">
+                  <span className="label-text">Target</span>
+                </label>
+                <select
+                  id="admin-audit-log-entity-type"
+                  className="select select-bordered w-full"
+                  value={filters.entityType}
+                  onChange={event => setFilters(prev => ({ ...prev, entityType: event.target.value as AuditLogFilters['entityType'] }))}
+                >
+                  <option value="">All targets</option>
+                  {auditEntityTypeSchema.options.map(entityType => (
+                    <option key={entityType} value={entityType}>{formatLabel(entityType)}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="label" htmlFor="admin-audit-log-entity-id">
+                  <span className="label-text">Target ID</span>
+                </label>
+                <input
+                  id="admin-audit-log-entity-id"
+                  type="number"
+                  min={1}
+                  className="input input-bordered w-full"
+                  placeholder="Any"
+                  value={filters.entityId}
+                  onChange={event => setFilters(prev => ({ ...prev, entityId: event.target.value }))}
+                />
+              </div>
+
+              <div>
+                <label className="label" htmlFor="admin-audit-log-from">
+                  <span className="label-text">From</span>
+                </label>
+                <input
+                  id="admin-audit-log-from"
+                  type="datetime-local"
+                  className="input input-bordered w-full"
+                  value={filters.from}
+                  onChange={event => setFilters(prev => ({ ...prev, from: event.target.value }))}
+                />
+              </div>
+
+              <div>
+                <label className="label" htmlFor="admin-audit-log-to">
+                  <span className="label-text">To</span>
+                </label>
+                <input
+                  id="admin-audit-log-to"
+                  type="datetime-local"
+                  className="input input-bordered w-full"
+                  value={filters.to}
+                  onChange={event => setFilters(prev => ({ ...prev, to: event.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              <div className="flex-1" />
+
+              <Button type="button" color="ghost" onClick={resetFilters} Icon={RotateCcw}>Reset</Button>
+
+              <Button
+                color="primary"
+                type="submit"
+                disabled={!hasPendingChanges}
+                layout="wide"
+                Icon={Search}
+              >
+                Search
+              </Button>
+            </div>
+          </form>
+        </Card>
+
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">Entries</h3>
+          {auditLog && (
+            <div className="badge badge-primary">
+              {auditLog.total}
+              {' '}
+              Total
+            </div>
+          )}
+        </div>
+
+        {loading && !auditLog
+          ? <Loading size="md" />
+          : !auditLog || auditLog.entries.length === 0
+              ? (
+                  <EmptyState
+                    title="No entries found"
+                    description="No admin actions match these filters."
+                    Icon={History}
+                  />
+                )
+              : (
+                  <ul className="space-y-2">
+                    {auditLog.entries.map(entry => (
+                      <AuditLogEntry key={entry.id} entry={entry} />
+                    ))}
+                  </ul>
+                )}
+
+        {auditLog && pageCount > 1 && (
+          <div className="flex items-center justify-center gap-3">
+            <Button
+              size="sm"
+              style="outline"
+              Icon={ChevronLeft}
+              disabled={page <= 1 || loading}
+              onClick={() => setPage(prev => prev - 1)}
+            >
+              Previous
+            </Button>
+            <span className="text-sm opacity-70">{`Page ${page} of ${pageCount}`}</span>
+            <Button
+              size="sm"
+              style="outline"
+              Icon={ChevronRight}
+              disabled={page >= pageCount || loading}
+              onClick={() => setPage(prev => prev + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </section>
+    </PageContainer>
+  );
+}
+
+export default AdminAuditLog;
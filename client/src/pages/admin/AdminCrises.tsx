@@ -11,6 +11,7 @@ import EmptyState from '../../components/EmptyState';
 import ColumnLayout from '../../components/layout/ColumnLayout';
 import PageContainer from '../../components/layout/PageContainer';
 import PageHeader from '../../components/layout/PageHeader';
+import LoadMoreButton from '../../components/LoadMoreButton';
 import CrisisCard from '../../components/postings/CrisisCard';
 import { DOMAIN_COLORS } from '../../constants';
 import { useModal } from '../../contexts/useModal.ts';
@@ -18,6 +19,7 @@ import useNotifications from '../../notifications/useNotifications';
 import { executeAndShowError, FormField, FormRootError } from '../../utils/formUtils';
 import requestServer from '../../utils/requestServer';
 import useAsync from '../../utils/useAsync';
+import useLoadMore from '../../utils/useLoadMore';
 
 import type {
   AdminCrisisCreateResponse,
@@ -98,7 +100,7 @@ function AdminCrises() {
     },
   });
 
-  const getCrises = useCallback(async (nextFilters: CrisisFilters) => {
+  const getCrises = useCallback(async (nextFilters: CrisisFilters, cursor?: string) => {
     const query: Record<string, string> = {
       sortBy: nextFilters.sortBy,
       sortDir: nextFilters.sortDir,
@@ -112,18 +114,38 @@ function AdminCrises() {
       query.pinned = nextFilters.pinned === 'pinned' ? 'true' : 'false';
     }
 
-    const res = await requestServer<AdminCrisesResponse>('/admin/crises', {
+    if (cursor) {
+      query.cursor = cursor;
+    }
+
+    return requestServer<AdminCrisesResponse>('/admin/crises', {
       includeJwt: true,
       query,
     });
-    return res.crises;
   }, []);
 
   const {
-    data: crises,
+    data: firstCrisesPage,
     trigger: refreshCrises,
   } = useAsync(getCrises, { immediate: false });
 
+  const loadCrisesPage = useCallback(
+    async (cursor: string) => getCrises(activeFilters, cursor),
+    [activeFilters, getCrises],
+  );
+
+  const {
+    pages: crisesPages,
+    hasMore: hasMoreCrises,
+    loadingMore: loadingMoreCrises,
+    loadMore: loadMoreCrises,
+  } = useLoadMore(firstCrisesPage, loadCrisesPage);
+
+  const crises = useMemo(
+    () => (firstCrisesPage ? crisesPages.flatMap(page => page.crises) : null),
+    [crisesPages, firstCrisesPage],
+  );
+
   useEffect(() => {
     void refreshCrises(activeFilters);
   }, [activeFilters, refreshCrises]);
@@ -291,12 +313,12 @@ function AdminCrises() {
 
     return (
       <div className="badge badge-primary">
-        {crises.length}
+        {`${crises.length}${hasMoreCrises ? '+' : ''}`}
         {' '}
         Total
       </div>
     );
-  }, [crises]);
+  }, [crises, hasMoreCrises]);
 
   const hasPendingChanges = useMemo(() => JSON.stringify(filters) !== JSON.stringify(activeFilters), [filters, activeFilters]);
   const hasAnyChangesFromDefault = useMemo(() => (
@@ -579,6 +601,12 @@ function AdminCrises() {
                     ))}
                   </div>
                 )}
+
+          <LoadMoreButton
+            hasMore={hasMoreCrises}
+            loading={loadingMoreCrises}
+            onLoadMore={() => { void loadMoreCrises(); }}
+          />
         </section>
       </ColumnLayout>
     </PageContainer>
@@ -15,19 +15,24 @@ import type {
   AdminReportsResponse,
 } from '../../../../server/src/api/types';
 
+// The dashboard only needs counts, so it reads one large page and shows "100+" past that
+const OVERVIEW_PAGE_QUERY = { limit: '100' };
+
+const formatOverviewCount = (count: number, nextCursor: string | null) => `${count}${nextCursor ? '+' : ''}`;
+
 function AdminHome() {
   const getOrganizationRequests = useCallback(async () => {
-    const res = await requestServer<AdminOrganizationRequestsResponse>('/admin/getOrganizationRequests', { includeJwt: true });
-    return res.organizationRequests;
+    const res = await requestServer<AdminOrganizationRequestsResponse>('/admin/getOrganizationRequests', { includeJwt: true, query: OVERVIEW_PAGE_QUERY });
+    return res;
   }, []);
 
   const getCrises = useCallback(async () => {
-    const res = await requestServer<AdminCrisesResponse>('/admin/crises', { includeJwt: true });
-    return res.crises;
+    const res = await requestServer<AdminCrisesResponse>('/admin/crises', { includeJwt: true, query: OVERVIEW_PAGE_QUERY });
+    return res;
   }, []);
 
   const getReports = useCallback(async () => {
-    const res = await requestServer<AdminReportsResponse>('/admin/reports', { includeJwt: true });
+    const res = await requestServer<AdminReportsResponse>('/admin/reports', { includeJwt: true, query: OVERVIEW_PAGE_QUERY });
     return res;
   }, []);
 
@@ -35,7 +40,7 @@ function AdminHome() {
   const { data: crises } = useAsync(getCrises, { immediate: true });
   const { data: reports } = useAsync(getReports, { immediate: true });
 
-  const pinnedCrises = crises?.filter(crisis => crisis.pinned) ?? [];
+  const pinnedCrises = crises?.crises.filter(crisis => crisis.pinned) ?? [];
   const totalReports = (reports?.organizationReports.length ?? 0) + (reports?.volunteerReports.length ?? 0);
 
   return (
@@ -57,7 +62,7 @@ function AdminHome() {
               ? <div className="skeleton w-16 h-6" />
               : (
                   <span className={`badge badge-${DOMAIN_COLORS.pending} badge-outline inline-flex items-center gap-1`}>
-                    {organizationRequests.length}
+                    {formatOverviewCount(organizationRequests.organizationRequests.length, organizationRequests.next_cursor)}
                     {' '}
                     Pending
                   </span>
@@ -92,7 +97,7 @@ function AdminHome() {
               ? <div className="skeleton w-16 h-6" />
               : (
                   <span className={`badge badge-${DOMAIN_COLORS.crisis} badge-outline inline-flex items-center gap-1`}>
-                    {crises.length}
+                    {formatOverviewCount(crises.crises.length, crises.next_cursor)}
                     {' '}
                     Total
                   </span>
@@ -120,7 +125,7 @@ function AdminHome() {
               ? <div className="skeleton w-16 h-6" />
               : (
                   <span className="badge badge-error badge-outline inline-flex items-center gap-1">
-                    {totalReports}
+                    {formatOverviewCount(totalReports, reports.next_cursor)}
                     {' '}
                     Total
                   </span>
@@ -1,10 +1,12 @@
-import { ArrowLeft, Flag, RotateCcw } from 'lucide-react';
+import { ArrowLeft, Flag, MessageSquareText, RotateCcw } from 'lucide-react';
 import { useCallback, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 
 import Alert from '../../components/Alert';
 import Button from '../../components/Button';
 import Card from '../../components/Card';
+import RatingSummary from '../../components/feedback/RatingSummary';
+import StarRating from '../../components/feedback/StarRating';
 import PageContainer from '../../components/layout/PageContainer';
 import PageHeader from '../../components/layout/PageHeader';
 import Loading from '../../components/Loading';
@@ -211,6 +213,12 @@ function AdminReportDetail() {
                     </label>
                     <p className="text-sm">{report.reported_organization.email}</p>
                   </div>
+                  <div>
+                    <label className="label">
+                      <span className="label-text font-semibold">Rating from Volunteers</span>
+                    </label>
+                    <RatingSummary rating={report.reported_organization.rating} />
+                  </div>
                 </>
               )}
 
@@ -236,6 +244,37 @@ function AdminReportDetail() {
               )}
             </div>
           </Card>
+
+          {isVolunteerReport && (
+            <Card
+              title="Organization Feedback"
+              description="Private feedback organizations left after this volunteer attended their postings."
+              Icon={MessageSquareText}
+            >
+              {report.reported_volunteer.feedback.length === 0
+                ? <p className="text-sm opacity-70">No organization has left feedback for this volunteer yet.</p>
+                : (
+                    <ul className="space-y-3">
+                      {report.reported_volunteer.feedback.map(feedback => (
+                        <li key={feedback.id} className="rounded-lg bg-base-100 border border-base-300 p-4 space-y-2">
+                          <div className="flex flex-wrap items-center justify-between gap-2">
+                            <div>
+                              <p className="font-semibold">{feedback.posting_title}</p>
+                              <p className="text-sm text-base-content/70">
+                                {feedback.organization_name}
+                                {feedback.author_name && ` · ${feedback.author_name}`}
+                              </p>
+                            </div>
+                            <StarRating value={feedback.rating} size="sm" />
+                          </div>
+                          {feedback.comment && <p className="text-sm whitespace-pre-wrap">{feedback.comment}</p>}
+                          <p className="text-xs opacity-60">{new Date(feedback.updated_at).toLocaleDateString()}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+            </Card>
+          )}
         </div>
 
         <div className="lg:col-span-1">
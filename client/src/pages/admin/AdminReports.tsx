@@ -8,11 +8,13 @@ import Card from '../../components/Card';
 import EmptyState from '../../components/EmptyState';
 import PageContainer from '../../components/layout/PageContainer';
 import PageHeader from '../../components/layout/PageHeader';
+import LoadMoreButton from '../../components/LoadMoreButton';
 import ReportHeader from '../../components/reporting/ReportHeader';
 import ReportMessage from '../../components/reporting/ReportMessage';
 import { REPORT_TYPE_OPTIONS } from '../../components/reporting/reportType.constants';
 import requestServer from '../../utils/requestServer';
 import useAsync from '../../utils/useAsync';
+import useLoadMore from '../../utils/useLoadMore';
 
 import type { AdminReportsResponse } from '../../../../server/src/api/types';
 
@@ -56,7 +58,7 @@ function AdminReports() {
   const [filters, setFilters] = useState<ReportsFilters>(initialFilters);
   const [activeFilters, setActiveFilters] = useState<ReportsFilters>(initialFilters);
 
-  const fetchReports = useCallback(async (nextFilters: ReportsFilters) => {
+  const fetchReports = useCallback(async (nextFilters: ReportsFilters, cursor?: string) => {
     const query: Record<string, string> = {
       scope: nextFilters.scope,
       sortBy: nextFilters.sortBy,
@@ -71,6 +73,10 @@ function AdminReports() {
       query.search = nextFilters.search.trim();
     }
 
+    if (cursor) {
+      query.cursor = cursor;
+    }
+
     return await requestServer<AdminReportsResponse>('/admin/reports', {
       includeJwt: true,
       query,
@@ -118,8 +124,20 @@ function AdminReports() {
     }
   }, [activeFilters, data, error, loading, trigger]);
 
-  const organizationReports = data?.organizationReports ?? [];
-  const volunteerReports = data?.volunteerReports ?? [];
+  const loadReportsPage = useCallback(
+    async (cursor: string) => fetchReports(activeFilters, cursor),
+    [activeFilters, fetchReports],
+  );
+
+  const {
+    pages: reportPages,
+    hasMore: hasMoreReports,
+    loadingMore: loadingMoreReports,
+    loadMore: loadMoreReports,
+  } = useLoadMore(data, loadReportsPage);
+
+  const organizationReports = useMemo(() => reportPages.flatMap(page => page.organizationReports), [reportPages]);
+  const volunteerReports = useMemo(() => reportPages.flatMap(page => page.volunteerReports), [reportPages]);
   const hasFetchedReports = data !== undefined || error !== undefined;
   const mergedReports = useMemo(() => {
     const rows = [
@@ -306,6 +324,12 @@ function AdminReports() {
                     </div>
                   );
                 })}
+
+                <LoadMoreButton
+                  hasMore={hasMoreReports}
+                  loading={loadingMoreReports}
+                  onLoadMore={() => { void loadMoreReports(); }}
+                />
               </div>
             )}
     </PageContainer>
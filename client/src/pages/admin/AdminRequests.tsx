@@ -6,9 +6,11 @@ import Card from '../../components/Card';
 import EmptyState from '../../components/EmptyState';
 import PageContainer from '../../components/layout/PageContainer';
 import PageHeader from '../../components/layout/PageHeader';
+import LoadMoreButton from '../../components/LoadMoreButton';
 import OrganizationRequestReviewCard from '../../components/OrganizationRequestReviewCard';
 import requestServer from '../../utils/requestServer';
 import useAsync from '../../utils/useAsync';
+import useLoadMore from '../../utils/useLoadMore';
 
 import type { AdminOrganizationRequestsResponse } from '../../../../server/src/api/types';
 
@@ -67,7 +69,7 @@ function AdminRequests() {
   const [filters, setFilters] = useState<OrganizationRequestFilters>(initialFilters);
   const [activeFilters, setActiveFilters] = useState<OrganizationRequestFilters>(initialFilters);
 
-  const getOrganizationRequests = useCallback(async (nextFilters: OrganizationRequestFilters) => {
+  const getOrganizationRequests = useCallback(async (nextFilters: OrganizationRequestFilters, cursor?: string) => {
     const query: Record<string, string> = {};
 
     if (nextFilters.search.trim()) {
@@ -76,12 +78,14 @@ function AdminRequests() {
     query.sortBy = nextFilters.sortBy;
     query.sortDir = nextFilters.sortDir;
 
-    const res = await requestServer<AdminOrganizationRequestsResponse>('/admin/getOrganizationRequests', {
+    if (cursor) {
+      query.cursor = cursor;
+    }
+
+    return requestServer<AdminOrganizationRequestsResponse>('/admin/getOrganizationRequests', {
       includeJwt: true,
       query,
     });
-
-    return res.organizationRequests;
   }, []);
 
   const {
@@ -103,7 +107,22 @@ function AdminRequests() {
     || JSON.stringify(activeFilters) !== JSON.stringify(defaultFilters)
   ), [filters, activeFilters]);
 
-  const organizationRequests = organizationRequestsData ?? null;
+  const loadOrganizationRequestsPage = useCallback(
+    async (cursor: string) => getOrganizationRequests(activeFilters, cursor),
+    [activeFilters, getOrganizationRequests],
+  );
+
+  const {
+    pages: organizationRequestPages,
+    hasMore: hasMoreOrganizationRequests,
+    loadingMore: loadingMoreOrganizationRequests,
+    loadMore: loadMoreOrganizationRequests,
+  } = useLoadMore(organizationRequestsData, loadOrganizationRequestsPage);
+
+  const organizationRequests = useMemo(
+    () => (organizationRequestsData ? organizationRequestPages.flatMap(page => page.organizationRequests) : null),
+    [organizationRequestPages, organizationRequestsData],
+  );
 
   const applyFilters = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -146,7 +165,7 @@ function AdminRequests() {
   const badgeContent: ReactNode = organizationRequests
     ? (
         <div className="badge badge-primary">
-          {organizationRequests.length}
+          {`${organizationRequests.length}${hasMoreOrganizationRequests ? '+' : ''}`}
           {' '}
           Pending
         </div>
@@ -249,6 +268,12 @@ function AdminRequests() {
                 description="No organization requests found at this time."
               />
             )}
+
+        <LoadMoreButton
+          hasMore={hasMoreOrganizationRequests}
+          loading={loadingMoreOrganizationRequests}
+          onLoadMore={() => { void loadMoreOrganizationRequests(); }}
+        />
       </>
     );
   }
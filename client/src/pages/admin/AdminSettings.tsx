@@ -6,9 +6,11 @@ import { useForm } from 'react-hook-form';
 import { newPlatformCertificateSettingsSchema } from '../../../../server/src/db/tables';
 import Alert from '../../components/Alert';
 import Card from '../../components/Card';
+import IssuedCertificatesCard from '../../components/certificates/IssuedCertificatesCard';
 import PageContainer from '../../components/layout/PageContainer';
 import PageHeader from '../../components/layout/PageHeader';
 import Loading from '../../components/Loading';
+import NotificationPreferencesCard from '../../components/NotificationPreferencesCard';
 import PasswordResetCard from '../../components/PasswordResetCard';
 import SignatureUploadField from '../../components/SignatureUploadField';
 import useNotifications from '../../notifications/useNotifications';
@@ -168,6 +170,7 @@ function AdminSettings() {
       {!loading && !error && (
         <>
           <PasswordResetCard />
+          <NotificationPreferencesCard />
 
           <Card
             title="Website Certificate Signatory"
@@ -209,6 +212,13 @@ function AdminSettings() {
               </div>
             </div>
           </Card>
+
+          <IssuedCertificatesCard
+            endpoint="/admin/issued-certificates"
+            description="All certificates issued on the platform. Revoked certificates fail public verification."
+            canRevoke
+            showVolunteer
+          />
         </>
       )}
     </PageContainer>
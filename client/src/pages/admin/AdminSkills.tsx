@@ -0,0 +1,645 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { GitMerge, Pencil, Plus, RotateCcw, Save, Search, Tags, Trash2, X } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from 'react';
+import { useForm } from 'react-hook-form';
+import zod from 'zod';
+
+import { newSkillSchema, skillCategorySchema, type SkillCategory } from '../../../../server/src/db/tables';
+import Button from '../../components/Button';
+import Card from '../../components/Card';
+import EmptyState from '../../components/EmptyState';
+import ColumnLayout from '../../components/layout/ColumnLayout';
+import PageContainer from '../../components/layout/PageContainer';
+import PageHeader from '../../components/layout/PageHeader';
+import LoadMoreButton from '../../components/LoadMoreButton';
+import SkillSuggestionsMenu from '../../components/skills/SkillSuggestionsMenu';
+import useSkillSuggestions from '../../components/skills/useSkillSuggestions';
+import { DOMAIN_COLORS } from '../../constants';
+import { useModal } from '../../contexts/useModal.ts';
+import useNotifications from '../../notifications/useNotifications';
+import { executeAndShowError, FormField, FormRootError } from '../../utils/formUtils';
+import requestServer from '../../utils/requestServer';
+import useAsync from '../../utils/useAsync';
+import useLoadMore from '../../utils/useLoadMore';
+
+import type {
+  AdminSkill,
+  AdminSkillCreateResponse,
+  AdminSkillDeleteResponse,
+  AdminSkillMergeResponse,
+  AdminSkillUpdateResponse,
+  AdminSkillsResponse,
+  SkillSuggestion,
+} from '../../../../server/src/api/types';
+
+const createSkillFormSchema = zod.object({
+  name: newSkillSchema.shape.name,
+  category: zod.string(),
+  synonyms: zod.string(),
+});
+
+type CreateSkillFormData = zod.infer<typeof createSkillFormSchema>;
+
+type SkillSortOptionValue = 'name_asc' | 'usage_count_desc' | 'created_at_desc';
+
+type SkillFilters = {
+  search: string;
+  category: 'all' | 'uncategorized' | SkillCategory;
+  sort: SkillSortOptionValue;
+};
+
+const skillSortOptions: Array<{ value: SkillSortOptionValue; label: string; sortBy: string; sortDir: 'asc' | 'desc' }> = [
+  { value: 'name_asc', label: 'Name: A to Z', sortBy: 'name', sortDir: 'asc' },
+  { value: 'usage_count_desc', label: 'Most used', sortBy: 'usage_count', sortDir: 'desc' },
+  { value: 'created_at_desc', label: 'Newest skills', sortBy: 'created_at', sortDir: 'desc' },
+];
+
+const skillCategoryOptions = skillCategorySchema.options.map(category => ({
+  value: category,
+  label: category.charAt(0).toUpperCase() + category.slice(1),
+}));
+
+const defaultFilters: SkillFilters = {
+  search: '',
+  category: 'all',
+  sort: 'name_asc',
+};
+
+const parseSynonyms = (value: string) => value.split(',').map(synonym => synonym.trim()).filter(Boolean);
+
+const toSkillBody = (data: CreateSkillFormData) => ({
+  name: data.name,
+  category: data.category ? data.category as SkillCategory : null,
+  synonyms: parseSynonyms(data.synonyms),
+});
+
+function SkillMergePicker({ skill, onPick, onCancel }: {
+  skill: AdminSkill;
+  onPick: (target: SkillSuggestion) => void;
+  onCancel: () => void;
+}) {
+  const [search, setSearch] = useState('');
+  const suggestions = useSkillSuggestions(search, [skill.name]);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm opacity-80">
+        {`Pick the skill "${skill.name}" should be merged into.`}
+      </p>
+      <div className="relative w-full">
+        <div className="join w-full">
+          <input
+            className="input input-bordered input-sm join-item grow"
+            placeholder="Search skills"
+            value={search}
+            onChange={event => setSearch(event.target.value)}
+            autoFocus
+          />
+          <Button type="button" color="ghost" size="sm" className="join-item" onClick={onCancel} Icon={X}>
+            Cancel
+          </Button>
+        </div>
+        <SkillSuggestionsMenu suggestions={suggestions} onSelect={onPick} />
+      </div>
+    </div>
+  );
+}
+
+function AdminSkills() {
+  const [filters, setFilters] = useState<SkillFilters>(defaultFilters);
+  const [activeFilters, setActiveFilters] = useState<SkillFilters>(defaultFilters);
+  const [isCreatingSkill, setIsCreatingSkill] = useState(false);
+  const [editingSkillId, setEditingSkillId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [editingCategory, setEditingCategory] = useState('');
+  const [editingSynonyms, setEditingSynonyms] = useState('');
+  const [mergingSkillId, setMergingSkillId] = useState<number | null>(null);
+  const [actionBusyId, setActionBusyId] = useState<number | null>(null);
+  const notifications = useNotifications();
+  const modal = useModal();
+
+  const skillForm = useForm<CreateSkillFormData>({
+    resolver: zodResolver(createSkillFormSchema),
+    mode: 'onTouched',
+    defaultValues: {
+      name: '',
+      category: '',
+      synonyms: '',
+    },
+  });
+
+  const getSkills = useCallback(async (nextFilters: SkillFilters, cursor?: string) => {
+    const sortOption = skillSortOptions.find(option => option.value === nextFilters.sort) ?? skillSortOptions[0];
+    const query: Record<string, string> = {
+      sortBy: sortOption.sortBy,
+      sortDir: sortOption.sortDir,
+    };
+
+    if (nextFilters.search.trim()) {
+      query.search = nextFilters.search.trim();
+    }
+
+    if (nextFilters.category === 'uncategorized') {
+      query.uncategorized = 'true';
+    } else if (nextFilters.category !== 'all') {
+      query.category = nextFilters.category;
+    }
+
+    if (cursor) {
+      query.cursor = cursor;
+    }
+
+    return requestServer<AdminSkillsResponse>('/admin/skills', {
+      includeJwt: true,
+      query,
+    });
+  }, []);
+
+  const {
+    data: firstSkillsPage,
+    trigger: refreshSkills,
+  } = useAsync(getSkills, { immediate: false });
+
+  const loadSkillsPage = useCallback(
+    async (cursor: string) => getSkills(activeFilters, cursor),
+    [activeFilters, getSkills],
+  );
+
+  const {
+    pages: skillsPages,
+    hasMore: hasMoreSkills,
+    loadingMore: loadingMoreSkills,
+    loadMore: loadMoreSkills,
+  } = useLoadMore(firstSkillsPage, loadSkillsPage);
+
+  const skills = useMemo(
+    () => (firstSkillsPage ? skillsPages.flatMap(page => page.skills) : null),
+    [skillsPages, firstSkillsPage],
+  );
+
+  useEffect(() => {
+    void refreshSkills(activeFilters);
+  }, [activeFilters, refreshSkills]);
+
+  const refreshCurrentSkills = useCallback(
+    async () => refreshSkills(activeFilters),
+    [activeFilters, refreshSkills],
+  );
+
+  const { trigger: updateSkill } = useAsync(
+    async (skillId: number, data: CreateSkillFormData) => requestServer<AdminSkillUpdateResponse>(`/admin/skills/${skillId}`, {
+      method: 'PUT',
+      includeJwt: true,
+      body: toSkillBody(data),
+    }),
+    { notifyOnError: true },
+  );
+
+  const { trigger: mergeSkill } = useAsync(
+    async (skillId: number, targetId: number) => requestServer<AdminSkillMergeResponse>(`/admin/skills/${skillId}/merge`, {
+      method: 'POST',
+      includeJwt: true,
+      body: { target_id: targetId },
+    }),
+    { notifyOnError: true },
+  );
+
+  const { trigger: deleteSkill } = useAsync(
+    async (skillId: number) => requestServer<AdminSkillDeleteResponse>(`/admin/skills/${skillId}`, {
+      method: 'DELETE',
+      includeJwt: true,
+    }),
+    { notifyOnError: true },
+  );
+
+  const onCreateSkill = skillForm.handleSubmit(async (data) => {
+    await executeAndShowError(skillForm, async () => {
+      setIsCreatingSkill(true);
+
+      await requestServer<AdminSkillCreateResponse>('/admin/skills', {
+        method: 'POST',
+        includeJwt: true,
+        body: toSkillBody(data),
+      });
+
+      skillForm.reset({
+        name: '',
+        category: '',
+        synonyms: '',
+      });
+      await refreshCurrentSkills();
+      notifications.push({
+        type: 'success',
+        message: 'Skill created successfully.',
+      });
+    });
+
+    setIsCreatingSkill(false);
+  });
+
+  const onStartEdit = (skill: AdminSkill) => {
+    setMergingSkillId(null);
+    setEditingSkillId(skill.id);
+    setEditingName(skill.name);
+    setEditingCategory(skill.category ?? '');
+    setEditingSynonyms(skill.synonyms.join(', '));
+  };
+
+  const onCancelEdit = () => {
+    setEditingSkillId(null);
+    setEditingName('');
+    setEditingCategory('');
+    setEditingSynonyms('');
+  };
+
+  const onSaveEdit = async (skillId: number) => {
+    const parsed = createSkillFormSchema.safeParse({
+      name: editingName,
+      category: editingCategory,
+      synonyms: editingSynonyms,
+    });
+
+    if (!parsed.success) {
+      notifications.push({
+        type: 'warning',
+        message: parsed.error.issues[0]?.message ?? 'Invalid skill details',
+      });
+      return;
+    }
+
+    setActionBusyId(skillId);
+
+    try {
+      await updateSkill(skillId, parsed.data);
+
+      await refreshCurrentSkills();
+      notifications.push({
+        type: 'success',
+        message: 'Skill updated successfully.',
+      });
+      onCancelEdit();
+    } finally {
+      setActionBusyId(null);
+    }
+  };
+
+  const onMerge = async (skill: AdminSkill, target: SkillSuggestion) => {
+    const choice = await modal.promptModal({
+      title: 'Merge Skill',
+      content: `Merge "${skill.name}" into "${target.name}"? Postings and volunteers using "${skill.name}" will list "${target.name}" instead, and "${skill.name}" becomes one of its synonyms.`,
+      actions: [
+        { value: 'cancel', label: 'Cancel', color: 'ghost' },
+        { value: 'merge', label: 'Merge skills', color: 'primary' },
+      ],
+      cancelable: true,
+    });
+
+    if (choice !== 'merge') return;
+
+    setActionBusyId(skill.id);
+
+    try {
+      await mergeSkill(skill.id, target.id);
+
+      setMergingSkillId(null);
+      await refreshCurrentSkills();
+      notifications.push({
+        type: 'success',
+        message: `Merged into ${target.name}.`,
+      });
+    } finally {
+      setActionBusyId(null);
+    }
+  };
+
+  const onDelete = async (skill: AdminSkill) => {
+    const choice = await modal.promptModal({
+      title: 'Delete Skill',
+      content: `Delete skill "${skill.name}"?`,
+      actions: [
+        { value: 'cancel', label: 'Cancel', color: 'ghost' },
+        { value: 'delete', label: 'Delete skill', color: 'error' },
+      ],
+      cancelable: true,
+    });
+
+    if (choice !== 'delete') return;
+
+    setActionBusyId(skill.id);
+
+    try {
+      await deleteSkill(skill.id);
+
+      await refreshCurrentSkills();
+      notifications.push({
+        type: 'success',
+        message: 'Skill deleted successfully.',
+      });
+    } finally {
+      setActionBusyId(null);
+    }
+  };
+
+  const hasPendingChanges = JSON.stringify(filters) !== JSON.stringify(activeFilters);
+  const hasAnyChangesFromDefault = (
+    JSON.stringify(filters) !== JSON.stringify(defaultFilters)
+    || JSON.stringify(activeFilters) !== JSON.stringify(defaultFilters)
+  );
+
+  const applyFilters = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setActiveFilters(filters);
+  };
+
+  const resetFilters = () => {
+    setFilters(defaultFilters);
+    setActiveFilters(defaultFilters);
+  };
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Skill Catalog"
+        subtitle="Keep skill names consistent so postings and volunteers match."
+        icon={Tags}
+      />
+
+      <ColumnLayout
+        stickySidebar
+        sidebar={(
+          <Card
+            title="Create Skill"
+            description="Add a skill to the catalog."
+            color={DOMAIN_COLORS.skills}
+          >
+            <form className="mt-2 space-y-4" onSubmit={onCreateSkill}>
+              <FormField
+                form={skillForm}
+                name="name"
+                label="Skill Name"
+                placeholder="e.g. First Aid"
+                Icon={Tags}
+              />
+              <FormField
+                form={skillForm}
+                name="category"
+                label="Category"
+                selectOptions={[{ value: '', label: 'Uncategorized' }, ...skillCategoryOptions]}
+              />
+              <FormField
+                form={skillForm}
+                name="synonyms"
+                label="Synonyms (Comma Separated)"
+                placeholder="e.g. CPR/First Aid, Basic Life Support"
+              />
+
+              <Button
+                color="primary"
+                type="submit"
+                loading={isCreatingSkill}
+                Icon={Plus}
+                layout="block"
+              >
+                Add Skill
+              </Button>
+            </form>
+
+            <FormRootError form={skillForm} />
+          </Card>
+        )}
+      >
+        <section className="flex flex-col gap-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold">Catalog</h3>
+            {skills
+              ? (
+                  <div className="badge badge-primary">
+                    {`${skills.length}${hasMoreSkills ? '+' : ''} Total`}
+                  </div>
+                )
+              : <div className="w-18 h-6 skeleton" />}
+          </div>
+
+          <Card title="Filters">
+            <form className="space-y-4" onSubmit={applyFilters}>
+              <div className="flex flex-col gap-4 lg:flex-row lg:items-end">
+                <div className="flex-2">
+                  <label className="label" htmlFor="admin-skills-search">
+                    <span className="label-text">Search</span>
+                  </label>
+                  <label className="input input-bordered flex w-full items-center gap-2">
+                    <Search className="h-4 w-4 opacity-70" />
+                    <input
+                      id="admin-skills-search"
+                      type="text"
+                      className="w-full min-w-0"
+                      placeholder="Search skill names and synonyms"
+                      value={filters.search}
+                      onChange={event => setFilters(prev => ({ ...prev, search: event.target.value }))}
+                    />
+                  </label>
+                </div>
+
+                <div className="flex-1">
+                  <label className="label" htmlFor="admin-skills-category">
+                    <span className="label-text">Category</span>
+                  </label>
+                  <select
+                    id="admin-skills-category"
+                    className="select select-bordered w-full"
+                    value={filters.category}
+                    onChange={event => setFilters(prev => ({ ...prev, category: event.target.value as SkillFilters['category'] }))}
+                  >
+                    <option value="all">All categories</option>
+                    <option value="uncategorized">Uncategorized</option>
+                    {skillCategoryOptions.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex-1">
+                  <label className="label" htmlFor="admin-skills-sort">
+                    <span className="label-text">Sort By</span>
+                  </label>
+                  <select
+                    id="admin-skills-sort"
+                    className="select select-bordered w-full"
+                    value={filters.sort}
+                    onChange={event => setFilters(prev => ({ ...prev, sort: event.target.value as SkillSortOptionValue }))}
+                  >
+                    {skillSortOptions.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-3">
+                <div className="flex-1" />
+
+                <Button type="button" color="ghost" onClick={resetFilters} disabled={!hasAnyChangesFromDefault} Icon={RotateCcw}>Reset</Button>
+
+                <Button
+                  color="primary"
+                  type="submit"
+                  disabled={!hasPendingChanges}
+                  layout="wide"
+                  Icon={Search}
+                >
+                  Search
+                </Button>
+              </div>
+            </form>
+          </Card>
+
+          {!skills
+            ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="skeleton h-24 rounded-box" />
+                  <div className="skeleton h-24 rounded-box" />
+                </div>
+              )
+            : skills.length === 0
+              ? (
+                  <EmptyState
+                    Icon={Tags}
+                    title="No skills found"
+                    description="Try a different search, or add the skill to the catalog."
+                  />
+                )
+              : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {skills.map(skill => (
+                      <Card
+                        key={skill.id}
+                        title={editingSkillId === skill.id ? undefined : skill.name}
+                        Icon={editingSkillId === skill.id ? undefined : Tags}
+                        color={DOMAIN_COLORS.skills}
+                        right={editingSkillId !== skill.id && (
+                          <span className={`badge ${skill.category ? 'badge-outline' : 'badge-warning'} capitalize`}>
+                            {skill.category ?? 'Uncategorized'}
+                          </span>
+                        )}
+                      >
+                        {editingSkillId === skill.id
+                          ? (
+                              <div className="space-y-2">
+                                <input
+                                  value={editingName}
+                                  onChange={event => setEditingName(event.target.value)}
+                                  className="input input-bordered w-full"
+                                  placeholder="Skill name"
+                                />
+                                <select
+                                  value={editingCategory}
+                                  onChange={event => setEditingCategory(event.target.value)}
+                                  className="select select-bordered w-full"
+                                >
+                                  <option value="">Uncategorized</option>
+                                  {skillCategoryOptions.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                  ))}
+                                </select>
+                                <input
+                                  value={editingSynonyms}
+                                  onChange={event => setEditingSynonyms(event.target.value)}
+                                  className="input input-bordered w-full"
+                                  placeholder="Synonyms, comma separated"
+                                />
+                                <div className="flex flex-row-reverse flex-wrap gap-2">
+                                  <Button
+                                    color="primary"
+                                    type="button"
+                                    onClick={() => onSaveEdit(skill.id)}
+                                    disabled={actionBusyId === skill.id}
+                                    Icon={Save}
+                                  >
+                                    Save
+                                  </Button>
+                                  <Button
+                                    type="button"
+                                    color="ghost"
+                                    onClick={onCancelEdit}
+                                    disabled={actionBusyId === skill.id}
+                                    Icon={X}
+                                  >
+                                    Cancel
+                                  </Button>
+                                </div>
+                              </div>
+                            )
+                          : (
+                              <div className="space-y-3">
+                                <p className="text-sm opacity-70">
+                                  {`Used ${skill.usage_count} ${skill.usage_count === 1 ? 'time' : 'times'}`}
+                                </p>
+                                {skill.synonyms.length > 0 && (
+                                  <div className="flex flex-wrap gap-1">
+                                    {skill.synonyms.map(synonym => (
+                                      <span key={synonym} className="badge badge-ghost badge-sm">{synonym}</span>
+                                    ))}
+                                  </div>
+                                )}
+                                {mergingSkillId === skill.id
+                                  ? (
+                                      <SkillMergePicker
+                                        skill={skill}
+                                        onPick={target => onMerge(skill, target)}
+                                        onCancel={() => setMergingSkillId(null)}
+                                      />
+                                    )
+                                  : (
+                                      <div className="flex justify-end gap-2">
+                                        <Button
+                                          type="button"
+                                          style="outline"
+                                          size="sm"
+                                          onClick={() => onStartEdit(skill)}
+                                          disabled={actionBusyId === skill.id}
+                                          Icon={Pencil}
+                                        >
+                                          Edit
+                                        </Button>
+                                        <Button
+                                          type="button"
+                                          style="outline"
+                                          size="sm"
+                                          onClick={() => setMergingSkillId(skill.id)}
+                                          disabled={actionBusyId === skill.id}
+                                          Icon={GitMerge}
+                                        >
+                                          Merge
+                                        </Button>
+                                        <Button
+                                          type="button"
+                                          style="outline"
+                                          color="error"
+                                          size="sm"
+                                          onClick={() => onDelete(skill)}
+                                          disabled={actionBusyId === skill.id || skill.usage_count > 0}
+                                          Icon={Trash2}
+                                        >
+                                          Delete
+                                        </Button>
+                                      </div>
+                                    )}
+                              </div>
+                            )}
+                      </Card>
+                    ))}
+                  </div>
+                )}
+
+          <LoadMoreButton
+            hasMore={hasMoreSkills}
+            loading={loadingMoreSkills}
+            onLoadMore={() => { void loadMoreSkills(); }}
+          />
+        </section>
+      </ColumnLayout>
+    </PageContainer>
+  );
+}
+
+export default AdminSkills;
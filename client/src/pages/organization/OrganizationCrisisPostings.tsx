@@ -80,13 +80,15 @@ function OrganizationCrisisPostings() {
       title={resolvedCrisis?.name ?? 'Postings'}
       subtitle={subtitle}
       icon={AlertCircle}
-      actions={<PostingViewModeToggle />}
+      actions={<PostingViewModeToggle showMap />}
       showBack
       defaultBackTo="/organization/search?entity=crises"
       fetchUrl="/organization/posting/discover"
       crisisBasePath="/organization/crises"
       crisesFetchBasePath="/organization/crises"
       filterPostings={filterPostingsByCrisis}
+      enableDistanceFilter
+      enableMap
       showEntityTabs={false}
       emptyMessage="No postings found for this crisis yet."
     />
@@ -1,4 +1,4 @@
-import { ClipboardList, Plus } from 'lucide-react';
+import { ClipboardList, Plus, Users } from 'lucide-react';
 import { useCallback, useMemo, useState } from 'react';
 
 import CalendarInfo from '../../components/CalendarInfo';
@@ -6,6 +6,7 @@ import EmptyState from '../../components/EmptyState';
 import PageContainer from '../../components/layout/PageContainer';
 import PageHeader from '../../components/layout/PageHeader';
 import LinkButton from '../../components/LinkButton';
+import LoadMoreButton from '../../components/LoadMoreButton';
 import PostingCollection from '../../components/postings/PostingCollection';
 import {
   buildSharedPostingQuery,
@@ -23,6 +24,7 @@ import PostingViewModeToggle from '../../components/postings/PostingViewModeTogg
 import { FormField } from '../../utils/formUtils';
 import requestServer from '../../utils/requestServer';
 import useAsync from '../../utils/useAsync';
+import useLoadMore from '../../utils/useLoadMore';
 import { useOrganization } from '../../utils/useUsers';
 
 import type {
@@ -124,9 +126,10 @@ function OrganizationHome() {
     () => toPostingFilterFormValues(initialFilters),
     [initialFilters],
   );
+  const [activeFilters, setActiveFilters] = useState<PostingFilters>(initialFilters);
 
   const fetchPostingsFn = useCallback(
-    async (nextFilters: PostingFilters) => {
+    async (nextFilters: PostingFilters, cursor?: string) => {
       const query = buildSharedPostingQuery(nextFilters);
       if (nextFilters.hideFull) {
         query.hide_full = 'true';
@@ -136,25 +139,45 @@ function OrganizationHome() {
         query.crisis_id = nextFilters.crisisId;
       }
 
-      const response = await requestServer<PostingListResponse>(
+      if (cursor) {
+        query.cursor = cursor;
+      }
+
+      return requestServer<PostingListResponse>(
         '/organization/posting',
         {
           includeJwt: true,
           query,
         },
       );
-      return response.postings;
     },
     [],
   );
 
   const {
-    data: postings,
+    data: firstPostingsPage,
     loading,
     error,
     trigger: fetchPostings,
   } = useAsync(fetchPostingsFn, { immediate: false });
 
+  const loadPostingsPage = useCallback(
+    async (cursor: string) => fetchPostingsFn(activeFilters, cursor),
+    [activeFilters, fetchPostingsFn],
+  );
+
+  const {
+    pages: postingPages,
+    hasMore: hasMorePostings,
+    loadingMore: loadingMorePostings,
+    loadMore: loadMorePostings,
+  } = useLoadMore(firstPostingsPage, loadPostingsPage);
+
+  const postings = useMemo(
+    () => (firstPostingsPage ? postingPages.flatMap(page => page.postings) : null),
+    [firstPostingsPage, postingPages],
+  );
+
   const { data: crises } = useAsync(
     async () => {
       const response = await requestServer<OrganizationCrisesResponse>('/organization/crises', {
@@ -175,6 +198,7 @@ function OrganizationHome() {
     if (typeof window !== 'undefined') {
       window.sessionStorage.setItem(organizationHomeFiltersStorageKey, JSON.stringify(normalizedFilters));
     }
+    setActiveFilters(normalizedFilters);
     await fetchPostings(normalizedFilters);
   }, [fetchPostings]);
 
@@ -203,15 +227,23 @@ function OrganizationHome() {
         title="My Postings"
         subtitle="Track, manage, and update your organization opportunities."
         icon={ClipboardList}
-        badge={
-          postings && (
-            <div className="badge badge-primary">
-              {postings.length}
-              {' '}
-              {postings.length === 1 ? 'Posting' : 'Postings'}
-            </div>
-          )
-        }
+        badge={(
+          <>
+            {postings && (
+              <div className="badge badge-primary">
+                {`${postings.length}${hasMorePostings ? '+' : ''}`}
+                {' '}
+                {postings.length === 1 && !hasMorePostings ? 'Posting' : 'Postings'}
+              </div>
+            )}
+            {organizationMe && (
+              <div className="badge badge-outline" title="Volunteers who follow your organization">
+                <Users size={12} />
+                {`${organizationMe.follower_count} ${organizationMe.follower_count === 1 ? 'Follower' : 'Followers'}`}
+              </div>
+            )}
+          </>
+        )}
         actions={(
           <div className="flex gap-2 items-center flex-wrap justify-end">
             <PostingViewModeToggle />
@@ -344,6 +376,14 @@ function OrganizationHome() {
         crisisBasePath="/organization/crises"
         cardsContainerClassName="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
       />
+
+      {!loading && (
+        <LoadMoreButton
+          hasMore={hasMorePostings}
+          loading={loadingMorePostings}
+          onLoadMore={() => { void loadMorePostings(); }}
+        />
+      )}
     </PageContainer>
   );
 }
@@ -0,0 +1,20 @@
+import { MessagesSquare } from 'lucide-react';
+
+import PageContainer from '../../components/layout/PageContainer';
+import PageHeader from '../../components/layout/PageHeader';
+import MessagesView from '../../components/messaging/MessagesView';
+
+function OrganizationMessages() {
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Messages"
+        subtitle="Conversations with applicants and enrolled volunteers."
+        icon={MessagesSquare}
+      />
+      <MessagesView viewerRole="organization" />
+    </PageContainer>
+  );
+}
+
+export default OrganizationMessages;
@@ -9,6 +9,7 @@ import { useOrganization } from '../../auth/useUsers';
 import Alert from '../../components/Alert';
 import Button from '../../components/Button';
 import Card from '../../components/Card';
+import IssuedCertificatesCard from '../../components/certificates/IssuedCertificatesCard';
 import ColumnLayout from '../../components/layout/ColumnLayout';
 import PageContainer from '../../components/layout/PageContainer';
 import PageHeader from '../../components/layout/PageHeader';
@@ -114,7 +115,7 @@ const certificateFormSchema = newOrganizationCertificateInfoSchema.pick({
 function OrganizationProfile() {
   const organizationFromAuth = useOrganization();
   const notifications = useNotifications();
-  const [profile, setProfile] = useState<OrganizationGetMeResponse | null>(null);
+  const [profile, setProfile] = useState<Pick<OrganizationGetMeResponse, 'organization'> | null>(null);
   const [certificateInfo, setCertificateInfo] = useState<GetCertificateInfoResponse['certificateInfo']>(null);
   const [loading, setLoading] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
@@ -152,7 +153,7 @@ function OrganizationProfile() {
   });
 
   const resetFormsFromData = useCallback((
-    organizationResponse: OrganizationGetMeResponse,
+    organizationResponse: Pick<OrganizationGetMeResponse, 'organization'>,
     certificateInfoResponse: GetCertificateInfoResponse['certificateInfo'],
   ) => {
     form.reset({
@@ -772,6 +773,13 @@ function OrganizationProfile() {
                 </div>
               )}
         </Card>
+
+        <IssuedCertificatesCard
+          endpoint="/organization/issued-certificates"
+          description="Certificates issued to volunteers that include your organization."
+          canRevoke
+          showVolunteer
+        />
       </ColumnLayout>
     </PageContainer>
   );
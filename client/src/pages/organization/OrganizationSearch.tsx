@@ -32,13 +32,15 @@ function OrganizationSearch() {
         subtitle="Browse all active postings and crises across organizations."
         icon={Search}
         showBack={false}
-        actions={<PostingViewModeToggle />}
+        actions={<PostingViewModeToggle showMap />}
         fetchUrl="/organization/posting/discover"
         organizationsFetchUrl="/organization/organizations"
         crisisBasePath="/organization/crises"
         crisesFetchBasePath="/organization/crises"
         enableCrisisFilter
         enableOrganizationSearch
+        enableDistanceFilter
+        enableMap
         initialFilters={initialEntity ? { entity: initialEntity } : undefined}
         crisisOptions={pinnedCrises?.map(crisis => ({
           id: crisis.id,
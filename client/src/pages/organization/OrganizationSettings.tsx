@@ -1,8 +1,11 @@
 import { Lock } from 'lucide-react';
 
+import CalendarFeedCard from '../../components/CalendarFeedCard';
 import DeleteAccountCard from '../../components/DeleteAccountCard';
 import PageContainer from '../../components/layout/PageContainer';
 import PageHeader from '../../components/layout/PageHeader';
+import NotificationPreferencesCard from '../../components/NotificationPreferencesCard';
+import OrganizationMembersCard from '../../components/OrganizationMembersCard';
 import PasswordResetCard from '../../components/PasswordResetCard';
 
 function OrganizationSettings() {
@@ -15,6 +18,9 @@ function OrganizationSettings() {
       />
       <div className="space-y-6">
         <PasswordResetCard />
+        <OrganizationMembersCard />
+        <NotificationPreferencesCard />
+        <CalendarFeedCard description="Subscribe to your postings and their enrollment counts from Google Calendar, Outlook or Apple Calendar." />
         <DeleteAccountCard
           description="Permanently delete your organization account."
           warningText="All postings that have not yet started will be permanently deleted. You will not be able to sign in or recover this account. Your organization will be hidden from the platform, and you will be signed out immediately."
@@ -182,6 +182,9 @@ function OrganizationVolunteerProfile() {
         automatic_acceptance: experience.automatic_acceptance,
         is_closed: experience.is_closed,
         allows_partial_attendance: false,
+        requires_guardian_consent: false,
+        recurrence_weekdays: null,
+        recurrence_interval: 1,
         location_name: experience.location_name,
         created_at: safeStartDate,
         updated_at: safeStartDate,
@@ -1,4 +1,4 @@
-import { CheckCheck, Download, RotateCcw, Save, Search, Undo2, Users } from 'lucide-react';
+import { CheckCheck, Download, MessageSquareText, RotateCcw, Save, Search, Star, Undo2, Users } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useParams } from 'react-router-dom';
 
@@ -6,16 +6,25 @@ import Button from '../../components/Button';
 import CalendarInfo from '../../components/CalendarInfo';
 import Card from '../../components/Card';
 import EmptyState from '../../components/EmptyState';
+import VolunteerFeedbackModal from '../../components/feedback/VolunteerFeedbackModal';
 import PageContainer from '../../components/layout/PageContainer';
 import PageHeader from '../../components/layout/PageHeader';
 import Loading from '../../components/Loading';
+import CheckInScanner from '../../components/postings/CheckInScanner';
+import { formatCheckInTime } from '../../components/postings/postingUtils';
 import VolunteerInfoCollapse from '../../components/VolunteerInfoCollapse';
 import { DOMAIN_COLORS } from '../../constants';
 import useNotifications from '../../notifications/useNotifications';
 import requestServer, { SERVER_BASE_URL } from '../../utils/requestServer';
 import useAsync from '../../utils/useAsync';
 
-import type { PostingAttendanceResponse } from '../../../../server/src/api/types';
+import type {
+  PostingAttendanceResponse,
+  PostingCheckInResponse,
+  PostingEnrollmentFeedbackUpdateResponse,
+  PostingFeedbackResponse,
+} from '../../../../server/src/api/types';
+import type { VolunteerFeedback } from '../../../../server/src/db/tables';
 import type { PostingEnrollment } from '../../../../server/src/types';
 
 function PostingAttendance() {
@@ -141,6 +150,88 @@ function PostingAttendance() {
     { notifyOnError: true },
   );
 
+  const { trigger: recordCheckIn } = useAsync(
+    async (postingId: string, token: string) => requestServer<PostingCheckInResponse>(
+      `/organization/posting/${postingId}/check-in`,
+      {
+        method: 'POST',
+        includeJwt: true,
+        body: { token },
+      },
+    ),
+    { notifyOnError: true },
+  );
+
+  const [feedbackByEnrollmentId, setFeedbackByEnrollmentId] = useState<Map<number, VolunteerFeedback>>(new Map());
+  const [feedbackEnrollment, setFeedbackEnrollment] = useState<PostingEnrollment | null>(null);
+
+  const { data: feedbackData } = useAsync(
+    async () => requestServer<PostingFeedbackResponse>(`/organization/posting/${id}/feedback`, { includeJwt: true }),
+    { immediate: Boolean(id), notifyOnError: false },
+  );
+
+  useEffect(() => {
+    if (!feedbackData) return;
+    setFeedbackByEnrollmentId(new Map(feedbackData.feedback.map(feedback => [feedback.enrollment_id, feedback])));
+  }, [feedbackData]);
+
+  const { trigger: saveFeedback } = useAsync(
+    async (enrollmentId: number, rating: number, comment: string | null) => requestServer<PostingEnrollmentFeedbackUpdateResponse>(
+      `/organization/posting/${id}/enrollments/${enrollmentId}/feedback`,
+      {
+        method: 'PUT',
+        includeJwt: true,
+        body: { rating, comment },
+      },
+    ),
+    { notifyOnError: true },
+  );
+
+  const { trigger: deleteFeedback } = useAsync(
+    async (enrollmentId: number) => requestServer(
+      `/organization/posting/${id}/enrollments/${enrollmentId}/feedback`,
+      {
+        method: 'DELETE',
+        includeJwt: true,
+      },
+    ),
+    { notifyOnError: true },
+  );
+
+  const onSaveFeedback = async (rating: number, comment: string | null) => {
+    if (!feedbackEnrollment) return;
+
+    const { feedback } = await saveFeedback(feedbackEnrollment.enrollment_id, rating, comment);
+    setFeedbackByEnrollmentId(prev => new Map(prev).set(feedback.enrollment_id, feedback));
+    setFeedbackEnrollment(null);
+    notifications.push({
+      type: 'success',
+      message: 'Feedback saved.',
+    });
+  };
+
+  const onDeleteFeedback = async () => {
+    if (!feedbackEnrollment) return;
+
+    await deleteFeedback(feedbackEnrollment.enrollment_id);
+    setFeedbackByEnrollmentId((prev) => {
+      const next = new Map(prev);
+      next.delete(feedbackEnrollment.enrollment_id);
+      return next;
+    });
+    setFeedbackEnrollment(null);
+    notifications.push({
+      type: 'success',
+      message: 'Feedback deleted.',
+    });
+  };
+
+  // Feedback follows the saved attendance, not unsaved per-day drafts
+  const attendedEnrollmentIds = useMemo(
+    () => new Set(data?.enrollments.filter(enrollment => enrollment.attended).map(enrollment => enrollment.enrollment_id)),
+    [data],
+  );
+
   const currentDate = availableDates[currentDateIndex] ?? null;
   const isBatchAttendance = Boolean(data && (!data.posting.allows_partial_attendance || availableDates.length <= 1));
 
@@ -281,6 +372,35 @@ function PostingAttendance() {
     );
   }, [data, saving]);
 
+  const scanCheckInCode = useCallback(async (token: string) => {
+    if (!id) return;
+
+    const { action, volunteer, enrollment_date } = await recordCheckIn(id, token);
+    const volunteerName = `${volunteer.first_name} ${volunteer.last_name}`;
+
+    notifications.push({
+      type: 'success',
+      message: action === 'check_in'
+        ? `${volunteerName} checked in at ${formatCheckInTime(enrollment_date.checked_in_at)}.`
+        : `${volunteerName} checked out at ${formatCheckInTime(enrollment_date.checked_out_at)}.`,
+    });
+
+    await loadAttendance();
+  }, [id, loadAttendance, notifications, recordCheckIn]);
+
+  const getCheckInLabel = useCallback((enrollment: PostingEnrollment) => {
+    const dates = enrollment.dates ?? [];
+    const dateItem = isBatchAttendance
+      ? (dates.length === 1 ? dates[0] : dates.find(d => d.checked_in_at && !d.checked_out_at))
+      : dates.find(d => d.date === currentDate);
+
+    if (!dateItem?.checked_in_at) return null;
+
+    return dateItem.checked_out_at
+      ? `${formatCheckInTime(dateItem.checked_in_at)} - ${formatCheckInTime(dateItem.checked_out_at)}`
+      : `In since ${formatCheckInTime(dateItem.checked_in_at)}`;
+  }, [currentDate, isBatchAttendance]);
+
   const exportAttendanceCsv = useCallback(async () => {
     if (!id || exportingCsv) return;
 
@@ -473,6 +593,10 @@ function PostingAttendance() {
         )}
       />
 
+      {data.enrollments.length > 0 && (
+        <CheckInScanner onScan={scanCheckInCode} disabled={saving} />
+      )}
+
       <Card
         title="Enrolled Volunteers"
         description="Track attendance by volunteer and posting day."
@@ -571,6 +695,9 @@ function PostingAttendance() {
                 profileLink={`/organization/volunteer/${volunteer.volunteer_id}`}
                 actions={(
                   <div className="flex items-center gap-2">
+                    {getCheckInLabel(volunteer) && (
+                      <span className="text-xs opacity-70 whitespace-nowrap">{getCheckInLabel(volunteer)}</span>
+                    )}
                     <label className="flex items-center gap-2">
                       <span className={`badge ${volunteer.attended ? 'badge-success' : 'badge-ghost'}`}>
                         {volunteer.attended ? 'Present' : 'Absent'}
@@ -594,6 +721,19 @@ function PostingAttendance() {
                         All Days Present
                       </Button>
                     )}
+                    {attendedEnrollmentIds.has(volunteer.enrollment_id) && (
+                      <Button
+                        size="sm"
+                        style="outline"
+                        onClick={() => setFeedbackEnrollment(data.enrollments.find(enrollment => enrollment.enrollment_id === volunteer.enrollment_id) ?? null)}
+                        disabled={saving}
+                        Icon={feedbackByEnrollmentId.has(volunteer.enrollment_id) ? Star : MessageSquareText}
+                      >
+                        {feedbackByEnrollmentId.has(volunteer.enrollment_id)
+                          ? `${feedbackByEnrollmentId.get(volunteer.enrollment_id)!.rating}/5`
+                          : 'Feedback'}
+                      </Button>
+                    )}
                   </div>
                 )}
               />
@@ -601,6 +741,15 @@ function PostingAttendance() {
           </div>
         )}
       </Card>
+
+      <VolunteerFeedbackModal
+        open={feedbackEnrollment !== null}
+        volunteerName={feedbackEnrollment ? `${feedbackEnrollment.first_name} ${feedbackEnrollment.last_name}` : ''}
+        feedback={feedbackEnrollment ? feedbackByEnrollmentId.get(feedbackEnrollment.enrollment_id) ?? null : null}
+        onClose={() => setFeedbackEnrollment(null)}
+        onSave={onSaveFeedback}
+        onDelete={onDeleteFeedback}
+      />
     </PageContainer>
   );
 }
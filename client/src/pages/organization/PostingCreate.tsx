@@ -1,5 +1,5 @@
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Send, MapPin, Edit3, Users, ShieldCheck, LockOpen, Lock, Tag, Plus, Calendar } from 'lucide-react';
+import { Send, MapPin, Edit3, Users, ShieldCheck, LockOpen, Lock, Tag, Plus, Calendar, User, UserCheck } from 'lucide-react';
 import { useCallback, useEffect, useState } from 'react';
 import { useForm, useWatch } from 'react-hook-form';
 import { useNavigate } from 'react-router-dom';
@@ -10,6 +10,18 @@ import Card from '../../components/Card.tsx';
 import PageContainer from '../../components/layout/PageContainer.tsx';
 import PageHeader from '../../components/layout/PageHeader';
 import LocationPicker from '../../components/LocationPicker';
+import PostingQuestionsFields from '../../components/postings/PostingQuestionsFields';
+import PostingRolesFields from '../../components/postings/PostingRolesFields';
+import PostingScheduleFields from '../../components/postings/PostingScheduleFields';
+import {
+  EMPTY_POSTING_SCHEDULE,
+  toPostingQuestionsPayload,
+  toPostingRolesPayload,
+  toPostingSchedulePayload,
+  type PostingQuestionDraft,
+  type PostingRoleDraft,
+  type PostingScheduleValue,
+} from '../../components/postings/postingUtils';
 import SkillsInput from '../../components/skills/SkillsInput';
 import { ToggleButton } from '../../components/ToggleButton';
 import { postingFormSchema, type PostingFormData } from '../../schemas/posting';
@@ -31,6 +43,7 @@ export default function PostingCreate() {
     defaultValues: {
       automatic_acceptance: true,
       allows_partial_attendance: false,
+      requires_guardian_consent: false,
       start_date: '',
       start_time: '',
       end_date: '',
@@ -39,6 +52,9 @@ export default function PostingCreate() {
   });
 
   const [skills, setSkills] = useState<string[]>([]);
+  const [schedule, setSchedule] = useState<PostingScheduleValue>(EMPTY_POSTING_SCHEDULE);
+  const [roles, setRoles] = useState<PostingRoleDraft[]>([]);
+  const [questions, setQuestions] = useState<PostingQuestionDraft[]>([]);
   const [selectedCrisisId, setSelectedCrisisId] = useState<number | undefined>(undefined);
   const [crises, setCrises] = useState<OrganizationCrisesResponse['crises']>([]);
   const [crisesError, setCrisesError] = useState<string | null>(null);
@@ -49,6 +65,7 @@ export default function PostingCreate() {
   const endDate = useWatch({ control: form.control, name: 'end_date' }) ?? '';
   const endTime = useWatch({ control: form.control, name: 'end_time' }) ?? '';
   const allowsPartialAttendance = useWatch({ control: form.control, name: 'allows_partial_attendance' }) ?? false;
+  const automaticAcceptance = useWatch({ control: form.control, name: 'automatic_acceptance' }) ?? true;
 
   useEffect(() => {
     const loadCrises = async () => {
@@ -90,8 +107,12 @@ export default function PostingCreate() {
         minimum_age: data.minimum_age ? Number(data.minimum_age) : null,
         automatic_acceptance: data.automatic_acceptance,
         allows_partial_attendance: data.allows_partial_attendance,
+        requires_guardian_consent: data.requires_guardian_consent,
         skills: skills.length > 0 ? skills : undefined,
         crisis_id: selectedCrisisId ?? null,
+        ...toPostingSchedulePayload(schedule),
+        roles: roles.length > 0 ? toPostingRolesPayload(roles) : undefined,
+        questions: !data.automatic_acceptance && questions.length > 0 ? toPostingQuestionsPayload(questions) : undefined,
       };
 
       console.log('Submitting posting payload:', payload);
@@ -191,7 +212,8 @@ export default function PostingCreate() {
                     label={`Max Volunteers${allowsPartialAttendance ? ' (per day)' : ''}`}
                     name="max_volunteers"
                     type="number"
-                    placeholder="Optional"
+                    placeholder={roles.length > 0 ? 'Set by roles' : 'Optional'}
+                    inputProps={{ disabled: roles.length > 0 }}
                     Icon={Users}
                   />
 
@@ -205,6 +227,28 @@ export default function PostingCreate() {
                   />
                 </div>
 
+                <ToggleButton
+                  form={form}
+                  name="requires_guardian_consent"
+                  label="Guardian Consent"
+                  options={[
+                    {
+                      value: true,
+                      label: 'Required for Minors',
+                      description: 'Volunteers under 18 need a parent or guardian to approve.',
+                      Icon: UserCheck,
+                      btnColor: 'btn-primary',
+                    },
+                    {
+                      value: false,
+                      label: 'Not Required',
+                      description: 'Volunteers of any allowed age apply on their own.',
+                      Icon: User,
+                      btnColor: 'btn-secondary',
+                    },
+                  ]}
+                />
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="md:col-span-2">
                     <CalendarInfo
@@ -271,8 +315,22 @@ export default function PostingCreate() {
                   </fieldset>
                 </div>
 
+                <PostingScheduleFields
+                  value={schedule}
+                  onChange={setSchedule}
+                  startDate={startDate}
+                  endDate={endDate}
+                  disabled={form.formState.isSubmitting}
+                />
+
                 <SkillsInput skills={skills} setSkills={setSkills} />
 
+                <PostingRolesFields
+                  value={roles}
+                  onChange={setRoles}
+                  disabled={form.formState.isSubmitting}
+                />
+
                 <div className="rounded-box border border-base-300 bg-base-200/50 p-4">
                   <div className="mb-3">
                     <h4 className="font-semibold inline-flex items-center gap-2">
@@ -325,6 +383,14 @@ export default function PostingCreate() {
                     },
                   ]}
                 />
+
+                {!automaticAcceptance && (
+                  <PostingQuestionsFields
+                    value={questions}
+                    onChange={setQuestions}
+                    disabled={form.formState.isSubmitting}
+                  />
+                )}
               </div>
 
               <div className="lg:col-span-1">
@@ -11,6 +11,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useVolunteer } from '../../auth/useUsers';
 import Button from '../../components/Button';
 import Card from '../../components/Card';
+import { downloadCertificatePdf } from '../../components/certificates/certificatePdf';
 import CertificatePreview from '../../components/certificates/CertificatePreview';
 import {
   CERTIFICATE_PREVIEW_HEIGHT,
@@ -18,6 +19,7 @@ import {
   MAX_CERTIFICATE_ORGANIZATIONS,
   getCertificatePreviewStyles,
 } from '../../components/certificates/certificatePreview.constants';
+import IssuedCertificatesCard from '../../components/certificates/IssuedCertificatesCard';
 import PageContainer from '../../components/layout/PageContainer';
 import PageHeader from '../../components/layout/PageHeader';
 import Loading from '../../components/Loading';
@@ -81,6 +83,7 @@ function VolunteerCertificateRequest() {
   const [selectionError, setSelectionError] = useState<string | null>(null);
   const [certificateGeneratedAt, setCertificateGeneratedAt] = useState<Date | null>(null);
   const [verificationToken, setVerificationToken] = useState<string | null>(null);
+  const [certificateId, setCertificateId] = useState<number | null>(null);
   const [issueError, setIssueError] = useState<string | null>(null);
   const previewViewportRef = useRef<HTMLDivElement | null>(null);
   const [certificateScale, setCertificateScale] = useState(1);
@@ -106,6 +109,10 @@ function VolunteerCertificateRequest() {
     ),
     { notifyOnError: true },
   );
+  const {
+    loading: downloadingCertificate,
+    trigger: downloadCertificate,
+  } = useAsync(downloadCertificatePdf, { notifyOnError: true });
 
   const organizationsWithEligibility = useMemo(
     () => data?.organizations ?? [],
@@ -164,6 +171,7 @@ function VolunteerCertificateRequest() {
     setSelectionError(null);
     setCertificateGeneratedAt(null);
     setVerificationToken(null);
+    setCertificateId(null);
     setIssueError(null);
 
     setSelectedOrganizationIds((current) => {
@@ -188,16 +196,18 @@ function VolunteerCertificateRequest() {
       const response = await issueCertificate(selectedOrganizationIds);
       setCertificateGeneratedAt(new Date(response.issued_at));
       setVerificationToken(response.verification_token);
+      setCertificateId(response.certificate_id);
     } catch (err) {
       setVerificationToken(null);
+      setCertificateId(null);
       setCertificateGeneratedAt(null);
       setIssueError(err instanceof Error ? err.message : 'Failed to generate certificate token.');
     }
   };
 
   const downloadCertificateAsPdf = () => {
-    if (!certificateGeneratedAt) return;
-    window.print();
+    if (certificateId === null) return;
+    void downloadCertificate(certificateId);
   };
 
   return (
@@ -351,6 +361,14 @@ function VolunteerCertificateRequest() {
             </div>
           </Card>
 
+          <IssuedCertificatesCard
+            key={verificationToken ?? 'issued-certificates'}
+            endpoint="/volunteer/certificate/issued"
+            title="Certificate History"
+            description="Certificates you have generated and their verification status."
+            canDownload
+          />
+
           {certificateGeneratedAt && (
             <Card
               title="Certificate Preview"
@@ -358,6 +376,7 @@ function VolunteerCertificateRequest() {
                 <Button
                   style="outline"
                   onClick={downloadCertificateAsPdf}
+                  loading={downloadingCertificate}
                   Icon={Download}
                 >
                   Download as PDF
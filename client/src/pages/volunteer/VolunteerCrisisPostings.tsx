@@ -80,11 +80,14 @@ function VolunteerCrisisPostings() {
       title={resolvedCrisis?.name ?? 'Crisis'}
       subtitle={subtitle}
       icon={AlertCircle}
-      actions={<PostingViewModeToggle />}
+      actions={<PostingViewModeToggle showMap />}
       showBack
       defaultBackTo="/volunteer"
       fetchUrl="/volunteer/posting?include_applied=true"
       filterPostings={filterPostingsByCrisis}
+      enableDistanceFilter
+      enableAvailabilityFilter
+      enableMap
       showEntityTabs={false}
       emptyMessage="No postings found for this crisis yet."
     />
@@ -16,6 +16,7 @@ function VolunteerForYou() {
     async () => {
       const response = await requestServer<VolunteerEnrollmentsResponse>('/volunteer/posting/enrollments', {
         includeJwt: true,
+        query: { limit: '100' },
       });
       return response.postings;
     },
@@ -60,6 +61,7 @@ function VolunteerForYou() {
         fetchUrl="/volunteer/posting"
         filterPostings={filterPostings}
         enableCrisisFilter
+        enableAvailabilityFilter
         showEntityTabs={false}
         crisisOptions={(pinnedCrises ?? []).map(crisis => ({ id: crisis.id, name: crisis.name }))}
         emptyMessage="No recommended postings found yet."
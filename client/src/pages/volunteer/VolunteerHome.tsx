@@ -75,7 +75,7 @@ function VolunteerHome() {
     error: enrolledError,
   } = useAsync(
     async () => {
-      const res = await requestServer<VolunteerEnrollmentsResponse>('/volunteer/posting/enrollments', { includeJwt: true });
+      const res = await requestServer<VolunteerEnrollmentsResponse>('/volunteer/posting/enrollments?limit=100', { includeJwt: true });
       return res;
     },
     { immediate: true },
@@ -89,7 +89,7 @@ function VolunteerHome() {
     error: allError,
   } = useAsync(
     async () => {
-      const res = await requestServer<VolunteerPostingSearchResponse>('/volunteer/posting?include_applied=true', { includeJwt: true });
+      const res = await requestServer<VolunteerPostingSearchResponse>('/volunteer/posting?include_applied=true&limit=100', { includeJwt: true });
       return res;
     },
     { immediate: true },
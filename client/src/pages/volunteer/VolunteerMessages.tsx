@@ -0,0 +1,20 @@
+import { MessagesSquare } from 'lucide-react';
+
+import PageContainer from '../../components/layout/PageContainer';
+import PageHeader from '../../components/layout/PageHeader';
+import MessagesView from '../../components/messaging/MessagesView';
+
+function VolunteerMessages() {
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Messages"
+        subtitle="Conversations with the organizations you applied to or volunteer with."
+        icon={MessagesSquare}
+      />
+      <MessagesView viewerRole="volunteer" />
+    </PageContainer>
+  );
+}
+
+export default VolunteerMessages;
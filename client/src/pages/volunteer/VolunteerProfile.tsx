@@ -23,6 +23,7 @@ import { z } from 'zod';
 
 import { volunteerAccountSchema } from '../../../../server/src/db/tables';
 import Alert from '../../components/Alert';
+import AvailabilityCard from '../../components/AvailabilityCard';
 import Button from '../../components/Button';
 import Card from '../../components/Card';
 import EmptyState from '../../components/EmptyState';
@@ -309,6 +310,9 @@ function VolunteerProfile() {
         automatic_acceptance: experience.automatic_acceptance,
         is_closed: experience.is_closed,
         allows_partial_attendance: false,
+        requires_guardian_consent: false,
+        recurrence_weekdays: null,
+        recurrence_interval: 1,
         location_name: experience.location_name,
         created_at: safeStartDate,
         updated_at: safeStartDate,
@@ -726,6 +730,8 @@ function VolunteerProfile() {
               )}
         </Card>
 
+        <AvailabilityCard />
+
         <Card
           title="Previous Experiences"
           description="Past volunteering experiences completed through the platform."
@@ -0,0 +1,113 @@
+import { Bookmark, Building2 } from 'lucide-react';
+import { useCallback, useMemo } from 'react';
+
+import EmptyState from '../../components/EmptyState.tsx';
+import PageContainer from '../../components/layout/PageContainer.tsx';
+import PageHeader from '../../components/layout/PageHeader.tsx';
+import Loading from '../../components/Loading.tsx';
+import LoadMoreButton from '../../components/LoadMoreButton.tsx';
+import OrganizationCard from '../../components/postings/OrganizationCard.tsx';
+import PostingCollection from '../../components/postings/PostingCollection';
+import PostingViewModeToggle from '../../components/postings/PostingViewModeToggle.tsx';
+import requestServer from '../../utils/requestServer';
+import useAsync from '../../utils/useAsync';
+import useLoadMore from '../../utils/useLoadMore';
+
+import type {
+  VolunteerBookmarkedPostingsResponse,
+  VolunteerFollowedOrganizationsResponse,
+} from '../../../../server/src/api/types';
+
+function VolunteerSaved() {
+  const getBookmarks = useCallback(async (cursor?: string) => requestServer<VolunteerBookmarkedPostingsResponse>('/volunteer/posting/bookmarks', {
+    includeJwt: true,
+    ...(cursor ? { query: { cursor } } : {}),
+  }), []);
+
+  const { data: firstBookmarksPage, loading: bookmarksLoading } = useAsync(
+    async () => getBookmarks(),
+    { immediate: true },
+  );
+
+  const {
+    pages: bookmarkPages,
+    hasMore: hasMoreBookmarks,
+    loadingMore: loadingMoreBookmarks,
+    loadMore: loadMoreBookmarks,
+  } = useLoadMore(firstBookmarksPage, getBookmarks);
+
+  const bookmarkedPostings = useMemo(
+    () => bookmarkPages.flatMap(page => page.postings),
+    [bookmarkPages],
+  );
+
+  const { data: following, loading: followingLoading } = useAsync(
+    async () => requestServer<VolunteerFollowedOrganizationsResponse>('/volunteer/organization/following', { includeJwt: true }),
+    { immediate: true },
+  );
+
+  const followedOrganizations = following?.organizations ?? [];
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Saved"
+        subtitle="Postings you saved for later and organizations you follow."
+        icon={Bookmark}
+        actions={<PostingViewModeToggle />}
+      />
+
+      <div className="space-y-10">
+        <section className="space-y-4">
+          <h2 className="text-2xl font-bold tracking-tight">Saved Postings</h2>
+          <PostingCollection
+            postings={bookmarkedPostings}
+            loading={bookmarksLoading}
+            showCrisis
+            cardsContainerClassName="grid grid-cols-1 gap-6 lg:grid-cols-2 2xl:grid-cols-3"
+            listContainerClassName="space-y-4"
+            emptyState={(
+              <EmptyState
+                Icon={Bookmark}
+                title="No saved postings"
+                description="Save a posting from its page to find it here later."
+              />
+            )}
+          />
+          <LoadMoreButton
+            hasMore={hasMoreBookmarks}
+            loading={loadingMoreBookmarks}
+            onLoadMore={() => { void loadMoreBookmarks(); }}
+          />
+        </section>
+
+        <section className="space-y-4">
+          <h2 className="text-2xl font-bold tracking-tight">Following</h2>
+          {followingLoading && !following
+            ? (
+                <div className="flex justify-center py-6">
+                  <Loading size="lg" />
+                </div>
+              )
+            : followedOrganizations.length > 0
+              ? (
+                  <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+                    {followedOrganizations.map(organization => (
+                      <OrganizationCard key={organization.id} organization={organization} />
+                    ))}
+                  </div>
+                )
+              : (
+                  <EmptyState
+                    Icon={Building2}
+                    title="Not following anyone yet"
+                    description="Follow an organization from its profile to hear about its new postings."
+                  />
+                )}
+        </section>
+      </div>
+    </PageContainer>
+  );
+}
+
+export default VolunteerSaved;
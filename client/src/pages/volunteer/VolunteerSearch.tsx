@@ -1,16 +1,31 @@
 import { Search } from 'lucide-react';
-import { useSearchParams } from 'react-router-dom';
+import { useCallback, useEffect, useState } from 'react';
+import { useLocation, useSearchParams } from 'react-router-dom';
 
-import PostingSearchView from '../../components/postings/PostingSearchView.tsx';
+import Loading from '../../components/Loading.tsx';
+import { getPostingSearchStorageKey } from '../../components/postings/postingFilterConfig.ts';
+import PostingSearchView, { type PostingSearchFilters } from '../../components/postings/PostingSearchView.tsx';
 import PostingViewModeToggle from '../../components/postings/PostingViewModeToggle.tsx';
+import { fromSavedSearchFilters, toSavedSearchFilters } from '../../components/postings/savedSearchFilters.ts';
+import SaveSearchModal from '../../components/postings/SaveSearchModal.tsx';
+import useNotifications from '../../notifications/useNotifications';
 import requestServer from '../../utils/requestServer.ts';
 import useAsync from '../../utils/useAsync.ts';
 
-import type { VolunteerPinnedCrisesResponse } from '../../../../server/src/api/types.ts';
+import type { VolunteerPinnedCrisesResponse, VolunteerSavedSearchResponse } from '../../../../server/src/api/types.ts';
+import type { SavedSearchAlertFrequency } from '../../../../server/src/db/tables/index.ts';
+
+const getSavedSearch = async (id: string) => requestServer<VolunteerSavedSearchResponse>(`/volunteer/saved-searches/${id}`, {
+  includeJwt: true,
+});
 
 function VolunteerSearch() {
-  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const notifications = useNotifications();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [filtersToSave, setFiltersToSave] = useState<PostingSearchFilters | null>(null);
   const entityParam = searchParams.get('entity');
+  const savedSearchId = searchParams.get('saved_search');
   const initialEntity = entityParam === 'organizations' || entityParam === 'crises' || entityParam === 'postings'
     ? entityParam
     : undefined;
@@ -23,6 +38,64 @@ function VolunteerSearch() {
     },
     { immediate: true },
   );
+  const { trigger: loadSavedSearch } = useAsync(getSavedSearch, { notifyOnError: true });
+
+  // Opening a saved search stores its filters as the page's last search, then drops the id from the URL
+  useEffect(() => {
+    if (!savedSearchId) return;
+
+    let cancelled = false;
+
+    const openSavedSearch = async () => {
+      try {
+        const { saved_search: savedSearch } = await loadSavedSearch(savedSearchId);
+        if (cancelled) return;
+
+        window.sessionStorage.setItem(
+          getPostingSearchStorageKey(location.pathname),
+          JSON.stringify(fromSavedSearchFilters(savedSearch.filters)),
+        );
+      } catch {
+        if (cancelled) return;
+      }
+
+      const nextParams = new URLSearchParams(searchParams);
+      nextParams.delete('saved_search');
+      nextParams.delete('entity');
+      setSearchParams(nextParams, { replace: true });
+    };
+
+    void openSavedSearch();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [savedSearchId, loadSavedSearch, location.pathname, searchParams, setSearchParams]);
+
+  const saveSearch = useCallback(async (name: string, alertFrequency: SavedSearchAlertFrequency) => {
+    if (!filtersToSave) return;
+
+    await requestServer<VolunteerSavedSearchResponse>('/volunteer/saved-searches', {
+      method: 'POST',
+      includeJwt: true,
+      body: {
+        name,
+        filters: toSavedSearchFilters(filtersToSave),
+        alert_frequency: alertFrequency,
+      },
+    });
+
+    setFiltersToSave(null);
+    notifications.push({ type: 'success', message: 'Search saved. Manage it from your settings.' });
+  }, [filtersToSave, notifications]);
+
+  if (savedSearchId) {
+    return (
+      <div className="grow bg-base-200 flex justify-center p-12">
+        <Loading size="xl" />
+      </div>
+    );
+  }
 
   return (
     <div className="grow bg-base-200">
@@ -31,15 +104,25 @@ function VolunteerSearch() {
         subtitle="Browse all postings, organizations, and crises, and filter them down by dates, location, or skills."
         icon={Search}
         showBack={false}
-        postingsTopContent={<PostingViewModeToggle />}
+        postingsTopContent={<PostingViewModeToggle showMap />}
         fetchUrl="/volunteer/posting?include_applied=true"
         enableCrisisFilter
         enableOrganizationSearch
+        enableDistanceFilter
+        enableAvailabilityFilter
+        enableMap
         initialFilters={initialEntity ? { entity: initialEntity } : undefined}
         crisisOptions={pinnedCrises?.map(crisis => ({
           id: crisis.id,
           name: crisis.name,
         })) ?? []}
+        onSaveSearch={setFiltersToSave}
+      />
+      <SaveSearchModal
+        open={filtersToSave !== null}
+        defaultName={filtersToSave?.search.trim() || 'My search'}
+        onClose={() => setFiltersToSave(null)}
+        onSave={saveSearch}
       />
     </div>
   );
@@ -1,9 +1,13 @@
 import { Lock } from 'lucide-react';
 
+import CalendarFeedCard from '../../components/CalendarFeedCard';
 import DeleteAccountCard from '../../components/DeleteAccountCard';
+import HomeLocationCard from '../../components/HomeLocationCard';
 import PageContainer from '../../components/layout/PageContainer';
 import PageHeader from '../../components/layout/PageHeader';
+import NotificationPreferencesCard from '../../components/NotificationPreferencesCard';
 import PasswordResetCard from '../../components/PasswordResetCard';
+import SavedSearchesCard from '../../components/SavedSearchesCard';
 
 function VolunteerSettings() {
   return (
@@ -15,6 +19,10 @@ function VolunteerSettings() {
       />
       <div className="space-y-6">
         <PasswordResetCard />
+        <HomeLocationCard />
+        <NotificationPreferencesCard />
+        <SavedSearchesCard />
+        <CalendarFeedCard description="Subscribe to your enrolled shifts from Google Calendar, Outlook or Apple Calendar. Changes to postings show up automatically." />
         <DeleteAccountCard
           description="Permanently delete your volunteer account."
           warningText="Your upcoming applications will be withdrawn. You will not be able to sign in or recover this account. Your profile will be hidden from the platform, and you will be signed out immediately."
@@ -26,3 +26,15 @@ export const forgotPasswordResetSchema = z.object({
 });
 
 export type ForgotPasswordResetFormData = z.infer<typeof forgotPasswordResetSchema>;
+
+export const organizationInviteAcceptSchema = z.object({
+  first_name: z.string().trim().min(1, 'First name is required').max(64, 'First name must be at most 64 characters'),
+  last_name: z.string().trim().min(1, 'Last name is required').max(64, 'Last name must be at most 64 characters'),
+  password: passwordSchema,
+  confirmPassword: z.string().min(1, 'Confirm password is required'),
+}).refine(data => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+});
+
+export type OrganizationInviteAcceptFormData = z.infer<typeof organizationInviteAcceptSchema>;
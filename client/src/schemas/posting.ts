@@ -1,6 +1,6 @@
 import { z } from 'zod';
 
-import { newPostingSchema } from '../../../server/src/db/tables';
+import { guardianConsentDecisionSchema, newPostingSchema } from '../../../server/src/db/tables';
 
 function getTodayDateString() {
   const now = new Date();
@@ -28,6 +28,11 @@ export const postingFormSchema = newPostingSchema
     end_time: true,
     is_closed: true,
     allows_partial_attendance: true,
+    recurrence_weekdays: true,
+    recurrence_interval: true,
+    occurrence_overrides: true,
+    roles: true,
+    questions: true,
   })
   .extend({
     latitude: z.number().optional(),
@@ -40,6 +45,7 @@ export const postingFormSchema = newPostingSchema
     minimum_age: z.string().optional(),
     automatic_acceptance: z.boolean(),
     allows_partial_attendance: z.boolean().optional(),
+    requires_guardian_consent: z.boolean(),
   })
   .superRefine((data, ctx) => {
     notPastDate(data.start_date, ctx, 'start_date', 'Start date');
@@ -57,6 +63,11 @@ export const postingEditFormSchema = newPostingSchema
     start_time: true,
     end_date: true,
     end_time: true,
+    recurrence_weekdays: true,
+    recurrence_interval: true,
+    occurrence_overrides: true,
+    roles: true,
+    questions: true,
   })
   .extend({
     latitude: z.number().optional(),
@@ -69,6 +80,7 @@ export const postingEditFormSchema = newPostingSchema
     minimum_age: z.string().optional(),
     automatic_acceptance: z.boolean(),
     allows_partial_attendance: z.boolean().optional(),
+    requires_guardian_consent: z.boolean(),
     is_closed: z.boolean(),
   })
   .superRefine((data, ctx) => {
@@ -77,3 +89,7 @@ export const postingEditFormSchema = newPostingSchema
   });
 
 export type PostingEditFormData = z.infer<typeof postingEditFormSchema>;
+
+export const guardianConsentFormSchema = guardianConsentDecisionSchema.pick({ guardian_name: true });
+
+export type GuardianConsentFormData = z.infer<typeof guardianConsentFormSchema>;
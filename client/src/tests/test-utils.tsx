@@ -19,6 +19,7 @@ export function buildAuthContext(overrides: Partial<AuthContextType> = {}): Auth
     createVolunteer: vi.fn(async () => ({ requires_email_verification: true } as VolunteerCreateResponse)),
     verifyVolunteerEmail: vi.fn(async () => ({ volunteer: {} as VolunteerAccountWithoutPassword, token: '' } as VolunteerVerifyEmailResponse)),
     resendVolunteerVerification: vi.fn(async () => {}),
+    acceptOrganizationInvite: vi.fn(async () => {}),
     changePassword: vi.fn(async () => {}),
     deleteAccount: vi.fn(async () => {}),
     logout: vi.fn(),
@@ -0,0 +1,45 @@
+import { SERVER_BASE_URL } from './requestServer';
+
+export const downloadPostingCalendar = async (role: 'organization' | 'volunteer', postingId: number | string) => {
+  const token = localStorage.getItem('jwt');
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${SERVER_BASE_URL}/${role}/posting/${postingId}/calendar.ics`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    let messageText = `Failed to download calendar (status ${response.status})`;
+    try {
+      const errorBody = await response.json();
+      messageText = errorBody.message ?? messageText;
+    } catch {
+      // Ignore non-JSON response body
+    }
+    throw new Error(messageText);
+  }
+
+  const blob = await response.blob();
+  const contentDisposition = response.headers.get('Content-Disposition');
+  const filename = contentDisposition?.match(/filename="([^"]+)"/)?.[1] ?? `willing-posting-${postingId}.ics`;
+
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
+
+export const getCalendarFeedUrls = (feedPath: string) => {
+  const httpUrl = `${SERVER_BASE_URL}${feedPath}`;
+  return {
+    httpUrl,
+    webcalUrl: httpUrl.replace(/^https?:\/\//, 'webcal://'),
+  };
+};
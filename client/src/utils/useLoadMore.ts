@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import useNotifications from '../notifications/useNotifications';
+
+type CursorPage = {
+  next_cursor: string | null;
+};
+
+type LoadedPages<Page> = {
+  firstPage: Page | null;
+  morePages: Page[];
+};
+
+/**
+ * Follows `next_cursor` from a first page loaded elsewhere (usually by `useAsync`).
+ * Pages loaded so far are dropped whenever a new first page arrives, e.g. after filters change.
+ */
+export default function useLoadMore<Page extends CursorPage>(
+  firstPage: Page | null,
+  loadPage: (cursor: string) => Promise<Page>,
+) {
+  const notifications = useNotifications();
+  const [loaded, setLoaded] = useState<LoadedPages<Page>>({ firstPage: null, morePages: [] });
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const firstPageRef = useRef(firstPage);
+  useEffect(() => {
+    firstPageRef.current = firstPage;
+  }, [firstPage]);
+
+  const morePages = loaded.firstPage === firstPage ? loaded.morePages : [];
+  const pages = firstPage ? [firstPage, ...morePages] : [];
+  const nextCursor = pages.at(-1)?.next_cursor ?? null;
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const requestedFor = firstPage;
+    setLoadingMore(true);
+
+    try {
+      const page = await loadPage(nextCursor);
+      if (firstPageRef.current !== requestedFor) return;
+
+      setLoaded(prev => ({
+        firstPage: requestedFor,
+        morePages: prev.firstPage === requestedFor ? [...prev.morePages, page] : [page],
+      }));
+    } catch (error) {
+      notifications.push({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Failed to load more results.',
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [firstPage, loadPage, loadingMore, nextCursor, notifications]);
+
+  return {
+    pages,
+    hasMore: nextCursor !== null,
+    loadingMore,
+    loadMore,
+  };
+}
@@ -8,6 +8,9 @@ import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 import createApp from '../../../app.ts';
 import database from '../../../db/index.ts';
 import * as embeddingService from '../../../services/embeddings/updates.ts';
+import { claimDueJobs, completeJob, enqueueJob, failJob } from '../../../services/jobs/queue.ts';
+import { runDueJobs } from '../../../services/jobs/worker.ts';
+import * as remindersService from '../../../services/reminders/index.ts';
 import * as emailService from '../../../services/resend/emails.ts';
 import { PLATFORM_SIGNATURE_UPLOAD_DIR } from '../../../services/uploads/paths.ts';
 import { getAbsolutePlatformSignaturePath } from '../../../services/uploads/platformSignature.ts';
@@ -547,3 +550,302 @@ describe('Admin certificate settings routes', () => {
     }
   });
 });
+
+describe('Admin audit log routes', () => {
+  test('records crisis edits with before and after snapshots', async () => {
+    const crisis = await transaction
+      .insertInto('crisis')
+      .values({ name: 'Audited Crisis', description: 'Before', pinned: false })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await server
+      .put(`/admin/crises/${crisis.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'Audited Crisis', description: 'After' })
+      .expect(200);
+
+    const response = await server
+      .get('/admin/audit-log')
+      .query({ entity_type: 'crisis', entity_id: crisis.id })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.total).toBe(1);
+    expect(response.body.entries[0]).toMatchObject({
+      actor_role: 'admin',
+      actor_id: adminId,
+      action: 'crisis.update',
+      entity_id: crisis.id,
+      before: { description: 'Before' },
+      after: { description: 'After' },
+    });
+  });
+
+  test('records organization request reviews and disabled accounts', async () => {
+    const organizationRequest = await transaction
+      .insertInto('organization_request')
+      .values({
+        name: 'Audited Request',
+        email: 'audited-request@example.com',
+        phone_number: '+96170123456',
+        url: 'https://audited.example.com',
+        latitude: 33.9,
+        longitude: 35.5,
+        location_name: 'Beirut',
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await server
+      .post('/admin/reviewOrganizationRequest')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ requestId: organizationRequest.id, accepted: false, reason: 'Incomplete details' })
+      .expect(200);
+
+    const { organization } = await createOrganizationAccount(transaction, { email: 'audited-org@example.com' });
+
+    await server
+      .post(`/admin/reports/organization/${organization.id}/disable`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const response = await server
+      .get('/admin/audit-log')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.entries.map((entry: { action: string }) => entry.action)).toEqual([
+      'organization.disable',
+      'organization_request.reject',
+    ]);
+    expect(response.body.entries[0]).toMatchObject({
+      entity_type: 'organization_account',
+      entity_id: organization.id,
+      before: { is_disabled: false },
+      after: { is_disabled: true },
+    });
+    expect(response.body.entries[1].after).toEqual({ reason: 'Incomplete details' });
+  });
+
+  test('filters and paginates entries', async () => {
+    for (const name of ['First', 'Second', 'Third']) {
+      await server
+        .post('/admin/crises')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name, description: null })
+        .expect(201);
+    }
+
+    const response = await server
+      .get('/admin/audit-log')
+      .query({ action: 'crisis.create', limit: 2, page: 2 })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body).toMatchObject({ total: 3, page: 2, limit: 2 });
+    expect(response.body.entries).toHaveLength(1);
+    expect(response.body.entries[0].after).toMatchObject({ name: 'First' });
+
+    await server
+      .get('/admin/audit-log')
+      .query({ action: 'crisis.rename' })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+  });
+
+  test('rejects changes to existing entries', async () => {
+    await server
+      .post('/admin/crises')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'Immutable', description: null })
+      .expect(201);
+
+    await expect(
+      transaction.deleteFrom('audit_log').execute(),
+    ).rejects.toThrow('audit_log is append-only');
+  });
+});
+
+describe('Admin job queue routes', () => {
+  test('lists dead jobs and retries them', async () => {
+    const job = await transaction
+      .insertInto('job')
+      .values({
+        type: 'embeddings.recompute_posting',
+        payload: JSON.stringify({ postingId: 1 }),
+        status: 'dead',
+        attempts: 5,
+        last_error: 'Embedding service unavailable',
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    const listResponse = await server
+      .get('/admin/jobs')
+      .query({ status: 'dead' })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(listResponse.body.counts.dead).toBe(1);
+    expect(listResponse.body.jobs).toHaveLength(1);
+    expect(listResponse.body.jobs[0]).toMatchObject({ id: job.id, last_error: 'Embedding service unavailable' });
+    expect(listResponse.body.next_cursor).toBeNull();
+
+    const retryResponse = await server
+      .post(`/admin/jobs/${job.id}/retry`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(retryResponse.body.job).toMatchObject({ id: job.id, status: 'pending', attempts: 0 });
+
+    const auditEntry = await transaction
+      .selectFrom('audit_log')
+      .select(['actor_id', 'action', 'entity_type', 'entity_id'])
+      .where('action', '=', 'job.retry')
+      .executeTakeFirstOrThrow();
+
+    expect(auditEntry).toEqual({ actor_id: adminId, action: 'job.retry', entity_type: 'job', entity_id: job.id });
+
+    await server
+      .post(`/admin/jobs/${job.id}/retry`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+  });
+
+  test('refuses to retry a dead job while a pending job has the same dedupe key', async () => {
+    const dead = await transaction
+      .insertInto('job')
+      .values({
+        type: 'reminders.send_due',
+        payload: JSON.stringify({}),
+        status: 'dead',
+        attempts: 5,
+        dedupe_key: 'reminders:send_due',
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await enqueueJob(transaction, 'reminders.send_due', {}, { dedupeKey: 'reminders:send_due' });
+
+    await server
+      .post(`/admin/jobs/${dead.id}/retry`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+
+    const unchanged = await transaction
+      .selectFrom('job')
+      .select('status')
+      .where('id', '=', dead.id)
+      .executeTakeFirstOrThrow();
+
+    expect(unchanged.status).toBe('dead');
+  });
+
+  test('runs due jobs and moves failing ones to dead after their last attempt', async () => {
+    await enqueueJob(transaction, 'embeddings.recompute_posting', { postingId: 999999 }, { maxAttempts: 2 });
+
+    expect(await runDueJobs(transaction, 'test-worker')).toBe(1);
+
+    const retried = await transaction
+      .selectFrom('job')
+      .selectAll()
+      .executeTakeFirstOrThrow();
+
+    expect(retried).toMatchObject({ status: 'pending', attempts: 1, locked_by: null });
+    expect(retried.scheduled_at.getTime()).toBeGreaterThan(Date.now());
+
+    await transaction
+      .updateTable('job')
+      .set({ scheduled_at: new Date(Date.now() - 1000) })
+      .where('id', '=', retried.id)
+      .execute();
+
+    expect(await runDueJobs(transaction, 'test-worker')).toBe(1);
+
+    const dead = await transaction
+      .selectFrom('job')
+      .selectAll()
+      .where('id', '=', retried.id)
+      .executeTakeFirstOrThrow();
+
+    expect(dead).toMatchObject({ status: 'dead', attempts: 2 });
+    expect(dead.last_error).toBeTruthy();
+  });
+
+  test('leaves a job alone once another worker has taken over its lock', async () => {
+    const job = await enqueueJob(transaction, 'embeddings.recompute_posting', { postingId: 999999 });
+    const [claimed] = await claimDueJobs(transaction, 'slow-worker', 1);
+
+    await transaction
+      .updateTable('job')
+      .set({ locked_by: 'other-worker' })
+      .where('id', '=', job!.id)
+      .execute();
+
+    expect(await completeJob(transaction, claimed!)).toBe(false);
+    expect(await failJob(transaction, claimed!, new Error('Too late'))).toBe(false);
+
+    const unchanged = await transaction
+      .selectFrom('job')
+      .selectAll()
+      .where('id', '=', job!.id)
+      .executeTakeFirstOrThrow();
+
+    expect(unchanged).toMatchObject({ status: 'running', locked_by: 'other-worker', last_error: null });
+  });
+
+  test('keeps one pending run of the ended application cleanup queued', async () => {
+    await enqueueJob(transaction, 'posting.reject_ended_pending_applications', {}, {
+      dedupeKey: 'posting:reject_ended_pending_applications',
+    });
+    const duplicate = await enqueueJob(transaction, 'posting.reject_ended_pending_applications', {}, {
+      dedupeKey: 'posting:reject_ended_pending_applications',
+    });
+
+    expect(duplicate).toBeUndefined();
+    expect(await runDueJobs(transaction, 'test-worker')).toBe(1);
+
+    const jobs = await transaction
+      .selectFrom('job')
+      .select(['status', 'scheduled_at'])
+      .orderBy('id', 'asc')
+      .execute();
+
+    expect(jobs.map(job => job.status)).toEqual(['completed', 'pending']);
+    expect(jobs[1]!.scheduled_at.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  test('retries a failing recurring job without clashing with its queued next run', async () => {
+    const sendDueShiftRemindersSpy = vi.spyOn(remindersService, 'sendDueShiftReminders')
+      .mockRejectedValueOnce(new Error('Reminder service down'));
+
+    const failing = await enqueueJob(transaction, 'reminders.send_due', {}, { dedupeKey: 'reminders:send_due' });
+    const other = await enqueueJob(transaction, 'posting.reject_ended_pending_applications', {}, {
+      dedupeKey: 'posting:reject_ended_pending_applications',
+    });
+
+    expect(await runDueJobs(transaction, 'test-worker')).toBe(2);
+    sendDueShiftRemindersSpy.mockRestore();
+
+    const jobs = await transaction
+      .selectFrom('job')
+      .select(['id', 'type', 'status', 'dedupe_key', 'last_error'])
+      .where('type', '=', 'reminders.send_due')
+      .orderBy('id', 'asc')
+      .execute();
+
+    expect(jobs).toEqual([
+      { id: failing!.id, type: 'reminders.send_due', status: 'pending', dedupe_key: null, last_error: 'Reminder service down' },
+      expect.objectContaining({ status: 'pending', dedupe_key: 'reminders:send_due', last_error: null }),
+    ]);
+
+    const otherJob = await transaction
+      .selectFrom('job')
+      .select('status')
+      .where('id', '=', other!.id)
+      .executeTakeFirstOrThrow();
+
+    expect(otherJob.status).toBe('completed');
+  });
+});
@@ -0,0 +1,87 @@
+import { Router, type Response } from 'express';
+import { type Kysely } from 'kysely';
+import zod from 'zod';
+
+import { type AdminAuditLogResponse } from './auditLog.types.ts';
+import {
+  auditActionSchema,
+  auditActorRoleSchema,
+  auditEntityTypeSchema,
+  type Database,
+} from '../../../db/tables/index.ts';
+
+const DEFAULT_AUDIT_LOG_LIMIT = 25;
+const MAX_AUDIT_LOG_LIMIT = 100;
+
+const auditLogQuerySchema = zod.object({
+  action: auditActionSchema.optional(),
+  entity_type: auditEntityTypeSchema.optional(),
+  entity_id: zod.coerce.number().int().positive('Entity ID must be a positive number').optional(),
+  actor_role: auditActorRoleSchema.optional(),
+  actor_id: zod.coerce.number().int().positive('Actor ID must be a positive number').optional(),
+  from: zod.coerce.date('From must be a valid date').optional(),
+  to: zod.coerce.date('To must be a valid date').optional(),
+  page: zod.coerce.number().int().positive('Page must be a positive number').default(1),
+  limit: zod.coerce.number().int().positive('Limit must be a positive number').max(MAX_AUDIT_LOG_LIMIT).default(DEFAULT_AUDIT_LOG_LIMIT),
+});
+
+function createAdminAuditLogRouter(db: Kysely<Database>) {
+  const auditLogRouter = Router();
+
+  auditLogRouter.get('/', async (req, res: Response<AdminAuditLogResponse>) => {
+    const query = auditLogQuerySchema.parse(req.query);
+
+    let auditLogQuery = db.selectFrom('audit_log');
+
+    if (query.action) {
+      auditLogQuery = auditLogQuery.where('action', '=', query.action);
+    }
+
+    if (query.entity_type) {
+      auditLogQuery = auditLogQuery.where('entity_type', '=', query.entity_type);
+    }
+
+    if (query.entity_id !== undefined) {
+      auditLogQuery = auditLogQuery.where('entity_id', '=', query.entity_id);
+    }
+
+    if (query.actor_role) {
+      auditLogQuery = auditLogQuery.where('actor_role', '=', query.actor_role);
+    }
+
+    if (query.actor_id !== undefined) {
+      auditLogQuery = auditLogQuery.where('actor_id', '=', query.actor_id);
+    }
+
+    if (query.from) {
+      auditLogQuery = auditLogQuery.where('created_at', '>=', query.from);
+    }
+
+    if (query.to) {
+      auditLogQuery = auditLogQuery.where('created_at', '<=', query.to);
+    }
+
+    const { total } = await auditLogQuery
+      .select(eb => eb.fn.countAll<string>().as('total'))
+      .executeTakeFirstOrThrow();
+
+    const entries = await auditLogQuery
+      .selectAll()
+      .orderBy('created_at', 'desc')
+      .orderBy('id', 'desc')
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit)
+      .execute();
+
+    res.json({
+      entries,
+      total: Number(total),
+      page: query.page,
+      limit: query.limit,
+    });
+  });
+
+  return auditLogRouter;
+}
+
+export default createAdminAuditLogRouter;
@@ -0,0 +1,8 @@
+import { type AuditLog } from '../../../db/tables/index.ts';
+
+export type AdminAuditLogResponse = {
+  entries: AuditLog[];
+  total: number;
+  page: number;
+  limit: number;
+};
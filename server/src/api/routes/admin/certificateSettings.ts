@@ -10,7 +10,9 @@ import {
   type AdminCertificateSettingsUpdateResponse,
   type AdminCertificateSettingsUploadSignatureResponse,
 } from './certificateSettings.types.ts';
+import executeTransaction from '../../../db/executeTransaction.ts';
 import { type Database, newPlatformCertificateSettingsSchema } from '../../../db/tables/index.ts';
+import { recordAuditLog } from '../../../services/audit/index.ts';
 import { getAbsolutePlatformSignaturePath, platformSignatureMulter } from '../../../services/uploads/platformSignature.ts';
 import uploadSingle from '../../../services/uploads/uploadSingle.ts';
 
@@ -33,30 +35,44 @@ function createAdminCertificateSettingsRouter(db: Kysely<Database>) {
       .partial()
       .parse(req.body);
 
-    let settings = await db
-      .selectFrom('platform_certificate_settings')
-      .selectAll()
-      .orderBy('id', 'desc')
-      .executeTakeFirst();
+    const settings = await executeTransaction(db, async (trx) => {
+      const previous = await trx
+        .selectFrom('platform_certificate_settings')
+        .selectAll()
+        .orderBy('id', 'desc')
+        .executeTakeFirst();
 
-    if (settings) {
-      settings = await db
-        .updateTable('platform_certificate_settings')
-        .set(body)
-        .where('id', '=', settings.id)
-        .returningAll()
-        .executeTakeFirstOrThrow();
-    } else {
-      settings = await db
-        .insertInto('platform_certificate_settings')
-        .values({
-          signatory_name: body.signatory_name ?? null,
-          signatory_position: body.signatory_position ?? null,
-          signature_path: null,
-        })
-        .returningAll()
-        .executeTakeFirstOrThrow();
-    }
+      let updated;
+      if (previous) {
+        updated = await trx
+          .updateTable('platform_certificate_settings')
+          .set(body)
+          .where('id', '=', previous.id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+      } else {
+        updated = await trx
+          .insertInto('platform_certificate_settings')
+          .values({
+            signatory_name: body.signatory_name ?? null,
+            signatory_position: body.signatory_position ?? null,
+            signature_path: null,
+          })
+          .returningAll()
+          .executeTakeFirstOrThrow();
+      }
+
+      await recordAuditLog(trx, {
+        actor: { role: 'admin', id: req.userJWT!.id },
+        action: 'certificate_settings.update',
+        entity_type: 'platform_certificate_settings',
+        entity_id: updated.id,
+        before: previous ?? null,
+        after: updated,
+      });
+
+      return updated;
+    });
 
     res.json({ settings });
   });
@@ -100,6 +116,8 @@ function createAdminCertificateSettingsRouter(db: Kysely<Database>) {
         await fs.promises.unlink(getAbsolutePlatformSignaturePath(settings.signature_path)).catch(() => {});
       }
 
+      const previous = settings ?? null;
+
       if (settings) {
         settings = await db
           .updateTable('platform_certificate_settings')
@@ -123,11 +141,20 @@ function createAdminCertificateSettingsRouter(db: Kysely<Database>) {
           .executeTakeFirstOrThrow();
       }
 
+      await recordAuditLog(db, {
+        actor: { role: 'admin', id: adminId },
+        action: 'certificate_settings.upload_signature',
+        entity_type: 'platform_certificate_settings',
+        entity_id: settings.id,
+        before: previous,
+        after: settings,
+      });
+
       res.json({ settings });
     },
   );
 
-  certificateSettingsRouter.delete('/signature', async (_req, res: Response<AdminCertificateSettingsDeleteSignatureResponse>) => {
+  certificateSettingsRouter.delete('/signature', async (req, res: Response<AdminCertificateSettingsDeleteSignatureResponse>) => {
     const settings = await db
       .selectFrom('platform_certificate_settings')
       .selectAll()
@@ -143,14 +170,24 @@ function createAdminCertificateSettingsRouter(db: Kysely<Database>) {
       await fs.promises.unlink(getAbsolutePlatformSignaturePath(settings.signature_path)).catch(() => {});
     }
 
-    await db
+    const updated = await db
       .updateTable('platform_certificate_settings')
       .set({
         signature_path: null,
         signature_uploaded_by_admin_id: null,
       })
       .where('id', '=', settings.id)
-      .execute();
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await recordAuditLog(db, {
+      actor: { role: 'admin', id: req.userJWT!.id },
+      action: 'certificate_settings.delete_signature',
+      entity_type: 'platform_certificate_settings',
+      entity_id: settings.id,
+      before: settings,
+      after: updated,
+    });
 
     res.json({});
   });
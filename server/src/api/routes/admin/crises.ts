@@ -9,8 +9,17 @@ import {
   type AdminCrisisUpdateResponse,
   type AdminCrisesResponse,
 } from './crises.types.ts';
+import executeTransaction from '../../../db/executeTransaction.ts';
 import { type Database, newCrisisSchema } from '../../../db/tables/index.ts';
-import { parseListQuery, parseOptionalBooleanQueryParam } from '../utils/listQuery.ts';
+import { recordAuditLog } from '../../../services/audit/index.ts';
+import {
+  applyListPage,
+  parseListPage,
+  parseListQuery,
+  parseOptionalBooleanQueryParam,
+  toListPageResult,
+  type ListSortKey,
+} from '../utils/listQuery.ts';
 
 const crisisParamsSchema = zod.object({
   id: zod.coerce.number().int().positive('ID must be a positive number'),
@@ -28,6 +37,7 @@ function createAdminCrisesRouter(db: Kysely<Database>) {
       allowedSortBy: ['pinned', 'created_at', 'name'],
       defaultSortBy: 'pinned',
     });
+    const listPage = parseListPage(req.query);
     const pinnedFilter = parseOptionalBooleanQueryParam(req.query.pinned);
 
     let crisesQuery = db
@@ -46,37 +56,57 @@ function createAdminCrisesRouter(db: Kysely<Database>) {
       crisesQuery = crisesQuery.where('crisis.pinned', '=', pinnedFilter);
     }
 
+    let sortKeys: ListSortKey[];
     switch (sortBy) {
       case 'name':
-        crisesQuery = crisesQuery.orderBy('crisis.name', sortDir);
+        sortKeys = [
+          { expression: 'crisis.name', direction: sortDir },
+          { expression: 'crisis.id', direction: sortDir },
+        ];
         break;
       case 'created_at':
-        crisesQuery = crisesQuery
-          .orderBy('crisis.created_at', sortDir)
-          .orderBy('crisis.id', sortDir);
+        sortKeys = [
+          { expression: 'crisis.created_at', direction: sortDir },
+          { expression: 'crisis.id', direction: sortDir },
+        ];
         break;
       case 'pinned':
       default:
-        crisesQuery = crisesQuery
-          .orderBy('crisis.pinned', sortDir)
-          .orderBy('crisis.created_at', 'desc')
-          .orderBy('crisis.id', 'desc');
+        sortKeys = [
+          { expression: 'crisis.pinned', direction: sortDir },
+          { expression: 'crisis.created_at', direction: 'desc' },
+          { expression: 'crisis.id', direction: 'desc' },
+        ];
         break;
     }
 
-    const crises = await crisesQuery.execute();
+    const { items: crises, next_cursor } = toListPageResult(await applyListPage(crisesQuery, listPage, sortKeys).execute(), listPage);
 
-    res.json({ crises });
+    res.json({ crises, next_cursor });
   });
 
   adminCrisesRouter.post('/', async (req, res: Response<AdminCrisisCreateResponse>) => {
     const body = newCrisisSchema.parse(req.body);
 
-    const crisis = await db
-      .insertInto('crisis')
-      .values({ ...body, pinned: false })
-      .returningAll()
-      .executeTakeFirst();
+    const crisis = await executeTransaction(db, async (trx) => {
+      const inserted = await trx
+        .insertInto('crisis')
+        .values({ ...body, pinned: false })
+        .returningAll()
+        .executeTakeFirst();
+
+      if (inserted) {
+        await recordAuditLog(trx, {
+          actor: { role: 'admin', id: req.userJWT!.id },
+          action: 'crisis.create',
+          entity_type: 'crisis',
+          entity_id: inserted.id,
+          after: inserted,
+        });
+      }
+
+      return inserted;
+    });
 
     if (!crisis) {
       res.status(500);
@@ -90,12 +120,34 @@ function createAdminCrisesRouter(db: Kysely<Database>) {
     const { id } = crisisParamsSchema.parse(req.params);
     const body = newCrisisSchema.parse(req.body);
 
-    const crisis = await db
-      .updateTable('crisis')
-      .set(body)
-      .where('id', '=', id)
-      .returningAll()
-      .executeTakeFirst();
+    const crisis = await executeTransaction(db, async (trx) => {
+      const previous = await trx
+        .selectFrom('crisis')
+        .selectAll()
+        .where('id', '=', id)
+        .forUpdate()
+        .executeTakeFirst();
+
+      if (!previous) return undefined;
+
+      const updated = await trx
+        .updateTable('crisis')
+        .set(body)
+        .where('id', '=', id)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      await recordAuditLog(trx, {
+        actor: { role: 'admin', id: req.userJWT!.id },
+        action: 'crisis.update',
+        entity_type: 'crisis',
+        entity_id: id,
+        before: previous,
+        after: updated,
+      });
+
+      return updated;
+    });
 
     if (!crisis) {
       res.status(404);
@@ -109,12 +161,34 @@ function createAdminCrisesRouter(db: Kysely<Database>) {
     const { id } = crisisParamsSchema.parse(req.params);
     const { pinned } = crisisPinBodySchema.parse(req.body);
 
-    const crisis = await db
-      .updateTable('crisis')
-      .set({ pinned })
-      .where('id', '=', id)
-      .returningAll()
-      .executeTakeFirst();
+    const crisis = await executeTransaction(db, async (trx) => {
+      const previous = await trx
+        .selectFrom('crisis')
+        .selectAll()
+        .where('id', '=', id)
+        .forUpdate()
+        .executeTakeFirst();
+
+      if (!previous) return undefined;
+
+      const updated = await trx
+        .updateTable('crisis')
+        .set({ pinned })
+        .where('id', '=', id)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      await recordAuditLog(trx, {
+        actor: { role: 'admin', id: req.userJWT!.id },
+        action: 'crisis.pin',
+        entity_type: 'crisis',
+        entity_id: id,
+        before: previous,
+        after: updated,
+      });
+
+      return updated;
+    });
 
     if (!crisis) {
       res.status(404);
@@ -127,11 +201,25 @@ function createAdminCrisesRouter(db: Kysely<Database>) {
   adminCrisesRouter.delete('/:id', async (req, res: Response<AdminCrisisDeleteResponse>) => {
     const { id } = crisisParamsSchema.parse(req.params);
 
-    const deleted = await db
-      .deleteFrom('crisis')
-      .where('id', '=', id)
-      .returning('id')
-      .executeTakeFirst();
+    const deleted = await executeTransaction(db, async (trx) => {
+      const crisis = await trx
+        .deleteFrom('crisis')
+        .where('id', '=', id)
+        .returningAll()
+        .executeTakeFirst();
+
+      if (crisis) {
+        await recordAuditLog(trx, {
+          actor: { role: 'admin', id: req.userJWT!.id },
+          action: 'crisis.delete',
+          entity_type: 'crisis',
+          entity_id: id,
+          before: crisis,
+        });
+      }
+
+      return crisis;
+    });
 
     if (!deleted) {
       res.status(404);
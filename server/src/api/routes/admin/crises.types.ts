@@ -3,6 +3,7 @@ import { type SuccessResponse } from '../../../types.ts';
 
 export type AdminCrisesResponse = {
   crises: Crisis[];
+  next_cursor: string | null;
 };
 
 export type AdminCrisisCreateResponse = {
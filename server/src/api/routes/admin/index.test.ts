@@ -4,6 +4,8 @@ import { afterEach, beforeEach, describe, expect, test } from 'vitest';
 
 import createApp from '../../../app.ts';
 import database from '../../../db/index.ts';
+import { recordIssuedCertificate } from '../../../services/certificates/ledger.ts';
+import { CERTIFICATE_PAYLOAD_VERSION, CERTIFICATE_TYPE } from '../../../services/certificates/token.ts';
 import { createAdminAccount, createOrganizationAccount, createVolunteerAccount } from '../../../tests/fixtures/accounts.ts';
 import { authHeader } from '../../../tests/helpers/authHeader.ts';
 
@@ -235,6 +237,82 @@ describe('GET /admin/reports', () => {
       .expect(400);
   });
 
+  test('pages through both report lists with a cursor', async () => {
+    const { token: adminToken } = await createAdminAccount(transaction);
+    const { organization } = await createOrganizationAccount(transaction, { email: 'paged-org@example.com' });
+    const { volunteer } = await createVolunteerAccount(transaction, { email: 'paged-vol@example.com' });
+
+    await transaction
+      .insertInto('organization_report')
+      .values([
+        { reported_organization_id: organization.id, reporter_volunteer_id: volunteer.id, title: 'scam', message: 'First' },
+        { reported_organization_id: organization.id, reporter_volunteer_id: volunteer.id, title: 'scam', message: 'Second' },
+      ])
+      .execute();
+
+    await transaction
+      .insertInto('volunteer_report')
+      .values([
+        { reported_volunteer_id: volunteer.id, reporter_organization_id: organization.id, title: 'other', message: 'Third' },
+        { reported_volunteer_id: volunteer.id, reporter_organization_id: organization.id, title: 'other', message: 'Fourth' },
+      ])
+      .execute();
+
+    const firstPage = await server
+      .get('/admin/reports?limit=3')
+      .set(authHeader(adminToken))
+      .expect(200);
+
+    expect(firstPage.body.organizationReports.length + firstPage.body.volunteerReports.length).toBe(3);
+    expect(firstPage.body.next_cursor).toEqual(expect.any(String));
+
+    const secondPage = await server
+      .get('/admin/reports')
+      .query({ limit: 3, cursor: firstPage.body.next_cursor })
+      .set(authHeader(adminToken))
+      .expect(200);
+
+    expect(secondPage.body.organizationReports.length + secondPage.body.volunteerReports.length).toBe(1);
+    expect(secondPage.body.next_cursor).toBeNull();
+
+    const messages = [firstPage.body, secondPage.body].flatMap(page => [
+      ...page.organizationReports,
+      ...page.volunteerReports,
+    ].map((report: { message: string }) => report.message));
+
+    expect(messages.sort()).toEqual(['First', 'Fourth', 'Second', 'Third']);
+  });
+
+  test('returns 400 when the cursor belongs to a different search', async () => {
+    const { token: adminToken } = await createAdminAccount(transaction);
+    const { organization } = await createOrganizationAccount(transaction, { email: 'paged-org@example.com' });
+    const { volunteer } = await createVolunteerAccount(transaction, { email: 'paged-vol@example.com' });
+
+    await transaction
+      .insertInto('organization_report')
+      .values([
+        { reported_organization_id: organization.id, reporter_volunteer_id: volunteer.id, title: 'scam', message: 'First' },
+        { reported_organization_id: organization.id, reporter_volunteer_id: volunteer.id, title: 'scam', message: 'Second' },
+      ])
+      .execute();
+
+    const firstPage = await server
+      .get('/admin/reports?limit=1')
+      .set(authHeader(adminToken))
+      .expect(200);
+
+    await server
+      .get('/admin/reports')
+      .query({ limit: 1, cursor: firstPage.body.next_cursor, scope: 'volunteer' })
+      .set(authHeader(adminToken))
+      .expect(400);
+
+    await server
+      .get('/admin/reports?cursor=not-a-cursor')
+      .set(authHeader(adminToken))
+      .expect(400);
+  });
+
   test('filters reports by search query for organization reports', async () => {
     const { token: adminToken } = await createAdminAccount(transaction);
     const { organization: matchingOrganization } = await createOrganizationAccount(transaction, {
@@ -986,3 +1064,48 @@ describe('POST /admin/reports/volunteer/:reportId/accept', () => {
     expect(remainingOrganizationReports).toHaveLength(0);
   });
 });
+
+describe('POST /admin/issued-certificates/:id/revoke', () => {
+  test('lets an admin revoke any certificate', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-ledger-admin@example.com' });
+    const { volunteer } = await createVolunteerAccount(transaction, { email: 'vol-ledger-admin@example.com' });
+    const admin = await createAdminAccount(transaction);
+    const certificate = await recordIssuedCertificate(transaction, 'admin-revoke-test-token', {
+      v: CERTIFICATE_PAYLOAD_VERSION,
+      uid: String(volunteer.id),
+      issued_at: new Date('2026-03-01T10:00:00.000Z').toISOString(),
+      org_ids: [String(org.organization.id)],
+      total_hours: 5,
+      hours_per_org: { [String(org.organization.id)]: 5 },
+      type: CERTIFICATE_TYPE,
+    });
+
+    await server
+      .post(`/admin/issued-certificates/${certificate.id}/revoke`)
+      .set(authHeader(admin.token))
+      .send({ reason: '' })
+      .expect(400);
+
+    const response = await server
+      .post(`/admin/issued-certificates/${certificate.id}/revoke`)
+      .set(authHeader(admin.token))
+      .send({ reason: 'Fraudulent attendance' })
+      .expect(200);
+
+    expect(response.body.certificate).toMatchObject({
+      id: certificate.id,
+      revocation_reason: 'Fraudulent attendance',
+      revoked_by_role: 'admin',
+    });
+  });
+
+  test('returns 404 for an unknown certificate', async () => {
+    const { token } = await createAdminAccount(transaction);
+
+    await server
+      .post('/admin/issued-certificates/999999/revoke')
+      .set(authHeader(token))
+      .send({ reason: 'Fraudulent attendance' })
+      .expect(404);
+  });
+});
@@ -2,6 +2,7 @@ import { Router, type Response } from 'express';
 import { sql, type Kysely } from 'kysely';
 import zod from 'zod';
 
+import createAdminAuditLogRouter from './auditLog.ts';
 import createAdminCertificateSettingsRouter from './certificateSettings.ts';
 import createAdminCrisesRouter from './crises.ts';
 import {
@@ -19,17 +20,33 @@ import {
   type AdminOrganizationRequestsResponse,
   type AdminReportsResponse,
 } from './index.types.ts';
+import createAdminIssuedCertificatesRouter from './issuedCertificates.ts';
+import createAdminJobsRouter from './jobs.ts';
+import createAdminSkillsRouter from './skills.ts';
 import authorizeOnly from '../../../auth/authorizeOnly.ts';
 import removePassword from '../../../auth/removePassword.ts';
 import createResetPassword from '../../../auth/resetPassword.ts';
 import executeTransaction from '../../../db/executeTransaction.ts';
 import { type Database } from '../../../db/tables/index.ts';
+import { recordAuditLog } from '../../../services/audit/index.ts';
 import { compare, hash } from '../../../services/bcrypt/index.ts';
 import { recomputeOrganizationVector } from '../../../services/embeddings/updates.ts';
+import { getOrganizationRatingSummary, getVolunteerFeedback } from '../../../services/feedback/index.ts';
 import { generateJWT } from '../../../services/jwt/index.ts';
-import { sendOrganizationAcceptanceEmail, sendOrganizationRejectionEmail, sendPostingDeletedEmail } from '../../../services/resend/emails.ts';
+import {
+  createPostingDeletedDelivery,
+  deliverNotification,
+  deliverNotifications,
+  type PostingDeletedNotice,
+} from '../../../services/notifications/index.ts';
+import { sendOrganizationAcceptanceEmail, sendOrganizationRejectionEmail } from '../../../services/resend/emails.ts';
 import { loginInfoSchema } from '../../../types.ts';
-import { parseListQuery } from '../utils/listQuery.ts';
+import {
+  applyListPage,
+  parseListPage,
+  parseListQuery,
+  toListPageResult,
+} from '../utils/listQuery.ts';
 import { getSingleQueryValue } from '../utils/queryValue.ts';
 
 const organizationPrivateResponseColumns = [
@@ -46,6 +63,8 @@ const organizationPrivateResponseColumns = [
 const reportTypeValues = ['scam', 'impersonation', 'harassment', 'inappropriate_behavior', 'other'] as const;
 const reportScopeValues = ['all', 'organization', 'volunteer'] as const;
 
+type ReportKind = Exclude<typeof reportScopeValues[number], 'all'>;
+
 const parseOptionalDateQueryParam = (value: unknown, fieldName: 'startDate' | 'endDate') => {
   const rawValue = getSingleQueryValue(value)?.trim();
 
@@ -64,21 +83,14 @@ function createAdminRouter(db: Kysely<Database>) {
 
   const today = sql<Date>`CURRENT_DATE`;
 
-  interface PostingDeletedNotification {
-    volunteerEmail: string;
-    volunteerName: string;
-    postingTitle: string;
-    organizationName: string;
-  }
-
-  async function cleanupDisabledOrganization(trx: Kysely<Database>, organizationId: number): Promise<PostingDeletedNotification[]> {
+  async function cleanupDisabledOrganization(trx: Kysely<Database>, organizationId: number): Promise<PostingDeletedNotice[]> {
     const organization = await trx
       .selectFrom('organization_account')
       .select('name')
       .where('id', '=', organizationId)
       .executeTakeFirstOrThrow();
 
-    const notifications: PostingDeletedNotification[] = [];
+    const notifications: PostingDeletedNotice[] = [];
 
     // Delete postings that haven't started yet (with FK cleanup)
     const notStartedPostingIds = await trx
@@ -97,6 +109,7 @@ function createAdminRouter(db: Kysely<Database>) {
         .innerJoin('volunteer_account', 'volunteer_account.id', 'enrollment.volunteer_id')
         .innerJoin('posting', 'posting.id', 'enrollment.posting_id')
         .select([
+          'volunteer_account.id as volunteer_id',
           'volunteer_account.email as volunteer_email',
           'volunteer_account.first_name',
           'volunteer_account.last_name',
@@ -107,6 +120,7 @@ function createAdminRouter(db: Kysely<Database>) {
 
       for (const v of enrolledVolunteers) {
         notifications.push({
+          volunteerId: v.volunteer_id,
           volunteerEmail: v.volunteer_email,
           volunteerName: `${v.first_name} ${v.last_name}`,
           postingTitle: v.posting_title,
@@ -142,6 +156,7 @@ function createAdminRouter(db: Kysely<Database>) {
         .innerJoin('volunteer_account', 'volunteer_account.id', 'enrollment.volunteer_id')
         .innerJoin('posting', 'posting.id', 'enrollment.posting_id')
         .select([
+          'volunteer_account.id as volunteer_id',
           'volunteer_account.email as volunteer_email',
           'volunteer_account.first_name',
           'volunteer_account.last_name',
@@ -153,6 +168,7 @@ function createAdminRouter(db: Kysely<Database>) {
 
       for (const v of droppedVolunteers) {
         notifications.push({
+          volunteerId: v.volunteer_id,
           volunteerEmail: v.volunteer_email,
           volunteerName: `${v.first_name} ${v.last_name}`,
           postingTitle: v.posting_title,
@@ -255,6 +271,7 @@ function createAdminRouter(db: Kysely<Database>) {
       allowedSortBy: ['created_at', 'name', 'email'],
       defaultSortBy: 'created_at',
     });
+    const listPage = parseListPage(req.query);
 
     let organizationRequestsQuery = db
       .selectFrom('organization_request')
@@ -269,20 +286,17 @@ function createAdminRouter(db: Kysely<Database>) {
       ]));
     }
 
-    switch (sortBy) {
-      case 'name':
-      case 'email':
-        organizationRequestsQuery = organizationRequestsQuery.orderBy('organization_request.name', sortDir);
-        break;
-      case 'created_at':
-      default:
-        organizationRequestsQuery = organizationRequestsQuery.orderBy('organization_request.created_at', sortDir);
-        break;
-    }
+    const sortColumn = sortBy === 'name' || sortBy === 'email' ? 'organization_request.name' : 'organization_request.created_at';
 
-    const organizationRequests = await organizationRequestsQuery.execute();
+    const { items: organizationRequests, next_cursor } = toListPageResult(
+      await applyListPage(organizationRequestsQuery, listPage, [
+        { expression: sortColumn, direction: sortDir },
+        { expression: 'organization_request.id', direction: sortDir },
+      ]).execute(),
+      listPage,
+    );
 
-    res.json({ organizationRequests });
+    res.json({ organizationRequests, next_cursor });
   });
 
   adminRouter.get('/reports', async (req, res: Response<AdminReportsResponse>) => {
@@ -290,6 +304,7 @@ function createAdminRouter(db: Kysely<Database>) {
       allowedSortBy: ['created_at', 'title'],
       defaultSortBy: 'created_at',
     });
+    const listPage = parseListPage(req.query);
 
     const scopeInput = getSingleQueryValue(req.query.scope)?.trim().toLowerCase();
     const reportTypeInput = getSingleQueryValue(req.query.reportType)?.trim().toLowerCase();
@@ -325,118 +340,129 @@ function createAdminRouter(db: Kysely<Database>) {
 
     const searchPattern = `%${search}%`;
 
-    const organizationReportsRows = scope === 'volunteer'
-      ? []
-      : await db
-          .selectFrom('organization_report')
-          .innerJoin('organization_account as reported_organization', 'reported_organization.id', 'organization_report.reported_organization_id')
-          .innerJoin('volunteer_account as reporter_volunteer', 'reporter_volunteer.id', 'organization_report.reporter_volunteer_id')
-          .select([
-            'organization_report.id as id',
-            'organization_report.title as title',
-            'organization_report.message as message',
-            'organization_report.created_at as created_at',
-            'reported_organization.id as reported_organization_id',
-            'reported_organization.name as reported_organization_name',
-            'reported_organization.email as reported_organization_email',
-            'reporter_volunteer.id as reporter_volunteer_id',
-            'reporter_volunteer.first_name as reporter_volunteer_first_name',
-            'reporter_volunteer.last_name as reporter_volunteer_last_name',
-            'reporter_volunteer.email as reporter_volunteer_email',
-          ])
-          .where('reported_organization.is_deleted', '=', false)
-          .where('reported_organization.is_disabled', '=', false)
-          .$if(Boolean(reportType), qb => qb.where('organization_report.title', '=', reportType!))
-          .$if(Boolean(startDate), qb => qb.where('organization_report.created_at', '>=', startDate!))
-          .$if(Boolean(endDate), qb => qb.where('organization_report.created_at', '<=', endDate!))
-          .$if(Boolean(search), qb => qb.where(eb => eb.or([
-            eb('organization_report.title', 'ilike', searchPattern),
-            eb('organization_report.message', 'ilike', searchPattern),
-            eb('reported_organization.name', 'ilike', searchPattern),
-            eb('reported_organization.email', 'ilike', searchPattern),
-            eb('reporter_volunteer.first_name', 'ilike', searchPattern),
-            eb('reporter_volunteer.last_name', 'ilike', searchPattern),
-            eb('reporter_volunteer.email', 'ilike', searchPattern),
-          ])))
-          .orderBy(sortBy === 'title' ? 'organization_report.title' : 'organization_report.created_at', sortDir)
-          .execute();
-
-    const volunteerReportsRows = scope === 'organization'
-      ? []
-      : await db
-          .selectFrom('volunteer_report')
-          .innerJoin('volunteer_account as reported_volunteer', 'reported_volunteer.id', 'volunteer_report.reported_volunteer_id')
-          .innerJoin('organization_account as reporter_organization', 'reporter_organization.id', 'volunteer_report.reporter_organization_id')
-          .select([
-            'volunteer_report.id as id',
-            'volunteer_report.title as title',
-            'volunteer_report.message as message',
-            'volunteer_report.created_at as created_at',
-            'reported_volunteer.id as reported_volunteer_id',
-            'reported_volunteer.first_name as reported_volunteer_first_name',
-            'reported_volunteer.last_name as reported_volunteer_last_name',
-            'reported_volunteer.email as reported_volunteer_email',
-            'reporter_organization.id as reporter_organization_id',
-            'reporter_organization.name as reporter_organization_name',
-            'reporter_organization.email as reporter_organization_email',
-          ])
-          .where('reported_volunteer.is_deleted', '=', false)
-          .where('reported_volunteer.is_disabled', '=', false)
-          .$if(Boolean(reportType), qb => qb.where('volunteer_report.title', '=', reportType!))
-          .$if(Boolean(startDate), qb => qb.where('volunteer_report.created_at', '>=', startDate!))
-          .$if(Boolean(endDate), qb => qb.where('volunteer_report.created_at', '<=', endDate!))
-          .$if(Boolean(search), qb => qb.where(eb => eb.or([
-            eb('volunteer_report.title', 'ilike', searchPattern),
-            eb('volunteer_report.message', 'ilike', searchPattern),
-            eb('reported_volunteer.first_name', 'ilike', searchPattern),
-            eb('reported_volunteer.last_name', 'ilike', searchPattern),
-            eb('reported_volunteer.email', 'ilike', searchPattern),
-            eb('reporter_organization.name', 'ilike', searchPattern),
-            eb('reporter_organization.email', 'ilike', searchPattern),
-          ])))
-          .orderBy(sortBy === 'title' ? 'volunteer_report.title' : 'volunteer_report.created_at', sortDir)
-          .execute();
-
-    const organizationReports = organizationReportsRows.map(report => ({
-      id: report.id,
-      title: report.title,
-      message: report.message,
-      created_at: report.created_at,
-      reported_organization: {
-        id: report.reported_organization_id,
-        name: report.reported_organization_name,
-        email: report.reported_organization_email,
-      },
-      reporter_volunteer: {
-        id: report.reporter_volunteer_id,
-        first_name: report.reporter_volunteer_first_name,
-        last_name: report.reporter_volunteer_last_name,
-        email: report.reporter_volunteer_email,
-      },
-    }));
-
-    const volunteerReports = volunteerReportsRows.map(report => ({
-      id: report.id,
-      title: report.title,
-      message: report.message,
-      created_at: report.created_at,
-      reported_volunteer: {
-        id: report.reported_volunteer_id,
-        first_name: report.reported_volunteer_first_name,
-        last_name: report.reported_volunteer_last_name,
-        email: report.reported_volunteer_email,
-      },
-      reporter_organization: {
-        id: report.reporter_organization_id,
-        name: report.reporter_organization_name,
-        email: report.reporter_organization_email,
-      },
-    }));
-
-    res.json({
-      organizationReports,
-      volunteerReports,
-    });
+    // Every report involves one organization and one volunteer, so both kinds fit the same columns
+    const organizationReportsQuery = db
+      .selectFrom('organization_report')
+      .innerJoin('organization_account as reported_organization', 'reported_organization.id', 'organization_report.reported_organization_id')
+      .innerJoin('volunteer_account as reporter_volunteer', 'reporter_volunteer.id', 'organization_report.reporter_volunteer_id')
+      .select([
+        sql<ReportKind>`'organization'`.as('kind'),
+        'organization_report.id as id',
+        'organization_report.title as title',
+        'organization_report.message as message',
+        'organization_report.created_at as created_at',
+        'reported_organization.id as organization_id',
+        'reported_organization.name as organization_name',
+        'reported_organization.email as organization_email',
+        'reporter_volunteer.id as volunteer_id',
+        'reporter_volunteer.first_name as volunteer_first_name',
+        'reporter_volunteer.last_name as volunteer_last_name',
+        'reporter_volunteer.email as volunteer_email',
+      ])
+      .where('reported_organization.is_deleted', '=', false)
+      .where('reported_organization.is_disabled', '=', false)
+      .$if(Boolean(reportType), qb => qb.where('organization_report.title', '=', reportType!))
+      .$if(Boolean(startDate), qb => qb.where('organization_report.created_at', '>=', startDate!))
+      .$if(Boolean(endDate), qb => qb.where('organization_report.created_at', '<=', endDate!))
+      .$if(Boolean(search), qb => qb.where(eb => eb.or([
+        eb('organization_report.title', 'ilike', searchPattern),
+        eb('organization_report.message', 'ilike', searchPattern),
+        eb('reported_organization.name', 'ilike', searchPattern),
+        eb('reported_organization.email', 'ilike', searchPattern),
+        eb('reporter_volunteer.first_name', 'ilike', searchPattern),
+        eb('reporter_volunteer.last_name', 'ilike', searchPattern),
+        eb('reporter_volunteer.email', 'ilike', searchPattern),
+      ])));
+
+    const volunteerReportsQuery = db
+      .selectFrom('volunteer_report')
+      .innerJoin('volunteer_account as reported_volunteer', 'reported_volunteer.id', 'volunteer_report.reported_volunteer_id')
+      .innerJoin('organization_account as reporter_organization', 'reporter_organization.id', 'volunteer_report.reporter_organization_id')
+      .select([
+        sql<ReportKind>`'volunteer'`.as('kind'),
+        'volunteer_report.id as id',
+        'volunteer_report.title as title',
+        'volunteer_report.message as message',
+        'volunteer_report.created_at as created_at',
+        'reporter_organization.id as organization_id',
+        'reporter_organization.name as organization_name',
+        'reporter_organization.email as organization_email',
+        'reported_volunteer.id as volunteer_id',
+        'reported_volunteer.first_name as volunteer_first_name',
+        'reported_volunteer.last_name as volunteer_last_name',
+        'reported_volunteer.email as volunteer_email',
+      ])
+      .where('reported_volunteer.is_deleted', '=', false)
+      .where('reported_volunteer.is_disabled', '=', false)
+      .$if(Boolean(reportType), qb => qb.where('volunteer_report.title', '=', reportType!))
+      .$if(Boolean(startDate), qb => qb.where('volunteer_report.created_at', '>=', startDate!))
+      .$if(Boolean(endDate), qb => qb.where('volunteer_report.created_at', '<=', endDate!))
+      .$if(Boolean(search), qb => qb.where(eb => eb.or([
+        eb('volunteer_report.title', 'ilike', searchPattern),
+        eb('volunteer_report.message', 'ilike', searchPattern),
+        eb('reported_volunteer.first_name', 'ilike', searchPattern),
+        eb('reported_volunteer.last_name', 'ilike', searchPattern),
+        eb('reported_volunteer.email', 'ilike', searchPattern),
+        eb('reporter_organization.name', 'ilike', searchPattern),
+        eb('reporter_organization.email', 'ilike', searchPattern),
+      ])));
+
+    const reportsQuery = db
+      .selectFrom(organizationReportsQuery.unionAll(volunteerReportsQuery).as('report'))
+      .selectAll('report')
+      .$if(Boolean(scope) && scope !== 'all', qb => qb.where('report.kind', '=', scope as ReportKind));
+
+    // Both report kinds share one ordering, with the kind and ID as tiebreakers, so pages never overlap
+    const { items: reports, next_cursor } = toListPageResult(
+      await applyListPage(reportsQuery, listPage, [
+        { expression: sortBy === 'title' ? 'report.title' : 'report.created_at', direction: sortDir },
+        { expression: 'report.kind', direction: sortDir },
+        { expression: 'report.id', direction: sortDir },
+      ]).execute(),
+      listPage,
+    );
+
+    const organizationReports = reports
+      .filter(report => report.kind === 'organization')
+      .map(report => ({
+        id: report.id,
+        title: report.title,
+        message: report.message,
+        created_at: report.created_at,
+        reported_organization: {
+          id: report.organization_id,
+          name: report.organization_name,
+          email: report.organization_email,
+        },
+        reporter_volunteer: {
+          id: report.volunteer_id,
+          first_name: report.volunteer_first_name,
+          last_name: report.volunteer_last_name,
+          email: report.volunteer_email,
+        },
+      }));
+
+    const volunteerReports = reports
+      .filter(report => report.kind === 'volunteer')
+      .map(report => ({
+        id: report.id,
+        title: report.title,
+        message: report.message,
+        created_at: report.created_at,
+        reported_volunteer: {
+          id: report.volunteer_id,
+          first_name: report.volunteer_first_name,
+          last_name: report.volunteer_last_name,
+          email: report.volunteer_email,
+        },
+        reporter_organization: {
+          id: report.organization_id,
+          name: report.organization_name,
+          email: report.organization_email,
+        },
+      }));
+
+    res.json({ organizationReports, volunteerReports, next_cursor });
   });
 
   adminRouter.get('/reports/organization/:reportId', async (req, res: Response<AdminGetOrganizationReportResponse>) => {
@@ -469,6 +495,8 @@ function createAdminRouter(db: Kysely<Database>) {
       throw new Error('Organization report not found.');
     }
 
+    const rating = await getOrganizationRatingSummary(db, report.reported_organization_id);
+
     res.json({
       id: report.id,
       title: report.title,
@@ -478,6 +506,7 @@ function createAdminRouter(db: Kysely<Database>) {
         id: report.reported_organization_id,
         name: report.reported_organization_name,
         email: report.reported_organization_email,
+        rating,
       },
       reporter_volunteer: {
         id: report.reporter_volunteer_id,
@@ -518,6 +547,8 @@ function createAdminRouter(db: Kysely<Database>) {
       throw new Error('Volunteer report not found.');
     }
 
+    const feedback = await getVolunteerFeedback(db, report.reported_volunteer_id);
+
     res.json({
       id: report.id,
       title: report.title,
@@ -528,6 +559,7 @@ function createAdminRouter(db: Kysely<Database>) {
         first_name: report.reported_volunteer_first_name,
         last_name: report.reported_volunteer_last_name,
         email: report.reported_volunteer_email,
+        feedback,
       },
       reporter_organization: {
         id: report.reporter_organization_id,
@@ -542,7 +574,7 @@ function createAdminRouter(db: Kysely<Database>) {
 
     const report = await db
       .selectFrom('organization_report')
-      .select(['id'])
+      .selectAll()
       .where('id', '=', reportId)
       .executeTakeFirst();
 
@@ -551,10 +583,20 @@ function createAdminRouter(db: Kysely<Database>) {
       throw new Error('Organization report not found.');
     }
 
-    await db
-      .deleteFrom('organization_report')
-      .where('id', '=', reportId)
-      .execute();
+    await executeTransaction(db, async (trx) => {
+      await trx
+        .deleteFrom('organization_report')
+        .where('id', '=', reportId)
+        .execute();
+
+      await recordAuditLog(trx, {
+        actor: { role: 'admin', id: req.userJWT!.id },
+        action: 'organization_report.reject',
+        entity_type: 'organization_report',
+        entity_id: report.id,
+        before: report,
+      });
+    });
 
     res.json({});
   });
@@ -562,13 +604,13 @@ function createAdminRouter(db: Kysely<Database>) {
   adminRouter.post('/reports/organization/:reportId/accept', async (req, res: Response<AdminAcceptOrganizationReportResponse>) => {
     const reportId = zod.coerce.number().int().positive().parse(req.params.reportId);
 
-    let notifications: PostingDeletedNotification[] = [];
+    let notifications: PostingDeletedNotice[] = [];
 
     try {
       await executeTransaction(db, async (trx) => {
         const report = await trx
           .selectFrom('organization_report')
-          .select(['id', 'reported_organization_id'])
+          .selectAll()
           .where('id', '=', reportId)
           .executeTakeFirst();
 
@@ -608,6 +650,15 @@ function createAdminRouter(db: Kysely<Database>) {
           .deleteFrom('volunteer_report')
           .where('reporter_organization_id', '=', organization.id)
           .execute();
+
+        await recordAuditLog(trx, {
+          actor: { role: 'admin', id: req.userJWT!.id },
+          action: 'organization_report.accept',
+          entity_type: 'organization_report',
+          entity_id: report.id,
+          before: { ...report, organization_is_disabled: organization.is_disabled },
+          after: { organization_is_disabled: true },
+        });
       });
     } catch (error) {
       if (error instanceof Error && (error.message === 'Organization report not found.' || error.message === 'Organization account not found.')) {
@@ -616,7 +667,7 @@ function createAdminRouter(db: Kysely<Database>) {
       throw error;
     }
 
-    await Promise.allSettled(notifications.map(n => sendPostingDeletedEmail(n)));
+    await deliverNotifications(db, notifications.map(createPostingDeletedDelivery));
 
     res.json({});
   });
@@ -626,7 +677,7 @@ function createAdminRouter(db: Kysely<Database>) {
 
     const report = await db
       .selectFrom('volunteer_report')
-      .select(['id'])
+      .selectAll()
       .where('id', '=', reportId)
       .executeTakeFirst();
 
@@ -635,10 +686,20 @@ function createAdminRouter(db: Kysely<Database>) {
       throw new Error('Volunteer report not found.');
     }
 
-    await db
-      .deleteFrom('volunteer_report')
-      .where('id', '=', reportId)
-      .execute();
+    await executeTransaction(db, async (trx) => {
+      await trx
+        .deleteFrom('volunteer_report')
+        .where('id', '=', reportId)
+        .execute();
+
+      await recordAuditLog(trx, {
+        actor: { role: 'admin', id: req.userJWT!.id },
+        action: 'volunteer_report.reject',
+        entity_type: 'volunteer_report',
+        entity_id: report.id,
+        before: report,
+      });
+    });
 
     res.json({});
   });
@@ -650,7 +711,7 @@ function createAdminRouter(db: Kysely<Database>) {
       await executeTransaction(db, async (trx) => {
         const report = await trx
           .selectFrom('volunteer_report')
-          .select(['id', 'reported_volunteer_id'])
+          .selectAll()
           .where('id', '=', reportId)
           .executeTakeFirst();
 
@@ -690,6 +751,15 @@ function createAdminRouter(db: Kysely<Database>) {
           .deleteFrom('organization_report')
           .where('reporter_volunteer_id', '=', volunteer.id)
           .execute();
+
+        await recordAuditLog(trx, {
+          actor: { role: 'admin', id: req.userJWT!.id },
+          action: 'volunteer_report.accept',
+          entity_type: 'volunteer_report',
+          entity_id: report.id,
+          before: { ...report, volunteer_is_disabled: volunteer.is_disabled },
+          after: { volunteer_is_disabled: true },
+        });
       });
     } catch (error) {
       if (error instanceof Error && (error.message === 'Volunteer report not found.' || error.message === 'Volunteer account not found.')) {
@@ -704,7 +774,7 @@ function createAdminRouter(db: Kysely<Database>) {
   adminRouter.post('/reports/organization/:organizationId/disable', async (req, res: Response<AdminDisableOrganizationAccountResponse>) => {
     const organizationId = zod.coerce.number().int().positive().parse(req.params.organizationId);
 
-    let notifications: PostingDeletedNotification[] = [];
+    let notifications: PostingDeletedNotice[] = [];
 
     try {
       await executeTransaction(db, async (trx) => {
@@ -740,6 +810,15 @@ function createAdminRouter(db: Kysely<Database>) {
           .deleteFrom('volunteer_report')
           .where('reporter_organization_id', '=', organizationId)
           .execute();
+
+        await recordAuditLog(trx, {
+          actor: { role: 'admin', id: req.userJWT!.id },
+          action: 'organization.disable',
+          entity_type: 'organization_account',
+          entity_id: organizationId,
+          before: { is_disabled: organization.is_disabled },
+          after: { is_disabled: true },
+        });
       });
     } catch (error) {
       if (error instanceof Error && error.message === 'Organization account not found.') {
@@ -748,7 +827,7 @@ function createAdminRouter(db: Kysely<Database>) {
       throw error;
     }
 
-    await Promise.allSettled(notifications.map(n => sendPostingDeletedEmail(n)));
+    await deliverNotifications(db, notifications.map(createPostingDeletedDelivery));
 
     res.json({});
   });
@@ -790,6 +869,15 @@ function createAdminRouter(db: Kysely<Database>) {
           .deleteFrom('organization_report')
           .where('reporter_volunteer_id', '=', volunteerId)
           .execute();
+
+        await recordAuditLog(trx, {
+          actor: { role: 'admin', id: req.userJWT!.id },
+          action: 'volunteer.disable',
+          entity_type: 'volunteer_account',
+          entity_id: volunteerId,
+          before: { is_disabled: volunteer.is_disabled },
+          after: { is_disabled: true },
+        });
       });
     } catch (error) {
       if (error instanceof Error && error.message === 'Volunteer account not found.') {
@@ -822,10 +910,21 @@ function createAdminRouter(db: Kysely<Database>) {
 
     if (!accepted) {
       await sendOrganizationRejectionEmail(organizationRequest, reason);
-      await db
-        .deleteFrom('organization_request')
-        .where('id', '=', requestId)
-        .execute();
+      await executeTransaction(db, async (trx) => {
+        await trx
+          .deleteFrom('organization_request')
+          .where('id', '=', requestId)
+          .execute();
+
+        await recordAuditLog(trx, {
+          actor: { role: 'admin', id: req.userJWT!.id },
+          action: 'organization_request.reject',
+          entity_type: 'organization_request',
+          entity_id: requestId,
+          before: organizationRequest,
+          after: { reason },
+        });
+      });
       res.json({});
       return;
     }
@@ -860,7 +959,7 @@ function createAdminRouter(db: Kysely<Database>) {
         .where('id', '=', requestId)
         .execute();
 
-      return await trx
+      const organization = await trx
         .insertInto('organization_account')
         .values({
           name: organizationRequest.name,
@@ -874,6 +973,19 @@ function createAdminRouter(db: Kysely<Database>) {
         })
         .returning(organizationPrivateResponseColumns)
         .executeTakeFirst();
+
+      if (organization) {
+        await recordAuditLog(trx, {
+          actor: { role: 'admin', id: req.userJWT!.id },
+          action: 'organization_request.accept',
+          entity_type: 'organization_request',
+          entity_id: requestId,
+          before: organizationRequest,
+          after: organization,
+        });
+      }
+
+      return organization;
     });
 
     if (!insertedOrganization) {
@@ -884,6 +996,13 @@ function createAdminRouter(db: Kysely<Database>) {
     await recomputeOrganizationVector(insertedOrganization.id, db);
 
     await sendOrganizationAcceptanceEmail(organizationRequest, password);
+    await deliverNotification(db, {
+      recipient: { user_id: insertedOrganization.id, role: 'organization' },
+      type: 'organization_account_created',
+      title: 'Welcome to Willing!',
+      message: 'Your organization request was approved. Please change your temporary password.',
+      link: '/organization/settings',
+    });
 
     res.json({
       organization: insertedOrganization,
@@ -892,8 +1011,12 @@ function createAdminRouter(db: Kysely<Database>) {
 
   adminRouter.post('/reset-password', createResetPassword(db));
 
+  adminRouter.use('/audit-log', createAdminAuditLogRouter(db));
   adminRouter.use('/crises', createAdminCrisesRouter(db));
+  adminRouter.use('/skills', createAdminSkillsRouter(db));
   adminRouter.use('/certificate-settings', createAdminCertificateSettingsRouter(db));
+  adminRouter.use('/issued-certificates', createAdminIssuedCertificatesRouter(db));
+  adminRouter.use('/jobs', createAdminJobsRouter(db));
 
   return adminRouter;
 }
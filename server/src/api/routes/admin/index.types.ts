@@ -4,6 +4,7 @@ import {
   type OrganizationAccountWithoutPassword,
   type OrganizationRequest,
 } from '../../../db/tables/index.ts';
+import { type OrganizationRatingSummary, type VolunteerFeedbackWithContext } from '../../../types.ts';
 
 export type AdminLoginResponse = {
   token: string;
@@ -16,6 +17,7 @@ export type AdminMeResponse = {
 
 export type AdminOrganizationRequestsResponse = {
   organizationRequests: OrganizationRequest[];
+  next_cursor: string | null;
 };
 
 export type AdminOrganizationRequestReviewResponse = object | {
@@ -61,6 +63,7 @@ export type AdminVolunteerReportListItem = {
 export type AdminReportsResponse = {
   organizationReports: AdminOrganizationReportListItem[];
   volunteerReports: AdminVolunteerReportListItem[];
+  next_cursor: string | null;
 };
 
 export type AdminGetOrganizationReportResponse = {
@@ -72,6 +75,7 @@ export type AdminGetOrganizationReportResponse = {
     id: number;
     name: string;
     email: string;
+    rating: OrganizationRatingSummary;
   };
   reporter_volunteer: {
     id: number;
@@ -91,6 +95,7 @@ export type AdminGetVolunteerReportResponse = {
     first_name: string;
     last_name: string;
     email: string;
+    feedback: VolunteerFeedbackWithContext[];
   };
   reporter_organization: {
     id: number;
@@ -0,0 +1,73 @@
+import { Router, type Response } from 'express';
+import { type Kysely } from 'kysely';
+import zod from 'zod';
+
+import {
+  type AdminIssuedCertificateRevokeResponse,
+  type AdminIssuedCertificatesResponse,
+} from './issuedCertificates.types.ts';
+import { revokeIssuedCertificateSchema, type Database } from '../../../db/tables/index.ts';
+import { recordAuditLog } from '../../../services/audit/index.ts';
+import { getIssuedCertificates, revokeIssuedCertificate } from '../../../services/certificates/ledger.ts';
+
+const certificateIdParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive('ID must be a positive number'),
+});
+
+const issuedCertificatesQuerySchema = zod.object({
+  volunteer_id: zod.coerce.number().int().positive('Volunteer ID must be a positive number').optional(),
+  organization_id: zod.coerce.number().int().positive('Organization ID must be a positive number').optional(),
+});
+
+function createAdminIssuedCertificatesRouter(db: Kysely<Database>) {
+  const issuedCertificatesRouter = Router();
+
+  issuedCertificatesRouter.get('/', async (req, res: Response<AdminIssuedCertificatesResponse>) => {
+    const query = issuedCertificatesQuerySchema.parse(req.query);
+    const certificates = await getIssuedCertificates(db, {
+      ...(query.volunteer_id !== undefined ? { volunteerId: query.volunteer_id } : {}),
+      ...(query.organization_id !== undefined ? { organizationId: query.organization_id } : {}),
+    });
+
+    res.json({ certificates });
+  });
+
+  issuedCertificatesRouter.post('/:id/revoke', async (req, res: Response<AdminIssuedCertificateRevokeResponse>) => {
+    const adminId = req.userJWT!.id;
+    const { id } = certificateIdParamsSchema.parse(req.params);
+    const { reason } = revokeIssuedCertificateSchema.parse(req.body);
+
+    const certificate = await db
+      .selectFrom('issued_certificate')
+      .select(['id'])
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    if (!certificate) {
+      res.status(404);
+      throw new Error('Certificate not found');
+    }
+
+    const revoked = await revokeIssuedCertificate(db, id, { role: 'admin', id: adminId }, reason);
+    if (!revoked) {
+      res.status(409);
+      throw new Error('Certificate has already been revoked');
+    }
+
+    await recordAuditLog(db, {
+      actor: { role: 'admin', id: adminId },
+      action: 'issued_certificate.revoke',
+      entity_type: 'issued_certificate',
+      entity_id: id,
+      before: { revoked_at: null },
+      after: { revoked_at: new Date(), revocation_reason: reason },
+    });
+
+    const [updatedCertificate] = await getIssuedCertificates(db, { certificateId: id });
+    res.json({ certificate: updatedCertificate! });
+  });
+
+  return issuedCertificatesRouter;
+}
+
+export default createAdminIssuedCertificatesRouter;
@@ -0,0 +1,9 @@
+import { type IssuedCertificateWithContext } from '../../../types.ts';
+
+export type AdminIssuedCertificatesResponse = {
+  certificates: IssuedCertificateWithContext[];
+};
+
+export type AdminIssuedCertificateRevokeResponse = {
+  certificate: IssuedCertificateWithContext;
+};
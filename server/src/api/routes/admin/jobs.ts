@@ -0,0 +1,132 @@
+import { Router, type Response } from 'express';
+import { type Kysely } from 'kysely';
+import zod from 'zod';
+
+import { type AdminJobRetryResponse, type AdminJobsResponse } from './jobs.types.ts';
+import executeTransaction from '../../../db/executeTransaction.ts';
+import {
+  type Database,
+  jobStatusSchema,
+  jobTypeSchema,
+  type JobStatus,
+} from '../../../db/tables/index.ts';
+import { recordAuditLog } from '../../../services/audit/index.ts';
+import { retryJob } from '../../../services/jobs/queue.ts';
+import { applyListPage, parseListPage, toListPageResult, type ListSortKey } from '../utils/listQuery.ts';
+
+const DEFAULT_JOBS_LIMIT = 50;
+const MAX_JOBS_LIMIT = 200;
+
+const jobSortKeys: ListSortKey[] = [
+  { expression: 'job.updated_at', direction: 'desc' },
+  { expression: 'job.id', direction: 'desc' },
+];
+
+const jobParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive('ID must be a positive number'),
+});
+
+const jobsQuerySchema = zod.object({
+  status: jobStatusSchema.optional(),
+  type: jobTypeSchema.optional(),
+});
+
+function createAdminJobsRouter(db: Kysely<Database>) {
+  const jobsRouter = Router();
+
+  jobsRouter.get('/', async (req, res: Response<AdminJobsResponse>) => {
+    const query = jobsQuerySchema.parse(req.query);
+    const listPage = parseListPage(req.query, { defaultLimit: DEFAULT_JOBS_LIMIT, maxLimit: MAX_JOBS_LIMIT });
+
+    let jobsQuery = db
+      .selectFrom('job')
+      .selectAll();
+
+    if (query.status) {
+      jobsQuery = jobsQuery.where('status', '=', query.status);
+    }
+
+    if (query.type) {
+      jobsQuery = jobsQuery.where('type', '=', query.type);
+    }
+
+    const { items: jobs, next_cursor } = toListPageResult(
+      await applyListPage(jobsQuery, listPage, jobSortKeys).execute(),
+      listPage,
+    );
+
+    const statusCounts = await db
+      .selectFrom('job')
+      .select(eb => ['status', eb.fn.countAll<string>().as('count')])
+      .groupBy('status')
+      .execute();
+
+    const counts: Record<JobStatus, number> = { pending: 0, running: 0, completed: 0, dead: 0 };
+    statusCounts.forEach((row) => {
+      counts[row.status] = Number(row.count);
+    });
+
+    res.json({ jobs, counts, next_cursor });
+  });
+
+  jobsRouter.post('/:id/retry', async (req, res: Response<AdminJobRetryResponse>) => {
+    const { id } = jobParamsSchema.parse(req.params);
+
+    const job = await db
+      .selectFrom('job')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    if (!job) {
+      res.status(404);
+      throw new Error('Job not found');
+    }
+
+    if (job.status !== 'dead') {
+      res.status(409);
+      throw new Error('Only dead jobs can be retried');
+    }
+
+    if (job.dedupe_key) {
+      const pendingDuplicate = await db
+        .selectFrom('job')
+        .select('id')
+        .where('dedupe_key', '=', job.dedupe_key)
+        .where('status', '=', 'pending')
+        .executeTakeFirst();
+
+      if (pendingDuplicate) {
+        res.status(409);
+        throw new Error('A pending job already covers this work');
+      }
+    }
+
+    const retried = await executeTransaction(db, async (trx) => {
+      const retriedJob = await retryJob(trx, id);
+      if (!retriedJob) return undefined;
+
+      await recordAuditLog(trx, {
+        actor: { role: 'admin', id: req.userJWT!.id },
+        action: 'job.retry',
+        entity_type: 'job',
+        entity_id: id,
+        before: job,
+        after: retriedJob,
+      });
+
+      return retriedJob;
+    });
+
+    if (!retried) {
+      res.status(409);
+      throw new Error('This job is no longer dead or a pending job already covers this work');
+    }
+
+    res.json({ job: retried });
+  });
+
+  return jobsRouter;
+}
+
+export default createAdminJobsRouter;
@@ -0,0 +1,11 @@
+import { type Job, type JobStatus } from '../../../db/tables/index.ts';
+
+export type AdminJobsResponse = {
+  jobs: Job[];
+  counts: Record<JobStatus, number>;
+  next_cursor: string | null;
+};
+
+export type AdminJobRetryResponse = {
+  job: Job;
+};
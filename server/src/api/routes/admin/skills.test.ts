@@ -0,0 +1,184 @@
+import supertest from 'supertest';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import createApp from '../../../app.ts';
+import database from '../../../db/index.ts';
+import { createAdminAccount, createOrganizationAccount, createVolunteerAccount } from '../../../tests/fixtures/accounts.ts';
+import { createPosting } from '../../../tests/fixtures/organizationData.ts';
+import { authHeader } from '../../../tests/helpers/authHeader.ts';
+
+import type { Database } from '../../../db/tables/index.ts';
+import type { ControlledTransaction } from 'kysely';
+import type TestAgent from 'supertest/lib/agent.js';
+
+let transaction: ControlledTransaction<Database>;
+let server: TestAgent;
+let adminToken: string;
+
+beforeEach(async () => {
+  transaction = await database.startTransaction().execute();
+  server = supertest(createApp(transaction));
+
+  const { token } = await createAdminAccount(transaction, { email: 'admin-skills@example.com' });
+  adminToken = token;
+});
+
+afterEach(async () => {
+  await transaction.rollback().execute();
+});
+
+const createFuturePosting = async (organizationId: number, title: string, skills: string[]) =>
+  createPosting(transaction, {
+    organizationId,
+    title,
+    skills,
+    overrides: {
+      start_date: new Date('2030-06-03'),
+      end_date: new Date('2030-06-03'),
+    },
+  });
+
+const getPostingSkills = async (postingId: number) => transaction
+  .selectFrom('posting_skill')
+  .select(['skill_id', 'name'])
+  .where('posting_id', '=', postingId)
+  .orderBy('name', 'asc')
+  .execute();
+
+describe('Skill catalog', () => {
+  test('maps spelling variants and synonyms to one catalog entry', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'skills-variants-org@example.com' });
+    const posting = await createFuturePosting(organization.id, 'Medic Tent', ['first-aid', 'CPR/First aid', 'First Aid']);
+
+    const skills = await getPostingSkills(posting.id);
+    expect(skills).toEqual([expect.objectContaining({ name: 'First Aid' })]);
+  });
+
+  test('autocompletes from names and synonyms', async () => {
+    const { token } = await createVolunteerAccount(transaction, { email: 'skills-autocomplete@example.com' });
+
+    const response = await server
+      .get('/user/skills')
+      .query({ search: 'basic life' })
+      .set(authHeader(token))
+      .expect(200);
+
+    expect(response.body.skills).toEqual([
+      expect.objectContaining({ name: 'First Aid', category: 'medical' }),
+    ]);
+  });
+
+  test('filters postings by skill id', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'skills-filter-org@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'skills-filter-vol@example.com' });
+    const medicPosting = await createFuturePosting(organization.id, 'Medic Tent', ['First-Aid']);
+    const kitchenPosting = await createFuturePosting(organization.id, 'Soup Kitchen', ['Cooking']);
+    const [firstAid] = await getPostingSkills(medicPosting.id);
+
+    const response = await server
+      .get('/volunteer/posting')
+      .query({ skill_id: firstAid!.skill_id })
+      .set(authHeader(token))
+      .expect(200);
+
+    const postingIds = response.body.postings.map((posting: { id: number }) => posting.id);
+    expect(postingIds).toContain(medicPosting.id);
+    expect(postingIds).not.toContain(kitchenPosting.id);
+  });
+});
+
+describe('/admin/skills', () => {
+  test('creates a skill and rejects names that are already taken', async () => {
+    const createResponse = await server
+      .post('/admin/skills')
+      .set(authHeader(adminToken))
+      .send({ name: 'Sign Language', category: 'language', synonyms: ['ASL', 'Signing'] })
+      .expect(201);
+
+    expect(createResponse.body.skill).toMatchObject({
+      name: 'Sign Language',
+      category: 'language',
+      synonyms: ['ASL', 'Signing'],
+      usage_count: 0,
+    });
+
+    const conflictResponse = await server
+      .post('/admin/skills')
+      .set(authHeader(adminToken))
+      .send({ name: 'signing', category: null })
+      .expect(409);
+    expect(conflictResponse.body.message).toContain('signing');
+  });
+
+  test('renames a skill everywhere it is used', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'skills-rename-org@example.com' });
+    const posting = await createFuturePosting(organization.id, 'Sorting Day', ['Sortin']);
+    const [skill] = await getPostingSkills(posting.id);
+
+    await server
+      .put(`/admin/skills/${skill!.skill_id}`)
+      .set(authHeader(adminToken))
+      .send({ name: 'Sorting', category: 'logistics', synonyms: ['Sortin'] })
+      .expect(200);
+
+    expect(await getPostingSkills(posting.id)).toEqual([{ skill_id: skill!.skill_id, name: 'Sorting' }]);
+  });
+
+  test('merges a skill into another one', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'skills-merge-org@example.com' });
+    const bothPosting = await createFuturePosting(organization.id, 'Warehouse Day', ['Packing', 'Packaging']);
+    const packagingPosting = await createFuturePosting(organization.id, 'Parcel Day', ['Packaging']);
+    const [packaging, packing] = await getPostingSkills(bothPosting.id);
+
+    const response = await server
+      .post(`/admin/skills/${packaging!.skill_id}/merge`)
+      .set(authHeader(adminToken))
+      .send({ target_id: packing!.skill_id })
+      .expect(200);
+
+    expect(response.body.skill).toMatchObject({ id: packing!.skill_id, name: 'Packing', synonyms: ['Packaging'] });
+    expect(await getPostingSkills(bothPosting.id)).toEqual([{ skill_id: packing!.skill_id, name: 'Packing' }]);
+    expect(await getPostingSkills(packagingPosting.id)).toEqual([{ skill_id: packing!.skill_id, name: 'Packing' }]);
+
+    const laterPosting = await createFuturePosting(organization.id, 'Box Day', ['packaging']);
+    expect(await getPostingSkills(laterPosting.id)).toEqual([{ skill_id: packing!.skill_id, name: 'Packing' }]);
+
+    const auditLog = await transaction
+      .selectFrom('audit_log')
+      .select(['action', 'entity_type', 'entity_id'])
+      .where('action', '=', 'skill.merge')
+      .executeTakeFirst();
+    expect(auditLog).toEqual({ action: 'skill.merge', entity_type: 'skill', entity_id: packaging!.skill_id });
+  });
+
+  test('only deletes skills nobody uses', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'skills-delete-org@example.com' });
+    const posting = await createFuturePosting(organization.id, 'Mural Day', ['Mural Painting']);
+    const [usedSkill] = await getPostingSkills(posting.id);
+
+    await server
+      .delete(`/admin/skills/${usedSkill!.skill_id}`)
+      .set(authHeader(adminToken))
+      .expect(409);
+
+    const createResponse = await server
+      .post('/admin/skills')
+      .set(authHeader(adminToken))
+      .send({ name: 'Beekeeping', category: null })
+      .expect(201);
+
+    await server
+      .delete(`/admin/skills/${createResponse.body.skill.id}`)
+      .set(authHeader(adminToken))
+      .expect(200);
+  });
+
+  test('is only available to admins', async () => {
+    const { token } = await createVolunteerAccount(transaction, { email: 'skills-not-admin@example.com' });
+
+    await server
+      .get('/admin/skills')
+      .set(authHeader(token))
+      .expect(403);
+  });
+});
@@ -0,0 +1,294 @@
+import { Router, type Response } from 'express';
+import { sql, type Kysely } from 'kysely';
+import zod from 'zod';
+
+import {
+  type AdminSkill,
+  type AdminSkillCreateResponse,
+  type AdminSkillDeleteResponse,
+  type AdminSkillMergeResponse,
+  type AdminSkillUpdateResponse,
+  type AdminSkillsResponse,
+} from './skills.types.ts';
+import executeTransaction from '../../../db/executeTransaction.ts';
+import { type Database, newSkillSchema, skillCategorySchema } from '../../../db/tables/index.ts';
+import { recordAuditLog } from '../../../services/audit/index.ts';
+import {
+  findTakenSkillName,
+  mergeSkills,
+  normalizeSkillName,
+  replaceSkillSynonyms,
+  syncSkillName,
+} from '../../../services/skills/index.ts';
+import {
+  applyListPage,
+  parseListPage,
+  parseListQuery,
+  parseOptionalBooleanQueryParam,
+  toListPageResult,
+  type ListSortKey,
+} from '../utils/listQuery.ts';
+
+const skillParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive('ID must be a positive number'),
+});
+
+const skillMergeBodySchema = zod.object({
+  target_id: zod.number().int().positive('Target skill ID must be a positive number'),
+});
+
+const usageCountExpression = sql<number>`(
+  (SELECT count(*) FROM posting_skill WHERE posting_skill.skill_id = skill.id)
+  + (SELECT count(*) FROM posting_role_skill WHERE posting_role_skill.skill_id = skill.id)
+  + (SELECT count(*) FROM volunteer_skill WHERE volunteer_skill.skill_id = skill.id)
+)::integer`;
+
+const selectAdminSkills = (db: Kysely<Database>) => db
+  .selectFrom('skill')
+  .selectAll('skill')
+  .select(usageCountExpression.as('usage_count'));
+
+async function withSynonyms<T extends { id: number }>(db: Kysely<Database>, skills: T[]): Promise<(T & { synonyms: string[] })[]> {
+  const synonyms = skills.length > 0
+    ? await db
+        .selectFrom('skill_synonym')
+        .select(['skill_id', 'name'])
+        .where('skill_id', 'in', skills.map(skill => skill.id))
+        .orderBy('name', 'asc')
+        .execute()
+    : [];
+
+  return skills.map(skill => ({
+    ...skill,
+    synonyms: synonyms.filter(synonym => synonym.skill_id === skill.id).map(synonym => synonym.name),
+  }));
+}
+
+async function getAdminSkill(db: Kysely<Database>, id: number): Promise<AdminSkill | undefined> {
+  const skill = await selectAdminSkills(db)
+    .where('skill.id', '=', id)
+    .executeTakeFirst();
+
+  if (!skill) return undefined;
+
+  const [skillWithSynonyms] = await withSynonyms(db, [skill]);
+  return skillWithSynonyms;
+}
+
+function createAdminSkillsRouter(db: Kysely<Database>) {
+  const adminSkillsRouter = Router();
+
+  adminSkillsRouter.get('/', async (req, res: Response<AdminSkillsResponse>) => {
+    const { search, sortBy, sortDir } = parseListQuery(req.query, {
+      allowedSortBy: ['name', 'usage_count', 'created_at'],
+      defaultSortBy: 'name',
+      defaultSortDir: 'asc',
+    });
+    const listPage = parseListPage(req.query);
+    const uncategorizedFilter = parseOptionalBooleanQueryParam(req.query.uncategorized);
+    const categoryFilter = skillCategorySchema.optional().parse(req.query.category || undefined);
+
+    let skillsQuery = selectAdminSkills(db);
+
+    const normalizedSearch = normalizeSkillName(search);
+    if (normalizedSearch) {
+      const searchPattern = `%${normalizedSearch}%`;
+      skillsQuery = skillsQuery.where(eb => eb.or([
+        eb('skill.normalized_name', 'like', searchPattern),
+        eb.exists(
+          eb.selectFrom('skill_synonym')
+            .select('skill_synonym.id')
+            .whereRef('skill_synonym.skill_id', '=', 'skill.id')
+            .where('skill_synonym.normalized_name', 'like', searchPattern),
+        ),
+      ]));
+    }
+
+    if (categoryFilter) {
+      skillsQuery = skillsQuery.where('skill.category', '=', categoryFilter);
+    }
+
+    if (uncategorizedFilter !== undefined) {
+      skillsQuery = skillsQuery.where('skill.category', uncategorizedFilter ? 'is' : 'is not', null);
+    }
+
+    let sortKeys: ListSortKey[];
+    switch (sortBy) {
+      case 'usage_count':
+        sortKeys = [
+          { expression: usageCountExpression, direction: sortDir },
+          { expression: 'skill.name', direction: 'asc' },
+          { expression: 'skill.id', direction: 'asc' },
+        ];
+        break;
+      case 'created_at':
+        sortKeys = [
+          { expression: 'skill.created_at', direction: sortDir },
+          { expression: 'skill.id', direction: sortDir },
+        ];
+        break;
+      case 'name':
+      default:
+        sortKeys = [
+          { expression: 'skill.name', direction: sortDir },
+          { expression: 'skill.id', direction: sortDir },
+        ];
+        break;
+    }
+
+    const { items, next_cursor } = toListPageResult(await applyListPage(skillsQuery, listPage, sortKeys).execute(), listPage);
+
+    res.json({ skills: await withSynonyms(db, items), next_cursor });
+  });
+
+  adminSkillsRouter.post('/', async (req, res: Response<AdminSkillCreateResponse>) => {
+    const body = newSkillSchema.parse(req.body);
+
+    const takenName = await findTakenSkillName(db, [body.name, ...body.synonyms]);
+    if (takenName) {
+      res.status(409);
+      throw new Error(`"${takenName}" is already used by another skill`);
+    }
+
+    const skillId = await executeTransaction(db, async (trx) => {
+      const inserted = await trx
+        .insertInto('skill')
+        .values({ name: body.name, normalized_name: normalizeSkillName(body.name), category: body.category })
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      await replaceSkillSynonyms(trx, inserted, body.synonyms);
+
+      await recordAuditLog(trx, {
+        actor: { role: 'admin', id: req.userJWT!.id },
+        action: 'skill.create',
+        entity_type: 'skill',
+        entity_id: inserted.id,
+        after: { ...inserted, synonyms: body.synonyms },
+      });
+
+      return inserted.id;
+    });
+
+    res.status(201).json({ skill: (await getAdminSkill(db, skillId))! });
+  });
+
+  adminSkillsRouter.put('/:id', async (req, res: Response<AdminSkillUpdateResponse>) => {
+    const { id } = skillParamsSchema.parse(req.params);
+    const body = newSkillSchema.parse(req.body);
+
+    const takenName = await findTakenSkillName(db, [body.name, ...body.synonyms], id);
+    if (takenName) {
+      res.status(409);
+      throw new Error(`"${takenName}" is already used by another skill`);
+    }
+
+    const updated = await executeTransaction(db, async (trx) => {
+      const previous = await getAdminSkill(trx, id);
+      if (!previous) return false;
+
+      const skill = await trx
+        .updateTable('skill')
+        .set({ name: body.name, normalized_name: normalizeSkillName(body.name), category: body.category })
+        .where('id', '=', id)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      await replaceSkillSynonyms(trx, skill, body.synonyms);
+      await syncSkillName(trx, skill);
+
+      await recordAuditLog(trx, {
+        actor: { role: 'admin', id: req.userJWT!.id },
+        action: 'skill.update',
+        entity_type: 'skill',
+        entity_id: id,
+        before: previous,
+        after: { ...skill, synonyms: body.synonyms },
+      });
+
+      return true;
+    });
+
+    if (!updated) {
+      res.status(404);
+      throw new Error('Skill not found');
+    }
+
+    res.json({ skill: (await getAdminSkill(db, id))! });
+  });
+
+  adminSkillsRouter.post('/:id/merge', async (req, res: Response<AdminSkillMergeResponse>) => {
+    const { id } = skillParamsSchema.parse(req.params);
+    const { target_id: targetId } = skillMergeBodySchema.parse(req.body);
+
+    if (id === targetId) {
+      res.status(400);
+      throw new Error('A skill cannot be merged into itself');
+    }
+
+    const merged = await executeTransaction(db, async (trx) => {
+      const [source, target] = await Promise.all([
+        getAdminSkill(trx, id),
+        getAdminSkill(trx, targetId),
+      ]);
+      if (!source || !target) return false;
+
+      await mergeSkills(trx, source, target);
+
+      await recordAuditLog(trx, {
+        actor: { role: 'admin', id: req.userJWT!.id },
+        action: 'skill.merge',
+        entity_type: 'skill',
+        entity_id: id,
+        before: source,
+        after: target,
+      });
+
+      return true;
+    });
+
+    if (!merged) {
+      res.status(404);
+      throw new Error('Skill not found');
+    }
+
+    res.json({ skill: (await getAdminSkill(db, targetId))! });
+  });
+
+  adminSkillsRouter.delete('/:id', async (req, res: Response<AdminSkillDeleteResponse>) => {
+    const { id } = skillParamsSchema.parse(req.params);
+
+    const skill = await getAdminSkill(db, id);
+
+    if (!skill) {
+      res.status(404);
+      throw new Error('Skill not found');
+    }
+
+    if (skill.usage_count > 0) {
+      res.status(409);
+      throw new Error('This skill is still in use. Merge it into another skill instead.');
+    }
+
+    await executeTransaction(db, async (trx) => {
+      await trx
+        .deleteFrom('skill')
+        .where('id', '=', id)
+        .execute();
+
+      await recordAuditLog(trx, {
+        actor: { role: 'admin', id: req.userJWT!.id },
+        action: 'skill.delete',
+        entity_type: 'skill',
+        entity_id: id,
+        before: skill,
+      });
+    });
+
+    res.json({});
+  });
+
+  return adminSkillsRouter;
+}
+
+export default createAdminSkillsRouter;
@@ -0,0 +1,27 @@
+import { type Skill } from '../../../db/tables/index.ts';
+import { type SuccessResponse } from '../../../types.ts';
+
+export type AdminSkill = Skill & {
+  synonyms: string[];
+  // Postings, roles and volunteers that list the skill
+  usage_count: number;
+};
+
+export type AdminSkillsResponse = {
+  skills: AdminSkill[];
+  next_cursor: string | null;
+};
+
+export type AdminSkillCreateResponse = {
+  skill: AdminSkill;
+};
+
+export type AdminSkillUpdateResponse = {
+  skill: AdminSkill;
+};
+
+export type AdminSkillMergeResponse = {
+  skill: AdminSkill;
+};
+
+export type AdminSkillDeleteResponse = SuccessResponse;
@@ -0,0 +1,203 @@
+import supertest from 'supertest';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import createApp from '../../app.ts';
+import database from '../../db/index.ts';
+import { createOrganizationAccount, createOrganizationMemberAccount, createVolunteerAccount } from '../../tests/fixtures/accounts.ts';
+import { createPosting } from '../../tests/fixtures/organizationData.ts';
+import { authHeader } from '../../tests/helpers/authHeader.ts';
+
+import type { Database } from '../../db/tables/index.ts';
+import type { ControlledTransaction } from 'kysely';
+import type TestAgent from 'supertest/lib/agent.js';
+
+let transaction: ControlledTransaction<Database>;
+let server: TestAgent;
+
+beforeEach(async () => {
+  transaction = await database.startTransaction().execute();
+  server = supertest(createApp(transaction));
+});
+
+afterEach(async () => {
+  await transaction.rollback().execute();
+});
+
+const createEnrolledPosting = async (emailPrefix: string) => {
+  const organizationAccount = await createOrganizationAccount(transaction, { email: `${emailPrefix}-org@example.com` });
+  const volunteerAccount = await createVolunteerAccount(transaction, { email: `${emailPrefix}-vol@example.com` });
+  const posting = await createPosting(transaction, {
+    organizationId: organizationAccount.organization.id,
+    title: 'Beach Cleanup',
+    overrides: {
+      start_date: new Date('2099-03-01T00:00:00.000Z'),
+      end_date: new Date('2099-03-02T00:00:00.000Z'),
+      start_time: '09:00',
+      end_time: '12:30',
+      max_volunteers: 5,
+    },
+  });
+  const enrollment = await transaction
+    .insertInto('enrollment')
+    .values({ volunteer_id: volunteerAccount.volunteer.id, posting_id: posting.id, attended: false })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+  await transaction
+    .insertInto('enrollment_date')
+    .values([
+      { enrollment_id: enrollment.id, posting_id: posting.id, date: new Date('2099-03-01T00:00:00.000Z'), attended: false },
+      { enrollment_id: enrollment.id, posting_id: posting.id, date: new Date('2099-03-02T00:00:00.000Z'), attended: false },
+    ])
+    .execute();
+
+  return { organizationAccount, volunteerAccount, posting, enrollment };
+};
+
+describe('/user/calendar-feed', () => {
+  test('serves a volunteer feed of enrolled dates with stable UIDs', async () => {
+    const { volunteerAccount, posting, enrollment } = await createEnrolledPosting('calendar-volunteer');
+
+    const emptyResponse = await server
+      .get('/user/calendar-feed')
+      .set(authHeader(volunteerAccount.token))
+      .expect(200);
+
+    expect(emptyResponse.body.feed_path).toBeNull();
+
+    const createResponse = await server
+      .post('/user/calendar-feed')
+      .set(authHeader(volunteerAccount.token))
+      .expect(200);
+
+    const feedPath: string = createResponse.body.feed_path;
+    expect(feedPath).toMatch(/^\/public\/calendar\/[0-9a-f]{64}\.ics$/);
+
+    const feedResponse = await server
+      .get(feedPath)
+      .expect('Content-Type', /text\/calendar/)
+      .expect(200);
+
+    expect(feedResponse.text).toContain(`UID:enrollment-${posting.id}-2099-03-01@`);
+    expect(feedResponse.text).toContain(`UID:enrollment-${posting.id}-2099-03-02@`);
+    expect(feedResponse.text).toContain('DTSTART:20990301T090000Z');
+    expect(feedResponse.text).toContain('DTEND:20990301T123000Z');
+    expect(feedResponse.text).toContain('SUMMARY:Beach Cleanup');
+
+    await transaction
+      .updateTable('posting')
+      .set({ title: 'Harbour Cleanup' })
+      .where('id', '=', posting.id)
+      .execute();
+    await transaction
+      .deleteFrom('enrollment_date')
+      .where('enrollment_id', '=', enrollment.id)
+      .where('date', '=', new Date('2099-03-02T00:00:00.000Z'))
+      .execute();
+
+    const updatedResponse = await server
+      .get(feedPath)
+      .expect(200);
+
+    expect(updatedResponse.text).toContain(`UID:enrollment-${posting.id}-2099-03-01@`);
+    expect(updatedResponse.text).not.toContain(`UID:enrollment-${posting.id}-2099-03-02@`);
+    expect(updatedResponse.text).toContain('SUMMARY:Harbour Cleanup');
+  });
+
+  test('rotating the feed link retires the old one', async () => {
+    const { volunteerAccount } = await createEnrolledPosting('calendar-rotate');
+
+    const firstResponse = await server
+      .post('/user/calendar-feed')
+      .set(authHeader(volunteerAccount.token))
+      .expect(200);
+    const secondResponse = await server
+      .post('/user/calendar-feed')
+      .set(authHeader(volunteerAccount.token))
+      .expect(200);
+
+    expect(secondResponse.body.feed_path).not.toBe(firstResponse.body.feed_path);
+
+    await server.get(firstResponse.body.feed_path).expect(404);
+    await server.get(secondResponse.body.feed_path).expect(200);
+
+    await server
+      .delete('/user/calendar-feed')
+      .set(authHeader(volunteerAccount.token))
+      .expect(200);
+
+    await server.get(secondResponse.body.feed_path).expect(404);
+  });
+
+  test('serves an organization feed with enrollment counts per occurrence', async () => {
+    const { organizationAccount, posting } = await createEnrolledPosting('calendar-org');
+
+    const createResponse = await server
+      .post('/user/calendar-feed')
+      .set(authHeader(organizationAccount.token))
+      .expect(200);
+
+    const feedResponse = await server
+      .get(createResponse.body.feed_path)
+      .expect(200);
+
+    expect(feedResponse.text).toContain(`UID:posting-${posting.id}-2099-03-01@`);
+    expect(feedResponse.text).toContain('SUMMARY:Beach Cleanup (1/5 enrolled)');
+  });
+
+  test('organization viewers cannot replace the shared feed link', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'calendar-viewer-org@example.com' });
+    const viewer = await createOrganizationMemberAccount(transaction, {
+      organizationId: organization.id,
+      email: 'calendar-viewer@example.com',
+      role: 'viewer',
+    });
+
+    await server
+      .get('/user/calendar-feed')
+      .set(authHeader(viewer.token))
+      .expect(200);
+
+    await server
+      .post('/user/calendar-feed')
+      .set(authHeader(viewer.token))
+      .expect(403);
+  });
+});
+
+describe('Posting calendar downloads', () => {
+  test('volunteers download their enrolled dates for a posting', async () => {
+    const { volunteerAccount, posting } = await createEnrolledPosting('calendar-download');
+    const otherVolunteer = await createVolunteerAccount(transaction, { email: 'calendar-download-other@example.com' });
+
+    const response = await server
+      .get(`/volunteer/posting/${posting.id}/calendar.ics`)
+      .set(authHeader(volunteerAccount.token))
+      .expect('Content-Disposition', `attachment; filename="willing-posting-${posting.id}.ics"`)
+      .expect(200);
+
+    expect(response.text).toContain('BEGIN:VCALENDAR');
+    expect(response.text.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+
+    await server
+      .get(`/volunteer/posting/${posting.id}/calendar.ics`)
+      .set(authHeader(otherVolunteer.token))
+      .expect(404);
+  });
+
+  test('organizations download the schedule of their own postings only', async () => {
+    const { organizationAccount, posting } = await createEnrolledPosting('calendar-org-download');
+    const otherOrganization = await createOrganizationAccount(transaction, { email: 'calendar-org-download-other@example.com' });
+
+    const response = await server
+      .get(`/organization/posting/${posting.id}/calendar.ics`)
+      .set(authHeader(organizationAccount.token))
+      .expect(200);
+
+    expect(response.text.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+
+    await server
+      .get(`/organization/posting/${posting.id}/calendar.ics`)
+      .set(authHeader(otherOrganization.token))
+      .expect(404);
+  });
+});
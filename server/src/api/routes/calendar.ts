@@ -0,0 +1,56 @@
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import { type Kysely } from 'kysely';
+
+import { type UserCalendarFeedResponse, type UserCalendarFeedRevokeResponse } from './calendar.types.ts';
+import authorizeOnly from '../../auth/authorizeOnly.ts';
+import { type CalendarFeedRole, type Database } from '../../db/tables/index.ts';
+import {
+  getCalendarFeedPath,
+  getCalendarFeedToken,
+  revokeCalendarFeedToken,
+  rotateCalendarFeedToken,
+  type CalendarFeedOwner,
+} from '../../services/calendar/index.ts';
+
+const getFeedOwner = (req: Request): CalendarFeedOwner => ({
+  user_id: req.userJWT!.id,
+  role: req.userJWT!.role as CalendarFeedRole,
+});
+
+// An organization shares one feed, so viewers can read its link but not replace it
+const authorizeFeedChange = (req: Request, res: Response, next: NextFunction) => {
+  if (req.userJWT!.role === 'organization' && req.organizationRole === 'viewer') {
+    res.status(403);
+    next(new Error('Your organization role does not allow this action'));
+  } else {
+    next();
+  }
+};
+
+function createCalendarFeedRouter(db: Kysely<Database>) {
+  const calendarFeedRouter = Router();
+
+  calendarFeedRouter.use(authorizeOnly('organization', 'volunteer'));
+
+  calendarFeedRouter.get('/', async (req, res: Response<UserCalendarFeedResponse>) => {
+    const token = await getCalendarFeedToken(db, getFeedOwner(req));
+
+    res.json({ feed_path: token ? getCalendarFeedPath(token) : null });
+  });
+
+  calendarFeedRouter.post('/', authorizeFeedChange, async (req, res: Response<UserCalendarFeedResponse>) => {
+    const token = await rotateCalendarFeedToken(db, getFeedOwner(req));
+
+    res.json({ feed_path: getCalendarFeedPath(token) });
+  });
+
+  calendarFeedRouter.delete('/', authorizeFeedChange, async (req, res: Response<UserCalendarFeedRevokeResponse>) => {
+    await revokeCalendarFeedToken(db, getFeedOwner(req));
+
+    res.json({});
+  });
+
+  return calendarFeedRouter;
+}
+
+export default createCalendarFeedRouter;
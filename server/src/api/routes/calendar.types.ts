@@ -0,0 +1,7 @@
+import { type SuccessResponse } from '../../types.ts';
+
+export type UserCalendarFeedResponse = {
+  feed_path: string | null;
+};
+
+export type UserCalendarFeedRevokeResponse = SuccessResponse;
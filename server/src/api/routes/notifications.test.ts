@@ -0,0 +1,282 @@
+import supertest from 'supertest';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import createApp from '../../app.ts';
+import database from '../../db/index.ts';
+import { sendDueRosterReminders, sendDueShiftReminders } from '../../services/reminders/index.ts';
+import * as emailService from '../../services/resend/emails.ts';
+import { createAdminAccount, createOrganizationAccount, createVolunteerAccount } from '../../tests/fixtures/accounts.ts';
+import { createPosting } from '../../tests/fixtures/organizationData.ts';
+import { authHeader } from '../../tests/helpers/authHeader.ts';
+
+import type { Database, NotificationType } from '../../db/tables/index.ts';
+import type { ControlledTransaction } from 'kysely';
+import type TestAgent from 'supertest/lib/agent.js';
+
+let transaction: ControlledTransaction<Database>;
+let server: TestAgent;
+
+beforeEach(async () => {
+  transaction = await database.startTransaction().execute();
+  server = supertest(createApp(transaction));
+});
+
+afterEach(async () => {
+  await transaction.rollback().execute();
+  vi.restoreAllMocks();
+});
+
+const insertNotification = (
+  userId: number,
+  role: 'admin' | 'organization' | 'volunteer',
+  overrides: { type?: NotificationType; title?: string; read_at?: Date | null; created_at?: Date } = {},
+) => transaction
+  .insertInto('notification')
+  .values({
+    user_id: userId,
+    role,
+    type: overrides.type ?? 'application_accepted',
+    title: overrides.title ?? 'Application accepted',
+    message: 'Your application was accepted.',
+    link: null,
+    read_at: overrides.read_at ?? null,
+    ...(overrides.created_at ? { created_at: overrides.created_at } : {}),
+  })
+  .returningAll()
+  .executeTakeFirstOrThrow();
+
+describe('GET /user/notifications', () => {
+  test('returns 403 without a token', async () => {
+    await server.get('/user/notifications').expect(403);
+  });
+
+  test('lists only the caller\'s notifications, newest first, with the unread count', async () => {
+    const { volunteer, token } = await createVolunteerAccount(transaction, { email: 'notif-list@example.com' });
+    const { volunteer: otherVolunteer } = await createVolunteerAccount(transaction, { email: 'notif-list-other@example.com' });
+
+    await insertNotification(volunteer.id, 'volunteer', { title: 'Older', created_at: new Date('2026-01-01T00:00:00.000Z') });
+    await insertNotification(volunteer.id, 'volunteer', { title: 'Read', read_at: new Date(), created_at: new Date('2026-01-02T00:00:00.000Z') });
+    await insertNotification(volunteer.id, 'volunteer', { title: 'Newest', created_at: new Date('2026-01-03T00:00:00.000Z') });
+    await insertNotification(otherVolunteer.id, 'volunteer', { title: 'Someone else' });
+    await insertNotification(volunteer.id, 'organization', { title: 'Same id, other role' });
+
+    const response = await server
+      .get('/user/notifications')
+      .set(authHeader(token))
+      .expect(200);
+
+    expect(response.body.notifications.map((notification: { title: string }) => notification.title))
+      .toEqual(['Newest', 'Read', 'Older']);
+    expect(response.body.unread_count).toBe(2);
+
+    const unreadResponse = await server
+      .get('/user/notifications')
+      .query({ unread_only: 'true', limit: '1' })
+      .set(authHeader(token))
+      .expect(200);
+
+    expect(unreadResponse.body.notifications).toHaveLength(1);
+    expect(unreadResponse.body.notifications[0].title).toBe('Newest');
+    expect(unreadResponse.body.unread_count).toBe(2);
+  });
+});
+
+describe('POST /user/notifications/:id/read', () => {
+  test('marks a notification as read', async () => {
+    const { volunteer, token } = await createVolunteerAccount(transaction, { email: 'notif-read@example.com' });
+    const notification = await insertNotification(volunteer.id, 'volunteer');
+
+    const response = await server
+      .post(`/user/notifications/${notification.id}/read`)
+      .set(authHeader(token))
+      .expect(200);
+
+    expect(response.body.notification.id).toBe(notification.id);
+    expect(response.body.notification.read_at).not.toBeNull();
+  });
+
+  test('returns 404 for another user\'s notification', async () => {
+    const { token } = await createVolunteerAccount(transaction, { email: 'notif-read-owner@example.com' });
+    const { volunteer: otherVolunteer } = await createVolunteerAccount(transaction, { email: 'notif-read-other@example.com' });
+    const notification = await insertNotification(otherVolunteer.id, 'volunteer');
+
+    await server
+      .post(`/user/notifications/${notification.id}/read`)
+      .set(authHeader(token))
+      .expect(404);
+  });
+});
+
+describe('POST /user/notifications/read-all', () => {
+  test('marks every unread notification of the caller as read', async () => {
+    const { admin, token } = await createAdminAccount(transaction, { email: 'notif-read-all@example.com' });
+    await insertNotification(admin.id, 'admin', { type: 'organization_request_submitted' });
+    await insertNotification(admin.id, 'admin', { type: 'organization_request_submitted' });
+
+    await server
+      .post('/user/notifications/read-all')
+      .set(authHeader(token))
+      .expect(200);
+
+    const response = await server
+      .get('/user/notifications')
+      .set(authHeader(token))
+      .expect(200);
+
+    expect(response.body.unread_count).toBe(0);
+  });
+});
+
+describe('/user/notifications/preferences', () => {
+  test('defaults every configurable type to both channels', async () => {
+    const { token } = await createVolunteerAccount(transaction, { email: 'notif-prefs-default@example.com' });
+
+    const response = await server
+      .get('/user/notifications/preferences')
+      .set(authHeader(token))
+      .expect(200);
+
+    expect(response.body.preferences).toEqual([
+      { type: 'application_accepted', email_enabled: true, in_app_enabled: true },
+      { type: 'application_rejected', email_enabled: true, in_app_enabled: true },
+      { type: 'posting_deleted', email_enabled: true, in_app_enabled: true },
+      { type: 'waitlist_promoted', email_enabled: true, in_app_enabled: true },
+      { type: 'shift_reminder', email_enabled: true, in_app_enabled: true },
+    ]);
+  });
+
+  test('rejects types that the role cannot configure', async () => {
+    const { token } = await createVolunteerAccount(transaction, { email: 'notif-prefs-invalid@example.com' });
+
+    await server
+      .put('/user/notifications/preferences')
+      .set(authHeader(token))
+      .send({ preferences: [{ type: 'organization_request_submitted', email_enabled: false, in_app_enabled: true }] })
+      .expect(400);
+  });
+
+  test('applies saved preferences when an application is rejected', async () => {
+    const rejectionEmailSpy = vi.spyOn(emailService, 'sendVolunteerApplicationRejectedEmail').mockResolvedValue(undefined);
+    const { organization, token: organizationToken } = await createOrganizationAccount(transaction, { email: 'notif-prefs-org@example.com' });
+    const { volunteer, token } = await createVolunteerAccount(transaction, { email: 'notif-prefs-vol@example.com' });
+    const posting = await createPosting(transaction, {
+      organizationId: organization.id,
+      overrides: {
+        automatic_acceptance: false,
+        start_date: new Date('2099-01-01T00:00:00.000Z'),
+        end_date: new Date('2099-01-02T00:00:00.000Z'),
+      },
+    });
+    const application = await transaction
+      .insertInto('enrollment_application')
+      .values({ volunteer_id: volunteer.id, posting_id: posting.id, message: null })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await server
+      .put('/user/notifications/preferences')
+      .set(authHeader(token))
+      .send({ preferences: [{ type: 'application_rejected', email_enabled: false, in_app_enabled: true }] })
+      .expect(200);
+
+    await server
+      .delete(`/organization/posting/${posting.id}/applications/${application.id}`)
+      .set(authHeader(organizationToken))
+      .expect(200);
+
+    expect(rejectionEmailSpy).not.toHaveBeenCalled();
+
+    const response = await server
+      .get('/user/notifications')
+      .set(authHeader(token))
+      .expect(200);
+
+    expect(response.body.notifications).toHaveLength(1);
+    expect(response.body.notifications[0]).toMatchObject({
+      type: 'application_rejected',
+      link: `/posting/${posting.id}`,
+    });
+  });
+});
+
+describe('Shift reminders', () => {
+  const createEnrolledShift = async (emailPrefix: string) => {
+    const { organization } = await createOrganizationAccount(transaction, { email: `${emailPrefix}-org@example.com` });
+    const volunteerAccount = await createVolunteerAccount(transaction, { email: `${emailPrefix}-vol@example.com` });
+    const posting = await createPosting(transaction, {
+      organizationId: organization.id,
+      overrides: {
+        start_date: new Date('2099-01-10T00:00:00.000Z'),
+        end_date: new Date('2099-01-10T00:00:00.000Z'),
+        start_time: '09:00',
+        location_name: 'Hamra Street',
+      },
+    });
+    const enrollment = await transaction
+      .insertInto('enrollment')
+      .values({ volunteer_id: volunteerAccount.volunteer.id, posting_id: posting.id, attended: false })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+    await transaction
+      .insertInto('enrollment_date')
+      .values({ enrollment_id: enrollment.id, posting_id: posting.id, date: new Date('2099-01-10T00:00:00.000Z'), attended: false })
+      .execute();
+
+    return { organization, posting, ...volunteerAccount };
+  };
+
+  test('sends each reminder window exactly once', async () => {
+    const reminderEmailSpy = vi.spyOn(emailService, 'sendShiftReminderEmail').mockResolvedValue(undefined);
+    const { posting, token } = await createEnrolledShift('reminder-once');
+
+    expect(await sendDueShiftReminders(transaction, new Date('2099-01-09T10:00:00.000Z'))).toBe(1);
+    expect(await sendDueShiftReminders(transaction, new Date('2099-01-09T11:00:00.000Z'))).toBe(0);
+    expect(await sendDueShiftReminders(transaction, new Date('2099-01-10T07:30:00.000Z'))).toBe(1);
+
+    expect(reminderEmailSpy).toHaveBeenCalledTimes(2);
+    expect(reminderEmailSpy.mock.calls[0]![0]).toMatchObject({
+      postingId: posting.id,
+      locationName: 'Hamra Street',
+      startsAt: new Date('2099-01-10T09:00:00.000Z'),
+    });
+
+    const response = await server
+      .get('/user/notifications')
+      .set(authHeader(token))
+      .expect(200);
+
+    expect(response.body.notifications).toHaveLength(2);
+    expect(response.body.notifications[0]).toMatchObject({
+      type: 'shift_reminder',
+      link: `/posting/${posting.id}`,
+    });
+  });
+
+  test('skips the email when the volunteer opted out', async () => {
+    const reminderEmailSpy = vi.spyOn(emailService, 'sendShiftReminderEmail').mockResolvedValue(undefined);
+    const { token } = await createEnrolledShift('reminder-opt-out');
+
+    await server
+      .put('/user/notifications/preferences')
+      .set(authHeader(token))
+      .send({ preferences: [{ type: 'shift_reminder', email_enabled: false, in_app_enabled: true }] })
+      .expect(200);
+
+    expect(await sendDueShiftReminders(transaction, new Date('2099-01-09T10:00:00.000Z'))).toBe(1);
+    expect(reminderEmailSpy).not.toHaveBeenCalled();
+  });
+
+  test('sends the organization tomorrow\'s roster once', async () => {
+    const rosterEmailSpy = vi.spyOn(emailService, 'sendOrganizationRosterEmail').mockResolvedValue(undefined);
+    const { posting, volunteer } = await createEnrolledShift('reminder-roster');
+
+    expect(await sendDueRosterReminders(transaction, new Date('2099-01-09T00:05:00.000Z'))).toBe(1);
+    expect(await sendDueRosterReminders(transaction, new Date('2099-01-09T12:00:00.000Z'))).toBe(0);
+
+    expect(rosterEmailSpy).toHaveBeenCalledTimes(1);
+    expect(rosterEmailSpy.mock.calls[0]![0]).toMatchObject({
+      postingId: posting.id,
+      volunteers: [{ name: `${volunteer.first_name} ${volunteer.last_name}`, email: volunteer.email }],
+    });
+  });
+});
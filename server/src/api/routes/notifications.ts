@@ -0,0 +1,153 @@
+import { Router, type Response } from 'express';
+import { sql, type Kysely } from 'kysely';
+import zod from 'zod';
+
+import {
+  type UserNotificationPreferencesResponse,
+  type UserNotificationReadResponse,
+  type UserNotificationsReadAllResponse,
+  type UserNotificationsResponse,
+} from './notifications.types.ts';
+import { parseOptionalBooleanQueryParam, parseOptionalNumberQueryParam } from './utils/listQuery.ts';
+import authorizeOnly from '../../auth/authorizeOnly.ts';
+import { type Database, newNotificationPreferenceSchema } from '../../db/tables/index.ts';
+import { getNotificationPreferences, NOTIFICATION_TYPES_BY_ROLE } from '../../services/notifications/index.ts';
+
+const DEFAULT_NOTIFICATIONS_LIMIT = 20;
+const MAX_NOTIFICATIONS_LIMIT = 100;
+
+const notificationParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive('ID must be a positive number'),
+});
+
+const notificationPreferencesBodySchema = zod.object({
+  preferences: zod.array(newNotificationPreferenceSchema),
+});
+
+function createNotificationsRouter(db: Kysely<Database>) {
+  const notificationsRouter = Router();
+
+  notificationsRouter.use(authorizeOnly('admin', 'organization', 'volunteer'));
+
+  notificationsRouter.get('/', async (req, res: Response<UserNotificationsResponse>) => {
+    const { id: userId, role } = req.userJWT!;
+    const unreadOnly = parseOptionalBooleanQueryParam(req.query.unread_only) ?? false;
+    const requestedLimit = parseOptionalNumberQueryParam(req.query.limit) ?? DEFAULT_NOTIFICATIONS_LIMIT;
+    const limit = Math.min(MAX_NOTIFICATIONS_LIMIT, Math.max(1, Math.trunc(requestedLimit)));
+
+    let notificationsQuery = db
+      .selectFrom('notification')
+      .selectAll()
+      .where('user_id', '=', userId)
+      .where('role', '=', role);
+
+    if (unreadOnly) {
+      notificationsQuery = notificationsQuery.where('read_at', 'is', null);
+    }
+
+    const [notifications, unreadRow] = await Promise.all([
+      notificationsQuery
+        .orderBy('created_at', 'desc')
+        .orderBy('id', 'desc')
+        .limit(limit)
+        .execute(),
+      db
+        .selectFrom('notification')
+        .select(sql<number>`count(*)`.as('count'))
+        .where('user_id', '=', userId)
+        .where('role', '=', role)
+        .where('read_at', 'is', null)
+        .executeTakeFirst(),
+    ]);
+
+    res.json({
+      notifications,
+      unread_count: Number(unreadRow?.count ?? 0),
+    });
+  });
+
+  notificationsRouter.post('/read-all', async (req, res: Response<UserNotificationsReadAllResponse>) => {
+    const { id: userId, role } = req.userJWT!;
+
+    await db
+      .updateTable('notification')
+      .set({ read_at: sql<Date>`now()` })
+      .where('user_id', '=', userId)
+      .where('role', '=', role)
+      .where('read_at', 'is', null)
+      .execute();
+
+    res.json({});
+  });
+
+  notificationsRouter.get('/preferences', async (req, res: Response<UserNotificationPreferencesResponse>) => {
+    const { id: userId, role } = req.userJWT!;
+
+    const preferences = await getNotificationPreferences(db, { user_id: userId, role });
+
+    res.json({ preferences });
+  });
+
+  notificationsRouter.put('/preferences', async (req, res: Response<UserNotificationPreferencesResponse>) => {
+    const { id: userId, role } = req.userJWT!;
+    const body = notificationPreferencesBodySchema.parse(req.body);
+    const allowedTypes = NOTIFICATION_TYPES_BY_ROLE[role];
+
+    const unsupportedPreference = body.preferences.find(preference => !allowedTypes.includes(preference.type));
+    if (unsupportedPreference) {
+      res.status(400);
+      throw new Error(`Notification type ${unsupportedPreference.type} is not available for your account`);
+    }
+
+    // The last entry wins when a type is listed twice
+    const preferencesByType = new Map(body.preferences.map(preference => [preference.type, preference]));
+
+    if (preferencesByType.size > 0) {
+      await db
+        .insertInto('notification_preference')
+        .values([...preferencesByType.values()].map(preference => ({
+          user_id: userId,
+          role,
+          type: preference.type,
+          email_enabled: preference.email_enabled,
+          in_app_enabled: preference.in_app_enabled,
+        })))
+        .onConflict(oc => oc
+          .columns(['user_id', 'role', 'type'])
+          .doUpdateSet(eb => ({
+            email_enabled: eb.ref('excluded.email_enabled'),
+            in_app_enabled: eb.ref('excluded.in_app_enabled'),
+          })))
+        .execute();
+    }
+
+    const preferences = await getNotificationPreferences(db, { user_id: userId, role });
+
+    res.json({ preferences });
+  });
+
+  notificationsRouter.post('/:id/read', async (req, res: Response<UserNotificationReadResponse>) => {
+    const { id: userId, role } = req.userJWT!;
+    const { id } = notificationParamsSchema.parse(req.params);
+
+    const notification = await db
+      .updateTable('notification')
+      .set({ read_at: sql<Date>`COALESCE(read_at, now())` })
+      .where('id', '=', id)
+      .where('user_id', '=', userId)
+      .where('role', '=', role)
+      .returningAll()
+      .executeTakeFirst();
+
+    if (!notification) {
+      res.status(404);
+      throw new Error('Notification not found');
+    }
+
+    res.json({ notification });
+  });
+
+  return notificationsRouter;
+}
+
+export default createNotificationsRouter;
@@ -0,0 +1,17 @@
+import { type Notification, type NotificationPreference } from '../../db/tables/index.ts';
+import { type SuccessResponse } from '../../types.ts';
+
+export type UserNotificationsResponse = {
+  notifications: Notification[];
+  unread_count: number;
+};
+
+export type UserNotificationReadResponse = {
+  notification: Notification;
+};
+
+export type UserNotificationsReadAllResponse = SuccessResponse;
+
+export type UserNotificationPreferencesResponse = {
+  preferences: Pick<NotificationPreference, 'type' | 'email_enabled' | 'in_app_enabled'>[];
+};
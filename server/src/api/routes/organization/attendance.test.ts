@@ -4,6 +4,7 @@ import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 import createApp from '../../../app.ts';
 import database from '../../../db/index.ts';
 import * as embeddingService from '../../../services/embeddings/updates.ts';
+import { withSkillIds } from '../../../services/skills/index.ts';
 import { createOrganizationAccount, createVolunteerAccount } from '../../../tests/fixtures/accounts.ts';
 import { createPosting } from '../../../tests/fixtures/organizationData.ts';
 
@@ -236,7 +237,7 @@ describe('Organization attendance endpoints', () => {
 
     await transaction
       .insertInto('volunteer_skill')
-      .values({ volunteer_id: volunteer.volunteer.id, name: 'First Aid' })
+      .values(await withSkillIds(transaction, [{ volunteer_id: volunteer.volunteer.id, name: 'First Aid' }]))
       .execute();
 
     const posting = await createPosting(transaction, {
@@ -408,3 +409,158 @@ describe('Organization attendance endpoints', () => {
     expect(updatedEnrollment.attended).toBe(true);
   });
 });
+
+describe('Organization QR check-in', () => {
+  const createEnrolledVolunteer = async (email: string, postingId: number, date = new Date()) => {
+    const volunteer = await createVolunteerAccount(transaction, { email });
+
+    const enrollment = await transaction
+      .insertInto('enrollment')
+      .values({
+        volunteer_id: volunteer.volunteer.id,
+        posting_id: postingId,
+        attended: false,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    const dateRecord = await transaction
+      .insertInto('enrollment_date')
+      .values({
+        enrollment_id: enrollment.id,
+        posting_id: postingId,
+        date,
+        attended: false,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    const codesResponse = await server
+      .get(`/volunteer/posting/${postingId}/check-in-codes`)
+      .set('Authorization', `Bearer ${volunteer.token}`)
+      .expect(200);
+
+    return { volunteer, enrollment, dateRecord, code: codesResponse.body.codes[0] };
+  };
+
+  test('checks a volunteer in and out and marks the date as attended', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-check-in@example.com' });
+    const posting = await createPosting(transaction, { organizationId: org.organization.id });
+    const { volunteer, enrollment, dateRecord, code } = await createEnrolledVolunteer('vol-check-in@example.com', posting.id);
+
+    expect(code).toMatchObject({
+      enrollment_date_id: dateRecord.id,
+      token: expect.any(String),
+      checked_in_at: null,
+      checked_out_at: null,
+    });
+
+    const checkIn = await server
+      .post(`/organization/posting/${posting.id}/check-in`)
+      .set('Authorization', `Bearer ${org.token}`)
+      .send({ token: code.token })
+      .expect(200);
+
+    expect(checkIn.body).toMatchObject({
+      action: 'check_in',
+      volunteer: { id: volunteer.volunteer.id },
+      enrollment_date: { id: dateRecord.id, attended: true, checked_out_at: null },
+    });
+    expect(recomputeVolunteerExperienceVectorSpy).toHaveBeenCalledWith(volunteer.volunteer.id, transaction);
+
+    const updatedEnrollment = await transaction
+      .selectFrom('enrollment')
+      .select(['attended'])
+      .where('id', '=', enrollment.id)
+      .executeTakeFirstOrThrow();
+    expect(updatedEnrollment.attended).toBe(true);
+
+    const immediateRescan = await server
+      .post(`/organization/posting/${posting.id}/check-in`)
+      .set('Authorization', `Bearer ${org.token}`)
+      .send({ token: code.token })
+      .expect(409);
+    expect(immediateRescan.body.message).toContain('has just checked in');
+
+    await transaction
+      .updateTable('enrollment_date')
+      .set({ checked_in_at: new Date(Date.now() - 3 * 60 * 60 * 1000) })
+      .where('id', '=', dateRecord.id)
+      .execute();
+
+    const checkOut = await server
+      .post(`/organization/posting/${posting.id}/check-in`)
+      .set('Authorization', `Bearer ${org.token}`)
+      .send({ token: code.token })
+      .expect(200);
+
+    expect(checkOut.body).toMatchObject({
+      action: 'check_out',
+      enrollment_date: { id: dateRecord.id, checked_out_at: expect.any(String) },
+    });
+
+    const finalScan = await server
+      .post(`/organization/posting/${posting.id}/check-in`)
+      .set('Authorization', `Bearer ${org.token}`)
+      .send({ token: code.token })
+      .expect(409);
+    expect(finalScan.body.message).toContain('has already checked out');
+  });
+
+  test('rejects tampered codes and codes for another posting', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-check-in-invalid@example.com' });
+    const posting = await createPosting(transaction, { organizationId: org.organization.id });
+    const otherPosting = await createPosting(transaction, { organizationId: org.organization.id });
+    const { code } = await createEnrolledVolunteer('vol-check-in-invalid@example.com', otherPosting.id);
+
+    const wrongPosting = await server
+      .post(`/organization/posting/${posting.id}/check-in`)
+      .set('Authorization', `Bearer ${org.token}`)
+      .send({ token: code.token })
+      .expect(400);
+    expect(wrongPosting.body.message).toBe('This check-in code belongs to a different posting');
+
+    const [payload] = code.token.split('.');
+    const tampered = await server
+      .post(`/organization/posting/${otherPosting.id}/check-in`)
+      .set('Authorization', `Bearer ${org.token}`)
+      .send({ token: `${payload}.AAAAAAAAAAAAAAAAAAAAAA` })
+      .expect(400);
+    expect(tampered.body.message).toBe('Invalid check-in code');
+  });
+
+  test('rejects codes for a date that has not come yet', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-check-in-future@example.com' });
+    const posting = await createPosting(transaction, { organizationId: org.organization.id });
+    const futureDate = new Date();
+    futureDate.setUTCDate(futureDate.getUTCDate() + 2);
+    const { dateRecord, code } = await createEnrolledVolunteer('vol-check-in-future@example.com', posting.id, futureDate);
+
+    const response = await server
+      .post(`/organization/posting/${posting.id}/check-in`)
+      .set('Authorization', `Bearer ${org.token}`)
+      .send({ token: code.token })
+      .expect(400);
+    expect(response.body.message).toBe('This check-in code is for a later date');
+
+    const unchangedDate = await transaction
+      .selectFrom('enrollment_date')
+      .select(['attended', 'checked_in_at'])
+      .where('id', '=', dateRecord.id)
+      .executeTakeFirstOrThrow();
+    expect(unchangedDate).toEqual({ attended: false, checked_in_at: null });
+  });
+
+  test('returns 404 when another organization scans the code', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-check-in-owner@example.com' });
+    const otherOrg = await createOrganizationAccount(transaction, { email: 'org-check-in-other@example.com' });
+    const posting = await createPosting(transaction, { organizationId: org.organization.id });
+    const { code } = await createEnrolledVolunteer('vol-check-in-owner@example.com', posting.id);
+
+    await server
+      .post(`/organization/posting/${posting.id}/check-in`)
+      .set('Authorization', `Bearer ${otherOrg.token}`)
+      .send({ token: code.token })
+      .expect(404);
+  });
+});
@@ -1,10 +1,16 @@
 import { Router, type Response } from 'express';
-import { type Kysely } from 'kysely';
+import { sql, type Kysely } from 'kysely';
 import zod from 'zod';
 
+import { type PostingCheckInResponse } from './attendance.types.ts';
 import { getPostingEnrollments } from './postingEnrollments.ts';
+import authorizeOrganizationRole from '../../../auth/authorizeOrganizationRole.ts';
+import config from '../../../config.ts';
 import { type Database } from '../../../db/tables/index.ts';
 import { recomputePostingVectorsForVolunteerEnrollments, recomputeVolunteerExperienceVector } from '../../../services/embeddings/updates.ts';
+import { verifyCheckInToken } from '../../../services/posting/checkInToken.ts';
+import { getPostingOccurrenceDates, getPostingOccurrenceOverrides } from '../../../services/posting/postingSchedule.ts';
+import { toCsv, toCsvFilename } from '../utils/csv.ts';
 
 const postingIdParamsSchema = zod.object({
   id: zod.coerce.number().int().positive('ID must be a positive number'),
@@ -18,69 +24,45 @@ const attendanceBulkUpdateBodySchema = zod.object({
   attended: zod.boolean(),
 });
 
-const toCsvCell = (value: string | number | boolean | null | undefined) => {
-  const stringValue = String(value ?? '');
-  return `"${stringValue.replace(/"/g, '""')}"`;
-};
-
-function formatDateToIso(date: Date): string {
-  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-}
-
-function normalizeStoredDate(value: Date | string | null | undefined): string | undefined {
-  if (value instanceof Date) {
-    return formatDateToIso(value);
-  }
+const checkInBodySchema = zod.object({
+  token: zod.string().trim().min(1, 'Check-in code is required'),
+});
 
-  if (typeof value === 'string') {
-    const datePart = value.split('T')[0]?.trim();
-    return datePart || undefined;
+const CHECK_OUT_GRACE_PERIOD_MS = 60 * 1000;
+
+/**
+ * An enrollment counts as attended as soon as one of its dates is attended.
+ */
+const syncEnrollmentAttendance = async (db: Kysely<Database>, enrollmentId: number, memberId: number | null, res: Response) => {
+  const enrollment = await db
+    .selectFrom('enrollment')
+    .select(['id', 'volunteer_id', 'attended'])
+    .where('id', '=', enrollmentId)
+    .executeTakeFirst();
+
+  if (!enrollment) {
+    res.status(500);
+    throw new Error('Enrollment record is missing');
   }
 
-  return undefined;
-}
-
-function parseIsoDateParts(value: string) {
-  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
-  if (!match) return undefined;
+  const enrollmentDates = await db
+    .selectFrom('enrollment_date')
+    .select(['attended'])
+    .where('enrollment_id', '=', enrollment.id)
+    .execute();
 
-  return {
-    year: Number(match[1]),
-    month: Number(match[2]),
-    day: Number(match[3]),
-  };
-}
-
-function getPostingDates(startDate: Date | string, endDate: Date | string): string[] {
-  const normalizedStartDate = normalizeStoredDate(startDate);
-  const normalizedEndDate = normalizeStoredDate(endDate);
-  const startParts = normalizedStartDate ? parseIsoDateParts(normalizedStartDate) : undefined;
-  const endParts = normalizedEndDate ? parseIsoDateParts(normalizedEndDate) : undefined;
-
-  if (!startParts || !endParts) {
-    return [];
-  }
+  const updatedEnrollmentAttended = enrollmentDates.length > 0 && enrollmentDates.some(row => row.attended);
 
-  const result: string[] = [];
-  const current = new Date(startParts.year, startParts.month - 1, startParts.day);
-  const end = new Date(endParts.year, endParts.month - 1, endParts.day);
+  if (enrollment.attended !== updatedEnrollmentAttended) {
+    await db
+      .updateTable('enrollment')
+      .set({ attended: updatedEnrollmentAttended, attendance_marked_by_member_id: memberId })
+      .where('id', '=', enrollment.id)
+      .execute();
 
-  while (current.getTime() <= end.getTime()) {
-    result.push(formatDateToIso(current));
-    current.setDate(current.getDate() + 1);
+    await recomputeVolunteerExperienceVector(enrollment.volunteer_id, db);
+    await recomputePostingVectorsForVolunteerEnrollments(enrollment.volunteer_id, db);
   }
-
-  return result;
-}
-
-const toCsv = (
-  rows: Array<Record<string, string | number | boolean | null | undefined>>,
-  headers: string[],
-) => {
-  if (headers.length === 0) return '';
-  const headerLine = headers.map(toCsvCell).join(',');
-  const bodyLines = rows.map(row => headers.map(header => toCsvCell(row[header])).join(','));
-  return [headerLine, ...bodyLines].join('\n');
 };
 
 function createAttendanceRouter(db: Kysely<Database>) {
@@ -92,7 +74,16 @@ function createAttendanceRouter(db: Kysely<Database>) {
 
     const posting = await db
       .selectFrom('posting')
-      .select(['id', 'title', 'location_name', 'start_date', 'end_date', 'allows_partial_attendance'])
+      .select([
+        'id',
+        'title',
+        'location_name',
+        'start_date',
+        'end_date',
+        'allows_partial_attendance',
+        'recurrence_weekdays',
+        'recurrence_interval',
+      ])
       .where('id', '=', postingId)
       .where('organization_id', '=', orgId)
       .executeTakeFirst();
@@ -102,16 +93,18 @@ function createAttendanceRouter(db: Kysely<Database>) {
       throw new Error('Posting not found');
     }
 
-    const enrollments = await getPostingEnrollments(db, postingId);
-    const posting_dates = posting.start_date && posting.end_date
-      ? getPostingDates(posting.start_date, posting.end_date)
-      : [];
+    const [enrollments, occurrenceOverrides] = await Promise.all([
+      getPostingEnrollments(db, postingId),
+      getPostingOccurrenceOverrides(db, [postingId]),
+    ]);
+    const posting_dates = getPostingOccurrenceDates(posting, occurrenceOverrides.get(postingId));
 
     res.json({ posting, enrollments, posting_dates });
   });
 
-  attendanceRouter.patch('/:id/attendance', async (req, res: Response) => {
+  attendanceRouter.patch('/:id/attendance', authorizeOrganizationRole('owner', 'coordinator'), async (req, res: Response) => {
     const orgId = req.userJWT!.id;
+    const memberId = req.userJWT!.member_id ?? null;
     const { id: postingId } = postingIdParamsSchema.parse(req.params);
     const body = attendanceBulkUpdateBodySchema.parse(req.body);
 
@@ -129,7 +122,7 @@ function createAttendanceRouter(db: Kysely<Database>) {
 
     const changed = await db
       .updateTable('enrollment')
-      .set({ attended: body.attended })
+      .set({ attended: body.attended, attendance_marked_by_member_id: memberId })
       .where('posting_id', '=', postingId)
       .where('attended', '!=', body.attended)
       .returning('volunteer_id')
@@ -144,8 +137,9 @@ function createAttendanceRouter(db: Kysely<Database>) {
     res.json({ updated_count: changed.length });
   });
 
-  attendanceRouter.patch('/:id/enrollment-dates/:enrollmentDateId/attendance', async (req, res: Response) => {
+  attendanceRouter.patch('/:id/enrollment-dates/:enrollmentDateId/attendance', authorizeOrganizationRole('owner', 'coordinator'), async (req, res: Response) => {
     const orgId = req.userJWT!.id;
+    const memberId = req.userJWT!.member_id ?? null;
     const { id: postingId, enrollmentDateId } = zod.object({
       id: zod.coerce.number().int().positive(),
       enrollmentDateId: zod.coerce.number().int().positive(),
@@ -178,47 +172,119 @@ function createAttendanceRouter(db: Kysely<Database>) {
 
     await db
       .updateTable('enrollment_date')
-      .set({ attended: body.attended })
+      .set({ attended: body.attended, attendance_marked_by_member_id: memberId })
       .where('id', '=', enrollmentDateId)
       .execute();
 
-    const enrollment = await db
-      .selectFrom('enrollment')
-      .select(['id', 'volunteer_id'])
-      .where('id', '=', dateRecord.enrollment_id)
+    await syncEnrollmentAttendance(db, dateRecord.enrollment_id, memberId, res);
+
+    res.json({});
+  });
+
+  attendanceRouter.post('/:id/check-in', authorizeOrganizationRole('owner', 'coordinator'), async (req, res: Response<PostingCheckInResponse>) => {
+    const orgId = req.userJWT!.id;
+    const memberId = req.userJWT!.member_id ?? null;
+    const { id: postingId } = postingIdParamsSchema.parse(req.params);
+    const { token } = checkInBodySchema.parse(req.body);
+
+    const posting = await db
+      .selectFrom('posting')
+      .select(['id'])
+      .where('id', '=', postingId)
+      .where('organization_id', '=', orgId)
       .executeTakeFirst();
 
-    if (!enrollment) {
-      res.status(500);
-      throw new Error('Enrollment record is missing');
+    if (!posting) {
+      res.status(404);
+      throw new Error('Posting not found');
+    }
+
+    const tokenResult = verifyCheckInToken(token, config.JWT_SECRET);
+    if (!tokenResult.valid) {
+      res.status(400);
+      throw new Error(tokenResult.reason === 'expired' ? 'This check-in code has expired' : 'Invalid check-in code');
     }
 
-    const enrollmentDates = await db
+    const dateRecord = await db
       .selectFrom('enrollment_date')
-      .select(['attended'])
-      .where('enrollment_id', '=', enrollment.id)
-      .execute();
+      .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
+      .innerJoin('volunteer_account', 'volunteer_account.id', 'enrollment.volunteer_id')
+      .select([
+        'enrollment_date.id',
+        'enrollment_date.enrollment_id',
+        'enrollment_date.posting_id',
+        sql<string>`to_char(enrollment_date.date, 'YYYY-MM-DD')`.as('date'),
+        'enrollment_date.checked_in_at',
+        'enrollment_date.checked_out_at',
+        'volunteer_account.id as volunteer_id',
+        'volunteer_account.first_name',
+        'volunteer_account.last_name',
+      ])
+      .where('enrollment_date.id', '=', tokenResult.payload.enrollment_date_id)
+      .executeTakeFirst();
 
-    const updatedEnrollmentAttended = enrollmentDates.length > 0 && enrollmentDates.some(row => row.attended);
+    if (!dateRecord) {
+      res.status(404);
+      throw new Error('Enrollment date record not found');
+    }
 
-    const currentEnrollment = await db
-      .selectFrom('enrollment')
-      .select(['attended'])
-      .where('id', '=', enrollment.id)
-      .executeTakeFirst();
+    if (dateRecord.posting_id !== postingId) {
+      res.status(400);
+      throw new Error('This check-in code belongs to a different posting');
+    }
 
-    if (currentEnrollment && currentEnrollment.attended !== updatedEnrollmentAttended) {
-      await db
-        .updateTable('enrollment')
-        .set({ attended: updatedEnrollmentAttended })
-        .where('id', '=', enrollment.id)
-        .execute();
+    const now = new Date();
 
-      await recomputeVolunteerExperienceVector(enrollment.volunteer_id, db);
-      await recomputePostingVectorsForVolunteerEnrollments(enrollment.volunteer_id, db);
+    // Posting dates and times are wall-clock values stored as UTC, so today's posting date is the UTC date
+    if (dateRecord.date > now.toISOString().slice(0, 10)) {
+      res.status(400);
+      throw new Error('This check-in code is for a later date');
     }
 
-    res.json({});
+    if (dateRecord.checked_out_at) {
+      res.status(409);
+      throw new Error(`${dateRecord.first_name} ${dateRecord.last_name} has already checked out for this date`);
+    }
+
+    if (dateRecord.checked_in_at && now.getTime() - dateRecord.checked_in_at.getTime() < CHECK_OUT_GRACE_PERIOD_MS) {
+      res.status(409);
+      throw new Error(`${dateRecord.first_name} ${dateRecord.last_name} has just checked in, scan again when they leave`);
+    }
+
+    const action = dateRecord.checked_in_at ? 'check_out' : 'check_in';
+    const timestampColumn = action === 'check_in' ? 'checked_in_at' : 'checked_out_at';
+
+    // Only the first of two simultaneous scans records a timestamp
+    const updatedDate = await db
+      .updateTable('enrollment_date')
+      .set({ [timestampColumn]: now, attended: true, attendance_marked_by_member_id: memberId })
+      .where('id', '=', dateRecord.id)
+      .where(timestampColumn, 'is', null)
+      .returning([
+        'id',
+        sql<string>`to_char(enrollment_date.date, 'YYYY-MM-DD')`.as('date'),
+        'attended',
+        'checked_in_at',
+        'checked_out_at',
+      ])
+      .executeTakeFirst();
+
+    if (!updatedDate) {
+      res.status(409);
+      throw new Error('This check-in code was just scanned');
+    }
+
+    await syncEnrollmentAttendance(db, dateRecord.enrollment_id, memberId, res);
+
+    res.json({
+      action,
+      volunteer: {
+        id: dateRecord.volunteer_id,
+        first_name: dateRecord.first_name,
+        last_name: dateRecord.last_name,
+      },
+      enrollment_date: updatedDate,
+    });
   });
 
   attendanceRouter.get('/:id/attendance/export', async (req, res) => {
@@ -254,15 +320,15 @@ function createAttendanceRouter(db: Kysely<Database>) {
 
     const csvHeaders = ['enrollment_id', 'volunteer_id', 'first_name', 'last_name', 'email', 'date_of_birth', 'gender', 'attended', 'message', 'skills'];
     const csv = toCsv(rows, csvHeaders);
-    const safeTitle = posting.title.replace(/[^a-z0-9-_]+/gi, '_') || 'posting';
 
     res.setHeader('Content-Type', 'text/csv; charset=utf-8');
-    res.setHeader('Content-Disposition', `attachment; filename="${safeTitle}-attendance.csv"`);
+    res.setHeader('Content-Disposition', `attachment; filename="${toCsvFilename(posting.title, 'attendance')}"`);
     res.send(csv);
   });
 
-  attendanceRouter.patch('/:id/enrollments/:enrollmentId/attendance', async (req, res) => {
+  attendanceRouter.patch('/:id/enrollments/:enrollmentId/attendance', authorizeOrganizationRole('owner', 'coordinator'), async (req, res) => {
     const orgId = req.userJWT!.id;
+    const memberId = req.userJWT!.member_id ?? null;
     const { id: postingId, enrollmentId } = zod.object({
       id: zod.coerce.number().int().positive(),
       enrollmentId: zod.coerce.number().int().positive(),
@@ -299,7 +365,7 @@ function createAttendanceRouter(db: Kysely<Database>) {
 
     await db
       .updateTable('enrollment')
-      .set({ attended: body.attended })
+      .set({ attended: body.attended, attendance_marked_by_member_id: memberId })
       .where('id', '=', enrollmentId)
       .execute();
 
@@ -1,10 +1,10 @@
-import { type PostingWithoutVectors } from '../../../db/tables/index.ts';
+import { type EnrollmentDate, type PostingWithoutVectors, type VolunteerAccount } from '../../../db/tables/index.ts';
 import { type PostingEnrollment, type SuccessResponse } from '../../../types.ts';
 
 export type PostingEnrollmentAttendanceUpdateResponse = SuccessResponse;
 
 export type PostingAttendanceResponse = {
-  posting: Pick<PostingWithoutVectors, 'id' | 'title' | 'location_name' | 'start_date' | 'end_date' | 'allows_partial_attendance'>;
+  posting: Pick<PostingWithoutVectors, 'id' | 'title' | 'location_name' | 'start_date' | 'end_date' | 'allows_partial_attendance' | 'recurrence_weekdays' | 'recurrence_interval'>;
   enrollments: PostingEnrollment[];
   posting_dates: string[];
 };
@@ -12,3 +12,9 @@ export type PostingAttendanceResponse = {
 export type PostingAttendanceBulkUpdateResponse = {
   updated_count: number;
 };
+
+export type PostingCheckInResponse = {
+  action: 'check_in' | 'check_out';
+  volunteer: Pick<VolunteerAccount, 'id' | 'first_name' | 'last_name'>;
+  enrollment_date: Pick<EnrollmentDate, 'id' | 'attended' | 'checked_in_at' | 'checked_out_at'> & { date: string };
+};
@@ -10,6 +10,7 @@ import {
   type UploadCertificateSignatureResponse,
   type DeleteCertificateSignatureResponse,
 } from './certificateInfo.types.ts';
+import authorizeOrganizationRole from '../../../auth/authorizeOrganizationRole.ts';
 import { type Database } from '../../../db/tables/index.ts';
 import {
   organizationCertificateInfoSchema,
@@ -86,7 +87,7 @@ function createOrganizationCertificateInfoRouter(db: Kysely<Database>) {
   });
 
   // PUT /organization/certificate-info (update info without signature)
-  certificateInfoRouter.put('/', async (req, res: Response<UpdateCertificateInfoResponse>) => {
+  certificateInfoRouter.put('/', authorizeOrganizationRole('owner'), async (req, res: Response<UpdateCertificateInfoResponse>) => {
     const organizationId = req.userJWT!.id;
     const body = newOrganizationCertificateInfoSchema
       .omit({ signature_path: true })
@@ -178,6 +179,7 @@ function createOrganizationCertificateInfoRouter(db: Kysely<Database>) {
   // POST /organization/certificate-info/upload-signature (upload signature file)
   certificateInfoRouter.post(
     '/upload-signature',
+    authorizeOrganizationRole('owner'),
     uploadSingle(orgSignatureMulter, 'signature'),
     async (req: Request, res: Response<UploadCertificateSignatureResponse>) => {
       if (!req.file) {
@@ -263,6 +265,7 @@ function createOrganizationCertificateInfoRouter(db: Kysely<Database>) {
   // DELETE /organization/certificate-info/signature (delete signature file)
   certificateInfoRouter.delete(
     '/signature',
+    authorizeOrganizationRole('owner'),
     async (req, res: Response<DeleteCertificateSignatureResponse>) => {
       const organizationId = req.userJWT!.id;
 
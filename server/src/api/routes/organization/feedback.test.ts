@@ -0,0 +1,205 @@
+import supertest from 'supertest';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import createApp from '../../../app.ts';
+import database from '../../../db/index.ts';
+import { createAdminAccount, createOrganizationAccount, createVolunteerAccount } from '../../../tests/fixtures/accounts.ts';
+import { createPosting } from '../../../tests/fixtures/organizationData.ts';
+import { authHeader } from '../../../tests/helpers/authHeader.ts';
+
+import type { Database } from '../../../db/tables/index.ts';
+import type { ControlledTransaction } from 'kysely';
+import type TestAgent from 'supertest/lib/agent.js';
+
+let transaction: ControlledTransaction<Database, []>;
+let server: TestAgent;
+
+beforeEach(async () => {
+  transaction = await database.startTransaction().execute();
+  server = supertest(createApp(transaction));
+});
+
+afterEach(async () => {
+  await transaction.rollback().execute();
+});
+
+const setupEnrollment = async (attended: boolean) => {
+  const org = await createOrganizationAccount(transaction, { email: 'feedback-org@example.com' });
+  const volunteer = await createVolunteerAccount(transaction, { email: 'feedback-vol@example.com' });
+  const posting = await createPosting(transaction, {
+    organizationId: org.organization.id,
+    title: 'Beach Cleanup',
+  });
+
+  const enrollment = await transaction
+    .insertInto('enrollment')
+    .values({
+      volunteer_id: volunteer.volunteer.id,
+      posting_id: posting.id,
+      message: null,
+      attended,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  return { org, volunteer, posting, enrollment };
+};
+
+describe('Posting reviews', () => {
+  test('volunteers can review postings they attended and the organization rating reflects it', async () => {
+    const { org, volunteer, posting } = await setupEnrollment(true);
+
+    const initial = await server
+      .get(`/volunteer/posting/${posting.id}/review`)
+      .set(authHeader(volunteer.token))
+      .expect(200);
+
+    expect(initial.body).toEqual({ can_review: true, review: null });
+
+    const created = await server
+      .put(`/volunteer/posting/${posting.id}/review`)
+      .set(authHeader(volunteer.token))
+      .send({ rating: 4, comment: '  Well organized  ' })
+      .expect(200);
+
+    expect(created.body.review).toMatchObject({ posting_id: posting.id, rating: 4, comment: 'Well organized' });
+
+    const updated = await server
+      .put(`/volunteer/posting/${posting.id}/review`)
+      .set(authHeader(volunteer.token))
+      .send({ rating: 5, comment: '' })
+      .expect(200);
+
+    expect(updated.body.review).toMatchObject({ id: created.body.review.id, rating: 5, comment: null });
+
+    const profile = await server
+      .get(`/organization/${org.organization.id}`)
+      .expect(200);
+
+    expect(profile.body.rating).toEqual({ average_rating: 5, review_count: 1 });
+  });
+
+  test('volunteers cannot review postings they did not attend', async () => {
+    const { volunteer, posting } = await setupEnrollment(false);
+
+    const status = await server
+      .get(`/volunteer/posting/${posting.id}/review`)
+      .set(authHeader(volunteer.token))
+      .expect(200);
+
+    expect(status.body).toEqual({ can_review: false, review: null });
+
+    await server
+      .put(`/volunteer/posting/${posting.id}/review`)
+      .set(authHeader(volunteer.token))
+      .send({ rating: 1 })
+      .expect(403);
+  });
+
+  test('rejects ratings outside 1 to 5', async () => {
+    const { volunteer, posting } = await setupEnrollment(true);
+
+    await server
+      .put(`/volunteer/posting/${posting.id}/review`)
+      .set(authHeader(volunteer.token))
+      .send({ rating: 6 })
+      .expect(400);
+  });
+});
+
+describe('Volunteer feedback', () => {
+  test('organizations can give feedback to attended volunteers only', async () => {
+    const { org, posting, enrollment } = await setupEnrollment(false);
+
+    await server
+      .put(`/organization/posting/${posting.id}/enrollments/${enrollment.id}/feedback`)
+      .set(authHeader(org.token))
+      .send({ rating: 5 })
+      .expect(403);
+
+    await transaction
+      .updateTable('enrollment')
+      .set({ attended: true })
+      .where('id', '=', enrollment.id)
+      .execute();
+
+    const saved = await server
+      .put(`/organization/posting/${posting.id}/enrollments/${enrollment.id}/feedback`)
+      .set(authHeader(org.token))
+      .send({ rating: 5, comment: 'Reliable and kind' })
+      .expect(200);
+
+    expect(saved.body.feedback).toMatchObject({ enrollment_id: enrollment.id, rating: 5, comment: 'Reliable and kind' });
+
+    const listed = await server
+      .get(`/organization/posting/${posting.id}/feedback`)
+      .set(authHeader(org.token))
+      .expect(200);
+
+    expect(listed.body.feedback).toHaveLength(1);
+
+    await server
+      .delete(`/organization/posting/${posting.id}/enrollments/${enrollment.id}/feedback`)
+      .set(authHeader(org.token))
+      .expect(200);
+
+    const afterDelete = await server
+      .get(`/organization/posting/${posting.id}/feedback`)
+      .set(authHeader(org.token))
+      .expect(200);
+
+    expect(afterDelete.body.feedback).toEqual([]);
+  });
+
+  test('other organizations cannot read or write feedback for a posting', async () => {
+    const { posting, enrollment } = await setupEnrollment(true);
+    const otherOrg = await createOrganizationAccount(transaction, { email: 'feedback-other-org@example.com' });
+
+    await server
+      .get(`/organization/posting/${posting.id}/feedback`)
+      .set(authHeader(otherOrg.token))
+      .expect(404);
+
+    await server
+      .put(`/organization/posting/${posting.id}/enrollments/${enrollment.id}/feedback`)
+      .set(authHeader(otherOrg.token))
+      .send({ rating: 1 })
+      .expect(404);
+  });
+
+  test('admins see organization feedback when reviewing a volunteer report', async () => {
+    const { org, volunteer, posting, enrollment } = await setupEnrollment(true);
+    const { token: adminToken } = await createAdminAccount(transaction, { email: 'feedback-admin@example.com' });
+
+    await server
+      .put(`/organization/posting/${posting.id}/enrollments/${enrollment.id}/feedback`)
+      .set(authHeader(org.token))
+      .send({ rating: 2, comment: 'Left early without notice' })
+      .expect(200);
+
+    const report = await transaction
+      .insertInto('volunteer_report')
+      .values({
+        reported_volunteer_id: volunteer.volunteer.id,
+        reporter_organization_id: org.organization.id,
+        title: 'No show',
+        message: 'Left early',
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    const response = await server
+      .get(`/admin/reports/volunteer/${report.id}`)
+      .set(authHeader(adminToken))
+      .expect(200);
+
+    expect(response.body.reported_volunteer.feedback).toEqual([
+      expect.objectContaining({
+        posting_title: 'Beach Cleanup',
+        organization_id: org.organization.id,
+        rating: 2,
+        comment: 'Left early without notice',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { Router, type Response } from 'express';
+import { type Kysely } from 'kysely';
+import zod from 'zod';
+
+import {
+  type PostingEnrollmentFeedbackDeleteResponse,
+  type PostingEnrollmentFeedbackUpdateResponse,
+  type PostingFeedbackResponse,
+} from './feedback.types.ts';
+import authorizeOrganizationRole from '../../../auth/authorizeOrganizationRole.ts';
+import { type Database, newVolunteerFeedbackSchema } from '../../../db/tables/index.ts';
+
+const postingIdParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive('ID must be a positive number'),
+});
+
+const enrollmentParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive(),
+  enrollmentId: zod.coerce.number().int().positive(),
+});
+
+function createPostingFeedbackRouter(db: Kysely<Database>) {
+  const feedbackRouter = Router();
+
+  const getOwnPosting = async (postingId: number, orgId: number, res: Response) => {
+    const posting = await db
+      .selectFrom('posting')
+      .select(['id'])
+      .where('id', '=', postingId)
+      .where('organization_id', '=', orgId)
+      .executeTakeFirst();
+
+    if (!posting) {
+      res.status(404);
+      throw new Error('Posting not found');
+    }
+
+    return posting;
+  };
+
+  feedbackRouter.get('/:id/feedback', async (req, res: Response<PostingFeedbackResponse>) => {
+    const { id: postingId } = postingIdParamsSchema.parse(req.params);
+    await getOwnPosting(postingId, req.userJWT!.id, res);
+
+    const feedback = await db
+      .selectFrom('volunteer_feedback')
+      .selectAll()
+      .where('posting_id', '=', postingId)
+      .orderBy('id', 'asc')
+      .execute();
+
+    res.json({ feedback });
+  });
+
+  feedbackRouter.put('/:id/enrollments/:enrollmentId/feedback', authorizeOrganizationRole('owner', 'coordinator'), async (req, res: Response<PostingEnrollmentFeedbackUpdateResponse>) => {
+    const { id: postingId, enrollmentId } = enrollmentParamsSchema.parse(req.params);
+    const body = newVolunteerFeedbackSchema.parse(req.body);
+    await getOwnPosting(postingId, req.userJWT!.id, res);
+
+    const enrollment = await db
+      .selectFrom('enrollment')
+      .select(['id', 'posting_id', 'volunteer_id', 'attended'])
+      .where('id', '=', enrollmentId)
+      .where('posting_id', '=', postingId)
+      .executeTakeFirst();
+
+    if (!enrollment) {
+      res.status(404);
+      throw new Error('Enrollment not found');
+    }
+
+    if (!enrollment.attended) {
+      res.status(403);
+      throw new Error('Feedback can only be given to volunteers who attended');
+    }
+
+    const authorMemberId = req.userJWT!.member_id ?? null;
+
+    const feedback = await db
+      .insertInto('volunteer_feedback')
+      .values({
+        enrollment_id: enrollment.id,
+        posting_id: enrollment.posting_id,
+        volunteer_id: enrollment.volunteer_id,
+        author_member_id: authorMemberId,
+        rating: body.rating,
+        comment: body.comment,
+      })
+      .onConflict(oc => oc.column('enrollment_id').doUpdateSet({
+        author_member_id: authorMemberId,
+        rating: body.rating,
+        comment: body.comment,
+      }))
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    res.json({ feedback });
+  });
+
+  feedbackRouter.delete('/:id/enrollments/:enrollmentId/feedback', authorizeOrganizationRole('owner', 'coordinator'), async (req, res: Response<PostingEnrollmentFeedbackDeleteResponse>) => {
+    const { id: postingId, enrollmentId } = enrollmentParamsSchema.parse(req.params);
+    await getOwnPosting(postingId, req.userJWT!.id, res);
+
+    await db
+      .deleteFrom('volunteer_feedback')
+      .where('enrollment_id', '=', enrollmentId)
+      .where('posting_id', '=', postingId)
+      .execute();
+
+    res.json({});
+  });
+
+  return feedbackRouter;
+}
+
+export default createPostingFeedbackRouter;
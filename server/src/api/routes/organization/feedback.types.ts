@@ -0,0 +1,12 @@
+import { type VolunteerFeedback } from '../../../db/tables/index.ts';
+import { type SuccessResponse } from '../../../types.ts';
+
+export type PostingFeedbackResponse = {
+  feedback: VolunteerFeedback[];
+};
+
+export type PostingEnrollmentFeedbackUpdateResponse = {
+  feedback: VolunteerFeedback;
+};
+
+export type PostingEnrollmentFeedbackDeleteResponse = SuccessResponse;
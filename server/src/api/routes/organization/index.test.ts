@@ -7,6 +7,7 @@ import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 import createApp from '../../../app.ts';
 import database from '../../../db/index.ts';
 import * as embeddingService from '../../../services/embeddings/updates.ts';
+import { withSkillIds } from '../../../services/skills/index.ts';
 import { CV_UPLOAD_DIR, ORG_LOGO_UPLOAD_DIR, ORG_SIGNATURE_UPLOAD_DIR } from '../../../services/uploads/paths.ts';
 import { createOrganizationAccount, createVolunteerAccount } from '../../../tests/fixtures/accounts.ts';
 
@@ -183,7 +184,7 @@ describe('Organization index routes', () => {
 
     await transaction
       .insertInto('posting_skill')
-      .values({ posting_id: posting.id, name: 'First Aid' })
+      .values(await withSkillIds(transaction, [{ posting_id: posting.id, name: 'First Aid' }]))
       .execute();
 
     await transaction
@@ -23,8 +23,12 @@ import {
   type OrganizationVolunteerProfileResponse,
   type OrganizationUploadLogoResponse,
 } from './index.types.ts';
+import createOrganizationIssuedCertificatesRouter from './issuedCertificates.ts';
+import createOrganizationMembersRouter from './members.ts';
+import createOrganizationMessagesRouter from './messages.ts';
 import createPostingRouter from './posting.ts';
 import authorizeOnly from '../../../auth/authorizeOnly.ts';
+import authorizeOrganizationRole from '../../../auth/authorizeOrganizationRole.ts';
 import createResetPassword from '../../../auth/resetPassword.ts';
 import {
   newOrganizationRequestSchema,
@@ -34,11 +38,18 @@ import {
   type Database,
 } from '../../../db/tables/index.ts';
 import { recomputeOrganizationVector } from '../../../services/embeddings/updates.ts';
+import { getOrganizationRatingSummary } from '../../../services/feedback/index.ts';
+import { getOrganizationFollowerCount } from '../../../services/follows/index.ts';
+import { deliverNotifications } from '../../../services/notifications/index.ts';
+import { organizationMemberResponseColumns } from '../../../services/organization/members.ts';
+import { hasVolunteerRelationshipWithOrganization } from '../../../services/organization/volunteers.ts';
 import { sendAdminOrganizationRequestEmail } from '../../../services/resend/emails.ts';
+import { buildTextSearchQuery, getTextSearchRank, matchesTextSearch } from '../../../services/textSearch/index.ts';
 import { orgLogoMulter } from '../../../services/uploads/orgLogo.ts';
 import { CV_UPLOAD_DIR, ORG_LOGO_UPLOAD_DIR, ORG_SIGNATURE_UPLOAD_DIR } from '../../../services/uploads/paths.ts';
 import uploadSingle from '../../../services/uploads/uploadSingle.ts';
 import { getVolunteerProfile } from '../../../services/volunteer/index.ts';
+import { applyListPage, parseListPage, toListPageResult, type ListSortKey } from '../utils/listQuery.ts';
 import { normalizeSearchTerms } from '../utils/postingList.js';
 import { canRecomputeProfileVector } from '../utils/rateLimit.ts';
 
@@ -87,6 +98,9 @@ const postingResponseColumns = [
   'posting.automatic_acceptance',
   'posting.is_closed',
   'posting.allows_partial_attendance',
+  'posting.requires_guardian_consent',
+  'posting.recurrence_weekdays',
+  'posting.recurrence_interval',
   'posting.location_name',
   'posting.created_at',
   'posting.updated_at',
@@ -111,35 +125,6 @@ const isSameNullableNumber = (
 ) => (left ?? null) === (right ?? null);
 
 function createOrganizationRouter(db: Kysely<Database>) {
-  const hasVolunteerRelationshipWithOrganization = async (
-    organizationId: number,
-    volunteerId: number,
-  ) => {
-    const relatedApplication = await db
-      .selectFrom('enrollment_application')
-      .innerJoin(
-        'posting',
-        'posting.id',
-        'enrollment_application.posting_id',
-      )
-      .select('enrollment_application.id')
-      .where('enrollment_application.volunteer_id', '=', volunteerId)
-      .where('posting.organization_id', '=', organizationId)
-      .executeTakeFirst();
-
-    if (relatedApplication) return true;
-
-    const relatedEnrollment = await db
-      .selectFrom('enrollment')
-      .innerJoin('posting', 'posting.id', 'enrollment.posting_id')
-      .select('enrollment.id')
-      .where('enrollment.volunteer_id', '=', volunteerId)
-      .where('posting.organization_id', '=', organizationId)
-      .executeTakeFirst();
-
-    return Boolean(relatedEnrollment);
-  };
-
   const organizationRouter = Router();
 
   organizationRouter.post('/request', async (req, res: Response<OrganizationRequestResponse>) => {
@@ -169,6 +154,18 @@ function createOrganizationRouter(db: Kysely<Database>) {
       throw new Error('An account with this email already exists');
     }
 
+    const checkOrganizationMember = await db
+      .selectFrom('organization_member')
+      .select('id')
+      .where('email', '=', email)
+      .where('removed_at', 'is', null)
+      .executeTakeFirst();
+
+    if (checkOrganizationMember) {
+      res.status(400);
+      throw new Error('An account with this email already exists');
+    }
+
     const checkPendingRequest = await db
       .selectFrom('organization_request')
       .select('id')
@@ -190,11 +187,21 @@ function createOrganizationRouter(db: Kysely<Database>) {
       throw new Error('Failed to create organization request');
     }
 
-    const adminEmails = (await db.selectFrom('admin_account').select('email').execute()).map(
-      row => row.email,
-    );
-
-    await sendAdminOrganizationRequestEmail(organization, adminEmails);
+    const admins = await db.selectFrom('admin_account').select(['id', 'email']).execute();
+    const emailRecipients = await deliverNotifications(db, admins.map(admin => ({
+      recipient: { user_id: admin.id, role: 'admin' },
+      type: 'organization_request_submitted',
+      title: 'New organization request',
+      message: `${organization.name} requested to join Willing.`,
+      link: '/admin/requests',
+    })));
+    const adminEmails = admins
+      .filter(admin => emailRecipients.some(recipient => recipient.user_id === admin.id))
+      .map(admin => admin.email);
+
+    if (adminEmails.length > 0) {
+      await sendAdminOrganizationRequestEmail(organization, adminEmails);
+    }
     res.json({});
   });
 
@@ -360,7 +367,9 @@ function createOrganizationRouter(db: Kysely<Database>) {
       enrollment_count: enrollmentCountByPostingId.get(posting.id) ?? 0,
     }));
 
-    res.json({ organization: organizationProfile, postings: postingsWithSkills });
+    const rating = await getOrganizationRatingSummary(db, orgId);
+
+    res.json({ organization: organizationProfile, postings: postingsWithSkills, rating });
   });
 
   organizationRouter.use(authorizeOnly('organization'));
@@ -453,7 +462,18 @@ function createOrganizationRouter(db: Kysely<Database>) {
       .where('is_deleted', '=', false)
       .executeTakeFirstOrThrow();
 
-    res.json({ organization });
+    const memberId = req.userJWT!.member_id;
+    const member = memberId === undefined
+      ? null
+      : await db
+          .selectFrom('organization_member')
+          .select(organizationMemberResponseColumns)
+          .where('id', '=', memberId)
+          .executeTakeFirstOrThrow();
+
+    const followerCount = await getOrganizationFollowerCount(db, organization.id);
+
+    res.json({ organization, member, organization_role: req.organizationRole!, follower_count: followerCount });
   });
 
   organizationRouter.get('/organizations', async (req, res: Response<OrganizationOrganizationSearchResponse>) => {
@@ -485,21 +505,12 @@ function createOrganizationRouter(db: Kysely<Database>) {
       ]));
     }
 
-    if (search) {
-      const terms = normalizeSearchTerms(search);
-      query = query.where(({ and, or }) => and(
-        terms.map((term) => {
-          const likePattern = `%${term}%`;
-          return or([
-            sql<boolean>`lower(organization_account.name) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(organization_account.name), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-            sql<boolean>`lower(organization_account.description) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(organization_account.description), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-            sql<boolean>`lower(organization_account.location_name) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(organization_account.location_name), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-          ]);
-        }),
-      ));
+    const sortKeys: ListSortKey[] = [];
+
+    const textSearchQuery = buildTextSearchQuery(search);
+    if (textSearchQuery) {
+      query = query.where(matchesTextSearch('organization_account.search_vector', textSearchQuery));
+      sortKeys.push({ expression: getTextSearchRank('organization_account.search_vector', textSearchQuery), direction: 'desc' });
     }
 
     const sortBy = typeof req.query.sort_by === 'string' ? req.query.sort_by : 'name';
@@ -507,10 +518,15 @@ function createOrganizationRouter(db: Kysely<Database>) {
 
     const orderByColumn = sortBy === 'title' ? 'organization_account.name' : 'organization_account.name';
 
-    const organizationsRaw = await query
-      .orderBy(orderByColumn, sortDir)
-      .limit(30)
-      .execute();
+    const listPage = parseListPage(req.query);
+    const { items: organizationsRaw, next_cursor } = toListPageResult(
+      await applyListPage(query, listPage, [
+        ...sortKeys,
+        { expression: orderByColumn, direction: sortDir },
+        { expression: 'organization_account.id', direction: sortDir },
+      ]).execute(),
+      listPage,
+    );
 
     const organizations = organizationsRaw.map(organization => ({
       id: organization.id,
@@ -521,7 +537,7 @@ function createOrganizationRouter(db: Kysely<Database>) {
       posting_count: Number(organization.posting_count ?? 0),
     }));
 
-    res.json({ organizations });
+    res.json({ organizations, next_cursor });
   });
 
   organizationRouter.get('/volunteer/:id', async (req, res: Response<OrganizationVolunteerProfileResponse>) => {
@@ -533,7 +549,7 @@ function createOrganizationRouter(db: Kysely<Database>) {
 
     const organizationId = req.userJWT!.id;
 
-    const hasRelationship = await hasVolunteerRelationshipWithOrganization(organizationId, volunteerId);
+    const hasRelationship = await hasVolunteerRelationshipWithOrganization(db, organizationId, volunteerId);
     if (!hasRelationship) {
       res.status(403);
       throw new Error('You can only view profiles of volunteers related to your postings.');
@@ -556,7 +572,7 @@ function createOrganizationRouter(db: Kysely<Database>) {
     res.json({ profile });
   });
 
-  organizationRouter.post('/volunteer/:id/report', async (req, res: Response<OrganizationReportVolunteerResponse>) => {
+  organizationRouter.post('/volunteer/:id/report', authorizeOrganizationRole('owner', 'coordinator'), async (req, res: Response<OrganizationReportVolunteerResponse>) => {
     const { id: volunteerId } = zod
       .object({
         id: zod.coerce.number().int().positive('Volunteer ID must be a positive number'),
@@ -602,7 +618,7 @@ function createOrganizationRouter(db: Kysely<Database>) {
         .parse(req.params);
 
       const organizationId = req.userJWT!.id;
-      const hasRelationship = await hasVolunteerRelationshipWithOrganization(organizationId, volunteerId);
+      const hasRelationship = await hasVolunteerRelationshipWithOrganization(db, organizationId, volunteerId);
       if (!hasRelationship) {
         res.status(403);
         throw new Error('You can only access CVs of volunteers related to your postings.');
@@ -634,7 +650,7 @@ function createOrganizationRouter(db: Kysely<Database>) {
     },
   );
 
-  organizationRouter.put('/profile', async (req, res: Response<OrganizationUpdateProfileResponse>) => {
+  organizationRouter.put('/profile', authorizeOrganizationRole('owner'), async (req, res: Response<OrganizationUpdateProfileResponse>) => {
     const body = organizationProfileUpdateSchema.parse(req.body);
     const organizationId = req.userJWT!.id;
     const existingOrganization = await db
@@ -674,6 +690,7 @@ function createOrganizationRouter(db: Kysely<Database>) {
 
   organizationRouter.post(
     '/logo',
+    authorizeOrganizationRole('owner'),
     uploadSingle(orgLogoMulter, 'logo'),
     async (req: Request, res: Response<OrganizationUploadLogoResponse>) => {
       if (!req.file) {
@@ -714,7 +731,7 @@ function createOrganizationRouter(db: Kysely<Database>) {
     },
   );
 
-  organizationRouter.delete('/logo', async (req: Request, res: Response<OrganizationDeleteLogoResponse>) => {
+  organizationRouter.delete('/logo', authorizeOrganizationRole('owner'), async (req: Request, res: Response<OrganizationDeleteLogoResponse>) => {
     const organizationId = req.userJWT!.id;
     const existingOrganization = await db
       .selectFrom('organization_account')
@@ -764,6 +781,9 @@ function createOrganizationRouter(db: Kysely<Database>) {
 
   organizationRouter.use('/posting', createPostingRouter(db));
   organizationRouter.use('/certificate-info', createOrganizationCertificateInfoRouter(db));
+  organizationRouter.use('/issued-certificates', createOrganizationIssuedCertificatesRouter(db));
+  organizationRouter.use('/members', createOrganizationMembersRouter(db));
+  organizationRouter.use('/messages', createOrganizationMessagesRouter(db));
 
   return organizationRouter;
 }
@@ -1,6 +1,6 @@
 import { type ResetPasswordResponse } from '../../../auth/resetPassword.ts';
-import { type Crisis, type OrganizationAccountWithoutPassword, type OrganizationAccountWithoutPasswordAndVector, type PostingWithoutVectors, type PostingSkill } from '../../../db/tables/index.ts';
-import { type SuccessResponse } from '../../../types.ts';
+import { type Crisis, type OrganizationAccountWithoutPassword, type OrganizationAccountWithoutPasswordAndVector, type OrganizationMemberRole, type OrganizationMemberWithoutSecrets, type PostingWithoutVectors, type PostingSkill } from '../../../db/tables/index.ts';
+import { type OrganizationRatingSummary, type SuccessResponse } from '../../../types.ts';
 
 import type { VolunteerProfileData } from '../../../services/volunteer/index.ts';
 
@@ -13,10 +13,14 @@ export type OrganizationVolunteerCvDownloadResponse = never;
 export type OrganizationProfileResponse = {
   organization: OrganizationAccountWithoutPasswordAndVector;
   postings: (PostingWithoutVectors & { skills: PostingSkill[]; enrollment_count: number })[];
+  rating: OrganizationRatingSummary;
 };
 
 export type OrganizationGetMeResponse = {
   organization: OrganizationAccountWithoutPassword;
+  member: OrganizationMemberWithoutSecrets | null;
+  organization_role: OrganizationMemberRole;
+  follower_count: number;
 };
 
 export type OrganizationUpdateProfileResponse = {
@@ -62,4 +66,5 @@ export type OrganizationSearchResult = {
 
 export type OrganizationOrganizationSearchResponse = {
   organizations: OrganizationSearchResult[];
+  next_cursor: string | null;
 };
@@ -0,0 +1,97 @@
+import supertest from 'supertest';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import createApp from '../../../app.ts';
+import database from '../../../db/index.ts';
+import { recordIssuedCertificate } from '../../../services/certificates/ledger.ts';
+import { CERTIFICATE_PAYLOAD_VERSION, CERTIFICATE_TYPE } from '../../../services/certificates/token.ts';
+import { createOrganizationAccount, createVolunteerAccount } from '../../../tests/fixtures/accounts.ts';
+
+import type { Database } from '../../../db/tables/index.ts';
+import type { ControlledTransaction } from 'kysely';
+import type TestAgent from 'supertest/lib/agent.js';
+
+let transaction: ControlledTransaction<Database, []>;
+let server: TestAgent;
+
+beforeEach(async () => {
+  transaction = await database.startTransaction().execute();
+  server = supertest(createApp(transaction));
+});
+
+afterEach(async () => {
+  await transaction.rollback().execute();
+});
+
+const createIssuedCertificate = async (volunteerId: number, organizationId: number) => recordIssuedCertificate(
+  transaction,
+  `test-token-${volunteerId}-${organizationId}`,
+  {
+    v: CERTIFICATE_PAYLOAD_VERSION,
+    uid: String(volunteerId),
+    issued_at: new Date('2026-03-01T10:00:00.000Z').toISOString(),
+    org_ids: [String(organizationId)],
+    total_hours: 5,
+    hours_per_org: { [String(organizationId)]: 5 },
+    type: CERTIFICATE_TYPE,
+  },
+);
+
+describe('Organization issued certificates', () => {
+  test('lists certificates that include the organization and revokes one with a reason', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-ledger@example.com' });
+    const otherOrg = await createOrganizationAccount(transaction, { email: 'org-ledger-other@example.com' });
+    const { volunteer } = await createVolunteerAccount(transaction, { email: 'vol-ledger@example.com' });
+
+    const certificate = await createIssuedCertificate(volunteer.id, org.organization.id);
+    await createIssuedCertificate(volunteer.id, otherOrg.organization.id);
+
+    const listResponse = await server
+      .get('/organization/issued-certificates')
+      .set('Authorization', `Bearer ${org.token}`)
+      .expect(200);
+
+    expect(listResponse.body.certificates).toEqual([
+      expect.objectContaining({
+        id: certificate.id,
+        volunteer_id: volunteer.id,
+        volunteer_name: `${volunteer.first_name} ${volunteer.last_name}`,
+        total_hours: 5,
+        revoked_at: null,
+        organizations: [{ id: org.organization.id, name: org.organization.name, hours: 5 }],
+      }),
+    ]);
+
+    const revokeResponse = await server
+      .post(`/organization/issued-certificates/${certificate.id}/revoke`)
+      .set('Authorization', `Bearer ${org.token}`)
+      .send({ reason: 'Attendance was recorded by mistake' })
+      .expect(200);
+
+    expect(revokeResponse.body.certificate).toMatchObject({
+      id: certificate.id,
+      revoked_at: expect.any(String),
+      revocation_reason: 'Attendance was recorded by mistake',
+      revoked_by_role: 'organization',
+    });
+
+    await server
+      .post(`/organization/issued-certificates/${certificate.id}/revoke`)
+      .set('Authorization', `Bearer ${org.token}`)
+      .send({ reason: 'Again' })
+      .expect(409);
+  });
+
+  test('returns 404 when the certificate does not include the organization', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-ledger-owner@example.com' });
+    const otherOrg = await createOrganizationAccount(transaction, { email: 'org-ledger-stranger@example.com' });
+    const { volunteer } = await createVolunteerAccount(transaction, { email: 'vol-ledger-owner@example.com' });
+    const certificate = await createIssuedCertificate(volunteer.id, org.organization.id);
+
+    await server
+      .post(`/organization/issued-certificates/${certificate.id}/revoke`)
+      .set('Authorization', `Bearer ${otherOrg.token}`)
+      .send({ reason: 'Not ours' })
+      .expect(404);
+  });
+});
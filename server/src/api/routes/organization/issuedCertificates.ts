@@ -0,0 +1,58 @@
+import { Router, type Response } from 'express';
+import { type Kysely } from 'kysely';
+import zod from 'zod';
+
+import {
+  type OrganizationIssuedCertificateRevokeResponse,
+  type OrganizationIssuedCertificatesResponse,
+} from './issuedCertificates.types.ts';
+import authorizeOrganizationRole from '../../../auth/authorizeOrganizationRole.ts';
+import { revokeIssuedCertificateSchema, type Database } from '../../../db/tables/index.ts';
+import { getIssuedCertificates, revokeIssuedCertificate } from '../../../services/certificates/ledger.ts';
+
+const certificateIdParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive('ID must be a positive number'),
+});
+
+function createOrganizationIssuedCertificatesRouter(db: Kysely<Database>) {
+  const issuedCertificatesRouter = Router();
+
+  issuedCertificatesRouter.get('/', async (req, res: Response<OrganizationIssuedCertificatesResponse>) => {
+    const orgId = req.userJWT!.id;
+    const certificates = await getIssuedCertificates(db, { organizationId: orgId });
+
+    res.json({ certificates });
+  });
+
+  issuedCertificatesRouter.post('/:id/revoke', authorizeOrganizationRole('owner'), async (req, res: Response<OrganizationIssuedCertificateRevokeResponse>) => {
+    const orgId = req.userJWT!.id;
+    const { id } = certificateIdParamsSchema.parse(req.params);
+    const { reason } = revokeIssuedCertificateSchema.parse(req.body);
+
+    const certificate = await db
+      .selectFrom('issued_certificate')
+      .innerJoin('issued_certificate_organization', 'issued_certificate_organization.certificate_id', 'issued_certificate.id')
+      .select(['issued_certificate.id', 'issued_certificate.revoked_at'])
+      .where('issued_certificate.id', '=', id)
+      .where('issued_certificate_organization.organization_id', '=', orgId)
+      .executeTakeFirst();
+
+    if (!certificate) {
+      res.status(404);
+      throw new Error('Certificate not found');
+    }
+
+    const revoked = await revokeIssuedCertificate(db, id, { role: 'organization', id: orgId }, reason);
+    if (!revoked) {
+      res.status(409);
+      throw new Error('Certificate has already been revoked');
+    }
+
+    const [updatedCertificate] = await getIssuedCertificates(db, { organizationId: orgId, certificateId: id });
+    res.json({ certificate: updatedCertificate! });
+  });
+
+  return issuedCertificatesRouter;
+}
+
+export default createOrganizationIssuedCertificatesRouter;
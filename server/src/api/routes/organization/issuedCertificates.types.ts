@@ -0,0 +1,9 @@
+import { type IssuedCertificateWithContext } from '../../../types.ts';
+
+export type OrganizationIssuedCertificatesResponse = {
+  certificates: IssuedCertificateWithContext[];
+};
+
+export type OrganizationIssuedCertificateRevokeResponse = {
+  certificate: IssuedCertificateWithContext;
+};
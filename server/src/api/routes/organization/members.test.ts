@@ -0,0 +1,252 @@
+import supertest from 'supertest';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import createApp from '../../../app.ts';
+import database from '../../../db/index.ts';
+import * as emailService from '../../../services/resend/emails.ts';
+import { createOrganizationAccount, createOrganizationMemberAccount, createVolunteerAccount } from '../../../tests/fixtures/accounts.ts';
+import { createPosting } from '../../../tests/fixtures/organizationData.ts';
+
+import type { Database } from '../../../db/tables/index.ts';
+import type { ControlledTransaction } from 'kysely';
+import type TestAgent from 'supertest/lib/agent.js';
+
+const sendOrganizationMemberInviteEmailSpy = vi
+  .spyOn(emailService, 'sendOrganizationMemberInviteEmail')
+  .mockResolvedValue(undefined);
+
+let transaction: ControlledTransaction<Database, []>;
+let server: TestAgent;
+
+beforeEach(async () => {
+  transaction = await database.startTransaction().execute();
+  server = supertest(createApp(transaction));
+});
+
+afterEach(async () => {
+  await transaction.rollback().execute();
+  sendOrganizationMemberInviteEmailSpy.mockClear();
+});
+
+describe('Organization members', () => {
+  test('invites a member who accepts and then logs in individually', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-team@example.com', name: 'Team Org' });
+
+    const inviteResponse = await server
+      .post('/organization/members')
+      .set('Authorization', `Bearer ${org.token}`)
+      .send({ email: 'Coordinator@Example.com', role: 'coordinator' })
+      .expect(200);
+
+    expect(inviteResponse.body.member).toMatchObject({
+      email: 'coordinator@example.com',
+      role: 'coordinator',
+      joined_at: null,
+    });
+    expect(inviteResponse.body.member).not.toHaveProperty('invite_token_hash');
+    expect(sendOrganizationMemberInviteEmailSpy).toHaveBeenCalledTimes(1);
+
+    const inviteToken = sendOrganizationMemberInviteEmailSpy.mock.calls[0]![0].inviteToken;
+
+    const inviteInfo = await server
+      .get('/user/organization-invite')
+      .query({ key: inviteToken })
+      .expect(200);
+
+    expect(inviteInfo.body).toEqual({
+      email: 'coordinator@example.com',
+      role: 'coordinator',
+      organization_name: 'Team Org',
+    });
+
+    await server
+      .post('/user/organization-invite/accept')
+      .send({ key: inviteToken, first_name: 'Rami', last_name: 'Haddad', password: 'MemberPass123' })
+      .expect(200);
+
+    await server
+      .post('/user/organization-invite/accept')
+      .send({ key: inviteToken, first_name: 'Rami', last_name: 'Haddad', password: 'MemberPass123' })
+      .expect(400);
+
+    const loginResponse = await server
+      .post('/user/login')
+      .send({ email: 'coordinator@example.com', password: 'MemberPass123' })
+      .expect(200);
+
+    expect(loginResponse.body).toMatchObject({
+      role: 'organization',
+      organization: { id: org.organization.id },
+      member: { email: 'coordinator@example.com', first_name: 'Rami', role: 'coordinator' },
+    });
+
+    const meResponse = await server
+      .get('/organization/me')
+      .set('Authorization', `Bearer ${loginResponse.body.token}`)
+      .expect(200);
+
+    expect(meResponse.body.organization.id).toBe(org.organization.id);
+    expect(meResponse.body.organization_role).toBe('coordinator');
+    expect(meResponse.body.member.id).toBe(inviteResponse.body.member.id);
+  });
+
+  test('rejects inviting an email that already has an account', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-dupe@example.com' });
+    await createVolunteerAccount(transaction, { email: 'taken@example.com' });
+
+    const response = await server
+      .post('/organization/members')
+      .set('Authorization', `Bearer ${org.token}`)
+      .send({ email: 'taken@example.com', role: 'viewer' })
+      .expect(409);
+
+    expect(response.body.message).toBe('An account with this email already exists');
+    expect(sendOrganizationMemberInviteEmailSpy).not.toHaveBeenCalled();
+  });
+
+  test('only owners can manage members', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-manage@example.com' });
+    const coordinator = await createOrganizationMemberAccount(transaction, {
+      organizationId: org.organization.id,
+      email: 'coordinator-manage@example.com',
+      role: 'coordinator',
+    });
+
+    await server
+      .get('/organization/members')
+      .set('Authorization', `Bearer ${coordinator.token}`)
+      .expect(200);
+
+    const response = await server
+      .post('/organization/members')
+      .set('Authorization', `Bearer ${coordinator.token}`)
+      .send({ email: 'someone@example.com', role: 'owner' })
+      .expect(403);
+
+    expect(response.body.message).toBe('Your organization role does not allow this action');
+  });
+
+  test('removing a member signs them out and blocks their login', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-remove@example.com' });
+    const viewer = await createOrganizationMemberAccount(transaction, {
+      organizationId: org.organization.id,
+      email: 'viewer-remove@example.com',
+      role: 'viewer',
+    });
+
+    await server
+      .delete(`/organization/members/${viewer.member.id}`)
+      .set('Authorization', `Bearer ${org.token}`)
+      .expect(200);
+
+    await server
+      .get('/organization/me')
+      .set('Authorization', `Bearer ${viewer.token}`)
+      .expect(403);
+
+    await server
+      .post('/user/login')
+      .send({ email: 'viewer-remove@example.com', password: viewer.plainPassword })
+      .expect(403);
+  });
+});
+
+describe('Organization member permissions', () => {
+  test('viewers can read postings but not create them', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-viewer@example.com' });
+    const viewer = await createOrganizationMemberAccount(transaction, {
+      organizationId: org.organization.id,
+      email: 'viewer@example.com',
+      role: 'viewer',
+    });
+    await createPosting(transaction, { organizationId: org.organization.id });
+
+    const listResponse = await server
+      .get('/organization/posting')
+      .set('Authorization', `Bearer ${viewer.token}`)
+      .expect(200);
+
+    expect(listResponse.body.postings).toHaveLength(1);
+
+    const createResponse = await server
+      .post('/organization/posting')
+      .set('Authorization', `Bearer ${viewer.token}`)
+      .send({ title: 'Viewer Posting' })
+      .expect(403);
+
+    expect(createResponse.body.message).toBe('Your organization role does not allow this action');
+  });
+
+  test('coordinators cannot change certificate settings', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-cert-role@example.com' });
+    const coordinator = await createOrganizationMemberAccount(transaction, {
+      organizationId: org.organization.id,
+      email: 'coordinator-cert@example.com',
+      role: 'coordinator',
+    });
+
+    await server
+      .put('/organization/certificate-info')
+      .set('Authorization', `Bearer ${coordinator.token}`)
+      .send({ signatory_name: 'Someone' })
+      .expect(403);
+  });
+
+  test('records the member who accepted an application and marked attendance', async () => {
+    const org = await createOrganizationAccount(transaction, { email: 'org-audit@example.com' });
+    const coordinator = await createOrganizationMemberAccount(transaction, {
+      organizationId: org.organization.id,
+      email: 'coordinator-audit@example.com',
+      role: 'coordinator',
+    });
+    const { volunteer } = await createVolunteerAccount(transaction, { email: 'vol-audit@example.com' });
+    const posting = await createPosting(transaction, {
+      organizationId: org.organization.id,
+      overrides: {
+        automatic_acceptance: false,
+        allows_partial_attendance: true,
+        start_date: new Date('2026-12-01T00:00:00.000Z'),
+        end_date: new Date('2026-12-01T00:00:00.000Z'),
+      },
+    });
+
+    const application = await transaction
+      .insertInto('enrollment_application')
+      .values({ volunteer_id: volunteer.id, posting_id: posting.id })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await server
+      .post(`/organization/posting/${posting.id}/applications/${application.id}/accept`)
+      .set('Authorization', `Bearer ${coordinator.token}`)
+      .expect(200);
+
+    const enrollment = await transaction
+      .selectFrom('enrollment')
+      .select(['id', 'accepted_by_member_id'])
+      .where('posting_id', '=', posting.id)
+      .executeTakeFirstOrThrow();
+
+    expect(enrollment.accepted_by_member_id).toBe(coordinator.member.id);
+
+    const dateRecord = await transaction
+      .selectFrom('enrollment_date')
+      .select('id')
+      .where('enrollment_id', '=', enrollment.id)
+      .executeTakeFirstOrThrow();
+
+    await server
+      .patch(`/organization/posting/${posting.id}/enrollment-dates/${dateRecord.id}/attendance`)
+      .set('Authorization', `Bearer ${coordinator.token}`)
+      .send({ attended: true })
+      .expect(200);
+
+    const updatedDate = await transaction
+      .selectFrom('enrollment_date')
+      .select('attendance_marked_by_member_id')
+      .where('id', '=', dateRecord.id)
+      .executeTakeFirstOrThrow();
+
+    expect(updatedDate.attendance_marked_by_member_id).toBe(coordinator.member.id);
+  });
+});
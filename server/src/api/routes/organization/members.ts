@@ -0,0 +1,145 @@
+import { Router, type Response } from 'express';
+import { sql, type Kysely } from 'kysely';
+import zod from 'zod';
+
+import {
+  type OrganizationMemberInviteResponse,
+  type OrganizationMemberRemoveResponse,
+  type OrganizationMembersResponse,
+  type OrganizationMemberUpdateResponse,
+} from './members.types.ts';
+import authorizeOrganizationRole from '../../../auth/authorizeOrganizationRole.ts';
+import {
+  newOrganizationMemberInviteSchema,
+  updateOrganizationMemberSchema,
+  type Database,
+} from '../../../db/tables/index.ts';
+import {
+  createOrganizationMemberInviteToken,
+  isAccountEmailTaken,
+  ORGANIZATION_MEMBER_INVITE_TTL_MS,
+  organizationMemberResponseColumns,
+} from '../../../services/organization/members.ts';
+import { sendOrganizationMemberInviteEmail } from '../../../services/resend/emails.ts';
+
+const memberIdParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive('ID must be a positive number'),
+});
+
+function createOrganizationMembersRouter(db: Kysely<Database>) {
+  const membersRouter = Router();
+
+  membersRouter.get('/', async (req, res: Response<OrganizationMembersResponse>) => {
+    const orgId = req.userJWT!.id;
+
+    const members = await db
+      .selectFrom('organization_member')
+      .select(organizationMemberResponseColumns)
+      .where('organization_id', '=', orgId)
+      .where('removed_at', 'is', null)
+      .orderBy('created_at', 'asc')
+      .execute();
+
+    res.json({ members });
+  });
+
+  membersRouter.post('/', authorizeOrganizationRole('owner'), async (req, res: Response<OrganizationMemberInviteResponse>) => {
+    const orgId = req.userJWT!.id;
+    const body = newOrganizationMemberInviteSchema.parse(req.body);
+
+    if (await isAccountEmailTaken(db, body.email)) {
+      res.status(409);
+      throw new Error('An account with this email already exists');
+    }
+
+    const organization = await db
+      .selectFrom('organization_account')
+      .select('name')
+      .where('id', '=', orgId)
+      .executeTakeFirstOrThrow();
+
+    const { token, tokenHash } = createOrganizationMemberInviteToken();
+
+    const member = await db
+      .insertInto('organization_member')
+      .values({
+        organization_id: orgId,
+        email: body.email,
+        role: body.role,
+        invite_token_hash: tokenHash,
+        invite_expires_at: new Date(Date.now() + ORGANIZATION_MEMBER_INVITE_TTL_MS),
+      })
+      .returning(organizationMemberResponseColumns)
+      .executeTakeFirstOrThrow();
+
+    await sendOrganizationMemberInviteEmail({
+      memberEmail: body.email,
+      organizationName: organization.name,
+      role: body.role,
+      inviteToken: token,
+    });
+
+    res.json({ member });
+  });
+
+  membersRouter.patch('/:id', authorizeOrganizationRole('owner'), async (req, res: Response<OrganizationMemberUpdateResponse>) => {
+    const orgId = req.userJWT!.id;
+    const { id } = memberIdParamsSchema.parse(req.params);
+    const body = updateOrganizationMemberSchema.parse(req.body);
+
+    if (req.userJWT!.member_id === id) {
+      res.status(400);
+      throw new Error('You cannot change your own role');
+    }
+
+    const member = await db
+      .updateTable('organization_member')
+      .set({ role: body.role })
+      .where('id', '=', id)
+      .where('organization_id', '=', orgId)
+      .where('removed_at', 'is', null)
+      .returning(organizationMemberResponseColumns)
+      .executeTakeFirst();
+
+    if (!member) {
+      res.status(404);
+      throw new Error('Member not found');
+    }
+
+    res.json({ member });
+  });
+
+  membersRouter.delete('/:id', authorizeOrganizationRole('owner'), async (req, res: Response<OrganizationMemberRemoveResponse>) => {
+    const orgId = req.userJWT!.id;
+    const { id } = memberIdParamsSchema.parse(req.params);
+
+    if (req.userJWT!.member_id === id) {
+      res.status(400);
+      throw new Error('You cannot remove yourself from the organization');
+    }
+
+    // Bumping the token version signs the member out everywhere
+    const result = await db
+      .updateTable('organization_member')
+      .set({
+        removed_at: new Date(),
+        invite_token_hash: null,
+        token_version: sql`token_version + 1`,
+      })
+      .where('id', '=', id)
+      .where('organization_id', '=', orgId)
+      .where('removed_at', 'is', null)
+      .executeTakeFirst();
+
+    if (Number(result.numUpdatedRows) === 0) {
+      res.status(404);
+      throw new Error('Member not found');
+    }
+
+    res.json({});
+  });
+
+  return membersRouter;
+}
+
+export default createOrganizationMembersRouter;
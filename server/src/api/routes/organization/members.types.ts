@@ -0,0 +1,15 @@
+import { type OrganizationMemberWithoutSecrets } from '../../../db/tables/index.ts';
+
+export type OrganizationMembersResponse = {
+  members: OrganizationMemberWithoutSecrets[];
+};
+
+export type OrganizationMemberInviteResponse = {
+  member: OrganizationMemberWithoutSecrets;
+};
+
+export type OrganizationMemberUpdateResponse = {
+  member: OrganizationMemberWithoutSecrets;
+};
+
+export type OrganizationMemberRemoveResponse = Record<string, never>;
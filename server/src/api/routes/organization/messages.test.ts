@@ -0,0 +1,230 @@
+import supertest from 'supertest';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import createApp from '../../../app.ts';
+import database from '../../../db/index.ts';
+import { createOrganizationAccount, createVolunteerAccount } from '../../../tests/fixtures/accounts.ts';
+import { createPosting } from '../../../tests/fixtures/organizationData.ts';
+import { authHeader } from '../../../tests/helpers/authHeader.ts';
+
+import type { Database } from '../../../db/tables/index.ts';
+import type { ControlledTransaction } from 'kysely';
+import type TestAgent from 'supertest/lib/agent.js';
+
+let transaction: ControlledTransaction<Database, []>;
+let server: TestAgent;
+
+beforeEach(async () => {
+  transaction = await database.startTransaction().execute();
+  server = supertest(createApp(transaction));
+});
+
+afterEach(async () => {
+  await transaction.rollback().execute();
+});
+
+const enroll = async (volunteerId: number, postingId: number) => transaction
+  .insertInto('enrollment')
+  .values({ volunteer_id: volunteerId, posting_id: postingId, message: null, attended: false })
+  .execute();
+
+const setupPosting = async () => {
+  const org = await createOrganizationAccount(transaction, { email: 'messages-org@example.com' });
+  const volunteer = await createVolunteerAccount(transaction, { email: 'messages-vol@example.com' });
+  const posting = await createPosting(transaction, {
+    organizationId: org.organization.id,
+    title: 'Food Drive',
+  });
+
+  return { org, volunteer, posting };
+};
+
+describe('Messaging', () => {
+  test('organization and enrolled volunteer exchange messages with read receipts', async () => {
+    const { org, volunteer, posting } = await setupPosting();
+    await enroll(volunteer.volunteer.id, posting.id);
+
+    const created = await server
+      .post('/organization/messages/threads')
+      .set(authHeader(org.token))
+      .send({ posting_id: posting.id, volunteer_id: volunteer.volunteer.id })
+      .expect(200);
+
+    const threadId = created.body.thread.id;
+
+    const sent = await server
+      .post(`/organization/messages/threads/${threadId}/messages`)
+      .set(authHeader(org.token))
+      .send({ body: '  Please bring gloves  ' })
+      .expect(201);
+
+    expect(sent.body.message).toMatchObject({ sender_role: 'organization', body: 'Please bring gloves', read_at: null });
+    expect(sent.body.message).not.toHaveProperty('attachment_path');
+
+    const volunteerThreads = await server
+      .get('/volunteer/messages')
+      .set(authHeader(volunteer.token))
+      .expect(200);
+
+    expect(volunteerThreads.body.threads).toHaveLength(1);
+    expect(volunteerThreads.body.threads[0]).toMatchObject({
+      id: threadId,
+      posting_title: 'Food Drive',
+      last_message_body: 'Please bring gloves',
+      unread_count: 1,
+    });
+
+    const opened = await server
+      .get(`/volunteer/messages/threads/${threadId}`)
+      .set(authHeader(volunteer.token))
+      .expect(200);
+
+    expect(opened.body.thread.unread_count).toBe(0);
+    expect(opened.body.messages[0].read_at).not.toBeNull();
+
+    await server
+      .post(`/volunteer/messages/threads/${threadId}/messages`)
+      .set(authHeader(volunteer.token))
+      .send({ body: 'Will do!' })
+      .expect(201);
+
+    const organizationThreads = await server
+      .get('/organization/messages')
+      .set(authHeader(org.token))
+      .expect(200);
+
+    expect(organizationThreads.body.threads[0]).toMatchObject({ id: threadId, unread_count: 1, last_message_body: 'Will do!' });
+
+    const notifications = await transaction
+      .selectFrom('notification')
+      .select(['user_id', 'role', 'type'])
+      .where('type', '=', 'new_message')
+      .orderBy('id', 'asc')
+      .execute();
+
+    expect(notifications).toEqual([
+      { user_id: volunteer.volunteer.id, role: 'volunteer', type: 'new_message' },
+      { user_id: org.organization.id, role: 'organization', type: 'new_message' },
+    ]);
+  });
+
+  test('volunteers can open a thread on a posting they applied to', async () => {
+    const { org, volunteer, posting } = await setupPosting();
+
+    await transaction
+      .insertInto('enrollment_application')
+      .values({ volunteer_id: volunteer.volunteer.id, posting_id: posting.id, message: null })
+      .execute();
+
+    const created = await server
+      .post('/volunteer/messages/threads')
+      .set(authHeader(volunteer.token))
+      .send({ posting_id: posting.id })
+      .expect(200);
+
+    expect(created.body.thread).toMatchObject({ organization_id: org.organization.id, volunteer_id: volunteer.volunteer.id });
+
+    const again = await server
+      .post('/volunteer/messages/threads')
+      .set(authHeader(volunteer.token))
+      .send({ posting_id: posting.id })
+      .expect(200);
+
+    expect(again.body.thread.id).toBe(created.body.thread.id);
+  });
+
+  test('messaging is refused without an application or enrollment', async () => {
+    const { org, volunteer, posting } = await setupPosting();
+
+    await server
+      .post('/organization/messages/threads')
+      .set(authHeader(org.token))
+      .send({ posting_id: posting.id, volunteer_id: volunteer.volunteer.id })
+      .expect(403);
+
+    await server
+      .post('/volunteer/messages/threads')
+      .set(authHeader(volunteer.token))
+      .send({ posting_id: posting.id })
+      .expect(403);
+
+    const thread = await transaction
+      .insertInto('message_thread')
+      .values({ organization_id: org.organization.id, posting_id: posting.id, volunteer_id: volunteer.volunteer.id })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await server
+      .post(`/organization/messages/threads/${thread.id}/messages`)
+      .set(authHeader(org.token))
+      .send({ body: 'Hello' })
+      .expect(403);
+
+    const threads = await server
+      .get('/organization/messages')
+      .set(authHeader(org.token))
+      .expect(200);
+
+    expect(threads.body.threads).toEqual([]);
+  });
+
+  test('other organizations cannot read a thread', async () => {
+    const { org, volunteer, posting } = await setupPosting();
+    await enroll(volunteer.volunteer.id, posting.id);
+    const otherOrg = await createOrganizationAccount(transaction, { email: 'messages-other-org@example.com' });
+
+    const created = await server
+      .post('/organization/messages/threads')
+      .set(authHeader(org.token))
+      .send({ posting_id: posting.id, volunteer_id: volunteer.volunteer.id })
+      .expect(200);
+
+    await server
+      .get(`/organization/messages/threads/${created.body.thread.id}`)
+      .set(authHeader(otherOrg.token))
+      .expect(404);
+  });
+
+  test('empty messages are rejected', async () => {
+    const { org, volunteer, posting } = await setupPosting();
+    await enroll(volunteer.volunteer.id, posting.id);
+
+    const created = await server
+      .post('/organization/messages/threads')
+      .set(authHeader(org.token))
+      .send({ posting_id: posting.id, volunteer_id: volunteer.volunteer.id })
+      .expect(200);
+
+    const res = await server
+      .post(`/organization/messages/threads/${created.body.thread.id}/messages`)
+      .set(authHeader(org.token))
+      .send({ body: '   ' })
+      .expect(400);
+
+    expect(res.body.message).toBe('Message cannot be empty');
+  });
+
+  test('broadcast reaches every enrolled volunteer in their own thread', async () => {
+    const { org, volunteer, posting } = await setupPosting();
+    const secondVolunteer = await createVolunteerAccount(transaction, { email: 'messages-vol-2@example.com' });
+    await enroll(volunteer.volunteer.id, posting.id);
+    await enroll(secondVolunteer.volunteer.id, posting.id);
+
+    const res = await server
+      .post('/organization/messages/broadcast')
+      .set(authHeader(org.token))
+      .send({ posting_id: posting.id, body: 'Meet at the north entrance' })
+      .expect(201);
+
+    expect(res.body).toEqual({ recipient_count: 2 });
+
+    const threads = await server
+      .get('/organization/messages')
+      .set(authHeader(org.token))
+      .expect(200);
+
+    expect(threads.body.threads).toHaveLength(2);
+    expect(threads.body.threads.map((thread: { last_message_body: string }) => thread.last_message_body))
+      .toEqual(['Meet at the north entrance', 'Meet at the north entrance']);
+  });
+});
@@ -0,0 +1,190 @@
+import { type NextFunction, type Request, Router, type Response } from 'express';
+import { type Kysely } from 'kysely';
+import zod from 'zod';
+
+import {
+  type OrganizationMessageBroadcastResponse,
+  type OrganizationMessageSendResponse,
+  type OrganizationMessageThreadCreateResponse,
+  type OrganizationMessageThreadResponse,
+  type OrganizationMessageThreadsResponse,
+} from './messages.types.ts';
+import authorizeOrganizationRole from '../../../auth/authorizeOrganizationRole.ts';
+import { type Database, messageSchema, newMessageSchema } from '../../../db/tables/index.ts';
+import {
+  broadcastToPostingVolunteers,
+  findOrCreateThread,
+  findViewerThread,
+  getThreadMessages,
+  getThreadSummary,
+  isVolunteerRelatedToPosting,
+  listThreadSummaries,
+  markThreadRead,
+  sendMessage,
+} from '../../../services/messaging/index.ts';
+import { hasVolunteerRelationshipWithOrganization } from '../../../services/organization/volunteers.ts';
+import { deleteMessageAttachmentIfExists, messageAttachmentMulter } from '../../../services/uploads/messageAttachment.ts';
+import { MESSAGE_ATTACHMENT_UPLOAD_DIR } from '../../../services/uploads/paths.ts';
+import uploadSingle from '../../../services/uploads/uploadSingle.ts';
+
+const threadParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive('ID must be a positive number'),
+});
+
+const attachmentParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive(),
+  messageId: zod.coerce.number().int().positive(),
+});
+
+const newThreadSchema = zod.object({
+  posting_id: zod.number().int().positive('Posting ID must be a positive number'),
+  volunteer_id: zod.number().int().positive('Volunteer ID must be a positive number'),
+});
+
+const broadcastSchema = zod.object({
+  posting_id: zod.number().int().positive('Posting ID must be a positive number'),
+  body: messageSchema.shape.body.min(1, 'Message cannot be empty'),
+});
+
+function createOrganizationMessagesRouter(db: Kysely<Database>) {
+  const messagesRouter = Router();
+
+  const getOwnThread = async (threadId: number, orgId: number, res: Response) => {
+    const thread = await findViewerThread(db, threadId, { role: 'organization', id: orgId });
+
+    if (!thread) {
+      res.status(404);
+      throw new Error('Conversation not found');
+    }
+
+    if (!(await hasVolunteerRelationshipWithOrganization(db, orgId, thread.volunteer_id))) {
+      res.status(403);
+      throw new Error('You can only message volunteers who applied to or enrolled in your postings');
+    }
+
+    return thread;
+  };
+
+  const getOwnPosting = async (postingId: number, orgId: number, res: Response) => {
+    const posting = await db
+      .selectFrom('posting')
+      .select(['id', 'organization_id'])
+      .where('id', '=', postingId)
+      .where('organization_id', '=', orgId)
+      .executeTakeFirst();
+
+    if (!posting) {
+      res.status(404);
+      throw new Error('Posting not found');
+    }
+
+    return posting;
+  };
+
+  messagesRouter.get('/', async (req, res: Response<OrganizationMessageThreadsResponse>) => {
+    const threads = await listThreadSummaries(db, { role: 'organization', id: req.userJWT!.id });
+    res.json({ threads });
+  });
+
+  messagesRouter.post('/threads', authorizeOrganizationRole('owner', 'coordinator'), async (req, res: Response<OrganizationMessageThreadCreateResponse>) => {
+    const body = newThreadSchema.parse(req.body);
+    const posting = await getOwnPosting(body.posting_id, req.userJWT!.id, res);
+
+    if (!(await isVolunteerRelatedToPosting(db, posting.id, body.volunteer_id))) {
+      res.status(403);
+      throw new Error('You can only message volunteers who applied to or enrolled in this posting');
+    }
+
+    const thread = await findOrCreateThread(db, {
+      organization_id: posting.organization_id,
+      posting_id: posting.id,
+      volunteer_id: body.volunteer_id,
+    });
+
+    res.json({ thread: (await getThreadSummary(db, thread.id, 'organization'))! });
+  });
+
+  messagesRouter.get('/threads/:id', async (req, res: Response<OrganizationMessageThreadResponse>) => {
+    const { id } = threadParamsSchema.parse(req.params);
+    await getOwnThread(id, req.userJWT!.id, res);
+
+    await markThreadRead(db, id, 'organization');
+
+    const [thread, messages] = await Promise.all([
+      getThreadSummary(db, id, 'organization'),
+      getThreadMessages(db, id),
+    ]);
+
+    res.json({ thread: thread!, messages });
+  });
+
+  messagesRouter.post(
+    '/threads/:id/messages',
+    authorizeOrganizationRole('owner', 'coordinator'),
+    uploadSingle(messageAttachmentMulter, 'attachment'),
+    async (req: Request, res: Response<OrganizationMessageSendResponse>) => {
+      try {
+        const { id } = threadParamsSchema.parse(req.params);
+        const body = newMessageSchema.parse(req.body ?? {});
+        await getOwnThread(id, req.userJWT!.id, res);
+
+        if (!body.body && !req.file) {
+          res.status(400);
+          throw new Error('Message cannot be empty');
+        }
+
+        const message = await sendMessage(db, id, {
+          role: 'organization',
+          memberId: req.userJWT!.member_id ?? null,
+        }, {
+          body: body.body,
+          attachment: req.file ? { path: req.file.filename, name: req.file.originalname } : null,
+        });
+
+        res.status(201).json({ message });
+      } catch (err) {
+        await deleteMessageAttachmentIfExists(req.file);
+        throw err;
+      }
+    },
+  );
+
+  messagesRouter.get('/threads/:id/messages/:messageId/attachment', async (req: Request, res: Response, next: NextFunction) => {
+    const { id, messageId } = attachmentParamsSchema.parse(req.params);
+    await getOwnThread(id, req.userJWT!.id, res);
+
+    const message = await db
+      .selectFrom('message')
+      .select(['attachment_path', 'attachment_name'])
+      .where('id', '=', messageId)
+      .where('thread_id', '=', id)
+      .executeTakeFirst();
+
+    if (!message?.attachment_path) {
+      res.status(404);
+      throw new Error('Attachment not found');
+    }
+
+    res.attachment(message.attachment_name ?? message.attachment_path);
+    res.sendFile(message.attachment_path, { root: MESSAGE_ATTACHMENT_UPLOAD_DIR }, (error) => {
+      if (!error) return;
+      next(error);
+    });
+  });
+
+  messagesRouter.post('/broadcast', authorizeOrganizationRole('owner', 'coordinator'), async (req, res: Response<OrganizationMessageBroadcastResponse>) => {
+    const body = broadcastSchema.parse(req.body);
+    const posting = await getOwnPosting(body.posting_id, req.userJWT!.id, res);
+
+    const recipientCount = await broadcastToPostingVolunteers(db, posting, {
+      role: 'organization',
+      memberId: req.userJWT!.member_id ?? null,
+    }, { body: body.body });
+
+    res.status(201).json({ recipient_count: recipientCount });
+  });
+
+  return messagesRouter;
+}
+
+export default createOrganizationMessagesRouter;
@@ -0,0 +1,22 @@
+import { type MessageThreadSummary, type MessageWithSender } from '../../../types.ts';
+
+export type OrganizationMessageThreadsResponse = {
+  threads: MessageThreadSummary[];
+};
+
+export type OrganizationMessageThreadCreateResponse = {
+  thread: MessageThreadSummary;
+};
+
+export type OrganizationMessageThreadResponse = {
+  thread: MessageThreadSummary;
+  messages: MessageWithSender[];
+};
+
+export type OrganizationMessageSendResponse = {
+  message: MessageWithSender;
+};
+
+export type OrganizationMessageBroadcastResponse = {
+  recipient_count: number;
+};
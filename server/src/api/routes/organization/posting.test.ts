@@ -4,7 +4,9 @@ import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 import createApp from '../../../app.ts';
 import database from '../../../db/index.ts';
 import * as resendEmails from '../../../services/resend/emails.ts';
+import { withSkillIds } from '../../../services/skills/index.ts';
 import { createOrganizationAccount, createVolunteerAccount } from '../../../tests/fixtures/accounts.ts';
+import { createPosting } from '../../../tests/fixtures/organizationData.ts';
 
 import type { Database } from '../../../db/tables/index.ts';
 import type { ControlledTransaction } from 'kysely';
@@ -401,6 +403,141 @@ describe('Organization posting discover', () => {
 
     expect(response.body.postings.map((posting: { id: number }) => posting.id)).not.toContain(fullPosting.id);
   });
+
+  test('GET /organization/posting/discover filters by radius and sorts nearest first', async () => {
+    const { token } = await createOrganizationAccount(transaction, { email: 'org-discover-radius@example.com' });
+    const { organization } = await createOrganizationAccount(transaction, { email: 'org-discover-radius-owner@example.com' });
+    const dates = {
+      start_date: new Date('2099-03-01T00:00:00.000Z'),
+      end_date: new Date('2099-03-01T00:00:00.000Z'),
+    };
+
+    const tripoli = await createPosting(transaction, {
+      organizationId: organization.id,
+      title: 'Tripoli Posting',
+      overrides: { ...dates, latitude: 34.4367, longitude: 35.8497, location_name: 'Tripoli' },
+    });
+    const sidon = await createPosting(transaction, {
+      organizationId: organization.id,
+      title: 'Sidon Posting',
+      overrides: { ...dates, latitude: 33.5571, longitude: 35.3729, location_name: 'Sidon' },
+    });
+    const beirut = await createPosting(transaction, {
+      organizationId: organization.id,
+      title: 'Beirut Posting',
+      overrides: { ...dates, latitude: 33.8938, longitude: 35.5018, location_name: 'Beirut' },
+    });
+
+    const nearestResponse = await server
+      .get('/organization/posting/discover')
+      .query({ near_latitude: 33.8938, near_longitude: 35.5018, sortBy: 'nearest' })
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    const nearest = nearestResponse.body.postings as Array<{ id: number; distance_km: number }>;
+    expect(nearest.map(posting => posting.id)).toEqual([beirut.id, sidon.id, tripoli.id]);
+    expect(nearest[0]!.distance_km).toBeCloseTo(0, 3);
+    expect(nearest[1]!.distance_km).toBeGreaterThan(35);
+    expect(nearest[1]!.distance_km).toBeLessThan(45);
+
+    const radiusResponse = await server
+      .get('/organization/posting/discover')
+      .query({ near_latitude: 33.8938, near_longitude: 35.5018, radius_km: 50 })
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    const radiusIds = radiusResponse.body.postings.map((posting: { id: number }) => posting.id);
+    expect(radiusIds).toEqual(expect.arrayContaining([beirut.id, sidon.id]));
+    expect(radiusIds).not.toContain(tripoli.id);
+  });
+
+  test('GET /organization/posting/discover limits postings to the map bounds', async () => {
+    const { token } = await createOrganizationAccount(transaction, { email: 'org-discover-bounds@example.com' });
+    const { organization } = await createOrganizationAccount(transaction, { email: 'org-discover-bounds-owner@example.com' });
+    const dates = {
+      start_date: new Date('2099-03-01T00:00:00.000Z'),
+      end_date: new Date('2099-03-01T00:00:00.000Z'),
+    };
+
+    const inside = await createPosting(transaction, {
+      organizationId: organization.id,
+      title: 'Inside Bounds',
+      overrides: { ...dates, latitude: 33.8938, longitude: 35.5018 },
+    });
+    const outside = await createPosting(transaction, {
+      organizationId: organization.id,
+      title: 'Outside Bounds',
+      overrides: { ...dates, latitude: 34.4367, longitude: 35.8497 },
+    });
+
+    const response = await server
+      .get('/organization/posting/discover')
+      .query({ min_latitude: 33.8, max_latitude: 34, min_longitude: 35.4, max_longitude: 35.6 })
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    const ids = response.body.postings.map((posting: { id: number }) => posting.id);
+    expect(ids).toContain(inside.id);
+    expect(ids).not.toContain(outside.id);
+  });
+
+  test('GET /organization/posting/discover ranks full-text matches and returns highlighted snippets', async () => {
+    const { token } = await createOrganizationAccount(transaction, { email: 'org-discover-text-search@example.com' });
+    const { organization } = await createOrganizationAccount(transaction, {
+      email: 'org-discover-text-search-owner@example.com',
+      name: 'Cedar Relief',
+    });
+    const dates = {
+      start_date: new Date('2099-04-01T00:00:00.000Z'),
+      end_date: new Date('2099-04-01T00:00:00.000Z'),
+    };
+
+    const titleMatch = await createPosting(transaction, {
+      organizationId: organization.id,
+      title: 'Gardening Morning',
+      overrides: { ...dates, description: 'Plant trees along the river.' },
+    });
+    const descriptionMatch = await createPosting(transaction, {
+      organizationId: organization.id,
+      title: 'Park Day',
+      overrides: { ...dates, description: 'Weeding and community gardening in the café courtyard.' },
+    });
+    const skillMatch = await createPosting(transaction, {
+      organizationId: organization.id,
+      title: 'Shelter Support',
+      skills: ['First Aid'],
+      overrides: { ...dates, description: 'Assist families at the shelter.' },
+    });
+
+    const createdIds = [titleMatch.id, descriptionMatch.id, skillMatch.id];
+    const searchIds = async (search: string) => {
+      const response = await server
+        .get('/organization/posting/discover')
+        .query({ search })
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      return response.body.postings
+        .map((posting: { id: number }) => posting.id)
+        .filter((id: number) => createdIds.includes(id));
+    };
+
+    expect(await searchIds('garden')).toEqual([titleMatch.id, descriptionMatch.id]);
+    expect(await searchIds('cafe')).toEqual([descriptionMatch.id]);
+    expect(await searchIds('"first aid"')).toEqual([skillMatch.id]);
+    expect(await searchIds('cedar shelter')).toEqual([skillMatch.id]);
+
+    const response = await server
+      .get('/organization/posting/discover')
+      .query({ search: 'courtyard' })
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    const snippetPosting = response.body.postings.find((posting: { id: number }) => posting.id === descriptionMatch.id);
+    expect(snippetPosting.search_snippet).toEqual(expect.arrayContaining([
+      { text: 'courtyard', highlighted: true },
+    ]));
+  });
 });
 
 describe('Organization posting management', () => {
@@ -438,9 +575,9 @@ describe('Organization posting management', () => {
     expect(response.body.posting.title).toBe('Created Posting');
     expect(response.body.posting.crisis_id).toBe(crisis.id);
     const skillNames = (response.body.skills as SkillResponseItem[]).map(skill => skill.name);
-    expect(skillNames).toHaveLength(3);
+    expect(skillNames).toHaveLength(2);
     expect(skillNames).toContain('CPR');
-    expect(skillNames).toContain(' First Aid ');
+    expect(skillNames).toContain('First Aid');
   });
 
   test('creates a posting without optional fields', async () => {
@@ -536,7 +673,7 @@ describe('Organization posting management', () => {
 
     await transaction
       .insertInto('posting_skill')
-      .values([{ posting_id: posting.id, name: 'Old' }])
+      .values(await withSkillIds(transaction, [{ posting_id: posting.id, name: 'Old' }]))
       .execute();
 
     const response = await server
@@ -1008,6 +1145,63 @@ describe('Organization posting management', () => {
     expect(hideFullResponse.body.postings.map((posting: { title: string }) => posting.title)).toEqual(['Open Posting']);
   });
 
+  test('GET /organization/posting pages past full postings from where the last page ended', async () => {
+    const { organization, token } = await createOrganizationAccount(transaction, { email: 'org-list-keyset@example.com' });
+    const { volunteer } = await createVolunteerAccount(transaction, { email: 'vol-list-keyset@example.com' });
+
+    const insertPosting = (title: string, startDate: string, maxVolunteers: number) => transaction
+      .insertInto('posting')
+      .values({
+        organization_id: organization.id,
+        title,
+        description: `${title} description`,
+        latitude: 33.9,
+        longitude: 35.5,
+        max_volunteers: maxVolunteers,
+        start_date: new Date(`${startDate}T00:00:00.000Z`),
+        start_time: '09:00:00',
+        end_date: new Date(`${startDate}T00:00:00.000Z`),
+        end_time: '17:00:00',
+        minimum_age: 18,
+        automatic_acceptance: true,
+        is_closed: false,
+        allows_partial_attendance: false,
+        location_name: 'Keyset Location',
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await insertPosting('First Posting', '2027-03-01', 10);
+    const fullPosting = await insertPosting('Full Posting', '2027-03-02', 1);
+    await insertPosting('Third Posting', '2027-03-03', 10);
+
+    await transaction
+      .insertInto('enrollment')
+      .values({ volunteer_id: volunteer.id, posting_id: fullPosting.id, attended: false })
+      .execute();
+
+    const firstPage = await server
+      .get('/organization/posting')
+      .query({ hide_full: 'true', sortBy: 'start_date', sortDir: 'asc', limit: 1 })
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(firstPage.body.postings.map((posting: { title: string }) => posting.title)).toEqual(['First Posting']);
+    expect(firstPage.body.next_cursor).toEqual(expect.any(String));
+
+    // A posting that sorts before the cursor must not shift the next page
+    await insertPosting('Earlier Posting', '2027-02-01', 10);
+
+    const secondPage = await server
+      .get('/organization/posting')
+      .query({ hide_full: 'true', sortBy: 'start_date', sortDir: 'asc', limit: 1, cursor: firstPage.body.next_cursor })
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(secondPage.body.postings.map((posting: { title: string }) => posting.title)).toEqual(['Third Posting']);
+    expect(secondPage.body.next_cursor).toBeNull();
+  });
+
   test('GET /organization/posting/:id returns posting with crisis and skills', async () => {
     const { organization, token } = await createOrganizationAccount(transaction, { email: 'org-get-posting@example.com' });
     const crisis = await transaction
@@ -1041,7 +1235,7 @@ describe('Organization posting management', () => {
 
     await transaction
       .insertInto('posting_skill')
-      .values({ posting_id: posting.id, name: 'Detail Skill' })
+      .values(await withSkillIds(transaction, [{ posting_id: posting.id, name: 'Detail Skill' }]))
       .execute();
 
     const response = await server
@@ -1664,3 +1858,430 @@ describe('Organization posting management', () => {
     expect(response.body.posting.title).toBe('Updated Title Only');
   });
 });
+
+describe('Organization recurring postings', () => {
+  test('creates a weekly posting and expands its dates with skipped and overridden occurrences', async () => {
+    const { token } = await createOrganizationAccount(transaction, { email: 'org-recurring-create@example.com' });
+
+    const response = await server
+      .post('/organization/posting')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        title: 'Food Bank Shifts',
+        description: 'Every Tuesday and Saturday',
+        latitude: 33.9,
+        longitude: 35.5,
+        max_volunteers: 10,
+        start_date: '2027-03-01',
+        start_time: '09:00:00',
+        end_date: '2027-03-21',
+        end_time: '12:00:00',
+        minimum_age: null,
+        automatic_acceptance: true,
+        is_closed: false,
+        allows_partial_attendance: true,
+        location_name: 'Food Bank',
+        recurrence_weekdays: [2, 6],
+        occurrence_overrides: [
+          { date: '2027-03-09', is_skipped: true },
+          { date: '2027-03-13', start_time: '10:00:00', end_time: '14:00:00' },
+        ],
+      })
+      .expect(200);
+
+    expect(response.body.posting).toMatchObject({
+      recurrence_weekdays: [2, 6],
+      recurrence_interval: 1,
+    });
+    expect(response.body.posting_dates).toEqual(['2027-03-02', '2027-03-06', '2027-03-13', '2027-03-16', '2027-03-20']);
+    expect(response.body.occurrence_overrides).toEqual([
+      { date: '2027-03-09', is_skipped: true, start_time: null, end_time: null },
+      { date: '2027-03-13', is_skipped: false, start_time: '10:00:00', end_time: '14:00:00' },
+    ]);
+
+    const fetched = await server
+      .get(`/organization/posting/${response.body.posting.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(fetched.body.posting_dates).toEqual(response.body.posting_dates);
+  });
+
+  test('honours the repeat interval in weeks', async () => {
+    const { token } = await createOrganizationAccount(transaction, { email: 'org-recurring-interval@example.com' });
+
+    const response = await server
+      .post('/organization/posting')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        title: 'Fortnightly Shifts',
+        description: 'Every other week',
+        latitude: 33.9,
+        longitude: 35.5,
+        max_volunteers: null,
+        start_date: '2027-03-01',
+        start_time: '09:00:00',
+        end_date: '2027-03-21',
+        end_time: '12:00:00',
+        minimum_age: null,
+        automatic_acceptance: true,
+        is_closed: false,
+        allows_partial_attendance: false,
+        location_name: 'Food Bank',
+        recurrence_weekdays: [2, 6],
+        recurrence_interval: 2,
+      })
+      .expect(200);
+
+    expect(response.body.posting_dates).toEqual(['2027-03-02', '2027-03-06', '2027-03-16', '2027-03-20']);
+  });
+
+  test('returns 400 when a schedule exception does not match a posting date', async () => {
+    const { token } = await createOrganizationAccount(transaction, { email: 'org-recurring-invalid@example.com' });
+
+    const response = await server
+      .post('/organization/posting')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        title: 'Food Bank Shifts',
+        description: 'Every Tuesday',
+        latitude: 33.9,
+        longitude: 35.5,
+        max_volunteers: 10,
+        start_date: '2027-03-01',
+        start_time: '09:00:00',
+        end_date: '2027-03-21',
+        end_time: '12:00:00',
+        minimum_age: null,
+        automatic_acceptance: true,
+        is_closed: false,
+        allows_partial_attendance: true,
+        location_name: 'Food Bank',
+        recurrence_weekdays: [2],
+        occurrence_overrides: [{ date: '2027-03-03', is_skipped: true }],
+      })
+      .expect(400);
+
+    expect(response.body.message).toBe('Schedule exception 2027-03-03 does not match any posting date');
+  });
+
+  test('changing the recurrence keeps attended dates and syncs full-commitment enrollment dates', async () => {
+    const { organization, token } = await createOrganizationAccount(transaction, { email: 'org-recurring-sync@example.com' });
+    const { volunteer } = await createVolunteerAccount(transaction, { email: 'vol-recurring-sync@example.com' });
+
+    const posting = await transaction
+      .insertInto('posting')
+      .values({
+        organization_id: organization.id,
+        title: 'Daily Shifts',
+        description: 'Every day for a week',
+        latitude: 33.9,
+        longitude: 35.5,
+        max_volunteers: 10,
+        start_date: new Date('2027-03-01T00:00:00.000Z'),
+        start_time: '09:00:00',
+        end_date: new Date('2027-03-07T00:00:00.000Z'),
+        end_time: '12:00:00',
+        minimum_age: null,
+        automatic_acceptance: true,
+        is_closed: false,
+        allows_partial_attendance: false,
+        location_name: 'Food Bank',
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    const enrollment = await transaction
+      .insertInto('enrollment')
+      .values({
+        volunteer_id: volunteer.id,
+        posting_id: posting.id,
+        message: null,
+        attended: false,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await transaction
+      .insertInto('enrollment_date')
+      .values(['01', '02', '03', '04', '05', '06', '07'].map(day => ({
+        enrollment_id: enrollment.id,
+        posting_id: posting.id,
+        date: new Date(`2027-03-${day}T00:00:00.000Z`),
+        attended: day === '01',
+      })))
+      .execute();
+
+    const response = await server
+      .put(`/organization/posting/${posting.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ recurrence_weekdays: [2, 6] })
+      .expect(200);
+
+    expect(response.body.posting_dates).toEqual(['2027-03-02', '2027-03-06']);
+
+    const enrollmentDates = await transaction
+      .selectFrom('enrollment_date')
+      .select(['date', 'attended'])
+      .where('enrollment_id', '=', enrollment.id)
+      .orderBy('date', 'asc')
+      .execute();
+
+    expect(enrollmentDates.map(row => [formatDateToIso(row.date), row.attended])).toEqual([
+      ['2027-03-01', true],
+      ['2027-03-02', false],
+      ['2027-03-06', false],
+    ]);
+  });
+});
+
+describe('Organization posting roles', () => {
+  const rolePostingBody = {
+    title: 'Festival Shifts',
+    description: 'Several roles on the same day',
+    latitude: 33.9,
+    longitude: 35.5,
+    max_volunteers: 50,
+    start_date: '2027-04-10',
+    start_time: '09:00:00',
+    end_date: '2027-04-10',
+    end_time: '17:00:00',
+    minimum_age: null,
+    automatic_acceptance: false,
+    is_closed: false,
+    allows_partial_attendance: false,
+    location_name: 'Festival Grounds',
+  };
+
+  test('creates roles with their skills and caps the posting at their total capacity', async () => {
+    const { token } = await createOrganizationAccount(transaction, { email: 'org-roles-create@example.com' });
+
+    const response = await server
+      .post('/organization/posting')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        ...rolePostingBody,
+        roles: [
+          { name: 'Driver', max_volunteers: 2, minimum_age: 21, skills: ['Driving license'] },
+          { name: 'Cook', max_volunteers: 3 },
+        ],
+      })
+      .expect(200);
+
+    expect(response.body.posting.max_volunteers).toBe(5);
+    expect(response.body.roles).toEqual([
+      expect.objectContaining({ name: 'Driver', max_volunteers: 2, minimum_age: 21, skills: ['Driving license'], enrollment_count: 0 }),
+      expect.objectContaining({ name: 'Cook', max_volunteers: 3, minimum_age: null, skills: [], enrollment_count: 0 }),
+    ]);
+  });
+
+  test('returns 400 when two roles share a name', async () => {
+    const { token } = await createOrganizationAccount(transaction, { email: 'org-roles-duplicate@example.com' });
+
+    const response = await server
+      .post('/organization/posting')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        ...rolePostingBody,
+        roles: [{ name: 'Driver' }, { name: ' driver ' }],
+      })
+      .expect(400);
+
+    expect(response.body.message).toBe('Role Driver is listed more than once');
+  });
+
+  test('filters applications by role and refuses to remove a role that has applicants', async () => {
+    const { token } = await createOrganizationAccount(transaction, { email: 'org-roles-applications@example.com' });
+    const { volunteer } = await createVolunteerAccount(transaction, { email: 'org-roles-applicant@example.com' });
+
+    const created = await server
+      .post('/organization/posting')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        ...rolePostingBody,
+        roles: [{ name: 'Driver', max_volunteers: 2 }, { name: 'Cook', max_volunteers: 3 }],
+      })
+      .expect(200);
+
+    const [driverRole, cookRole] = created.body.roles;
+
+    await transaction
+      .insertInto('enrollment_application')
+      .values({ volunteer_id: volunteer.id, posting_id: created.body.posting.id, role_id: driverRole.id, message: null })
+      .execute();
+
+    const driverApplications = await server
+      .get(`/organization/posting/${created.body.posting.id}/applications`)
+      .query({ role_id: driverRole.id })
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(driverApplications.body.applications).toEqual([
+      expect.objectContaining({ volunteer_id: volunteer.id, role_id: driverRole.id, role_name: 'Driver' }),
+    ]);
+
+    const cookApplications = await server
+      .get(`/organization/posting/${created.body.posting.id}/applications`)
+      .query({ role_id: cookRole.id })
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(cookApplications.body.applications).toEqual([]);
+
+    const response = await server
+      .put(`/organization/posting/${created.body.posting.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ roles: [{ id: cookRole.id, name: 'Cook', max_volunteers: 3 }] })
+      .expect(409);
+
+    expect(response.body.message).toBe('Cannot remove role Driver while volunteers are enrolled or applying for it');
+  });
+});
+
+describe('Organization posting questions', () => {
+  const questionPostingBody = {
+    title: 'Clinic Volunteers',
+    description: 'Screened volunteers for the clinic',
+    latitude: 33.9,
+    longitude: 35.5,
+    max_volunteers: 10,
+    start_date: '2027-04-10',
+    start_time: '09:00:00',
+    end_date: '2027-04-10',
+    end_time: '17:00:00',
+    minimum_age: null,
+    automatic_acceptance: false,
+    is_closed: false,
+    allows_partial_attendance: false,
+    location_name: 'Clinic',
+  };
+
+  test('creates questions in order and replaces them on update', async () => {
+    const { token } = await createOrganizationAccount(transaction, { email: 'org-questions-create@example.com' });
+
+    const created = await server
+      .post('/organization/posting')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        ...questionPostingBody,
+        questions: [
+          { prompt: 'Why do you want to help?', type: 'short_text', is_required: true },
+          { prompt: 'Preferred shift', type: 'multiple_choice', options: ['Morning', 'Evening'] },
+        ],
+      })
+      .expect(200);
+
+    expect(created.body.questions).toEqual([
+      expect.objectContaining({ position: 0, prompt: 'Why do you want to help?', type: 'short_text', options: [], is_required: true }),
+      expect.objectContaining({ position: 1, prompt: 'Preferred shift', type: 'multiple_choice', options: ['Morning', 'Evening'], is_required: false }),
+    ]);
+
+    const [motivationQuestion] = created.body.questions;
+
+    const updated = await server
+      .put(`/organization/posting/${created.body.posting.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        questions: [
+          { prompt: 'Are you certified in first aid?', type: 'yes_no', is_required: true },
+          { id: motivationQuestion.id, prompt: 'Why do you want to volunteer?', type: 'short_text' },
+        ],
+      })
+      .expect(200);
+
+    expect(updated.body.questions).toEqual([
+      expect.objectContaining({ position: 0, prompt: 'Are you certified in first aid?', type: 'yes_no' }),
+      expect.objectContaining({ id: motivationQuestion.id, position: 1, prompt: 'Why do you want to volunteer?', is_required: false }),
+    ]);
+
+    const fetched = await server
+      .get(`/organization/posting/${created.body.posting.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(fetched.body.questions).toEqual(updated.body.questions);
+  });
+
+  test('returns 400 for invalid questions', async () => {
+    const { token } = await createOrganizationAccount(transaction, { email: 'org-questions-invalid@example.com' });
+
+    await server
+      .post('/organization/posting')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        ...questionPostingBody,
+        questions: [{ prompt: 'Preferred shift', type: 'multiple_choice', options: ['Morning'] }],
+      })
+      .expect(400);
+
+    const duplicateResponse = await server
+      .post('/organization/posting')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        ...questionPostingBody,
+        questions: [
+          { prompt: 'Do you drive?', type: 'yes_no' },
+          { prompt: 'do you drive? ', type: 'yes_no' },
+        ],
+      })
+      .expect(400);
+
+    expect(duplicateResponse.body.message).toBe('Question "Do you drive?" is listed more than once');
+  });
+
+  test('lists and exports application answers, keeping answers to removed questions', async () => {
+    const { token } = await createOrganizationAccount(transaction, { email: 'org-questions-export@example.com' });
+    const { volunteer } = await createVolunteerAccount(transaction, { email: 'org-questions-applicant@example.com' });
+
+    const created = await server
+      .post('/organization/posting')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        ...questionPostingBody,
+        questions: [
+          { prompt: 'Why do you want to help?', type: 'short_text', is_required: true },
+          { prompt: 'Do you have a car?', type: 'yes_no' },
+        ],
+      })
+      .expect(200);
+
+    const [motivationQuestion, carQuestion] = created.body.questions;
+    const answers = [
+      { question_id: motivationQuestion.id, prompt: motivationQuestion.prompt, type: 'short_text', answer: 'I care, "a lot"' },
+      { question_id: carQuestion.id, prompt: carQuestion.prompt, type: 'yes_no', answer: 'yes' },
+    ];
+
+    await transaction
+      .insertInto('enrollment_application')
+      .values({ volunteer_id: volunteer.id, posting_id: created.body.posting.id, message: null, answers: JSON.stringify(answers) })
+      .execute();
+
+    const applicationsResponse = await server
+      .get(`/organization/posting/${created.body.posting.id}/applications`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(applicationsResponse.body.applications).toEqual([
+      expect.objectContaining({ volunteer_id: volunteer.id, answers }),
+    ]);
+
+    await server
+      .put(`/organization/posting/${created.body.posting.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ questions: [{ id: motivationQuestion.id, prompt: 'Why do you want to help?', type: 'short_text', is_required: true }] })
+      .expect(200);
+
+    const exportResponse = await server
+      .get(`/organization/posting/${created.body.posting.id}/applications/export`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(exportResponse.headers['content-type']).toContain('text/csv');
+    expect(exportResponse.headers['content-disposition']).toContain('Clinic_Volunteers-applications.csv');
+
+    const [headerLine, applicationLine] = exportResponse.text.split('\n');
+    expect(headerLine).toContain('"Why do you want to help?","Do you have a car? (removed question)"');
+    expect(applicationLine).toContain('"org-questions-applicant@example.com"');
+    expect(applicationLine).toContain('"I care, ""a lot""","yes"');
+  });
+});
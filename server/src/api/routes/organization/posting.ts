@@ -3,6 +3,7 @@ import { sql, type Kysely } from 'kysely';
 import zod from 'zod';
 
 import createAttendanceRouter from './attendance.ts';
+import createPostingFeedbackRouter from './feedback.ts';
 import {
   type PostingDiscoverResponse,
   type PostingCreateResponse,
@@ -15,15 +16,21 @@ import {
   type PostingApplicationAcceptanceResponse,
   type PostingApplicationRejectionResponse,
 } from './posting.types.ts';
+import { getPostingApplications } from './postingApplications.ts';
 import { getPostingEnrollments } from './postingEnrollments.ts';
+import authorizeOrganizationRole from '../../../auth/authorizeOrganizationRole.ts';
 import executeTransaction from '../../../db/executeTransaction.ts';
 import {
   type Database,
+  type NewPostingOccurrenceOverride,
+  type NewPostingQuestion,
+  type NewPostingRole,
   type PostingWithoutVectors,
   type PostingSkill,
-  type VolunteerSkill,
   newPostingSchema,
 } from '../../../db/tables/index.ts';
+import { renderCalendar } from '../../../services/calendar/ical.ts';
+import { getOrganizationCalendarEvents } from '../../../services/calendar/index.ts';
 import {
   recomputeOrganizationCompositeVectorOnly,
   recomputeOrganizationHistoryVectorOnly,
@@ -32,24 +39,69 @@ import {
   recomputePostingVectors,
   recomputeVolunteerExperienceVector,
 } from '../../../services/embeddings/updates.ts';
-import { hasPostingEnded } from '../../../services/posting/postingTime.ts';
+import { enqueueJob } from '../../../services/jobs/queue.ts';
+import {
+  createApplicationRejectedDelivery,
+  createPostingDeletedDelivery,
+  deliverNotification,
+  deliverNotifications,
+} from '../../../services/notifications/index.ts';
+import { getLatestGuardianConsents } from '../../../services/posting/guardianConsent.ts';
+import {
+  applyPostingBoundsFilter,
+  applyPostingDateTimeFilters,
+  applyPostingDistanceFilter,
+  applyPostingFilter,
+  getPostingDistanceExpression,
+} from '../../../services/posting/postingFilters.ts';
+import {
+  getDuplicateQuestionPrompt,
+  getPostingQuestions,
+  replacePostingQuestions,
+} from '../../../services/posting/postingQuestions.ts';
+import {
+  getDuplicateRoleName,
+  getOccupiedRemovedRoles,
+  getPostingRoles,
+  getRolesTotalCapacity,
+  replacePostingRoles,
+} from '../../../services/posting/postingRoles.ts';
+import {
+  getPostingOccurrenceDates,
+  getPostingOccurrenceOverrides,
+  getUnmatchedOverrideDates,
+  replacePostingOccurrenceOverrides,
+  syncEnrollmentDatesWithSchedule,
+  type PostingSchedule,
+} from '../../../services/posting/postingSchedule.ts';
+import { hasPostingEnded, normalizeStoredTime } from '../../../services/posting/postingTime.ts';
 import { rejectEndedPendingApplicationsForPostings } from '../../../services/posting/rejectEndedPendingApplications.ts';
+import { promoteWaitlistedVolunteers } from '../../../services/posting/waitlist.ts';
+import { sendVolunteerApplicationAcceptedEmail } from '../../../services/resend/emails.ts';
+import { normalizeSkillName, resolveSkills } from '../../../services/skills/index.ts';
 import {
-  sendPostingDeletedEmail,
-  sendVolunteerApplicationAcceptedEmail,
-  sendVolunteerApplicationRejectedEmail,
-} from '../../../services/resend/emails.ts';
+  buildTextSearchQuery,
+  getTextSearchHeadline,
+  getTextSearchRank,
+  matchesTextSearch,
+  withSearchSnippet,
+} from '../../../services/textSearch/index.ts';
+import { toCsv, toCsvFilename } from '../utils/csv.ts';
 import {
+  applyListPage,
+  parseListPage,
   parseListQuery,
   parseOptionalBooleanQueryParam,
   parseOptionalNumberQueryParam,
+  toListPageResult,
+  type ListSortKey,
 } from '../utils/listQuery.ts';
 import {
-  applyPostingDateTimeFilters,
-  applySharedPostingSort,
-  buildSearchRegexPattern,
-  normalizeSearchTerms,
+  getPostingDistanceSortKeys,
+  getSharedPostingSortKeys,
+  parsePostingBoundsFilter,
   parsePostingDateTimeFilters,
+  parsePostingDistanceFilter,
 } from '../utils/postingList.ts';
 import { buildPostingsWithContext, postingWithContextSelectColumns } from '../volunteer/postingWithContext.ts';
 
@@ -74,6 +126,9 @@ const postingResponseColumns = [
   'posting.automatic_acceptance',
   'posting.is_closed',
   'posting.allows_partial_attendance',
+  'posting.requires_guardian_consent',
+  'posting.recurrence_weekdays',
+  'posting.recurrence_interval',
   'posting.location_name',
   'posting.created_at',
   'posting.updated_at',
@@ -84,7 +139,7 @@ const withPostingEndedFlag = <T extends { end_date: Date | string | null | undef
   has_ended: hasPostingEnded(posting),
 });
 
-const normalizeSkillList = (skills: string[]) => Array.from(new Set(skills.map(skill => skill.trim()).filter(Boolean))).sort();
+const normalizeSkillList = (skills: string[]) => Array.from(new Set(skills.map(normalizeSkillName).filter(Boolean))).sort();
 const areSkillListsEqual = (left: string[], right: string[]) => {
   if (left.length !== right.length) return false;
   return left.every((value, index) => value === right[index]);
@@ -99,45 +154,38 @@ const normalizeStoredDate = (value: Date | string | null | undefined) => {
   }
   return undefined;
 };
-const parseIsoDateParts = (value: string) => {
-  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
-  if (!match) return undefined;
-
-  return {
-    year: Number(match[1]),
-    month: Number(match[2]),
-    day: Number(match[3]),
-  };
-};
-const getPostingDates = (startDate: Date | string, endDate: Date | string): string[] => {
-  const normalizedStartDate = normalizeStoredDate(startDate);
-  const normalizedEndDate = normalizeStoredDate(endDate);
-  const startParts = normalizedStartDate ? parseIsoDateParts(normalizedStartDate) : undefined;
-  const endParts = normalizedEndDate ? parseIsoDateParts(normalizedEndDate) : undefined;
-
-  if (!startParts || !endParts) {
-    return [];
-  }
-
-  const result: string[] = [];
-  const current = new Date(Date.UTC(startParts.year, startParts.month - 1, startParts.day));
-  const end = new Date(Date.UTC(endParts.year, endParts.month - 1, endParts.day));
-
-  while (current.getTime() <= end.getTime()) {
-    result.push(formatDateToIso(current));
-    current.setUTCDate(current.getUTCDate() + 1);
-  }
-
-  return result;
+const areWeekdayListsEqual = (left: number[] | null | undefined, right: number[] | null | undefined) => (
+  [...(left ?? [])].sort().join(',') === [...(right ?? [])].sort().join(',')
+);
+type OccurrenceOverrideInput = Pick<NewPostingOccurrenceOverride, 'date' | 'is_skipped' | 'start_time' | 'end_time'>;
+const toOverrideKey = (override: OccurrenceOverrideInput) => [
+  override.date,
+  override.is_skipped,
+  normalizeStoredTime(override.start_time) ?? '',
+  normalizeStoredTime(override.end_time) ?? '',
+].join('|');
+const areOverrideListsEqual = (left: readonly OccurrenceOverrideInput[], right: readonly OccurrenceOverrideInput[]) => {
+  const leftKeys = left.map(toOverrideKey).sort();
+  const rightKeys = right.map(toOverrideKey).sort();
+  return leftKeys.length === rightKeys.length && leftKeys.every((key, index) => key === rightKeys[index]);
 };
 const areDatesEqual = (left: Date | undefined, right: Date | undefined) => (left?.getTime() ?? null) === (right?.getTime() ?? null);
 const areTimeValuesEqual = (left: string | undefined, right: string | undefined) => (left ?? null) === (right ?? null);
 const isPostingFull = (maxVolunteers: number | null | undefined, enrollmentCount: number) => maxVolunteers !== undefined && maxVolunteers !== null && enrollmentCount >= maxVolunteers;
+// Same check as isPostingFull, so full postings can be left out before a page is cut
+const postingFullExpression = sql<boolean>`(
+  posting.max_volunteers IS NOT NULL
+  AND (SELECT count(*) FROM enrollment WHERE enrollment.posting_id = posting.id) >= posting.max_volunteers
+)`;
 
 const postingIdParamsSchema = zod.object({
   id: zod.coerce.number().int().positive('ID must be a positive number'),
 });
 
+const postingRoleFilterQuerySchema = zod.object({
+  role_id: zod.coerce.number().int().positive('Role ID must be a positive number').optional(),
+});
+
 const assertCrisisExists = async (crisisId: number, db: Kysely<Database>, res: Response) => {
   const crisis = await db
     .selectFrom('crisis')
@@ -151,6 +199,30 @@ const assertCrisisExists = async (crisisId: number, db: Kysely<Database>, res: R
   }
 };
 
+const assertValidSchedule = (
+  schedule: PostingSchedule,
+  overrides: readonly NewPostingOccurrenceOverride[],
+  res: Response,
+) => {
+  const overrideDates = overrides.map(override => override.date);
+  const duplicateDate = overrideDates.find((date, index) => overrideDates.indexOf(date) !== index);
+  if (duplicateDate) {
+    res.status(400);
+    throw new Error(`Schedule exception for ${duplicateDate} is listed more than once`);
+  }
+
+  const unmatchedDate = getUnmatchedOverrideDates(schedule, overrides).at(0);
+  if (unmatchedDate) {
+    res.status(400);
+    throw new Error(`Schedule exception ${unmatchedDate} does not match any posting date`);
+  }
+
+  if (getPostingOccurrenceDates(schedule, overrides).length === 0) {
+    res.status(400);
+    throw new Error('The posting schedule does not include any dates');
+  }
+};
+
 const getPostingCrisis = async (crisisId: number | null | undefined, db: Kysely<Database>) => {
   if (crisisId == null) return undefined;
   return db
@@ -160,13 +232,29 @@ const getPostingCrisis = async (crisisId: number | null | undefined, db: Kysely<
     .executeTakeFirst();
 };
 
+const assertValidRoles = (roles: readonly NewPostingRole[], res: Response) => {
+  const duplicateRoleName = getDuplicateRoleName(roles);
+  if (duplicateRoleName) {
+    res.status(400);
+    throw new Error(`Role ${duplicateRoleName} is listed more than once`);
+  }
+};
+
+const assertValidQuestions = (questions: readonly NewPostingQuestion[], res: Response) => {
+  const duplicatePrompt = getDuplicateQuestionPrompt(questions);
+  if (duplicatePrompt) {
+    res.status(400);
+    throw new Error(`Question "${duplicatePrompt}" is listed more than once`);
+  }
+};
+
 function createPostingRouter(db: Kysely<Database>) {
   const postingRouter = Router();
 
-  postingRouter.post('/', async (req, res: Response<PostingCreateResponse>) => {
+  postingRouter.post('/', authorizeOrganizationRole('owner', 'coordinator'), async (req, res: Response<PostingCreateResponse>) => {
     const body = newPostingSchema.parse(req.body);
     const orgId = req.userJWT!.id;
-    const { skills, ...postingBody } = body;
+    const { skills, occurrence_overrides: occurrenceOverrides = [], roles = [], questions = [], ...postingBody } = body;
 
     const now = new Date();
     const todayIso = formatDateToIso(now);
@@ -198,6 +286,21 @@ function createPostingRouter(db: Kysely<Database>) {
       }
     }
 
+    assertValidSchedule(body, occurrenceOverrides, res);
+    assertValidRoles(roles, res);
+
+    if (roles.some(role => role.id !== undefined)) {
+      res.status(400);
+      throw new Error('New postings cannot reference existing roles');
+    }
+
+    assertValidQuestions(questions, res);
+
+    if (questions.some(question => question.id !== undefined)) {
+      res.status(400);
+      throw new Error('New postings cannot reference existing questions');
+    }
+
     if (body.crisis_id != null) {
       await assertCrisisExists(body.crisis_id, db, res);
     }
@@ -206,6 +309,7 @@ function createPostingRouter(db: Kysely<Database>) {
       const postingInsertValues = {
         organization_id: orgId,
         ...postingBody,
+        ...(roles.length > 0 ? { max_volunteers: getRolesTotalCapacity(roles) } : {}),
       } as Partial<PostingWithoutVectors>;
 
       const newPosting = await trx
@@ -218,15 +322,22 @@ function createPostingRouter(db: Kysely<Database>) {
         throw new Error('Failed to create posting');
       }
 
-      if (skills && skills.length > 0) {
-        const skillRows = skills.map(name => ({ posting_id: newPosting.id, name }));
+      const resolvedSkills = await resolveSkills(trx, skills ?? []);
+      if (resolvedSkills.length > 0) {
+        const skillRows = resolvedSkills.map(skill => ({ posting_id: newPosting.id, skill_id: skill.id, name: skill.name }));
         await trx.insertInto('posting_skill').values(skillRows).execute();
       }
 
+      await replacePostingOccurrenceOverrides(trx, newPosting.id, occurrenceOverrides);
+      await replacePostingRoles(trx, newPosting.id, roles);
+      await replacePostingQuestions(trx, newPosting.id, questions);
+
       return { postingId: newPosting.id };
     });
 
     await recomputePostingVectors(result.postingId, db);
+    await enqueueJob(db, 'saved_searches.match_posting', { postingId: result.postingId });
+    await enqueueJob(db, 'follows.notify_new_posting', { postingId: result.postingId });
 
     const posting = withPostingEndedFlag(await db
       .selectFrom('posting')
@@ -234,13 +345,26 @@ function createPostingRouter(db: Kysely<Database>) {
       .where('id', '=', result.postingId)
       .executeTakeFirstOrThrow());
 
-    const insertedSkills = await db
-      .selectFrom('posting_skill')
-      .selectAll()
-      .where('posting_id', '=', result.postingId)
-      .execute();
+    const [insertedSkills, insertedOverrides, insertedRoles, insertedQuestions] = await Promise.all([
+      db
+        .selectFrom('posting_skill')
+        .selectAll()
+        .where('posting_id', '=', result.postingId)
+        .execute(),
+      getPostingOccurrenceOverrides(db, [result.postingId]),
+      getPostingRoles(db, [result.postingId]),
+      getPostingQuestions(db, [result.postingId]),
+    ]);
+    const occurrence_overrides = insertedOverrides.get(result.postingId) ?? [];
 
-    res.json({ posting, skills: insertedSkills });
+    res.json({
+      posting,
+      skills: insertedSkills,
+      occurrence_overrides,
+      roles: insertedRoles.get(result.postingId) ?? [],
+      questions: insertedQuestions.get(result.postingId) ?? [],
+      posting_dates: getPostingOccurrenceDates(posting, occurrence_overrides),
+    });
   });
 
   postingRouter.get('/', async (req, res: Response<PostingListResponse>) => {
@@ -250,6 +374,7 @@ function createPostingRouter(db: Kysely<Database>) {
       defaultSortBy: 'start_date',
       defaultSortDir: 'asc',
     });
+    const listPage = parseListPage(req.query);
 
     const hideFull = parseOptionalBooleanQueryParam(req.query.hide_full) ?? false;
     const postingFilter = typeof req.query.posting_filter === 'string' ? req.query.posting_filter : 'all';
@@ -258,42 +383,26 @@ function createPostingRouter(db: Kysely<Database>) {
     const crisisIdFilter = parseOptionalNumberQueryParam(req.query.crisis_id);
     const dateTimeFilters = parsePostingDateTimeFilters(req.query);
 
+    const textSearchQuery = buildTextSearchQuery(search);
+
     let postingsQuery = db
       .selectFrom('posting')
       .select(postingResponseColumns)
+      .select(getTextSearchHeadline('posting.description', textSearchQuery).as('search_headline'))
       .where('organization_id', '=', orgId);
 
-    if (search) {
-      const terms = normalizeSearchTerms(search);
-      postingsQuery = postingsQuery.where(({ and, or }) => and(
-        terms.map((term) => {
-          const searchPattern = buildSearchRegexPattern(term);
-          return or([
-            sql<boolean>`lower(posting.title) ~ ${searchPattern}`,
-            sql<boolean>`lower(posting.description) ~ ${searchPattern}`,
-            sql<boolean>`lower(posting.location_name) ~ ${searchPattern}`,
-          ]);
-        }),
-      ));
+    const sortKeys: ListSortKey[] = [];
+
+    if (textSearchQuery) {
+      postingsQuery = postingsQuery.where(matchesTextSearch('posting.search_vector', textSearchQuery));
+      sortKeys.push({ expression: getTextSearchRank('posting.search_vector', textSearchQuery), direction: 'desc' });
     }
 
     if (isClosedFilter !== undefined) {
       postingsQuery = postingsQuery.where('posting.is_closed', '=', isClosedFilter);
     }
 
-    if (postingFilter === 'open') {
-      postingsQuery = postingsQuery.where('posting.automatic_acceptance', '=', true);
-    } else if (postingFilter === 'review') {
-      postingsQuery = postingsQuery.where('posting.automatic_acceptance', '=', false);
-    } else if (postingFilter === 'partial') {
-      postingsQuery = postingsQuery.where('posting.allows_partial_attendance', '=', true);
-    } else if (postingFilter === 'full') {
-      postingsQuery = postingsQuery.where('posting.allows_partial_attendance', '=', false);
-    } else if (postingFilter === 'tagged') {
-      postingsQuery = postingsQuery.where('posting.crisis_id', 'is not', null);
-    } else if (postingFilter === 'untagged') {
-      postingsQuery = postingsQuery.where('posting.crisis_id', 'is', null);
-    }
+    postingsQuery = applyPostingFilter(postingsQuery, postingFilter);
 
     if (automaticAcceptanceFilter !== undefined) {
       postingsQuery = postingsQuery.where('posting.automatic_acceptance', '=', automaticAcceptanceFilter);
@@ -305,13 +414,23 @@ function createPostingRouter(db: Kysely<Database>) {
 
     postingsQuery = applyPostingDateTimeFilters(postingsQuery, dateTimeFilters);
 
+    if (hideFull) {
+      postingsQuery = postingsQuery.where(eb => eb.not(postingFullExpression));
+    }
+
     if (sortBy === 'title') {
-      postingsQuery = postingsQuery.orderBy('posting.title', sortDir);
+      sortKeys.push(
+        { expression: 'posting.title', direction: sortDir },
+        { expression: 'posting.id', direction: sortDir },
+      );
     } else {
-      postingsQuery = applySharedPostingSort(postingsQuery, sortBy, sortDir);
+      sortKeys.push(...getSharedPostingSortKeys(sortBy, sortDir));
     }
 
-    const postings = await postingsQuery.execute();
+    const { items: postings, next_cursor } = toListPageResult(
+      await applyListPage(postingsQuery, listPage, sortKeys).execute(),
+      listPage,
+    );
     const postingIds = postings.map(p => p.id);
 
     const skills = postingIds.length > 0
@@ -344,7 +463,7 @@ function createPostingRouter(db: Kysely<Database>) {
       countsByPostingId.set(row.posting_id, Number(row.count ?? 0));
     });
 
-    const postingsWithSkills = postings.map((posting) => {
+    const items = postings.map(withSearchSnippet).map((posting) => {
       const enrollmentCount = countsByPostingId.get(posting.id) ?? 0;
       return {
         ...withPostingEndedFlag(posting),
@@ -354,31 +473,33 @@ function createPostingRouter(db: Kysely<Database>) {
       };
     });
 
-    const visiblePostings = hideFull
-      ? postingsWithSkills.filter(posting => !posting.is_full)
-      : postingsWithSkills;
-
-    res.json({ postings: visiblePostings });
+    res.json({ postings: items, next_cursor });
   });
 
   postingRouter.get('/discover', async (req, res: Response<PostingDiscoverResponse>) => {
-    const { location_name, skill } = req.query;
+    const { location_name } = req.query;
     const dateTimeFilters = parsePostingDateTimeFilters(req.query);
+    const distanceFilter = parsePostingDistanceFilter(req.query);
+    const boundsFilter = parsePostingBoundsFilter(req.query);
     const hideFull = parseOptionalBooleanQueryParam(req.query.hide_full) ?? false;
     const crisisIdFilter = parseOptionalNumberQueryParam(req.query.crisis_id);
     const postingFilter = typeof req.query.posting_filter === 'string' ? req.query.posting_filter : 'all';
     const { search, sortBy, sortDir } = parseListQuery(req.query, {
-      allowedSortBy: ['recommended', 'start_date', 'created_at', 'title'],
+      allowedSortBy: ['recommended', 'nearest', 'start_date', 'created_at', 'title'],
       defaultSortBy: 'recommended',
       defaultSortDir: 'desc',
     });
-    const skillFilter = typeof skill === 'string' ? skill.trim() : '';
+    const listPage = parseListPage(req.query);
+    const skillIdFilter = parseOptionalNumberQueryParam(req.query.skill_id);
+    const textSearchQuery = buildTextSearchQuery(search);
 
     let query = db
       .selectFrom('posting')
       .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
       .leftJoin('crisis', 'crisis.id', 'posting.crisis_id')
       .select(postingWithContextSelectColumns)
+      .select(getPostingDistanceExpression(distanceFilter).as('distance_km'))
+      .select(getTextSearchHeadline('posting.description', textSearchQuery).as('search_headline'))
       .where('posting.is_closed', '=', false)
       .where(({ or }) => or([
         sql<boolean>`(posting.end_date + posting.end_time) >= now()`,
@@ -387,12 +508,12 @@ function createPostingRouter(db: Kysely<Database>) {
       .where('organization_account.is_deleted', '=', false)
       .where('organization_account.is_disabled', '=', false);
 
-    if (skillFilter) {
+    if (skillIdFilter !== undefined) {
       query = query.where(({ exists, selectFrom }) => exists(
         selectFrom('posting_skill')
           .select('posting_skill.id')
           .whereRef('posting_skill.posting_id', '=', 'posting.id')
-          .where('posting_skill.name', 'ilike', `%${skillFilter}%`),
+          .where('posting_skill.skill_id', '=', skillIdFilter),
       ));
     }
 
@@ -404,78 +525,46 @@ function createPostingRouter(db: Kysely<Database>) {
       query = query.where('posting.crisis_id', '=', crisisIdFilter);
     }
 
-    if (postingFilter === 'open') {
-      query = query.where('posting.automatic_acceptance', '=', true);
-    } else if (postingFilter === 'review') {
-      query = query.where('posting.automatic_acceptance', '=', false);
-    } else if (postingFilter === 'partial') {
-      query = query.where('posting.allows_partial_attendance', '=', true);
-    } else if (postingFilter === 'full') {
-      query = query.where('posting.allows_partial_attendance', '=', false);
-    } else if (postingFilter === 'tagged') {
-      query = query.where('posting.crisis_id', 'is not', null);
-    } else if (postingFilter === 'untagged') {
-      query = query.where('posting.crisis_id', 'is', null);
-    }
+    query = applyPostingFilter(query, postingFilter);
 
-    if (search) {
-      const terms = normalizeSearchTerms(search);
-      query = query.where(({ and, exists, selectFrom, or }) => and(
-        terms.map((term) => {
-          const likePattern = `%${term}%`;
-
-          return or([
-            sql<boolean>`lower(posting.title) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(posting.title), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-            sql<boolean>`lower(posting.description) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(posting.description), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-            sql<boolean>`lower(posting.location_name) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(posting.location_name), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-            sql<boolean>`lower(organization_account.name) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(organization_account.name), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-            exists(
-              selectFrom('posting_skill')
-                .select('posting_skill.id')
-                .whereRef('posting_skill.posting_id', '=', 'posting.id')
-                .where(sql<boolean>`lower(posting_skill.name) LIKE ${likePattern}`),
-            ),
-          ]);
-        }),
-      ));
+    const sortKeys: ListSortKey[] = [];
 
-      const normalizedSearch = search.toLowerCase();
-      const titleRelevance = sql<number>`
-      CASE
-        WHEN lower(posting.title) = ${normalizedSearch} THEN 3
-        WHEN lower(posting.title) LIKE ${`${normalizedSearch}%`} THEN 2
-        WHEN lower(posting.title) LIKE ${`%${normalizedSearch}%`} THEN 1
-        ELSE 0
-      END
-    `;
-      query = query.orderBy(sql`${titleRelevance} desc`);
+    if (textSearchQuery) {
+      query = query.where(matchesTextSearch('posting.search_vector', textSearchQuery));
+      sortKeys.push({ expression: getTextSearchRank('posting.search_vector', textSearchQuery), direction: 'desc' });
     }
 
     query = applyPostingDateTimeFilters(query, dateTimeFilters);
+    query = applyPostingDistanceFilter(query, distanceFilter);
+    query = applyPostingBoundsFilter(query, boundsFilter);
+
+    if (hideFull) {
+      query = query.where(eb => eb.not(postingFullExpression));
+    }
+
+    if (sortBy === 'nearest' && distanceFilter) {
+      sortKeys.push(...getPostingDistanceSortKeys(distanceFilter));
+    } else {
+      const fallbackSortBy = sortBy === 'recommended' || sortBy === 'nearest' ? 'start_date' : sortBy;
+      sortKeys.push(...getSharedPostingSortKeys(fallbackSortBy, sortDir));
+    }
 
-    const fallbackSortBy = sortBy === 'recommended' ? 'start_date' : sortBy;
-    query = applySharedPostingSort(query, fallbackSortBy, sortDir);
+    const { items: postings, next_cursor } = toListPageResult(
+      await applyListPage(query, listPage, sortKeys).execute(),
+      listPage,
+    );
 
-    const postings = await query.execute();
     const postingsWithContext = await buildPostingsWithContext(db, {
       volunteerId: 0,
-      postings,
+      postings: postings.map(withSearchSnippet),
     });
 
-    const normalizedPostings = postingsWithContext.map(posting => ({
+    const items = postingsWithContext.map(posting => ({
       ...posting,
       application_status: 'none' as const,
     }));
 
-    const visiblePostings = hideFull
-      ? normalizedPostings.filter(posting => !isPostingFull(posting.max_volunteers, posting.enrollment_count))
-      : normalizedPostings;
-
-    res.json({ postings: visiblePostings });
+    res.json({ postings: items, next_cursor });
   });
 
   postingRouter.get('/:id', async (req, res: Response<PostingResponse>) => {
@@ -497,7 +586,7 @@ function createPostingRouter(db: Kysely<Database>) {
 
     const posting = withPostingEndedFlag(postingRow);
 
-    const [skills, crisis, enrollmentCountRow] = await Promise.all([
+    const [skills, crisis, enrollmentCountRow, occurrenceOverrides, roles, questions] = await Promise.all([
       db
         .selectFrom('posting_skill')
         .selectAll()
@@ -509,13 +598,21 @@ function createPostingRouter(db: Kysely<Database>) {
         .select(sql<number>`count(enrollment.id)`.as('count'))
         .where('posting_id', '=', postingId)
         .executeTakeFirst(),
+      getPostingOccurrenceOverrides(db, [postingId]),
+      getPostingRoles(db, [postingId]),
+      getPostingQuestions(db, [postingId]),
     ]);
 
     const enrollmentCount = Number(enrollmentCountRow?.count ?? 0);
+    const occurrence_overrides = occurrenceOverrides.get(postingId) ?? [];
 
     res.json({
       posting,
       skills,
+      occurrence_overrides,
+      roles: roles.get(postingId) ?? [],
+      questions: questions.get(postingId) ?? [],
+      posting_dates: getPostingOccurrenceDates(posting, occurrence_overrides),
       is_full: isPostingFull(posting.max_volunteers, enrollmentCount),
       ...(crisis ? { crisis } : {}),
     });
@@ -537,11 +634,36 @@ function createPostingRouter(db: Kysely<Database>) {
       throw new Error('Posting not found');
     }
 
-    const enrollments = await getPostingEnrollments(db, postingId);
+    const { role_id: roleId } = postingRoleFilterQuerySchema.parse(req.query);
+
+    const enrollments = await getPostingEnrollments(db, postingId, roleId);
     res.json({ enrollments });
   });
 
-  postingRouter.put('/:id', async (req, res: Response<PostingUpdateResponse>) => {
+  postingRouter.get('/:id/calendar.ics', async (req, res: Response<string>) => {
+    const orgId = req.userJWT!.id;
+    const { id: postingId } = postingIdParamsSchema.parse(req.params);
+
+    const posting = await db
+      .selectFrom('posting')
+      .select(['id', 'title'])
+      .where('posting.id', '=', postingId)
+      .where('posting.organization_id', '=', orgId)
+      .executeTakeFirst();
+
+    if (!posting) {
+      res.status(404);
+      throw new Error('Posting not found');
+    }
+
+    const events = await getOrganizationCalendarEvents(db, orgId, postingId);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="willing-posting-${postingId}.ics"`);
+    res.send(renderCalendar({ name: posting.title, events }));
+  });
+
+  postingRouter.put('/:id', authorizeOrganizationRole('owner', 'coordinator'), async (req, res: Response<PostingUpdateResponse>) => {
     const orgId = req.userJWT!.id;
     const { id: postingId } = postingIdParamsSchema.parse(req.params);
     const body = postingUpdateSchema.parse(req.body);
@@ -565,6 +687,8 @@ function createPostingRouter(db: Kysely<Database>) {
         'max_volunteers',
         'is_closed',
         'allows_partial_attendance',
+        'recurrence_weekdays',
+        'recurrence_interval',
       ])
       .where('id', '=', postingId)
       .where('organization_id', '=', orgId)
@@ -575,6 +699,13 @@ function createPostingRouter(db: Kysely<Database>) {
       throw new Error('Posting not found');
     }
 
+    const existingOverrides = (await getPostingOccurrenceOverrides(db, [postingId])).get(postingId) ?? [];
+    const didRecurrenceChange = (
+      (body.recurrence_weekdays !== undefined && !areWeekdayListsEqual(body.recurrence_weekdays, posting.recurrence_weekdays))
+      || (body.recurrence_interval !== undefined && body.recurrence_interval !== posting.recurrence_interval)
+      || (body.occurrence_overrides !== undefined && !areOverrideListsEqual(body.occurrence_overrides, existingOverrides))
+    );
+
     const isEndedPosting = hasPostingEnded(posting);
     const isEndedLifecycleChange = isEndedPosting && (
       (hasBodyField('is_closed') && body.is_closed !== posting.is_closed)
@@ -584,6 +715,7 @@ function createPostingRouter(db: Kysely<Database>) {
       || (body.end_time !== undefined && !areTimeValuesEqual(body.end_time, posting.end_time ?? undefined))
       || (hasBodyField('automatic_acceptance') && body.automatic_acceptance !== posting.automatic_acceptance)
       || (hasBodyField('allows_partial_attendance') && body.allows_partial_attendance !== posting.allows_partial_attendance)
+      || didRecurrenceChange
     );
 
     if (isEndedLifecycleChange) {
@@ -626,10 +758,63 @@ function createPostingRouter(db: Kysely<Database>) {
       }
     }
 
+    const effectiveSchedule: PostingSchedule = {
+      start_date: effectiveStartDate,
+      end_date: effectiveEndDate,
+      recurrence_weekdays: body.recurrence_weekdays !== undefined ? body.recurrence_weekdays : posting.recurrence_weekdays,
+      recurrence_interval: body.recurrence_interval ?? posting.recurrence_interval,
+    };
+    const effectiveOverrides = body.occurrence_overrides ?? existingOverrides;
+    const didScheduleChange = didRecurrenceChange
+      || (body.start_date !== undefined && !areDatesEqual(body.start_date, posting.start_date))
+      || (body.end_date !== undefined && !areDatesEqual(body.end_date, posting.end_date))
+      || (body.allows_partial_attendance !== undefined && body.allows_partial_attendance !== posting.allows_partial_attendance);
+
+    if (didScheduleChange) {
+      assertValidSchedule(effectiveSchedule, effectiveOverrides, res);
+    }
+
     if (body.crisis_id !== undefined && body.crisis_id !== null && body.crisis_id !== posting.crisis_id) {
       await assertCrisisExists(body.crisis_id, db, res);
     }
 
+    const existingRoles = (await getPostingRoles(db, [postingId])).get(postingId) ?? [];
+    if (body.roles !== undefined) {
+      assertValidRoles(body.roles, res);
+
+      const existingRoleIds = new Set(existingRoles.map(role => role.id));
+      if (body.roles.some(role => role.id !== undefined && !existingRoleIds.has(role.id))) {
+        res.status(400);
+        throw new Error('Role does not belong to this posting');
+      }
+
+      const [occupiedRole] = await getOccupiedRemovedRoles(db, postingId, body.roles);
+      if (occupiedRole) {
+        res.status(409);
+        throw new Error(`Cannot remove role ${occupiedRole.name} while volunteers are enrolled or applying for it`);
+      }
+    }
+
+    if (body.questions !== undefined) {
+      assertValidQuestions(body.questions, res);
+
+      const existingQuestionIds = new Set(((await getPostingQuestions(db, [postingId])).get(postingId) ?? []).map(question => question.id));
+      if (body.questions.some(question => question.id !== undefined && !existingQuestionIds.has(question.id))) {
+        res.status(400);
+        throw new Error('Question does not belong to this posting');
+      }
+    }
+
+    const effectiveRoles = body.roles ?? existingRoles;
+    const maxVolunteers = effectiveRoles.length > 0 ? getRolesTotalCapacity(effectiveRoles) : body.max_volunteers;
+    const didRoleCapacityIncrease = body.roles !== undefined && body.roles.some((role) => {
+      const existingRole = existingRoles.find(({ id }) => id === role.id);
+      return !existingRole || (
+        existingRole.max_volunteers !== null
+        && (role.max_volunteers == null || role.max_volunteers > existingRole.max_volunteers)
+      );
+    });
+
     const existingSkills = await db
       .selectFrom('posting_skill')
       .select('name')
@@ -651,10 +836,15 @@ function createPostingRouter(db: Kysely<Database>) {
       || (body.start_time !== undefined && !areTimeValuesEqual(body.start_time, posting.start_time))
       || (body.end_time !== undefined && !areTimeValuesEqual(body.end_time, posting.end_time))
       || (body.minimum_age !== undefined && (body.minimum_age ?? null) !== (posting.minimum_age ?? null))
-      || (body.max_volunteers !== undefined && (body.max_volunteers ?? null) !== (posting.max_volunteers ?? null))
+      || (maxVolunteers !== undefined && (maxVolunteers ?? null) !== (posting.max_volunteers ?? null))
       || didSkillsChange
     );
     const didClosedStateChange = body.is_closed !== undefined && body.is_closed !== posting.is_closed;
+    const didCapacityIncrease = didRoleCapacityIncrease || (
+      maxVolunteers !== undefined
+      && posting.max_volunteers !== null
+      && (maxVolunteers === null || maxVolunteers > posting.max_volunteers)
+    );
 
     await executeTransaction(db, async (trx) => {
       const postingFields: Record<string, unknown> = {};
@@ -662,7 +852,7 @@ function createPostingRouter(db: Kysely<Database>) {
       if (body.description !== undefined) postingFields.description = body.description;
       if (body.latitude !== undefined) postingFields.latitude = body.latitude;
       if (body.longitude !== undefined) postingFields.longitude = body.longitude;
-      if (body.max_volunteers !== undefined) postingFields.max_volunteers = body.max_volunteers;
+      if (maxVolunteers !== undefined) postingFields.max_volunteers = maxVolunteers;
       if (body.start_date !== undefined) postingFields.start_date = body.start_date;
       if (body.start_time !== undefined) postingFields.start_time = body.start_time;
       if (body.end_date !== undefined) postingFields.end_date = body.end_date;
@@ -671,6 +861,9 @@ function createPostingRouter(db: Kysely<Database>) {
       if (body.automatic_acceptance !== undefined) postingFields.automatic_acceptance = body.automatic_acceptance;
       if (body.is_closed !== undefined) postingFields.is_closed = body.is_closed;
       if (body.allows_partial_attendance !== undefined) postingFields.allows_partial_attendance = body.allows_partial_attendance;
+      if (body.requires_guardian_consent !== undefined) postingFields.requires_guardian_consent = body.requires_guardian_consent;
+      if (body.recurrence_weekdays !== undefined) postingFields.recurrence_weekdays = body.recurrence_weekdays;
+      if (body.recurrence_interval !== undefined) postingFields.recurrence_interval = body.recurrence_interval;
       if (body.location_name !== undefined) postingFields.location_name = body.location_name;
       if (body.crisis_id !== undefined) postingFields.crisis_id = body.crisis_id;
 
@@ -689,15 +882,40 @@ function createPostingRouter(db: Kysely<Database>) {
           .where('posting_id', '=', postingId)
           .execute();
 
-        if (normalizedIncomingSkills && normalizedIncomingSkills.length > 0) {
+        const resolvedSkills = await resolveSkills(trx, body.skills ?? []);
+        if (resolvedSkills.length > 0) {
           await trx
             .insertInto('posting_skill')
-            .values(normalizedIncomingSkills.map(name => ({ posting_id: postingId, name })))
+            .values(resolvedSkills.map(skill => ({ posting_id: postingId, skill_id: skill.id, name: skill.name })))
             .execute();
         }
       }
+
+      if (body.occurrence_overrides !== undefined) {
+        await replacePostingOccurrenceOverrides(trx, postingId, body.occurrence_overrides);
+      }
+
+      if (body.roles !== undefined) {
+        await replacePostingRoles(trx, postingId, body.roles);
+      }
+
+      if (body.questions !== undefined) {
+        await replacePostingQuestions(trx, postingId, body.questions);
+      }
+
+      if (didScheduleChange) {
+        await syncEnrollmentDatesWithSchedule(
+          trx,
+          postingId,
+          getPostingOccurrenceDates(effectiveSchedule, effectiveOverrides),
+          body.allows_partial_attendance ?? posting.allows_partial_attendance,
+        );
+      }
     });
 
+    if (didCapacityIncrease || didScheduleChange) {
+      await promoteWaitlistedVolunteers(db, postingId);
+    }
     if (shouldRecomputePostingVectors) {
       await recomputePostingVectors(postingId, db);
     }
@@ -714,19 +932,31 @@ function createPostingRouter(db: Kysely<Database>) {
       .where('organization_id', '=', orgId)
       .executeTakeFirstOrThrow());
 
-    const [skills, crisis] = await Promise.all([
+    const [skills, crisis, updatedOverrides, updatedRoles, updatedQuestions] = await Promise.all([
       db
         .selectFrom('posting_skill')
         .selectAll()
         .where('posting_id', '=', postingId)
         .execute(),
       getPostingCrisis(updatedPosting.crisis_id, db),
+      getPostingOccurrenceOverrides(db, [postingId]),
+      getPostingRoles(db, [postingId]),
+      getPostingQuestions(db, [postingId]),
     ]);
+    const occurrence_overrides = updatedOverrides.get(postingId) ?? [];
 
-    res.json({ posting: updatedPosting, skills, ...(crisis ? { crisis } : {}) });
+    res.json({
+      posting: updatedPosting,
+      skills,
+      occurrence_overrides,
+      roles: updatedRoles.get(postingId) ?? [],
+      questions: updatedQuestions.get(postingId) ?? [],
+      posting_dates: getPostingOccurrenceDates(updatedPosting, occurrence_overrides),
+      ...(crisis ? { crisis } : {}),
+    });
   });
 
-  postingRouter.delete('/:id', async (req, res: Response<PostingDeleteResponse>) => {
+  postingRouter.delete('/:id', authorizeOrganizationRole('owner', 'coordinator'), async (req, res: Response<PostingDeleteResponse>) => {
     const orgId = req.userJWT!.id;
     const { id: postingId } = postingIdParamsSchema.parse(req.params);
 
@@ -786,18 +1016,13 @@ function createPostingRouter(db: Kysely<Database>) {
     await recomputeOrganizationCompositeVectorOnly(orgId, db);
     await recomputePostingContextVectorsForOrganization(orgId, db);
 
-    await Promise.allSettled(
-      enrolledVolunteerEmailContexts.map(emailContext =>
-        sendPostingDeletedEmail({
-          volunteerEmail: emailContext.volunteer_email,
-          volunteerName: `${emailContext.first_name} ${emailContext.last_name}`,
-          postingTitle: emailContext.posting_title,
-          organizationName: emailContext.organization_name,
-        }).catch((err) => {
-          console.error(`Failed to send deletion notification email for posting ${postingId} to volunteer ${emailContext.volunteer_id}:`, err);
-        }),
-      ),
-    );
+    await deliverNotifications(db, enrolledVolunteerEmailContexts.map(emailContext => createPostingDeletedDelivery({
+      volunteerId: emailContext.volunteer_id,
+      volunteerEmail: emailContext.volunteer_email,
+      volunteerName: `${emailContext.first_name} ${emailContext.last_name}`,
+      postingTitle: emailContext.posting_title,
+      organizationName: emailContext.organization_name,
+    })));
 
     res.json({});
   });
@@ -805,10 +1030,11 @@ function createPostingRouter(db: Kysely<Database>) {
   postingRouter.get('/:id/applications', async (req, res: Response<PostingApplicationsReponse>) => {
     const orgId = req.userJWT!.id;
     const { id: postingId } = postingIdParamsSchema.parse(req.params);
+    const { role_id: roleId } = postingRoleFilterQuerySchema.parse(req.query);
 
     const posting = await db
       .selectFrom('posting')
-      .select(['id', 'automatic_acceptance', 'is_closed', 'max_volunteers'])
+      .select(['id', 'automatic_acceptance', 'requires_guardian_consent', 'is_closed', 'max_volunteers'])
       .where('id', '=', postingId)
       .where('organization_id', '=', orgId)
       .executeTakeFirst();
@@ -818,7 +1044,8 @@ function createPostingRouter(db: Kysely<Database>) {
       throw new Error('Posting not found');
     }
 
-    if (posting.automatic_acceptance) {
+    // Open postings only hold applications for minors waiting on their guardian
+    if (posting.automatic_acceptance && !posting.requires_guardian_consent) {
       res.json({ applications: [] });
       return;
     }
@@ -830,72 +1057,83 @@ function createPostingRouter(db: Kysely<Database>) {
       return;
     }
 
-    const applications = await db
-      .selectFrom('enrollment_application')
-      .innerJoin('volunteer_account', 'volunteer_account.id', 'enrollment_application.volunteer_id')
-      .select([
-        'enrollment_application.id as application_id',
-        'enrollment_application.volunteer_id',
-        'enrollment_application.message',
-        'enrollment_application.created_at',
-        'volunteer_account.first_name',
-        'volunteer_account.last_name',
-        'volunteer_account.email',
-        'volunteer_account.date_of_birth',
-        'volunteer_account.gender',
-        'volunteer_account.cv_path',
-      ])
-      .where('enrollment_application.posting_id', '=', postingId)
-      .where('volunteer_account.is_deleted', '=', false)
-      .where('volunteer_account.is_disabled', '=', false)
-      .execute();
+    const applications = await getPostingApplications(db, postingId, roleId);
+    res.json({ applications });
+  });
 
-    const volunteerIds = applications.map(a => a.volunteer_id);
-    const skills = volunteerIds.length > 0
-      ? await db
-          .selectFrom('volunteer_skill')
-          .selectAll()
-          .where('volunteer_id', 'in', volunteerIds)
-          .execute()
-      : [];
-    const applicationIds = applications.map(application => application.application_id);
-    const applicationDates = applicationIds.length > 0
-      ? await db
-          .selectFrom('enrollment_application_date')
-          .select([
-            'application_id',
-            sql<string>`to_char(enrollment_application_date.date, 'YYYY-MM-DD')`.as('date'),
-          ])
-          .where('application_id', 'in', applicationIds)
-          .execute()
-      : [];
+  postingRouter.get('/:id/applications/export', async (req, res: Response<string>) => {
+    const orgId = req.userJWT!.id;
+    const { id: postingId } = postingIdParamsSchema.parse(req.params);
 
-    const skillsByVolunteerId = new Map<number, VolunteerSkill[]>();
-    skills.forEach((skill) => {
-      if (!skillsByVolunteerId.has(skill.volunteer_id)) {
-        skillsByVolunteerId.set(skill.volunteer_id, []);
-      }
-      skillsByVolunteerId.get(skill.volunteer_id)!.push(skill);
-    });
-    const requestedDatesByApplicationId = new Map<number, string[]>();
-    applicationDates.forEach((dateRow) => {
-      if (!requestedDatesByApplicationId.has(dateRow.application_id)) {
-        requestedDatesByApplicationId.set(dateRow.application_id, []);
+    const posting = await db
+      .selectFrom('posting')
+      .select(['id', 'title', 'automatic_acceptance', 'requires_guardian_consent'])
+      .where('id', '=', postingId)
+      .where('organization_id', '=', orgId)
+      .executeTakeFirst();
+
+    if (!posting) {
+      res.status(404);
+      throw new Error('Posting not found');
+    }
+
+    const hasApplications = !posting.automatic_acceptance || posting.requires_guardian_consent;
+    const rejectedPostingIds = hasApplications
+      ? await rejectEndedPendingApplicationsForPostings(db, [postingId])
+      : new Set<number>();
+    const [applications, questions] = await Promise.all([
+      !hasApplications || rejectedPostingIds.has(postingId) ? [] : getPostingApplications(db, postingId),
+      getPostingQuestions(db, [postingId]),
+    ]);
+
+    // Answers to questions removed since they were given still get a column, under the prompt they answered
+    const questionColumns = new Map((questions.get(postingId) ?? []).map(question => [question.id, question.prompt]));
+    applications.forEach(application => application.answers.forEach((answer) => {
+      if (!questionColumns.has(answer.question_id)) {
+        questionColumns.set(answer.question_id, `${answer.prompt} (removed question)`);
       }
-      requestedDatesByApplicationId.get(dateRow.application_id)!.push(dateRow.date);
-    });
+    }));
 
-    const applicationsWithSkills = applications.map(app => ({
-      ...app,
-      message: app.message,
-      skills: skillsByVolunteerId.get(app.volunteer_id) ?? [],
-      requested_dates: requestedDatesByApplicationId.get(app.application_id)?.sort() ?? [],
+    const rows = applications.map(application => ({
+      application_id: application.application_id,
+      volunteer_id: application.volunteer_id,
+      first_name: application.first_name,
+      last_name: application.last_name,
+      email: application.email,
+      date_of_birth: application.date_of_birth,
+      gender: application.gender,
+      role: application.role_name ?? '',
+      requested_dates: application.requested_dates?.join('|') ?? '',
+      applied_at: application.created_at.toISOString(),
+      message: application.message ?? '',
+      skills: application.skills.map(skill => skill.name).join('|'),
+      guardian_consent: application.guardian_consent?.status ?? '',
+      ...Object.fromEntries(application.answers.map(answer => [questionColumns.get(answer.question_id)!, answer.answer])),
     }));
 
-    res.json({ applications: applicationsWithSkills });
+    const csvHeaders = [
+      'application_id',
+      'volunteer_id',
+      'first_name',
+      'last_name',
+      'email',
+      'date_of_birth',
+      'gender',
+      'role',
+      'requested_dates',
+      'applied_at',
+      'message',
+      'skills',
+      'guardian_consent',
+      ...questionColumns.values(),
+    ];
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${toCsvFilename(posting.title, 'applications')}"`);
+    res.send(toCsv(rows, csvHeaders));
   });
 
-  postingRouter.post('/:id/applications/:applicationId/accept', async (req, res: Response<PostingApplicationAcceptanceResponse>) => {
+  postingRouter.post('/:id/applications/:applicationId/accept', authorizeOrganizationRole('owner', 'coordinator'), async (req, res: Response<PostingApplicationAcceptanceResponse>) => {
     const orgId = req.userJWT!.id;
     const { id: postingId, applicationId } = zod.object({
       id: zod.coerce.number().int().positive(),
@@ -904,7 +1142,19 @@ function createPostingRouter(db: Kysely<Database>) {
 
     const posting = await db
       .selectFrom('posting')
-      .select(['id', 'automatic_acceptance', 'is_closed', 'max_volunteers', 'allows_partial_attendance', 'start_date', 'end_date', 'end_time'])
+      .select([
+        'id',
+        'automatic_acceptance',
+        'requires_guardian_consent',
+        'is_closed',
+        'max_volunteers',
+        'allows_partial_attendance',
+        'start_date',
+        'end_date',
+        'end_time',
+        'recurrence_weekdays',
+        'recurrence_interval',
+      ])
       .where('id', '=', postingId)
       .where('organization_id', '=', orgId)
       .executeTakeFirst();
@@ -921,7 +1171,7 @@ function createPostingRouter(db: Kysely<Database>) {
 
     const application = await db
       .selectFrom('enrollment_application')
-      .select(['id', 'volunteer_id', 'posting_id', 'message'])
+      .select(['id', 'volunteer_id', 'posting_id', 'role_id', 'message'])
       .where('id', '=', applicationId)
       .executeTakeFirst();
 
@@ -964,6 +1214,15 @@ function createPostingRouter(db: Kysely<Database>) {
       throw new Error('Cannot accept application from an inactive volunteer');
     }
 
+    const guardianConsent = posting.requires_guardian_consent
+      ? (await getLatestGuardianConsents(db, postingId, [application.volunteer_id])).get(application.volunteer_id)
+      : undefined;
+
+    if (guardianConsent && guardianConsent.status !== 'approved') {
+      res.status(403);
+      throw new Error('This volunteer is still waiting for consent from a parent or guardian');
+    }
+
     const appDates = await db
       .selectFrom('enrollment_application_date')
       .select('date')
@@ -974,7 +1233,7 @@ function createPostingRouter(db: Kysely<Database>) {
       .filter((date): date is string => Boolean(date));
     const enrollmentDateStrings = acceptedDateStrings.length > 0
       ? acceptedDateStrings
-      : getPostingDates(posting.start_date, posting.end_date);
+      : getPostingOccurrenceDates(posting, (await getPostingOccurrenceOverrides(db, [postingId])).get(postingId));
 
     await executeTransaction(db, async (trx) => {
       const lockedPosting = await trx
@@ -1014,13 +1273,37 @@ function createPostingRouter(db: Kysely<Database>) {
         }
       }
 
+      if (application.role_id !== null) {
+        const role = await trx
+          .selectFrom('posting_role')
+          .select(['name', 'max_volunteers'])
+          .where('id', '=', application.role_id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (role && role.max_volunteers !== null) {
+          const roleEnrollmentCountRow = await trx
+            .selectFrom('enrollment')
+            .select(sql<number>`count(enrollment.id)`.as('count'))
+            .where('role_id', '=', application.role_id)
+            .executeTakeFirst();
+
+          if (Number(roleEnrollmentCountRow?.count ?? 0) >= role.max_volunteers) {
+            res.status(403);
+            throw new Error(`The ${role.name} role has reached the maximum number of volunteers`);
+          }
+        }
+      }
+
       const enrollment = await trx
         .insertInto('enrollment')
         .values({
           volunteer_id: application.volunteer_id,
           posting_id: application.posting_id,
+          role_id: application.role_id,
           message: application.message ?? undefined,
           attended: false,
+          accepted_by_member_id: req.userJWT!.member_id ?? null,
         })
         .returningAll()
         .executeTakeFirst();
@@ -1055,23 +1338,26 @@ function createPostingRouter(db: Kysely<Database>) {
     await recomputePostingContextVectorOnly(postingId, db);
     const acceptedDates = enrollmentDateStrings;
     if (emailContext) {
-      try {
-        await sendVolunteerApplicationAcceptedEmail({
+      await deliverNotification(db, {
+        recipient: { user_id: application.volunteer_id, role: 'volunteer' },
+        type: 'application_accepted',
+        title: 'Application accepted',
+        message: `${emailContext.organization_name} accepted your application for "${emailContext.posting_title}".`,
+        link: `/posting/${postingId}`,
+        sendEmail: () => sendVolunteerApplicationAcceptedEmail({
           volunteerEmail: emailContext.volunteer_email,
           volunteerName: `${emailContext.first_name} ${emailContext.last_name}`,
           organizationName: emailContext.organization_name,
           postingTitle: emailContext.posting_title,
           acceptedDates,
-        });
-      } catch (err) {
-        console.error('Failed to send acceptance email:', err);
-      }
+        }),
+      });
     }
 
     res.json({});
   });
 
-  postingRouter.delete('/:id/applications/:applicationId', async (req, res: Response<PostingApplicationRejectionResponse>) => {
+  postingRouter.delete('/:id/applications/:applicationId', authorizeOrganizationRole('owner', 'coordinator'), async (req, res: Response<PostingApplicationRejectionResponse>) => {
     const orgId = req.userJWT!.id;
     const { id: postingId, applicationId } = zod.object({
       id: zod.coerce.number().int().positive(),
@@ -1135,23 +1421,24 @@ function createPostingRouter(db: Kysely<Database>) {
         .execute();
     });
 
+    await promoteWaitlistedVolunteers(db, postingId);
+
     if (emailContext) {
-      try {
-        await sendVolunteerApplicationRejectedEmail({
-          volunteerEmail: emailContext.volunteer_email,
-          volunteerName: `${emailContext.first_name} ${emailContext.last_name}`,
-          organizationName: emailContext.organization_name,
-          postingTitle: emailContext.posting_title,
-        });
-      } catch (err) {
-        console.error('Failed to send rejection email:', err);
-      }
+      await deliverNotification(db, createApplicationRejectedDelivery({
+        volunteerId: application.volunteer_id,
+        postingId,
+        volunteerEmail: emailContext.volunteer_email,
+        volunteerName: `${emailContext.first_name} ${emailContext.last_name}`,
+        organizationName: emailContext.organization_name,
+        postingTitle: emailContext.posting_title,
+      }));
     }
 
     res.json({});
   });
 
   postingRouter.use(createAttendanceRouter(db));
+  postingRouter.use(createPostingFeedbackRouter(db));
 
   return postingRouter;
 }
@@ -1,5 +1,5 @@
-import { type Crisis, type PostingWithoutVectors, type PostingSkill } from '../../../db/tables/index.ts';
-import { type PostingWithContext, type PostingWithSkills, type PostingEnrollment, type SuccessResponse, type PostingApplication } from '../../../types.ts';
+import { type Crisis, type PostingOccurrenceOverrideEntry, type PostingQuestion, type PostingWithoutVectors, type PostingSkill } from '../../../db/tables/index.ts';
+import { type PostingWithContext, type PostingWithSkills, type PostingEnrollment, type SuccessResponse, type PostingApplication, type PostingRoleWithContext, type SearchSnippetSegment } from '../../../types.ts';
 
 type PostingWithEndedStatus = PostingWithoutVectors & {
   has_ended: boolean;
@@ -9,24 +9,35 @@ type PostingListItem = PostingWithSkills & {
   enrollment_count: number;
   is_full: boolean;
   has_ended: boolean;
+  search_snippet: SearchSnippetSegment[] | null;
 };
 
 export type PostingCreateResponse = {
   posting: PostingWithEndedStatus;
   skills: PostingSkill[];
+  occurrence_overrides: PostingOccurrenceOverrideEntry[];
+  roles: PostingRoleWithContext[];
+  questions: PostingQuestion[];
+  posting_dates: string[];
 };
 
 export type PostingListResponse = {
   postings: PostingListItem[];
+  next_cursor: string | null;
 };
 
 export type PostingDiscoverResponse = {
   postings: PostingWithContext[];
+  next_cursor: string | null;
 };
 
 export type PostingResponse = {
   posting: PostingWithEndedStatus;
   skills: PostingSkill[];
+  occurrence_overrides: PostingOccurrenceOverrideEntry[];
+  roles: PostingRoleWithContext[];
+  questions: PostingQuestion[];
+  posting_dates: string[];
   is_full: boolean;
   crisis?: Crisis;
 };
@@ -38,6 +49,10 @@ export type PostingEnrollmentsResponse = {
 export type PostingUpdateResponse = {
   posting: PostingWithEndedStatus;
   skills: PostingSkill[];
+  occurrence_overrides: PostingOccurrenceOverrideEntry[];
+  roles: PostingRoleWithContext[];
+  questions: PostingQuestion[];
+  posting_dates: string[];
   crisis?: Crisis;
 };
 
@@ -0,0 +1,88 @@
+import { sql, type Kysely } from 'kysely';
+
+import { type Database, type VolunteerSkill } from '../../../db/tables/index.ts';
+import { getLatestGuardianConsents, toGuardianConsentSummary } from '../../../services/posting/guardianConsent.ts';
+import { type PostingApplication } from '../../../types.ts';
+
+export const getPostingApplications = async (
+  db: Kysely<Database>,
+  postingId: number,
+  roleId?: number,
+): Promise<PostingApplication[]> => {
+  let applicationsQuery = db
+    .selectFrom('enrollment_application')
+    .innerJoin('volunteer_account', 'volunteer_account.id', 'enrollment_application.volunteer_id')
+    .leftJoin('posting_role', 'posting_role.id', 'enrollment_application.role_id')
+    .select([
+      'enrollment_application.id as application_id',
+      'enrollment_application.volunteer_id',
+      'enrollment_application.message',
+      'enrollment_application.answers',
+      'enrollment_application.created_at',
+      'enrollment_application.role_id',
+      'posting_role.name as role_name',
+      'volunteer_account.first_name',
+      'volunteer_account.last_name',
+      'volunteer_account.email',
+      'volunteer_account.date_of_birth',
+      'volunteer_account.gender',
+      'volunteer_account.cv_path',
+    ])
+    .where('enrollment_application.posting_id', '=', postingId)
+    .where('volunteer_account.is_deleted', '=', false)
+    .where('volunteer_account.is_disabled', '=', false);
+
+  if (roleId !== undefined) {
+    applicationsQuery = applicationsQuery.where('enrollment_application.role_id', '=', roleId);
+  }
+
+  const applications = await applicationsQuery.execute();
+
+  const volunteerIds = applications.map(a => a.volunteer_id);
+  const skills = volunteerIds.length > 0
+    ? await db
+        .selectFrom('volunteer_skill')
+        .selectAll()
+        .where('volunteer_id', 'in', volunteerIds)
+        .execute()
+    : [];
+  const applicationIds = applications.map(application => application.application_id);
+  const applicationDates = applicationIds.length > 0
+    ? await db
+        .selectFrom('enrollment_application_date')
+        .select([
+          'application_id',
+          sql<string>`to_char(enrollment_application_date.date, 'YYYY-MM-DD')`.as('date'),
+        ])
+        .where('application_id', 'in', applicationIds)
+        .execute()
+    : [];
+  const guardianConsents = await getLatestGuardianConsents(db, postingId, volunteerIds);
+
+  const skillsByVolunteerId = new Map<number, VolunteerSkill[]>();
+  skills.forEach((skill) => {
+    if (!skillsByVolunteerId.has(skill.volunteer_id)) {
+      skillsByVolunteerId.set(skill.volunteer_id, []);
+    }
+    skillsByVolunteerId.get(skill.volunteer_id)!.push(skill);
+  });
+  const requestedDatesByApplicationId = new Map<number, string[]>();
+  applicationDates.forEach((dateRow) => {
+    if (!requestedDatesByApplicationId.has(dateRow.application_id)) {
+      requestedDatesByApplicationId.set(dateRow.application_id, []);
+    }
+    requestedDatesByApplicationId.get(dateRow.application_id)!.push(dateRow.date);
+  });
+
+  return applications.map((app) => {
+    const guardianConsent = guardianConsents.get(app.volunteer_id);
+
+    return {
+      ...app,
+      message: app.message,
+      skills: skillsByVolunteerId.get(app.volunteer_id) ?? [],
+      requested_dates: requestedDatesByApplicationId.get(app.application_id)?.sort() ?? [],
+      guardian_consent: guardianConsent ? toGuardianConsentSummary(guardianConsent) : null,
+    };
+  });
+};
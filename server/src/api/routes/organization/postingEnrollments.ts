@@ -1,20 +1,25 @@
 import { sql, type Kysely } from 'kysely';
 
 import { type Database } from '../../../db/tables/index.ts';
+import { getLatestGuardianConsents, toGuardianConsentSummary } from '../../../services/posting/guardianConsent.ts';
 import { type PostingEnrollment } from '../../../types.ts';
 
 export const getPostingEnrollments = async (
   db: Kysely<Database>,
   postingId: number,
+  roleId?: number,
 ): Promise<PostingEnrollment[]> => {
-  const enrollments = await db
+  let enrollmentsQuery = db
     .selectFrom('enrollment')
     .innerJoin('volunteer_account', 'volunteer_account.id', 'enrollment.volunteer_id')
+    .leftJoin('posting_role', 'posting_role.id', 'enrollment.role_id')
     .select([
       'enrollment.id as enrollment_id',
       'enrollment.volunteer_id',
       'enrollment.message',
       'enrollment.attended',
+      'enrollment.role_id',
+      'posting_role.name as role_name',
       'volunteer_account.first_name',
       'volunteer_account.last_name',
       'volunteer_account.email',
@@ -26,8 +31,13 @@ export const getPostingEnrollments = async (
     .where('volunteer_account.is_deleted', '=', false)
     .where('volunteer_account.is_disabled', '=', false)
     .orderBy('volunteer_account.last_name', 'asc')
-    .orderBy('volunteer_account.first_name', 'asc')
-    .execute();
+    .orderBy('volunteer_account.first_name', 'asc');
+
+  if (roleId !== undefined) {
+    enrollmentsQuery = enrollmentsQuery.where('enrollment.role_id', '=', roleId);
+  }
+
+  const enrollments = await enrollmentsQuery.execute();
 
   const volunteerIds = enrollments.map(enrollment => enrollment.volunteer_id);
   const skills = volunteerIds.length > 0
@@ -47,21 +57,31 @@ export const getPostingEnrollments = async (
           'enrollment_id',
           sql<string>`to_char(enrollment_date.date, 'YYYY-MM-DD')`.as('date'),
           'attended',
+          'checked_in_at',
+          'checked_out_at',
         ])
         .where('enrollment_id', 'in', enrollmentIds)
         .execute()
     : [];
 
-  const datesByEnrollmentId = new Map<number, Array<{ id: number; date: string; attended: boolean }>>();
+  const datesByEnrollmentId = new Map<number, NonNullable<PostingEnrollment['dates']>>();
   enrollmentDates.forEach((row) => {
     const dateStr = typeof row.date === 'string' ? row.date : undefined;
     if (!dateStr) return;
     if (!datesByEnrollmentId.has(row.enrollment_id)) {
       datesByEnrollmentId.set(row.enrollment_id, []);
     }
-    datesByEnrollmentId.get(row.enrollment_id)!.push({ id: row.id, date: dateStr, attended: Boolean(row.attended) });
+    datesByEnrollmentId.get(row.enrollment_id)!.push({
+      id: row.id,
+      date: dateStr,
+      attended: Boolean(row.attended),
+      checked_in_at: row.checked_in_at,
+      checked_out_at: row.checked_out_at,
+    });
   });
 
+  const guardianConsents = await getLatestGuardianConsents(db, postingId, volunteerIds);
+
   const skillsByVolunteerId = new Map<number, typeof skills>();
   skills.forEach((skill) => {
     if (!skillsByVolunteerId.has(skill.volunteer_id)) {
@@ -71,11 +91,14 @@ export const getPostingEnrollments = async (
   });
 
   return enrollments.map((enrollment) => {
+    const guardianConsent = guardianConsents.get(enrollment.volunteer_id);
     const payload: PostingEnrollment = {
       enrollment_id: enrollment.enrollment_id,
       volunteer_id: enrollment.volunteer_id,
       message: enrollment.message,
       attended: enrollment.attended,
+      role_id: enrollment.role_id,
+      role_name: enrollment.role_name,
       first_name: enrollment.first_name,
       last_name: enrollment.last_name,
       email: enrollment.email,
@@ -83,6 +106,7 @@ export const getPostingEnrollments = async (
       gender: enrollment.gender,
       skills: skillsByVolunteerId.get(enrollment.volunteer_id) || [],
       dates: datesByEnrollmentId.get(enrollment.enrollment_id) || [],
+      guardian_consent: guardianConsent ? toGuardianConsentSummary(guardianConsent) : null,
     };
 
     if (enrollment.cv_path != null) {
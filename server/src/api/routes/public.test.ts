@@ -8,13 +8,18 @@ import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 import createApp from '../../app.ts';
 import config from '../../config.ts';
 import database from '../../db/index.ts';
+import { getActiveCertificateSigningKey } from '../../services/certificates/keyring.ts';
+import { recordIssuedCertificate, revokeIssuedCertificate } from '../../services/certificates/ledger.ts';
 import {
   type CertificateVerificationPayload,
-  CERTIFICATE_PAYLOAD_VERSION,
   CERTIFICATE_TYPE,
+  LEGACY_CERTIFICATE_PAYLOAD_VERSION,
   signCertificateVerificationPayload,
+  signLegacyCertificateVerificationPayload,
 } from '../../services/certificates/token.ts';
 import * as certificateVerificationService from '../../services/certificates/verification.ts';
+import { requestGuardianConsent } from '../../services/posting/guardianConsent.ts';
+import * as emailService from '../../services/resend/emails.ts';
 import { PLATFORM_SIGNATURE_UPLOAD_DIR } from '../../services/uploads/paths.ts';
 import { createOrganizationAccount, createVolunteerAccount } from '../../tests/fixtures/accounts.ts';
 import { createPosting } from '../../tests/fixtures/organizationData.ts';
@@ -228,6 +233,43 @@ describe('GET /public/certificate-signature', () => {
   });
 });
 
+describe('GET /public/certificate/keys', () => {
+  test('publishes the active key and keeps retired keys', async () => {
+    const retiredAt = new Date('2026-01-01T00:00:00.000Z');
+    const retiredPublicKey = crypto.generateKeyPairSync('ed25519').publicKey.export({ format: 'jwk' }).x!;
+    await transaction
+      .insertInto('certificate_signing_key')
+      .values({ kid: 'retired-key', public_key: retiredPublicKey, retired_at: retiredAt })
+      .execute();
+
+    const response = await server
+      .get('/public/certificate/keys')
+      .expect(200);
+
+    const signingKey = getActiveCertificateSigningKey();
+    expect(response.body.keys).toEqual(expect.arrayContaining([
+      {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        alg: 'EdDSA',
+        use: 'sig',
+        kid: signingKey.kid,
+        x: signingKey.publicKey.export({ format: 'jwk' }).x,
+        retired_at: null,
+      },
+      {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        alg: 'EdDSA',
+        use: 'sig',
+        kid: 'retired-key',
+        x: retiredPublicKey,
+        retired_at: retiredAt.toISOString(),
+      },
+    ]));
+  });
+});
+
 describe('POST /public/certificate/verify', () => {
   const createValidCertificateVerificationContext = async () => {
     const { volunteer } = await createVolunteerAccount(transaction, { email: 'verify-volunteer@example.com' });
@@ -309,7 +351,7 @@ describe('POST /public/certificate/verify', () => {
       .execute();
 
     const payload: CertificateVerificationPayload = {
-      v: CERTIFICATE_PAYLOAD_VERSION,
+      v: LEGACY_CERTIFICATE_PAYLOAD_VERSION,
       uid: String(volunteer.id),
       issued_at: issuedAtDate.toISOString(),
       org_ids: [String(organizationOne.id), String(organizationTwo.id)],
@@ -321,7 +363,7 @@ describe('POST /public/certificate/verify', () => {
       type: CERTIFICATE_TYPE,
     };
 
-    const token = signCertificateVerificationPayload(payload, config.CERTIFICATE_VERIFICATION_SECRET);
+    const token = signLegacyCertificateVerificationPayload(payload, config.CERTIFICATE_VERIFICATION_SECRET);
 
     return {
       token,
@@ -389,7 +431,7 @@ describe('POST /public/certificate/verify', () => {
 
   test('returns invalid when token payload does not match database facts', async () => {
     const { payload } = await createValidCertificateVerificationContext();
-    const mismatchedToken = signCertificateVerificationPayload({
+    const mismatchedToken = signLegacyCertificateVerificationPayload({
       ...payload,
       total_hours: payload.total_hours + 1,
     }, config.CERTIFICATE_VERIFICATION_SECRET);
@@ -407,7 +449,7 @@ describe('POST /public/certificate/verify', () => {
 
   test('returns invalid when token refers to a missing volunteer', async () => {
     const { payload } = await createValidCertificateVerificationContext();
-    const missingVolunteerToken = signCertificateVerificationPayload({
+    const missingVolunteerToken = signLegacyCertificateVerificationPayload({
       ...payload,
       uid: '999999',
     }, config.CERTIFICATE_VERIFICATION_SECRET);
@@ -425,7 +467,7 @@ describe('POST /public/certificate/verify', () => {
 
   test('returns invalid when verifyCertificatePayloadAgainstDatabase passes but volunteer is missing', async () => {
     const { payload } = await createValidCertificateVerificationContext();
-    const missingVolunteerToken = signCertificateVerificationPayload({
+    const missingVolunteerToken = signLegacyCertificateVerificationPayload({
       ...payload,
       uid: '999999',
     }, config.CERTIFICATE_VERIFICATION_SECRET);
@@ -456,7 +498,7 @@ describe('POST /public/certificate/verify', () => {
     issuedAtDate.setMilliseconds(0);
 
     const payload: CertificateVerificationPayload = {
-      v: CERTIFICATE_PAYLOAD_VERSION,
+      v: LEGACY_CERTIFICATE_PAYLOAD_VERSION,
       uid: String(volunteer.id),
       issued_at: issuedAtDate.toISOString(),
       org_ids: [],
@@ -465,7 +507,7 @@ describe('POST /public/certificate/verify', () => {
       type: CERTIFICATE_TYPE,
     };
 
-    const token = signCertificateVerificationPayload(payload, config.CERTIFICATE_VERIFICATION_SECRET);
+    const token = signLegacyCertificateVerificationPayload(payload, config.CERTIFICATE_VERIFICATION_SECRET);
 
     const response = await server
       .post('/public/certificate/verify')
@@ -580,6 +622,111 @@ describe('POST /public/certificate/verify', () => {
     });
   });
 
+  test('reports a revoked certificate with its revocation date', async () => {
+    const { token, payload, volunteer } = await createValidCertificateVerificationContext();
+    const { id: certificateId } = await recordIssuedCertificate(transaction, token, payload);
+    await revokeIssuedCertificate(transaction, certificateId, { role: 'admin', id: 1 }, 'Attendance was recorded by mistake');
+
+    const revokedCertificate = await transaction
+      .selectFrom('issued_certificate')
+      .select(['revoked_at', 'volunteer_id'])
+      .where('id', '=', certificateId)
+      .executeTakeFirstOrThrow();
+
+    expect(revokedCertificate.volunteer_id).toBe(volunteer.id);
+
+    const response = await server
+      .post('/public/certificate/verify')
+      .send({ token })
+      .expect(200);
+
+    expect(response.body).toEqual({
+      valid: false,
+      message: 'Certificate has been revoked.',
+      revoked_at: revokedCertificate.revoked_at!.toISOString(),
+    });
+  });
+
+  test('keeps a recorded certificate valid after the underlying attendance changes', async () => {
+    const { token, payload, volunteer } = await createValidCertificateVerificationContext();
+    await recordIssuedCertificate(transaction, token, payload);
+
+    await transaction
+      .updateTable('enrollment_date')
+      .set({ attended: false })
+      .where('enrollment_id', 'in', transaction.selectFrom('enrollment').select('id').where('volunteer_id', '=', volunteer.id))
+      .execute();
+
+    const response = await server
+      .post('/public/certificate/verify')
+      .send({ token })
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      valid: true,
+      message: 'Certificate is valid.',
+      total_hours: payload.total_hours,
+    });
+  });
+
+  test('verifies v3 tokens signed with the active Ed25519 key', async () => {
+    const { payload } = await createValidCertificateVerificationContext();
+    const signingKey = getActiveCertificateSigningKey();
+    const token = signCertificateVerificationPayload(payload, signingKey);
+
+    expect(token.split('.')[1]).toBe(signingKey.kid);
+
+    const response = await server
+      .post('/public/certificate/verify')
+      .send({ token })
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      valid: true,
+      message: 'Certificate is valid.',
+      total_hours: payload.total_hours,
+    });
+  });
+
+  test('keeps verifying v3 tokens signed with a retired key', async () => {
+    const { payload } = await createValidCertificateVerificationContext();
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+
+    await transaction
+      .insertInto('certificate_signing_key')
+      .values({
+        kid: 'retired-key',
+        public_key: publicKey.export({ format: 'jwk' }).x!,
+        retired_at: new Date('2026-01-01T00:00:00.000Z'),
+      })
+      .execute();
+
+    const token = signCertificateVerificationPayload(payload, { kid: 'retired-key', privateKey });
+
+    const response = await server
+      .post('/public/certificate/verify')
+      .send({ token })
+      .expect(200);
+
+    expect(response.body).toMatchObject({ valid: true, message: 'Certificate is valid.' });
+  });
+
+  test('returns invalid when a v3 token uses an unknown key id', async () => {
+    const { payload } = await createValidCertificateVerificationContext();
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    const token = signCertificateVerificationPayload(payload, { kid: 'unknown-key', privateKey });
+
+    const response = await server
+      .post('/public/certificate/verify')
+      .send({ token })
+      .expect(200);
+
+    expect(response.body).toEqual({
+      valid: false,
+      message: 'Certificate is invalid.',
+    });
+  });
+
   test('returns 429 when verification requests exceed rate limit window', async () => {
     for (let index = 0; index < 20; index += 1) {
       await server
@@ -599,3 +746,129 @@ describe('POST /public/certificate/verify', () => {
     });
   });
 });
+
+describe('Guardian consent', () => {
+  const createConsentRequest = async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'consent-org@willing.social' });
+    const { volunteer } = await createVolunteerAccount(transaction, { email: 'consent-vol@willing.social', first_name: 'Sami' });
+    const posting = await createPosting(transaction, {
+      organizationId: organization.id,
+      title: 'Beach Cleanup',
+      overrides: {
+        automatic_acceptance: true,
+        start_date: new Date('2027-05-01T00:00:00.000Z'),
+        end_date: new Date('2027-05-01T00:00:00.000Z'),
+      },
+    });
+
+    const application = await transaction
+      .insertInto('enrollment_application')
+      .values({ volunteer_id: volunteer.id, posting_id: posting.id })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    const { consent, token } = await requestGuardianConsent(transaction, {
+      postingId: posting.id,
+      postingTitle: posting.title,
+      volunteerId: volunteer.id,
+      guardianEmail: 'parent@willing.social',
+    });
+
+    return { organization, volunteer, posting, application, consent, token };
+  };
+
+  beforeEach(() => {
+    vi.spyOn(emailService, 'sendVolunteerGuardianConsentResponseEmail').mockResolvedValue(undefined);
+  });
+
+  test('shows the request behind a consent link', async () => {
+    const { organization, token } = await createConsentRequest();
+
+    const response = await server
+      .get('/public/guardian-consent')
+      .query({ token })
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      status: 'pending',
+      volunteer_first_name: 'Sami',
+      organization_name: organization.name,
+      posting_title: 'Beach Cleanup',
+      start_date: '2027-05-01',
+      is_expired: false,
+    });
+  });
+
+  test('rejects tampered consent links', async () => {
+    const { token } = await createConsentRequest();
+
+    const response = await server
+      .get('/public/guardian-consent')
+      .query({ token: `${token.split('.')[0]}.AAAAAAAAAAAAAAAAAAAAAA` })
+      .expect(400);
+
+    expect(response.body.message).toBe('This consent link is invalid');
+  });
+
+  test('enrolls the volunteer when the guardian approves an open posting', async () => {
+    const { volunteer, posting, application, consent, token } = await createConsentRequest();
+
+    const response = await server
+      .post('/public/guardian-consent')
+      .set('User-Agent', 'consent-test')
+      .send({ token, decision: 'approve', guardian_name: 'Rana Haddad' })
+      .expect(200);
+
+    expect(response.body).toEqual({ status: 'approved', outcome: 'enrolled' });
+
+    const [storedConsent, storedApplication, enrollment] = await Promise.all([
+      transaction.selectFrom('guardian_consent').selectAll().where('id', '=', consent.id).executeTakeFirstOrThrow(),
+      transaction.selectFrom('enrollment_application').select('id').where('id', '=', application.id).executeTakeFirst(),
+      transaction
+        .selectFrom('enrollment')
+        .select('id')
+        .where('posting_id', '=', posting.id)
+        .where('volunteer_id', '=', volunteer.id)
+        .executeTakeFirst(),
+    ]);
+
+    expect(storedConsent).toMatchObject({ status: 'approved', guardian_name: 'Rana Haddad', response_user_agent: 'consent-test' });
+    expect(storedConsent.responded_at).toBeInstanceOf(Date);
+    expect(storedApplication).toBeUndefined();
+    expect(enrollment).toBeDefined();
+  });
+
+  test('withdraws the application when the guardian declines and only accepts one answer', async () => {
+    const { application, token } = await createConsentRequest();
+
+    const response = await server
+      .post('/public/guardian-consent')
+      .send({ token, decision: 'decline', guardian_name: 'Rana Haddad' })
+      .expect(200);
+
+    expect(response.body).toEqual({ status: 'declined', outcome: 'declined' });
+
+    const storedApplication = await transaction
+      .selectFrom('enrollment_application')
+      .select('id')
+      .where('id', '=', application.id)
+      .executeTakeFirst();
+    expect(storedApplication).toBeUndefined();
+
+    await server
+      .post('/public/guardian-consent')
+      .send({ token, decision: 'approve', guardian_name: 'Rana Haddad' })
+      .expect(409);
+  });
+
+  test('requires the guardian to enter their name', async () => {
+    const { token } = await createConsentRequest();
+
+    const response = await server
+      .post('/public/guardian-consent')
+      .send({ token, decision: 'approve', guardian_name: ' ' })
+      .expect(400);
+
+    expect(response.body.message).toBe('Please enter your full name');
+  });
+});
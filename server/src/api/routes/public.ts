@@ -1,24 +1,49 @@
 import path from 'path';
 
 import { type Response, Router } from 'express';
-import { type Kysely } from 'kysely';
+import { sql, type Kysely } from 'kysely';
 import zod from 'zod';
 
-import { type PublicCertificateSignatureResponse, type PublicCertificateVerificationResponse, type PublicHomeStatsResponse } from './public.types.ts';
-import { createCertificateVerificationRateLimit } from './utils/rateLimit.ts';
+import {
+  type PublicCertificateKeysResponse,
+  type PublicCertificateSignatureResponse,
+  type PublicCertificateVerificationResponse,
+  type PublicGuardianConsentDecisionResponse,
+  type PublicGuardianConsentResponse,
+  type PublicHomeStatsResponse,
+} from './public.types.ts';
+import { createCertificateVerificationRateLimit, createGuardianConsentRateLimit } from './utils/rateLimit.ts';
 import config from '../../config.ts';
-import { type Database } from '../../db/tables/index.ts';
+import { guardianConsentDecisionSchema, type Database } from '../../db/tables/index.ts';
+import { renderCalendarFeed } from '../../services/calendar/index.ts';
+import { getCertificatePublicKeys, getCertificateVerificationKeys } from '../../services/certificates/keyring.ts';
 import { verifySignedCertificateToken } from '../../services/certificates/token.ts';
 import { verifyCertificatePayloadAgainstDatabase } from '../../services/certificates/verification.ts';
+import { recordGuardianConsentDecision, verifyGuardianConsentToken } from '../../services/posting/guardianConsent.ts';
 import { PLATFORM_SIGNATURE_UPLOAD_DIR } from '../../services/uploads/paths.ts';
 
+const calendarFeedParamsSchema = zod.object({
+  token: zod.string().regex(/^[0-9a-f]{64}$/, 'Calendar feed not found'),
+});
+
 const certificateVerificationBodySchema = zod.object({
   token: zod.string().trim().min(1, 'Certificate token is required.').max(512, 'Certificate token is too long.'),
 });
 
+const guardianConsentQuerySchema = zod.object({
+  token: zod.string().trim().min(1, 'Consent link is invalid'),
+});
+
+const getGuardianConsentTokenError = (reason: 'malformed' | 'invalid_signature' | 'expired') => (
+  reason === 'expired'
+    ? 'This consent link has expired. Please ask the volunteer to send a new one.'
+    : 'This consent link is invalid'
+);
+
 function createPublicRouter(db: Kysely<Database>) {
   const publicRouter = Router();
   const certificateVerificationRateLimit = createCertificateVerificationRateLimit();
+  const guardianConsentRateLimit = createGuardianConsentRateLimit();
 
   publicRouter.get('/home-stats', async (_req, res: Response<PublicHomeStatsResponse>) => {
     const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
@@ -105,6 +130,113 @@ function createPublicRouter(db: Kysely<Database>) {
     });
   });
 
+  publicRouter.get('/certificate/keys', async (_req, res: Response<PublicCertificateKeysResponse>) => {
+    const keys = await getCertificatePublicKeys(db);
+
+    res.json({
+      keys: keys.map(key => ({
+        kty: 'OKP',
+        crv: 'Ed25519',
+        alg: 'EdDSA',
+        use: 'sig',
+        kid: key.kid,
+        x: key.public_key,
+        retired_at: key.retired_at?.toISOString() ?? null,
+      })),
+    });
+  });
+
+  publicRouter.get('/calendar/:token.ics', async (req, res: Response<string>) => {
+    const parsedParams = calendarFeedParamsSchema.safeParse(req.params);
+    const calendar = parsedParams.success ? await renderCalendarFeed(db, parsedParams.data.token) : null;
+
+    if (!calendar) {
+      res.status(404);
+      throw new Error('Calendar feed not found');
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="willing.ics"');
+    res.setHeader('Cache-Control', 'private, no-cache');
+    res.send(calendar);
+  });
+
+  publicRouter.get('/guardian-consent', guardianConsentRateLimit, async (req, res: Response<PublicGuardianConsentResponse>) => {
+    const { token } = guardianConsentQuerySchema.parse(req.query);
+    const tokenResult = verifyGuardianConsentToken(token, config.JWT_SECRET);
+
+    if (!tokenResult.valid) {
+      res.status(tokenResult.reason === 'expired' ? 410 : 400);
+      throw new Error(getGuardianConsentTokenError(tokenResult.reason));
+    }
+
+    // The posting may be gone by now, in which case the copied title is all that is left
+    const consent = await db
+      .selectFrom('guardian_consent')
+      .innerJoin('volunteer_account', 'volunteer_account.id', 'guardian_consent.volunteer_id')
+      .leftJoin('posting', 'posting.id', 'guardian_consent.posting_id')
+      .leftJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+      .select([
+        'guardian_consent.status',
+        'guardian_consent.posting_title',
+        'guardian_consent.expires_at',
+        'volunteer_account.first_name as volunteer_first_name',
+        'organization_account.name as organization_name',
+        'posting.description as posting_description',
+        'posting.location_name',
+        sql<string | null>`to_char(posting.start_date, 'YYYY-MM-DD')`.as('start_date'),
+        sql<string | null>`to_char(posting.end_date, 'YYYY-MM-DD')`.as('end_date'),
+      ])
+      .where('guardian_consent.id', '=', tokenResult.payload.consent_id)
+      .executeTakeFirst();
+
+    if (!consent) {
+      res.status(404);
+      throw new Error('Consent request not found');
+    }
+
+    res.json({
+      status: consent.status,
+      volunteer_first_name: consent.volunteer_first_name,
+      organization_name: consent.organization_name ?? '',
+      posting_title: consent.posting_title,
+      posting_description: consent.posting_description,
+      location_name: consent.location_name,
+      start_date: consent.start_date,
+      end_date: consent.end_date,
+      expires_at: consent.expires_at,
+      is_expired: consent.expires_at < new Date(),
+    });
+  });
+
+  publicRouter.post('/guardian-consent', guardianConsentRateLimit, async (req, res: Response<PublicGuardianConsentDecisionResponse>) => {
+    const parsedBody = guardianConsentDecisionSchema.safeParse(req.body);
+    if (!parsedBody.success) {
+      res.status(400);
+      throw new Error(parsedBody.error.issues[0]!.message);
+    }
+
+    const { token, ...decision } = parsedBody.data;
+    const tokenResult = verifyGuardianConsentToken(token, config.JWT_SECRET);
+
+    if (!tokenResult.valid) {
+      res.status(tokenResult.reason === 'expired' ? 410 : 400);
+      throw new Error(getGuardianConsentTokenError(tokenResult.reason));
+    }
+
+    const result = await recordGuardianConsentDecision(db, tokenResult.payload.consent_id, decision, {
+      ip: req.ip?.slice(0, 64) ?? null,
+      userAgent: req.get('user-agent') ?? null,
+    });
+
+    if (!result) {
+      res.status(409);
+      throw new Error('This consent request has already been answered or is no longer active');
+    }
+
+    res.json({ status: result.consent.status, outcome: result.outcome });
+  });
+
   publicRouter.post('/certificate/verify', certificateVerificationRateLimit, async (req, res: Response<PublicCertificateVerificationResponse>) => {
     const parsedBody = certificateVerificationBodySchema.safeParse(req.body);
     if (!parsedBody.success) {
@@ -116,7 +248,7 @@ function createPublicRouter(db: Kysely<Database>) {
     }
 
     const body = parsedBody.data;
-    const tokenResult = verifySignedCertificateToken(body.token, config.CERTIFICATE_VERIFICATION_SECRET);
+    const tokenResult = verifySignedCertificateToken(body.token, await getCertificateVerificationKeys(db));
 
     if (!tokenResult.valid) {
       if (tokenResult.reason === 'malformed') {
@@ -134,7 +266,16 @@ function createPublicRouter(db: Kysely<Database>) {
       return;
     }
 
-    const dbVerification = await verifyCertificatePayloadAgainstDatabase(tokenResult.payload, db);
+    const dbVerification = await verifyCertificatePayloadAgainstDatabase(tokenResult.payload, tokenResult.token, db);
+    if (dbVerification.revoked_at) {
+      res.json({
+        valid: false,
+        message: 'Certificate has been revoked.',
+        revoked_at: dbVerification.revoked_at.toISOString(),
+      });
+      return;
+    }
+
     if (!dbVerification.valid) {
       res.json({
         valid: false,
@@ -1,3 +1,6 @@
+import { type GuardianConsentStatus } from '../../db/tables/index.ts';
+import { type GuardianConsentOutcome } from '../../services/posting/guardianConsent.ts';
+
 export type PublicHomeStatsResponse = {
   totalOpportunities: number;
   totalOrganizations: number;
@@ -9,6 +12,20 @@ export type PublicHomeStatsResponse = {
 
 export type PublicCertificateSignatureResponse = never;
 
+export type PublicCertificateKey = {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  alg: 'EdDSA';
+  use: 'sig';
+  kid: string;
+  x: string;
+  retired_at: string | null;
+};
+
+export type PublicCertificateKeysResponse = {
+  keys: PublicCertificateKey[];
+};
+
 export type PublicCertificateVerificationOrganization = {
   id: number;
   name: string;
@@ -22,6 +39,7 @@ export type PublicCertificateVerificationOrganization = {
 export type PublicCertificateVerificationResponse = {
   valid: boolean;
   message: string;
+  revoked_at?: string;
   issued_at?: string;
   certificate_type?: 'volunteer_hours_certificate';
   volunteer_name?: string;
@@ -33,3 +51,21 @@ export type PublicCertificateVerificationResponse = {
     signature_path: string | null;
   } | null;
 };
+
+export type PublicGuardianConsentResponse = {
+  status: GuardianConsentStatus;
+  volunteer_first_name: string;
+  organization_name: string;
+  posting_title: string;
+  posting_description: string | null;
+  location_name: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  expires_at: Date;
+  is_expired: boolean;
+};
+
+export type PublicGuardianConsentDecisionResponse = {
+  status: GuardianConsentStatus;
+  outcome: GuardianConsentOutcome;
+};
@@ -0,0 +1,34 @@
+import { Router, type Response } from 'express';
+import { type Kysely } from 'kysely';
+import zod from 'zod';
+
+import { type UserSkillsResponse } from './skills.types.ts';
+import authorizeOnly from '../../auth/authorizeOnly.ts';
+import { type Database } from '../../db/tables/index.ts';
+import { searchSkills } from '../../services/skills/index.ts';
+
+const DEFAULT_SKILLS_LIMIT = 10;
+const MAX_SKILLS_LIMIT = 50;
+
+const skillsQuerySchema = zod.object({
+  search: zod.string().trim().max(64).default(''),
+  limit: zod.coerce.number().int().min(1).max(MAX_SKILLS_LIMIT).default(DEFAULT_SKILLS_LIMIT),
+});
+
+function createSkillsRouter(db: Kysely<Database>) {
+  const skillsRouter = Router();
+
+  skillsRouter.use(authorizeOnly('admin', 'organization', 'volunteer'));
+
+  skillsRouter.get('/', async (req, res: Response<UserSkillsResponse>) => {
+    const { search, limit } = skillsQuerySchema.parse(req.query);
+
+    const skills = await searchSkills(db, search, limit);
+
+    res.json({ skills });
+  });
+
+  return skillsRouter;
+}
+
+export default createSkillsRouter;
@@ -0,0 +1,7 @@
+import { type Skill } from '../../db/tables/index.ts';
+
+export type SkillSuggestion = Pick<Skill, 'id' | 'name' | 'category'>;
+
+export type UserSkillsResponse = {
+  skills: SkillSuggestion[];
+};
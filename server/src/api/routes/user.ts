@@ -4,20 +4,30 @@ import { Router, type Request, type Response } from 'express';
 import { sql, type Kysely } from 'kysely';
 import zod from 'zod';
 
+import createCalendarFeedRouter from './calendar.ts';
+import createNotificationsRouter from './notifications.ts';
+import createSkillsRouter from './skills.ts';
 import {
   type UserDeleteAccountResponse,
   type UserForgotPasswordResetResponse,
   type UserForgotPasswordResponse,
   type UserLoginResponse,
+  type UserOrganizationInviteResponse,
 } from './user.types.ts';
 import authorizeOnly from '../../auth/authorizeOnly.ts';
 import removePassword from '../../auth/removePassword.ts';
 import executeTransaction from '../../db/executeTransaction.ts';
-import { type Database } from '../../db/tables/index.ts';
+import { acceptOrganizationMemberInviteSchema, type Database } from '../../db/tables/index.ts';
 import { emailSchema, passwordSchema } from '../../schemas/index.ts';
 import { compare, hash } from '../../services/bcrypt/index.ts';
 import { generateJWT } from '../../services/jwt/index.ts';
-import { sendPasswordResetEmail, sendPostingDeletedEmail } from '../../services/resend/emails.ts';
+import {
+  createPostingDeletedDelivery,
+  deliverNotifications,
+  type PostingDeletedNotice,
+} from '../../services/notifications/index.ts';
+import { hashOrganizationMemberInviteToken, organizationMemberResponseColumns } from '../../services/organization/members.ts';
+import { sendPasswordResetEmail } from '../../services/resend/emails.ts';
 import { loginInfoSchema } from '../../types.ts';
 
 const organizationLoginColumns = [
@@ -60,6 +70,37 @@ const forgotPasswordResetSchema = zod.object({
 function createUserRouter(db: Kysely<Database>) {
   const userRouter = Router();
 
+  const createOrganizationMemberSession = async (organizationId: number, memberId: number): Promise<UserLoginResponse> => {
+    const [organization, member] = await Promise.all([
+      db
+        .selectFrom('organization_account')
+        .select(organizationLoginColumns)
+        .where('id', '=', organizationId)
+        .executeTakeFirstOrThrow(),
+      db
+        .selectFrom('organization_member')
+        .select([...organizationMemberResponseColumns, 'organization_member.token_version'])
+        .where('id', '=', memberId)
+        .executeTakeFirstOrThrow(),
+    ]);
+
+    const { token_version: tokenVersion, ...memberResponse } = member;
+
+    const token = await generateJWT({
+      id: organizationId,
+      role: 'organization',
+      token_version: tokenVersion,
+      member_id: memberId,
+    });
+
+    return {
+      token,
+      role: 'organization',
+      organization: removePassword(organization),
+      member: memberResponse,
+    };
+  };
+
   userRouter.post('/login', async (req, res: Response<UserLoginResponse>) => {
     const body = loginInfoSchema.parse(req.body);
 
@@ -70,6 +111,39 @@ function createUserRouter(db: Kysely<Database>) {
       .where('organization_account.is_deleted', '=', false)
       .executeTakeFirst();
 
+    if (!organizationAccount) {
+      const organizationMember = await db
+        .selectFrom('organization_member')
+        .innerJoin('organization_account', 'organization_account.id', 'organization_member.organization_id')
+        .select([
+          'organization_member.id',
+          'organization_member.organization_id',
+          'organization_member.password',
+          'organization_member.token_version',
+          'organization_account.is_disabled',
+        ])
+        .where('organization_member.email', '=', body.email)
+        .where('organization_member.removed_at', 'is', null)
+        .where('organization_member.password', 'is not', null)
+        .where('organization_account.is_deleted', '=', false)
+        .executeTakeFirst();
+
+      if (organizationMember) {
+        if (organizationMember.is_disabled) {
+          res.status(403);
+          throw new Error('Account is disabled. If you think this is a mistake contact the Willing admin.');
+        }
+
+        if (!await compare(body.password, organizationMember.password!)) {
+          res.status(403);
+          throw new Error('Invalid email or password');
+        }
+
+        res.json(await createOrganizationMemberSession(organizationMember.organization_id, organizationMember.id));
+        return;
+      }
+    }
+
     let volunteerAccount;
     if (!organizationAccount) {
       volunteerAccount = await db
@@ -233,7 +307,64 @@ function createUserRouter(db: Kysely<Database>) {
     res.json({});
   });
 
+  userRouter.get('/organization-invite', async (req, res: Response<UserOrganizationInviteResponse>) => {
+    const { key } = zod.object({ key: zod.string().min(1) }).parse(req.query);
+
+    const invite = await db
+      .selectFrom('organization_member')
+      .innerJoin('organization_account', 'organization_account.id', 'organization_member.organization_id')
+      .select([
+        'organization_member.email',
+        'organization_member.role',
+        'organization_member.invite_expires_at',
+        'organization_account.name as organization_name',
+      ])
+      .where('organization_member.invite_token_hash', '=', hashOrganizationMemberInviteToken(key))
+      .where('organization_member.removed_at', 'is', null)
+      .where('organization_account.is_deleted', '=', false)
+      .executeTakeFirst();
+
+    if (!invite || !invite.invite_expires_at || invite.invite_expires_at < new Date()) {
+      res.status(400);
+      throw new Error('Invalid or expired invitation');
+    }
+
+    res.json({ email: invite.email, role: invite.role, organization_name: invite.organization_name });
+  });
+
+  userRouter.post('/organization-invite/accept', async (req, res: Response<UserLoginResponse>) => {
+    const body = acceptOrganizationMemberInviteSchema.parse(req.body);
+
+    const member = await db
+      .updateTable('organization_member')
+      .set({
+        first_name: body.first_name,
+        last_name: body.last_name,
+        password: await hash(body.password),
+        joined_at: new Date(),
+        invite_token_hash: null,
+        invite_expires_at: null,
+      })
+      .where('invite_token_hash', '=', hashOrganizationMemberInviteToken(body.key))
+      .where('invite_expires_at', '>', new Date())
+      .where('removed_at', 'is', null)
+      .returning(['id', 'organization_id'])
+      .executeTakeFirst();
+
+    if (!member) {
+      res.status(400);
+      throw new Error('Invalid or expired invitation');
+    }
+
+    res.json(await createOrganizationMemberSession(member.organization_id, member.id));
+  });
+
   userRouter.delete('/account', authorizeOnly('organization', 'volunteer'), async (req: Request, res: Response<UserDeleteAccountResponse>) => {
+    if (req.userJWT!.member_id !== undefined) {
+      res.status(403);
+      throw new Error('Only the organization account can delete the organization');
+    }
+
     const { password, local_date: localDate, local_time: localTime } = zod.object({
       password: zod.string().min(1),
       local_date: zod.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
@@ -298,7 +429,7 @@ function createUserRouter(db: Kysely<Database>) {
       }
     }
 
-    let postingDeletedNotifications: { volunteerEmail: string; volunteerName: string; postingTitle: string; organizationName: string }[] = [];
+    let postingDeletedNotifications: PostingDeletedNotice[] = [];
 
     await executeTransaction(db, async (trx) => {
       if (role === 'organization') {
@@ -334,6 +465,18 @@ function createUserRouter(db: Kysely<Database>) {
         .where('user_id', '=', userId)
         .execute();
 
+      await trx
+        .deleteFrom('notification')
+        .where('role', '=', role)
+        .where('user_id', '=', userId)
+        .execute();
+
+      await trx
+        .deleteFrom('notification_preference')
+        .where('role', '=', role)
+        .where('user_id', '=', userId)
+        .execute();
+
       if (role === 'organization') {
         // Hard-delete postings that haven't started yet (with FK cleanup)
         const notStartedPostingIds = await trx
@@ -358,6 +501,7 @@ function createUserRouter(db: Kysely<Database>) {
             .innerJoin('volunteer_account', 'volunteer_account.id', 'enrollment.volunteer_id')
             .innerJoin('posting', 'posting.id', 'enrollment.posting_id')
             .select([
+              'volunteer_account.id as volunteer_id',
               'volunteer_account.email as volunteer_email',
               'volunteer_account.first_name',
               'volunteer_account.last_name',
@@ -367,6 +511,7 @@ function createUserRouter(db: Kysely<Database>) {
             .execute();
 
           postingDeletedNotifications = enrolledVolunteers.map(v => ({
+            volunteerId: v.volunteer_id,
             volunteerEmail: v.volunteer_email,
             volunteerName: `${v.first_name} ${v.last_name}`,
             postingTitle: v.posting_title,
@@ -439,11 +584,15 @@ function createUserRouter(db: Kysely<Database>) {
       }
     });
 
-    await Promise.allSettled(postingDeletedNotifications.map(n => sendPostingDeletedEmail(n)));
+    await deliverNotifications(db, postingDeletedNotifications.map(createPostingDeletedDelivery));
 
     res.json({});
   });
 
+  userRouter.use('/notifications', createNotificationsRouter(db));
+  userRouter.use('/calendar-feed', createCalendarFeedRouter(db));
+  userRouter.use('/skills', createSkillsRouter(db));
+
   return userRouter;
 }
 
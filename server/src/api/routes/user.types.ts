@@ -1,10 +1,22 @@
-import { type OrganizationAccountWithoutPassword, type VolunteerAccountWithoutPassword } from '../../db/tables/index.ts';
+import {
+  type OrganizationAccountWithoutPassword,
+  type OrganizationMemberRole,
+  type OrganizationMemberWithoutSecrets,
+  type VolunteerAccountWithoutPassword,
+} from '../../db/tables/index.ts';
 
 export type UserLoginResponse = {
   token: string;
   role: 'volunteer' | 'organization';
   volunteer?: VolunteerAccountWithoutPassword;
   organization?: OrganizationAccountWithoutPassword;
+  member?: OrganizationMemberWithoutSecrets;
+};
+
+export type UserOrganizationInviteResponse = {
+  email: string;
+  role: OrganizationMemberRole;
+  organization_name: string;
 };
 
 export type UserForgotPasswordResponse = object;
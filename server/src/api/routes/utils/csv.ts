@@ -0,0 +1,18 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+const toCsvCell = (value: CsvValue) => {
+  const stringValue = String(value ?? '');
+  return `"${stringValue.replace(/"/g, '""')}"`;
+};
+
+export const toCsv = (
+  rows: Array<Record<string, CsvValue>>,
+  headers: string[],
+) => {
+  if (headers.length === 0) return '';
+  const headerLine = headers.map(toCsvCell).join(',');
+  const bodyLines = rows.map(row => headers.map(header => toCsvCell(row[header])).join(','));
+  return [headerLine, ...bodyLines].join('\n');
+};
+
+export const toCsvFilename = (title: string, suffix: string) => `${title.replace(/[^a-z0-9-_]+/gi, '_') || 'posting'}-${suffix}.csv`;
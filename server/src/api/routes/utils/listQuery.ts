@@ -1,3 +1,6 @@
+import crypto from 'crypto';
+
+import { sql, type Expression, type SelectQueryBuilder, type SqlBool } from 'kysely';
 import zod from 'zod';
 
 import { getSingleQueryValue } from './queryValue.ts';
@@ -16,6 +19,37 @@ type ParsedListQuery<SortBy extends string> = {
   sortDir: SortDir;
 };
 
+export type ListPage = {
+  limit: number;
+  after: ListCursorValue[] | null;
+  queryKey: string;
+};
+
+/**
+ * One ORDER BY term of a paged list. The last key has to be unique, usually the row ID.
+ */
+export type ListSortKey = {
+  expression: string | Expression<unknown>;
+  direction: SortDir;
+};
+
+type ListCursorValue = string | null;
+
+export type ListPageResult<T> = {
+  items: T[];
+  next_cursor: string | null;
+};
+
+type ParseListPageOptions = {
+  defaultLimit?: number;
+  maxLimit?: number;
+};
+
+const DEFAULT_LIST_PAGE_LIMIT = 20;
+const MAX_LIST_PAGE_LIMIT = 100;
+const LIST_PAGE_QUERY_EXCLUDED_KEYS = new Set(['cursor', 'limit']);
+const LIST_SORT_COLUMN_PREFIX = 'list_sort_';
+
 const sortDirSchema = zod.enum(['asc', 'desc']);
 const normalizeSearch = (value: string) => value.trim().replace(/\s+/g, ' ');
 
@@ -81,3 +115,132 @@ export const parseOptionalNumberQueryParam = (value: unknown): number | undefine
 
   return parsed;
 };
+
+// Cursors only stay valid for the filters and sort they were issued for
+const getListQueryKey = (query: Record<string, unknown>) => {
+  const entries = Object.entries(query)
+    .filter(([key, value]) => !LIST_PAGE_QUERY_EXCLUDED_KEYS.has(key) && value !== undefined)
+    .sort(([left], [right]) => left.localeCompare(right));
+
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(entries))
+    .digest('base64url')
+    .slice(0, 16);
+};
+
+const encodeListCursor = (after: ListCursorValue[], queryKey: string) => Buffer
+  .from(JSON.stringify({ after, query: queryKey }))
+  .toString('base64url');
+
+const createListCursorSchema = (queryKey: string) => zod
+  .string()
+  .transform((value, ctx) => {
+    try {
+      return JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as unknown;
+    } catch {
+      ctx.addIssue({ code: 'custom', message: 'Invalid cursor' });
+      return zod.NEVER;
+    }
+  })
+  .pipe(zod.object({
+    after: zod.array(zod.string().nullable()).min(1),
+    query: zod.literal(queryKey, { error: 'This cursor belongs to a different search. Start again from the first page.' }),
+  }));
+
+const toSortExpression = (expression: ListSortKey['expression']) => (
+  typeof expression === 'string' ? sql.ref(expression) : expression
+);
+
+// Sort keys order with NULLS LAST, so a row follows the cursor when it sorts past the cursor value or is NULL
+const isPastCursorValue = (expression: Expression<unknown>, direction: SortDir, value: ListCursorValue) => {
+  if (value === null) return sql<SqlBool>`false`;
+
+  return direction === 'asc'
+    ? sql<SqlBool>`(${expression} > ${value} OR ${expression} IS NULL)`
+    : sql<SqlBool>`(${expression} < ${value} OR ${expression} IS NULL)`;
+};
+
+const equalsCursorValue = (expression: Expression<unknown>, value: ListCursorValue) => (
+  value === null ? sql<SqlBool>`${expression} IS NULL` : sql<SqlBool>`${expression} = ${value}`
+);
+
+/**
+ * Expands `(k1, k2, ...) > (v1, v2, ...)` term by term, since the keys don't always share one direction.
+ */
+const buildKeysetPredicate = (sortKeys: readonly ListSortKey[], after: ListCursorValue[]): Expression<SqlBool> => sortKeys
+  .map((sortKey, index) => ({ ...sortKey, expression: toSortExpression(sortKey.expression), value: after[index] ?? null }))
+  .reduceRight<Expression<SqlBool> | undefined>((laterKeysPredicate, { expression, direction, value }) => (
+    laterKeysPredicate
+      ? sql<SqlBool>`(${isPastCursorValue(expression, direction, value)} OR (${equalsCursorValue(expression, value)} AND ${laterKeysPredicate}))`
+      : isPastCursorValue(expression, direction, value)
+  ), undefined)!;
+
+/**
+ * Reads the opaque `cursor` and `limit` shared by list endpoints.
+ * Throws a validation error when the cursor is malformed or was issued for other filters.
+ */
+export const parseListPage = (
+  query: Record<string, unknown>,
+  options: ParseListPageOptions = {},
+): ListPage => {
+  const {
+    defaultLimit = DEFAULT_LIST_PAGE_LIMIT,
+    maxLimit = MAX_LIST_PAGE_LIMIT,
+  } = options;
+
+  const limit = zod.coerce.number().int().min(1).max(maxLimit).default(defaultLimit)
+    .parse(getSingleQueryValue(query.limit) || undefined);
+
+  const queryKey = getListQueryKey(query);
+  const cursorInput = getSingleQueryValue(query.cursor);
+  const after = cursorInput ? createListCursorSchema(queryKey).parse(cursorInput).after : null;
+
+  return { limit, after, queryKey };
+};
+
+/**
+ * Orders the query by the sort keys and seeks past the cursor, so every page costs the same however deep it is.
+ * The sort key values are selected as text, which round-trips every column type exactly into the next cursor.
+ * Fetches one row past the page so that `toListPageResult` can tell whether another page follows.
+ */
+export const applyListPage = <DB, TB extends keyof DB, O>(
+  query: SelectQueryBuilder<DB, TB, O>,
+  page: ListPage,
+  sortKeys: readonly ListSortKey[],
+): SelectQueryBuilder<DB, TB, O> => {
+  const after = page.after && zod
+    .array(zod.string().nullable())
+    .length(sortKeys.length, { error: 'This cursor no longer matches the list order. Start again from the first page.' })
+    .parse(page.after);
+
+  const sortedQuery = sortKeys.reduce((nextQuery, sortKey, index) => {
+    const expression = toSortExpression(sortKey.expression);
+
+    return nextQuery
+      .select(sql<ListCursorValue>`(${expression})::text`.as(`${LIST_SORT_COLUMN_PREFIX}${index}`))
+      .orderBy(expression, order => order[sortKey.direction]().nullsLast()) as SelectQueryBuilder<DB, TB, O>;
+  }, query);
+
+  return (after ? sortedQuery.where(buildKeysetPredicate(sortKeys, after)) : sortedQuery).limit(page.limit + 1);
+};
+
+const isListSortColumn = (key: string) => key.startsWith(LIST_SORT_COLUMN_PREFIX);
+
+const getListSortValues = (row: object) => Object.entries(row)
+  .filter(([key]) => isListSortColumn(key))
+  .sort(([left], [right]) => Number(left.slice(LIST_SORT_COLUMN_PREFIX.length)) - Number(right.slice(LIST_SORT_COLUMN_PREFIX.length)))
+  .map(([, value]) => value as ListCursorValue);
+
+/**
+ * Takes rows fetched with `applyListPage`, drops its sort columns and builds the cursor from the last row on the page.
+ */
+export const toListPageResult = <T extends object>(rows: T[], page: ListPage): ListPageResult<T> => {
+  const items = rows.slice(0, page.limit);
+  const lastItem = items.at(-1);
+
+  return {
+    items: items.map(item => Object.fromEntries(Object.entries(item).filter(([key]) => !isListSortColumn(key))) as T),
+    next_cursor: rows.length > page.limit && lastItem ? encodeListCursor(getListSortValues(lastItem), page.queryKey) : null,
+  };
+};
@@ -1,44 +1,18 @@
 import { sql } from 'kysely';
 
+import { parseOptionalNumberQueryParam, type ListSortKey } from './listQuery.ts';
 import { getSingleQueryValue } from './queryValue.ts';
-import { hasPostingEnded } from '../../../services/posting/postingTime.ts';
+import {
+  getPostingDistanceExpression,
+  toPostingDateTimeFilters,
+  type PostingBoundsFilter,
+  type PostingDateTimeFilters,
+  type PostingDistanceFilter,
+} from '../../../services/posting/postingFilters.ts';
 
 export type PostingSortDir = 'asc' | 'desc';
 export type SharedPostingSortBy = 'start_date' | 'created_at' | 'title';
 
-export type PostingDateTimeFilters = {
-  startDateFrom?: Date;
-  endDateTo?: Date;
-  startTimeFrom?: string;
-  endTimeTo?: string;
-};
-
-type PostingDateValue = Date | string | null | undefined;
-
-type PostingSortLike = {
-  id?: number;
-  has_ended?: boolean;
-  title?: string | null | undefined;
-  start_date?: PostingDateValue;
-  start_time?: string | null | undefined;
-  end_date: PostingDateValue;
-  end_time?: string | null;
-  created_at?: PostingDateValue | undefined;
-};
-
-type PostingSearchLike = {
-  title: string;
-  description: string;
-  location_name: string;
-  organization_name?: string | null;
-  skills: Array<{ name: string }>;
-};
-
-type PostingQueryLike = {
-  where: (...args: unknown[]) => PostingQueryLike;
-  orderBy: (...args: unknown[]) => PostingQueryLike;
-};
-
 const endedLastOrderExpression = sql<number>`CASE
   WHEN posting.end_date IS NOT NULL
    AND posting.end_time IS NOT NULL
@@ -50,31 +24,7 @@ const endedLastOrderExpression = sql<number>`CASE
   ELSE 0
 END`;
 
-const normalizeDateKey = (value: PostingDateValue): string | null => {
-  if (!value) return null;
-
-  if (typeof value === 'string') {
-    return value.slice(0, 10);
-  }
-
-  return value.toISOString().slice(0, 10);
-};
-
-const normalizeTimeKey = (value: string | null | undefined): string | null => {
-  if (!value) return null;
-  return value.slice(0, 8);
-};
-
-const normalizeTimestampKey = (value: PostingDateValue): string | null => {
-  if (!value) return null;
-
-  if (typeof value === 'string') {
-    const parsed = new Date(value);
-    return Number.isNaN(parsed.getTime()) ? value : parsed.toISOString();
-  }
-
-  return value.toISOString();
-};
+const postingEndedLastSortKey: ListSortKey = { expression: endedLastOrderExpression, direction: 'asc' };
 
 const normalizeSearchText = (value: string): string => value
   .toLowerCase()
@@ -86,228 +36,88 @@ export const normalizeSearchTerms = (value: string): string[] => normalizeSearch
   .split(' ')
   .filter(Boolean);
 
-const tokenizeSearchField = (value: string): string[] => normalizeSearchTerms(value);
-
-const escapeRegexTerm = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
-export const buildSearchRegexPattern = (term: string): string => `(^|[^a-z0-9])${escapeRegexTerm(term)}([^a-z0-9]|$)`;
-
-const compareNullableKeys = (
-  left: string | null,
-  right: string | null,
-  sortDir: PostingSortDir,
-): number => {
-  if (!left && !right) return 0;
-  if (!left) return 1;
-  if (!right) return -1;
-
-  const result = left.localeCompare(right);
-  return sortDir === 'asc' ? result : -result;
-};
-
-const comparePostingEndStatus = (left: PostingSortLike, right: PostingSortLike): number => {
-  const leftEnded = left.has_ended ?? hasPostingEnded(left);
-  const rightEnded = right.has_ended ?? hasPostingEnded(right);
-
-  if (leftEnded === rightEnded) {
-    return 0;
-  }
-
-  return leftEnded ? 1 : -1;
-};
-
-const parseDateBoundary = (value: string | undefined): Date | undefined => {
-  if (!value) return undefined;
-
-  const parsedDate = new Date(`${value}T00:00:00.000Z`);
-  return Number.isNaN(parsedDate.getTime()) ? undefined : parsedDate;
-};
-
-export const parsePostingDateTimeFilters = (query: Record<string, unknown>): PostingDateTimeFilters => {
-  const startDateFrom = parseDateBoundary(getSingleQueryValue(query.start_date_from));
-  const endDateTo = parseDateBoundary(getSingleQueryValue(query.end_date_to));
-  const startTimeFrom = getSingleQueryValue(query.start_time_from);
-  const endTimeTo = getSingleQueryValue(query.end_time_to);
-
-  const filters: PostingDateTimeFilters = {};
-
-  if (startDateFrom) filters.startDateFrom = startDateFrom;
-  if (endDateTo) filters.endDateTo = endDateTo;
-  if (startTimeFrom) filters.startTimeFrom = startTimeFrom;
-  if (endTimeTo) filters.endTimeTo = endTimeTo;
-
-  return filters;
-};
-
-export const applyPostingDateTimeFilters = <Q extends PostingQueryLike>(
-  query: Q,
-  filters: PostingDateTimeFilters,
-): Q => {
-  let nextQuery = query;
+export const parsePostingDateTimeFilters = (query: Record<string, unknown>): PostingDateTimeFilters => toPostingDateTimeFilters({
+  start_date_from: getSingleQueryValue(query.start_date_from),
+  end_date_to: getSingleQueryValue(query.end_date_to),
+  start_time_from: getSingleQueryValue(query.start_time_from),
+  end_time_to: getSingleQueryValue(query.end_time_to),
+});
 
-  if (filters.startDateFrom) {
-    nextQuery = nextQuery.where('posting.start_date', '>=', filters.startDateFrom) as Q;
-  }
+/**
+ * Reads the search origin from `near_latitude`/`near_longitude` and an optional `radius_km`.
+ * Returns undefined when no valid origin is given, in which case distance is not computed.
+ */
+export const parsePostingDistanceFilter = (query: Record<string, unknown>): PostingDistanceFilter | undefined => {
+  const latitude = parseOptionalNumberQueryParam(query.near_latitude);
+  const longitude = parseOptionalNumberQueryParam(query.near_longitude);
+  const radiusKm = parseOptionalNumberQueryParam(query.radius_km);
 
-  if (filters.endDateTo) {
-    nextQuery = nextQuery
-      .where('posting.end_date', 'is not', null)
-      .where('posting.end_date', '<=', filters.endDateTo) as Q;
-  }
+  if (latitude === undefined || longitude === undefined) return undefined;
+  if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) return undefined;
 
-  if (filters.startTimeFrom) {
-    nextQuery = nextQuery.where('posting.start_time', '>=', filters.startTimeFrom) as Q;
-  }
+  const filter: PostingDistanceFilter = { latitude, longitude };
 
-  if (filters.endTimeTo) {
-    nextQuery = nextQuery
-      .where('posting.end_time', 'is not', null)
-      .where('posting.end_time', '<=', filters.endTimeTo) as Q;
-  }
+  if (radiusKm !== undefined && radiusKm > 0) filter.radiusKm = radiusKm;
 
-  return nextQuery;
+  return filter;
 };
 
-export const matchesPostingDateTimeFilters = <T extends Pick<PostingSortLike, 'start_date' | 'start_time' | 'end_date' | 'end_time'>>(
-  posting: T,
-  filters: PostingDateTimeFilters,
-): boolean => {
-  const postingStartDateKey = normalizeDateKey(posting.start_date);
-  const postingEndDateKey = normalizeDateKey(posting.end_date);
-  const startDateFilterKey = normalizeDateKey(filters.startDateFrom);
-  const endDateFilterKey = normalizeDateKey(filters.endDateTo);
-  const postingStartTimeKey = normalizeTimeKey(posting.start_time);
-  const postingEndTimeKey = normalizeTimeKey(posting.end_time);
-  const startTimeFilterKey = normalizeTimeKey(filters.startTimeFrom);
-  const endTimeFilterKey = normalizeTimeKey(filters.endTimeTo);
-
-  if (startDateFilterKey && (!postingStartDateKey || postingStartDateKey < startDateFilterKey)) {
-    return false;
+export const getPostingDistanceSortKeys = (filter: PostingDistanceFilter): ListSortKey[] => [
+  postingEndedLastSortKey,
+  { expression: getPostingDistanceExpression(filter), direction: 'asc' },
+  { expression: 'posting.start_date', direction: 'asc' },
+  { expression: 'posting.start_time', direction: 'asc' },
+  { expression: 'posting.id', direction: 'asc' },
+];
+
+/**
+ * Reads a map viewport from `min_latitude`, `max_latitude`, `min_longitude` and `max_longitude`.
+ * A minimum longitude greater than the maximum describes a viewport crossing the antimeridian.
+ */
+export const parsePostingBoundsFilter = (query: Record<string, unknown>): PostingBoundsFilter | undefined => {
+  const minLatitude = parseOptionalNumberQueryParam(query.min_latitude);
+  const maxLatitude = parseOptionalNumberQueryParam(query.max_latitude);
+  const minLongitude = parseOptionalNumberQueryParam(query.min_longitude);
+  const maxLongitude = parseOptionalNumberQueryParam(query.max_longitude);
+
+  if (minLatitude === undefined || maxLatitude === undefined || minLongitude === undefined || maxLongitude === undefined) {
+    return undefined;
   }
 
-  if (endDateFilterKey && (!postingEndDateKey || postingEndDateKey > endDateFilterKey)) {
-    return false;
-  }
+  if (minLatitude > maxLatitude) return undefined;
 
-  if (startTimeFilterKey && (!postingStartTimeKey || postingStartTimeKey < startTimeFilterKey)) {
-    return false;
-  }
-
-  if (endTimeFilterKey && (!postingEndTimeKey || postingEndTimeKey > endTimeFilterKey)) {
-    return false;
-  }
-
-  return true;
+  return {
+    minLatitude: Math.max(minLatitude, -90),
+    maxLatitude: Math.min(maxLatitude, 90),
+    minLongitude: Math.max(minLongitude, -180),
+    maxLongitude: Math.min(maxLongitude, 180),
+  };
 };
 
-export const matchesPostingSearch = <T extends PostingSearchLike>(posting: T, search: string): boolean => {
-  if (!search) return true;
-
-  const terms = normalizeSearchTerms(search);
-
-  const searchableTokens = [
-    posting.title,
-    posting.description,
-    posting.location_name,
-    posting.organization_name ?? '',
-    ...posting.skills.map(skill => skill.name),
-  ].flatMap(tokenizeSearchField);
-
-  const searchableText = normalizeSearchText([
-    posting.title,
-    posting.description,
-    posting.location_name,
-    posting.organization_name ?? '',
-    ...posting.skills.map(skill => skill.name),
-  ].join(' '));
-
-  const normalizedSearchableText = searchableText.replace(/\s+/g, '');
-
-  return terms.every(term => (
-    searchableTokens.some(token => token.includes(term))
-    || normalizedSearchableText.includes(term)
-  ));
-};
-
-export const sortPostingsBySharedSort = <T extends PostingSortLike>(
-  postings: T[],
-  sortBy: SharedPostingSortBy,
-  sortDir: PostingSortDir,
-): T[] => [...postings].sort((left, right) => {
-  const endedCompare = comparePostingEndStatus(left, right);
-  if (endedCompare !== 0) {
-    return endedCompare;
-  }
-
-  switch (sortBy) {
-    case 'created_at':
-    {
-      const createdAtCompare = compareNullableKeys(
-        normalizeTimestampKey(left.created_at),
-        normalizeTimestampKey(right.created_at),
-        sortDir,
-      );
-
-      if (createdAtCompare !== 0) {
-        return createdAtCompare;
-      }
-
-      const leftId = left.id ?? 0;
-      const rightId = right.id ?? 0;
-      return sortDir === 'asc' ? leftId - rightId : rightId - leftId;
-    }
-    case 'title': {
-      return compareNullableKeys(
-        left.title ?? '',
-        right.title ?? '',
-        sortDir,
-      );
-    }
-    case 'start_date':
-    default: {
-      const dateCompare = compareNullableKeys(
-        normalizeDateKey(left.start_date),
-        normalizeDateKey(right.start_date),
-        sortDir,
-      );
-
-      if (dateCompare !== 0) {
-        return dateCompare;
-      }
-
-      return compareNullableKeys(
-        normalizeTimeKey(left.start_time),
-        normalizeTimeKey(right.start_time),
-        sortDir,
-      );
-    }
-  }
-});
-
-export const applyPostingEndedLastSort = <Q extends PostingQueryLike>(query: Q): Q => (
-  query.orderBy(endedLastOrderExpression, 'asc') as Q
-);
-
-export const applySharedPostingSort = <Q extends PostingQueryLike>(
-  query: Q,
+export const getSharedPostingSortKeys = (
   sortBy: SharedPostingSortBy,
   sortDir: PostingSortDir,
-): Q => {
-  const endedSortedQuery = applyPostingEndedLastSort(query);
-
+): ListSortKey[] => {
   switch (sortBy) {
     case 'created_at':
-      return endedSortedQuery
-        .orderBy('posting.created_at', sortDir)
-        .orderBy('posting.id', sortDir) as Q;
+      return [
+        postingEndedLastSortKey,
+        { expression: 'posting.created_at', direction: sortDir },
+        { expression: 'posting.id', direction: sortDir },
+      ];
     case 'title':
-      return endedSortedQuery
-        .orderBy('posting.title', sortDir)
-        .orderBy('posting.id', sortDir) as Q;
+      return [
+        postingEndedLastSortKey,
+        { expression: 'posting.title', direction: sortDir },
+        { expression: 'posting.id', direction: sortDir },
+      ];
     case 'start_date':
     default:
-      return endedSortedQuery
-        .orderBy('posting.start_date', sortDir)
-        .orderBy('posting.start_time', sortDir) as Q;
+      return [
+        postingEndedLastSortKey,
+        { expression: 'posting.start_date', direction: sortDir },
+        { expression: 'posting.start_time', direction: sortDir },
+        { expression: 'posting.id', direction: sortDir },
+      ];
   }
 };
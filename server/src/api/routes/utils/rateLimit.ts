@@ -13,6 +13,16 @@ export const createCertificateVerificationRateLimit = () => rateLimit({
   },
 });
 
+export const createGuardianConsentRateLimit = () => rateLimit({
+  windowMs: 5 * 60 * 1000,
+  max: 20,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    message: 'Too many attempts. Please try again later.',
+  },
+});
+
 export const createGlobalRateLimit = () => rateLimit({
   windowMs: 1000,
   max: 8,
@@ -0,0 +1,192 @@
+import supertest from 'supertest';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import createApp from '../../../app.ts';
+import database from '../../../db/index.ts';
+import { createOrganizationAccount, createVolunteerAccount } from '../../../tests/fixtures/accounts.ts';
+import { createPosting } from '../../../tests/fixtures/organizationData.ts';
+import { authHeader } from '../../../tests/helpers/authHeader.ts';
+
+import type { Database } from '../../../db/tables/index.ts';
+import type { ControlledTransaction } from 'kysely';
+import type TestAgent from 'supertest/lib/agent.js';
+
+let transaction: ControlledTransaction<Database>;
+let server: TestAgent;
+
+beforeEach(async () => {
+  transaction = await database.startTransaction().execute();
+  server = supertest(createApp(transaction));
+});
+
+afterEach(async () => {
+  await transaction.rollback().execute();
+});
+
+// 2030-06-03 is a Monday
+const MONDAY = '2030-06-03';
+const TUESDAY = '2030-06-04';
+
+const createFuturePosting = async (organizationId: number, title: string, date: string, startTime = '09:00', endTime = '12:00') =>
+  createPosting(transaction, {
+    organizationId,
+    title,
+    overrides: {
+      start_date: new Date(date),
+      end_date: new Date(date),
+      start_time: startTime,
+      end_time: endTime,
+    },
+  });
+
+describe('/volunteer/availability', () => {
+  test('starts empty and replaces windows and blackout dates', async () => {
+    const { token } = await createVolunteerAccount(transaction, { email: 'availability-crud@example.com' });
+
+    const emptyResponse = await server
+      .get('/volunteer/availability')
+      .set(authHeader(token))
+      .expect(200);
+    expect(emptyResponse.body).toEqual({ availability: { windows: [], blackout_dates: [] } });
+
+    await server
+      .put('/volunteer/availability')
+      .set(authHeader(token))
+      .send({
+        windows: [{ weekday: 1, start_time: '08:00', end_time: '13:00' }],
+        blackout_dates: ['2030-07-01'],
+      })
+      .expect(200);
+
+    const response = await server
+      .put('/volunteer/availability')
+      .set(authHeader(token))
+      .send({
+        windows: [
+          { weekday: 6, start_time: '10:00', end_time: '16:00' },
+          { weekday: 2, start_time: '18:00', end_time: '21:30' },
+        ],
+        blackout_dates: ['2030-08-15', '2030-08-01', '2030-08-15'],
+      })
+      .expect(200);
+
+    expect(response.body).toEqual({
+      availability: {
+        windows: [
+          { weekday: 2, start_time: '18:00', end_time: '21:30' },
+          { weekday: 6, start_time: '10:00', end_time: '16:00' },
+        ],
+        blackout_dates: ['2030-08-01', '2030-08-15'],
+      },
+    });
+  });
+
+  test('rejects windows that end before they start', async () => {
+    const { token } = await createVolunteerAccount(transaction, { email: 'availability-invalid@example.com' });
+
+    const response = await server
+      .put('/volunteer/availability')
+      .set(authHeader(token))
+      .send({
+        windows: [{ weekday: 1, start_time: '14:00', end_time: '09:00' }],
+        blackout_dates: [],
+      })
+      .expect(400);
+
+    expect(response.body.message).toContain('End time must be after start time');
+  });
+});
+
+describe('Volunteer schedule conflicts', () => {
+  test('blocks enrolling in an overlapping posting unless the volunteer confirms', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'conflict-org@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'conflict-vol@example.com' });
+    const morningShift = await createFuturePosting(organization.id, 'Morning Shift', MONDAY, '09:00', '12:00');
+    const overlappingShift = await createFuturePosting(organization.id, 'Late Morning Shift', MONDAY, '11:00', '14:00');
+
+    await server
+      .post(`/volunteer/posting/${morningShift.id}/enroll`)
+      .set(authHeader(token))
+      .send({})
+      .expect(200);
+
+    const postingResponse = await server
+      .get(`/volunteer/posting/${overlappingShift.id}`)
+      .set(authHeader(token))
+      .expect(200);
+    expect(postingResponse.body.schedule_conflicts).toEqual([
+      expect.objectContaining({ date: MONDAY, posting_id: morningShift.id, posting_title: 'Morning Shift' }),
+    ]);
+
+    const blockedResponse = await server
+      .post(`/volunteer/posting/${overlappingShift.id}/enroll`)
+      .set(authHeader(token))
+      .send({})
+      .expect(409);
+    expect(blockedResponse.body.message).toContain('Morning Shift');
+
+    await server
+      .post(`/volunteer/posting/${overlappingShift.id}/enroll`)
+      .set(authHeader(token))
+      .send({ ignore_schedule_conflicts: true })
+      .expect(200);
+  });
+
+  test('allows back-to-back postings on the same day', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'back-to-back-org@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'back-to-back-vol@example.com' });
+    const morningShift = await createFuturePosting(organization.id, 'Morning Shift', MONDAY, '09:00', '12:00');
+    const afternoonShift = await createFuturePosting(organization.id, 'Afternoon Shift', MONDAY, '12:00', '15:00');
+
+    await server
+      .post(`/volunteer/posting/${morningShift.id}/enroll`)
+      .set(authHeader(token))
+      .send({})
+      .expect(200);
+
+    await server
+      .post(`/volunteer/posting/${afternoonShift.id}/enroll`)
+      .set(authHeader(token))
+      .send({})
+      .expect(200);
+  });
+
+  test('hides postings the volunteer cannot attend when asked', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'hide-unavailable-org@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'hide-unavailable-vol@example.com' });
+    const mondayShift = await createFuturePosting(organization.id, 'Monday Shift', MONDAY);
+    const tuesdayShift = await createFuturePosting(organization.id, 'Tuesday Shift', TUESDAY);
+
+    await server
+      .put('/volunteer/availability')
+      .set(authHeader(token))
+      .send({
+        windows: [{ weekday: 1, start_time: '08:00', end_time: '13:00' }],
+        blackout_dates: [],
+      })
+      .expect(200);
+
+    const allResponse = await server
+      .get('/volunteer/posting')
+      .set(authHeader(token))
+      .expect(200);
+    expect(allResponse.body.postings.map((posting: { id: number }) => posting.id)).toEqual(
+      expect.arrayContaining([mondayShift.id, tuesdayShift.id]),
+    );
+
+    const availableResponse = await server
+      .get('/volunteer/posting')
+      .query({ hide_unavailable: 'true' })
+      .set(authHeader(token))
+      .expect(200);
+    const availableIds = availableResponse.body.postings.map((posting: { id: number }) => posting.id);
+    expect(availableIds).toContain(mondayShift.id);
+    expect(availableIds).not.toContain(tuesdayShift.id);
+
+    const tuesdayResponse = await server
+      .get(`/volunteer/posting/${tuesdayShift.id}`)
+      .set(authHeader(token))
+      .expect(200);
+    expect(tuesdayResponse.body.unavailable_dates).toEqual([TUESDAY]);
+  });
+});
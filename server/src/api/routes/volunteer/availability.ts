@@ -0,0 +1,32 @@
+import { Router, type Response } from 'express';
+import { type Kysely } from 'kysely';
+
+import { type VolunteerAvailabilityResponse } from './availability.types.ts';
+import executeTransaction from '../../../db/executeTransaction.ts';
+import { type Database, volunteerAvailabilitySchema } from '../../../db/tables/index.ts';
+import { getVolunteerAvailability, replaceVolunteerAvailability } from '../../../services/volunteer/availability.ts';
+
+function createVolunteerAvailabilityRouter(db: Kysely<Database>) {
+  const availabilityRouter = Router();
+
+  availabilityRouter.get('/', async (req, res: Response<VolunteerAvailabilityResponse>) => {
+    const availability = await getVolunteerAvailability(db, req.userJWT!.id);
+    res.json({ availability });
+  });
+
+  availabilityRouter.put('/', async (req, res: Response<VolunteerAvailabilityResponse>) => {
+    const body = volunteerAvailabilitySchema.parse(req.body);
+    const volunteerId = req.userJWT!.id;
+
+    await executeTransaction(db, async (trx) => {
+      await replaceVolunteerAvailability(trx, volunteerId, body);
+    });
+
+    const availability = await getVolunteerAvailability(db, volunteerId);
+    res.json({ availability });
+  });
+
+  return availabilityRouter;
+}
+
+export default createVolunteerAvailabilityRouter;
@@ -0,0 +1,5 @@
+import { type VolunteerAvailability } from '../../../db/tables/index.ts';
+
+export type VolunteerAvailabilityResponse = {
+  availability: VolunteerAvailability;
+};
@@ -5,12 +5,14 @@ import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 import createApp from '../../../app.ts';
 import database from '../../../db/index.ts';
 import { compare } from '../../../services/bcrypt/index.ts';
+import { getCertificateTokenHash } from '../../../services/certificates/ledger.ts';
 import * as embeddingUpdates from '../../../services/embeddings/updates.ts';
 import * as jwtService from '../../../services/jwt/index.ts';
 import * as emailService from '../../../services/resend/emails.ts';
+import { withSkillIds } from '../../../services/skills/index.ts';
 import * as volunteerService from '../../../services/volunteer/index.ts';
 import { createAdminAccount, createOrganizationAccount, createVolunteerAccount } from '../../../tests/fixtures/accounts.ts';
-import { createOrganizationRequest } from '../../../tests/fixtures/organizationData.ts';
+import { createOrganizationRequest, createPosting } from '../../../tests/fixtures/organizationData.ts';
 
 import type { Database } from '../../../db/tables/index.ts';
 import type { VolunteerProfileData } from '../../../services/volunteer/index.ts';
@@ -553,6 +555,59 @@ describe('GET /volunteer/me', () => {
   });
 });
 
+describe('/volunteer/home-location', () => {
+  test('returns null when no home location is saved', async () => {
+    const { token } = await createVolunteerAccount(transaction);
+
+    const response = await server
+      .get('/volunteer/home-location')
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    expect(response.body).toEqual({ home_location: null });
+  });
+
+  test('saves and clears the home location', async () => {
+    const { volunteer, token } = await createVolunteerAccount(transaction);
+    const homeLocation = { latitude: 33.8938, longitude: 35.5018, location_name: 'Beirut' };
+
+    await server
+      .put('/volunteer/home-location')
+      .set('Authorization', 'Bearer ' + token)
+      .send({ home_location: homeLocation })
+      .expect(200, { home_location: homeLocation });
+
+    await server
+      .get('/volunteer/home-location')
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200, { home_location: homeLocation });
+
+    await server
+      .put('/volunteer/home-location')
+      .set('Authorization', 'Bearer ' + token)
+      .send({ home_location: null })
+      .expect(200, { home_location: null });
+
+    const stored = await transaction
+      .selectFrom('volunteer_account')
+      .select(['home_latitude', 'home_longitude', 'home_location_name'])
+      .where('id', '=', volunteer.id)
+      .executeTakeFirstOrThrow();
+
+    expect(stored).toEqual({ home_latitude: null, home_longitude: null, home_location_name: null });
+  });
+
+  test('returns 400 for an invalid latitude', async () => {
+    const { token } = await createVolunteerAccount(transaction);
+
+    await server
+      .put('/volunteer/home-location')
+      .set('Authorization', 'Bearer ' + token)
+      .send({ home_location: { latitude: 120, longitude: 35.5, location_name: 'Nowhere' } })
+      .expect(400);
+  });
+});
+
 describe('GET /volunteer/profile', () => {
   test('returns 403 when unauthenticated', async () => {
     await server
@@ -881,6 +936,147 @@ describe('GET /volunteer/certificate', () => {
     });
   });
 
+  test('uses per-occurrence time overrides when computing certificate hours', async () => {
+    const { volunteer, token } = await createVolunteerAccount(transaction, { email: 'certificate-override@example.com' });
+    const { organization } = await createOrganizationAccount(transaction, { email: 'certificate-override-org@example.com' });
+
+    const posting = await transaction
+      .insertInto('posting')
+      .values({
+        organization_id: organization.id,
+        title: 'Weekly Food Bank',
+        description: 'Recurring shift',
+        latitude: 33.9,
+        longitude: 35.5,
+        max_volunteers: 10,
+        start_date: new Date('2026-03-01T00:00:00.000Z'),
+        start_time: '09:00:00',
+        end_date: new Date('2026-03-14T00:00:00.000Z'),
+        end_time: '12:00:00',
+        minimum_age: 18,
+        automatic_acceptance: true,
+        is_closed: false,
+        allows_partial_attendance: false,
+        recurrence_weekdays: [2, 6],
+        location_name: 'Beirut',
+        crisis_id: null,
+      })
+      .returning(['id'])
+      .executeTakeFirstOrThrow();
+
+    await transaction
+      .insertInto('posting_occurrence_override')
+      .values({
+        posting_id: posting.id,
+        date: new Date('2026-03-07T00:00:00.000Z'),
+        start_time: '10:00:00',
+        end_time: '16:00:00',
+      })
+      .execute();
+
+    const enrollment = await transaction
+      .insertInto('enrollment')
+      .values({
+        volunteer_id: volunteer.id,
+        posting_id: posting.id,
+        attended: true,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await transaction
+      .insertInto('enrollment_date')
+      .values([
+        {
+          enrollment_id: enrollment.id,
+          posting_id: posting.id,
+          date: new Date('2026-03-03T00:00:00.000Z'),
+          attended: true,
+        },
+        {
+          enrollment_id: enrollment.id,
+          posting_id: posting.id,
+          date: new Date('2026-03-07T00:00:00.000Z'),
+          attended: true,
+        },
+      ])
+      .execute();
+
+    const response = await server
+      .get('/volunteer/certificate')
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    expect(response.body.total_hours).toBe(9);
+  });
+
+  test('uses recorded check-in and check-out times instead of the schedule when computing certificate hours', async () => {
+    const { volunteer, token } = await createVolunteerAccount(transaction, { email: 'certificate-check-in@example.com' });
+    const { organization } = await createOrganizationAccount(transaction, { email: 'certificate-check-in-org@example.com' });
+
+    const posting = await transaction
+      .insertInto('posting')
+      .values({
+        organization_id: organization.id,
+        title: 'Shelter Night Shift',
+        description: 'Two evening shifts',
+        latitude: 33.9,
+        longitude: 35.5,
+        max_volunteers: 10,
+        start_date: new Date('2026-03-01T00:00:00.000Z'),
+        start_time: '18:00:00',
+        end_date: new Date('2026-03-02T00:00:00.000Z'),
+        end_time: '22:00:00',
+        minimum_age: 18,
+        automatic_acceptance: true,
+        is_closed: false,
+        allows_partial_attendance: false,
+        location_name: 'Beirut',
+        crisis_id: null,
+      })
+      .returning(['id'])
+      .executeTakeFirstOrThrow();
+
+    const enrollment = await transaction
+      .insertInto('enrollment')
+      .values({
+        volunteer_id: volunteer.id,
+        posting_id: posting.id,
+        attended: true,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await transaction
+      .insertInto('enrollment_date')
+      .values([
+        {
+          enrollment_id: enrollment.id,
+          posting_id: posting.id,
+          date: new Date('2026-03-01T00:00:00.000Z'),
+          attended: true,
+          checked_in_at: new Date('2026-03-01T18:15:00.000Z'),
+          checked_out_at: new Date('2026-03-01T20:45:00.000Z'),
+        },
+        {
+          enrollment_id: enrollment.id,
+          posting_id: posting.id,
+          date: new Date('2026-03-02T00:00:00.000Z'),
+          attended: true,
+          checked_in_at: new Date('2026-03-02T18:00:00.000Z'),
+          checked_out_at: null,
+        },
+      ])
+      .execute();
+
+    const response = await server
+      .get('/volunteer/certificate')
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    expect(response.body.total_hours).toBe(6.5);
+  });
+
   test('returns empty organizations and null platform certificate when no certificate data exists', async () => {
     const { volunteer, token } = await createVolunteerAccount(transaction, { email: 'certificate-empty@example.com' });
 
@@ -1300,6 +1496,154 @@ describe('POST /volunteer/certificate/issue', () => {
 
     expect(response.body.message).toBe(`Organization ${disabledOrg.id} cannot be included in this certificate.`);
   });
+
+  test('records the issued certificate and lists it in the volunteer history', async () => {
+    const { volunteer, token } = await createVolunteerAccount(transaction, { email: 'certificate-ledger@example.com' });
+    const { organization } = await createOrganizationAccount(transaction, { email: 'certificate-ledger-org@example.com' });
+
+    const posting = await createPosting(transaction, {
+      organizationId: organization.id,
+      overrides: {
+        start_date: new Date('2026-02-01T00:00:00.000Z'),
+        start_time: '09:00:00',
+        end_date: new Date('2026-02-01T00:00:00.000Z'),
+        end_time: '12:00:00',
+      },
+    });
+
+    const enrollment = await transaction
+      .insertInto('enrollment')
+      .values({
+        volunteer_id: volunteer.id,
+        posting_id: posting.id,
+        attended: true,
+        created_at: new Date('2026-02-01T00:00:00.000Z'),
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await transaction
+      .insertInto('enrollment_date')
+      .values({
+        enrollment_id: enrollment.id,
+        posting_id: posting.id,
+        date: new Date('2026-02-01T00:00:00.000Z'),
+        attended: true,
+      })
+      .execute();
+
+    const issueResponse = await server
+      .post('/volunteer/certificate/issue')
+      .set('Authorization', 'Bearer ' + token)
+      .send({ org_ids: [organization.id] })
+      .expect(200);
+
+    const ledgerEntry = await transaction
+      .selectFrom('issued_certificate')
+      .select(['volunteer_id', 'token_hash', 'total_hours', 'revoked_at'])
+      .where('volunteer_id', '=', volunteer.id)
+      .executeTakeFirstOrThrow();
+
+    expect(ledgerEntry).toEqual({
+      volunteer_id: volunteer.id,
+      token_hash: getCertificateTokenHash(issueResponse.body.verification_token),
+      total_hours: 3,
+      revoked_at: null,
+    });
+
+    const historyResponse = await server
+      .get('/volunteer/certificate/issued')
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    expect(historyResponse.body.certificates).toEqual([
+      expect.objectContaining({
+        volunteer_id: volunteer.id,
+        total_hours: 3,
+        revoked_at: null,
+        organizations: [{ id: organization.id, name: organization.name, hours: 3 }],
+      }),
+    ]);
+  });
+});
+
+describe('GET /volunteer/certificate/issued/:id/pdf', () => {
+  const issueCertificate = async (token: string, volunteerId: number, organizationId: number) => {
+    const posting = await createPosting(transaction, {
+      organizationId,
+      overrides: {
+        start_date: new Date('2026-02-01T00:00:00.000Z'),
+        start_time: '09:00:00',
+        end_date: new Date('2026-02-01T00:00:00.000Z'),
+        end_time: '12:00:00',
+      },
+    });
+
+    const enrollment = await transaction
+      .insertInto('enrollment')
+      .values({
+        volunteer_id: volunteerId,
+        posting_id: posting.id,
+        attended: true,
+        created_at: new Date('2026-02-01T00:00:00.000Z'),
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await transaction
+      .insertInto('enrollment_date')
+      .values({
+        enrollment_id: enrollment.id,
+        posting_id: posting.id,
+        date: new Date('2026-02-01T00:00:00.000Z'),
+        attended: true,
+      })
+      .execute();
+
+    const response = await server
+      .post('/volunteer/certificate/issue')
+      .set('Authorization', 'Bearer ' + token)
+      .send({ org_ids: [organizationId] })
+      .expect(200);
+
+    return response.body.certificate_id as number;
+  };
+
+  test('renders the same PDF bytes every time for a certificate', async () => {
+    const { volunteer, token } = await createVolunteerAccount(transaction, { email: 'certificate-pdf@example.com' });
+    const { organization } = await createOrganizationAccount(transaction, { email: 'certificate-pdf-org@example.com' });
+    const certificateId = await issueCertificate(token, volunteer.id, organization.id);
+
+    const firstResponse = await server
+      .get(`/volunteer/certificate/issued/${certificateId}/pdf`)
+      .set('Authorization', 'Bearer ' + token)
+      .responseType('blob')
+      .expect(200);
+
+    const secondResponse = await server
+      .get(`/volunteer/certificate/issued/${certificateId}/pdf`)
+      .set('Authorization', 'Bearer ' + token)
+      .responseType('blob')
+      .expect(200);
+
+    expect(firstResponse.headers['content-type']).toContain('application/pdf');
+    expect(firstResponse.body.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(Buffer.compare(firstResponse.body, secondResponse.body)).toBe(0);
+  });
+
+  test('does not render certificates of other volunteers', async () => {
+    const { volunteer, token } = await createVolunteerAccount(transaction, { email: 'certificate-pdf-owner@example.com' });
+    const { token: otherToken } = await createVolunteerAccount(transaction, { email: 'certificate-pdf-other@example.com' });
+    const { organization } = await createOrganizationAccount(transaction, { email: 'certificate-pdf-owner-org@example.com' });
+    const certificateId = await issueCertificate(token, volunteer.id, organization.id);
+
+    const response = await server
+      .get(`/volunteer/certificate/issued/${certificateId}/pdf`)
+      .set('Authorization', 'Bearer ' + otherToken)
+      .expect(404);
+
+    expect(response.body.message).toBe('Certificate not found');
+  });
 });
 
 describe('DELETE /volunteer/posting/:id/enroll withdrawal behavior', () => {
@@ -2347,7 +2691,7 @@ describe('PUT /volunteer/profile', () => {
 
     await transaction
       .insertInto('volunteer_skill')
-      .values({ volunteer_id: volunteer.id, name: 'First Aid' })
+      .values(await withSkillIds(transaction, [{ volunteer_id: volunteer.id, name: 'First Aid' }]))
       .execute();
 
     const recomputeProfileSpy = vi
@@ -2425,7 +2769,7 @@ describe('PUT /volunteer/profile', () => {
 
     await transaction
       .insertInto('volunteer_skill')
-      .values({ volunteer_id: volunteer.id, name: 'First Aid' })
+      .values(await withSkillIds(transaction, [{ volunteer_id: volunteer.id, name: 'First Aid' }]))
       .execute();
 
     const recomputeProfileSpy = vi
@@ -2487,10 +2831,10 @@ describe('PUT /volunteer/profile', () => {
 
     await transaction
       .insertInto('volunteer_skill')
-      .values([
+      .values(await withSkillIds(transaction, [
         { volunteer_id: volunteer.id, name: 'First Aid' },
         { volunteer_id: volunteer.id, name: 'Logistics' },
-      ])
+      ]))
       .execute();
 
     const recomputeProfileSpy = vi
@@ -2970,3 +3314,788 @@ describe('POST /volunteer/posting/:id/enroll ended posting validation', () => {
       .expect(200);
   });
 });
+
+describe('Volunteer posting waitlist', () => {
+  const createFullPosting = async (organizationId: number, allowsPartialAttendance: boolean) => {
+    const startDate = new Date();
+    startDate.setUTCHours(0, 0, 0, 0);
+    startDate.setUTCDate(startDate.getUTCDate() + 3);
+    const endDate = new Date(startDate);
+    endDate.setUTCDate(endDate.getUTCDate() + 2);
+
+    const posting = await transaction
+      .insertInto('posting')
+      .values({
+        organization_id: organizationId,
+        title: 'Waitlist Posting',
+        description: 'Only one seat available',
+        latitude: 33.9,
+        longitude: 35.5,
+        max_volunteers: 1,
+        start_date: startDate,
+        start_time: '09:00:00',
+        end_date: endDate,
+        end_time: '17:00:00',
+        minimum_age: 18,
+        automatic_acceptance: true,
+        is_closed: false,
+        allows_partial_attendance: allowsPartialAttendance,
+        location_name: 'Test Location',
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    return { posting, firstDate: formatDateToIso(startDate), lastDate: formatDateToIso(endDate) };
+  };
+
+  test('promotes the first waitlisted volunteer when an enrolled volunteer withdraws', async () => {
+    const promotedEmailSpy = vi.spyOn(emailService, 'sendVolunteerWaitlistPromotedEmail').mockResolvedValue(undefined);
+    const { organization } = await createOrganizationAccount(transaction, { email: 'waitlist-org@example.com' });
+    const { token: enrolledToken } = await createVolunteerAccount(transaction, { email: 'waitlist-enrolled@example.com' });
+    const { volunteer: firstWaiting, token: firstWaitingToken } = await createVolunteerAccount(transaction, { email: 'waitlist-first@example.com' });
+    const { token: secondWaitingToken } = await createVolunteerAccount(transaction, { email: 'waitlist-second@example.com' });
+    const { posting } = await createFullPosting(organization.id, false);
+
+    await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + enrolledToken)
+      .send({})
+      .expect(200);
+
+    const firstJoinResponse = await server
+      .post(`/volunteer/posting/${posting.id}/waitlist`)
+      .set('Authorization', 'Bearer ' + firstWaitingToken)
+      .send({ message: 'Happy to step in' })
+      .expect(200);
+
+    const secondJoinResponse = await server
+      .post(`/volunteer/posting/${posting.id}/waitlist`)
+      .set('Authorization', 'Bearer ' + secondWaitingToken)
+      .send({})
+      .expect(200);
+
+    expect(firstJoinResponse.body.waitlist.position).toBe(1);
+    expect(secondJoinResponse.body.waitlist.position).toBe(2);
+
+    await server
+      .delete(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + enrolledToken)
+      .expect(200);
+
+    const promotedEnrollment = await transaction
+      .selectFrom('enrollment')
+      .select(['volunteer_id', 'message'])
+      .where('posting_id', '=', posting.id)
+      .execute();
+
+    expect(promotedEnrollment).toEqual([{ volunteer_id: firstWaiting.id, message: 'Happy to step in' }]);
+    expect(promotedEmailSpy).toHaveBeenCalledTimes(1);
+    expect(promotedEmailSpy).toHaveBeenCalledWith(expect.objectContaining({
+      volunteerEmail: 'waitlist-first@example.com',
+      isEnrolled: true,
+    }));
+
+    const secondPostingResponse = await server
+      .get(`/volunteer/posting/${posting.id}`)
+      .set('Authorization', 'Bearer ' + secondWaitingToken)
+      .expect(200);
+
+    expect(secondPostingResponse.body.waitlist.position).toBe(1);
+
+    promotedEmailSpy.mockRestore();
+  });
+
+  test('promotes waitlisted volunteers per date on partial attendance postings', async () => {
+    const promotedEmailSpy = vi.spyOn(emailService, 'sendVolunteerWaitlistPromotedEmail').mockResolvedValue(undefined);
+    const { organization } = await createOrganizationAccount(transaction, { email: 'waitlist-partial-org@example.com' });
+    const { token: enrolledToken } = await createVolunteerAccount(transaction, { email: 'waitlist-partial-enrolled@example.com' });
+    const { volunteer: waitingVolunteer, token: waitingToken } = await createVolunteerAccount(transaction, { email: 'waitlist-partial-waiting@example.com' });
+    const { posting, firstDate, lastDate } = await createFullPosting(organization.id, true);
+
+    await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + enrolledToken)
+      .send({ dates: [firstDate, lastDate] })
+      .expect(200);
+
+    const joinResponse = await server
+      .post(`/volunteer/posting/${posting.id}/waitlist`)
+      .set('Authorization', 'Bearer ' + waitingToken)
+      .send({ dates: [firstDate, lastDate] })
+      .expect(200);
+
+    expect(joinResponse.body.waitlist).toEqual(expect.objectContaining({
+      position: null,
+      dates: [
+        { date: firstDate, position: 1 },
+        { date: lastDate, position: 1 },
+      ],
+    }));
+
+    await server
+      .delete(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + enrolledToken)
+      .expect(200);
+
+    const promotedDates = await transaction
+      .selectFrom('enrollment_date')
+      .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
+      .select(sql<string>`to_char(enrollment_date.date, 'YYYY-MM-DD')`.as('date'))
+      .where('enrollment.posting_id', '=', posting.id)
+      .where('enrollment.volunteer_id', '=', waitingVolunteer.id)
+      .orderBy('enrollment_date.date')
+      .execute();
+
+    expect(promotedDates.map(row => row.date)).toEqual([firstDate, lastDate]);
+
+    const remainingEntries = await transaction
+      .selectFrom('waitlist_entry')
+      .select('id')
+      .where('posting_id', '=', posting.id)
+      .execute();
+
+    expect(remainingEntries).toEqual([]);
+
+    promotedEmailSpy.mockRestore();
+  });
+
+  test('never promotes more applicants than freed seats on review postings', async () => {
+    const promotedEmailSpy = vi.spyOn(emailService, 'sendVolunteerWaitlistPromotedEmail').mockResolvedValue(undefined);
+    const { organization } = await createOrganizationAccount(transaction, { email: 'waitlist-review-org@example.com' });
+    const { token: firstEnrolledToken } = await createVolunteerAccount(transaction, { email: 'waitlist-review-enrolled-1@example.com' });
+    const { token: secondEnrolledToken } = await createVolunteerAccount(transaction, { email: 'waitlist-review-enrolled-2@example.com' });
+    const waitingVolunteers = [
+      await createVolunteerAccount(transaction, { email: 'waitlist-review-waiting-1@example.com' }),
+      await createVolunteerAccount(transaction, { email: 'waitlist-review-waiting-2@example.com' }),
+      await createVolunteerAccount(transaction, { email: 'waitlist-review-waiting-3@example.com' }),
+    ];
+    const { posting } = await createFullPosting(organization.id, false);
+
+    await transaction
+      .updateTable('posting')
+      .set({ max_volunteers: 2 })
+      .where('id', '=', posting.id)
+      .execute();
+
+    for (const token of [firstEnrolledToken, secondEnrolledToken]) {
+      await server
+        .post(`/volunteer/posting/${posting.id}/enroll`)
+        .set('Authorization', 'Bearer ' + token)
+        .send({})
+        .expect(200);
+    }
+
+    await transaction
+      .updateTable('posting')
+      .set({ automatic_acceptance: false })
+      .where('id', '=', posting.id)
+      .execute();
+
+    for (const { token } of waitingVolunteers) {
+      await server
+        .post(`/volunteer/posting/${posting.id}/waitlist`)
+        .set('Authorization', 'Bearer ' + token)
+        .send({})
+        .expect(200);
+    }
+
+    for (const token of [firstEnrolledToken, secondEnrolledToken]) {
+      await server
+        .delete(`/volunteer/posting/${posting.id}/enroll`)
+        .set('Authorization', 'Bearer ' + token)
+        .expect(200);
+    }
+
+    const applications = await transaction
+      .selectFrom('enrollment_application')
+      .select('volunteer_id')
+      .where('posting_id', '=', posting.id)
+      .orderBy('volunteer_id')
+      .execute();
+
+    expect(applications).toEqual([
+      { volunteer_id: waitingVolunteers[0]!.volunteer.id },
+      { volunteer_id: waitingVolunteers[1]!.volunteer.id },
+    ]);
+
+    const remainingEntries = await transaction
+      .selectFrom('waitlist_entry')
+      .select('volunteer_id')
+      .where('posting_id', '=', posting.id)
+      .execute();
+
+    expect(remainingEntries).toEqual([{ volunteer_id: waitingVolunteers[2]!.volunteer.id }]);
+
+    promotedEmailSpy.mockRestore();
+  });
+
+  test('returns 409 when joining the waitlist of a posting with open spots', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'waitlist-open-org@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'waitlist-open-vol@example.com' });
+    const { posting } = await createFullPosting(organization.id, false);
+
+    const response = await server
+      .post(`/volunteer/posting/${posting.id}/waitlist`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({})
+      .expect(409);
+
+    expect(response.body.message).toBe('This posting still has open spots');
+  });
+
+  test('removes the volunteer from the waitlist', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'waitlist-leave-org@example.com' });
+    const { token: enrolledToken } = await createVolunteerAccount(transaction, { email: 'waitlist-leave-enrolled@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'waitlist-leave-vol@example.com' });
+    const { posting } = await createFullPosting(organization.id, false);
+
+    await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + enrolledToken)
+      .send({})
+      .expect(200);
+
+    await server
+      .post(`/volunteer/posting/${posting.id}/waitlist`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({})
+      .expect(200);
+
+    await server
+      .delete(`/volunteer/posting/${posting.id}/waitlist`)
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    const postingResponse = await server
+      .get(`/volunteer/posting/${posting.id}`)
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    expect(postingResponse.body.waitlist).toBeNull();
+  });
+});
+
+describe('Volunteer posting roles', () => {
+  const createRolePosting = async (organizationId: number) => {
+    const startDate = new Date();
+    startDate.setUTCHours(0, 0, 0, 0);
+    startDate.setUTCDate(startDate.getUTCDate() + 3);
+
+    const posting = await transaction
+      .insertInto('posting')
+      .values({
+        organization_id: organizationId,
+        title: 'Role Posting',
+        description: 'Drivers and cooks',
+        latitude: 33.9,
+        longitude: 35.5,
+        max_volunteers: 3,
+        start_date: startDate,
+        start_time: '09:00:00',
+        end_date: startDate,
+        end_time: '17:00:00',
+        minimum_age: 18,
+        automatic_acceptance: true,
+        is_closed: false,
+        allows_partial_attendance: false,
+        location_name: 'Test Location',
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    const [driverRole, cookRole] = await transaction
+      .insertInto('posting_role')
+      .values([
+        { posting_id: posting.id, name: 'Driver', max_volunteers: 1, minimum_age: 40 },
+        { posting_id: posting.id, name: 'Cook', max_volunteers: 2, minimum_age: null },
+      ])
+      .returningAll()
+      .execute();
+
+    return { posting, driverRole: driverRole!, cookRole: cookRole! };
+  };
+
+  test('requires a role of the posting when enrolling', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'roles-required-org@example.com' });
+    const { volunteer, token } = await createVolunteerAccount(transaction, { email: 'roles-required-vol@example.com' });
+    const { posting, cookRole } = await createRolePosting(organization.id);
+
+    const missingRoleResponse = await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({})
+      .expect(400);
+
+    expect(missingRoleResponse.body.message).toBe('Select a role to apply for this posting');
+
+    await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({ role_id: cookRole.id })
+      .expect(200);
+
+    const enrollment = await transaction
+      .selectFrom('enrollment')
+      .select(['volunteer_id', 'role_id'])
+      .where('posting_id', '=', posting.id)
+      .executeTakeFirstOrThrow();
+
+    expect(enrollment).toEqual({ volunteer_id: volunteer.id, role_id: cookRole.id });
+
+    const postingResponse = await server
+      .get(`/volunteer/posting/${posting.id}`)
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    expect(postingResponse.body.selected_role_id).toBe(cookRole.id);
+    expect(postingResponse.body.posting.roles).toEqual([
+      expect.objectContaining({ name: 'Driver', enrollment_count: 0 }),
+      expect.objectContaining({ name: 'Cook', enrollment_count: 1 }),
+    ]);
+  });
+
+  test('applies the role minimum age on top of the posting minimum age', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'roles-age-org@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'roles-age-vol@example.com' });
+    const { posting, driverRole } = await createRolePosting(organization.id);
+
+    const response = await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({ role_id: driverRole.id })
+      .expect(403);
+
+    expect(response.body.message).toBe('You must be at least 40 years old to apply for the Driver role');
+  });
+
+  test('checks capacity per role', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'roles-capacity-org@example.com' });
+    const { volunteer: driver } = await createVolunteerAccount(transaction, { email: 'roles-capacity-driver@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'roles-capacity-vol@example.com' });
+    const { posting, driverRole, cookRole } = await createRolePosting(organization.id);
+
+    await transaction
+      .insertInto('enrollment')
+      .values({ volunteer_id: driver.id, posting_id: posting.id, role_id: driverRole.id, message: null, attended: false })
+      .execute();
+    await transaction
+      .updateTable('posting_role')
+      .set({ minimum_age: null })
+      .where('id', '=', driverRole.id)
+      .execute();
+
+    const fullRoleResponse = await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({ role_id: driverRole.id })
+      .expect(403);
+
+    expect(fullRoleResponse.body.message).toBe('The Driver role has reached the maximum number of volunteers');
+
+    const waitlistResponse = await server
+      .post(`/volunteer/posting/${posting.id}/waitlist`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({ role_id: cookRole.id })
+      .expect(409);
+
+    expect(waitlistResponse.body.message).toBe('The Cook role still has open spots');
+
+    await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({ role_id: cookRole.id })
+      .expect(200);
+  });
+});
+
+describe('Volunteer enrollments list', () => {
+  test('pages through enrolled and pending postings', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'enrollments-page-org@example.com' });
+    const { volunteer, token } = await createVolunteerAccount(transaction, { email: 'enrollments-page-vol@example.com' });
+    const first = await createPosting(transaction, { organizationId: organization.id, title: 'A Enrolled Posting' });
+    const second = await createPosting(transaction, { organizationId: organization.id, title: 'B Pending Posting' });
+    const third = await createPosting(transaction, { organizationId: organization.id, title: 'C Enrolled Posting' });
+    await createPosting(transaction, { organizationId: organization.id, title: 'D Unrelated Posting' });
+
+    await transaction
+      .insertInto('enrollment')
+      .values([first, third].map(posting => ({ volunteer_id: volunteer.id, posting_id: posting.id, attended: false })))
+      .execute();
+    await transaction
+      .insertInto('enrollment_application')
+      .values({ volunteer_id: volunteer.id, posting_id: second.id, message: null })
+      .execute();
+
+    const firstPage = await server
+      .get('/volunteer/posting/enrollments')
+      .query({ sortBy: 'title', sortDir: 'asc', limit: 2 })
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    expect(firstPage.body.postings.map((posting: { id: number; application_status: string }) => [posting.id, posting.application_status]))
+      .toEqual([[first.id, 'registered'], [second.id, 'pending']]);
+    expect(firstPage.body.next_cursor).toEqual(expect.any(String));
+
+    const secondPage = await server
+      .get('/volunteer/posting/enrollments')
+      .query({ sortBy: 'title', sortDir: 'asc', limit: 2, cursor: firstPage.body.next_cursor })
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    expect(secondPage.body.postings.map((posting: { id: number }) => posting.id)).toEqual([third.id]);
+    expect(secondPage.body.next_cursor).toBeNull();
+  });
+});
+
+describe('Volunteer posting bookmarks', () => {
+  test('bookmarks a posting once and lists it under saved postings', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'bookmark-org@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'bookmark-vol@example.com' });
+    const { token: otherToken } = await createVolunteerAccount(transaction, { email: 'bookmark-other@example.com' });
+    const posting = await createPosting(transaction, { organizationId: organization.id, title: 'Bookmarked Posting' });
+
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      const bookmarkResponse = await server
+        .post(`/volunteer/posting/${posting.id}/bookmark`)
+        .set('Authorization', 'Bearer ' + token)
+        .expect(200);
+      expect(bookmarkResponse.body).toEqual({ is_bookmarked: true });
+    }
+
+    const listResponse = await server
+      .get('/volunteer/posting/bookmarks')
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+    expect(listResponse.body.postings.map((saved: { id: number }) => saved.id)).toEqual([posting.id]);
+
+    const otherListResponse = await server
+      .get('/volunteer/posting/bookmarks')
+      .set('Authorization', 'Bearer ' + otherToken)
+      .expect(200);
+    expect(otherListResponse.body.postings).toEqual([]);
+
+    const postingResponse = await server
+      .get(`/volunteer/posting/${posting.id}`)
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+    expect(postingResponse.body.is_bookmarked).toBe(true);
+
+    await server
+      .delete(`/volunteer/posting/${posting.id}/bookmark`)
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    const emptyListResponse = await server
+      .get('/volunteer/posting/bookmarks')
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+    expect(emptyListResponse.body.postings).toEqual([]);
+  });
+
+  test('returns 404 when bookmarking a missing posting', async () => {
+    const { token } = await createVolunteerAccount(transaction, { email: 'bookmark-missing@example.com' });
+
+    await server
+      .post('/volunteer/posting/999999/bookmark')
+      .set('Authorization', 'Bearer ' + token)
+      .expect(404);
+  });
+});
+
+describe('Volunteer application questions', () => {
+  const createQuestionPosting = async (organizationId: number, automaticAcceptance: boolean) => {
+    const posting = await createPosting(transaction, {
+      organizationId,
+      title: 'Screened Posting',
+      overrides: {
+        automatic_acceptance: automaticAcceptance,
+        start_date: new Date('2027-05-01T00:00:00.000Z'),
+        end_date: new Date('2027-05-01T00:00:00.000Z'),
+      },
+    });
+
+    const [experienceQuestion, shiftQuestion, carQuestion] = await transaction
+      .insertInto('posting_question')
+      .values([
+        { posting_id: posting.id, position: 0, prompt: 'Describe your experience', type: 'short_text', is_required: true },
+        { posting_id: posting.id, position: 1, prompt: 'Preferred shift', type: 'multiple_choice', options: JSON.stringify(['Morning', 'Evening']), is_required: true },
+        { posting_id: posting.id, position: 2, prompt: 'Do you have a car?', type: 'yes_no', is_required: false },
+      ])
+      .returningAll()
+      .execute();
+
+    return { posting, experienceQuestion: experienceQuestion!, shiftQuestion: shiftQuestion!, carQuestion: carQuestion! };
+  };
+
+  test('validates answers and stores them with the application', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'questions-org@example.com' });
+    const { volunteer, token } = await createVolunteerAccount(transaction, { email: 'questions-vol@example.com' });
+    const { posting, experienceQuestion, shiftQuestion, carQuestion } = await createQuestionPosting(organization.id, false);
+
+    const postingResponse = await server
+      .get(`/volunteer/posting/${posting.id}`)
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    expect(postingResponse.body.questions).toEqual([
+      expect.objectContaining({ id: experienceQuestion.id, type: 'short_text', is_required: true }),
+      expect.objectContaining({ id: shiftQuestion.id, type: 'multiple_choice', options: ['Morning', 'Evening'] }),
+      expect.objectContaining({ id: carQuestion.id, type: 'yes_no', is_required: false }),
+    ]);
+
+    const missingAnswerResponse = await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({ answers: [{ question_id: shiftQuestion.id, answer: 'Morning' }] })
+      .expect(400);
+
+    expect(missingAnswerResponse.body.message).toBe('Please answer "Describe your experience"');
+
+    const invalidChoiceResponse = await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({
+        answers: [
+          { question_id: experienceQuestion.id, answer: 'Two years of first aid' },
+          { question_id: shiftQuestion.id, answer: 'Night' },
+        ],
+      })
+      .expect(400);
+
+    expect(invalidChoiceResponse.body.message).toBe('Pick one of the options for "Preferred shift"');
+
+    await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({
+        answers: [
+          { question_id: experienceQuestion.id, answer: '  Two years of first aid  ' },
+          { question_id: shiftQuestion.id, answer: 'Evening' },
+          { question_id: carQuestion.id, answer: '' },
+        ],
+      })
+      .expect(200);
+
+    const application = await transaction
+      .selectFrom('enrollment_application')
+      .select('answers')
+      .where('posting_id', '=', posting.id)
+      .where('volunteer_id', '=', volunteer.id)
+      .executeTakeFirstOrThrow();
+
+    expect(application.answers).toEqual([
+      { question_id: experienceQuestion.id, prompt: 'Describe your experience', type: 'short_text', answer: 'Two years of first aid' },
+      { question_id: shiftQuestion.id, prompt: 'Preferred shift', type: 'multiple_choice', answer: 'Evening' },
+    ]);
+  });
+
+  test('rejects answers to questions of another posting', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'questions-other-org@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'questions-other-vol@example.com' });
+    const { posting, experienceQuestion, shiftQuestion } = await createQuestionPosting(organization.id, false);
+    const { carQuestion: otherPostingQuestion } = await createQuestionPosting(organization.id, false);
+
+    const response = await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({
+        answers: [
+          { question_id: experienceQuestion.id, answer: 'Some' },
+          { question_id: shiftQuestion.id, answer: 'Morning' },
+          { question_id: otherPostingQuestion.id, answer: 'yes' },
+        ],
+      })
+      .expect(400);
+
+    expect(response.body.message).toBe('Answer does not match a question of this posting');
+  });
+
+  test('skips the questions of open postings', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'questions-open-org@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'questions-open-vol@example.com' });
+    const { posting } = await createQuestionPosting(organization.id, true);
+
+    const postingResponse = await server
+      .get(`/volunteer/posting/${posting.id}`)
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    expect(postingResponse.body.questions).toEqual([]);
+
+    await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({})
+      .expect(200);
+  });
+});
+
+describe('Volunteer guardian consent', () => {
+  const minorDateOfBirth = () => {
+    const date = new Date();
+    return `${date.getUTCFullYear() - 16}-01-01`;
+  };
+
+  const createConsentPosting = async (organizationId: number, automaticAcceptance: boolean) => {
+    const posting = await createPosting(transaction, {
+      organizationId,
+      title: 'Beach Cleanup',
+      overrides: {
+        automatic_acceptance: automaticAcceptance,
+        start_date: new Date('2027-05-01T00:00:00.000Z'),
+        end_date: new Date('2027-05-01T00:00:00.000Z'),
+      },
+    });
+
+    return transaction
+      .updateTable('posting')
+      .set({ minimum_age: null, requires_guardian_consent: true })
+      .where('id', '=', posting.id)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  };
+
+  const createMinorVolunteer = async (email: string) => {
+    const account = await createVolunteerAccount(transaction, { email });
+    await transaction
+      .updateTable('volunteer_account')
+      .set({ date_of_birth: minorDateOfBirth() })
+      .where('id', '=', account.volunteer.id)
+      .execute();
+    return account;
+  };
+
+  test('asks minors for a guardian email and holds their enrollment until the guardian answers', async () => {
+    const sendGuardianConsentRequestEmailSpy = vi
+      .spyOn(emailService, 'sendGuardianConsentRequestEmail')
+      .mockResolvedValue(undefined);
+
+    const { organization } = await createOrganizationAccount(transaction, { email: 'consent-org@example.com' });
+    const { volunteer, token } = await createMinorVolunteer('consent-minor@example.com');
+    const posting = await createConsentPosting(organization.id, true);
+
+    const beforeResponse = await server
+      .get(`/volunteer/posting/${posting.id}`)
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    expect(beforeResponse.body.needs_guardian_consent).toBe(true);
+    expect(beforeResponse.body.guardian_consent).toBeNull();
+
+    const missingEmailResponse = await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({})
+      .expect(400);
+
+    expect(missingEmailResponse.body.message).toContain('consent from a parent or guardian');
+
+    await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({ guardian_email: 'consent-minor@example.com' })
+      .expect(400);
+
+    const response = await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({ guardian_email: 'Parent@Example.com' })
+      .expect(200);
+
+    expect(response.body.isOpen).toBe(false);
+    expect(response.body.guardian_consent).toMatchObject({ status: 'pending', guardian_email: 'parent@example.com' });
+    expect(sendGuardianConsentRequestEmailSpy).toHaveBeenCalledWith(expect.objectContaining({
+      guardianEmail: 'parent@example.com',
+      postingTitle: 'Beach Cleanup',
+      consentToken: expect.any(String),
+    }));
+
+    const enrollment = await transaction
+      .selectFrom('enrollment')
+      .select('id')
+      .where('posting_id', '=', posting.id)
+      .where('volunteer_id', '=', volunteer.id)
+      .executeTakeFirst();
+    expect(enrollment).toBeUndefined();
+
+    const postingResponse = await server
+      .get(`/volunteer/posting/${posting.id}`)
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    expect(postingResponse.body.guardian_consent).toMatchObject({ status: 'pending' });
+  });
+
+  test('enrolls adults without asking for consent', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'consent-adult-org@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'consent-adult@example.com' });
+    const posting = await createConsentPosting(organization.id, true);
+
+    const response = await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({})
+      .expect(200);
+
+    expect(response.body.isOpen).toBe(true);
+    expect(response.body.guardian_consent).toBeNull();
+  });
+
+  test('cancels the pending request when the volunteer withdraws', async () => {
+    vi.spyOn(emailService, 'sendGuardianConsentRequestEmail').mockResolvedValue(undefined);
+
+    const { organization } = await createOrganizationAccount(transaction, { email: 'consent-withdraw-org@example.com' });
+    const { volunteer, token } = await createMinorVolunteer('consent-withdraw@example.com');
+    const posting = await createConsentPosting(organization.id, false);
+
+    await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({ guardian_email: 'parent@example.com' })
+      .expect(200);
+
+    await server
+      .delete(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .expect(200);
+
+    const consent = await transaction
+      .selectFrom('guardian_consent')
+      .select('status')
+      .where('posting_id', '=', posting.id)
+      .where('volunteer_id', '=', volunteer.id)
+      .executeTakeFirstOrThrow();
+
+    expect(consent.status).toBe('cancelled');
+  });
+
+  test('stops organizations from accepting before the guardian approves', async () => {
+    vi.spyOn(emailService, 'sendGuardianConsentRequestEmail').mockResolvedValue(undefined);
+
+    const { organization, token: organizationToken } = await createOrganizationAccount(transaction, { email: 'consent-accept-org@example.com' });
+    const { volunteer, token } = await createMinorVolunteer('consent-accept@example.com');
+    const posting = await createConsentPosting(organization.id, false);
+
+    const enrollResponse = await server
+      .post(`/volunteer/posting/${posting.id}/enroll`)
+      .set('Authorization', 'Bearer ' + token)
+      .send({ guardian_email: 'parent@example.com' })
+      .expect(200);
+
+    const applicationsResponse = await server
+      .get(`/organization/posting/${posting.id}/applications`)
+      .set('Authorization', 'Bearer ' + organizationToken)
+      .expect(200);
+
+    expect(applicationsResponse.body.applications).toEqual([
+      expect.objectContaining({ volunteer_id: volunteer.id, guardian_consent: expect.objectContaining({ status: 'pending' }) }),
+    ]);
+
+    const acceptResponse = await server
+      .post(`/organization/posting/${posting.id}/applications/${enrollResponse.body.enrollment.id}/accept`)
+      .set('Authorization', 'Bearer ' + organizationToken)
+      .expect(403);
+
+    expect(acceptResponse.body.message).toBe('This volunteer is still waiting for consent from a parent or guardian');
+  });
+});
@@ -5,12 +5,15 @@ import { Router, type Response } from 'express';
 import { sql, type Kysely } from 'kysely';
 import zod from 'zod';
 
+import createVolunteerAvailabilityRouter from './availability.ts';
 import createVolunteerCvRouter from './cv.ts';
 import {
   type VolunteerCertificateIssueResponse,
+  type VolunteerIssuedCertificatesResponse,
   type VolunteerCrisisResponse,
   type VolunteerCrisesResponse,
   type VolunteerCreateResponse,
+  type VolunteerHomeLocationResponse,
   type VolunteerCertificateResponse,
   type VolunteerMeResponse,
   type VolunteerOrganizationSearchResponse,
@@ -20,21 +23,41 @@ import {
   type VolunteerResendVerificationResponse,
   type VolunteerVerifyEmailResponse,
 } from './index.types.ts';
+import createVolunteerMessagesRouter from './messages.ts';
+import createVolunteerOrganizationFollowsRouter from './organizationFollows.ts';
 import createVolunteerPostingRouter from './posting.ts';
+import createVolunteerSavedSearchesRouter from './savedSearches.ts';
 import authorizeOnly from '../../../auth/authorizeOnly.ts';
 import createResetPassword from '../../../auth/resetPassword.ts';
 import config from '../../../config.ts';
 import executeTransaction from '../../../db/executeTransaction.ts';
-import { type Database, type VolunteerAccountWithoutPassword, newVolunteerAccountSchema, newOrganizationReportSchema, volunteerAccountSchema } from '../../../db/tables/index.ts';
+import { type Database, type VolunteerAccountWithoutPassword, newVolunteerAccountSchema, newOrganizationReportSchema, volunteerAccountSchema, volunteerHomeLocationSchema } from '../../../db/tables/index.ts';
 import { emailSchema } from '../../../schemas/index.ts';
-import { CERTIFICATE_PAYLOAD_VERSION, CERTIFICATE_TYPE, signCertificateVerificationPayload } from '../../../services/certificates/token.ts';
+import { getActiveCertificateSigningKey } from '../../../services/certificates/keyring.ts';
+import {
+  getCertificateTokenHash,
+  getIssuedCertificatePayload,
+  getIssuedCertificates,
+  recordIssuedCertificate,
+} from '../../../services/certificates/ledger.ts';
+import { renderCertificatePdf } from '../../../services/certificates/pdf.ts';
+import {
+  CERTIFICATE_PAYLOAD_VERSION,
+  CERTIFICATE_TYPE,
+  signCertificateVerificationPayload,
+  signLegacyCertificateVerificationPayload,
+} from '../../../services/certificates/token.ts';
 import {
   recomputeVolunteerExperienceVector,
   recomputeVolunteerProfileVector,
 } from '../../../services/embeddings/updates.ts';
 import { generateJWT } from '../../../services/jwt/index.ts';
+import { enrollmentDateHoursExpression } from '../../../services/posting/postingSchedule.ts';
 import { sendVolunteerVerificationEmail } from '../../../services/resend/emails.ts';
+import { normalizeSkillName, resolveSkills } from '../../../services/skills/index.ts';
+import { buildTextSearchQuery, getTextSearchRank, matchesTextSearch } from '../../../services/textSearch/index.ts';
 import { getVolunteerProfile } from '../../../services/volunteer/index.ts';
+import { applyListPage, parseListPage, toListPageResult, type ListSortKey } from '../utils/listQuery.ts';
 import { normalizeSearchTerms } from '../utils/postingList.js';
 import { canRecomputeProfileVector } from '../utils/rateLimit.ts';
 
@@ -56,6 +79,9 @@ const volunteerProfileUserUpdateSchema = volunteerAccountSchema.omit({
   password: true,
   email: true,
   date_of_birth: true,
+  home_latitude: true,
+  home_longitude: true,
+  home_location_name: true,
   volunteer_profile_vector: true,
   volunteer_history_vector: true,
   created_at: true,
@@ -66,8 +92,28 @@ const volunteerProfileUpdateSchema = volunteerProfileUserUpdateSchema.extend({
   skills: zod.array(zod.string().trim().min(1, 'Skill cannot be empty')).optional(),
 });
 
+const volunteerHomeLocationUpdateSchema = zod.object({
+  home_location: volunteerHomeLocationSchema.nullable(),
+});
+
+const toVolunteerHomeLocation = (volunteer: {
+  home_latitude: number | null;
+  home_longitude: number | null;
+  home_location_name: string | null;
+}) => {
+  if (volunteer.home_latitude === null || volunteer.home_longitude === null || volunteer.home_location_name === null) {
+    return null;
+  }
+
+  return {
+    latitude: volunteer.home_latitude,
+    longitude: volunteer.home_longitude,
+    location_name: volunteer.home_location_name,
+  };
+};
+
 const normalizeSkillList = (skills: string[]) =>
-  Array.from(new Set(skills.map(skill => skill.trim()).filter(Boolean))).sort();
+  Array.from(new Set(skills.map(normalizeSkillName).filter(Boolean))).sort();
 
 const volunteerCertificateIssueSchema = zod.object({
   org_ids: zod.array(zod.coerce.number().int().positive()).max(4).default([]),
@@ -102,7 +148,7 @@ function createVolunteerRouter(db: Kysely<Database>) {
   volunteerRouter.post('/create', async (req, res: Response<VolunteerCreateResponse>) => {
     const body = newVolunteerAccountSchema.parse(req.body);
 
-    const [existingVolunteer, existingOrganization, existingOrganizationRequest] = await Promise.all([
+    const [existingVolunteer, existingOrganization, existingOrganizationRequest, existingOrganizationMember] = await Promise.all([
       db
         .selectFrom('volunteer_account')
         .select('id')
@@ -118,9 +164,15 @@ function createVolunteerRouter(db: Kysely<Database>) {
         .select('id')
         .where('email', '=', body.email)
         .executeTakeFirst(),
+      db
+        .selectFrom('organization_member')
+        .select('id')
+        .where('email', '=', body.email)
+        .where('removed_at', 'is', null)
+        .executeTakeFirst(),
     ]);
 
-    if (existingVolunteer || existingOrganization || existingOrganizationRequest) {
+    if (existingVolunteer || existingOrganization || existingOrganizationRequest || existingOrganizationMember) {
       res.status(409);
       throw new Error('Email already in use, log in or use another email');
     }
@@ -354,6 +406,33 @@ function createVolunteerRouter(db: Kysely<Database>) {
     res.json(profile);
   });
 
+  volunteerRouter.get('/home-location', async (req, res: Response<VolunteerHomeLocationResponse>) => {
+    const volunteer = await db
+      .selectFrom('volunteer_account')
+      .select(['home_latitude', 'home_longitude', 'home_location_name'])
+      .where('id', '=', req.userJWT!.id)
+      .executeTakeFirstOrThrow();
+
+    res.json({ home_location: toVolunteerHomeLocation(volunteer) });
+  });
+
+  volunteerRouter.put('/home-location', async (req, res: Response<VolunteerHomeLocationResponse>) => {
+    const { home_location } = volunteerHomeLocationUpdateSchema.parse(req.body);
+
+    const volunteer = await db
+      .updateTable('volunteer_account')
+      .set({
+        home_latitude: home_location?.latitude ?? null,
+        home_longitude: home_location?.longitude ?? null,
+        home_location_name: home_location?.location_name ?? null,
+      })
+      .where('id', '=', req.userJWT!.id)
+      .returning(['home_latitude', 'home_longitude', 'home_location_name'])
+      .executeTakeFirstOrThrow();
+
+    res.json({ home_location: toVolunteerHomeLocation(volunteer) });
+  });
+
   volunteerRouter.get('/organizations', async (req, res: Response<VolunteerOrganizationSearchResponse>) => {
     const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
     const certificateEnabled = typeof req.query.certificate_enabled === 'string' ? req.query.certificate_enabled : 'all';
@@ -383,21 +462,12 @@ function createVolunteerRouter(db: Kysely<Database>) {
       ]));
     }
 
-    if (search) {
-      const terms = normalizeSearchTerms(search);
-      query = query.where(({ and, or }) => and(
-        terms.map((term) => {
-          const likePattern = `%${term}%`;
-          return or([
-            sql<boolean>`lower(organization_account.name) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(organization_account.name), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-            sql<boolean>`lower(organization_account.description) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(organization_account.description), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-            sql<boolean>`lower(organization_account.location_name) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(organization_account.location_name), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-          ]);
-        }),
-      ));
+    const sortKeys: ListSortKey[] = [];
+
+    const textSearchQuery = buildTextSearchQuery(search);
+    if (textSearchQuery) {
+      query = query.where(matchesTextSearch('organization_account.search_vector', textSearchQuery));
+      sortKeys.push({ expression: getTextSearchRank('organization_account.search_vector', textSearchQuery), direction: 'desc' });
     }
 
     const sortBy = typeof req.query.sort_by === 'string' ? req.query.sort_by : 'name';
@@ -405,10 +475,15 @@ function createVolunteerRouter(db: Kysely<Database>) {
 
     const orderByColumn = sortBy === 'title' ? 'organization_account.name' : 'organization_account.name';
 
-    const organizationsRaw = await query
-      .orderBy(orderByColumn, sortDir)
-      .limit(30)
-      .execute();
+    const listPage = parseListPage(req.query);
+    const { items: organizationsRaw, next_cursor } = toListPageResult(
+      await applyListPage(query, listPage, [
+        ...sortKeys,
+        { expression: orderByColumn, direction: sortDir },
+        { expression: 'organization_account.id', direction: sortDir },
+      ]).execute(),
+      listPage,
+    );
 
     const organizations = organizationsRaw.map(organization => ({
       id: organization.id,
@@ -419,7 +494,7 @@ function createVolunteerRouter(db: Kysely<Database>) {
       posting_count: Number(organization.posting_count ?? 0),
     }));
 
-    res.json({ organizations });
+    res.json({ organizations, next_cursor });
   });
 
   volunteerRouter.get('/certificate', async (req, res: Response<VolunteerCertificateResponse>) => {
@@ -433,20 +508,12 @@ function createVolunteerRouter(db: Kysely<Database>) {
       .where('is_disabled', '=', false)
       .executeTakeFirstOrThrow();
 
-    const hoursPerAttendedDateExpr = sql<number>`GREATEST(
-      0,
-      EXTRACT(EPOCH FROM (
-        (enrollment_date.date + posting.end_time)
-        - (enrollment_date.date + posting.start_time)
-      )) / 3600.0
-    )`;
-
     const totalHoursRow = await db
       .selectFrom('enrollment_date')
       .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
       .innerJoin('posting', 'posting.id', 'enrollment.posting_id')
       .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
-      .select(sql<number>`COALESCE(SUM(${hoursPerAttendedDateExpr}), 0)`.as('total_hours'))
+      .select(sql<number>`COALESCE(SUM(${enrollmentDateHoursExpression}), 0)`.as('total_hours'))
       .where('enrollment.volunteer_id', '=', volunteerId)
       .where('enrollment_date.attended', '=', true)
       .executeTakeFirstOrThrow();
@@ -472,7 +539,7 @@ function createVolunteerRouter(db: Kysely<Database>) {
         'organization_certificate_info.signatory_name',
         'organization_certificate_info.signatory_position',
         'organization_certificate_info.signature_path',
-        sql<number>`COALESCE(SUM(${hoursPerAttendedDateExpr}), 0)`.as('hours'),
+        sql<number>`COALESCE(SUM(${enrollmentDateHoursExpression}), 0)`.as('hours'),
       ])
       .where('enrollment.volunteer_id', '=', volunteerId)
       .where('enrollment_date.attended', '=', true)
@@ -549,21 +616,13 @@ function createVolunteerRouter(db: Kysely<Database>) {
     const issuedAt = new Date();
     const selectedOrgIds = [...body.org_ids].sort((left, right) => left - right);
 
-    const hoursPerAttendedDateExpr = sql<number>`GREATEST(
-      0,
-      EXTRACT(EPOCH FROM (
-        (enrollment_date.date + posting.end_time)
-        - (enrollment_date.date + posting.start_time)
-      )) / 3600.0
-    )`;
-
     const rows = await db
       .selectFrom('enrollment_date')
       .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
       .innerJoin('posting', 'posting.id', 'enrollment.posting_id')
       .select([
         'posting.organization_id as organization_id',
-        sql<number>`COALESCE(SUM(${hoursPerAttendedDateExpr}), 0)`.as('hours'),
+        sql<number>`COALESCE(SUM(${enrollmentDateHoursExpression}), 0)`.as('hours'),
       ])
       .where('enrollment.volunteer_id', '=', volunteerId)
       .where('enrollment_date.attended', '=', true)
@@ -623,14 +682,53 @@ function createVolunteerRouter(db: Kysely<Database>) {
       type: CERTIFICATE_TYPE,
     };
 
-    const verificationToken = signCertificateVerificationPayload(payload, config.CERTIFICATE_VERIFICATION_SECRET);
+    const verificationToken = signCertificateVerificationPayload(payload, getActiveCertificateSigningKey());
+    const certificate = await recordIssuedCertificate(db, verificationToken, payload);
 
     res.json({
+      certificate_id: certificate.id,
       verification_token: verificationToken,
       issued_at: payload.issued_at,
     });
   });
 
+  volunteerRouter.get('/certificate/issued', async (req, res: Response<VolunteerIssuedCertificatesResponse>) => {
+    const volunteerId = req.userJWT!.id;
+    const certificates = await getIssuedCertificates(db, { volunteerId });
+
+    res.json({ certificates });
+  });
+
+  volunteerRouter.get('/certificate/issued/:id/pdf', async (req, res: Response<Buffer>) => {
+    const { id } = zod.object({
+      id: zod.coerce.number().int().positive('ID must be a positive number'),
+    }).parse(req.params);
+
+    const issued = await getIssuedCertificatePayload(db, id);
+    if (!issued || issued.certificate.volunteer_id !== req.userJWT!.id) {
+      res.status(404);
+      throw new Error('Certificate not found');
+    }
+
+    if (issued.certificate.revoked_at) {
+      res.status(409);
+      throw new Error('Certificate has been revoked');
+    }
+
+    const token = issued.certificate.token
+      ?? signLegacyCertificateVerificationPayload(issued.payload, config.CERTIFICATE_VERIFICATION_SECRET);
+    if (getCertificateTokenHash(token) !== issued.certificate.token_hash) {
+      res.status(500);
+      throw new Error('Certificate token could not be restored');
+    }
+
+    const pdf = await renderCertificatePdf(db, token, issued.payload);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="willing-certificate-${id}.pdf"`);
+    res.send(pdf);
+  });
+
   volunteerRouter.get('/crises/pinned', async (_req, res: Response<VolunteerPinnedCrisesResponse>) => {
     const crises = await db
       .selectFrom('crisis')
@@ -772,13 +870,15 @@ function createVolunteerRouter(db: Kysely<Database>) {
           .where('volunteer_id', '=', volunteerId)
           .execute();
 
-        if (normalizedIncomingSkills && normalizedIncomingSkills.length > 0) {
+        const resolvedSkills = await resolveSkills(executor, body.skills ?? []);
+        if (resolvedSkills.length > 0) {
           await executor
             .insertInto('volunteer_skill')
             .values(
-              normalizedIncomingSkills.map(name => ({
+              resolvedSkills.map(skill => ({
                 volunteer_id: volunteerId,
-                name,
+                skill_id: skill.id,
+                name: skill.name,
               })),
             )
             .execute();
@@ -829,7 +929,11 @@ function createVolunteerRouter(db: Kysely<Database>) {
   });
 
   volunteerRouter.use('/profile/cv', createVolunteerCvRouter(db));
+  volunteerRouter.use('/availability', createVolunteerAvailabilityRouter(db));
   volunteerRouter.use('/posting', createVolunteerPostingRouter(db));
+  volunteerRouter.use('/saved-searches', createVolunteerSavedSearchesRouter(db));
+  volunteerRouter.use('/organization', createVolunteerOrganizationFollowsRouter(db));
+  volunteerRouter.use('/messages', createVolunteerMessagesRouter(db));
   volunteerRouter.post('/reset-password', createResetPassword(db));
 
   return volunteerRouter;
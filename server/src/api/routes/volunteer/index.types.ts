@@ -1,7 +1,8 @@
 import { type ResetPasswordResponse } from '../../../auth/resetPassword.ts';
-import { type Crisis, type VolunteerAccountWithoutPassword } from '../../../db/tables/index.ts';
+import { type Crisis, type VolunteerAccountWithoutPassword, type VolunteerHomeLocation } from '../../../db/tables/index.ts';
 
 import type { VolunteerProfileData } from '../../../services/volunteer/index.ts';
+import type { IssuedCertificateWithContext } from '../../../types.ts';
 
 export type VolunteerCreateResponse = {
   requires_email_verification: true;
@@ -20,6 +21,10 @@ export type VolunteerMeResponse = {
 
 export type VolunteerProfileResponse = VolunteerProfileData;
 
+export type VolunteerHomeLocationResponse = {
+  home_location: VolunteerHomeLocation | null;
+};
+
 export type VolunteerPinnedCrisesResponse = {
   crises: Crisis[];
 };
@@ -58,6 +63,7 @@ export type VolunteerOrganizationSearchResult = {
 
 export type VolunteerOrganizationSearchResponse = {
   organizations: VolunteerOrganizationSearchResult[];
+  next_cursor: string | null;
 };
 
 export type VolunteerCertificateResponse = {
@@ -72,10 +78,15 @@ export type VolunteerCertificateResponse = {
 };
 
 export type VolunteerCertificateIssueResponse = {
+  certificate_id: number;
   verification_token: string;
   issued_at: string;
 };
 
+export type VolunteerIssuedCertificatesResponse = {
+  certificates: IssuedCertificateWithContext[];
+};
+
 export type VolunteerResetPasswordResponse = ResetPasswordResponse;
 
 export type VolunteerReportOrganizationResponse = object;
@@ -0,0 +1,160 @@
+import { type NextFunction, type Request, Router, type Response } from 'express';
+import { type Kysely } from 'kysely';
+import zod from 'zod';
+
+import {
+  type VolunteerMessageSendResponse,
+  type VolunteerMessageThreadCreateResponse,
+  type VolunteerMessageThreadResponse,
+  type VolunteerMessageThreadsResponse,
+} from './messages.types.ts';
+import { type Database, newMessageSchema } from '../../../db/tables/index.ts';
+import {
+  findOrCreateThread,
+  findViewerThread,
+  getThreadMessages,
+  getThreadSummary,
+  isVolunteerRelatedToPosting,
+  listThreadSummaries,
+  markThreadRead,
+  sendMessage,
+} from '../../../services/messaging/index.ts';
+import { hasVolunteerRelationshipWithOrganization } from '../../../services/organization/volunteers.ts';
+import { deleteMessageAttachmentIfExists, messageAttachmentMulter } from '../../../services/uploads/messageAttachment.ts';
+import { MESSAGE_ATTACHMENT_UPLOAD_DIR } from '../../../services/uploads/paths.ts';
+import uploadSingle from '../../../services/uploads/uploadSingle.ts';
+
+const threadParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive('ID must be a positive number'),
+});
+
+const attachmentParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive(),
+  messageId: zod.coerce.number().int().positive(),
+});
+
+const newThreadSchema = zod.object({
+  posting_id: zod.number().int().positive('Posting ID must be a positive number'),
+});
+
+function createVolunteerMessagesRouter(db: Kysely<Database>) {
+  const messagesRouter = Router();
+
+  const getOwnThread = async (threadId: number, volunteerId: number, res: Response) => {
+    const thread = await findViewerThread(db, threadId, { role: 'volunteer', id: volunteerId });
+
+    if (!thread) {
+      res.status(404);
+      throw new Error('Conversation not found');
+    }
+
+    if (!(await hasVolunteerRelationshipWithOrganization(db, thread.organization_id, volunteerId))) {
+      res.status(403);
+      throw new Error('You can only message organizations you applied to or enrolled with');
+    }
+
+    return thread;
+  };
+
+  messagesRouter.get('/', async (req, res: Response<VolunteerMessageThreadsResponse>) => {
+    const threads = await listThreadSummaries(db, { role: 'volunteer', id: req.userJWT!.id });
+    res.json({ threads });
+  });
+
+  messagesRouter.post('/threads', async (req, res: Response<VolunteerMessageThreadCreateResponse>) => {
+    const body = newThreadSchema.parse(req.body);
+    const volunteerId = req.userJWT!.id;
+
+    const posting = await db
+      .selectFrom('posting')
+      .select(['id', 'organization_id'])
+      .where('id', '=', body.posting_id)
+      .executeTakeFirst();
+
+    if (!posting) {
+      res.status(404);
+      throw new Error('Posting not found');
+    }
+
+    if (!(await isVolunteerRelatedToPosting(db, posting.id, volunteerId))) {
+      res.status(403);
+      throw new Error('You can only message organizations of postings you applied to or enrolled in');
+    }
+
+    const thread = await findOrCreateThread(db, {
+      organization_id: posting.organization_id,
+      posting_id: posting.id,
+      volunteer_id: volunteerId,
+    });
+
+    res.json({ thread: (await getThreadSummary(db, thread.id, 'volunteer'))! });
+  });
+
+  messagesRouter.get('/threads/:id', async (req, res: Response<VolunteerMessageThreadResponse>) => {
+    const { id } = threadParamsSchema.parse(req.params);
+    await getOwnThread(id, req.userJWT!.id, res);
+
+    await markThreadRead(db, id, 'volunteer');
+
+    const [thread, messages] = await Promise.all([
+      getThreadSummary(db, id, 'volunteer'),
+      getThreadMessages(db, id),
+    ]);
+
+    res.json({ thread: thread!, messages });
+  });
+
+  messagesRouter.post(
+    '/threads/:id/messages',
+    uploadSingle(messageAttachmentMulter, 'attachment'),
+    async (req: Request, res: Response<VolunteerMessageSendResponse>) => {
+      try {
+        const { id } = threadParamsSchema.parse(req.params);
+        const body = newMessageSchema.parse(req.body ?? {});
+        await getOwnThread(id, req.userJWT!.id, res);
+
+        if (!body.body && !req.file) {
+          res.status(400);
+          throw new Error('Message cannot be empty');
+        }
+
+        const message = await sendMessage(db, id, { role: 'volunteer', memberId: null }, {
+          body: body.body,
+          attachment: req.file ? { path: req.file.filename, name: req.file.originalname } : null,
+        });
+
+        res.status(201).json({ message });
+      } catch (err) {
+        await deleteMessageAttachmentIfExists(req.file);
+        throw err;
+      }
+    },
+  );
+
+  messagesRouter.get('/threads/:id/messages/:messageId/attachment', async (req: Request, res: Response, next: NextFunction) => {
+    const { id, messageId } = attachmentParamsSchema.parse(req.params);
+    await getOwnThread(id, req.userJWT!.id, res);
+
+    const message = await db
+      .selectFrom('message')
+      .select(['attachment_path', 'attachment_name'])
+      .where('id', '=', messageId)
+      .where('thread_id', '=', id)
+      .executeTakeFirst();
+
+    if (!message?.attachment_path) {
+      res.status(404);
+      throw new Error('Attachment not found');
+    }
+
+    res.attachment(message.attachment_name ?? message.attachment_path);
+    res.sendFile(message.attachment_path, { root: MESSAGE_ATTACHMENT_UPLOAD_DIR }, (error) => {
+      if (!error) return;
+      next(error);
+    });
+  });
+
+  return messagesRouter;
+}
+
+export default createVolunteerMessagesRouter;
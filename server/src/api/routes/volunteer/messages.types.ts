@@ -0,0 +1,18 @@
+import { type MessageThreadSummary, type MessageWithSender } from '../../../types.ts';
+
+export type VolunteerMessageThreadsResponse = {
+  threads: MessageThreadSummary[];
+};
+
+export type VolunteerMessageThreadCreateResponse = {
+  thread: MessageThreadSummary;
+};
+
+export type VolunteerMessageThreadResponse = {
+  thread: MessageThreadSummary;
+  messages: MessageWithSender[];
+};
+
+export type VolunteerMessageSendResponse = {
+  message: MessageWithSender;
+};
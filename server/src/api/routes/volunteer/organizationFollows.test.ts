@@ -0,0 +1,120 @@
+import supertest from 'supertest';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import createApp from '../../../app.ts';
+import database from '../../../db/index.ts';
+import { notifyFollowersOfNewPosting } from '../../../services/follows/index.ts';
+import * as emailService from '../../../services/resend/emails.ts';
+import { createOrganizationAccount, createVolunteerAccount } from '../../../tests/fixtures/accounts.ts';
+import { createPosting } from '../../../tests/fixtures/organizationData.ts';
+import { authHeader } from '../../../tests/helpers/authHeader.ts';
+
+import type { Database } from '../../../db/tables/index.ts';
+import type { ControlledTransaction } from 'kysely';
+import type TestAgent from 'supertest/lib/agent.js';
+
+let transaction: ControlledTransaction<Database>;
+let server: TestAgent;
+
+beforeEach(async () => {
+  transaction = await database.startTransaction().execute();
+  server = supertest(createApp(transaction));
+});
+
+afterEach(async () => {
+  await transaction.rollback().execute();
+  vi.restoreAllMocks();
+});
+
+describe('/volunteer/organization/:id/follow', () => {
+  test('follows and unfollows an organization and updates its follower count', async () => {
+    const { organization, token: organizationToken } = await createOrganizationAccount(transaction, { email: 'follow-org@example.com', name: 'Followed Org' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'follow-vol@example.com' });
+
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      const followResponse = await server
+        .post(`/volunteer/organization/${organization.id}/follow`)
+        .set(authHeader(token))
+        .expect(200);
+      expect(followResponse.body).toEqual({ is_following: true });
+    }
+
+    const statusResponse = await server
+      .get(`/volunteer/organization/${organization.id}/follow`)
+      .set(authHeader(token))
+      .expect(200);
+    expect(statusResponse.body).toEqual({ is_following: true });
+
+    const followingResponse = await server
+      .get('/volunteer/organization/following')
+      .set(authHeader(token))
+      .expect(200);
+    expect(followingResponse.body.organizations).toEqual([
+      expect.objectContaining({ id: organization.id, name: 'Followed Org' }),
+    ]);
+
+    const meResponse = await server
+      .get('/organization/me')
+      .set(authHeader(organizationToken))
+      .expect(200);
+    expect(meResponse.body.follower_count).toBe(1);
+
+    await server
+      .delete(`/volunteer/organization/${organization.id}/follow`)
+      .set(authHeader(token))
+      .expect(200);
+
+    const unfollowedMeResponse = await server
+      .get('/organization/me')
+      .set(authHeader(organizationToken))
+      .expect(200);
+    expect(unfollowedMeResponse.body.follower_count).toBe(0);
+  });
+
+  test('returns 404 for an organization that does not exist', async () => {
+    const { token } = await createVolunteerAccount(transaction, { email: 'follow-missing@example.com' });
+
+    await server
+      .post('/volunteer/organization/999999/follow')
+      .set(authHeader(token))
+      .expect(404);
+  });
+});
+
+describe('New posting notifications for followers', () => {
+  test('notifies followers of the organization only', async () => {
+    const emailSpy = vi.spyOn(emailService, 'sendFollowedOrganizationPostingEmail').mockResolvedValue(undefined);
+    const { organization } = await createOrganizationAccount(transaction, { email: 'follow-notify-org@example.com', name: 'Notifying Org' });
+    const { organization: otherOrganization } = await createOrganizationAccount(transaction, { email: 'follow-notify-other-org@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'follow-notify-vol@example.com' });
+
+    await server
+      .post(`/volunteer/organization/${organization.id}/follow`)
+      .set(authHeader(token))
+      .expect(200);
+
+    const posting = await createPosting(transaction, { organizationId: organization.id, title: 'Fresh Posting' });
+    const otherPosting = await createPosting(transaction, { organizationId: otherOrganization.id });
+
+    expect(await notifyFollowersOfNewPosting(transaction, posting.id)).toBe(1);
+    expect(await notifyFollowersOfNewPosting(transaction, otherPosting.id)).toBe(0);
+
+    expect(emailSpy).toHaveBeenCalledTimes(1);
+    expect(emailSpy.mock.calls[0]![0]).toMatchObject({
+      organizationName: 'Notifying Org',
+      postingId: posting.id,
+      postingTitle: 'Fresh Posting',
+    });
+
+    const response = await server
+      .get('/user/notifications')
+      .set(authHeader(token))
+      .expect(200);
+
+    expect(response.body.notifications).toHaveLength(1);
+    expect(response.body.notifications[0]).toMatchObject({
+      type: 'followed_organization_posting',
+      link: `/posting/${posting.id}`,
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { Router, type Response } from 'express';
+import { sql, type Kysely } from 'kysely';
+import zod from 'zod';
+
+import {
+  type VolunteerFollowedOrganizationsResponse,
+  type VolunteerOrganizationFollowResponse,
+} from './organizationFollows.types.ts';
+import { type Database } from '../../../db/tables/index.ts';
+
+const organizationIdParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive('Organization ID must be a positive number'),
+});
+
+function createVolunteerOrganizationFollowsRouter(db: Kysely<Database>) {
+  const organizationFollowsRouter = Router();
+
+  organizationFollowsRouter.get('/following', async (req, res: Response<VolunteerFollowedOrganizationsResponse>) => {
+    const organizations = await db
+      .selectFrom('organization_follow')
+      .innerJoin('organization_account', 'organization_account.id', 'organization_follow.organization_id')
+      .leftJoin('posting', 'posting.organization_id', 'organization_account.id')
+      .select([
+        'organization_account.id',
+        'organization_account.name',
+        'organization_account.description',
+        'organization_account.location_name',
+        'organization_account.logo_path',
+        sql<number>`COALESCE(COUNT(posting.id), 0)`.as('posting_count'),
+      ])
+      .where('organization_follow.volunteer_id', '=', req.userJWT!.id)
+      .where('organization_account.is_deleted', '=', false)
+      .where('organization_account.is_disabled', '=', false)
+      .groupBy(['organization_account.id', 'organization_follow.id'])
+      .orderBy('organization_follow.created_at', 'desc')
+      .orderBy('organization_follow.id', 'desc')
+      .execute();
+
+    res.json({
+      organizations: organizations.map(organization => ({
+        id: organization.id,
+        name: organization.name,
+        description: organization.description ?? null,
+        location_name: organization.location_name ?? null,
+        logo_path: organization.logo_path ?? null,
+        posting_count: Number(organization.posting_count ?? 0),
+      })),
+    });
+  });
+
+  organizationFollowsRouter.get('/:id/follow', async (req, res: Response<VolunteerOrganizationFollowResponse>) => {
+    const { id } = organizationIdParamsSchema.parse(req.params);
+
+    const follow = await db
+      .selectFrom('organization_follow')
+      .select('id')
+      .where('organization_id', '=', id)
+      .where('volunteer_id', '=', req.userJWT!.id)
+      .executeTakeFirst();
+
+    res.json({ is_following: Boolean(follow) });
+  });
+
+  organizationFollowsRouter.post('/:id/follow', async (req, res: Response<VolunteerOrganizationFollowResponse>) => {
+    const { id } = organizationIdParamsSchema.parse(req.params);
+
+    const organization = await db
+      .selectFrom('organization_account')
+      .select('id')
+      .where('id', '=', id)
+      .where('is_deleted', '=', false)
+      .where('is_disabled', '=', false)
+      .executeTakeFirst();
+
+    if (!organization) {
+      res.status(404);
+      throw new Error('Organization not found');
+    }
+
+    await db
+      .insertInto('organization_follow')
+      .values({ volunteer_id: req.userJWT!.id, organization_id: id })
+      .onConflict(oc => oc.columns(['volunteer_id', 'organization_id']).doNothing())
+      .execute();
+
+    res.json({ is_following: true });
+  });
+
+  organizationFollowsRouter.delete('/:id/follow', async (req, res: Response<VolunteerOrganizationFollowResponse>) => {
+    const { id } = organizationIdParamsSchema.parse(req.params);
+
+    await db
+      .deleteFrom('organization_follow')
+      .where('organization_id', '=', id)
+      .where('volunteer_id', '=', req.userJWT!.id)
+      .execute();
+
+    res.json({ is_following: false });
+  });
+
+  return organizationFollowsRouter;
+}
+
+export default createVolunteerOrganizationFollowsRouter;
@@ -0,0 +1,9 @@
+import { type VolunteerOrganizationSearchResult } from './index.types.ts';
+
+export type VolunteerFollowedOrganizationsResponse = {
+  organizations: VolunteerOrganizationSearchResult[];
+};
+
+export type VolunteerOrganizationFollowResponse = {
+  is_following: boolean;
+};
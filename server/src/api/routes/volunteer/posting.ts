@@ -2,28 +2,102 @@ import { Router, type Response } from 'express';
 import { sql, type Kysely } from 'kysely';
 import zod from 'zod';
 
-import { type VolunteerEnrollmentsResponse, type VolunteerPostingEnrollResponse, type VolunteerPostingResponse, type VolunteerPostingSearchResponse, type VolunteerPostingWithdrawResponse } from './posting.types.ts';
-import { buildPostingsWithContext, isVolunteerPostingFull, postingWithContextSelectColumns } from './postingWithContext.ts';
+import {
+  type VolunteerBookmarkedPostingsResponse,
+  type VolunteerEnrollmentsResponse,
+  type VolunteerGuardianConsentResendResponse,
+  type VolunteerPostingBookmarkResponse,
+  type VolunteerPostingCheckInCodesResponse,
+  type VolunteerPostingEnrollResponse,
+  type VolunteerPostingResponse,
+  type VolunteerPostingReviewResponse,
+  type VolunteerPostingSearchResponse,
+  type VolunteerPostingWaitlistLeaveResponse,
+  type VolunteerPostingWaitlistResponse,
+  type VolunteerPostingWithdrawResponse,
+} from './posting.types.ts';
+import {
+  buildPostingsWithContext,
+  postingWithContextSelectColumns,
+  volunteerPostingFullExpression,
+} from './postingWithContext.ts';
 import authorizeOnly from '../../../auth/authorizeOnly.ts';
+import config from '../../../config.ts';
 import executeTransaction from '../../../db/executeTransaction.ts';
-import { type Database, type Enrollment, type EnrollmentApplication } from '../../../db/tables/index.ts';
+import {
+  type ApplicationAnswer,
+  type Database,
+  type Enrollment,
+  type EnrollmentApplication,
+  newPostingReviewSchema,
+  type PostingQuestion,
+} from '../../../db/tables/index.ts';
+import { emailSchema } from '../../../schemas/index.ts';
+import { renderCalendar } from '../../../services/calendar/ical.ts';
+import { getVolunteerCalendarEvents } from '../../../services/calendar/index.ts';
 import { recomputePostingContextVectorOnly, recomputeVolunteerExperienceVector } from '../../../services/embeddings/updates.ts';
+import { getAttendedEnrollment, organizationRatingRankExpression } from '../../../services/feedback/index.ts';
+import { getCheckInTokenExpiry, signCheckInToken } from '../../../services/posting/checkInToken.ts';
+import {
+  cancelUnusedGuardianConsents,
+  GUARDIAN_CONSENT_AGE,
+  getLatestGuardianConsents,
+  hasApprovedGuardianConsent,
+  requestGuardianConsent,
+  sendGuardianConsentRequest,
+  toGuardianConsentSummary,
+} from '../../../services/posting/guardianConsent.ts';
+import {
+  applyPostingBoundsFilter,
+  applyPostingDateTimeFilters,
+  applyPostingDistanceFilter,
+  applyPostingFilter,
+  getPostingDistanceExpression,
+} from '../../../services/posting/postingFilters.ts';
+import {
+  applicationAnswerInputSchema,
+  buildApplicationAnswersSchema,
+  getPostingQuestions,
+  type ApplicationAnswerInput,
+} from '../../../services/posting/postingQuestions.ts';
+import { getPostingOccurrenceOverrides, getPostingOccurrences } from '../../../services/posting/postingSchedule.ts';
 import { hasPostingEnded } from '../../../services/posting/postingTime.ts';
 import { rejectEndedPendingApplicationsForPostings } from '../../../services/posting/rejectEndedPendingApplications.ts';
-import { type PostingWithContext } from '../../../types.ts';
 import {
+  getVolunteerWaitlistStatus,
+  promoteWaitlistedVolunteers,
+  removeVolunteerFromWaitlist,
+} from '../../../services/posting/waitlist.ts';
+import {
+  buildTextSearchQuery,
+  getTextSearchHeadline,
+  getTextSearchRank,
+  matchesTextSearch,
+  withSearchSnippet,
+} from '../../../services/textSearch/index.ts';
+import {
+  findScheduleConflicts,
+  getVolunteerAvailability,
+  getVolunteerCommitments,
+  isOccurrenceWithinAvailability,
+  postingAttendableExpression,
+  postingFitsAvailabilityExpression,
+} from '../../../services/volunteer/availability.ts';
+import {
+  applyListPage,
+  parseListPage,
   parseListQuery,
   parseOptionalBooleanQueryParam,
   parseOptionalNumberQueryParam,
+  toListPageResult,
+  type ListSortKey,
 } from '../utils/listQuery.ts';
 import {
-  applyPostingDateTimeFilters,
-  applySharedPostingSort,
-  matchesPostingDateTimeFilters,
-  matchesPostingSearch,
-  normalizeSearchTerms,
+  getPostingDistanceSortKeys,
+  getSharedPostingSortKeys,
+  parsePostingBoundsFilter,
   parsePostingDateTimeFilters,
-  sortPostingsBySharedSort,
+  parsePostingDistanceFilter,
 } from '../utils/postingList.ts';
 
 const postingIdParamsSchema = zod.object({
@@ -33,8 +107,29 @@ const postingIdParamsSchema = zod.object({
 const applyBodySchema = zod.object({
   message: zod.string().trim().min(1, 'Message cannot be empty').optional(),
   dates: zod.array(zod.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')).optional(),
+  role_id: zod.number().int().positive('Role ID must be a positive number').optional(),
+  answers: zod.array(applicationAnswerInputSchema).max(50, 'Too many answers').optional(),
+  guardian_email: emailSchema.optional(),
+  ignore_schedule_conflicts: zod.boolean().optional(),
+});
+
+const guardianConsentResendBodySchema = zod.object({
+  guardian_email: emailSchema.optional(),
 });
 
+const GUARDIAN_CONSENT_RESEND_COOLDOWN_MS = 60 * 1000;
+
+const AVAILABILITY_RANK_BOOST = 0.1;
+const ORGANIZATION_RATING_RANK_BOOST = 0.05;
+
+type GuardianConsentRequest = Awaited<ReturnType<typeof requestGuardianConsent>>;
+
+type EnrollableRole = {
+  id: number;
+  name: string;
+  max_volunteers: number | null;
+};
+
 function formatDateToIso(date: Date): string {
   return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`;
 }
@@ -60,61 +155,29 @@ function toUtcDateOnly(isoDate: string) {
   return new Date(`${isoDate}T00:00:00.000Z`);
 }
 
-function parseIsoDateParts(value: string) {
-  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
-  if (!match) return undefined;
-
-  return {
-    year: Number(match[1]),
-    month: Number(match[2]),
-    day: Number(match[3]),
-  };
-}
-
-function getPostingDates(startDate: Date | string, endDate: Date | string): string[] {
-  const normalizedStartDate = normalizeStoredDate(startDate);
-  const normalizedEndDate = normalizeStoredDate(endDate);
-  const startParts = normalizedStartDate ? parseIsoDateParts(normalizedStartDate) : undefined;
-  const endParts = normalizedEndDate ? parseIsoDateParts(normalizedEndDate) : undefined;
-
-  if (!startParts || !endParts) {
-    return [];
-  }
-
-  const result: string[] = [];
-  const current = new Date(Date.UTC(startParts.year, startParts.month - 1, startParts.day));
-  const end = new Date(Date.UTC(endParts.year, endParts.month - 1, endParts.day));
-
-  while (current.getTime() <= end.getTime()) {
-    result.push(formatDateToIso(current));
-    current.setUTCDate(current.getUTCDate() + 1);
-  }
-
-  return result;
-}
-
 async function getFullSelectedDates(
   trx: Kysely<Database>,
   postingId: number,
   selectedDates: string[],
   maxVolunteers: number | null | undefined,
+  roleId?: number,
 ) {
   if (maxVolunteers == null || selectedDates.length === 0) {
     return [];
   }
 
-  const enrollmentCounts = await trx
+  let enrollmentCountsQuery = trx
     .selectFrom('enrollment_date')
+    .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
     .select([
       dateColumnAsIsoSql('enrollment_date.date').as('date'),
       sql<number>`count(*)`.as('count'),
     ])
-    .where('posting_id', '=', postingId)
+    .where('enrollment_date.posting_id', '=', postingId)
     .where('enrollment_date.date', 'in', selectedDates.map(date => toUtcDateOnly(date)))
-    .groupBy('enrollment_date.date')
-    .execute();
+    .groupBy('enrollment_date.date');
 
-  const applicationCounts = await trx
+  let applicationCountsQuery = trx
     .selectFrom('enrollment_application_date')
     .innerJoin('enrollment_application', 'enrollment_application.id', 'enrollment_application_date.application_id')
     .select([
@@ -123,8 +186,15 @@ async function getFullSelectedDates(
     ])
     .where('enrollment_application.posting_id', '=', postingId)
     .where('enrollment_application_date.date', 'in', selectedDates.map(date => toUtcDateOnly(date)))
-    .groupBy('enrollment_application_date.date')
-    .execute();
+    .groupBy('enrollment_application_date.date');
+
+  if (roleId !== undefined) {
+    enrollmentCountsQuery = enrollmentCountsQuery.where('enrollment.role_id', '=', roleId);
+    applicationCountsQuery = applicationCountsQuery.where('enrollment_application.role_id', '=', roleId);
+  }
+
+  const enrollmentCounts = await enrollmentCountsQuery.execute();
+  const applicationCounts = await applicationCountsQuery.execute();
 
   const countsByDate = [...enrollmentCounts, ...applicationCounts]
     .map((row) => {
@@ -142,6 +212,35 @@ async function getFullSelectedDates(
     .map(([date]) => date);
 }
 
+async function getEnrollmentCount(trx: Kysely<Database>, postingId: number, roleId?: number) {
+  let query = trx
+    .selectFrom('enrollment')
+    .select(sql<number>`count(enrollment.id)`.as('count'))
+    .where('posting_id', '=', postingId);
+
+  if (roleId !== undefined) {
+    query = query.where('role_id', '=', roleId);
+  }
+
+  const enrollmentCountRow = await query.executeTakeFirst();
+  return Number(enrollmentCountRow?.count ?? 0);
+}
+
+const getCapacityReachedMessage = (role: EnrollableRole | undefined) => (role
+  ? `The ${role.name} role has reached the maximum number of volunteers`
+  : 'This posting has reached the maximum number of volunteers');
+
+function parseApplicationAnswers(questions: PostingQuestion[], answers: ApplicationAnswerInput[] | undefined, res: Response) {
+  const parsed = buildApplicationAnswersSchema(questions).safeParse(answers);
+
+  if (!parsed.success) {
+    res.status(400);
+    throw new Error(parsed.error.issues[0]!.message);
+  }
+
+  return parsed.data;
+}
+
 function calculateAge(dateOfBirth: string, at: Date = new Date()): number | null {
   const dob = new Date(dateOfBirth);
   if (Number.isNaN(dob.getTime())) {
@@ -159,6 +258,189 @@ function calculateAge(dateOfBirth: string, at: Date = new Date()): number | null
   return age;
 }
 
+/**
+ * Loads a posting a volunteer is about to enroll in or join the waitlist of,
+ * rejecting closed or ended postings and volunteers below the minimum age.
+ * Postings split into roles also require one of their roles, whose own
+ * minimum age applies on top of the posting's.
+ * Review postings also check the answers to their application questions.
+ * Minors on postings that need guardian consent must name a guardian to ask,
+ * unless one already approved this posting.
+ */
+async function getEnrollablePosting(
+  db: Kysely<Database>,
+  id: number,
+  volunteerId: number,
+  { roleId, answers, guardianEmail }: {
+    roleId: number | undefined;
+    answers: ApplicationAnswerInput[] | undefined;
+    guardianEmail: string | undefined;
+  },
+  res: Response,
+) {
+  const [posting, volunteer, roles] = await Promise.all([
+    db
+      .selectFrom('posting')
+      .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+      .select([
+        'posting.id',
+        'posting.title',
+        'posting.automatic_acceptance',
+        'posting.is_closed',
+        'posting.minimum_age',
+        'posting.max_volunteers',
+        'posting.allows_partial_attendance',
+        'posting.requires_guardian_consent',
+        'posting.start_date',
+        'posting.end_date',
+        'posting.start_time',
+        'posting.end_time',
+        'posting.recurrence_weekdays',
+        'posting.recurrence_interval',
+      ])
+      .where('posting.id', '=', id)
+      .where('organization_account.is_deleted', '=', false)
+      .where('organization_account.is_disabled', '=', false)
+      .executeTakeFirst(),
+    db
+      .selectFrom('volunteer_account')
+      .select(['email', 'date_of_birth'])
+      .where('id', '=', volunteerId)
+      .where('is_deleted', '=', false)
+      .executeTakeFirst(),
+    db
+      .selectFrom('posting_role')
+      .select(['id', 'name', 'max_volunteers', 'minimum_age'])
+      .where('posting_id', '=', id)
+      .execute(),
+  ]);
+
+  if (!posting) {
+    res.status(404);
+    throw new Error('Posting not found');
+  }
+
+  // Block registration if posting is closed||
+  if (posting.is_closed) {
+    res.status(403);
+    throw new Error('This posting is closed and no longer accepting applications');
+  }
+
+  // Block registration if posting has ended
+  if (hasPostingEnded(posting)) {
+    res.status(403);
+    throw new Error('This posting has ended');
+  }
+
+  if (!volunteer) {
+    res.status(404);
+    throw new Error('Volunteer not found');
+  }
+
+  if (roles.length > 0 && roleId === undefined) {
+    res.status(400);
+    throw new Error('Select a role to apply for this posting');
+  }
+
+  const role = roleId !== undefined ? roles.find(candidate => candidate.id === roleId) : undefined;
+  if (roleId !== undefined && !role) {
+    res.status(400);
+    throw new Error('Selected role does not belong to this posting');
+  }
+
+  if (posting.minimum_age !== undefined && posting.minimum_age !== null) {
+    const volunteerAge = calculateAge(volunteer.date_of_birth);
+
+    if (volunteerAge === null) {
+      res.status(400);
+      throw new Error('Volunteer date of birth is invalid');
+    }
+
+    if (volunteerAge < posting.minimum_age) {
+      res.status(403);
+      throw new Error(`You must be at least ${posting.minimum_age} years old to apply for this posting`);
+    }
+  }
+
+  if (role?.minimum_age != null) {
+    const volunteerAge = calculateAge(volunteer.date_of_birth);
+
+    if (volunteerAge === null) {
+      res.status(400);
+      throw new Error('Volunteer date of birth is invalid');
+    }
+
+    if (volunteerAge < role.minimum_age) {
+      res.status(403);
+      throw new Error(`You must be at least ${role.minimum_age} years old to apply for the ${role.name} role`);
+    }
+  }
+
+  let needsGuardianConsent = false;
+
+  if (posting.requires_guardian_consent) {
+    const volunteerAge = calculateAge(volunteer.date_of_birth);
+
+    if (volunteerAge === null) {
+      res.status(400);
+      throw new Error('Volunteer date of birth is invalid');
+    }
+
+    needsGuardianConsent = volunteerAge < GUARDIAN_CONSENT_AGE && !(await hasApprovedGuardianConsent(db, id, volunteerId));
+  }
+
+  if (needsGuardianConsent && !guardianEmail) {
+    res.status(400);
+    throw new Error(`This posting needs consent from a parent or guardian for volunteers under ${GUARDIAN_CONSENT_AGE}. Please enter their email address`);
+  }
+
+  if (needsGuardianConsent && guardianEmail === volunteer.email) {
+    res.status(400);
+    throw new Error('Please enter the email address of your parent or guardian, not your own');
+  }
+
+  // Open postings enroll volunteers without a review, so nobody would read the answers
+  const applicationAnswers: ApplicationAnswer[] = posting.automatic_acceptance
+    ? []
+    : parseApplicationAnswers((await getPostingQuestions(db, [id])).get(id) ?? [], answers, res);
+
+  const occurrenceOverrides = await getPostingOccurrenceOverrides(db, [id]);
+  const postingOccurrences = getPostingOccurrences(posting, occurrenceOverrides.get(id));
+
+  return {
+    posting,
+    role: role && { id: role.id, name: role.name, max_volunteers: role.max_volunteers } satisfies EnrollableRole,
+    postingOccurrences,
+    postingDateKeys: postingOccurrences.map(occurrence => occurrence.date),
+    applicationAnswers,
+    guardianEmail: needsGuardianConsent ? guardianEmail : undefined,
+  };
+}
+
+function resolveSelectedDates(dates: string[] | undefined, postingDateKeys: string[], res: Response) {
+  const normalizedDates = dates?.map(d => d.trim()).filter(Boolean) ?? [];
+  let selectedDates: string[];
+
+  if (normalizedDates.length === 0) {
+    if (postingDateKeys.length !== 1) {
+      res.status(400);
+      throw new Error('You must select at least one date when partial attendance is enabled');
+    }
+
+    selectedDates = postingDateKeys;
+  } else {
+    selectedDates = Array.from(new Set(normalizedDates));
+  }
+
+  const invalidDate = selectedDates.find(date => !postingDateKeys.includes(date));
+  if (invalidDate) {
+    res.status(400);
+    throw new Error(`Selected date ${invalidDate} is outside the posting date range`);
+  }
+
+  return selectedDates;
+}
+
 function createVolunteerPostingRouter(db: Kysely<Database>) {
   const volunteerPostingRouter = Router();
 
@@ -166,18 +448,23 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
 
   volunteerPostingRouter.get('/', async (req, res: Response<VolunteerPostingSearchResponse>) => {
     const volunteerId = req.userJWT!.id;
-    const { location_name, skill } = req.query;
+    const { location_name } = req.query;
     const dateTimeFilters = parsePostingDateTimeFilters(req.query);
+    const distanceFilter = parsePostingDistanceFilter(req.query);
+    const boundsFilter = parsePostingBoundsFilter(req.query);
     const hideFull = parseOptionalBooleanQueryParam(req.query.hide_full) ?? false;
+    const hideUnavailable = parseOptionalBooleanQueryParam(req.query.hide_unavailable) ?? false;
     const includeApplied = parseOptionalBooleanQueryParam(req.query.include_applied) ?? false;
     const crisisIdFilter = parseOptionalNumberQueryParam(req.query.crisis_id);
     const postingFilter = typeof req.query.posting_filter === 'string' ? req.query.posting_filter : 'all';
     const { search, sortBy, sortDir } = parseListQuery(req.query, {
-      allowedSortBy: ['recommended', 'start_date', 'created_at', 'title'],
+      allowedSortBy: ['recommended', 'nearest', 'start_date', 'created_at', 'title'],
       defaultSortBy: 'recommended',
       defaultSortDir: 'desc',
     });
-    const skillFilter = typeof skill === 'string' ? skill.trim() : '';
+    const listPage = parseListPage(req.query);
+    const skillIdFilter = parseOptionalNumberQueryParam(req.query.skill_id);
+    const textSearchQuery = buildTextSearchQuery(search);
 
     const volunteerVectors = await db
       .selectFrom('volunteer_account')
@@ -194,6 +481,8 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
       .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
       .leftJoin('crisis', 'crisis.id', 'posting.crisis_id')
       .select(postingWithContextSelectColumns)
+      .select(getPostingDistanceExpression(distanceFilter).as('distance_km'))
+      .select(getTextSearchHeadline('posting.description', textSearchQuery).as('search_headline'))
       .where('posting.is_closed', '=', false)
       // Only include postings that have NOT ended (end_date + end_time is in the future or null)
       .where(({ or }) => or([
@@ -225,12 +514,12 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
       ])));
     }
 
-    if (skillFilter) {
+    if (skillIdFilter !== undefined) {
       query = query.where(({ exists, selectFrom }) => exists(
         selectFrom('posting_skill')
           .select('posting_skill.id')
           .whereRef('posting_skill.posting_id', '=', 'posting.id')
-          .where('posting_skill.name', 'ilike', `%${skillFilter}%`),
+          .where('posting_skill.skill_id', '=', skillIdFilter),
       ));
     }
 
@@ -242,86 +531,67 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
       query = query.where('posting.crisis_id', '=', crisisIdFilter);
     }
 
-    if (postingFilter === 'open') {
-      query = query.where('posting.automatic_acceptance', '=', true);
-    } else if (postingFilter === 'review') {
-      query = query.where('posting.automatic_acceptance', '=', false);
-    } else if (postingFilter === 'partial') {
-      query = query.where('posting.allows_partial_attendance', '=', true);
-    } else if (postingFilter === 'full') {
-      query = query.where('posting.allows_partial_attendance', '=', false);
-    } else if (postingFilter === 'tagged') {
-      query = query.where('posting.crisis_id', 'is not', null);
-    } else if (postingFilter === 'untagged') {
-      query = query.where('posting.crisis_id', 'is', null);
-    }
-
-    if (search) {
-      const terms = normalizeSearchTerms(search);
-      query = query.where(({ and, exists, selectFrom, or }) => and(
-        terms.map((term) => {
-          const likePattern = `%${term}%`;
-
-          return or([
-            sql<boolean>`lower(posting.title) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(posting.title), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-            sql<boolean>`lower(posting.description) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(posting.description), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-            sql<boolean>`lower(posting.location_name) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(posting.location_name), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-            sql<boolean>`lower(organization_account.name) LIKE ${likePattern}`,
-            sql<boolean>`regexp_replace(lower(organization_account.name), '[^a-z0-9]+', '', 'g') LIKE ${likePattern}`,
-            exists(
-              selectFrom('posting_skill')
-                .select('posting_skill.id')
-                .whereRef('posting_skill.posting_id', '=', 'posting.id')
-                .where(sql<boolean>`lower(posting_skill.name) LIKE ${likePattern}`),
-            ),
-          ]);
-        }),
-      ));
+    query = applyPostingFilter(query, postingFilter);
 
-      const normalizedSearch = search.toLowerCase();
-      const titleRelevance = sql<number>`
-      CASE
-        WHEN lower(posting.title) = ${normalizedSearch} THEN 3
-        WHEN lower(posting.title) LIKE ${`${normalizedSearch}%`} THEN 2
-        WHEN lower(posting.title) LIKE ${`%${normalizedSearch}%`} THEN 1
-        ELSE 0
-      END
-    `;
-      query = query.orderBy(sql`${titleRelevance} desc`);
+    const sortKeys: ListSortKey[] = [];
+
+    if (textSearchQuery) {
+      query = query.where(matchesTextSearch('posting.search_vector', textSearchQuery));
+      sortKeys.push({ expression: getTextSearchRank('posting.search_vector', textSearchQuery), direction: 'desc' });
     }
 
     query = applyPostingDateTimeFilters(query, dateTimeFilters);
+    query = applyPostingDistanceFilter(query, distanceFilter);
+    query = applyPostingBoundsFilter(query, boundsFilter);
+
+    if (hideFull) {
+      query = query.where(eb => eb.not(volunteerPostingFullExpression));
+    }
+
+    if (hideUnavailable) {
+      query = query.where(postingAttendableExpression(volunteerId));
+    }
 
-    if (sortBy === 'recommended' && hasVolunteerContextVector && volunteerContextVectorLiteral) {
+    if (sortBy === 'nearest' && distanceFilter) {
+      sortKeys.push(...getPostingDistanceSortKeys(distanceFilter));
+    } else if (sortBy === 'recommended' && hasVolunteerContextVector && volunteerContextVectorLiteral) {
       const profileSimilarity = sql<number>`
       1 - (posting.posting_context_vector <=> ${volunteerContextVectorLiteral}::vector)
     `;
-      query = query.orderBy(sql`${profileSimilarity} desc nulls last`);
-
-      query = query.orderBy('posting.start_date', sortDir).orderBy('posting.start_time', sortDir);
+      // Postings that fit the volunteer's weekly availability get a nudge up
+      const availabilityBoost = sql<number>`CASE WHEN ${postingFitsAvailabilityExpression(volunteerId)} THEN ${AVAILABILITY_RANK_BOOST} ELSE 0 END`;
+      const ratingBoost = sql<number>`${ORGANIZATION_RATING_RANK_BOOST} * ${organizationRatingRankExpression('posting.organization_id')}`;
+
+      sortKeys.push(
+        { expression: sql<number>`${profileSimilarity} + ${availabilityBoost} + ${ratingBoost}`, direction: 'desc' },
+        { expression: 'posting.start_date', direction: sortDir },
+        { expression: 'posting.start_time', direction: sortDir },
+        { expression: 'posting.id', direction: sortDir },
+      );
     } else {
       if (sortBy === 'recommended' && !hasVolunteerContextVector) {
         console.info('[recommendation] Volunteer vectors unavailable. Using default opportunity ordering.');
+        sortKeys.push(
+          { expression: postingFitsAvailabilityExpression(volunteerId), direction: 'desc' },
+          { expression: organizationRatingRankExpression('posting.organization_id'), direction: 'desc' },
+        );
       }
 
-      const fallbackSortBy = sortBy === 'recommended' ? 'start_date' : sortBy;
-      query = applySharedPostingSort(query, fallbackSortBy, sortDir);
+      const fallbackSortBy = sortBy === 'recommended' || sortBy === 'nearest' ? 'start_date' : sortBy;
+      sortKeys.push(...getSharedPostingSortKeys(fallbackSortBy, sortDir));
     }
 
-    const postings = await query.execute();
-    const postingsWithContext = await buildPostingsWithContext(db, {
+    const { items: postings, next_cursor } = toListPageResult(
+      await applyListPage(query, listPage, sortKeys).execute(),
+      listPage,
+    );
+
+    const items = await buildPostingsWithContext(db, {
       volunteerId,
-      postings,
+      postings: postings.map(withSearchSnippet),
     });
 
-    const visiblePostings = hideFull
-      ? postingsWithContext.filter(posting => !isVolunteerPostingFull(posting))
-      : postingsWithContext;
-
-    res.json({ postings: visiblePostings });
+    res.json({ postings: items, next_cursor });
   });
 
   volunteerPostingRouter.get('/enrollments', async (req, res: Response<VolunteerEnrollmentsResponse>) => {
@@ -331,64 +601,97 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
       defaultSortBy: 'recommended',
       defaultSortDir: 'desc',
     });
+    const listPage = parseListPage(req.query);
     const hideFull = parseOptionalBooleanQueryParam(req.query.hide_full) ?? false;
     const dateTimeFilters = parsePostingDateTimeFilters(req.query);
+    const textSearchQuery = buildTextSearchQuery(search);
 
-    const [enrolledPostings, pendingPostings] = await Promise.all([
-      db
-        .selectFrom('enrollment')
-        .innerJoin('posting', 'posting.id', 'enrollment.posting_id')
-        .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
-        .leftJoin('crisis', 'crisis.id', 'posting.crisis_id')
-        .select(postingWithContextSelectColumns)
-        .where('enrollment.volunteer_id', '=', volunteerId)
-        .execute(),
-      db
-        .selectFrom('enrollment_application')
-        .innerJoin('posting', 'posting.id', 'enrollment_application.posting_id')
-        .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
-        .leftJoin('crisis', 'crisis.id', 'posting.crisis_id')
-        .select(postingWithContextSelectColumns)
-        .where('enrollment_application.volunteer_id', '=', volunteerId)
-        .execute(),
-    ]);
+    // Ended review postings drop their pending applications before the page is cut
+    const pendingApplications = await db
+      .selectFrom('enrollment_application')
+      .select('posting_id')
+      .where('volunteer_id', '=', volunteerId)
+      .execute();
+    await rejectEndedPendingApplicationsForPostings(db, pendingApplications.map(application => application.posting_id));
 
-    const autoRejectedPostingIds = await rejectEndedPendingApplicationsForPostings(
-      db,
-      pendingPostings.map(posting => posting.id),
-    );
+    let query = db
+      .selectFrom('posting')
+      .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+      .leftJoin('crisis', 'crisis.id', 'posting.crisis_id')
+      .select(postingWithContextSelectColumns)
+      .select(getTextSearchHeadline('posting.description', textSearchQuery).as('search_headline'))
+      .select(({ exists, selectFrom }) => exists(
+        selectFrom('enrollment')
+          .select('enrollment.id')
+          .whereRef('enrollment.posting_id', '=', 'posting.id')
+          .where('enrollment.volunteer_id', '=', volunteerId),
+      ).as('is_enrolled'))
+      .where(({ or, exists, selectFrom }) => or([
+        exists(selectFrom('enrollment')
+          .select('enrollment.id')
+          .whereRef('enrollment.posting_id', '=', 'posting.id')
+          .where('enrollment.volunteer_id', '=', volunteerId)),
+        exists(selectFrom('enrollment_application')
+          .select('enrollment_application.id')
+          .whereRef('enrollment_application.posting_id', '=', 'posting.id')
+          .where('enrollment_application.volunteer_id', '=', volunteerId)),
+      ]));
+
+    if (textSearchQuery) {
+      query = query.where(matchesTextSearch('posting.search_vector', textSearchQuery));
+    }
 
-    const applicationStatusMap = new Map<number, 'registered' | 'pending'>();
-    const postingsMap = new Map<number, typeof enrolledPostings[0]>();
+    query = applyPostingDateTimeFilters(query, dateTimeFilters);
 
-    for (const posting of pendingPostings) {
-      if (autoRejectedPostingIds.has(posting.id)) {
-        continue;
-      }
-      applicationStatusMap.set(posting.id, 'pending');
-      postingsMap.set(posting.id, posting);
-    }
-    for (const posting of enrolledPostings) {
-      applicationStatusMap.set(posting.id, 'registered');
-      postingsMap.set(posting.id, posting);
+    if (hideFull) {
+      query = query.where(eb => eb.not(volunteerPostingFullExpression));
     }
 
-    const postings = await buildPostingsWithContext(db, {
+    const { items: postings, next_cursor } = toListPageResult(
+      await applyListPage(query, listPage, getSharedPostingSortKeys(sortBy === 'recommended' ? 'start_date' : sortBy, sortDir)).execute(),
+      listPage,
+    );
+
+    const applicationStatusMap = new Map<number, 'registered' | 'pending'>(
+      postings.map(posting => [posting.id, posting.is_enrolled ? 'registered' : 'pending']),
+    );
+
+    const items = await buildPostingsWithContext(db, {
       volunteerId,
-      postings: Array.from(postingsMap.values()),
+      postings: postings.map(({ is_enrolled: _isEnrolled, ...posting }) => withSearchSnippet(posting)),
       applicationStatusByPostingId: applicationStatusMap,
     });
 
-    const filteredPostings = postings
-      .filter(posting => matchesPostingSearch(posting, search))
-      .filter(posting => matchesPostingDateTimeFilters<PostingWithContext>(posting, dateTimeFilters))
-      .filter(posting => (hideFull ? !isVolunteerPostingFull(posting) : true));
+    res.json({ postings: items, next_cursor });
+  });
+
+  volunteerPostingRouter.get('/bookmarks', async (req, res: Response<VolunteerBookmarkedPostingsResponse>) => {
+    const volunteerId = req.userJWT!.id;
+    const listPage = parseListPage(req.query);
+
+    const bookmarkedPostingsQuery = db
+      .selectFrom('posting_bookmark')
+      .innerJoin('posting', 'posting.id', 'posting_bookmark.posting_id')
+      .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+      .leftJoin('crisis', 'crisis.id', 'posting.crisis_id')
+      .select(postingWithContextSelectColumns)
+      .where('posting_bookmark.volunteer_id', '=', volunteerId)
+      .where('organization_account.is_deleted', '=', false);
+
+    const { items: bookmarkedPostings, next_cursor } = toListPageResult(
+      await applyListPage(bookmarkedPostingsQuery, listPage, [
+        { expression: 'posting_bookmark.created_at', direction: 'desc' },
+        { expression: 'posting_bookmark.id', direction: 'desc' },
+      ]).execute(),
+      listPage,
+    );
 
-    const effectiveSortBy = sortBy === 'recommended' ? 'start_date' : sortBy;
-    const effectiveSortDir = sortDir;
-    const sortedPostings = sortPostingsBySharedSort<PostingWithContext>(filteredPostings, effectiveSortBy, effectiveSortDir);
+    const postings = await buildPostingsWithContext(db, {
+      volunteerId,
+      postings: bookmarkedPostings,
+    });
 
-    res.json({ postings: sortedPostings });
+    res.json({ postings, next_cursor });
   });
 
   volunteerPostingRouter.get('/:id', async (req, res: Response<VolunteerPostingResponse>) => {
@@ -464,7 +767,18 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
     const date_capacity = combinedCapacityMap;
     const confirmed_date_capacity = confirmedCapacityMap;
 
-    const [enrollmentDates, applicationDates] = await Promise.all([
+    const [
+      enrollmentDates,
+      applicationDates,
+      waitlist,
+      volunteerEnrollment,
+      volunteerApplication,
+      bookmark,
+      questions,
+      guardianConsents,
+      availability,
+      commitments,
+    ] = await Promise.all([
       db
         .selectFrom('enrollment_date')
         .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
@@ -479,22 +793,65 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
         .where('enrollment_application.posting_id', '=', id)
         .where('enrollment_application.volunteer_id', '=', volunteerId)
         .execute(),
+      getVolunteerWaitlistStatus(db, id, volunteerId),
+      db
+        .selectFrom('enrollment')
+        .select('role_id')
+        .where('posting_id', '=', id)
+        .where('volunteer_id', '=', volunteerId)
+        .executeTakeFirst(),
+      db
+        .selectFrom('enrollment_application')
+        .select('role_id')
+        .where('posting_id', '=', id)
+        .where('volunteer_id', '=', volunteerId)
+        .executeTakeFirst(),
+      db
+        .selectFrom('posting_bookmark')
+        .select('id')
+        .where('posting_id', '=', id)
+        .where('volunteer_id', '=', volunteerId)
+        .executeTakeFirst(),
+      postingWithContext.automatic_acceptance ? new Map<number, PostingQuestion[]>() : getPostingQuestions(db, [id]),
+      getLatestGuardianConsents(db, id, [volunteerId]),
+      getVolunteerAvailability(db, volunteerId),
+      getVolunteerCommitments(db, volunteerId, { excludePostingId: id }),
     ]);
 
+    const guardianConsent = guardianConsents.get(volunteerId);
+    let needs_guardian_consent = false;
+
+    if (postingWithContext.requires_guardian_consent && guardianConsent?.status !== 'approved') {
+      const volunteer = await db
+        .selectFrom('volunteer_account')
+        .select('date_of_birth')
+        .where('id', '=', volunteerId)
+        .executeTakeFirstOrThrow();
+      const volunteerAge = calculateAge(volunteer.date_of_birth);
+
+      needs_guardian_consent = volunteerAge !== null && volunteerAge < GUARDIAN_CONSENT_AGE;
+    }
+
     const enrolled_dates = enrollmentDates
       .map(row => normalizeStoredDate(row.date))
       .filter((d): d is string => Boolean(d));
     const requested_dates = applicationDates
       .map(row => normalizeStoredDate(row.date))
       .filter((d): d is string => Boolean(d));
-    const posting_dates = postingWithContext.start_date && postingWithContext.end_date
-      ? getPostingDates(postingWithContext.start_date, postingWithContext.end_date)
-      : [];
+    const postingOccurrences = getPostingOccurrences(postingWithContext, postingWithContext.occurrence_overrides);
+    const posting_dates = postingOccurrences.map(occurrence => occurrence.date);
+    const today = formatDateToIso(new Date());
+    const upcomingOccurrences = postingOccurrences.filter(occurrence => occurrence.date >= today);
     const selected_dates = postingWithContext.application_status === 'registered'
       ? enrolled_dates
       : postingWithContext.application_status === 'pending'
         ? requested_dates
         : [];
+    const selected_role_id = postingWithContext.application_status === 'registered'
+      ? volunteerEnrollment?.role_id ?? null
+      : postingWithContext.application_status === 'pending'
+        ? volunteerApplication?.role_id ?? null
+        : waitlist?.role_id ?? null;
 
     res.json({
       posting: {
@@ -504,106 +861,51 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
       },
       enrolled_dates,
       selected_dates,
+      selected_role_id,
       posting_dates,
+      waitlist,
+      is_bookmarked: Boolean(bookmark),
+      questions: questions.get(id) ?? [],
+      guardian_consent: guardianConsent ? toGuardianConsentSummary(guardianConsent) : null,
+      needs_guardian_consent,
+      schedule_conflicts: findScheduleConflicts(commitments, upcomingOccurrences),
+      unavailable_dates: upcomingOccurrences
+        .filter(occurrence => !isOccurrenceWithinAvailability(availability, occurrence))
+        .map(occurrence => occurrence.date),
     });
   });
 
   volunteerPostingRouter.post('/:id/enroll', async (req, res: Response<VolunteerPostingEnrollResponse>) => {
     const volunteerId = req.userJWT!.id;
     const { id } = postingIdParamsSchema.parse(req.params);
-    const { message, dates } = applyBodySchema.parse(req.body ?? {});
-
-    const [posting, volunteer] = await Promise.all([
-      db
-        .selectFrom('posting')
-        .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
-        .select([
-          'posting.id',
-          'posting.automatic_acceptance',
-          'posting.is_closed',
-          'posting.minimum_age',
-          'posting.max_volunteers',
-          'posting.allows_partial_attendance',
-          'posting.start_date',
-          'posting.end_date',
-          'posting.end_time',
-        ])
-        .where('posting.id', '=', id)
-        .where('organization_account.is_deleted', '=', false)
-        .where('organization_account.is_disabled', '=', false)
-        .executeTakeFirst(),
-      db
-        .selectFrom('volunteer_account')
-        .select('date_of_birth')
-        .where('id', '=', volunteerId)
-        .where('is_deleted', '=', false)
-        .executeTakeFirst(),
-    ]);
-
-    if (!posting) {
-      res.status(404);
-      throw new Error('Posting not found');
-    }
-
-    // Block registration if posting is closed||
-    if (posting.is_closed) {
-      res.status(403);
-      throw new Error('This posting is closed and no longer accepting applications');
-    }
-
-    // Block registration if posting has ended
-    if (hasPostingEnded(posting)) {
-      res.status(403);
-      throw new Error('This posting has ended');
-    }
-
-    if (!volunteer) {
-      res.status(404);
-      throw new Error('Volunteer not found');
-    }
-
-    if (posting.minimum_age !== undefined && posting.minimum_age !== null) {
-      const volunteerAge = calculateAge(volunteer.date_of_birth);
-
-      if (volunteerAge === null) {
-        res.status(400);
-        throw new Error('Volunteer date of birth is invalid');
-      }
-
-      if (volunteerAge < posting.minimum_age) {
-        res.status(403);
-        throw new Error(`You must be at least ${posting.minimum_age} years old to apply for this posting`);
-      }
-    }
-
-    const postingDateKeys = posting.start_date && posting.end_date
-      ? getPostingDates(posting.start_date, posting.end_date)
-      : [];
+    const {
+      message,
+      dates,
+      role_id: roleId,
+      answers,
+      guardian_email,
+      ignore_schedule_conflicts: ignoreScheduleConflicts,
+    } = applyBodySchema.parse(req.body ?? {});
+
+    const { posting, role, postingOccurrences, postingDateKeys, applicationAnswers, guardianEmail } = await getEnrollablePosting(
+      db,
+      id,
+      volunteerId,
+      { roleId, answers, guardianEmail: guardian_email },
+      res,
+    );
 
     const isPartial = Boolean(posting.allows_partial_attendance);
-    const isSingleDayPosting = postingDateKeys.length === 1;
+    const maxVolunteers = role ? role.max_volunteers : posting.max_volunteers;
+    // Minors waiting for their guardian hold an application until the guardian answers
+    const isEnrolledRightAway = posting.automatic_acceptance && !guardianEmail;
     let selectedDates: string[] = [];
+    let consentRequest: GuardianConsentRequest | undefined;
 
     if (isPartial) {
-      const normalizedDates = dates?.map(d => d.trim()).filter(Boolean) ?? [];
-      if (normalizedDates.length === 0) {
-        if (!isSingleDayPosting) {
-          res.status(400);
-          throw new Error('You must select at least one date when partial attendance is enabled');
-        }
+      selectedDates = resolveSelectedDates(dates, postingDateKeys, res);
 
-        selectedDates = postingDateKeys;
-      } else {
-        selectedDates = Array.from(new Set(normalizedDates));
-      }
-
-      const invalidDate = selectedDates.find(date => !postingDateKeys.includes(date));
-      if (invalidDate) {
-        res.status(400);
-        throw new Error(`Selected date ${invalidDate} is outside the posting date range`);
-      }
-
-      const fullDates = await getFullSelectedDates(db, id, selectedDates, posting.max_volunteers);
+      const fullDates = await getFullSelectedDates(db, id, selectedDates, maxVolunteers, role?.id);
       if (fullDates.length > 0) {
         res.status(403);
         throw new Error(`Selected date ${fullDates[0]} is already full`);
@@ -614,16 +916,10 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
         throw new Error('This posting requires full commitment; date selection is not allowed');
       }
 
-      if (posting.max_volunteers !== undefined && posting.max_volunteers !== null) {
-        const enrollmentCountRow = await db
-          .selectFrom('enrollment')
-          .select(sql<number>`count(enrollment.id)`.as('count'))
-          .where('posting_id', '=', id)
-          .executeTakeFirst();
-
-        if (Number(enrollmentCountRow?.count ?? 0) >= posting.max_volunteers) {
+      if (maxVolunteers !== undefined && maxVolunteers !== null) {
+        if (await getEnrollmentCount(db, id, role?.id) >= maxVolunteers) {
           res.status(403);
-          throw new Error('This posting has reached the maximum number of volunteers');
+          throw new Error(getCapacityReachedMessage(role));
         }
       }
     }
@@ -648,9 +944,22 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
       throw new Error('You are already enrolled or have already applied to this posting');
     }
 
+    if (!ignoreScheduleConflicts) {
+      const attendedDates = isPartial ? selectedDates : postingDateKeys;
+      const [conflict] = findScheduleConflicts(
+        await getVolunteerCommitments(db, volunteerId, { excludePostingId: id }),
+        postingOccurrences.filter(occurrence => attendedDates.includes(occurrence.date)),
+      );
+
+      if (conflict) {
+        res.status(409);
+        throw new Error(`This posting overlaps with "${conflict.posting_title}" on ${conflict.date}, which you are already enrolled in`);
+      }
+    }
+
     let enrollment: Enrollment | EnrollmentApplication | undefined;
 
-    if (posting.automatic_acceptance) {
+    if (isEnrolledRightAway) {
       enrollment = await executeTransaction(db, async (trx) => {
         const lockedPosting = await trx
           .selectFrom('posting')
@@ -669,21 +978,17 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
           throw new Error('This posting is closed and no longer accepting applications');
         }
 
-        if (!isPartial && lockedPosting.max_volunteers !== undefined && lockedPosting.max_volunteers !== null) {
-          const enrollmentCountRow = await trx
-            .selectFrom('enrollment')
-            .select(sql<number>`count(enrollment.id)`.as('count'))
-            .where('posting_id', '=', id)
-            .executeTakeFirst();
+        const lockedMaxVolunteers = role ? role.max_volunteers : lockedPosting.max_volunteers;
 
-          if (Number(enrollmentCountRow?.count ?? 0) >= lockedPosting.max_volunteers) {
+        if (!isPartial && lockedMaxVolunteers !== undefined && lockedMaxVolunteers !== null) {
+          if (await getEnrollmentCount(trx, id, role?.id) >= lockedMaxVolunteers) {
             res.status(403);
-            throw new Error('This posting has reached the maximum number of volunteers');
+            throw new Error(getCapacityReachedMessage(role));
           }
         }
 
         if (isPartial) {
-          const fullDates = await getFullSelectedDates(trx, id, selectedDates, lockedPosting.max_volunteers);
+          const fullDates = await getFullSelectedDates(trx, id, selectedDates, lockedMaxVolunteers, role?.id);
           if (fullDates.length > 0) {
             res.status(403);
             throw new Error(`Selected date ${fullDates[0]} is already full`);
@@ -695,6 +1000,7 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
           .values({
             volunteer_id: volunteerId,
             posting_id: id,
+            role_id: role?.id ?? null,
             message: message ?? undefined,
             attended: false,
           })
@@ -727,6 +1033,8 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
             .execute();
         }
 
+        await removeVolunteerFromWaitlist(trx, id, volunteerId, selectedDates);
+
         return createdEnrollment;
       });
     } else {
@@ -748,21 +1056,17 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
           throw new Error('This posting is closed and no longer accepting applications');
         }
 
-        if (!isPartial && lockedPosting.max_volunteers !== undefined && lockedPosting.max_volunteers !== null) {
-          const enrollmentCountRow = await trx
-            .selectFrom('enrollment')
-            .select(sql<number>`count(enrollment.id)`.as('count'))
-            .where('posting_id', '=', id)
-            .executeTakeFirst();
+        const lockedMaxVolunteers = role ? role.max_volunteers : lockedPosting.max_volunteers;
 
-          if (Number(enrollmentCountRow?.count ?? 0) >= lockedPosting.max_volunteers) {
+        if (!isPartial && lockedMaxVolunteers !== undefined && lockedMaxVolunteers !== null) {
+          if (await getEnrollmentCount(trx, id, role?.id) >= lockedMaxVolunteers) {
             res.status(403);
-            throw new Error('This posting has reached the maximum number of volunteers');
+            throw new Error(getCapacityReachedMessage(role));
           }
         }
 
         if (isPartial) {
-          const fullDates = await getFullSelectedDates(trx, id, selectedDates, lockedPosting.max_volunteers);
+          const fullDates = await getFullSelectedDates(trx, id, selectedDates, lockedMaxVolunteers, role?.id);
           if (fullDates.length > 0) {
             res.status(403);
             throw new Error(`Selected date ${fullDates[0]} is already full`);
@@ -774,7 +1078,9 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
           .values({
             volunteer_id: volunteerId,
             posting_id: id,
+            role_id: role?.id ?? null,
             message: message ?? undefined,
+            answers: JSON.stringify(applicationAnswers),
           })
           .returningAll()
           .executeTakeFirst();
@@ -793,6 +1099,17 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
             .execute();
         }
 
+        await removeVolunteerFromWaitlist(trx, id, volunteerId, selectedDates);
+
+        if (guardianEmail) {
+          consentRequest = await requestGuardianConsent(trx, {
+            postingId: id,
+            postingTitle: posting.title,
+            volunteerId,
+            guardianEmail,
+          });
+        }
+
         return createdApplication;
       });
     }
@@ -802,11 +1119,19 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
       throw new Error('Failed to create enrollment');
     }
 
-    if (posting.automatic_acceptance) {
+    if (isEnrolledRightAway) {
       await recomputePostingContextVectorOnly(id, db);
     }
 
-    res.json({ enrollment, isOpen: posting.automatic_acceptance });
+    if (consentRequest) {
+      await sendGuardianConsentRequest(db, consentRequest.consent, consentRequest.token);
+    }
+
+    res.json({
+      enrollment,
+      isOpen: isEnrolledRightAway,
+      guardian_consent: consentRequest ? toGuardianConsentSummary(consentRequest.consent) : null,
+    });
   });
 
   volunteerPostingRouter.delete('/:id/enroll', async (req, res: Response<VolunteerPostingWithdrawResponse>) => {
@@ -874,6 +1199,8 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
           .execute();
       }
 
+      await cancelUnusedGuardianConsents(trx, id, volunteerId);
+
       return { posting, enrollment, application };
     });
 
@@ -881,10 +1208,370 @@ function createVolunteerPostingRouter(db: Kysely<Database>) {
       await recomputeVolunteerExperienceVector(volunteerId, db);
     }
     await recomputePostingContextVectorOnly(id, db);
+    await promoteWaitlistedVolunteers(db, id);
 
     res.json({});
   });
 
+  volunteerPostingRouter.get('/:id/check-in-codes', async (req, res: Response<VolunteerPostingCheckInCodesResponse>) => {
+    const volunteerId = req.userJWT!.id;
+    const { id } = postingIdParamsSchema.parse(req.params);
+
+    const enrollment = await db
+      .selectFrom('enrollment')
+      .select('id')
+      .where('posting_id', '=', id)
+      .where('volunteer_id', '=', volunteerId)
+      .executeTakeFirst();
+
+    if (!enrollment) {
+      res.status(404);
+      throw new Error('You are not enrolled in this posting');
+    }
+
+    const enrollmentDates = await db
+      .selectFrom('enrollment_date')
+      .select([
+        'id',
+        sql<string>`to_char(enrollment_date.date, 'YYYY-MM-DD')`.as('date'),
+        'checked_in_at',
+        'checked_out_at',
+      ])
+      .where('enrollment_id', '=', enrollment.id)
+      .orderBy('date', 'asc')
+      .execute();
+
+    const codes = enrollmentDates.map((enrollmentDate) => {
+      const expiresAt = getCheckInTokenExpiry(enrollmentDate.date);
+
+      return {
+        enrollment_date_id: enrollmentDate.id,
+        date: enrollmentDate.date,
+        token: signCheckInToken({ enrollment_date_id: enrollmentDate.id, expires_at: expiresAt }, config.JWT_SECRET),
+        expires_at: expiresAt,
+        checked_in_at: enrollmentDate.checked_in_at,
+        checked_out_at: enrollmentDate.checked_out_at,
+      };
+    });
+
+    res.json({ codes });
+  });
+
+  volunteerPostingRouter.get('/:id/calendar.ics', async (req, res: Response<string>) => {
+    const volunteerId = req.userJWT!.id;
+    const { id } = postingIdParamsSchema.parse(req.params);
+
+    const events = await getVolunteerCalendarEvents(db, volunteerId, id);
+
+    if (events.length === 0) {
+      res.status(404);
+      throw new Error('You are not enrolled in this posting');
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="willing-posting-${id}.ics"`);
+    res.send(renderCalendar({ name: events[0]!.summary, events }));
+  });
+
+  volunteerPostingRouter.post('/:id/waitlist', async (req, res: Response<VolunteerPostingWaitlistResponse>) => {
+    const volunteerId = req.userJWT!.id;
+    const { id } = postingIdParamsSchema.parse(req.params);
+    const { message, dates, role_id: roleId, answers, guardian_email } = applyBodySchema.parse(req.body ?? {});
+
+    const { posting, role, postingDateKeys, applicationAnswers, guardianEmail } = await getEnrollablePosting(
+      db,
+      id,
+      volunteerId,
+      { roleId, answers, guardianEmail: guardian_email },
+      res,
+    );
+
+    const isPartial = Boolean(posting.allows_partial_attendance);
+    const maxVolunteers = role ? role.max_volunteers : posting.max_volunteers;
+    let waitlistDates: string[] = [];
+
+    if (isPartial) {
+      waitlistDates = resolveSelectedDates(dates, postingDateKeys, res);
+
+      const fullDates = await getFullSelectedDates(db, id, waitlistDates, maxVolunteers, role?.id);
+      const openDate = waitlistDates.find(date => !fullDates.includes(date));
+      if (openDate) {
+        res.status(409);
+        throw new Error(`Selected date ${openDate} still has open spots`);
+      }
+
+      const heldDates = await Promise.all([
+        db
+          .selectFrom('enrollment_date')
+          .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
+          .select(dateColumnAsIsoSql('enrollment_date.date').as('date'))
+          .where('enrollment.posting_id', '=', id)
+          .where('enrollment.volunteer_id', '=', volunteerId)
+          .execute(),
+        db
+          .selectFrom('enrollment_application_date')
+          .innerJoin('enrollment_application', 'enrollment_application.id', 'enrollment_application_date.application_id')
+          .select(dateColumnAsIsoSql('enrollment_application_date.date').as('date'))
+          .where('enrollment_application.posting_id', '=', id)
+          .where('enrollment_application.volunteer_id', '=', volunteerId)
+          .execute(),
+      ]);
+
+      const heldDate = heldDates.flat().find(row => waitlistDates.includes(row.date));
+      if (heldDate) {
+        res.status(409);
+        throw new Error(`You already have a spot on ${heldDate.date}`);
+      }
+    } else {
+      if (dates && dates.length > 0) {
+        res.status(400);
+        throw new Error('This posting requires full commitment; date selection is not allowed');
+      }
+
+      const [enrollmentCount, existingApplication, existingEnrollment] = await Promise.all([
+        getEnrollmentCount(db, id, role?.id),
+        db
+          .selectFrom('enrollment_application')
+          .select('id')
+          .where('posting_id', '=', id)
+          .where('volunteer_id', '=', volunteerId)
+          .executeTakeFirst(),
+        db
+          .selectFrom('enrollment')
+          .select('id')
+          .where('posting_id', '=', id)
+          .where('volunteer_id', '=', volunteerId)
+          .executeTakeFirst(),
+      ]);
+
+      if (existingApplication || existingEnrollment) {
+        res.status(409);
+        throw new Error('You are already enrolled or have already applied to this posting');
+      }
+
+      if (maxVolunteers == null || enrollmentCount < maxVolunteers) {
+        res.status(409);
+        throw new Error(role ? `The ${role.name} role still has open spots` : 'This posting still has open spots');
+      }
+    }
+
+    const consentRequest = await executeTransaction(db, async (trx) => {
+      const existingEntry = await trx
+        .selectFrom('waitlist_entry')
+        .select('id')
+        .where('posting_id', '=', id)
+        .where('volunteer_id', '=', volunteerId)
+        .executeTakeFirst();
+
+      if (existingEntry) {
+        res.status(409);
+        throw new Error('You are already on the waitlist for this posting');
+      }
+
+      const entry = await trx
+        .insertInto('waitlist_entry')
+        .values({
+          posting_id: id,
+          volunteer_id: volunteerId,
+          role_id: role?.id ?? null,
+          message: message ?? null,
+          answers: JSON.stringify(applicationAnswers),
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow();
+
+      if (waitlistDates.length > 0) {
+        await trx
+          .insertInto('waitlist_entry_date')
+          .values(waitlistDates.map(date => ({
+            waitlist_entry_id: entry.id,
+            date: toUtcDateOnly(date),
+          })))
+          .execute();
+      }
+
+      // Asking while on the waitlist lets the guardian answer before a spot opens up
+      return guardianEmail
+        ? requestGuardianConsent(trx, { postingId: id, postingTitle: posting.title, volunteerId, guardianEmail })
+        : undefined;
+    });
+
+    if (consentRequest) {
+      await sendGuardianConsentRequest(db, consentRequest.consent, consentRequest.token);
+    }
+
+    const waitlist = await getVolunteerWaitlistStatus(db, id, volunteerId);
+
+    if (!waitlist) {
+      res.status(500);
+      throw new Error('Failed to join the waitlist');
+    }
+
+    res.json({
+      waitlist,
+      guardian_consent: consentRequest ? toGuardianConsentSummary(consentRequest.consent) : null,
+    });
+  });
+
+  volunteerPostingRouter.delete('/:id/waitlist', async (req, res: Response<VolunteerPostingWaitlistLeaveResponse>) => {
+    const volunteerId = req.userJWT!.id;
+    const { id } = postingIdParamsSchema.parse(req.params);
+
+    const entry = await db
+      .selectFrom('waitlist_entry')
+      .select('id')
+      .where('posting_id', '=', id)
+      .where('volunteer_id', '=', volunteerId)
+      .executeTakeFirst();
+
+    if (!entry) {
+      res.status(404);
+      throw new Error('You are not on the waitlist for this posting');
+    }
+
+    await executeTransaction(db, async (trx) => {
+      await removeVolunteerFromWaitlist(trx, id, volunteerId);
+      await cancelUnusedGuardianConsents(trx, id, volunteerId);
+    });
+
+    res.json({});
+  });
+
+  volunteerPostingRouter.post('/:id/guardian-consent/resend', async (req, res: Response<VolunteerGuardianConsentResendResponse>) => {
+    const volunteerId = req.userJWT!.id;
+    const { id } = postingIdParamsSchema.parse(req.params);
+    const { guardian_email } = guardianConsentResendBodySchema.parse(req.body ?? {});
+
+    const [latestConsent, volunteer] = await Promise.all([
+      getLatestGuardianConsents(db, id, [volunteerId]).then(consents => consents.get(volunteerId)),
+      db
+        .selectFrom('volunteer_account')
+        .select('email')
+        .where('id', '=', volunteerId)
+        .executeTakeFirstOrThrow(),
+    ]);
+
+    if (!latestConsent || latestConsent.status !== 'pending') {
+      res.status(404);
+      throw new Error('There is no guardian consent request waiting for an answer');
+    }
+
+    if (latestConsent.created_at.getTime() > Date.now() - GUARDIAN_CONSENT_RESEND_COOLDOWN_MS) {
+      res.status(429);
+      throw new Error('Please wait a minute before sending the request again');
+    }
+
+    const guardianEmail = guardian_email ?? latestConsent.guardian_email;
+
+    if (guardianEmail === volunteer.email) {
+      res.status(400);
+      throw new Error('Please enter the email address of your parent or guardian, not your own');
+    }
+
+    const consentRequest = await executeTransaction(db, trx => requestGuardianConsent(trx, {
+      postingId: id,
+      postingTitle: latestConsent.posting_title,
+      volunteerId,
+      guardianEmail,
+    }));
+
+    await sendGuardianConsentRequest(db, consentRequest.consent, consentRequest.token);
+
+    res.json({ guardian_consent: toGuardianConsentSummary(consentRequest.consent) });
+  });
+
+  volunteerPostingRouter.post('/:id/bookmark', async (req, res: Response<VolunteerPostingBookmarkResponse>) => {
+    const { id } = postingIdParamsSchema.parse(req.params);
+
+    const posting = await db
+      .selectFrom('posting')
+      .select('id')
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    if (!posting) {
+      res.status(404);
+      throw new Error('Posting not found');
+    }
+
+    await db
+      .insertInto('posting_bookmark')
+      .values({ volunteer_id: req.userJWT!.id, posting_id: id })
+      .onConflict(oc => oc.columns(['volunteer_id', 'posting_id']).doNothing())
+      .execute();
+
+    res.json({ is_bookmarked: true });
+  });
+
+  volunteerPostingRouter.delete('/:id/bookmark', async (req, res: Response<VolunteerPostingBookmarkResponse>) => {
+    const { id } = postingIdParamsSchema.parse(req.params);
+
+    await db
+      .deleteFrom('posting_bookmark')
+      .where('posting_id', '=', id)
+      .where('volunteer_id', '=', req.userJWT!.id)
+      .execute();
+
+    res.json({ is_bookmarked: false });
+  });
+
+  volunteerPostingRouter.get('/:id/review', async (req, res: Response<VolunteerPostingReviewResponse>) => {
+    const { id } = postingIdParamsSchema.parse(req.params);
+
+    const enrollment = await getAttendedEnrollment(db, id, req.userJWT!.id);
+
+    const review = enrollment
+      ? await db
+          .selectFrom('posting_review')
+          .selectAll()
+          .where('enrollment_id', '=', enrollment.id)
+          .executeTakeFirst()
+      : undefined;
+
+    res.json({ can_review: Boolean(enrollment), review: review ?? null });
+  });
+
+  volunteerPostingRouter.put('/:id/review', async (req, res: Response<VolunteerPostingReviewResponse>) => {
+    const { id } = postingIdParamsSchema.parse(req.params);
+    const body = newPostingReviewSchema.parse(req.body);
+
+    const enrollment = await getAttendedEnrollment(db, id, req.userJWT!.id);
+
+    if (!enrollment) {
+      res.status(403);
+      throw new Error('You can only review postings you attended');
+    }
+
+    const review = await db
+      .insertInto('posting_review')
+      .values({
+        enrollment_id: enrollment.id,
+        posting_id: enrollment.posting_id,
+        volunteer_id: enrollment.volunteer_id,
+        rating: body.rating,
+        comment: body.comment,
+      })
+      .onConflict(oc => oc.column('enrollment_id').doUpdateSet({ rating: body.rating, comment: body.comment }))
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    res.json({ can_review: true, review });
+  });
+
+  volunteerPostingRouter.delete('/:id/review', async (req, res: Response<VolunteerPostingReviewResponse>) => {
+    const { id } = postingIdParamsSchema.parse(req.params);
+
+    await db
+      .deleteFrom('posting_review')
+      .where('posting_id', '=', id)
+      .where('volunteer_id', '=', req.userJWT!.id)
+      .execute();
+
+    const enrollment = await getAttendedEnrollment(db, id, req.userJWT!.id);
+
+    res.json({ can_review: Boolean(enrollment), review: null });
+  });
+
   return volunteerPostingRouter;
 }
 
@@ -1,24 +1,84 @@
-import { type Enrollment, type EnrollmentApplication } from '../../../db/tables/index.ts';
-import { type PostingWithContext, type SuccessResponse } from '../../../types.ts';
+import {
+  type Enrollment,
+  type EnrollmentApplication,
+  type GuardianConsentSummary,
+  type PostingQuestion,
+  type PostingReview,
+} from '../../../db/tables/index.ts';
+import {
+  type PostingWaitlistStatus,
+  type PostingWithContext,
+  type ScheduleConflict,
+  type SuccessResponse,
+} from '../../../types.ts';
 
 export type VolunteerEnrollmentsResponse = {
   postings: PostingWithContext[];
+  next_cursor: string | null;
+};
+
+export type VolunteerBookmarkedPostingsResponse = {
+  postings: PostingWithContext[];
+  next_cursor: string | null;
 };
 
 export type VolunteerPostingSearchResponse = {
   postings: PostingWithContext[];
+  next_cursor: string | null;
 };
 
 export type VolunteerPostingResponse = {
   posting: PostingWithContext;
   enrolled_dates?: string[];
   selected_dates?: string[];
+  selected_role_id?: number | null;
   posting_dates?: string[];
+  waitlist?: PostingWaitlistStatus | null;
+  is_bookmarked?: boolean;
+  questions?: PostingQuestion[];
+  guardian_consent?: GuardianConsentSummary | null;
+  needs_guardian_consent?: boolean;
+  schedule_conflicts?: ScheduleConflict[];
+  unavailable_dates?: string[];
 };
 
 export type VolunteerPostingEnrollResponse = {
   enrollment: Enrollment | EnrollmentApplication;
   isOpen: boolean;
+  guardian_consent: GuardianConsentSummary | null;
 };
 
 export type VolunteerPostingWithdrawResponse = SuccessResponse;
+
+export type VolunteerPostingCheckInCode = {
+  enrollment_date_id: number;
+  date: string;
+  token: string;
+  expires_at: Date;
+  checked_in_at: Date | null;
+  checked_out_at: Date | null;
+};
+
+export type VolunteerPostingCheckInCodesResponse = {
+  codes: VolunteerPostingCheckInCode[];
+};
+
+export type VolunteerPostingWaitlistResponse = {
+  waitlist: PostingWaitlistStatus;
+  guardian_consent: GuardianConsentSummary | null;
+};
+
+export type VolunteerPostingWaitlistLeaveResponse = SuccessResponse;
+
+export type VolunteerGuardianConsentResendResponse = {
+  guardian_consent: GuardianConsentSummary;
+};
+
+export type VolunteerPostingBookmarkResponse = {
+  is_bookmarked: boolean;
+};
+
+export type VolunteerPostingReviewResponse = {
+  can_review: boolean;
+  review: PostingReview | null;
+};
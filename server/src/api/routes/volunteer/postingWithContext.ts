@@ -1,6 +1,8 @@
 import { sql, type Kysely } from 'kysely';
 
 import { type Database } from '../../../db/tables/index.ts';
+import { getPostingRoles } from '../../../services/posting/postingRoles.ts';
+import { getPostingOccurrenceOverrides, postingOccurrencesExpression } from '../../../services/posting/postingSchedule.ts';
 import { hasPostingEnded } from '../../../services/posting/postingTime.ts';
 import { rejectEndedPendingApplicationsForPostings } from '../../../services/posting/rejectEndedPendingApplications.ts';
 import { type PostingWithContext, type PostingApplicationStatus } from '../../../types.ts';
@@ -22,6 +24,9 @@ export const postingWithContextSelectColumns = [
   'posting.automatic_acceptance',
   'posting.is_closed',
   'posting.allows_partial_attendance',
+  'posting.requires_guardian_consent',
+  'posting.recurrence_weekdays',
+  'posting.recurrence_interval',
   'posting.location_name',
   'posting.created_at',
   'posting.updated_at',
@@ -30,7 +35,7 @@ export const postingWithContextSelectColumns = [
   'organization_account.logo_path as organization_logo_path',
 ] as const;
 
-type PostingWithContextBase = Omit<PostingWithContext, 'skills' | 'enrollment_count' | 'application_status'>;
+type PostingWithContextBase = Omit<PostingWithContext, 'skills' | 'enrollment_count' | 'application_status' | 'occurrence_overrides' | 'roles'>;
 
 type BuildPostingsWithContextOptions = {
   volunteerId: number;
@@ -38,70 +43,27 @@ type BuildPostingsWithContextOptions = {
   applicationStatusByPostingId?: ReadonlyMap<number, Extract<PostingApplicationStatus, 'registered' | 'pending'>>;
 };
 
-const formatDateToIso = (date: Date) =>
-  `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`;
-const normalizeStoredDate = (value: Date | string | null | undefined) => {
-  if (value instanceof Date) return formatDateToIso(value);
-  if (typeof value === 'string') {
-    const datePart = value.split('T')[0]?.trim();
-    return datePart || undefined;
-  }
-  return undefined;
-};
-
-const parseIsoDateParts = (value: string) => {
-  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
-  if (!match) return undefined;
-
-  return {
-    year: Number(match[1]),
-    month: Number(match[2]),
-    day: Number(match[3]),
-  };
-};
-
-export const getPostingDates = (startDate: Date | string, endDate: Date | string | null | undefined): string[] => {
-  const normalizedStartDate = normalizeStoredDate(startDate);
-  const normalizedEndDate = normalizeStoredDate(endDate ?? startDate);
-  const startParts = normalizedStartDate ? parseIsoDateParts(normalizedStartDate) : undefined;
-  const endParts = normalizedEndDate ? parseIsoDateParts(normalizedEndDate) : undefined;
-
-  if (!startParts || !endParts) {
-    return [];
-  }
-
-  const result: string[] = [];
-  const current = new Date(Date.UTC(startParts.year, startParts.month - 1, startParts.day));
-  const end = new Date(Date.UTC(endParts.year, endParts.month - 1, endParts.day));
-
-  while (current.getTime() <= end.getTime()) {
-    result.push(formatDateToIso(current));
-    current.setUTCDate(current.getUTCDate() + 1);
-  }
-
-  return result;
-};
-
-export const isVolunteerPostingFull = (
-  posting: Pick<PostingWithContext, 'allows_partial_attendance' | 'max_volunteers' | 'enrollment_count' | 'start_date' | 'end_date' | 'date_capacity'>,
-) => {
-  const maxVolunteers = posting.max_volunteers;
-
-  if (maxVolunteers == null) {
-    return false;
-  }
-
-  if (!posting.allows_partial_attendance) {
-    return posting.enrollment_count >= maxVolunteers;
-  }
-
-  const postingDates = getPostingDates(posting.start_date, posting.end_date);
-  if (postingDates.length === 0) {
-    return false;
-  }
-
-  return postingDates.every(date => (posting.date_capacity?.[date] ?? 0) >= maxVolunteers);
-};
+/**
+ * Whether every seat is taken: all of them for full-attendance postings, or on every occurrence for partial ones.
+ * Must be used in a query that has `posting` in scope.
+ */
+export const volunteerPostingFullExpression = sql<boolean>`CASE
+  WHEN posting.max_volunteers IS NULL THEN false
+  WHEN NOT posting.allows_partial_attendance THEN (
+    SELECT count(*) FROM enrollment WHERE enrollment.posting_id = posting.id
+  ) >= posting.max_volunteers
+  ELSE EXISTS (SELECT 1 FROM ${postingOccurrencesExpression} AS occurrence)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM ${postingOccurrencesExpression} AS occurrence
+      WHERE (
+        SELECT count(*)
+        FROM enrollment_date
+        WHERE enrollment_date.posting_id = posting.id
+          AND enrollment_date.date = occurrence.date
+      ) < posting.max_volunteers
+    )
+END`;
 
 export async function buildPostingsWithContext(
   db: Kysely<Database>,
@@ -122,12 +84,14 @@ export async function buildPostingsWithContext(
 
   const postingIds = postings.map(posting => posting.id);
 
-  const [skills, enrollmentCounts, dateCapacities, volunteerEnrollments, volunteerPendingApplications] = await Promise.all([
+  const [skills, occurrenceOverrides, roles, enrollmentCounts, dateCapacities, volunteerEnrollments, volunteerPendingApplications] = await Promise.all([
     db
       .selectFrom('posting_skill')
       .selectAll()
       .where('posting_id', 'in', postingIds)
       .execute(),
+    getPostingOccurrenceOverrides(db, postingIds),
+    getPostingRoles(db, postingIds),
     db
       .selectFrom('enrollment')
       .select([
@@ -209,6 +173,8 @@ export async function buildPostingsWithContext(
     ...posting,
     crisis_name: posting.crisis_name ?? null,
     skills: skillsByPostingId.get(posting.id) ?? [],
+    occurrence_overrides: occurrenceOverrides.get(posting.id) ?? [],
+    roles: roles.get(posting.id) ?? [],
     enrollment_count: countsByPostingId.get(posting.id) ?? 0,
     has_ended: hasPostingEnded(posting),
     date_capacity: dateCapacityByPostingId.get(posting.id) ?? {},
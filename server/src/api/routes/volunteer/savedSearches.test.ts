@@ -0,0 +1,205 @@
+import supertest from 'supertest';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import createApp from '../../../app.ts';
+import database from '../../../db/index.ts';
+import { savedSearchFiltersSchema } from '../../../db/tables/index.ts';
+import * as emailService from '../../../services/resend/emails.ts';
+import { matchSavedSearchesForPosting, sendDueSavedSearchDigests } from '../../../services/savedSearches/index.ts';
+import { createOrganizationAccount, createVolunteerAccount } from '../../../tests/fixtures/accounts.ts';
+import { createPosting } from '../../../tests/fixtures/organizationData.ts';
+import { authHeader } from '../../../tests/helpers/authHeader.ts';
+
+import type { Database } from '../../../db/tables/index.ts';
+import type { ControlledTransaction } from 'kysely';
+import type TestAgent from 'supertest/lib/agent.js';
+
+let transaction: ControlledTransaction<Database>;
+let server: TestAgent;
+
+beforeEach(async () => {
+  transaction = await database.startTransaction().execute();
+  server = supertest(createApp(transaction));
+});
+
+afterEach(async () => {
+  await transaction.rollback().execute();
+  vi.restoreAllMocks();
+});
+
+describe('/volunteer/saved-searches', () => {
+  test('creates, lists, updates and deletes the caller\'s saved searches', async () => {
+    const { token } = await createVolunteerAccount(transaction, { email: 'saved-search-crud@example.com' });
+    const { token: otherToken } = await createVolunteerAccount(transaction, { email: 'saved-search-crud-other@example.com' });
+
+    const createResponse = await server
+      .post('/volunteer/saved-searches')
+      .set(authHeader(token))
+      .send({ name: '  Weekend cleanups ', filters: { search: 'cleanup', hide_full: true } })
+      .expect(201);
+
+    const savedSearch = createResponse.body.saved_search;
+    expect(savedSearch).toMatchObject({
+      name: 'Weekend cleanups',
+      alert_frequency: 'immediate',
+      filters: { search: 'cleanup', skill_id: null, posting_filter: 'all', crisis_id: null, near: null, hide_full: true },
+    });
+
+    const listResponse = await server
+      .get('/volunteer/saved-searches')
+      .set(authHeader(token))
+      .expect(200);
+    expect(listResponse.body.saved_searches.map((search: { id: number }) => search.id)).toEqual([savedSearch.id]);
+
+    await server
+      .get(`/volunteer/saved-searches/${savedSearch.id}`)
+      .set(authHeader(otherToken))
+      .expect(404);
+
+    const updateResponse = await server
+      .put(`/volunteer/saved-searches/${savedSearch.id}`)
+      .set(authHeader(token))
+      .send({ alert_frequency: 'daily' })
+      .expect(200);
+    expect(updateResponse.body.saved_search).toMatchObject({ name: 'Weekend cleanups', alert_frequency: 'daily' });
+
+    await server
+      .put(`/volunteer/saved-searches/${savedSearch.id}`)
+      .set(authHeader(token))
+      .send({ alert_frequency: 'hourly' })
+      .expect(400);
+
+    await server
+      .delete(`/volunteer/saved-searches/${savedSearch.id}`)
+      .set(authHeader(otherToken))
+      .expect(404);
+
+    await server
+      .delete(`/volunteer/saved-searches/${savedSearch.id}`)
+      .set(authHeader(token))
+      .expect(200);
+  });
+
+  test('rejects invalid filters', async () => {
+    const { token } = await createVolunteerAccount(transaction, { email: 'saved-search-invalid@example.com' });
+
+    await server
+      .post('/volunteer/saved-searches')
+      .set(authHeader(token))
+      .send({ name: 'Bad dates', filters: { start_date_from: '01/02/2099' } })
+      .expect(400);
+
+    await server
+      .post('/volunteer/saved-searches')
+      .set(authHeader(token))
+      .send({ name: '', filters: {} })
+      .expect(400);
+  });
+});
+
+describe('Saved search alerts', () => {
+  test('alerts immediate searches once per matching posting', async () => {
+    const alertEmailSpy = vi.spyOn(emailService, 'sendSavedSearchAlertEmail').mockResolvedValue(undefined);
+    const { organization } = await createOrganizationAccount(transaction, { email: 'saved-search-alert-org@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'saved-search-alert-vol@example.com' });
+
+    await server
+      .post('/volunteer/saved-searches')
+      .set(authHeader(token))
+      .send({ name: 'Food drives', filters: { search: 'food' } })
+      .expect(201);
+
+    const matching = await createPosting(transaction, { organizationId: organization.id, title: 'Food Bank Packing' });
+    const other = await createPosting(transaction, { organizationId: organization.id, title: 'Beach Cleanup' });
+
+    expect(await matchSavedSearchesForPosting(transaction, matching.id)).toBe(1);
+    expect(await matchSavedSearchesForPosting(transaction, matching.id)).toBe(0);
+    expect(await matchSavedSearchesForPosting(transaction, other.id)).toBe(0);
+
+    expect(alertEmailSpy).toHaveBeenCalledTimes(1);
+    expect(alertEmailSpy.mock.calls[0]![0]).toMatchObject({
+      savedSearchName: 'Food drives',
+      postings: [{ id: matching.id, title: 'Food Bank Packing' }],
+      digest: false,
+    });
+
+    const response = await server
+      .get('/user/notifications')
+      .set(authHeader(token))
+      .expect(200);
+
+    expect(response.body.notifications).toHaveLength(1);
+    expect(response.body.notifications[0]).toMatchObject({
+      type: 'saved_search_match',
+      link: `/posting/${matching.id}`,
+    });
+  });
+
+  test('collects daily matches into a single digest', async () => {
+    const alertEmailSpy = vi.spyOn(emailService, 'sendSavedSearchAlertEmail').mockResolvedValue(undefined);
+    const { organization } = await createOrganizationAccount(transaction, { email: 'saved-search-digest-org@example.com' });
+    const { token } = await createVolunteerAccount(transaction, { email: 'saved-search-digest-vol@example.com' });
+
+    const createResponse = await server
+      .post('/volunteer/saved-searches')
+      .set(authHeader(token))
+      .send({ name: 'Tutoring', filters: { search: 'tutoring' }, alert_frequency: 'daily' })
+      .expect(201);
+    const savedSearchId = createResponse.body.saved_search.id;
+
+    const first = await createPosting(transaction, { organizationId: organization.id, title: 'Math Tutoring' });
+    const second = await createPosting(transaction, { organizationId: organization.id, title: 'Reading Tutoring' });
+
+    expect(await matchSavedSearchesForPosting(transaction, first.id)).toBe(1);
+    expect(await matchSavedSearchesForPosting(transaction, second.id)).toBe(1);
+    expect(alertEmailSpy).not.toHaveBeenCalled();
+
+    expect(await sendDueSavedSearchDigests(transaction, new Date('2099-01-10T09:00:00.000Z'))).toBe(1);
+    expect(await sendDueSavedSearchDigests(transaction, new Date('2099-01-11T09:00:00.000Z'))).toBe(0);
+
+    expect(alertEmailSpy).toHaveBeenCalledTimes(1);
+    expect(alertEmailSpy.mock.calls[0]![0]).toMatchObject({
+      savedSearchId,
+      digest: true,
+      postings: [{ id: first.id }, { id: second.id }],
+    });
+  });
+
+  test('matches every saved search when there are more than fit in one batch', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'saved-search-batch-org@example.com' });
+    const { volunteer } = await createVolunteerAccount(transaction, { email: 'saved-search-batch-vol@example.com' });
+
+    await transaction
+      .insertInto('saved_search')
+      .values(Array.from({ length: 250 }, (_, index) => ({
+        volunteer_id: volunteer.id,
+        name: `Search ${index}`,
+        filters: JSON.stringify(savedSearchFiltersSchema.parse({ search: index % 2 === 0 ? 'gardening' : 'welding' })),
+        alert_frequency: 'daily' as const,
+      })))
+      .execute();
+
+    const posting = await createPosting(transaction, { organizationId: organization.id, title: 'Community Gardening' });
+
+    expect(await matchSavedSearchesForPosting(transaction, posting.id)).toBe(125);
+  });
+
+  test('matches saved searches stored before skills had IDs', async () => {
+    const { organization } = await createOrganizationAccount(transaction, { email: 'saved-search-legacy-org@example.com' });
+    const { volunteer } = await createVolunteerAccount(transaction, { email: 'saved-search-legacy-vol@example.com' });
+
+    await transaction
+      .insertInto('saved_search')
+      .values({
+        volunteer_id: volunteer.id,
+        name: 'Old search',
+        filters: JSON.stringify({ search: 'pantry', skill: '', posting_filter: 'all', crisis_id: null, near: null, hide_full: false }),
+        alert_frequency: 'daily',
+      })
+      .execute();
+
+    const posting = await createPosting(transaction, { organizationId: organization.id, title: 'Pantry Restock' });
+
+    expect(await matchSavedSearchesForPosting(transaction, posting.id)).toBe(1);
+  });
+});
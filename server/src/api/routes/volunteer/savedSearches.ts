@@ -0,0 +1,159 @@
+import { Router, type Response } from 'express';
+import { type Kysely } from 'kysely';
+import zod from 'zod';
+
+import {
+  type VolunteerSavedSearchDeleteResponse,
+  type VolunteerSavedSearchesResponse,
+  type VolunteerSavedSearchResponse,
+} from './savedSearches.types.ts';
+import executeTransaction from '../../../db/executeTransaction.ts';
+import {
+  newSavedSearchSchema,
+  updateSavedSearchSchema,
+  type Database,
+} from '../../../db/tables/index.ts';
+import { MAX_SAVED_SEARCHES_PER_VOLUNTEER } from '../../../services/savedSearches/index.ts';
+
+const savedSearchIdParamsSchema = zod.object({
+  id: zod.coerce.number().int().positive('ID must be a positive number'),
+});
+
+const savedSearchColumns = [
+  'id',
+  'volunteer_id',
+  'name',
+  'filters',
+  'alert_frequency',
+  'created_at',
+  'updated_at',
+] as const;
+
+function createVolunteerSavedSearchesRouter(db: Kysely<Database>) {
+  const savedSearchesRouter = Router();
+
+  savedSearchesRouter.get('/', async (req, res: Response<VolunteerSavedSearchesResponse>) => {
+    const savedSearches = await db
+      .selectFrom('saved_search')
+      .select(savedSearchColumns)
+      .where('volunteer_id', '=', req.userJWT!.id)
+      .orderBy('created_at', 'desc')
+      .orderBy('id', 'desc')
+      .execute();
+
+    res.json({ saved_searches: savedSearches });
+  });
+
+  savedSearchesRouter.get('/:id', async (req, res: Response<VolunteerSavedSearchResponse>) => {
+    const { id } = savedSearchIdParamsSchema.parse(req.params);
+
+    const savedSearch = await db
+      .selectFrom('saved_search')
+      .select(savedSearchColumns)
+      .where('id', '=', id)
+      .where('volunteer_id', '=', req.userJWT!.id)
+      .executeTakeFirst();
+
+    if (!savedSearch) {
+      res.status(404);
+      throw new Error('Saved search not found');
+    }
+
+    res.json({ saved_search: savedSearch });
+  });
+
+  savedSearchesRouter.post('/', async (req, res: Response<VolunteerSavedSearchResponse>) => {
+    const volunteerId = req.userJWT!.id;
+    const body = newSavedSearchSchema.parse(req.body);
+
+    const { count } = await db
+      .selectFrom('saved_search')
+      .select(eb => eb.fn.countAll<number>().as('count'))
+      .where('volunteer_id', '=', volunteerId)
+      .executeTakeFirstOrThrow();
+
+    if (Number(count) >= MAX_SAVED_SEARCHES_PER_VOLUNTEER) {
+      res.status(400);
+      throw new Error(`You can save up to ${MAX_SAVED_SEARCHES_PER_VOLUNTEER} searches`);
+    }
+
+    const savedSearch = await db
+      .insertInto('saved_search')
+      .values({
+        volunteer_id: volunteerId,
+        name: body.name,
+        filters: JSON.stringify(body.filters),
+        alert_frequency: body.alert_frequency,
+      })
+      .returning(savedSearchColumns)
+      .executeTakeFirstOrThrow();
+
+    res.status(201).json({ saved_search: savedSearch });
+  });
+
+  savedSearchesRouter.put('/:id', async (req, res: Response<VolunteerSavedSearchResponse>) => {
+    const volunteerId = req.userJWT!.id;
+    const { id } = savedSearchIdParamsSchema.parse(req.params);
+    const { filters, ...body } = updateSavedSearchSchema.parse(req.body);
+
+    const savedSearch = await executeTransaction(db, async (trx) => {
+      const existing = await trx
+        .selectFrom('saved_search')
+        .select('alert_frequency')
+        .where('id', '=', id)
+        .where('volunteer_id', '=', volunteerId)
+        .forUpdate()
+        .executeTakeFirst();
+
+      if (!existing) return undefined;
+
+      // Matches waiting for a digest are dropped once the search stops sending digests
+      if (body.alert_frequency && body.alert_frequency !== existing.alert_frequency) {
+        await trx
+          .updateTable('saved_search_match')
+          .set({ notified_at: new Date() })
+          .where('saved_search_id', '=', id)
+          .where('notified_at', 'is', null)
+          .execute();
+      }
+
+      return trx
+        .updateTable('saved_search')
+        .set({
+          ...body,
+          ...(filters ? { filters: JSON.stringify(filters) } : {}),
+        })
+        .where('id', '=', id)
+        .returning(savedSearchColumns)
+        .executeTakeFirstOrThrow();
+    });
+
+    if (!savedSearch) {
+      res.status(404);
+      throw new Error('Saved search not found');
+    }
+
+    res.json({ saved_search: savedSearch });
+  });
+
+  savedSearchesRouter.delete('/:id', async (req, res: Response<VolunteerSavedSearchDeleteResponse>) => {
+    const { id } = savedSearchIdParamsSchema.parse(req.params);
+
+    const result = await db
+      .deleteFrom('saved_search')
+      .where('id', '=', id)
+      .where('volunteer_id', '=', req.userJWT!.id)
+      .executeTakeFirst();
+
+    if (Number(result.numDeletedRows) === 0) {
+      res.status(404);
+      throw new Error('Saved search not found');
+    }
+
+    res.json({});
+  });
+
+  return savedSearchesRouter;
+}
+
+export default createVolunteerSavedSearchesRouter;
@@ -0,0 +1,11 @@
+import { type SavedSearch } from '../../../db/tables/index.ts';
+
+export type VolunteerSavedSearchesResponse = {
+  saved_searches: SavedSearch[];
+};
+
+export type VolunteerSavedSearchResponse = {
+  saved_search: SavedSearch;
+};
+
+export type VolunteerSavedSearchDeleteResponse = Record<string, never>;
@@ -1,17 +1,32 @@
 export * from './routes/user.types.ts';
+export * from './routes/notifications.types.ts';
+export * from './routes/calendar.types.ts';
 export * from './routes/public.types.ts';
+export * from './routes/skills.types.ts';
 
 export * from './routes/admin/index.types.ts';
+export * from './routes/admin/auditLog.types.ts';
 export * from './routes/admin/crises.types.ts';
+export * from './routes/admin/skills.types.ts';
 export * from './routes/admin/certificateSettings.types.ts';
+export * from './routes/admin/issuedCertificates.types.ts';
+export * from './routes/admin/jobs.types.ts';
 
 export * from './routes/volunteer/index.types.ts';
 export * from './routes/volunteer/posting.types.ts';
 export * from './routes/volunteer/cv.types.ts';
+export * from './routes/volunteer/savedSearches.types.ts';
+export * from './routes/volunteer/organizationFollows.types.ts';
+export * from './routes/volunteer/availability.types.ts';
+export * from './routes/volunteer/messages.types.ts';
 
 export * from './routes/organization/index.types.ts';
 export * from './routes/organization/posting.types.ts';
 export * from './routes/organization/attendance.types.ts';
+export * from './routes/organization/feedback.types.ts';
 export * from './routes/organization/certificateInfo.types.ts';
+export * from './routes/organization/issuedCertificates.types.ts';
+export * from './routes/organization/members.types.ts';
+export * from './routes/organization/messages.types.ts';
 
 export * from './routes/geocoding.types.ts';
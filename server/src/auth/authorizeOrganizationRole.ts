@@ -0,0 +1,16 @@
+import { type RequestHandler } from 'express';
+
+import { type OrganizationMemberRole } from '../db/tables/index.ts';
+
+const authorizeOrganizationRole = (...roles: OrganizationMemberRole[]) => {
+  return ((req, res, next) => {
+    if (!req.organizationRole || !roles.includes(req.organizationRole)) {
+      res.status(403);
+      next(new Error('Your organization role does not allow this action'));
+    } else {
+      next();
+    }
+  }) as RequestHandler;
+};
+
+export default authorizeOrganizationRole;
@@ -22,13 +22,47 @@ export default function createResetPassword(database: Kysely<Database>) {
 
     const userJWT = (req as Request & { userJWT: UserJWT }).userJWT;
 
+    if (userJWT.member_id !== undefined) {
+      const member = await database
+        .selectFrom('organization_member')
+        .select('password')
+        .where('id', '=', userJWT.member_id)
+        .executeTakeFirstOrThrow();
+
+      const valid = member.password !== null && await compare(body.currentPassword, member.password);
+      if (!valid) {
+        res.status(403);
+        throw new Error('Incorrect password');
+      }
+
+      const { token_version } = await database
+        .updateTable('organization_member')
+        .where('id', '=', userJWT.member_id)
+        .set({
+          password: await hash(body.newPassword),
+          token_version: sql`token_version + 1`,
+        })
+        .returning('token_version')
+        .executeTakeFirstOrThrow();
+
+      const token = await generateJWT({
+        id: userJWT.id,
+        role: userJWT.role,
+        token_version,
+        member_id: userJWT.member_id,
+      });
+
+      res.json({ token });
+      return;
+    }
+
     const role = userJWT.role;
 
     const accountTable = {
       admin: 'admin_account',
       organization: 'organization_account',
       volunteer: 'volunteer_account',
-    }[role] as keyof Database;
+    }[role] as 'admin_account' | 'organization_account' | 'volunteer_account';
 
     const { password: currentPasswordHash } = await database
       .selectFrom(accountTable)
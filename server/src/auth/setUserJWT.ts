@@ -40,6 +40,38 @@ const createSetUserJWT = (db: Kysely<Database>) => {
         return;
       }
 
+      if (payload.role === 'organization' && payload.member_id !== undefined) {
+        const memberRow = await db
+          .selectFrom('organization_member')
+          .innerJoin('organization_account', 'organization_account.id', 'organization_member.organization_id')
+          .select([
+            'organization_member.role',
+            'organization_member.token_version',
+            'organization_member.removed_at',
+            'organization_account.is_deleted',
+            'organization_account.is_disabled',
+          ])
+          .where('organization_member.id', '=', payload.member_id)
+          .where('organization_member.organization_id', '=', payload.id)
+          .executeTakeFirst();
+
+        if (
+          memberRow
+          && Number(memberRow.token_version) === payload.token_version
+          && !memberRow.removed_at
+          && !memberRow.is_deleted
+          && !memberRow.is_disabled
+        ) {
+          req.userJWT = payload;
+          req.organizationRole = memberRow.role;
+        } else {
+          _res.setHeader('x-jwt-status', 'invalid');
+        }
+
+        next();
+        return;
+      }
+
       const accountTable = payload.role === 'organization' ? 'organization_account' : 'volunteer_account';
       const row = await db
         .selectFrom(accountTable)
@@ -51,6 +83,10 @@ const createSetUserJWT = (db: Kysely<Database>) => {
 
       if (row && rowTokenVersion === payload.token_version && !row.is_deleted && !row.is_disabled) {
         req.userJWT = payload;
+        // The organization's own account has full control
+        if (payload.role === 'organization') {
+          req.organizationRole = 'owner';
+        }
       } else {
         _res.setHeader('x-jwt-status', 'invalid');
       }
@@ -45,6 +45,7 @@ const schema = zod.object({
 
   JWT_SECRET: zod.string().min(1),
   CERTIFICATE_VERIFICATION_SECRET: zod.string().min(1),
+  CERTIFICATE_SIGNING_KEY: optionalInDev(zod.string().optional()),
   UPLOAD_DIR: zod.string(),
 
   WILLING_SENDER_EMAIL: optionalInDev(zod.email().optional()),
@@ -52,12 +53,18 @@ const schema = zod.object({
   RESEND_API_KEY: optionalInDev(zod.string().startsWith('re_').optional()),
   OPENAI_API_KEY: optionalInDev(zod.string().optional()),
   LOCATION_IQ_API_KEY: optionalInDev(zod.string().optional()),
+
+  SHIFT_REMINDER_HOURS: zod.string()
+    .default('24,2')
+    .transform(value => value.split(',').map(hours => Number(hours.trim())))
+    .pipe(zod.array(zod.number().int().positive('Reminder hours must be positive whole numbers')).min(1)),
+  SAVED_SEARCH_DIGEST_HOUR: zod.coerce.number().int().min(0).max(23).default(8),
 })
   .superRefine((values: Record<string, unknown>, ctx: zod.RefinementCtx) => {
     if (values.NODE_ENV !== 'production') return;
 
     const prodRequired: (keyof typeof values)[] = [
-      'WILLING_SENDER_EMAIL', 'RESEND_API_KEY', 'LOCATION_IQ_API_KEY', 'OPENAI_API_KEY',
+      'WILLING_SENDER_EMAIL', 'RESEND_API_KEY', 'LOCATION_IQ_API_KEY', 'OPENAI_API_KEY', 'CERTIFICATE_SIGNING_KEY',
     ];
 
     prodRequired.forEach((key) => {
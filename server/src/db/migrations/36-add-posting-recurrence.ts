@@ -0,0 +1,34 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('posting')
+    .addColumn('recurrence_weekdays', sql`integer[]`)
+    .addColumn('recurrence_interval', 'integer', col => col.notNull().defaultTo(1))
+    .execute();
+
+  await db.schema
+    .createTable('posting_occurrence_override')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('posting_id', 'integer', col =>
+      col.notNull().references('posting.id').onDelete('cascade'),
+    )
+    .addColumn('date', 'date', col => col.notNull())
+    .addColumn('is_skipped', 'boolean', col => col.notNull().defaultTo(false))
+    .addColumn('start_time', 'time')
+    .addColumn('end_time', 'time')
+    .addUniqueConstraint('posting_occurrence_override_posting_date_unique', ['posting_id', 'date'])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .dropTable('posting_occurrence_override')
+    .execute();
+
+  await db.schema
+    .alterTable('posting')
+    .dropColumn('recurrence_weekdays')
+    .dropColumn('recurrence_interval')
+    .execute();
+}
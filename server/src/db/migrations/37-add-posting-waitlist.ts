@@ -0,0 +1,37 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('waitlist_entry')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('posting_id', 'integer', col =>
+      col.notNull().references('posting.id').onDelete('cascade'),
+    )
+    .addColumn('volunteer_id', 'integer', col =>
+      col.notNull().references('volunteer_account.id').onDelete('cascade'),
+    )
+    .addColumn('message', 'text')
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addUniqueConstraint('waitlist_entry_posting_volunteer_unique', ['posting_id', 'volunteer_id'])
+    .execute();
+
+  await db.schema
+    .createTable('waitlist_entry_date')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('waitlist_entry_id', 'integer', col =>
+      col.notNull().references('waitlist_entry.id').onDelete('cascade'),
+    )
+    .addColumn('date', 'date', col => col.notNull())
+    .addUniqueConstraint('waitlist_entry_date_entry_date_unique', ['waitlist_entry_id', 'date'])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .dropTable('waitlist_entry_date')
+    .execute();
+
+  await db.schema
+    .dropTable('waitlist_entry')
+    .execute();
+}
@@ -0,0 +1,43 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('notification')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('user_id', 'integer', col => col.notNull())
+    .addColumn('role', 'varchar(32)', col => col.notNull())
+    .addColumn('type', 'varchar(64)', col => col.notNull())
+    .addColumn('title', 'varchar(256)', col => col.notNull())
+    .addColumn('message', 'text', col => col.notNull())
+    .addColumn('link', 'varchar(512)')
+    .addColumn('read_at', 'timestamp')
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .execute();
+
+  await db.schema
+    .createIndex('notification_user_role_created_at_index')
+    .on('notification')
+    .columns(['user_id', 'role', 'created_at'])
+    .execute();
+
+  await db.schema
+    .createTable('notification_preference')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('user_id', 'integer', col => col.notNull())
+    .addColumn('role', 'varchar(32)', col => col.notNull())
+    .addColumn('type', 'varchar(64)', col => col.notNull())
+    .addColumn('email_enabled', 'boolean', col => col.notNull().defaultTo(true))
+    .addColumn('in_app_enabled', 'boolean', col => col.notNull().defaultTo(true))
+    .addUniqueConstraint('notification_preference_user_role_type_unique', ['user_id', 'role', 'type'])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .dropTable('notification_preference')
+    .execute();
+
+  await db.schema
+    .dropTable('notification')
+    .execute();
+}
@@ -0,0 +1,64 @@
+import { type Kysely } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('posting_role')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('posting_id', 'integer', col =>
+      col.notNull().references('posting.id').onDelete('cascade'),
+    )
+    .addColumn('name', 'varchar(64)', col => col.notNull())
+    .addColumn('max_volunteers', 'integer')
+    .addColumn('minimum_age', 'integer')
+    .addUniqueConstraint('posting_role_posting_name_unique', ['posting_id', 'name'])
+    .execute();
+
+  await db.schema
+    .createTable('posting_role_skill')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('role_id', 'integer', col =>
+      col.notNull().references('posting_role.id').onDelete('cascade'),
+    )
+    .addColumn('name', 'varchar(64)', col => col.notNull())
+    .execute();
+
+  await db.schema
+    .alterTable('enrollment')
+    .addColumn('role_id', 'integer', col => col.references('posting_role.id').onDelete('set null'))
+    .execute();
+
+  await db.schema
+    .alterTable('enrollment_application')
+    .addColumn('role_id', 'integer', col => col.references('posting_role.id').onDelete('set null'))
+    .execute();
+
+  await db.schema
+    .alterTable('waitlist_entry')
+    .addColumn('role_id', 'integer', col => col.references('posting_role.id').onDelete('cascade'))
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('waitlist_entry')
+    .dropColumn('role_id')
+    .execute();
+
+  await db.schema
+    .alterTable('enrollment_application')
+    .dropColumn('role_id')
+    .execute();
+
+  await db.schema
+    .alterTable('enrollment')
+    .dropColumn('role_id')
+    .execute();
+
+  await db.schema
+    .dropTable('posting_role_skill')
+    .execute();
+
+  await db.schema
+    .dropTable('posting_role')
+    .execute();
+}
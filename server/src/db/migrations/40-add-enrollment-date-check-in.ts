@@ -0,0 +1,17 @@
+import { type Kysely } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('enrollment_date')
+    .addColumn('checked_in_at', 'timestamp')
+    .addColumn('checked_out_at', 'timestamp')
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('enrollment_date')
+    .dropColumn('checked_out_at')
+    .dropColumn('checked_in_at')
+    .execute();
+}
@@ -0,0 +1,47 @@
+import { type Kysely } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('issued_certificate')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('volunteer_id', 'integer', col =>
+      col.notNull().references('volunteer_account.id').onDelete('cascade'),
+    )
+    .addColumn('token_hash', 'varchar(64)', col => col.notNull().unique())
+    .addColumn('total_hours', 'numeric', col => col.notNull())
+    .addColumn('issued_at', 'timestamp', col => col.notNull())
+    .addColumn('revoked_at', 'timestamp')
+    .addColumn('revocation_reason', 'text')
+    .addColumn('revoked_by_role', 'varchar(32)')
+    .addColumn('revoked_by_id', 'integer')
+    .execute();
+
+  await db.schema
+    .createIndex('issued_certificate_volunteer_id_index')
+    .on('issued_certificate')
+    .column('volunteer_id')
+    .execute();
+
+  await db.schema
+    .createTable('issued_certificate_organization')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('certificate_id', 'integer', col =>
+      col.notNull().references('issued_certificate.id').onDelete('cascade'),
+    )
+    .addColumn('organization_id', 'integer', col =>
+      col.notNull().references('organization_account.id').onDelete('cascade'),
+    )
+    .addColumn('hours', 'numeric', col => col.notNull())
+    .addUniqueConstraint('issued_certificate_organization_unique', ['certificate_id', 'organization_id'])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .dropTable('issued_certificate_organization')
+    .execute();
+
+  await db.schema
+    .dropTable('issued_certificate')
+    .execute();
+}
@@ -0,0 +1,28 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('certificate_signing_key')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('kid', 'varchar(32)', col => col.notNull().unique())
+    .addColumn('public_key', 'varchar(64)', col => col.notNull())
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addColumn('retired_at', 'timestamp')
+    .execute();
+
+  await db.schema
+    .alterTable('issued_certificate')
+    .addColumn('token', 'text')
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('issued_certificate')
+    .dropColumn('token')
+    .execute();
+
+  await db.schema
+    .dropTable('certificate_signing_key')
+    .execute();
+}
@@ -0,0 +1,65 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('organization_member')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('organization_id', 'integer', col =>
+      col.notNull().references('organization_account.id').onDelete('cascade'),
+    )
+    .addColumn('email', 'varchar(128)', col => col.notNull())
+    .addColumn('first_name', 'varchar(64)')
+    .addColumn('last_name', 'varchar(64)')
+    .addColumn('password', 'varchar(256)')
+    .addColumn('role', 'varchar(32)', col => col.notNull())
+    .addColumn('token_version', 'integer', col => col.notNull().defaultTo(0))
+    .addColumn('invite_token_hash', 'varchar(64)', col => col.unique())
+    .addColumn('invite_expires_at', 'timestamp')
+    .addColumn('joined_at', 'timestamp')
+    .addColumn('removed_at', 'timestamp')
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .execute();
+
+  // Removed members keep their row so the actions they recorded stay attributed
+  await db.schema
+    .createIndex('organization_member_active_email_unique')
+    .on('organization_member')
+    .column('email')
+    .unique()
+    .where(sql.ref('removed_at'), 'is', null)
+    .execute();
+
+  await db.schema
+    .createIndex('organization_member_organization_id_index')
+    .on('organization_member')
+    .column('organization_id')
+    .execute();
+
+  await db.schema
+    .alterTable('enrollment')
+    .addColumn('accepted_by_member_id', 'integer', col => col.references('organization_member.id').onDelete('set null'))
+    .addColumn('attendance_marked_by_member_id', 'integer', col => col.references('organization_member.id').onDelete('set null'))
+    .execute();
+
+  await db.schema
+    .alterTable('enrollment_date')
+    .addColumn('attendance_marked_by_member_id', 'integer', col => col.references('organization_member.id').onDelete('set null'))
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('enrollment_date')
+    .dropColumn('attendance_marked_by_member_id')
+    .execute();
+
+  await db.schema
+    .alterTable('enrollment')
+    .dropColumn('accepted_by_member_id')
+    .dropColumn('attendance_marked_by_member_id')
+    .execute();
+
+  await db.schema
+    .dropTable('organization_member')
+    .execute();
+}
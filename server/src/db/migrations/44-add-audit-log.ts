@@ -0,0 +1,51 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('audit_log')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('actor_role', 'varchar(32)', col => col.notNull())
+    .addColumn('actor_id', 'integer', col => col.notNull())
+    .addColumn('action', 'varchar(64)', col => col.notNull())
+    .addColumn('entity_type', 'varchar(64)', col => col.notNull())
+    .addColumn('entity_id', 'integer', col => col.notNull())
+    .addColumn('before', 'jsonb')
+    .addColumn('after', 'jsonb')
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .execute();
+
+  await db.schema
+    .createIndex('audit_log_created_at_index')
+    .on('audit_log')
+    .columns(['created_at', 'id'])
+    .execute();
+
+  await db.schema
+    .createIndex('audit_log_entity_index')
+    .on('audit_log')
+    .columns(['entity_type', 'entity_id'])
+    .execute();
+
+  // Entries must survive even if the code writing them has a bug, so the table rejects changes
+  await sql`
+    CREATE FUNCTION prevent_audit_log_changes() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION 'audit_log is append-only';
+    END;
+    $$ LANGUAGE plpgsql
+  `.execute(db);
+
+  await sql`
+    CREATE TRIGGER audit_log_append_only
+    BEFORE UPDATE OR DELETE ON audit_log
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes()
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .dropTable('audit_log')
+    .execute();
+
+  await sql`DROP FUNCTION prevent_audit_log_changes()`.execute(db);
+}
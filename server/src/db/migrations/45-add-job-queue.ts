@@ -0,0 +1,53 @@
+import { type Kysely, sql } from 'kysely';
+
+import {
+  addUpdatedAtTrigger,
+  dropUpdatedAtTrigger,
+  ensureSetUpdatedAtFunction,
+} from '../migration-utils.ts';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('job')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('type', 'varchar(64)', col => col.notNull())
+    .addColumn('payload', 'jsonb', col => col.notNull().defaultTo(sql`'{}'::jsonb`))
+    .addColumn('status', 'varchar(16)', col => col.notNull().defaultTo('pending'))
+    .addColumn('attempts', 'integer', col => col.notNull().defaultTo(0))
+    .addColumn('max_attempts', 'integer', col => col.notNull().defaultTo(5))
+    .addColumn('dedupe_key', 'varchar(128)')
+    .addColumn('scheduled_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addColumn('locked_at', 'timestamp')
+    .addColumn('locked_by', 'varchar(128)')
+    .addColumn('last_error', 'text')
+    .addColumn('completed_at', 'timestamp')
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addColumn('updated_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .execute();
+
+  await db.schema
+    .createIndex('job_status_scheduled_at_index')
+    .on('job')
+    .columns(['status', 'scheduled_at'])
+    .execute();
+
+  // Only one pending job per key, so repeated requests for the same work collapse into one run
+  await db.schema
+    .createIndex('job_pending_dedupe_key_unique')
+    .on('job')
+    .column('dedupe_key')
+    .unique()
+    .where(sql.ref('status'), '=', 'pending')
+    .execute();
+
+  await ensureSetUpdatedAtFunction(db);
+  await addUpdatedAtTrigger(db, 'job');
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await dropUpdatedAtTrigger(db, 'job');
+
+  await db.schema
+    .dropTable('job')
+    .execute();
+}
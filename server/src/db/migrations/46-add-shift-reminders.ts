@@ -0,0 +1,31 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('enrollment_date_reminder')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('enrollment_date_id', 'integer', col => col.notNull().references('enrollment_date.id').onDelete('cascade'))
+    .addColumn('offset_hours', 'integer', col => col.notNull())
+    .addColumn('sent_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addUniqueConstraint('enrollment_date_reminder_date_offset_unique', ['enrollment_date_id', 'offset_hours'])
+    .execute();
+
+  await db.schema
+    .createTable('posting_roster_reminder')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('posting_id', 'integer', col => col.notNull().references('posting.id').onDelete('cascade'))
+    .addColumn('date', 'date', col => col.notNull())
+    .addColumn('sent_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addUniqueConstraint('posting_roster_reminder_posting_date_unique', ['posting_id', 'date'])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .dropTable('posting_roster_reminder')
+    .execute();
+
+  await db.schema
+    .dropTable('enrollment_date_reminder')
+    .execute();
+}
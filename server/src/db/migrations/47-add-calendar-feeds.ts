@@ -0,0 +1,19 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('calendar_feed')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('user_id', 'integer', col => col.notNull())
+    .addColumn('role', 'varchar(20)', col => col.notNull())
+    .addColumn('token', 'varchar(64)', col => col.notNull().unique())
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addUniqueConstraint('calendar_feed_user_role_unique', ['user_id', 'role'])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .dropTable('calendar_feed')
+    .execute();
+}
@@ -0,0 +1,19 @@
+import { type Kysely } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('volunteer_account')
+    .addColumn('home_latitude', 'numeric')
+    .addColumn('home_longitude', 'numeric')
+    .addColumn('home_location_name', 'varchar(256)')
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('volunteer_account')
+    .dropColumn('home_location_name')
+    .dropColumn('home_longitude')
+    .dropColumn('home_latitude')
+    .execute();
+}
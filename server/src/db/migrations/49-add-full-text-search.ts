@@ -0,0 +1,193 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await sql`CREATE EXTENSION IF NOT EXISTS unaccent SCHEMA public`.execute(db);
+
+  // unaccent() is only STABLE, so generated columns need an IMMUTABLE wrapper pinned to the dictionary
+  await sql`
+    CREATE FUNCTION search_unaccent(value text) RETURNS text AS $$
+      SELECT public.unaccent('public.unaccent'::regdictionary, value)
+    $$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+  `.execute(db);
+
+  // Postings carry no language, so each field is indexed once per supported language plus unstemmed
+  await sql`
+    CREATE FUNCTION search_document(value text, weight "char") RETURNS tsvector AS $$
+      SELECT setweight(
+        to_tsvector('simple'::regconfig, search_unaccent(coalesce(value, '')))
+        || to_tsvector('english'::regconfig, search_unaccent(coalesce(value, '')))
+        || to_tsvector('french'::regconfig, search_unaccent(coalesce(value, '')))
+        || to_tsvector('arabic'::regconfig, search_unaccent(coalesce(value, ''))),
+        weight
+      )
+    $$ LANGUAGE sql IMMUTABLE PARALLEL SAFE
+  `.execute(db);
+
+  // Names are also indexed with separators removed so "beiruthelpers" still finds "Beirut Helpers"
+  await sql`
+    CREATE FUNCTION search_compact_document(value text, weight "char") RETURNS tsvector AS $$
+      SELECT setweight(
+        to_tsvector('simple'::regconfig, regexp_replace(search_unaccent(coalesce(value, '')), '[^[:alnum:]]+', '', 'g')),
+        weight
+      )
+    $$ LANGUAGE sql IMMUTABLE PARALLEL SAFE
+  `.execute(db);
+
+  // Generated columns can only read their own row, so skill and organization names are copied onto the posting
+  await db.schema
+    .alterTable('posting')
+    .addColumn('search_skill_names', 'text', col => col.notNull().defaultTo(''))
+    .addColumn('search_organization_name', 'text', col => col.notNull().defaultTo(''))
+    .execute();
+
+  await sql`
+    UPDATE posting
+    SET
+      search_skill_names = coalesce((
+        SELECT string_agg(posting_skill.name, ' ' ORDER BY posting_skill.id)
+        FROM posting_skill
+        WHERE posting_skill.posting_id = posting.id
+      ), ''),
+      search_organization_name = organization_account.name
+    FROM organization_account
+    WHERE organization_account.id = posting.organization_id
+  `.execute(db);
+
+  await sql`
+    CREATE FUNCTION set_posting_search_organization_name() RETURNS trigger AS $$
+    BEGIN
+      NEW.search_organization_name := coalesce(
+        (SELECT name FROM organization_account WHERE id = NEW.organization_id),
+        ''
+      );
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql
+  `.execute(db);
+
+  await sql`
+    CREATE TRIGGER posting_search_organization_name
+    BEFORE INSERT OR UPDATE OF organization_id ON posting
+    FOR EACH ROW EXECUTE FUNCTION set_posting_search_organization_name()
+  `.execute(db);
+
+  await sql`
+    CREATE FUNCTION refresh_posting_search_skill_names() RETURNS trigger AS $$
+    DECLARE
+      affected_posting_id integer;
+    BEGIN
+      FOREACH affected_posting_id IN ARRAY ARRAY[
+        CASE WHEN TG_OP <> 'INSERT' THEN OLD.posting_id END,
+        CASE WHEN TG_OP <> 'DELETE' THEN NEW.posting_id END
+      ] LOOP
+        CONTINUE WHEN affected_posting_id IS NULL;
+
+        UPDATE posting
+        SET search_skill_names = coalesce((
+          SELECT string_agg(posting_skill.name, ' ' ORDER BY posting_skill.id)
+          FROM posting_skill
+          WHERE posting_skill.posting_id = affected_posting_id
+        ), '')
+        WHERE id = affected_posting_id;
+      END LOOP;
+
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql
+  `.execute(db);
+
+  await sql`
+    CREATE TRIGGER posting_skill_search_skill_names
+    AFTER INSERT OR UPDATE OR DELETE ON posting_skill
+    FOR EACH ROW EXECUTE FUNCTION refresh_posting_search_skill_names()
+  `.execute(db);
+
+  await sql`
+    CREATE FUNCTION refresh_posting_search_organization_name() RETURNS trigger AS $$
+    BEGIN
+      UPDATE posting
+      SET search_organization_name = NEW.name
+      WHERE organization_id = NEW.id;
+
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql
+  `.execute(db);
+
+  await sql`
+    CREATE TRIGGER organization_account_search_organization_name
+    AFTER UPDATE OF name ON organization_account
+    FOR EACH ROW
+    WHEN (OLD.name IS DISTINCT FROM NEW.name)
+    EXECUTE FUNCTION refresh_posting_search_organization_name()
+  `.execute(db);
+
+  await sql`
+    ALTER TABLE posting
+    ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      search_document(title, 'A')
+      || search_compact_document(title, 'A')
+      || search_document(search_skill_names, 'B')
+      || search_document(search_organization_name, 'B')
+      || search_compact_document(search_organization_name, 'B')
+      || search_document(location_name, 'C')
+      || search_document(description, 'D')
+    ) STORED
+  `.execute(db);
+
+  await sql`
+    ALTER TABLE organization_account
+    ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      search_document(name, 'A')
+      || search_compact_document(name, 'A')
+      || search_document(location_name, 'C')
+      || search_document(description, 'D')
+    ) STORED
+  `.execute(db);
+
+  await db.schema
+    .createIndex('posting_search_vector_index')
+    .on('posting')
+    .using('gin')
+    .column('search_vector')
+    .execute();
+
+  await db.schema
+    .createIndex('organization_account_search_vector_index')
+    .on('organization_account')
+    .using('gin')
+    .column('search_vector')
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropIndex('organization_account_search_vector_index').execute();
+  await db.schema.dropIndex('posting_search_vector_index').execute();
+
+  await db.schema
+    .alterTable('organization_account')
+    .dropColumn('search_vector')
+    .execute();
+
+  await db.schema
+    .alterTable('posting')
+    .dropColumn('search_vector')
+    .execute();
+
+  await sql`DROP TRIGGER organization_account_search_organization_name ON organization_account`.execute(db);
+  await sql`DROP FUNCTION refresh_posting_search_organization_name()`.execute(db);
+  await sql`DROP TRIGGER posting_skill_search_skill_names ON posting_skill`.execute(db);
+  await sql`DROP FUNCTION refresh_posting_search_skill_names()`.execute(db);
+  await sql`DROP TRIGGER posting_search_organization_name ON posting`.execute(db);
+  await sql`DROP FUNCTION set_posting_search_organization_name()`.execute(db);
+
+  await db.schema
+    .alterTable('posting')
+    .dropColumn('search_organization_name')
+    .dropColumn('search_skill_names')
+    .execute();
+
+  await sql`DROP FUNCTION search_compact_document(text, "char")`.execute(db);
+  await sql`DROP FUNCTION search_document(text, "char")`.execute(db);
+  await sql`DROP FUNCTION search_unaccent(text)`.execute(db);
+}
@@ -0,0 +1,59 @@
+import { type Kysely, sql } from 'kysely';
+
+import {
+  addUpdatedAtTrigger,
+  dropUpdatedAtTrigger,
+  ensureSetUpdatedAtFunction,
+} from '../migration-utils.ts';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('saved_search')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('volunteer_id', 'integer', col => col.notNull().references('volunteer_account.id').onDelete('cascade'))
+    .addColumn('name', 'varchar(128)', col => col.notNull())
+    .addColumn('filters', 'jsonb', col => col.notNull().defaultTo(sql`'{}'::jsonb`))
+    .addColumn('alert_frequency', 'varchar(16)', col => col.notNull().defaultTo('immediate'))
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addColumn('updated_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .execute();
+
+  await db.schema
+    .createIndex('saved_search_volunteer_id_index')
+    .on('saved_search')
+    .column('volunteer_id')
+    .execute();
+
+  await ensureSetUpdatedAtFunction(db);
+  await addUpdatedAtTrigger(db, 'saved_search');
+
+  // One row per posting a saved search matched; notified_at stays empty until an alert or digest covers it
+  await db.schema
+    .createTable('saved_search_match')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('saved_search_id', 'integer', col => col.notNull().references('saved_search.id').onDelete('cascade'))
+    .addColumn('posting_id', 'integer', col => col.notNull().references('posting.id').onDelete('cascade'))
+    .addColumn('notified_at', 'timestamp')
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addUniqueConstraint('saved_search_match_search_posting_unique', ['saved_search_id', 'posting_id'])
+    .execute();
+
+  await db.schema
+    .createIndex('saved_search_match_pending_index')
+    .on('saved_search_match')
+    .columns(['saved_search_id', 'created_at'])
+    .where(sql.ref('notified_at'), 'is', null)
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .dropTable('saved_search_match')
+    .execute();
+
+  await dropUpdatedAtTrigger(db, 'saved_search');
+
+  await db.schema
+    .dropTable('saved_search')
+    .execute();
+}
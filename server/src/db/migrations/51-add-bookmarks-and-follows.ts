@@ -0,0 +1,38 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('posting_bookmark')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('volunteer_id', 'integer', col => col.notNull().references('volunteer_account.id').onDelete('cascade'))
+    .addColumn('posting_id', 'integer', col => col.notNull().references('posting.id').onDelete('cascade'))
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addUniqueConstraint('posting_bookmark_volunteer_posting_unique', ['volunteer_id', 'posting_id'])
+    .execute();
+
+  await db.schema
+    .createTable('organization_follow')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('volunteer_id', 'integer', col => col.notNull().references('volunteer_account.id').onDelete('cascade'))
+    .addColumn('organization_id', 'integer', col => col.notNull().references('organization_account.id').onDelete('cascade'))
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addUniqueConstraint('organization_follow_volunteer_organization_unique', ['volunteer_id', 'organization_id'])
+    .execute();
+
+  // Follower counts and new-posting notifications look follows up by organization
+  await db.schema
+    .createIndex('organization_follow_organization_id_index')
+    .on('organization_follow')
+    .column('organization_id')
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .dropTable('organization_follow')
+    .execute();
+
+  await db.schema
+    .dropTable('posting_bookmark')
+    .execute();
+}
@@ -0,0 +1,48 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('posting_question')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('posting_id', 'integer', col => col.notNull().references('posting.id').onDelete('cascade'))
+    .addColumn('position', 'integer', col => col.notNull())
+    .addColumn('prompt', 'varchar(300)', col => col.notNull())
+    .addColumn('type', 'varchar(16)', col => col.notNull())
+    .addColumn('options', 'jsonb', col => col.notNull().defaultTo(sql`'[]'::jsonb`))
+    .addColumn('is_required', 'boolean', col => col.notNull().defaultTo(false))
+    .execute();
+
+  await db.schema
+    .createIndex('posting_question_posting_id_index')
+    .on('posting_question')
+    .column('posting_id')
+    .execute();
+
+  // Answers keep a copy of the question they answer, so editing or removing a question later leaves them readable
+  await db.schema
+    .alterTable('enrollment_application')
+    .addColumn('answers', 'jsonb', col => col.notNull().defaultTo(sql`'[]'::jsonb`))
+    .execute();
+
+  // Waitlisted volunteers answer when they join; the answers move to the application they are promoted to
+  await db.schema
+    .alterTable('waitlist_entry')
+    .addColumn('answers', 'jsonb', col => col.notNull().defaultTo(sql`'[]'::jsonb`))
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('waitlist_entry')
+    .dropColumn('answers')
+    .execute();
+
+  await db.schema
+    .alterTable('enrollment_application')
+    .dropColumn('answers')
+    .execute();
+
+  await db.schema
+    .dropTable('posting_question')
+    .execute();
+}
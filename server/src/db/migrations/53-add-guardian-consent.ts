@@ -0,0 +1,42 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('posting')
+    .addColumn('requires_guardian_consent', 'boolean', col => col.notNull().defaultTo(false))
+    .execute();
+
+  // Consent records outlive the posting for audit, so the posting title is kept alongside the reference
+  await db.schema
+    .createTable('guardian_consent')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('posting_id', 'integer', col => col.references('posting.id').onDelete('set null'))
+    .addColumn('posting_title', 'text', col => col.notNull())
+    .addColumn('volunteer_id', 'integer', col => col.notNull().references('volunteer_account.id').onDelete('cascade'))
+    .addColumn('guardian_email', 'varchar(256)', col => col.notNull())
+    .addColumn('status', 'varchar(16)', col => col.notNull().defaultTo('pending'))
+    .addColumn('guardian_name', 'varchar(128)')
+    .addColumn('expires_at', 'timestamp', col => col.notNull())
+    .addColumn('responded_at', 'timestamp')
+    .addColumn('response_ip', 'varchar(64)')
+    .addColumn('response_user_agent', 'text')
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .execute();
+
+  await db.schema
+    .createIndex('guardian_consent_posting_volunteer_index')
+    .on('guardian_consent')
+    .columns(['posting_id', 'volunteer_id'])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .dropTable('guardian_consent')
+    .execute();
+
+  await db.schema
+    .alterTable('posting')
+    .dropColumn('requires_guardian_consent')
+    .execute();
+}
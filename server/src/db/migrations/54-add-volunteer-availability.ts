@@ -0,0 +1,37 @@
+import { type Kysely } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Weekdays follow JavaScript and Postgres numbering, 0 is Sunday
+  await db.schema
+    .createTable('volunteer_availability_window')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('volunteer_id', 'integer', col => col.notNull().references('volunteer_account.id').onDelete('cascade'))
+    .addColumn('weekday', 'integer', col => col.notNull())
+    .addColumn('start_time', 'time', col => col.notNull())
+    .addColumn('end_time', 'time', col => col.notNull())
+    .execute();
+
+  await db.schema
+    .createIndex('volunteer_availability_window_volunteer_id_index')
+    .on('volunteer_availability_window')
+    .column('volunteer_id')
+    .execute();
+
+  await db.schema
+    .createTable('volunteer_blackout_date')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('volunteer_id', 'integer', col => col.notNull().references('volunteer_account.id').onDelete('cascade'))
+    .addColumn('date', 'date', col => col.notNull())
+    .addUniqueConstraint('volunteer_blackout_date_volunteer_date_unique', ['volunteer_id', 'date'])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .dropTable('volunteer_blackout_date')
+    .execute();
+
+  await db.schema
+    .dropTable('volunteer_availability_window')
+    .execute();
+}
@@ -0,0 +1,188 @@
+import { type Kysely, type RawBuilder, sql } from 'kysely';
+
+const STARTER_SKILLS: { name: string; category: string; synonyms: string[] }[] = [
+  { name: 'First Aid', category: 'medical', synonyms: ['CPR/First Aid', 'First Aid Training', 'Basic Life Support'] },
+  { name: 'Nursing', category: 'medical', synonyms: ['Nurse', 'Patient Care'] },
+  { name: 'Psychological Support', category: 'medical', synonyms: ['Psychosocial Support', 'Counseling', 'Mental Health Support'] },
+  { name: 'Tutoring', category: 'education', synonyms: ['Teaching', 'Homework Help'] },
+  { name: 'Childcare', category: 'education', synonyms: ['Babysitting', 'Working with Children'] },
+  { name: 'Elderly Care', category: 'community', synonyms: ['Elder Care', 'Senior Care'] },
+  { name: 'Event Planning', category: 'community', synonyms: ['Event Organization', 'Event Management'] },
+  { name: 'Fundraising', category: 'community', synonyms: ['Donor Outreach'] },
+  { name: 'Cooking', category: 'community', synonyms: ['Food Preparation', 'Kitchen Help'] },
+  { name: 'Arabic', category: 'language', synonyms: ['Arabic Language'] },
+  { name: 'English', category: 'language', synonyms: ['English Language'] },
+  { name: 'French', category: 'language', synonyms: ['French Language'] },
+  { name: 'Translation', category: 'language', synonyms: ['Interpreting', 'Interpretation'] },
+  { name: 'Driving', category: 'logistics', synonyms: ['Driver'] },
+  { name: 'Food Distribution', category: 'logistics', synonyms: ['Food Bank', 'Aid Distribution'] },
+  { name: 'Warehouse Management', category: 'logistics', synonyms: ['Inventory Management', 'Stock Management'] },
+  { name: 'Construction', category: 'trades', synonyms: ['Building', 'Renovation'] },
+  { name: 'Carpentry', category: 'trades', synonyms: ['Woodworking'] },
+  { name: 'Electrical Work', category: 'trades', synonyms: ['Electrician'] },
+  { name: 'Plumbing', category: 'trades', synonyms: ['Plumber'] },
+  { name: 'Web Development', category: 'technology', synonyms: ['Web Design', 'Website Development'] },
+  { name: 'IT Support', category: 'technology', synonyms: ['Tech Support', 'Computer Repair'] },
+  { name: 'Data Entry', category: 'administration', synonyms: [] },
+  { name: 'Social Media', category: 'creative', synonyms: ['Social Media Management'] },
+  { name: 'Photography', category: 'creative', synonyms: ['Photographer'] },
+  { name: 'Graphic Design', category: 'creative', synonyms: ['Design'] },
+];
+
+const SKILL_OWNER_TABLES = [
+  { table: 'posting_skill', ownerColumn: 'posting_id' },
+  { table: 'volunteer_skill', ownerColumn: 'volunteer_id' },
+  { table: 'posting_role_skill', ownerColumn: 'role_id' },
+] as const;
+
+// Must stay in sync with normalizeSkillName in services/skills, so case and punctuation never split a skill
+const normalizedValueOf = (value: RawBuilder<unknown>) =>
+  sql<string>`btrim(regexp_replace(lower(${value}), '[^[:alnum:]]+', ' ', 'g'))`;
+
+const normalizedNameOf = (column: string) => normalizedValueOf(sql.ref(column));
+
+const normalizeInJS = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('skill')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('name', 'varchar(64)', col => col.notNull())
+    .addColumn('normalized_name', 'varchar(64)', col => col.notNull().unique())
+    .addColumn('category', 'varchar(32)')
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .execute();
+
+  await db.schema
+    .createTable('skill_synonym')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('skill_id', 'integer', col => col.notNull().references('skill.id').onDelete('cascade'))
+    .addColumn('name', 'varchar(64)', col => col.notNull())
+    .addColumn('normalized_name', 'varchar(64)', col => col.notNull().unique())
+    .execute();
+
+  await db.schema
+    .createIndex('skill_synonym_skill_id_index')
+    .on('skill_synonym')
+    .column('skill_id')
+    .execute();
+
+  for (const skill of STARTER_SKILLS) {
+    const { rows: [inserted] } = await sql<{ id: number }>`
+      INSERT INTO skill (name, normalized_name, category)
+      VALUES (${skill.name}, ${normalizeInJS(skill.name)}, ${skill.category})
+      RETURNING id
+    `.execute(db);
+
+    if (skill.synonyms.length > 0) {
+      await db
+        // @ts-expect-error We have to use Kysely<unknown> here because this is a migration
+        .insertInto('skill_synonym')
+        .values(skill.synonyms.map(name => ({ skill_id: inserted!.id, name, normalized_name: normalizeInJS(name) })))
+        .execute();
+    }
+  }
+
+  // Free-text skills that match neither a catalog entry nor a synonym become uncategorized entries
+  for (const { table } of SKILL_OWNER_TABLES) {
+    await sql`
+      INSERT INTO skill (name, normalized_name)
+      SELECT DISTINCT ON (normalized_name) left(btrim(name), 64), left(normalized_name, 64)
+      FROM (SELECT name, ${normalizedNameOf('name')} AS normalized_name FROM ${sql.table(table)}) AS existing
+      WHERE normalized_name <> ''
+        AND NOT EXISTS (SELECT 1 FROM skill_synonym WHERE skill_synonym.normalized_name = left(existing.normalized_name, 64))
+      ORDER BY normalized_name, name
+      ON CONFLICT (normalized_name) DO NOTHING
+    `.execute(db);
+  }
+
+  for (const { table, ownerColumn } of SKILL_OWNER_TABLES) {
+    await db.schema
+      .alterTable(table)
+      .addColumn('skill_id', 'integer', col => col.references('skill.id').onDelete('cascade'))
+      .execute();
+
+    await sql`
+      UPDATE ${sql.table(table)}
+      SET skill_id = COALESCE(
+        (SELECT skill.id FROM skill WHERE skill.normalized_name = left(${normalizedNameOf('name')}, 64)),
+        (SELECT skill_synonym.skill_id FROM skill_synonym WHERE skill_synonym.normalized_name = left(${normalizedNameOf('name')}, 64))
+      )
+    `.execute(db);
+
+    // Rows without a usable name and rows that became duplicates of another skill of the same owner are dropped
+    await sql`DELETE FROM ${sql.table(table)} WHERE skill_id IS NULL`.execute(db);
+    await sql`
+      DELETE FROM ${sql.table(table)} AS duplicate
+      USING ${sql.table(table)} AS kept
+      WHERE duplicate.${sql.ref(ownerColumn)} = kept.${sql.ref(ownerColumn)}
+        AND duplicate.skill_id = kept.skill_id
+        AND duplicate.id > kept.id
+    `.execute(db);
+
+    await sql`
+      UPDATE ${sql.table(table)}
+      SET name = skill.name
+      FROM skill
+      WHERE skill.id = ${sql.table(table)}.skill_id
+    `.execute(db);
+
+    await db.schema
+      .alterTable(table)
+      .alterColumn('skill_id', col => col.setNotNull())
+      .execute();
+
+    await db.schema
+      .alterTable(table)
+      .addUniqueConstraint(`${table}_${ownerColumn}_skill_id_unique`, [ownerColumn, 'skill_id'])
+      .execute();
+
+    await db.schema
+      .createIndex(`${table}_skill_id_index`)
+      .on(table)
+      .column('skill_id')
+      .execute();
+  }
+
+  // Saved searches stored the free-text skill; resolve it the same way, and fall back to no skill filter when nothing matches
+  const savedSearchSkill = normalizedValueOf(sql`saved_search.filters->>'skill'`);
+  await sql`
+    UPDATE saved_search
+    SET filters = (filters - 'skill') || jsonb_build_object('skill_id', COALESCE(
+      (SELECT skill.id FROM skill WHERE skill.normalized_name = left(${savedSearchSkill}, 64)),
+      (SELECT skill_synonym.skill_id FROM skill_synonym WHERE skill_synonym.normalized_name = left(${savedSearchSkill}, 64))
+    ))
+    WHERE filters ? 'skill' OR NOT filters ? 'skill_id'
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    UPDATE saved_search
+    SET filters = (filters - 'skill_id') || jsonb_build_object('skill', COALESCE(
+      (SELECT skill.name FROM skill WHERE skill.id = (saved_search.filters->>'skill_id')::integer),
+      ''
+    ))
+    WHERE filters ? 'skill_id'
+  `.execute(db);
+
+  for (const { table, ownerColumn } of SKILL_OWNER_TABLES) {
+    await db.schema
+      .alterTable(table)
+      .dropConstraint(`${table}_${ownerColumn}_skill_id_unique`)
+      .execute();
+
+    await db.schema
+      .alterTable(table)
+      .dropColumn('skill_id')
+      .execute();
+  }
+
+  await db.schema
+    .dropTable('skill_synonym')
+    .execute();
+
+  await db.schema
+    .dropTable('skill')
+    .execute();
+}
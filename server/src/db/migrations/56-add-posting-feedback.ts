@@ -0,0 +1,66 @@
+import { type Kysely, sql } from 'kysely';
+
+import {
+  addUpdatedAtTrigger,
+  dropUpdatedAtTrigger,
+  ensureSetUpdatedAtFunction,
+} from '../migration-utils.ts';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Written by volunteers about a posting they attended; one per enrollment
+  await db.schema
+    .createTable('posting_review')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('enrollment_id', 'integer', col => col.notNull().unique().references('enrollment.id').onDelete('cascade'))
+    .addColumn('posting_id', 'integer', col => col.notNull().references('posting.id').onDelete('cascade'))
+    .addColumn('volunteer_id', 'integer', col => col.notNull().references('volunteer_account.id').onDelete('cascade'))
+    .addColumn('rating', 'smallint', col => col.notNull().check(sql`rating BETWEEN 1 AND 5`))
+    .addColumn('comment', 'text')
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addColumn('updated_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .execute();
+
+  // Organization ratings are aggregated per posting
+  await db.schema
+    .createIndex('posting_review_posting_id_index')
+    .on('posting_review')
+    .column('posting_id')
+    .execute();
+
+  // Written by organizations about a volunteer who attended; only shown to the organization and admins
+  await db.schema
+    .createTable('volunteer_feedback')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('enrollment_id', 'integer', col => col.notNull().unique().references('enrollment.id').onDelete('cascade'))
+    .addColumn('posting_id', 'integer', col => col.notNull().references('posting.id').onDelete('cascade'))
+    .addColumn('volunteer_id', 'integer', col => col.notNull().references('volunteer_account.id').onDelete('cascade'))
+    .addColumn('author_member_id', 'integer', col => col.references('organization_member.id').onDelete('set null'))
+    .addColumn('rating', 'smallint', col => col.notNull().check(sql`rating BETWEEN 1 AND 5`))
+    .addColumn('comment', 'text')
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addColumn('updated_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .execute();
+
+  await db.schema
+    .createIndex('volunteer_feedback_volunteer_id_index')
+    .on('volunteer_feedback')
+    .column('volunteer_id')
+    .execute();
+
+  await ensureSetUpdatedAtFunction(db);
+  await addUpdatedAtTrigger(db, 'posting_review');
+  await addUpdatedAtTrigger(db, 'volunteer_feedback');
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await dropUpdatedAtTrigger(db, 'volunteer_feedback');
+  await dropUpdatedAtTrigger(db, 'posting_review');
+
+  await db.schema
+    .dropTable('volunteer_feedback')
+    .execute();
+
+  await db.schema
+    .dropTable('posting_review')
+    .execute();
+}
@@ -0,0 +1,56 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // One thread per volunteer and posting, so a conversation started on an application carries over to the enrollment
+  await db.schema
+    .createTable('message_thread')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('organization_id', 'integer', col => col.notNull().references('organization_account.id').onDelete('cascade'))
+    .addColumn('posting_id', 'integer', col => col.notNull().references('posting.id').onDelete('cascade'))
+    .addColumn('volunteer_id', 'integer', col => col.notNull().references('volunteer_account.id').onDelete('cascade'))
+    .addColumn('last_message_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .addUniqueConstraint('message_thread_posting_volunteer_unique', ['posting_id', 'volunteer_id'])
+    .execute();
+
+  await db.schema
+    .createIndex('message_thread_organization_id_index')
+    .on('message_thread')
+    .columns(['organization_id', 'last_message_at'])
+    .execute();
+
+  await db.schema
+    .createIndex('message_thread_volunteer_id_index')
+    .on('message_thread')
+    .columns(['volunteer_id', 'last_message_at'])
+    .execute();
+
+  await db.schema
+    .createTable('message')
+    .addColumn('id', 'serial', col => col.primaryKey())
+    .addColumn('thread_id', 'integer', col => col.notNull().references('message_thread.id').onDelete('cascade'))
+    .addColumn('sender_role', 'varchar(16)', col => col.notNull())
+    .addColumn('sender_member_id', 'integer', col => col.references('organization_member.id').onDelete('set null'))
+    .addColumn('body', 'text', col => col.notNull().defaultTo(''))
+    .addColumn('attachment_path', 'varchar(256)')
+    .addColumn('attachment_name', 'varchar(256)')
+    .addColumn('read_at', 'timestamp')
+    .addColumn('created_at', 'timestamp', col => col.notNull().defaultTo(sql`now()`))
+    .execute();
+
+  await db.schema
+    .createIndex('message_thread_id_index')
+    .on('message')
+    .columns(['thread_id', 'created_at'])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .dropTable('message')
+    .execute();
+
+  await db.schema
+    .dropTable('message_thread')
+    .execute();
+}
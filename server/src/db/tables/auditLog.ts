@@ -0,0 +1,73 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedIDAndCreatedAt } from './shared.ts';
+import type { ColumnType } from 'kysely';
+
+export const auditActorRoleSchema = zod.enum(['admin', 'organization', 'volunteer']);
+export type AuditActorRole = zod.infer<typeof auditActorRoleSchema>;
+
+export const auditActionSchema = zod.enum([
+  'organization_request.accept',
+  'organization_request.reject',
+  'organization_report.accept',
+  'organization_report.reject',
+  'volunteer_report.accept',
+  'volunteer_report.reject',
+  'organization.disable',
+  'volunteer.disable',
+  'crisis.create',
+  'crisis.update',
+  'crisis.pin',
+  'crisis.delete',
+  'skill.create',
+  'skill.update',
+  'skill.merge',
+  'skill.delete',
+  'certificate_settings.update',
+  'certificate_settings.upload_signature',
+  'certificate_settings.delete_signature',
+  'issued_certificate.revoke',
+  'job.retry',
+], 'Unknown audit action');
+export type AuditAction = zod.infer<typeof auditActionSchema>;
+
+export const auditEntityTypeSchema = zod.enum([
+  'organization_request',
+  'organization_report',
+  'volunteer_report',
+  'organization_account',
+  'volunteer_account',
+  'crisis',
+  'skill',
+  'platform_certificate_settings',
+  'issued_certificate',
+  'job',
+], 'Unknown audit entity type');
+export type AuditEntityType = zod.infer<typeof auditEntityTypeSchema>;
+
+export const auditSnapshotSchema = zod.record(zod.string(), zod.unknown());
+export type AuditSnapshot = zod.infer<typeof auditSnapshotSchema>;
+
+export const auditLogSchema = zod.object({
+  id: idSchema,
+  actor_role: auditActorRoleSchema,
+  actor_id: idSchema,
+  action: auditActionSchema,
+  entity_type: auditEntityTypeSchema,
+  entity_id: idSchema,
+  before: auditSnapshotSchema.nullable(),
+  after: auditSnapshotSchema.nullable(),
+  created_at: zod.date(),
+});
+
+export type AuditLog = zod.infer<typeof auditLogSchema>;
+
+// Snapshots are written as serialized JSON and read back as objects
+type AuditSnapshotColumn = ColumnType<AuditSnapshot | null, string | null, never>;
+
+export type AuditLogTable = Omit<WithGeneratedIDAndCreatedAt<AuditLog>, 'before' | 'after'> & {
+  before: AuditSnapshotColumn;
+  after: AuditSnapshotColumn;
+};
@@ -0,0 +1,19 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedIDAndCreatedAt } from './shared.ts';
+
+export const calendarFeedRoleSchema = zod.enum(['organization', 'volunteer']);
+export type CalendarFeedRole = zod.infer<typeof calendarFeedRoleSchema>;
+
+export const calendarFeedSchema = zod.object({
+  id: idSchema,
+  user_id: idSchema,
+  role: calendarFeedRoleSchema,
+  token: zod.string().length(64),
+  created_at: zod.date(),
+});
+
+export type CalendarFeed = zod.infer<typeof calendarFeedSchema>;
+export type CalendarFeedTable = WithGeneratedIDAndCreatedAt<CalendarFeed>;
@@ -0,0 +1,16 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedIDAndCreatedAt } from './shared.ts';
+
+export const certificateSigningKeySchema = zod.object({
+  id: idSchema,
+  kid: zod.string().min(1).max(32),
+  public_key: zod.string().min(1).max(64),
+  created_at: zod.date(),
+  retired_at: zod.date().nullable(),
+});
+
+export type CertificateSigningKey = zod.infer<typeof certificateSigningKeySchema>;
+export type CertificateSigningKeyTable = WithGeneratedIDAndCreatedAt<WithGeneratedColumns<CertificateSigningKey, 'retired_at'>>;
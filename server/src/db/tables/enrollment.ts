@@ -2,18 +2,21 @@ import zod from 'zod';
 
 import { idSchema } from '../../schemas/index.ts';
 
-import type { WithGeneratedIDAndCreatedAt } from './shared.ts';
+import type { WithGeneratedColumns, WithGeneratedIDAndCreatedAt } from './shared.ts';
 
 export const enrollmentSchema = zod.object({
   id: idSchema,
   volunteer_id: idSchema,
   posting_id: idSchema,
+  role_id: idSchema.nullable(),
   message: zod.string().max(350, 'Your message is too long. Please limit it to 350 characters.').nullable(),
   created_at: zod.date(),
   attended: zod.boolean(),
+  accepted_by_member_id: idSchema.nullable(),
+  attendance_marked_by_member_id: idSchema.nullable(),
 });
 
 export type Enrollment = zod.infer<typeof enrollmentSchema>;
-export const newEnrollmentSchema = enrollmentSchema.omit({ id: true, created_at: true, attended: true }).strict();
+export const newEnrollmentSchema = enrollmentSchema.omit({ id: true, created_at: true, attended: true, accepted_by_member_id: true, attendance_marked_by_member_id: true }).strict();
 
-export type EnrollmentTable = WithGeneratedIDAndCreatedAt<Enrollment>;
+export type EnrollmentTable = WithGeneratedIDAndCreatedAt<WithGeneratedColumns<Enrollment, 'role_id' | 'accepted_by_member_id' | 'attendance_marked_by_member_id'>>;
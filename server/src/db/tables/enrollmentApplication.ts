@@ -1,17 +1,23 @@
 import zod from 'zod';
 
+import { applicationAnswerSchema, type ApplicationAnswer } from './postingQuestion.ts';
 import { idSchema } from '../../schemas/index.ts';
 
-import type { WithGeneratedIDAndCreatedAt } from './shared.ts';
+import type { WithGeneratedColumns, WithGeneratedIDAndCreatedAt } from './shared.ts';
+import type { ColumnType } from 'kysely';
 
 export const enrollmentApplicationSchema = zod.object({
   id: idSchema,
   volunteer_id: idSchema,
   posting_id: idSchema,
+  role_id: idSchema.nullable(),
   message: zod.string().max(350, 'Your message is too long. Please limit it to 350 characters.').nullable(),
+  answers: zod.array(applicationAnswerSchema),
   created_at: zod.date(),
 });
 
 export type EnrollmentApplication = zod.infer<typeof enrollmentApplicationSchema>;
-export const newEnrollmentApplicationSchema = enrollmentApplicationSchema.omit({ id: true, created_at: true }).strict();
-export type EnrollmentApplicationTable = WithGeneratedIDAndCreatedAt<EnrollmentApplication>;
+export const newEnrollmentApplicationSchema = enrollmentApplicationSchema.omit({ id: true, created_at: true, answers: true }).strict();
+export type EnrollmentApplicationTable = Omit<WithGeneratedIDAndCreatedAt<WithGeneratedColumns<EnrollmentApplication, 'role_id'>>, 'answers'> & {
+  answers: ColumnType<ApplicationAnswer[], string | undefined, string>;
+};
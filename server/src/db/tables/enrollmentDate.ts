@@ -2,7 +2,7 @@ import zod from 'zod';
 
 import { idSchema } from '../../schemas/index.ts';
 
-import type { WithGeneratedID } from './shared.ts';
+import type { WithGeneratedColumns, WithGeneratedID } from './shared.ts';
 
 export const enrollmentDateSchema = zod.object({
   id: idSchema,
@@ -15,11 +15,14 @@ export const enrollmentDateSchema = zod.object({
     },
   }),
   attended: zod.boolean(),
+  checked_in_at: zod.date().nullable(),
+  checked_out_at: zod.date().nullable(),
+  attendance_marked_by_member_id: idSchema.nullable(),
 });
 
 export type EnrollmentDate = zod.infer<typeof enrollmentDateSchema>;
 
-export type EnrollmentDateTable = WithGeneratedID<EnrollmentDate>;
+export type EnrollmentDateTable = WithGeneratedID<WithGeneratedColumns<EnrollmentDate, 'checked_in_at' | 'checked_out_at' | 'attendance_marked_by_member_id'>>;
 
-export const newEnrollmentDateSchema = enrollmentDateSchema.omit({ id: true }).strict();
+export const newEnrollmentDateSchema = enrollmentDateSchema.omit({ id: true, checked_in_at: true, checked_out_at: true, attendance_marked_by_member_id: true }).strict();
 export type NewEnrollmentDate = zod.infer<typeof newEnrollmentDateSchema>;
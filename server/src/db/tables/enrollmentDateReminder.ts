@@ -0,0 +1,15 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedID } from './shared.ts';
+
+export const enrollmentDateReminderSchema = zod.object({
+  id: idSchema,
+  enrollment_date_id: idSchema,
+  offset_hours: zod.number().int().positive(),
+  sent_at: zod.date(),
+});
+
+export type EnrollmentDateReminder = zod.infer<typeof enrollmentDateReminderSchema>;
+export type EnrollmentDateReminderTable = WithGeneratedID<WithGeneratedColumns<EnrollmentDateReminder, 'sent_at'>>;
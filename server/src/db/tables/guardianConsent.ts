@@ -0,0 +1,41 @@
+import zod from 'zod';
+
+import { emailSchema, idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedIDAndCreatedAt } from './shared.ts';
+
+export const guardianConsentStatusSchema = zod.enum(
+  ['pending', 'approved', 'declined', 'cancelled'],
+  'Consent status should be \'pending\', \'approved\', \'declined\', or \'cancelled\'',
+);
+export type GuardianConsentStatus = zod.infer<typeof guardianConsentStatusSchema>;
+
+export const guardianConsentSchema = zod.object({
+  id: idSchema,
+  posting_id: idSchema.nullable(),
+  posting_title: zod.string(),
+  volunteer_id: idSchema,
+  guardian_email: emailSchema,
+  status: guardianConsentStatusSchema,
+  guardian_name: zod.string().nullable(),
+  expires_at: zod.date(),
+  responded_at: zod.date().nullable(),
+  response_ip: zod.string().nullable(),
+  response_user_agent: zod.string().nullable(),
+  created_at: zod.date(),
+});
+
+export type GuardianConsent = zod.infer<typeof guardianConsentSchema>;
+export type GuardianConsentTable = WithGeneratedIDAndCreatedAt<WithGeneratedColumns<
+  GuardianConsent,
+  'status' | 'guardian_name' | 'responded_at' | 'response_ip' | 'response_user_agent'
+>>;
+
+export type GuardianConsentSummary = Pick<GuardianConsent, 'status' | 'guardian_email' | 'guardian_name' | 'expires_at' | 'responded_at'>;
+
+export const guardianConsentDecisionSchema = zod.object({
+  token: zod.string().trim().min(1, 'Consent link is invalid'),
+  decision: zod.enum(['approve', 'decline'], 'Decision should be \'approve\' or \'decline\''),
+  guardian_name: zod.string().trim().min(1, 'Please enter your full name').max(128, 'Name must be at most 128 characters'),
+});
+export type GuardianConsentDecision = zod.infer<typeof guardianConsentDecisionSchema>;
@@ -1,58 +1,142 @@
 import type { AdminAccountTable } from './adminAccount.ts';
+import type { AuditLogTable } from './auditLog.ts';
+import type { CalendarFeedTable } from './calendarFeed.ts';
+import type { CertificateSigningKeyTable } from './certificateSigningKey.ts';
 import type { CrisisTable } from './crisis.ts';
 import type { EnrollmentTable } from './enrollment.ts';
 import type { EnrollmentApplicationTable } from './enrollmentApplication.ts';
 import type { EnrollmentApplicationDateTable } from './enrollmentApplicationDate.ts';
 import type { EnrollmentDateTable } from './enrollmentDate.ts';
+import type { EnrollmentDateReminderTable } from './enrollmentDateReminder.ts';
+import type { GuardianConsentTable } from './guardianConsent.ts';
+import type { IssuedCertificateTable } from './issuedCertificate.ts';
+import type { IssuedCertificateOrganizationTable } from './issuedCertificateOrganization.ts';
+import type { JobTable } from './job.ts';
+import type { MessageTable, MessageThreadTable } from './message.ts';
+import type { NotificationTable } from './notification.ts';
+import type { NotificationPreferenceTable } from './notificationPreference.ts';
 import type { OrganizationAccountTable } from './organizationAccount.ts';
 import type { OrganizationCertificateInfoTable } from './organizationCertificateInfo.ts';
+import type { OrganizationFollowTable } from './organizationFollow.ts';
+import type { OrganizationMemberTable } from './organizationMember.ts';
 import type { OrganizationReportTable } from './organizationReport.ts';
 import type { OrganizationRequestTable } from './organizationRequest.ts';
 import type { PasswordResetTokenTable } from './passwordResetToken.ts';
 import type { PlatformCertificateSettingsTable } from './platformCertificateSettings.ts';
 import type { PostingTable } from './posting.ts';
+import type { PostingBookmarkTable } from './postingBookmark.ts';
+import type { PostingOccurrenceOverrideTable } from './postingOccurrenceOverride.ts';
+import type { PostingQuestionTable } from './postingQuestion.ts';
+import type { PostingReviewTable } from './postingReview.ts';
+import type { PostingRoleTable } from './postingRole.ts';
+import type { PostingRoleSkillTable } from './postingRoleSkill.ts';
+import type { PostingRosterReminderTable } from './postingRosterReminder.ts';
 import type { PostingSkillTable } from './postingSkill.ts';
+import type { SavedSearchTable } from './savedSearch.ts';
+import type { SavedSearchMatchTable } from './savedSearchMatch.ts';
+import type { SkillSynonymTable, SkillTable } from './skill.ts';
 import type { VolunteerAccountTable } from './volunteerAccount.ts';
+import type { VolunteerAvailabilityWindowTable, VolunteerBlackoutDateTable } from './volunteerAvailability.ts';
+import type { VolunteerFeedbackTable } from './volunteerFeedback.ts';
 import type { VolunteerPendingAccountTable } from './volunteerPendingAccount.ts';
 import type { VolunteerReportTable } from './volunteerReport.ts';
 import type { VolunteerSkillTable } from './volunteerSkill.ts';
+import type { WaitlistEntryTable } from './waitlistEntry.ts';
+import type { WaitlistEntryDateTable } from './waitlistEntryDate.ts';
 
 export * from './adminAccount.ts';
+export * from './auditLog.ts';
+export * from './calendarFeed.ts';
+export * from './certificateSigningKey.ts';
 export * from './crisis.ts';
 export * from './enrollmentApplication.ts';
 export * from './enrollmentApplicationDate.ts';
 export * from './enrollmentDate.ts';
+export * from './enrollmentDateReminder.ts';
 export * from './enrollment.ts';
+export * from './guardianConsent.ts';
+export * from './issuedCertificate.ts';
+export * from './issuedCertificateOrganization.ts';
+export * from './job.ts';
+export * from './message.ts';
+export * from './notification.ts';
+export * from './notificationPreference.ts';
 export * from './organizationAccount.ts';
 export * from './organizationCertificateInfo.ts';
+export * from './organizationFollow.ts';
+export * from './organizationMember.ts';
 export * from './posting.ts';
+export * from './postingBookmark.ts';
+export * from './postingOccurrenceOverride.ts';
+export * from './postingQuestion.ts';
+export * from './postingReview.ts';
+export * from './postingRole.ts';
+export * from './postingRoleSkill.ts';
+export * from './postingRosterReminder.ts';
 export * from './organizationReport.ts';
 export * from './organizationRequest.ts';
 export * from './passwordResetToken.ts';
 export * from './postingSkill.ts';
+export * from './savedSearch.ts';
+export * from './savedSearchMatch.ts';
+export * from './skill.ts';
 export * from './volunteerAccount.ts';
+export * from './volunteerAvailability.ts';
+export * from './volunteerFeedback.ts';
 export * from './volunteerPendingAccount.ts';
 export * from './volunteerReport.ts';
 export * from './platformCertificateSettings.ts';
 export * from './volunteerSkill.ts';
+export * from './waitlistEntry.ts';
+export * from './waitlistEntryDate.ts';
 
 export interface Database {
   volunteer_account: VolunteerAccountTable;
   volunteer_pending_account: VolunteerPendingAccountTable;
   organization_request: OrganizationRequestTable;
   organization_account: OrganizationAccountTable;
+  organization_member: OrganizationMemberTable;
   admin_account: AdminAccountTable;
   crisis: CrisisTable;
+  skill: SkillTable;
+  skill_synonym: SkillSynonymTable;
   posting: PostingTable;
   posting_skill: PostingSkillTable;
+  posting_occurrence_override: PostingOccurrenceOverrideTable;
+  posting_role: PostingRoleTable;
+  posting_role_skill: PostingRoleSkillTable;
+  posting_question: PostingQuestionTable;
+  posting_roster_reminder: PostingRosterReminderTable;
   volunteer_skill: VolunteerSkillTable;
   password_reset_token: PasswordResetTokenTable;
   enrollment: EnrollmentTable;
   enrollment_application: EnrollmentApplicationTable;
   enrollment_application_date: EnrollmentApplicationDateTable;
   enrollment_date: EnrollmentDateTable;
+  enrollment_date_reminder: EnrollmentDateReminderTable;
+  waitlist_entry: WaitlistEntryTable;
+  waitlist_entry_date: WaitlistEntryDateTable;
+  guardian_consent: GuardianConsentTable;
+  notification: NotificationTable;
+  notification_preference: NotificationPreferenceTable;
   organization_report: OrganizationReportTable;
   volunteer_report: VolunteerReportTable;
   organization_certificate_info: OrganizationCertificateInfoTable;
   platform_certificate_settings: PlatformCertificateSettingsTable;
+  issued_certificate: IssuedCertificateTable;
+  issued_certificate_organization: IssuedCertificateOrganizationTable;
+  certificate_signing_key: CertificateSigningKeyTable;
+  audit_log: AuditLogTable;
+  job: JobTable;
+  calendar_feed: CalendarFeedTable;
+  saved_search: SavedSearchTable;
+  saved_search_match: SavedSearchMatchTable;
+  posting_bookmark: PostingBookmarkTable;
+  organization_follow: OrganizationFollowTable;
+  volunteer_availability_window: VolunteerAvailabilityWindowTable;
+  volunteer_blackout_date: VolunteerBlackoutDateTable;
+  posting_review: PostingReviewTable;
+  volunteer_feedback: VolunteerFeedbackTable;
+  message_thread: MessageThreadTable;
+  message: MessageTable;
 }
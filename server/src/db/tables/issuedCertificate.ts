@@ -0,0 +1,32 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedID } from './shared.ts';
+
+export const certificateRevokerRoleSchema = zod.enum(['admin', 'organization']);
+export type CertificateRevokerRole = zod.infer<typeof certificateRevokerRoleSchema>;
+
+export const issuedCertificateSchema = zod.object({
+  id: idSchema,
+  volunteer_id: idSchema,
+  token_hash: zod.string().length(64),
+  token: zod.string().nullable(),
+  total_hours: zod.number().nonnegative(),
+  issued_at: zod.date(),
+  revoked_at: zod.date().nullable(),
+  revocation_reason: zod.string().nullable(),
+  revoked_by_role: certificateRevokerRoleSchema.nullable(),
+  revoked_by_id: idSchema.nullable(),
+});
+
+export type IssuedCertificate = zod.infer<typeof issuedCertificateSchema>;
+export type IssuedCertificateTable = WithGeneratedID<WithGeneratedColumns<
+  IssuedCertificate,
+  'token' | 'revoked_at' | 'revocation_reason' | 'revoked_by_role' | 'revoked_by_id'
+>>;
+
+export const revokeIssuedCertificateSchema = zod.object({
+  reason: zod.string().trim().min(1, 'Revocation reason is required').max(1000, 'Revocation reason must be at most 1000 characters'),
+});
+export type RevokeIssuedCertificate = zod.infer<typeof revokeIssuedCertificateSchema>;
@@ -0,0 +1,15 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedID } from './shared.ts';
+
+export const issuedCertificateOrganizationSchema = zod.object({
+  id: idSchema,
+  certificate_id: idSchema,
+  organization_id: idSchema,
+  hours: zod.number().nonnegative(),
+});
+
+export type IssuedCertificateOrganization = zod.infer<typeof issuedCertificateOrganizationSchema>;
+export type IssuedCertificateOrganizationTable = WithGeneratedID<IssuedCertificateOrganization>;
@@ -0,0 +1,52 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedIDAndTimestamps } from './shared.ts';
+import type { ColumnType } from 'kysely';
+
+export const jobTypeSchema = zod.enum([
+  'email.send',
+  'embeddings.recompute_organization',
+  'embeddings.recompute_posting',
+  'embeddings.recompute_volunteer',
+  'follows.notify_new_posting',
+  'posting.reject_ended_pending_applications',
+  'reminders.send_due',
+  'saved_searches.match_posting',
+  'saved_searches.send_digests',
+], 'Unknown job type');
+export type JobType = zod.infer<typeof jobTypeSchema>;
+
+/**
+ * pending jobs wait for `scheduled_at`, running jobs are held by a worker,
+ * and dead jobs ran out of attempts and wait for an admin to retry them.
+ */
+export const jobStatusSchema = zod.enum(['pending', 'running', 'completed', 'dead'], 'Unknown job status');
+export type JobStatus = zod.infer<typeof jobStatusSchema>;
+
+export const jobSchema = zod.object({
+  id: idSchema,
+  type: jobTypeSchema,
+  payload: zod.record(zod.string(), zod.unknown()),
+  status: jobStatusSchema,
+  attempts: zod.number().int().nonnegative(),
+  max_attempts: zod.number().int().positive(),
+  dedupe_key: zod.string().max(128).nullable(),
+  scheduled_at: zod.date(),
+  locked_at: zod.date().nullable(),
+  locked_by: zod.string().max(128).nullable(),
+  last_error: zod.string().nullable(),
+  completed_at: zod.date().nullable(),
+  created_at: zod.date(),
+  updated_at: zod.date(),
+});
+
+export type Job = zod.infer<typeof jobSchema>;
+
+export type JobTable = Omit<
+  WithGeneratedIDAndTimestamps<WithGeneratedColumns<Job, 'status' | 'attempts' | 'max_attempts' | 'scheduled_at'>>,
+  'payload'
+> & {
+  payload: ColumnType<Record<string, unknown>, string, string>;
+};
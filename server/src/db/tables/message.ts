@@ -0,0 +1,42 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedIDAndCreatedAt } from './shared.ts';
+
+export const messageThreadSchema = zod.object({
+  id: idSchema,
+  organization_id: idSchema,
+  posting_id: idSchema,
+  volunteer_id: idSchema,
+  last_message_at: zod.date(),
+  created_at: zod.date(),
+});
+
+export type MessageThread = zod.infer<typeof messageThreadSchema>;
+export type MessageThreadTable = WithGeneratedIDAndCreatedAt<WithGeneratedColumns<MessageThread, 'last_message_at'>>;
+
+export const messageSenderRoleSchema = zod.enum(['organization', 'volunteer']);
+export type MessageSenderRole = zod.infer<typeof messageSenderRoleSchema>;
+
+export const messageSchema = zod.object({
+  id: idSchema,
+  thread_id: idSchema,
+  sender_role: messageSenderRoleSchema,
+  sender_member_id: idSchema.nullable(),
+  body: zod.string().trim().max(5000, 'Message must be at most 5000 characters'),
+  attachment_path: zod.string().nullable(),
+  attachment_name: zod.string().max(256).nullable(),
+  read_at: zod.date().nullable(),
+  created_at: zod.date(),
+});
+
+export type Message = zod.infer<typeof messageSchema>;
+export type MessageTable = WithGeneratedIDAndCreatedAt<WithGeneratedColumns<Message, 'sender_member_id' | 'attachment_path' | 'attachment_name' | 'read_at'>>;
+
+// Attachments are stored on disk and only served through the thread, so the path never leaves the server
+export type MessageWithoutAttachmentPath = Omit<Message, 'attachment_path'>;
+
+export const newMessageSchema = zod.object({
+  body: messageSchema.shape.body.default(''),
+}).strict();
@@ -0,0 +1,39 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedIDAndCreatedAt } from './shared.ts';
+
+export const notificationRoleSchema = zod.enum(['admin', 'organization', 'volunteer']);
+export type NotificationRole = zod.infer<typeof notificationRoleSchema>;
+
+export const notificationTypeSchema = zod.enum([
+  'application_accepted',
+  'application_rejected',
+  'posting_deleted',
+  'waitlist_promoted',
+  'organization_request_submitted',
+  'organization_account_created',
+  'shift_reminder',
+  'shift_roster',
+  'saved_search_match',
+  'followed_organization_posting',
+  'guardian_consent_response',
+  'new_message',
+], 'Unknown notification type');
+export type NotificationType = zod.infer<typeof notificationTypeSchema>;
+
+export const notificationSchema = zod.object({
+  id: idSchema,
+  user_id: idSchema,
+  role: notificationRoleSchema,
+  type: notificationTypeSchema,
+  title: zod.string().min(1).max(256),
+  message: zod.string().min(1),
+  link: zod.string().max(512).nullable(),
+  read_at: zod.date().nullable(),
+  created_at: zod.date(),
+});
+
+export type Notification = zod.infer<typeof notificationSchema>;
+export type NotificationTable = WithGeneratedIDAndCreatedAt<WithGeneratedColumns<Notification, 'read_at'>>;
@@ -0,0 +1,25 @@
+import zod from 'zod';
+
+import { notificationRoleSchema, notificationTypeSchema } from './notification.ts';
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedID } from './shared.ts';
+
+export const notificationPreferenceSchema = zod.object({
+  id: idSchema,
+  user_id: idSchema,
+  role: notificationRoleSchema,
+  type: notificationTypeSchema,
+  email_enabled: zod.boolean(),
+  in_app_enabled: zod.boolean(),
+});
+
+export type NotificationPreference = zod.infer<typeof notificationPreferenceSchema>;
+export type NotificationPreferenceTable = WithGeneratedID<
+  WithGeneratedColumns<NotificationPreference, 'email_enabled' | 'in_app_enabled'>
+>;
+
+export const newNotificationPreferenceSchema = notificationPreferenceSchema
+  .pick({ type: true, email_enabled: true, in_app_enabled: true })
+  .strict();
+export type NewNotificationPreference = zod.infer<typeof newNotificationPreferenceSchema>;
@@ -2,7 +2,7 @@ import zod from 'zod';
 
 import { emailSchema, idSchema, latitudeSchema, longitudeSchema, passwordSchema, websiteSchema } from '../../schemas/index.ts';
 
-import type { WithGeneratedColumns, WithGeneratedIDAndTimestamps } from './shared.ts';
+import type { WithGeneratedColumns, WithGeneratedIDAndTimestamps, WithSearchVector } from './shared.ts';
 
 export const organizationAccountSchema = zod.object({
   id: idSchema,
@@ -29,8 +29,8 @@ export const organizationAccountSchema = zod.object({
 
 export type OrganizationAccount = zod.infer<typeof organizationAccountSchema>;
 
-export type OrganizationAccountTable = WithGeneratedIDAndTimestamps<
-  WithGeneratedColumns<OrganizationAccount, 'is_disabled' | 'is_deleted' | 'token_version'>
+export type OrganizationAccountTable = WithSearchVector<
+  WithGeneratedIDAndTimestamps<WithGeneratedColumns<OrganizationAccount, 'is_disabled' | 'is_deleted' | 'token_version'>>
 >;
 
 export const newOrganizationAccountSchema = organizationAccountSchema.omit({ id: true, certificate_info_id: true, org_profile_vector: true, org_history_vector: true, org_context_vector: true, is_disabled: true, is_deleted: true, created_at: true, updated_at: true, token_version: true }).strict();
@@ -0,0 +1,15 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedIDAndCreatedAt } from './shared.ts';
+
+export const organizationFollowSchema = zod.object({
+  id: idSchema,
+  volunteer_id: idSchema,
+  organization_id: idSchema,
+  created_at: zod.date(),
+});
+
+export type OrganizationFollow = zod.infer<typeof organizationFollowSchema>;
+export type OrganizationFollowTable = WithGeneratedIDAndCreatedAt<OrganizationFollow>;
@@ -0,0 +1,52 @@
+import zod from 'zod';
+
+import { emailSchema, idSchema, passwordSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedIDAndCreatedAt } from './shared.ts';
+
+export const organizationMemberRoleSchema = zod.enum(
+  ['owner', 'coordinator', 'viewer'],
+  'Role should be \'owner\', \'coordinator\', or \'viewer\'',
+);
+export type OrganizationMemberRole = zod.infer<typeof organizationMemberRoleSchema>;
+
+export const organizationMemberSchema = zod.object({
+  id: idSchema,
+  organization_id: idSchema,
+  email: emailSchema,
+  first_name: zod.string().nullable(),
+  last_name: zod.string().nullable(),
+  password: zod.string().nullable(),
+  role: organizationMemberRoleSchema,
+  token_version: zod.number().int().nonnegative(),
+  invite_token_hash: zod.string().length(64).nullable(),
+  invite_expires_at: zod.date().nullable(),
+  joined_at: zod.date().nullable(),
+  removed_at: zod.date().nullable(),
+  created_at: zod.date(),
+});
+
+export type OrganizationMember = zod.infer<typeof organizationMemberSchema>;
+export type OrganizationMemberTable = WithGeneratedIDAndCreatedAt<WithGeneratedColumns<
+  OrganizationMember,
+  'first_name' | 'last_name' | 'password' | 'token_version' | 'invite_token_hash' | 'invite_expires_at' | 'joined_at' | 'removed_at'
+>>;
+
+export type OrganizationMemberWithoutSecrets = Omit<OrganizationMember, 'password' | 'token_version' | 'invite_token_hash'>;
+
+export const newOrganizationMemberInviteSchema = zod.object({
+  email: emailSchema,
+  role: organizationMemberRoleSchema,
+});
+export type NewOrganizationMemberInvite = zod.infer<typeof newOrganizationMemberInviteSchema>;
+
+export const updateOrganizationMemberSchema = zod.object({
+  role: organizationMemberRoleSchema,
+});
+
+export const acceptOrganizationMemberInviteSchema = zod.object({
+  key: zod.string().min(1),
+  first_name: zod.string().trim().min(1, 'First name is required').max(64, 'First name must be at most 64 characters'),
+  last_name: zod.string().trim().min(1, 'Last name is required').max(64, 'Last name must be at most 64 characters'),
+  password: passwordSchema,
+});
@@ -1,8 +1,11 @@
 import zod from 'zod';
 
+import { newPostingOccurrenceOverrideSchema } from './postingOccurrenceOverride.ts';
+import { newPostingQuestionSchema } from './postingQuestion.ts';
+import { newPostingRoleSchema } from './postingRole.ts';
 import { idSchema, latitudeSchema, longitudeSchema } from '../../schemas/index.ts';
 
-import type { WithGeneratedColumns, WithGeneratedIDAndTimestamps } from './shared.ts';
+import type { WithGeneratedColumns, WithGeneratedIDAndTimestamps, WithSearchVector } from './shared.ts';
 
 export const postingSchema = zod.object({
   id: idSchema,
@@ -21,6 +24,12 @@ export const postingSchema = zod.object({
   automatic_acceptance: zod.boolean().default(true),
   is_closed: zod.boolean().default(false),
   allows_partial_attendance: zod.boolean().default(false),
+  requires_guardian_consent: zod.boolean().default(false),
+  recurrence_weekdays: zod
+    .array(zod.number().int().min(0, 'Weekday must be between 0 and 6').max(6, 'Weekday must be between 0 and 6'))
+    .min(1, 'Select at least one weekday')
+    .nullable(),
+  recurrence_interval: zod.number().int().min(1, 'Repeat interval must be at least 1 week').max(52, 'Repeat interval can at most be 52 weeks').default(1),
   location_name: zod.string().min(2, 'Location must be longer than 2 characters'),
   posting_profile_vector: zod.string().nullable(),
   posting_context_vector: zod.string().nullable(),
@@ -30,8 +39,9 @@ export const postingSchema = zod.object({
 
 export type Posting = zod.infer<typeof postingSchema>;
 
-export type PostingTable = WithGeneratedIDAndTimestamps<
-  WithGeneratedColumns<Posting, 'allows_partial_attendance'>
+export type PostingTable = WithSearchVector<
+  WithGeneratedIDAndTimestamps<WithGeneratedColumns<Posting, 'allows_partial_attendance' | 'requires_guardian_consent' | 'recurrence_interval'>>,
+  'search_skill_names' | 'search_organization_name'
 >;
 
 export const newPostingSchema = postingSchema
@@ -43,6 +53,11 @@ export const newPostingSchema = postingSchema
     max_volunteers: zod.number().nullable().optional(),
     minimum_age: zod.number().nullable().optional(),
     crisis_id: zod.number().int().positive().nullable().optional(),
+    recurrence_weekdays: postingSchema.shape.recurrence_weekdays.optional(),
+    recurrence_interval: zod.number().int().min(1, 'Repeat interval must be at least 1 week').max(52, 'Repeat interval can at most be 52 weeks').optional(),
+    occurrence_overrides: zod.array(newPostingOccurrenceOverrideSchema).optional(),
+    roles: zod.array(newPostingRoleSchema).max(20, 'A posting can have at most 20 roles').optional(),
+    questions: zod.array(newPostingQuestionSchema).max(10, 'A posting can have at most 10 questions').optional(),
   })
   .strict();
 export type NewPosting = zod.infer<typeof newPostingSchema>;
@@ -0,0 +1,15 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedIDAndCreatedAt } from './shared.ts';
+
+export const postingBookmarkSchema = zod.object({
+  id: idSchema,
+  volunteer_id: idSchema,
+  posting_id: idSchema,
+  created_at: zod.date(),
+});
+
+export type PostingBookmark = zod.infer<typeof postingBookmarkSchema>;
+export type PostingBookmarkTable = WithGeneratedIDAndCreatedAt<PostingBookmark>;
@@ -0,0 +1,40 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedID } from './shared.ts';
+
+export const postingOccurrenceOverrideSchema = zod.object({
+  id: idSchema,
+  posting_id: zod.number().min(1, 'Posting ID is required'),
+  date: zod.coerce.date({
+    error: (issue) => {
+      if (issue.code === 'invalid_type') return 'Date is required';
+      return 'Invalid date format';
+    },
+  }),
+  is_skipped: zod.boolean(),
+  start_time: zod.string().nullable(),
+  end_time: zod.string().nullable(),
+});
+
+export type PostingOccurrenceOverride = zod.infer<typeof postingOccurrenceOverrideSchema>;
+export type PostingOccurrenceOverrideEntry = Pick<PostingOccurrenceOverride, 'is_skipped' | 'start_time' | 'end_time'> & {
+  date: string;
+};
+export type PostingOccurrenceOverrideTable = WithGeneratedID<
+  WithGeneratedColumns<PostingOccurrenceOverride, 'is_skipped'>
+>;
+
+export const newPostingOccurrenceOverrideSchema = zod.object({
+  date: zod.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  is_skipped: zod.boolean().default(false),
+  start_time: zod.string().min(1, 'Start time is required').nullable().optional(),
+  end_time: zod.string().min(1, 'End time is required').nullable().optional(),
+})
+  .strict()
+  .refine(
+    override => override.is_skipped || Boolean(override.start_time) || Boolean(override.end_time),
+    { message: 'A schedule exception must either skip the date or change its times' },
+  );
+export type NewPostingOccurrenceOverride = zod.infer<typeof newPostingOccurrenceOverrideSchema>;
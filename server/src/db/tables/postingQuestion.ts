@@ -0,0 +1,69 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedID } from './shared.ts';
+import type { ColumnType } from 'kysely';
+
+export const postingQuestionTypeSchema = zod.enum(
+  ['short_text', 'multiple_choice', 'yes_no'],
+  'Question type should be \'short_text\', \'multiple_choice\', or \'yes_no\'',
+);
+export type PostingQuestionType = zod.infer<typeof postingQuestionTypeSchema>;
+
+export const postingQuestionSchema = zod.object({
+  id: idSchema,
+  posting_id: idSchema,
+  position: zod.number().int().min(0),
+  prompt: zod.string().trim().min(1, 'Question is required').max(300, 'Question must be at most 300 characters'),
+  type: postingQuestionTypeSchema,
+  options: zod
+    .array(zod.string().trim().min(1, 'Option cannot be empty').max(100, 'Option must be at most 100 characters'))
+    .max(10, 'A question can have at most 10 options'),
+  is_required: zod.boolean(),
+});
+
+export type PostingQuestion = zod.infer<typeof postingQuestionSchema>;
+
+export type PostingQuestionTable = Omit<WithGeneratedID<WithGeneratedColumns<PostingQuestion, 'is_required'>>, 'options'> & {
+  options: ColumnType<string[], string | undefined, string>;
+};
+
+export const newPostingQuestionSchema = postingQuestionSchema
+  .omit({ id: true, posting_id: true, position: true })
+  .extend({
+    // Present when an existing question is edited
+    id: idSchema.optional(),
+    options: postingQuestionSchema.shape.options.default([]),
+    is_required: zod.boolean().default(false),
+  })
+  .strict()
+  .superRefine((question, ctx) => {
+    if (question.type !== 'multiple_choice') {
+      if (question.options.length > 0) {
+        ctx.addIssue({ code: 'custom', path: ['options'], message: 'Only multiple choice questions can have options' });
+      }
+      return;
+    }
+
+    if (question.options.length < 2) {
+      ctx.addIssue({ code: 'custom', path: ['options'], message: 'Multiple choice questions need at least 2 options' });
+    }
+
+    const normalizedOptions = question.options.map(option => option.toLowerCase());
+    if (normalizedOptions.some((option, index) => normalizedOptions.indexOf(option) !== index)) {
+      ctx.addIssue({ code: 'custom', path: ['options'], message: 'Options must be unique' });
+    }
+  });
+export type NewPostingQuestion = zod.infer<typeof newPostingQuestionSchema>;
+
+/**
+ * An answer as stored on an application or waitlist entry, with a copy of the question it answers.
+ */
+export const applicationAnswerSchema = zod.object({
+  question_id: idSchema,
+  prompt: zod.string(),
+  type: postingQuestionTypeSchema,
+  answer: zod.string(),
+});
+export type ApplicationAnswer = zod.infer<typeof applicationAnswerSchema>;
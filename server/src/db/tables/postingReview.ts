@@ -0,0 +1,38 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedIDAndTimestamps } from './shared.ts';
+
+export const feedbackRatingSchema = zod
+  .number('Rating is required')
+  .int('Rating must be a whole number')
+  .min(1, 'Rating must be between 1 and 5')
+  .max(5, 'Rating must be between 1 and 5');
+
+export const feedbackCommentSchema = zod
+  .string()
+  .trim()
+  .max(1000, 'Comment must be at most 1000 characters')
+  .nullable()
+  .transform(comment => comment || null);
+
+export const postingReviewSchema = zod.object({
+  id: idSchema,
+  enrollment_id: idSchema,
+  posting_id: idSchema,
+  volunteer_id: idSchema,
+  rating: feedbackRatingSchema,
+  comment: feedbackCommentSchema,
+  created_at: zod.date(),
+  updated_at: zod.date(),
+});
+
+export type PostingReview = zod.infer<typeof postingReviewSchema>;
+export type PostingReviewTable = WithGeneratedIDAndTimestamps<PostingReview>;
+
+export const newPostingReviewSchema = postingReviewSchema
+  .pick({ rating: true })
+  .extend({ comment: feedbackCommentSchema.default(null) })
+  .strict();
+export type NewPostingReview = zod.infer<typeof newPostingReviewSchema>;
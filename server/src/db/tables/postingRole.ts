@@ -0,0 +1,28 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedID } from './shared.ts';
+
+export const postingRoleSchema = zod.object({
+  id: idSchema,
+  posting_id: zod.number().min(1, 'Posting ID is required'),
+  name: zod.string().trim().min(1, 'Role name is required').max(64, 'Role name must be at most 64 characters'),
+  max_volunteers: zod.number().int().positive('Role capacity must be at least 1').nullable(),
+  minimum_age: zod.number().int().min(0, 'Minimum age cannot be negative').nullable(),
+});
+
+export type PostingRole = zod.infer<typeof postingRoleSchema>;
+export type PostingRoleTable = WithGeneratedID<PostingRole>;
+
+export const newPostingRoleSchema = postingRoleSchema
+  .omit({ id: true, posting_id: true })
+  .extend({
+    // Present when an existing role is edited, so enrollments keep pointing at it
+    id: idSchema.optional(),
+    max_volunteers: postingRoleSchema.shape.max_volunteers.optional(),
+    minimum_age: postingRoleSchema.shape.minimum_age.optional(),
+    skills: zod.array(zod.string().min(1, 'Skill name is required')).optional(),
+  })
+  .strict();
+export type NewPostingRole = zod.infer<typeof newPostingRoleSchema>;
@@ -0,0 +1,16 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedID } from './shared.ts';
+
+export const postingRoleSkillSchema = zod.object({
+  id: idSchema,
+  role_id: zod.number().min(1, 'Role ID is required'),
+  skill_id: idSchema,
+  name: zod.string().min(1, 'Skill name is required'),
+});
+
+export type PostingRoleSkill = zod.infer<typeof postingRoleSkillSchema>;
+
+export type PostingRoleSkillTable = WithGeneratedID<PostingRoleSkill>;
@@ -0,0 +1,15 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedID } from './shared.ts';
+
+export const postingRosterReminderSchema = zod.object({
+  id: idSchema,
+  posting_id: idSchema,
+  date: zod.date(),
+  sent_at: zod.date(),
+});
+
+export type PostingRosterReminder = zod.infer<typeof postingRosterReminderSchema>;
+export type PostingRosterReminderTable = WithGeneratedID<WithGeneratedColumns<PostingRosterReminder, 'sent_at'>>;
@@ -7,6 +7,8 @@ import type { WithGeneratedID } from './shared.ts';
 export const postingSkillSchema = zod.object({
   id: idSchema,
   posting_id: zod.number().min(1, 'Posting ID is required'),
+  skill_id: idSchema,
+  // Copy of the catalog name, kept in sync when an admin renames or merges the skill
   name: zod.string().min(1, 'Skill name is required'),
 });
 
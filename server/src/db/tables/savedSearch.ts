@@ -0,0 +1,68 @@
+import zod from 'zod';
+
+import { idSchema, latitudeSchema, longitudeSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedIDAndTimestamps } from './shared.ts';
+import type { ColumnType } from 'kysely';
+
+export const savedSearchAlertFrequencySchema = zod.enum(
+  ['immediate', 'daily', 'off'],
+  'Alert frequency should be \'immediate\', \'daily\', or \'off\'',
+);
+export type SavedSearchAlertFrequency = zod.infer<typeof savedSearchAlertFrequencySchema>;
+
+export const savedSearchPostingFilterSchema = zod.enum(
+  ['all', 'open', 'review', 'partial', 'full', 'tagged', 'untagged'],
+  'Unknown posting filter',
+);
+
+/**
+ * The posting search filters a volunteer can save, named after the query
+ * parameters of `GET /volunteer/posting` so a saved search replays as a search.
+ */
+export const savedSearchFiltersSchema = zod.object({
+  search: zod.string().trim().max(256, 'Search must be at most 256 characters').default(''),
+  skill_id: idSchema.nullable().default(null),
+  posting_filter: savedSearchPostingFilterSchema.default('all'),
+  crisis_id: idSchema.nullable().default(null),
+  start_date_from: zod.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be YYYY-MM-DD').nullable().default(null),
+  end_date_to: zod.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be YYYY-MM-DD').nullable().default(null),
+  start_time_from: zod.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, 'Start time must be HH:MM').nullable().default(null),
+  end_time_to: zod.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, 'End time must be HH:MM').nullable().default(null),
+  near: zod.object({
+    latitude: latitudeSchema,
+    longitude: longitudeSchema,
+    location_name: zod.string().trim().max(256, 'Location must be at most 256 characters'),
+    radius_km: zod.number().positive('Radius must be positive').max(500, 'Radius must be at most 500 km').nullable(),
+  }).nullable().default(null),
+  hide_full: zod.boolean().default(false),
+});
+export type SavedSearchFilters = zod.infer<typeof savedSearchFiltersSchema>;
+
+export const savedSearchSchema = zod.object({
+  id: idSchema,
+  volunteer_id: idSchema,
+  name: zod.string().trim().min(1, 'Name is required').max(128, 'Name must be at most 128 characters'),
+  filters: savedSearchFiltersSchema,
+  alert_frequency: savedSearchAlertFrequencySchema,
+  created_at: zod.date(),
+  updated_at: zod.date(),
+});
+
+export type SavedSearch = zod.infer<typeof savedSearchSchema>;
+
+export type SavedSearchTable = Omit<
+  WithGeneratedIDAndTimestamps<WithGeneratedColumns<SavedSearch, 'alert_frequency'>>,
+  'filters'
+> & {
+  filters: ColumnType<SavedSearchFilters, string, string>;
+};
+
+export const newSavedSearchSchema = savedSearchSchema
+  .pick({ name: true, filters: true })
+  .extend({ alert_frequency: savedSearchAlertFrequencySchema.default('immediate') });
+export type NewSavedSearch = zod.infer<typeof newSavedSearchSchema>;
+
+export const updateSavedSearchSchema = savedSearchSchema
+  .pick({ name: true, filters: true, alert_frequency: true })
+  .partial();
@@ -0,0 +1,16 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedIDAndCreatedAt } from './shared.ts';
+
+export const savedSearchMatchSchema = zod.object({
+  id: idSchema,
+  saved_search_id: idSchema,
+  posting_id: idSchema,
+  notified_at: zod.date().nullable(),
+  created_at: zod.date(),
+});
+
+export type SavedSearchMatch = zod.infer<typeof savedSearchMatchSchema>;
+export type SavedSearchMatchTable = WithGeneratedIDAndCreatedAt<WithGeneratedColumns<SavedSearchMatch, 'notified_at'>>;
@@ -1,4 +1,4 @@
-import type { Generated } from 'kysely';
+import type { Generated, GeneratedAlways } from 'kysely';
 
 export type WithGeneratedColumns<T, K extends keyof T> = Omit<T, K> & {
   [P in K]: Generated<T[P]>;
@@ -18,3 +18,10 @@ export type WithGeneratedIDAndTimestamps<T> = Omit<T, 'id' | 'created_at' | 'upd
   created_at: Generated<Date>;
   updated_at: Generated<Date>;
 };
+
+// Kept up to date by the database for full-text search; never written or returned by the API
+export type WithSearchVector<T, K extends string = never> = T & {
+  search_vector: GeneratedAlways<string>;
+} & {
+  [P in K]: GeneratedAlways<string>;
+};
@@ -0,0 +1,50 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedID, WithGeneratedIDAndCreatedAt } from './shared.ts';
+
+export const skillCategorySchema = zod.enum([
+  'medical',
+  'education',
+  'community',
+  'language',
+  'logistics',
+  'trades',
+  'technology',
+  'creative',
+  'administration',
+], 'Unknown skill category');
+export type SkillCategory = zod.infer<typeof skillCategorySchema>;
+
+export const skillNameSchema = zod.string().trim().min(1, 'Skill name is required').max(64, 'Skill name must be at most 64 characters');
+
+export const skillSchema = zod.object({
+  id: idSchema,
+  name: skillNameSchema,
+  // Lowercased with punctuation collapsed, so "First-Aid" and "first aid" are the same skill
+  normalized_name: zod.string(),
+  // Skills created on the fly from free text stay uncategorized until an admin reviews them
+  category: skillCategorySchema.nullable(),
+  created_at: zod.date(),
+});
+
+export type Skill = zod.infer<typeof skillSchema>;
+export type SkillTable = WithGeneratedIDAndCreatedAt<Skill>;
+
+export const skillSynonymSchema = zod.object({
+  id: idSchema,
+  skill_id: idSchema,
+  name: skillNameSchema,
+  normalized_name: zod.string(),
+});
+
+export type SkillSynonym = zod.infer<typeof skillSynonymSchema>;
+export type SkillSynonymTable = WithGeneratedID<SkillSynonym>;
+
+export const newSkillSchema = zod.object({
+  name: skillNameSchema,
+  category: skillCategorySchema.nullable(),
+  synonyms: zod.array(skillNameSchema).max(32, 'A skill can have at most 32 synonyms').default([]),
+}).strict();
+export type NewSkill = zod.infer<typeof newSkillSchema>;
@@ -1,6 +1,6 @@
 import zod from 'zod';
 
-import { emailSchema, genderSchema, idSchema, passwordSchema } from '../../schemas/index.ts';
+import { emailSchema, genderSchema, idSchema, latitudeSchema, longitudeSchema, passwordSchema } from '../../schemas/index.ts';
 
 import type { WithGeneratedColumns, WithGeneratedIDAndTimestamps } from './shared.ts';
 
@@ -17,6 +17,9 @@ export const volunteerAccountSchema = zod.object({
   gender: genderSchema,
   cv_path: zod.string().trim().max(256, 'CV path must be at most 256 characters').nullable(),
   description: zod.string().max(500, 'Description must be less than 500 characters').nullable(),
+  home_latitude: latitudeSchema.nullable(),
+  home_longitude: longitudeSchema.nullable(),
+  home_location_name: zod.string().max(256, 'Location must be at most 256 characters').nullable(),
   volunteer_profile_vector: zod.string().nullable(),
   volunteer_history_vector: zod.string().nullable(),
   volunteer_context_vector: zod.string().nullable(),
@@ -29,13 +32,19 @@ export const volunteerAccountSchema = zod.object({
 export type VolunteerAccount = zod.infer<typeof volunteerAccountSchema>;
 
 export type VolunteerAccountTable = WithGeneratedIDAndTimestamps<
-  WithGeneratedColumns<VolunteerAccount, 'is_disabled' | 'is_deleted' | 'token_version'>
+  WithGeneratedColumns<
+    VolunteerAccount,
+    'is_disabled' | 'is_deleted' | 'token_version' | 'home_latitude' | 'home_longitude' | 'home_location_name'
+  >
 >;
 
 export const newVolunteerAccountSchema = volunteerAccountSchema.omit({
   id: true,
   cv_path: true,
   description: true,
+  home_latitude: true,
+  home_longitude: true,
+  home_location_name: true,
   volunteer_profile_vector: true,
   volunteer_history_vector: true,
   volunteer_context_vector: true,
@@ -49,6 +58,9 @@ export type NewVolunteerAccount = zod.infer<typeof newVolunteerAccountSchema>;
 
 export const volunteerAccountWithoutPasswordSchema = volunteerAccountSchema.omit({
   password: true,
+  home_latitude: true,
+  home_longitude: true,
+  home_location_name: true,
   volunteer_profile_vector: true,
   volunteer_history_vector: true,
   volunteer_context_vector: true,
@@ -59,3 +71,14 @@ export const volunteerAccountWithoutPasswordSchema = volunteerAccountSchema.omit
   updated_at: true,
 });
 export type VolunteerAccountWithoutPassword = zod.infer<typeof volunteerAccountWithoutPasswordSchema>;
+
+export const volunteerHomeLocationSchema = zod.object({
+  latitude: latitudeSchema,
+  longitude: longitudeSchema,
+  location_name: zod
+    .string()
+    .trim()
+    .min(2, 'Location must be longer than 2 characters')
+    .max(256, 'Location must be at most 256 characters'),
+});
+export type VolunteerHomeLocation = zod.infer<typeof volunteerHomeLocationSchema>;
@@ -0,0 +1,61 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedID } from './shared.ts';
+
+const availabilityTimeSchema = (label: string) => zod
+  .string()
+  .regex(/^\d{2}:\d{2}(:\d{2})?$/, `${label} must be HH:MM`)
+  .transform(time => time.slice(0, 5));
+
+export const volunteerAvailabilityWindowSchema = zod.object({
+  id: idSchema,
+  volunteer_id: idSchema,
+  weekday: zod.number().int().min(0, 'Weekday must be between 0 and 6').max(6, 'Weekday must be between 0 and 6'),
+  start_time: zod.string(),
+  end_time: zod.string(),
+});
+
+export type VolunteerAvailabilityWindow = zod.infer<typeof volunteerAvailabilityWindowSchema>;
+export type VolunteerAvailabilityWindowTable = WithGeneratedID<VolunteerAvailabilityWindow>;
+
+export const volunteerBlackoutDateSchema = zod.object({
+  id: idSchema,
+  volunteer_id: idSchema,
+  date: zod.coerce.date({
+    error: (issue) => {
+      if (issue.code === 'invalid_type') return 'Date is required';
+      return 'Invalid date format';
+    },
+  }),
+});
+
+export type VolunteerBlackoutDate = zod.infer<typeof volunteerBlackoutDateSchema>;
+export type VolunteerBlackoutDateTable = WithGeneratedID<VolunteerBlackoutDate>;
+
+export const volunteerAvailabilityWindowEntrySchema = volunteerAvailabilityWindowSchema
+  .pick({ weekday: true })
+  .extend({
+    start_time: availabilityTimeSchema('Start time'),
+    end_time: availabilityTimeSchema('End time'),
+  })
+  .strict()
+  .refine(window => window.start_time < window.end_time, {
+    message: 'End time must be after start time',
+    path: ['end_time'],
+  });
+export type VolunteerAvailabilityWindowEntry = zod.infer<typeof volunteerAvailabilityWindowEntrySchema>;
+
+/**
+ * Weekly time windows a volunteer can usually attend, plus single dates they can't.
+ * A volunteer without windows is treated as available at any time outside their blackout dates.
+ */
+export const volunteerAvailabilitySchema = zod.object({
+  windows: zod.array(volunteerAvailabilityWindowEntrySchema).max(28, 'You can add at most 28 time windows'),
+  blackout_dates: zod
+    .array(zod.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Blackout date must be YYYY-MM-DD'))
+    .max(100, 'You can add at most 100 blackout dates')
+    .transform(dates => Array.from(new Set(dates)).sort()),
+}).strict();
+export type VolunteerAvailability = zod.infer<typeof volunteerAvailabilitySchema>;
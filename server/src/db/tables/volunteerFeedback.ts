@@ -0,0 +1,27 @@
+import zod from 'zod';
+
+import { feedbackCommentSchema, feedbackRatingSchema } from './postingReview.ts';
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedIDAndTimestamps } from './shared.ts';
+
+export const volunteerFeedbackSchema = zod.object({
+  id: idSchema,
+  enrollment_id: idSchema,
+  posting_id: idSchema,
+  volunteer_id: idSchema,
+  author_member_id: idSchema.nullable(),
+  rating: feedbackRatingSchema,
+  comment: feedbackCommentSchema,
+  created_at: zod.date(),
+  updated_at: zod.date(),
+});
+
+export type VolunteerFeedback = zod.infer<typeof volunteerFeedbackSchema>;
+export type VolunteerFeedbackTable = WithGeneratedIDAndTimestamps<VolunteerFeedback>;
+
+export const newVolunteerFeedbackSchema = volunteerFeedbackSchema
+  .pick({ rating: true })
+  .extend({ comment: feedbackCommentSchema.default(null) })
+  .strict();
+export type NewVolunteerFeedback = zod.infer<typeof newVolunteerFeedbackSchema>;
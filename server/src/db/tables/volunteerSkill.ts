@@ -7,6 +7,7 @@ import type { WithGeneratedID } from './shared.ts';
 export const volunteerSkillSchema = zod.object({
   id: idSchema,
   volunteer_id: idSchema,
+  skill_id: idSchema,
   name: zod.string().min(1, 'Skill name is required'),
 });
 
@@ -0,0 +1,22 @@
+import zod from 'zod';
+
+import { applicationAnswerSchema, type ApplicationAnswer } from './postingQuestion.ts';
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedColumns, WithGeneratedIDAndCreatedAt } from './shared.ts';
+import type { ColumnType } from 'kysely';
+
+export const waitlistEntrySchema = zod.object({
+  id: idSchema,
+  posting_id: idSchema,
+  role_id: idSchema.nullable(),
+  volunteer_id: idSchema,
+  message: zod.string().max(350, 'Your message is too long. Please limit it to 350 characters.').nullable(),
+  answers: zod.array(applicationAnswerSchema),
+  created_at: zod.date(),
+});
+
+export type WaitlistEntry = zod.infer<typeof waitlistEntrySchema>;
+export type WaitlistEntryTable = Omit<WithGeneratedIDAndCreatedAt<WithGeneratedColumns<WaitlistEntry, 'role_id'>>, 'answers'> & {
+  answers: ColumnType<ApplicationAnswer[], string | undefined, string>;
+};
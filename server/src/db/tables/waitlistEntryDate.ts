@@ -0,0 +1,19 @@
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+import type { WithGeneratedID } from './shared.ts';
+
+export const waitlistEntryDateSchema = zod.object({
+  id: idSchema,
+  waitlist_entry_id: zod.number(),
+  date: zod.coerce.date({
+    error: (issue) => {
+      if (issue.code === 'invalid_type') return 'Date is required';
+      return 'Invalid date format';
+    },
+  }),
+});
+
+export type WaitlistEntryDate = zod.infer<typeof waitlistEntryDateSchema>;
+export type WaitlistEntryDateTable = WithGeneratedID<WaitlistEntryDate>;
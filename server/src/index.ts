@@ -2,7 +2,8 @@ import createApp from './app.ts';
 import config from './config.ts';
 import database from './db/index.ts';
 import { migrateToLatest } from './db/migrate.ts';
-import { startEndedPendingApplicationsCleanup } from './services/posting/endedPendingApplicationsCleanup.ts';
+import { registerActiveCertificateSigningKey } from './services/certificates/keyring.ts';
+import { startJobWorker } from './services/jobs/worker.ts';
 
 async function startServer() {
   try {
@@ -15,8 +16,15 @@ async function startServer() {
     process.exit(1);
   }
 
+  try {
+    await registerActiveCertificateSigningKey(database);
+  } catch (error) {
+    console.error('Failed to register the certificate signing key:', error);
+    process.exit(1);
+  }
+
   const app = createApp(database);
-  startEndedPendingApplicationsCleanup(database);
+  startJobWorker(database);
 
   const server = app.listen(config.SERVER_PORT, () => {
     console.log('Listening on port ' + config.SERVER_PORT);
@@ -0,0 +1,8 @@
+import crypto from 'crypto';
+
+// Prints a new Ed25519 key for CERTIFICATE_SIGNING_KEY. The previous key is
+// retired automatically on the next start and keeps verifying older certificates.
+const { privateKey } = crypto.generateKeyPairSync('ed25519');
+const pem = privateKey.export({ format: 'pem', type: 'pkcs8' }).toString();
+
+console.log(`CERTIFICATE_SIGNING_KEY="${pem.trim().replace(/\n/g, '\\n')}"`);
@@ -7,6 +7,7 @@ import zod from 'zod';
 import config from '../../config.ts';
 import database from '../../db/index.ts';
 import { hash } from '../../services/bcrypt/index.ts';
+import { withSkillIds } from '../../services/skills/index.ts';
 import { CV_UPLOAD_DIR } from '../../services/uploads/paths.ts';
 import {
   writeRecommendationCvPdf,
@@ -287,10 +288,10 @@ async function seedRecommendationDataset() {
 
     if (normalizedSkills.length > 0) {
       await database.insertInto('volunteer_skill').values(
-        normalizedSkills.map(skill => ({
+        await withSkillIds(database, normalizedSkills.map(skill => ({
           volunteer_id: inserted.id,
           name: skill,
-        })),
+        }))),
       ).execute();
     }
   }
@@ -371,10 +372,10 @@ async function seedRecommendationDataset() {
     volunteerSkillsByDbId.set(inserted.id, normalizedSkills);
 
     await database.insertInto('volunteer_skill').values(
-      normalizedSkills.map(skill => ({
+      await withSkillIds(database, normalizedSkills.map(skill => ({
         volunteer_id: inserted.id,
         name: skill,
-      })),
+      }))),
     ).execute();
   }
 
@@ -428,10 +429,10 @@ async function seedRecommendationDataset() {
       await database
         .insertInto('posting_skill')
         .values(
-          normalizedPostingSkills.map(skill => ({
+          await withSkillIds(database, normalizedPostingSkills.map(skill => ({
             posting_id: insertedPosting.id,
             name: skill,
-          })),
+          }))),
         )
         .execute();
 
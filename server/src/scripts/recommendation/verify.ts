@@ -10,6 +10,7 @@ import {
   recomputeVolunteerExperienceVector,
   recomputeVolunteerProfileVector,
 } from '../../services/embeddings/updates.ts';
+import { withSkillIds } from '../../services/skills/index.ts';
 
 const TEST_PASSWORD_HASH = await hash('Willing123');
 
@@ -74,10 +75,10 @@ const ensurePosting = async (organizationId: number) => {
 
   await database
     .insertInto('posting_skill')
-    .values([
+    .values(await withSkillIds(database, [
       { posting_id: inserted.id, name: 'Coordination' },
       { posting_id: inserted.id, name: 'Communication' },
-    ])
+    ]))
     .execute();
 
   return inserted.id;
@@ -109,10 +110,10 @@ const ensureVolunteer = async () => {
 
   await database
     .insertInto('volunteer_skill')
-    .values([
+    .values(await withSkillIds(database, [
       { volunteer_id: inserted.id, name: 'Teaching' },
       { volunteer_id: inserted.id, name: 'First Aid' },
-    ])
+    ]))
     .execute();
 
   return inserted.id;
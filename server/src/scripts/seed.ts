@@ -7,6 +7,7 @@ import { sql } from 'kysely';
 import config from '../config.ts';
 import database from '../db/index.ts';
 import { hash } from '../services/bcrypt/index.ts';
+import { withSkillIds } from '../services/skills/index.ts';
 
 const PASSWORD_PLAIN = process.argv[2] || 'Willing123';
 
@@ -68,7 +69,9 @@ async function seed() {
     volunteer_account,
     organization_account,
     admin_account,
-    crisis
+    crisis,
+    audit_log,
+    calendar_feed
   RESTART IDENTITY CASCADE
 `.execute(database);
 
@@ -2396,7 +2399,7 @@ async function seed() {
 
   // Posting Skills
 
-  await database.insertInto('posting_skill').values([
+  await database.insertInto('posting_skill').values(await withSkillIds(database, [
     // Blood Drive Coordination
     { posting_id: postingByTitle.get('Blood Drive Coordination')!, name: 'Organisation' },
     { posting_id: postingByTitle.get('Blood Drive Coordination')!, name: 'Communication' },
@@ -2911,11 +2914,11 @@ async function seed() {
     { posting_id: postingByTitle.get('Diaspora Connect Volunteer Event')!, name: 'Community Engagement' },
     { posting_id: postingByTitle.get('Diaspora Connect Volunteer Event')!, name: 'Communication' },
     { posting_id: postingByTitle.get('Diaspora Connect Volunteer Event')!, name: 'Organisation' },
-  ]).execute();
+  ])).execute();
 
   // Volunteer Skills
 
-  await database.insertInto('volunteer_skill').values([
+  await database.insertInto('volunteer_skill').values(await withSkillIds(database, [
     // vol1 – logistics / physical
     { volunteer_id: volByEmail.get('vol1@willing.social')!, name: 'Logistics' },
     { volunteer_id: volByEmail.get('vol1@willing.social')!, name: 'Physical Stamina' },
@@ -3357,7 +3360,7 @@ async function seed() {
     { volunteer_id: volByEmail.get('vol80@willing.social')!, name: 'Triage Support' },
     { volunteer_id: volByEmail.get('vol80@willing.social')!, name: 'Crisis Response' },
     { volunteer_id: volByEmail.get('vol80@willing.social')!, name: 'Calm Under Pressure' },
-  ]).execute();
+  ])).execute();
 
   // Enrollment Applications (review-based postings)
 
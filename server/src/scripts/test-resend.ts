@@ -95,7 +95,7 @@ async function run() {
       try {
         await task.run();
         sent += 1;
-        console.log(`Round ${round} - ${position}: ${task.name} sent`);
+        console.log(`Round ${round} - ${position}: ${task.name} queued`);
       } catch (error) {
         failed += 1;
         console.error(`Round ${round} - ${position}: ${task.name} failed`, error);
@@ -109,8 +109,8 @@ async function run() {
     if (round < TOTAL_ROUNDS) await sleep(DELAY_MS);
   }
 
-  console.log('Resend template test run completed.');
-  console.log(`Sent: ${sent}`);
+  console.log('Resend template test run completed. Queued emails are delivered by the job worker of a running server.');
+  console.log(`Queued: ${sent}`);
   console.log(`Failed: ${failed}`);
 
   if (failed > 0) {
@@ -0,0 +1,43 @@
+import { type Kysely } from 'kysely';
+
+import {
+  type AuditAction,
+  type AuditActorRole,
+  type AuditEntityType,
+  type Database,
+} from '../../db/tables/index.ts';
+
+export type AuditActor = {
+  role: AuditActorRole;
+  id: number;
+};
+
+export type AuditEntry = {
+  actor: AuditActor;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: number;
+  before?: object | null;
+  after?: object | null;
+};
+
+const serializeSnapshot = (snapshot: object | null | undefined) => (snapshot ? JSON.stringify(snapshot) : null);
+
+/**
+ * Appends an entry to the audit log. Pass the transaction the change runs in
+ * so the entry is only kept when the change itself is committed.
+ */
+export async function recordAuditLog(db: Kysely<Database>, entry: AuditEntry) {
+  await db
+    .insertInto('audit_log')
+    .values({
+      actor_role: entry.actor.role,
+      actor_id: entry.actor.id,
+      action: entry.action,
+      entity_type: entry.entity_type,
+      entity_id: entry.entity_id,
+      before: serializeSnapshot(entry.before),
+      after: serializeSnapshot(entry.after),
+    })
+    .execute();
+}
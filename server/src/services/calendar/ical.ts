@@ -0,0 +1,86 @@
+const MAX_LINE_OCTETS = 75;
+
+export type CalendarEvent = {
+  uid: string;
+  startsAt: Date;
+  endsAt: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  updatedAt: Date;
+};
+
+export type Calendar = {
+  name: string;
+  events: readonly CalendarEvent[];
+};
+
+const escapeText = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// 2099-01-10T09:00:00.000Z -> 20990110T090000Z
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Folds a content line onto continuation lines of at most 75 octets,
+ * without splitting a multi-byte character (RFC 5545, section 3.1).
+ */
+const foldLine = (line: string) => {
+  const lines: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const charOctets = Buffer.byteLength(char);
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + charOctets > limit) {
+      lines.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += charOctets;
+  }
+
+  lines.push(current);
+  return lines.join('\r\n ');
+};
+
+const renderEvent = (event: CalendarEvent, generatedAt: Date) => [
+  'BEGIN:VEVENT',
+  `UID:${event.uid}`,
+  `DTSTAMP:${formatDateTime(generatedAt)}`,
+  `LAST-MODIFIED:${formatDateTime(event.updatedAt)}`,
+  `DTSTART:${formatDateTime(event.startsAt)}`,
+  `DTEND:${formatDateTime(event.endsAt)}`,
+  `SUMMARY:${escapeText(event.summary)}`,
+  ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+  ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+  ...(event.url ? [`URL:${event.url}`] : []),
+  'END:VEVENT',
+];
+
+/**
+ * Renders an iCalendar document. Subscribed calendars match events by UID,
+ * so UIDs must stay the same across renders for an event to be updated in place.
+ */
+export const renderCalendar = ({ name, events }: Calendar, generatedAt: Date = new Date()) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Willing//Volunteer Calendar//EN',
+  'CALSCALE:GREGORIAN',
+  'METHOD:PUBLISH',
+  `X-WR-CALNAME:${escapeText(name)}`,
+  'X-PUBLISHED-TTL:PT1H',
+  'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+  ...events.flatMap(event => renderEvent(event, generatedAt)),
+  'END:VCALENDAR',
+]
+  .map(foldLine)
+  .join('\r\n') + '\r\n';
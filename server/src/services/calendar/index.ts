@@ -0,0 +1,252 @@
+import crypto from 'crypto';
+
+import { sql, type Kysely } from 'kysely';
+
+import { renderCalendar, type CalendarEvent } from './ical.ts';
+import config from '../../config.ts';
+import { type CalendarFeedRole, type Database, type PostingOccurrenceOverrideEntry } from '../../db/tables/index.ts';
+import { getPostingOccurrenceOverrides, getPostingOccurrences, type PostingOccurrence } from '../posting/postingSchedule.ts';
+import { normalizeStoredTime } from '../posting/postingTime.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CALENDAR_FEED_TOKEN_BYTES = 32;
+
+export type CalendarFeedOwner = {
+  user_id: number;
+  role: CalendarFeedRole;
+};
+
+type CalendarPosting = {
+  id: number;
+  title: string;
+  description: string;
+  location_name: string;
+  organization_name: string;
+  updated_at: Date;
+};
+
+const calendarPostingColumns = [
+  'posting.id',
+  'posting.title',
+  'posting.description',
+  'posting.location_name',
+  'posting.start_date',
+  'posting.end_date',
+  'posting.start_time',
+  'posting.end_time',
+  'posting.recurrence_weekdays',
+  'posting.recurrence_interval',
+  'posting.updated_at',
+  'organization_account.name as organization_name',
+] as const;
+
+const getEventDomain = () => new URL(config.CLIENT_URL).host;
+
+const getOccurrenceBounds = (occurrence: PostingOccurrence) => {
+  const startsAt = new Date(`${occurrence.date}T${occurrence.start_time ?? '00:00:00'}.000Z`);
+  const endsAt = new Date(`${occurrence.date}T${occurrence.end_time ?? '23:59:59'}.000Z`);
+
+  // A shift that ends at or before its start time runs past midnight
+  return {
+    startsAt,
+    endsAt: endsAt.getTime() > startsAt.getTime() ? endsAt : new Date(endsAt.getTime() + DAY_MS),
+  };
+};
+
+const toCalendarEvent = (
+  posting: CalendarPosting,
+  occurrence: PostingOccurrence,
+  { uid, summary }: { uid: string; summary: string },
+): CalendarEvent => ({
+  uid,
+  summary,
+  ...getOccurrenceBounds(occurrence),
+  description: `Organized by ${posting.organization_name}\n\n${posting.description}`,
+  location: posting.location_name,
+  url: `${config.CLIENT_URL}/posting/${posting.id}`,
+  updatedAt: new Date(posting.updated_at),
+});
+
+/**
+ * One event per enrolled date, so withdrawing or dropping a date removes it
+ * from subscribed calendars. Pass a posting ID to limit the events to that posting.
+ */
+export async function getVolunteerCalendarEvents(db: Kysely<Database>, volunteerId: number, postingId?: number) {
+  let datesQuery = db
+    .selectFrom('enrollment_date')
+    .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
+    .innerJoin('posting', 'posting.id', 'enrollment_date.posting_id')
+    .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+    .select([
+      ...calendarPostingColumns,
+      sql<string>`to_char(enrollment_date.date, 'YYYY-MM-DD')`.as('date'),
+    ])
+    .where('enrollment.volunteer_id', '=', volunteerId)
+    .where('organization_account.is_deleted', '=', false)
+    .where('organization_account.is_disabled', '=', false);
+
+  if (postingId !== undefined) {
+    datesQuery = datesQuery.where('posting.id', '=', postingId);
+  }
+
+  const dates = await datesQuery
+    .orderBy('enrollment_date.date', 'asc')
+    .orderBy('posting.id', 'asc')
+    .execute();
+
+  const overridesByPostingId = await getPostingOccurrenceOverrides(db, [...new Set(dates.map(row => row.id))]);
+  const domain = getEventDomain();
+
+  return dates.map((row) => {
+    const override: PostingOccurrenceOverrideEntry | undefined = overridesByPostingId
+      .get(row.id)
+      ?.find(entry => entry.date === row.date);
+
+    const occurrence: PostingOccurrence = {
+      date: row.date,
+      start_time: normalizeStoredTime(override?.start_time) ?? normalizeStoredTime(row.start_time),
+      end_time: normalizeStoredTime(override?.end_time) ?? normalizeStoredTime(row.end_time),
+    };
+
+    return toCalendarEvent(row, occurrence, {
+      uid: `enrollment-${row.id}-${row.date}@${domain}`,
+      summary: row.title,
+    });
+  });
+}
+
+/**
+ * One event per posting occurrence, titled with how many volunteers are
+ * enrolled for that date. Pass a posting ID to limit the events to that posting.
+ */
+export async function getOrganizationCalendarEvents(db: Kysely<Database>, organizationId: number, postingId?: number) {
+  let postingsQuery = db
+    .selectFrom('posting')
+    .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+    .select([...calendarPostingColumns, 'posting.max_volunteers'])
+    .where('posting.organization_id', '=', organizationId);
+
+  if (postingId !== undefined) {
+    postingsQuery = postingsQuery.where('posting.id', '=', postingId);
+  }
+
+  const postings = await postingsQuery
+    .orderBy('posting.start_date', 'asc')
+    .orderBy('posting.id', 'asc')
+    .execute();
+
+  const postingIds = postings.map(posting => posting.id);
+
+  const [overridesByPostingId, enrollmentCounts] = await Promise.all([
+    getPostingOccurrenceOverrides(db, postingIds),
+    postingIds.length === 0
+      ? Promise.resolve([])
+      : db
+          .selectFrom('enrollment_date')
+          .select([
+            'posting_id',
+            sql<string>`to_char(enrollment_date.date, 'YYYY-MM-DD')`.as('date'),
+            sql<number>`count(enrollment_date.id)`.as('count'),
+          ])
+          .where('posting_id', 'in', postingIds)
+          .groupBy(['posting_id', 'enrollment_date.date'])
+          .execute(),
+  ]);
+
+  const enrollmentCountByKey = new Map(enrollmentCounts.map(row => [`${row.posting_id}:${row.date}`, Number(row.count)]));
+  const domain = getEventDomain();
+
+  return postings.flatMap(posting => getPostingOccurrences(posting, overridesByPostingId.get(posting.id))
+    .map((occurrence) => {
+      const enrolled = enrollmentCountByKey.get(`${posting.id}:${occurrence.date}`) ?? 0;
+      const capacity = posting.max_volunteers === null ? '' : `/${posting.max_volunteers}`;
+
+      return toCalendarEvent(posting, occurrence, {
+        uid: `posting-${posting.id}-${occurrence.date}@${domain}`,
+        summary: `${posting.title} (${enrolled}${capacity} enrolled)`,
+      });
+    }));
+}
+
+export const getCalendarFeedPath = (token: string) => `/public/calendar/${token}.ics`;
+
+export async function getCalendarFeedToken(db: Kysely<Database>, owner: CalendarFeedOwner) {
+  const feed = await db
+    .selectFrom('calendar_feed')
+    .select('token')
+    .where('user_id', '=', owner.user_id)
+    .where('role', '=', owner.role)
+    .executeTakeFirst();
+
+  return feed?.token ?? null;
+}
+
+/**
+ * Issues a new secret feed token, replacing the previous one so that
+ * any calendar still subscribed with the old link stops receiving updates.
+ */
+export async function rotateCalendarFeedToken(db: Kysely<Database>, owner: CalendarFeedOwner) {
+  const token = crypto.randomBytes(CALENDAR_FEED_TOKEN_BYTES).toString('hex');
+
+  await db
+    .insertInto('calendar_feed')
+    .values({ user_id: owner.user_id, role: owner.role, token })
+    .onConflict(oc => oc.columns(['user_id', 'role']).doUpdateSet({ token, created_at: new Date() }))
+    .execute();
+
+  return token;
+}
+
+export async function revokeCalendarFeedToken(db: Kysely<Database>, owner: CalendarFeedOwner) {
+  await db
+    .deleteFrom('calendar_feed')
+    .where('user_id', '=', owner.user_id)
+    .where('role', '=', owner.role)
+    .execute();
+}
+
+/**
+ * Renders the feed behind a secret token, or returns null when the token is
+ * unknown or its account can no longer sign in.
+ */
+export async function renderCalendarFeed(db: Kysely<Database>, token: string) {
+  const feed = await db
+    .selectFrom('calendar_feed')
+    .select(['user_id', 'role'])
+    .where('token', '=', token)
+    .executeTakeFirst();
+
+  if (!feed) return null;
+
+  if (feed.role === 'volunteer') {
+    const volunteer = await db
+      .selectFrom('volunteer_account')
+      .select('id')
+      .where('id', '=', feed.user_id)
+      .where('is_deleted', '=', false)
+      .where('is_disabled', '=', false)
+      .executeTakeFirst();
+
+    if (!volunteer) return null;
+
+    return renderCalendar({
+      name: 'My Willing shifts',
+      events: await getVolunteerCalendarEvents(db, volunteer.id),
+    });
+  }
+
+  const organization = await db
+    .selectFrom('organization_account')
+    .select(['id', 'name'])
+    .where('id', '=', feed.user_id)
+    .where('is_deleted', '=', false)
+    .where('is_disabled', '=', false)
+    .executeTakeFirst();
+
+  if (!organization) return null;
+
+  return renderCalendar({
+    name: `${organization.name} postings`,
+    events: await getOrganizationCalendarEvents(db, organization.id),
+  });
+}
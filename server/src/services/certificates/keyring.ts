@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+
+import { type Kysely } from 'kysely';
+
+import config from '../../config.ts';
+import executeTransaction from '../../db/executeTransaction.ts';
+import { type Database } from '../../db/tables/index.ts';
+
+// DER header of a PKCS#8 Ed25519 private key, followed by the raw 32 byte seed
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const KEY_ID_BYTES = 8;
+
+export type ActiveCertificateSigningKey = {
+  kid: string;
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+};
+
+export type CertificatePublicKey = {
+  kid: string;
+  public_key: string;
+  created_at: Date;
+  retired_at: Date | null;
+};
+
+const getRawPublicKey = (publicKey: crypto.KeyObject) => publicKey.export({ format: 'jwk' }).x!;
+
+// RFC 7638 thumbprint of the public key, truncated to keep tokens short
+const getKeyId = (publicKey: crypto.KeyObject) => crypto
+  .createHash('sha256')
+  .update(JSON.stringify({ crv: 'Ed25519', kty: 'OKP', x: getRawPublicKey(publicKey) }))
+  .digest()
+  .subarray(0, KEY_ID_BYTES)
+  .toString('base64url');
+
+const loadActiveSigningKey = (): ActiveCertificateSigningKey => {
+  // Outside production a stable key is derived from the HMAC secret, so no key has to be provisioned locally
+  const privateKey = config.CERTIFICATE_SIGNING_KEY
+    ? crypto.createPrivateKey(config.CERTIFICATE_SIGNING_KEY.replace(/\\n/g, '\n'))
+    : crypto.createPrivateKey({
+        key: Buffer.concat([
+          ED25519_PKCS8_PREFIX,
+          crypto.createHash('sha256').update(`certificate-signing-key:${config.CERTIFICATE_VERIFICATION_SECRET}`).digest(),
+        ]),
+        format: 'der',
+        type: 'pkcs8',
+      });
+
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error('CERTIFICATE_SIGNING_KEY must be an Ed25519 private key');
+  }
+
+  const publicKey = crypto.createPublicKey(privateKey);
+  return { kid: getKeyId(publicKey), privateKey, publicKey };
+};
+
+let activeSigningKey: ActiveCertificateSigningKey | undefined;
+
+export const getActiveCertificateSigningKey = () => {
+  activeSigningKey ??= loadActiveSigningKey();
+  return activeSigningKey;
+};
+
+export const getCertificatePublicKeyObject = (publicKey: string) =>
+  crypto.createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: publicKey }, format: 'jwk' });
+
+/**
+ * Stores the public half of the configured signing key and retires the
+ * previous ones. Retired keys stay in the keyring so older tokens keep verifying.
+ */
+export async function registerActiveCertificateSigningKey(db: Kysely<Database>) {
+  const signingKey = getActiveCertificateSigningKey();
+
+  await executeTransaction(db, async (trx) => {
+    await trx
+      .insertInto('certificate_signing_key')
+      .values({ kid: signingKey.kid, public_key: getRawPublicKey(signingKey.publicKey) })
+      .onConflict(oc => oc.column('kid').doUpdateSet({ retired_at: null }))
+      .execute();
+
+    await trx
+      .updateTable('certificate_signing_key')
+      .set({ retired_at: new Date() })
+      .where('kid', '!=', signingKey.kid)
+      .where('retired_at', 'is', null)
+      .execute();
+  });
+}
+
+export async function getCertificatePublicKeys(db: Kysely<Database>): Promise<CertificatePublicKey[]> {
+  const keys = await db
+    .selectFrom('certificate_signing_key')
+    .select(['kid', 'public_key', 'created_at', 'retired_at'])
+    .orderBy('created_at', 'desc')
+    .execute();
+
+  // The active key verifies even before it has been registered
+  const signingKey = getActiveCertificateSigningKey();
+  if (!keys.some(key => key.kid === signingKey.kid)) {
+    keys.unshift({
+      kid: signingKey.kid,
+      public_key: getRawPublicKey(signingKey.publicKey),
+      created_at: new Date(),
+      retired_at: null,
+    });
+  }
+
+  return keys;
+}
+
+export async function getCertificateVerificationKeys(db: Kysely<Database>) {
+  const keys = await getCertificatePublicKeys(db);
+
+  return {
+    secret: config.CERTIFICATE_VERIFICATION_SECRET,
+    publicKeys: new Map(keys.map(key => [key.kid, getCertificatePublicKeyObject(key.public_key)])),
+  };
+}
@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+
+import { type Kysely } from 'kysely';
+
+import {
+  CERTIFICATE_PAYLOAD_VERSION,
+  CERTIFICATE_TYPE,
+  LEGACY_CERTIFICATE_PAYLOAD_VERSION,
+  type CertificateVerificationPayload,
+} from './token.ts';
+import { type CertificateRevokerRole, type Database } from '../../db/tables/index.ts';
+import { type IssuedCertificateWithContext } from '../../types.ts';
+
+type IssuedCertificateFilters = {
+  certificateId?: number;
+  volunteerId?: number;
+  organizationId?: number;
+};
+
+export const getCertificateTokenHash = (token: string) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+export async function recordIssuedCertificate(
+  trx: Kysely<Database>,
+  token: string,
+  payload: CertificateVerificationPayload,
+) {
+  const certificate = await trx
+    .insertInto('issued_certificate')
+    .values({
+      volunteer_id: Number(payload.uid),
+      token_hash: getCertificateTokenHash(token),
+      token,
+      total_hours: payload.total_hours,
+      issued_at: new Date(payload.issued_at),
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow();
+
+  if (payload.org_ids.length > 0) {
+    await trx
+      .insertInto('issued_certificate_organization')
+      .values(payload.org_ids.map(orgId => ({
+        certificate_id: certificate.id,
+        organization_id: Number(orgId),
+        hours: payload.hours_per_org[orgId] ?? 0,
+      })))
+      .execute();
+  }
+
+  return certificate;
+}
+
+/**
+ * Rebuilds the signed payload of an issued certificate from the ledger,
+ * so tokens of v2 certificates, which were not stored, can be re-derived.
+ */
+export async function getIssuedCertificatePayload(db: Kysely<Database>, certificateId: number) {
+  const certificate = await db
+    .selectFrom('issued_certificate')
+    .select(['id', 'volunteer_id', 'token_hash', 'token', 'total_hours', 'issued_at', 'revoked_at'])
+    .where('id', '=', certificateId)
+    .executeTakeFirst();
+
+  if (!certificate) return undefined;
+
+  const organizations = await db
+    .selectFrom('issued_certificate_organization')
+    .select(['organization_id', 'hours'])
+    .where('certificate_id', '=', certificateId)
+    .orderBy('organization_id', 'asc')
+    .execute();
+
+  // Only v2 certificates were recorded without their token
+  const payload: CertificateVerificationPayload = {
+    v: certificate.token ? CERTIFICATE_PAYLOAD_VERSION : LEGACY_CERTIFICATE_PAYLOAD_VERSION,
+    uid: String(certificate.volunteer_id),
+    issued_at: certificate.issued_at.toISOString(),
+    org_ids: organizations.map(organization => String(organization.organization_id)),
+    total_hours: Number(certificate.total_hours),
+    hours_per_org: organizations.reduce<Record<string, number>>((record, organization) => {
+      record[String(organization.organization_id)] = Number(organization.hours);
+      return record;
+    }, {}),
+    type: CERTIFICATE_TYPE,
+  };
+
+  return { certificate, payload };
+}
+
+export async function getIssuedCertificates(
+  db: Kysely<Database>,
+  filters: IssuedCertificateFilters = {},
+): Promise<IssuedCertificateWithContext[]> {
+  let certificatesQuery = db
+    .selectFrom('issued_certificate')
+    .innerJoin('volunteer_account', 'volunteer_account.id', 'issued_certificate.volunteer_id')
+    .select([
+      'issued_certificate.id',
+      'issued_certificate.volunteer_id',
+      'issued_certificate.total_hours',
+      'issued_certificate.issued_at',
+      'issued_certificate.revoked_at',
+      'issued_certificate.revocation_reason',
+      'issued_certificate.revoked_by_role',
+      'volunteer_account.first_name',
+      'volunteer_account.last_name',
+    ])
+    .orderBy('issued_certificate.issued_at', 'desc')
+    .orderBy('issued_certificate.id', 'desc');
+
+  if (filters.certificateId !== undefined) {
+    certificatesQuery = certificatesQuery.where('issued_certificate.id', '=', filters.certificateId);
+  }
+
+  if (filters.volunteerId !== undefined) {
+    certificatesQuery = certificatesQuery.where('issued_certificate.volunteer_id', '=', filters.volunteerId);
+  }
+
+  if (filters.organizationId !== undefined) {
+    const organizationId = filters.organizationId;
+    certificatesQuery = certificatesQuery.where(({ exists, selectFrom }) => exists(
+      selectFrom('issued_certificate_organization')
+        .select('issued_certificate_organization.id')
+        .whereRef('issued_certificate_organization.certificate_id', '=', 'issued_certificate.id')
+        .where('issued_certificate_organization.organization_id', '=', organizationId),
+    ));
+  }
+
+  const certificates = await certificatesQuery.execute();
+  if (certificates.length === 0) return [];
+
+  const organizations = await db
+    .selectFrom('issued_certificate_organization')
+    .innerJoin('organization_account', 'organization_account.id', 'issued_certificate_organization.organization_id')
+    .select([
+      'issued_certificate_organization.certificate_id',
+      'organization_account.id',
+      'organization_account.name',
+      'issued_certificate_organization.hours',
+    ])
+    .where('issued_certificate_organization.certificate_id', 'in', certificates.map(certificate => certificate.id))
+    .orderBy('organization_account.id', 'asc')
+    .execute();
+
+  return certificates.map(({ first_name, last_name, ...certificate }) => ({
+    ...certificate,
+    total_hours: Number(certificate.total_hours),
+    volunteer_name: `${first_name} ${last_name}`.trim(),
+    organizations: organizations
+      .filter(organization => organization.certificate_id === certificate.id)
+      .map(organization => ({ id: organization.id, name: organization.name, hours: Number(organization.hours) })),
+  }));
+}
+
+export async function revokeIssuedCertificate(
+  db: Kysely<Database>,
+  certificateId: number,
+  revoker: { role: CertificateRevokerRole; id: number },
+  reason: string,
+) {
+  return db
+    .updateTable('issued_certificate')
+    .set({
+      revoked_at: new Date(),
+      revocation_reason: reason,
+      revoked_by_role: revoker.role,
+      revoked_by_id: revoker.id,
+    })
+    .where('id', '=', certificateId)
+    .where('revoked_at', 'is', null)
+    .returning('id')
+    .executeTakeFirst();
+}
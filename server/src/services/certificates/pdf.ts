@@ -0,0 +1,389 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import sharp from 'sharp';
+
+import { type CertificateVerificationPayload } from './token.ts';
+import config from '../../config.ts';
+import { type Database } from '../../db/tables/index.ts';
+import { getAbsoluteLogoPath } from '../uploads/orgLogo.ts';
+import { getAbsoluteSignaturePath } from '../uploads/orgSignature.ts';
+import { getAbsolutePlatformSignaturePath } from '../uploads/platformSignature.ts';
+
+import type { Kysely } from 'kysely';
+
+// The layout mirrors CertificatePreview.tsx, which is drawn on a 1123x794px A4 landscape canvas
+const PREVIEW_WIDTH = 1123;
+const PAGE_WIDTH = 841.89;
+const PAGE_HEIGHT = 595.28;
+const SCALE = PAGE_WIDTH / PREVIEW_WIDTH;
+const MAX_CERTIFICATE_ORGANIZATIONS = 4;
+
+const PRIMARY_COLOR = '#AA87DE';
+const SUCCESS_COLOR = '#3C9B3F';
+const TEXT_COLOR = '#111111';
+const MUTED_COLOR = '#6B6B6B';
+const BORDER_COLOR = '#D4D4D4';
+
+const px = (value: number) => value * SCALE;
+
+const formatHours = (value: number) => Math.floor(value);
+
+const formatGeneratedAt = (issuedAt: Date) => new Intl.DateTimeFormat('en-US', {
+  month: 'numeric',
+  day: 'numeric',
+  year: 'numeric',
+  timeZone: 'UTC',
+}).format(issuedAt);
+
+type CertificatePdfOrganization = {
+  name: string;
+  hours: number;
+  logo: Buffer | null;
+  signature: Buffer | null;
+  signatory_name: string | null;
+  signatory_position: string | null;
+};
+
+type CertificatePdfData = {
+  token: string;
+  issuedAt: Date;
+  volunteerName: string;
+  totalHours: number;
+  organizations: CertificatePdfOrganization[];
+  platformSignature: Buffer | null;
+  platformSignatoryName: string | null;
+  platformSignatoryPosition: string | null;
+};
+
+// Signatures may be uploaded as SVG, which PDFKit cannot embed, so everything is normalized to PNG
+const loadImage = async (absolutePath: string) => {
+  try {
+    return await sharp(absolutePath).png().toBuffer();
+  } catch {
+    return null;
+  }
+};
+
+const getCertificatePdfData = async (
+  db: Kysely<Database>,
+  token: string,
+  payload: CertificateVerificationPayload,
+): Promise<CertificatePdfData> => {
+  const volunteer = await db
+    .selectFrom('volunteer_account')
+    .select(['first_name', 'last_name'])
+    .where('id', '=', Number(payload.uid))
+    .executeTakeFirstOrThrow();
+
+  const orgIds = payload.org_ids.map(Number);
+  const organizationRows = orgIds.length === 0
+    ? []
+    : await db
+        .selectFrom('organization_account')
+        .leftJoin(
+          'organization_certificate_info',
+          'organization_certificate_info.id',
+          'organization_account.certificate_info_id',
+        )
+        .select([
+          'organization_account.id',
+          'organization_account.name',
+          'organization_account.logo_path',
+          'organization_certificate_info.signatory_name',
+          'organization_certificate_info.signatory_position',
+          'organization_certificate_info.signature_path',
+        ])
+        .where('organization_account.id', 'in', orgIds)
+        .execute();
+
+  const platformCertificate = await db
+    .selectFrom('platform_certificate_settings')
+    .select(['signatory_name', 'signatory_position', 'signature_path'])
+    .orderBy('id', 'desc')
+    .executeTakeFirst();
+
+  // Organizations are ranked by hours like in the browser preview
+  const organizations = await Promise.all(
+    organizationRows
+      .map(organization => ({ ...organization, hours: payload.hours_per_org[String(organization.id)] ?? 0 }))
+      .sort((left, right) => right.hours - left.hours || left.name.localeCompare(right.name))
+      .map(async organization => ({
+        name: organization.name,
+        hours: organization.hours,
+        logo: organization.logo_path ? await loadImage(getAbsoluteLogoPath(organization.logo_path)) : null,
+        signature: organization.signature_path ? await loadImage(getAbsoluteSignaturePath(organization.signature_path)) : null,
+        signatory_name: organization.signatory_name ?? null,
+        signatory_position: organization.signatory_position ?? null,
+      })),
+  );
+
+  return {
+    token,
+    issuedAt: new Date(payload.issued_at),
+    volunteerName: `${volunteer.first_name} ${volunteer.last_name}`.trim(),
+    totalHours: payload.total_hours,
+    organizations,
+    platformSignature: platformCertificate?.signature_path
+      ? await loadImage(getAbsolutePlatformSignaturePath(platformCertificate.signature_path))
+      : null,
+    platformSignatoryName: platformCertificate?.signatory_name ?? null,
+    platformSignatoryPosition: platformCertificate?.signatory_position ?? null,
+  };
+};
+
+const drawOrganizationSlot = (
+  doc: PDFKit.PDFDocument,
+  organization: CertificatePdfOrganization,
+  x: number,
+  y: number,
+  width: number,
+) => {
+  const padding = px(12);
+
+  doc
+    .roundedRect(x, y, width, px(176), px(8))
+    .lineWidth(0.75)
+    .strokeColor(BORDER_COLOR)
+    .stroke();
+
+  doc
+    .roundedRect(x + padding, y + padding, px(40), px(40), px(6))
+    .strokeColor(BORDER_COLOR)
+    .stroke();
+
+  if (organization.logo) {
+    doc.image(organization.logo, x + padding + px(4), y + padding + px(4), {
+      fit: [px(32), px(32)],
+      align: 'center',
+      valign: 'center',
+    });
+  }
+
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(px(18))
+    .fillColor(TEXT_COLOR)
+    .text(organization.name, x + padding + px(52), y + padding + px(2), {
+      width: width - padding * 2 - px(52),
+      height: px(40),
+      ellipsis: true,
+      lineGap: -1,
+    });
+
+  doc
+    .font('Helvetica')
+    .fontSize(px(16))
+    .text('Hours: ', x + padding, y + padding + px(52), { continued: true })
+    .font('Helvetica-Bold')
+    .text(String(formatHours(organization.hours)));
+
+  const signatureBottom = y + padding + px(112);
+  if (organization.signature) {
+    doc.image(organization.signature, x + padding, signatureBottom - px(28), {
+      fit: [width - padding * 2, px(28)],
+      valign: 'bottom',
+    });
+  }
+
+  doc
+    .moveTo(x + padding, signatureBottom + px(2))
+    .lineTo(x + width - padding, signatureBottom + px(2))
+    .strokeColor('#A3A3A3')
+    .stroke();
+
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(px(12))
+    .fillColor(TEXT_COLOR)
+    .text(organization.signatory_name ?? '', x + padding, signatureBottom + px(6), {
+      width: width - padding * 2,
+      lineBreak: false,
+      ellipsis: true,
+    });
+
+  doc
+    .font('Helvetica')
+    .fontSize(px(11))
+    .fillColor(MUTED_COLOR)
+    .text(organization.signatory_position ?? '', x + padding, signatureBottom + px(22), {
+      width: width - padding * 2,
+      lineBreak: false,
+      ellipsis: true,
+    });
+};
+
+const drawCertificate = (doc: PDFKit.PDFDocument, data: CertificatePdfData, qrCode: Buffer) => {
+  const left = px(32);
+  const contentWidth = PAGE_WIDTH - left * 2;
+
+  // Header
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(px(16))
+    .fillColor(PRIMARY_COLOR)
+    .text('WILLING PLATFORM', left, px(28), { characterSpacing: px(3.2) });
+
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(px(72))
+    .fillColor(TEXT_COLOR)
+    .text('Certificate of Volunteering', left, px(62));
+
+  doc
+    .circle(left + px(8), px(152), px(7))
+    .lineWidth(1)
+    .strokeColor(SUCCESS_COLOR)
+    .stroke();
+
+  doc
+    .moveTo(left + px(4.5), px(152))
+    .lineTo(left + px(7.5), px(155))
+    .lineTo(left + px(11.5), px(149))
+    .stroke();
+
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(px(16))
+    .fillColor(SUCCESS_COLOR)
+    .text('Participation Verified', left + px(24), px(145));
+
+  // Body
+  const bodyWidth = px(910);
+  const bodyLeft = (PAGE_WIDTH - bodyWidth) / 2;
+
+  doc
+    .font('Helvetica')
+    .fontSize(px(54))
+    .fillColor(TEXT_COLOR)
+    .text('This is to certify that', bodyLeft, px(212), { width: bodyWidth, align: 'center' });
+
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(px(58))
+    .fillColor(PRIMARY_COLOR)
+    .text(data.volunteerName, bodyLeft, px(282), {
+      width: bodyWidth,
+      align: 'center',
+      lineBreak: false,
+      ellipsis: true,
+    });
+
+  doc
+    .moveTo(bodyLeft, px(354))
+    .lineTo(bodyLeft + bodyWidth, px(354))
+    .lineWidth(1.5)
+    .strokeColor(PRIMARY_COLOR)
+    .stroke();
+
+  doc
+    .font('Helvetica')
+    .fontSize(px(31))
+    .fillColor(TEXT_COLOR)
+    .text('has contributed a total of ', bodyLeft, px(368), { width: bodyWidth, align: 'center', continued: true })
+    .font('Helvetica-Bold')
+    .text(String(formatHours(data.totalHours)), { continued: true })
+    .font('Helvetica')
+    .text(' volunteering hours through Willing. This certificate recognizes meaningful service and participation across the platform.');
+
+  // Organizations
+  const slotGap = px(12);
+  const slotWidth = (contentWidth - slotGap * (MAX_CERTIFICATE_ORGANIZATIONS - 1)) / MAX_CERTIFICATE_ORGANIZATIONS;
+  data.organizations.slice(0, MAX_CERTIFICATE_ORGANIZATIONS).forEach((organization, index) => {
+    drawOrganizationSlot(doc, organization, left + index * (slotWidth + slotGap), px(510), slotWidth);
+  });
+
+  // Footer
+  const footerTop = px(700);
+
+  doc
+    .font('Helvetica')
+    .fontSize(px(12))
+    .fillColor(MUTED_COLOR)
+    .text('WILLING ADMIN SIGNATURE', left, footerTop, { characterSpacing: px(0.6) });
+
+  if (data.platformSignature) {
+    doc.image(data.platformSignature, left, footerTop + px(18), {
+      fit: [px(192), px(24)],
+      valign: 'bottom',
+    });
+  }
+
+  doc
+    .moveTo(left, footerTop + px(46))
+    .lineTo(left + px(192), footerTop + px(46))
+    .lineWidth(0.75)
+    .strokeColor(BORDER_COLOR)
+    .stroke();
+
+  doc
+    .font('Helvetica')
+    .fontSize(px(12))
+    .fillColor(MUTED_COLOR)
+    .text(data.platformSignatoryName || 'Name', left, footerTop + px(50), { width: px(192), lineBreak: false, ellipsis: true })
+    .fontSize(px(11))
+    .text(data.platformSignatoryPosition || 'Title', left, footerTop + px(65), { width: px(192), lineBreak: false, ellipsis: true });
+
+  const qrSize = px(84);
+  const qrLeft = PAGE_WIDTH - left - qrSize;
+  const qrTop = PAGE_HEIGHT - px(16) - qrSize;
+  doc.image(qrCode, qrLeft, qrTop, { width: qrSize, height: qrSize });
+
+  const metaRight = qrLeft - px(16);
+  const metaWidth = px(560);
+
+  doc
+    .font('Helvetica')
+    .fontSize(px(14))
+    .fillColor('#404040')
+    .text(`Generated: ${formatGeneratedAt(data.issuedAt)}`, metaRight - metaWidth, footerTop + px(30), { width: metaWidth, align: 'right' });
+
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(px(14))
+    .fillColor(MUTED_COLOR)
+    .text('Verification Token:', metaRight - metaWidth, footerTop + px(52), { width: metaWidth, align: 'right' });
+
+  // Courier glyphs are 0.6em wide, so long tokens are shrunk to stay on a single line
+  doc
+    .font('Courier')
+    .fontSize(Math.min(px(12), metaWidth / (data.token.length * 0.6)))
+    .text(data.token, metaRight - metaWidth, footerTop + px(70), { width: metaWidth, align: 'right', lineBreak: false });
+};
+
+/**
+ * Renders the certificate to a PDF. The output only depends on the token and
+ * the stored organization and platform details, so the same token always
+ * produces the same bytes.
+ */
+export const renderCertificatePdf = async (
+  db: Kysely<Database>,
+  token: string,
+  payload: CertificateVerificationPayload,
+): Promise<Buffer> => {
+  const data = await getCertificatePdfData(db, token, payload);
+  const verificationUrl = `${config.CLIENT_URL}/certificate/verify?token=${encodeURIComponent(token)}`;
+  const qrCode = await QRCode.toBuffer(verificationUrl, { type: 'png', margin: 0, width: 256 });
+
+  const doc = new PDFDocument({
+    size: [PAGE_WIDTH, PAGE_HEIGHT],
+    margin: 0,
+    info: {
+      Title: `Certificate of Volunteering - ${data.volunteerName}`,
+      Author: 'Willing',
+      CreationDate: data.issuedAt,
+      ModDate: data.issuedAt,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  drawCertificate(doc, data, qrCode);
+  doc.end();
+
+  return finished;
+};
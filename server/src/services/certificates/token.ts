@@ -5,7 +5,8 @@ import zod from 'zod';
 
 import { idSchema } from '../../schemas/index.ts';
 
-export const CERTIFICATE_PAYLOAD_VERSION = 2 as const;
+export const CERTIFICATE_PAYLOAD_VERSION = 3 as const;
+export const LEGACY_CERTIFICATE_PAYLOAD_VERSION = 2 as const;
 export const CERTIFICATE_TYPE = 'volunteer_hours_certificate' as const;
 
 const HOURS_DECIMAL_PLACES = 2;
@@ -13,6 +14,11 @@ const HOURS_SCALE_FACTOR = 10 ** HOURS_DECIMAL_PLACES;
 const CERTIFICATE_TYPE_CODE = 0;
 const TRUNCATED_SIGNATURE_BYTES = 16;
 
+const certificatePayloadVersionSchema = zod.union([
+  zod.literal(LEGACY_CERTIFICATE_PAYLOAD_VERSION),
+  zod.literal(CERTIFICATE_PAYLOAD_VERSION),
+]);
+
 const idStringSchema = zod.string()
   .trim()
   .transform(value => Number(value))
@@ -20,7 +26,7 @@ const idStringSchema = zod.string()
   .transform(value => String(value));
 
 export const certificateVerificationPayloadSchema = zod.object({
-  v: zod.literal(CERTIFICATE_PAYLOAD_VERSION),
+  v: certificatePayloadVersionSchema,
   uid: idStringSchema,
   issued_at: zod.string().datetime({ offset: true }),
   org_ids: zod.array(idStringSchema).max(4, 'Up to 4 organization IDs are allowed'),
@@ -62,7 +68,7 @@ export const certificateVerificationPayloadSchema = zod.object({
 });
 
 type CompactCertificatePayloadTuple = readonly [
-  typeof CERTIFICATE_PAYLOAD_VERSION,
+  zod.infer<typeof certificatePayloadVersionSchema>,
   number,
   number,
   number[],
@@ -72,7 +78,7 @@ type CompactCertificatePayloadTuple = readonly [
 ];
 
 const compactCertificatePayloadSchema = zod.tuple([
-  zod.literal(CERTIFICATE_PAYLOAD_VERSION),
+  certificatePayloadVersionSchema,
   idSchema,
   zod.number().int().positive(),
   zod.array(idSchema).max(4),
@@ -100,7 +106,12 @@ const compactCertificatePayloadSchema = zod.tuple([
 
 export type CertificateVerificationPayload = zod.infer<typeof certificateVerificationPayloadSchema>;
 
-type VerifiedTokenResult = { valid: true; payload: CertificateVerificationPayload } | { valid: false; reason: 'malformed' | 'invalid_signature' | 'invalid_payload' };
+export type CertificateSigningKey = {
+  kid: string;
+  privateKey: crypto.KeyObject;
+};
+
+type VerifiedTokenResult = { valid: true; payload: CertificateVerificationPayload; token: string } | { valid: false; reason: 'malformed' | 'invalid_signature' | 'invalid_payload' };
 
 const roundHours = (value: number) => Number(value.toFixed(HOURS_DECIMAL_PLACES));
 const encodeHours = (hours: number) => Math.round(roundHours(hours) * HOURS_SCALE_FACTOR);
@@ -131,7 +142,7 @@ const payloadToCompactTuple = (payload: CertificateVerificationPayload): Compact
   const issuedAtEpochSeconds = Math.floor(new Date(payload.issued_at).getTime() / 1000);
 
   return [
-    CERTIFICATE_PAYLOAD_VERSION,
+    payload.v,
     Number(payload.uid),
     issuedAtEpochSeconds,
     orgIds,
@@ -142,14 +153,14 @@ const payloadToCompactTuple = (payload: CertificateVerificationPayload): Compact
 };
 
 const compactTupleToPayload = (tuple: CompactCertificatePayloadTuple): CertificateVerificationPayload => {
-  const [, uid, issuedAtEpochSeconds, orgIds, totalHoursScaled, orgHoursScaled] = tuple;
+  const [version, uid, issuedAtEpochSeconds, orgIds, totalHoursScaled, orgHoursScaled] = tuple;
   const hoursPerOrg = orgIds.reduce<Record<string, number>>((record, orgId, index) => {
     record[String(orgId)] = decodeHours(orgHoursScaled[index] ?? 0);
     return record;
   }, {});
 
   return {
-    v: CERTIFICATE_PAYLOAD_VERSION,
+    v: version,
     uid: String(uid),
     issued_at: new Date(issuedAtEpochSeconds * 1000).toISOString(),
     org_ids: orgIds.map(orgId => String(orgId)),
@@ -191,49 +202,105 @@ const tryParseCompactPayload = (payloadBytes: Buffer): CertificateVerificationPa
   }
 };
 
-export const signCertificateVerificationPayload = (
+const encodeCompactPayload = (payload: CertificateVerificationPayload) =>
+  zlib.deflateRawSync(Buffer.from(JSON.stringify(payloadToCompactTuple(payload)), 'utf8'));
+
+/**
+ * Signs a v2 token with the shared HMAC secret. New certificates use
+ * `signCertificateVerificationPayload`, this only re-derives tokens issued before v3.
+ */
+export const signLegacyCertificateVerificationPayload = (
   rawPayload: CertificateVerificationPayload,
   secret: string,
 ) => {
-  const canonicalPayload = toCanonicalPayload(rawPayload);
-  const compactPayload = payloadToCompactTuple(canonicalPayload);
-  const payloadBytes = zlib.deflateRawSync(Buffer.from(JSON.stringify(compactPayload), 'utf8'));
+  const canonicalPayload = toCanonicalPayload({ ...rawPayload, v: LEGACY_CERTIFICATE_PAYLOAD_VERSION });
+  const payloadBytes = encodeCompactPayload(canonicalPayload);
   const signature = getSignature(payloadBytes, secret).subarray(0, TRUNCATED_SIGNATURE_BYTES);
 
   return `${payloadBytes.toString('base64url')}.${signature.toString('base64url')}`;
 };
 
-export const verifySignedCertificateToken = (
-  token: string,
-  secret: string,
-): VerifiedTokenResult => {
-  const parts = token.split('.');
-  if (parts.length !== 2 || !parts[0] || !parts[1]) {
+/**
+ * Signs a v3 token as `payload.kid.signature`, where the Ed25519 signature
+ * covers the ASCII bytes of `payload.kid`. Anyone holding the published
+ * public key for `kid` can verify it offline.
+ */
+export const signCertificateVerificationPayload = (
+  rawPayload: CertificateVerificationPayload,
+  signingKey: CertificateSigningKey,
+) => {
+  const canonicalPayload = toCanonicalPayload({ ...rawPayload, v: CERTIFICATE_PAYLOAD_VERSION });
+  const signingInput = `${encodeCompactPayload(canonicalPayload).toString('base64url')}.${signingKey.kid}`;
+  const signature = crypto.sign(null, Buffer.from(signingInput, 'ascii'), signingKey.privateKey);
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+};
+
+const verifyLegacyToken = (payloadPart: string, signaturePart: string, secret: string): VerifiedTokenResult => {
+  const payloadBytes = Buffer.from(payloadPart, 'base64url');
+  const signatureBytes = Buffer.from(signaturePart, 'base64url');
+
+  if (payloadBytes.length === 0 || signatureBytes.length === 0) {
     return { valid: false, reason: 'malformed' };
   }
 
-  let payloadBytes: Buffer;
-  let signatureBytes: Buffer;
-  try {
-    payloadBytes = Buffer.from(parts[0], 'base64url');
-    signatureBytes = Buffer.from(parts[1], 'base64url');
-  } catch {
-    return { valid: false, reason: 'malformed' };
+  const expectedSignature = getSignature(payloadBytes, secret);
+  if (!hasValidSignature(signatureBytes, expectedSignature)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  const payload = tryParseCompactPayload(payloadBytes);
+  if (!payload || payload.v !== LEGACY_CERTIFICATE_PAYLOAD_VERSION) {
+    return { valid: false, reason: 'invalid_payload' };
   }
 
+  return { valid: true, payload, token: signLegacyCertificateVerificationPayload(payload, secret) };
+};
+
+const verifyToken = (
+  payloadPart: string,
+  kid: string,
+  signaturePart: string,
+  publicKeys: ReadonlyMap<string, crypto.KeyObject>,
+): VerifiedTokenResult => {
+  const payloadBytes = Buffer.from(payloadPart, 'base64url');
+  const signatureBytes = Buffer.from(signaturePart, 'base64url');
+
   if (payloadBytes.length === 0 || signatureBytes.length === 0) {
     return { valid: false, reason: 'malformed' };
   }
 
-  const expectedSignature = getSignature(payloadBytes, secret);
-  if (!hasValidSignature(signatureBytes, expectedSignature)) {
+  const publicKey = publicKeys.get(kid);
+  if (!publicKey || !crypto.verify(null, Buffer.from(`${payloadPart}.${kid}`, 'ascii'), publicKey, signatureBytes)) {
     return { valid: false, reason: 'invalid_signature' };
   }
 
-  const compactPayload = tryParseCompactPayload(payloadBytes);
-  if (compactPayload) {
-    return { valid: true, payload: compactPayload };
+  const payload = tryParseCompactPayload(payloadBytes);
+  if (!payload || payload.v !== CERTIFICATE_PAYLOAD_VERSION) {
+    return { valid: false, reason: 'invalid_payload' };
+  }
+
+  // The signature covers the payload text as written, so only the signature part can carry non-canonical
+  // trailing bits. Re-encoding it drops them, so each certificate has exactly one token.
+  return { valid: true, payload, token: `${payloadPart}.${kid}.${signatureBytes.toString('base64url')}` };
+};
+
+export const verifySignedCertificateToken = (
+  token: string,
+  keys: { secret: string; publicKeys: ReadonlyMap<string, crypto.KeyObject> },
+): VerifiedTokenResult => {
+  const parts = token.split('.');
+  if (parts.some(part => !part)) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (parts.length === 2) {
+    return verifyLegacyToken(parts[0]!, parts[1]!, keys.secret);
+  }
+
+  if (parts.length === 3) {
+    return verifyToken(parts[0]!, parts[1]!, parts[2]!, keys.publicKeys);
   }
 
-  return { valid: false, reason: 'invalid_payload' };
+  return { valid: false, reason: 'malformed' };
 };
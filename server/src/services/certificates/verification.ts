@@ -1,14 +1,17 @@
 import { sql, type Kysely } from 'kysely';
 
+import { getCertificateTokenHash } from './ledger.ts';
 import { type CertificateVerificationPayload } from './token.ts';
 import database from '../../db/index.ts';
 import { type Database } from '../../db/tables/index.ts';
+import { enrollmentDateHoursExpression } from '../posting/postingSchedule.ts';
 
 const HOURS_EPSILON = 0.01;
 const HOURS_DECIMAL_PLACES = 2;
 
 type CertificateVerificationResult = {
   valid: boolean;
+  revoked_at?: Date;
 };
 
 type VolunteerHoursSnapshot = {
@@ -20,21 +23,13 @@ const roundHours = (value: number) => Number(value.toFixed(HOURS_DECIMAL_PLACES)
 const isSameHours = (left: number, right: number) => Math.abs(left - right) <= HOURS_EPSILON;
 
 const getVolunteerHoursSnapshot = async (db: Kysely<Database>, volunteerId: number, issuedAt: Date): Promise<VolunteerHoursSnapshot> => {
-  const hoursPerAttendedDateExpression = sql<number>`GREATEST(
-    0,
-    EXTRACT(EPOCH FROM (
-      (enrollment_date.date + posting.end_time)
-      - (enrollment_date.date + posting.start_time)
-    )) / 3600.0
-  )`;
-
   const rows = await db
     .selectFrom('enrollment_date')
     .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
     .innerJoin('posting', 'posting.id', 'enrollment.posting_id')
     .select([
       'posting.organization_id as organization_id',
-      sql<number>`COALESCE(SUM(${hoursPerAttendedDateExpression}), 0)`.as('hours'),
+      sql<number>`COALESCE(SUM(${enrollmentDateHoursExpression}), 0)`.as('hours'),
     ])
     .where('enrollment.volunteer_id', '=', volunteerId)
     .where('enrollment_date.attended', '=', true)
@@ -58,6 +53,7 @@ const getVolunteerHoursSnapshot = async (db: Kysely<Database>, volunteerId: numb
 
 export const verifyCertificatePayloadAgainstDatabase = async (
   payload: CertificateVerificationPayload,
+  token: string,
   db: Kysely<Database> = database,
 ): Promise<CertificateVerificationResult> => {
   const volunteerId = Number(payload.uid);
@@ -84,6 +80,21 @@ export const verifyCertificatePayloadAgainstDatabase = async (
     return { valid: false };
   }
 
+  const issuedCertificate = await db
+    .selectFrom('issued_certificate')
+    .select(['id', 'revoked_at'])
+    .where('token_hash', '=', getCertificateTokenHash(token))
+    .executeTakeFirst();
+
+  if (issuedCertificate?.revoked_at) {
+    return { valid: false, revoked_at: issuedCertificate.revoked_at };
+  }
+
+  // Hours recorded in the ledger are authoritative; later attendance edits do not invalidate them
+  if (issuedCertificate) {
+    return { valid: true };
+  }
+
   const orgIds = payload.org_ids.map(Number);
   if (orgIds.some(orgId => !Number.isInteger(orgId) || orgId <= 0)) {
     return { valid: false };
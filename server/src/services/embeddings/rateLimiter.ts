@@ -1,98 +1,40 @@
 import config from '../../config.ts';
+import database from '../../db/index.ts';
+import { enqueueJob, type JobPayloads } from '../jobs/queue.ts';
 
 const MAX_REQUESTS = 3;
 const WINDOW_MS = 5 * 60 * 1000;
 
-type RateState = {
-  requestTimestamps: number[];
-  pendingJob: (() => Promise<void>) | undefined;
-  pendingKey: string | undefined;
-  timer: NodeJS.Timeout | undefined;
-};
-
-const states = new Map<string, RateState>();
-
-const getState = (key: string) => {
-  const existing = states.get(key);
-  if (existing) return existing;
-
-  const next: RateState = { requestTimestamps: [], pendingJob: undefined, pendingKey: undefined, timer: undefined };
-  states.set(key, next);
-  return next;
-};
-
-const pruneOld = (timestamps: number[], now: number) =>
-  timestamps.filter(timestamp => now - timestamp < WINDOW_MS);
-
-const runPendingJob = async (key: string) => {
-  const state = states.get(key);
-  if (!state?.pendingJob) return;
-
-  const now = Date.now();
-  state.requestTimestamps = pruneOld(state.requestTimestamps, now);
-
-  if (state.requestTimestamps.length >= MAX_REQUESTS) {
-    const earliest = state.requestTimestamps[0] ?? now;
-    const delay = Math.max(0, earliest + WINDOW_MS - now) + 25;
-    state.timer = setTimeout(() => {
-      runPendingJob(key).catch((error) => {
-        console.error(`[embeddings] Deferred job failed for "${key}"`, error);
-      });
-    }, delay);
-    return;
-  }
-
-  const job = state.pendingJob;
-  state.pendingJob = undefined;
-  state.pendingKey = undefined;
-  state.timer = undefined;
-  state.requestTimestamps.push(now);
-
-  try {
-    await job();
-    console.log(`[embeddings] Deferred update executed for "${key}"`);
-  } catch (error) {
-    console.error(`[embeddings] Deferred job failed for "${key}"`, error);
-  }
-};
-
-export const runOrDeferEmbeddingJob = async (key: string, job: () => Promise<void>) => {
-  if (!config.OPENAI_API_KEY) {
-    await job();
-    return { executed: true, deferred: false };
-  }
+type EmbeddingJobType = 'embeddings.recompute_organization' | 'embeddings.recompute_posting' | 'embeddings.recompute_volunteer';
 
+/**
+ * Picks when the next recompute for `key` may run. Each key gets at most
+ * MAX_REQUESTS runs per window, counted from the jobs already queued for it.
+ */
+const getEmbeddingJobRunAt = async (key: string) => {
   const now = Date.now();
-  const state = getState(key);
-  state.requestTimestamps = pruneOld(state.requestTimestamps, now);
+  if (!config.OPENAI_API_KEY) return new Date(now);
 
-  if (state.requestTimestamps.length < MAX_REQUESTS) {
-    state.requestTimestamps.push(now);
-    await job();
-    return { executed: true, deferred: false };
-  }
+  const recentJobs = await database
+    .selectFrom('job')
+    .select('scheduled_at')
+    .where('dedupe_key', '=', key)
+    .where('scheduled_at', '>', new Date(now - WINDOW_MS))
+    .orderBy('scheduled_at', 'desc')
+    .limit(MAX_REQUESTS)
+    .execute();
 
-  state.pendingJob = job;
-  state.pendingKey = key;
-
-  if (state.timer) clearTimeout(state.timer);
-
-  const earliest = state.requestTimestamps[0] ?? now;
-  const runAt = earliest + WINDOW_MS;
-  const delay = Math.max(0, runAt - now) + 25;
-  state.timer = setTimeout(() => {
-    runPendingJob(key).catch((error) => {
-      console.error(`[embeddings] Deferred job failed for "${key}"`, error);
-    });
-  }, delay);
+  if (recentJobs.length < MAX_REQUESTS) return new Date(now);
 
+  const runAt = new Date(recentJobs[MAX_REQUESTS - 1]!.scheduled_at.getTime() + WINDOW_MS);
   console.warn(
-    `[embeddings] Rate limit reached for "${key}" (max ${MAX_REQUESTS} per ${WINDOW_MS / 60000} minutes). Deferred latest update.`,
+    `[embeddings] Rate limit reached for "${key}" (max ${MAX_REQUESTS} per ${WINDOW_MS / 60000} minutes). Deferred until ${runAt.toISOString()}.`,
   );
 
-  return {
-    executed: false,
-    deferred: true,
-    retryAt: new Date(runAt),
-  };
+  return runAt;
+};
+
+export const enqueueEmbeddingJob = async <T extends EmbeddingJobType>(type: T, payload: JobPayloads[T], key: string) => {
+  const runAt = await getEmbeddingJobRunAt(key);
+  return enqueueJob(database, type, payload, { dedupeKey: key, runAt });
 };
@@ -6,7 +6,7 @@ import {
   vectorToSqlLiteral,
   weightedAverage,
 } from './index.ts';
-import { runOrDeferEmbeddingJob } from './rateLimiter.ts';
+import { enqueueEmbeddingJob } from './rateLimiter.ts';
 import { extractCvText } from './textExtraction.ts';
 import database from '../../db/index.ts';
 import { type Database, type OrganizationAccount, type Posting, type VolunteerAccountWithoutPassword } from '../../db/tables/index.ts';
@@ -345,44 +345,41 @@ export const recomputeVolunteerContextVectorOnly = async (volunteerId: number, e
   return null;
 };
 
-export const recomputeOrganizationVector = async (organizationId: number, executor: DBExecutor) => {
-  let computedVector: number[] | null = null;
-  const run = async () => {
-    const organization = await executor
-      .selectFrom('organization_account')
-      .select(['id', 'name', 'description', 'location_name'])
-      .where('id', '=', organizationId)
-      .where('is_deleted', '=', false)
-      .executeTakeFirstOrThrow();
+export const computeOrganizationVector = async (organizationId: number, executor: DBExecutor) => {
+  const organization = await executor
+    .selectFrom('organization_account')
+    .select(['id', 'name', 'description', 'location_name'])
+    .where('id', '=', organizationId)
+    .where('is_deleted', '=', false)
+    .executeTakeFirstOrThrow();
 
-    const orgProfileVector = await embedText(buildOrganizationText(organization));
-    await updateOrganizationProfileVector(organization.id, orgProfileVector, executor);
-    await recomputeOrganizationHistoryVectorOnly(organization.id, executor);
-    const organizationWithHistory = await executor
-      .selectFrom('organization_account')
-      .select(['org_history_vector'])
-      .where('id', '=', organization.id)
-      .executeTakeFirstOrThrow();
-    const historicalPostingVector = parseVectorLiteral(organizationWithHistory.org_history_vector);
+  const orgProfileVector = await embedText(buildOrganizationText(organization));
+  await updateOrganizationProfileVector(organization.id, orgProfileVector, executor);
+  await recomputeOrganizationHistoryVectorOnly(organization.id, executor);
+  const organizationWithHistory = await executor
+    .selectFrom('organization_account')
+    .select(['org_history_vector'])
+    .where('id', '=', organization.id)
+    .executeTakeFirstOrThrow();
+  const historicalPostingVector = parseVectorLiteral(organizationWithHistory.org_history_vector);
 
-    const finalOrganizationVector = historicalPostingVector
-      ? weightedAverage([orgProfileVector, historicalPostingVector], [0.6, 0.4])
-      : orgProfileVector;
+  const finalOrganizationVector = historicalPostingVector
+    ? weightedAverage([orgProfileVector, historicalPostingVector], [0.6, 0.4])
+    : orgProfileVector;
 
-    await updateOrganizationVector(organization.id, finalOrganizationVector, executor);
-    computedVector = finalOrganizationVector;
+  await updateOrganizationVector(organization.id, finalOrganizationVector, executor);
+  await recomputePostingContextVectorsForOrganization(organization.id, executor);
 
-    await recomputePostingContextVectorsForOrganization(organization.id, executor);
-  };
+  return finalOrganizationVector;
+};
 
+export const recomputeOrganizationVector = async (organizationId: number, executor: DBExecutor) => {
   if (executor === database) {
-    const result = await runOrDeferEmbeddingJob(`organization:${organizationId}:org_context_vector`, run);
-    if (!result.executed) return null;
-  } else {
-    await run();
+    await enqueueEmbeddingJob('embeddings.recompute_organization', { organizationId }, `organization:${organizationId}:org_context_vector`);
+    return null;
   }
 
-  return computedVector;
+  return computeOrganizationVector(organizationId, executor);
 };
 
 export const recomputeOrganizationHistoryVectorOnly = async (organizationId: number, executor: DBExecutor) => {
@@ -424,58 +421,56 @@ const getOrganizationVectorOrCompute = async (organizationId: number, executor:
     return parseVectorLiteral(refreshed.org_context_vector);
   }
 
-  return recomputeOrganizationVector(organizationId, executor);
+  return computeOrganizationVector(organizationId, executor);
 };
 
-export const recomputePostingVectors = async (postingId: number, executor: DBExecutor) => {
-  let resultVectors: { opportunityVector: number[]; postingContextVector: number[] } | null = null;
-  const run = async () => {
-    const posting = await executor
-      .selectFrom('posting')
-      .select([
-        'id',
-        'organization_id',
-        'title',
-        'description',
-        'location_name',
-        'start_date',
-        'start_time',
-        'end_date',
-        'end_time',
-        'minimum_age',
-        'max_volunteers',
-      ])
-      .where('id', '=', postingId)
-      .executeTakeFirstOrThrow();
+export const computePostingVectors = async (postingId: number, executor: DBExecutor) => {
+  const posting = await executor
+    .selectFrom('posting')
+    .select([
+      'id',
+      'organization_id',
+      'title',
+      'description',
+      'location_name',
+      'start_date',
+      'start_time',
+      'end_date',
+      'end_time',
+      'minimum_age',
+      'max_volunteers',
+    ])
+    .where('id', '=', postingId)
+    .executeTakeFirstOrThrow();
 
-    const skills = await executor
-      .selectFrom('posting_skill')
-      .select(['name'])
-      .where('posting_id', '=', posting.id)
-      .execute();
+  const skills = await executor
+    .selectFrom('posting_skill')
+    .select(['name'])
+    .where('posting_id', '=', posting.id)
+    .execute();
 
-    const opportunityVector = await embedText(buildPostingText(posting, skills.map(skill => skill.name)));
-    const organizationVector = await getOrganizationVectorOrCompute(posting.organization_id, executor);
+  const opportunityVector = await embedText(buildPostingText(posting, skills.map(skill => skill.name)));
+  const organizationVector = await getOrganizationVectorOrCompute(posting.organization_id, executor);
 
-    if (!organizationVector) {
-      console.warn(`[embeddings] Missing organization vector for posting ${posting.id}; posting_context_vector not updated.`);
-      return;
-    }
+  if (!organizationVector) {
+    console.warn(`[embeddings] Missing organization vector for posting ${posting.id}; posting_context_vector not updated.`);
+    return null;
+  }
 
-    const postingContextVector = await buildPostingContextVector(posting.id, opportunityVector, organizationVector, executor);
-    await updatePostingVectors(posting.id, opportunityVector, postingContextVector, executor);
-    await recomputeVolunteerExperienceVectorsForPosting(posting.id, executor);
-    resultVectors = { opportunityVector, postingContextVector };
-  };
+  const postingContextVector = await buildPostingContextVector(posting.id, opportunityVector, organizationVector, executor);
+  await updatePostingVectors(posting.id, opportunityVector, postingContextVector, executor);
+  await recomputeVolunteerExperienceVectorsForPosting(posting.id, executor);
+
+  return { opportunityVector, postingContextVector };
+};
 
+export const recomputePostingVectors = async (postingId: number, executor: DBExecutor) => {
   if (executor === database) {
-    const result = await runOrDeferEmbeddingJob(`posting:${postingId}:posting_profile_vector`, run);
-    if (!result.executed) return null;
-  } else {
-    await run();
+    await enqueueEmbeddingJob('embeddings.recompute_posting', { postingId }, `posting:${postingId}:posting_profile_vector`);
+    return null;
   }
 
-  return resultVectors;
+  return computePostingVectors(postingId, executor);
 };
 
 export const recomputeOrganizationCompositeVectorOnly = async (organizationId: number, executor: DBExecutor) => {
@@ -528,39 +523,37 @@ export const recomputePostingContextVectorOnly = async (
   await recomputeVolunteerExperienceVectorsForPosting(posting.id, executor);
 };
 
-export const recomputeVolunteerProfileVector = async (volunteerId: number, executor: DBExecutor) => {
-  let computedProfileVector: number[] | null = null;
-  const run = async () => {
-    const volunteer = await executor
-      .selectFrom('volunteer_account')
-      .select(['id', 'first_name', 'last_name', 'description', 'gender', 'cv_path'])
-      .where('id', '=', volunteerId)
-      .where('is_deleted', '=', false)
-      .executeTakeFirstOrThrow();
+export const computeVolunteerProfileVector = async (volunteerId: number, executor: DBExecutor) => {
+  const volunteer = await executor
+    .selectFrom('volunteer_account')
+    .select(['id', 'first_name', 'last_name', 'description', 'gender', 'cv_path'])
+    .where('id', '=', volunteerId)
+    .where('is_deleted', '=', false)
+    .executeTakeFirstOrThrow();
 
-    const skills = await executor
-      .selectFrom('volunteer_skill')
-      .select('name')
-      .where('volunteer_id', '=', volunteer.id)
-      .execute();
+  const skills = await executor
+    .selectFrom('volunteer_skill')
+    .select('name')
+    .where('volunteer_id', '=', volunteer.id)
+    .execute();
 
-    const cvText = await extractCvText(volunteer.cv_path);
-    const profileVector = await embedText(buildVolunteerProfileText(volunteer, skills.map(skill => skill.name), cvText));
+  const cvText = await extractCvText(volunteer.cv_path);
+  const profileVector = await embedText(buildVolunteerProfileText(volunteer, skills.map(skill => skill.name), cvText));
 
-    await updateVolunteerProfileVector(volunteer.id, profileVector, executor);
-    await recomputeVolunteerContextVectorOnly(volunteer.id, executor);
-    computedProfileVector = profileVector;
-    await recomputePostingVectorsForVolunteerEnrollments(volunteer.id, executor);
-  };
+  await updateVolunteerProfileVector(volunteer.id, profileVector, executor);
+  await recomputeVolunteerContextVectorOnly(volunteer.id, executor);
+  await recomputePostingVectorsForVolunteerEnrollments(volunteer.id, executor);
+
+  return profileVector;
+};
 
+export const recomputeVolunteerProfileVector = async (volunteerId: number, executor: DBExecutor) => {
   if (executor === database) {
-    const result = await runOrDeferEmbeddingJob(`volunteer:${volunteerId}:volunteer_profile_vector`, run);
-    if (!result.executed) return null;
-  } else {
-    await run();
+    await enqueueEmbeddingJob('embeddings.recompute_volunteer', { volunteerId }, `volunteer:${volunteerId}:volunteer_profile_vector`);
+    return null;
   }
 
-  return computedProfileVector;
+  return computeVolunteerProfileVector(volunteerId, executor);
 };
 
 export const recomputePostingVectorsForVolunteerEnrollments = async (volunteerId: number, executor: DBExecutor) => {
@@ -0,0 +1,93 @@
+import { sql, type Kysely } from 'kysely';
+
+import { type Database } from '../../db/tables/index.ts';
+import { type OrganizationRatingSummary, type VolunteerFeedbackWithContext } from '../../types.ts';
+
+// Ratings are pulled towards a neutral 3/5 until an organization has a handful of reviews
+const RATING_PRIOR_MEAN = 3;
+const RATING_PRIOR_WEIGHT = 5;
+
+export const getOrganizationRatingSummary = async (
+  db: Kysely<Database>,
+  organizationId: number,
+): Promise<OrganizationRatingSummary> => {
+  const { average_rating, review_count } = await db
+    .selectFrom('posting_review')
+    .innerJoin('posting', 'posting.id', 'posting_review.posting_id')
+    .select(eb => [
+      eb.fn.avg<string | null>('posting_review.rating').as('average_rating'),
+      eb.fn.countAll<string>().as('review_count'),
+    ])
+    .where('posting.organization_id', '=', organizationId)
+    .executeTakeFirstOrThrow();
+
+  return {
+    average_rating: average_rating === null ? null : Math.round(Number(average_rating) * 10) / 10,
+    review_count: Number(review_count),
+  };
+};
+
+/**
+ * Ranking signal between -1 and 1 from the reviews of an organization.
+ * Organizations without reviews score 0, so they are neither boosted nor buried.
+ */
+export const organizationRatingRankExpression = (organizationIdColumn: string) => sql<number>`(
+  SELECT (
+    (COALESCE(SUM(posting_review.rating), 0) + ${RATING_PRIOR_MEAN * RATING_PRIOR_WEIGHT})::float
+    / (COUNT(posting_review.id) + ${RATING_PRIOR_WEIGHT})
+    - ${RATING_PRIOR_MEAN}
+  ) / 2
+  FROM posting_review
+  INNER JOIN posting AS reviewed_posting ON reviewed_posting.id = posting_review.posting_id
+  WHERE reviewed_posting.organization_id = ${sql.ref(organizationIdColumn)}
+)`;
+
+/**
+ * The enrollment of a volunteer in a posting, if the organization marked them as attended.
+ */
+export const getAttendedEnrollment = async (
+  db: Kysely<Database>,
+  postingId: number,
+  volunteerId: number,
+) => db
+  .selectFrom('enrollment')
+  .select(['id', 'posting_id', 'volunteer_id'])
+  .where('posting_id', '=', postingId)
+  .where('volunteer_id', '=', volunteerId)
+  .where('attended', '=', true)
+  .executeTakeFirst();
+
+export const getVolunteerFeedback = async (
+  db: Kysely<Database>,
+  volunteerId: number,
+): Promise<VolunteerFeedbackWithContext[]> => {
+  const feedback = await db
+    .selectFrom('volunteer_feedback')
+    .innerJoin('posting', 'posting.id', 'volunteer_feedback.posting_id')
+    .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+    .leftJoin('organization_member', 'organization_member.id', 'volunteer_feedback.author_member_id')
+    .select([
+      'volunteer_feedback.id',
+      'volunteer_feedback.enrollment_id',
+      'volunteer_feedback.posting_id',
+      'volunteer_feedback.volunteer_id',
+      'volunteer_feedback.rating',
+      'volunteer_feedback.comment',
+      'volunteer_feedback.created_at',
+      'volunteer_feedback.updated_at',
+      'posting.title as posting_title',
+      'organization_account.id as organization_id',
+      'organization_account.name as organization_name',
+      'organization_member.first_name as author_first_name',
+      'organization_member.last_name as author_last_name',
+    ])
+    .where('volunteer_feedback.volunteer_id', '=', volunteerId)
+    .orderBy('volunteer_feedback.created_at', 'desc')
+    .orderBy('volunteer_feedback.id', 'desc')
+    .execute();
+
+  return feedback.map(({ author_first_name, author_last_name, ...entry }) => ({
+    ...entry,
+    author_name: [author_first_name, author_last_name].filter(Boolean).join(' ') || null,
+  }));
+};
@@ -0,0 +1,79 @@
+import { type Kysely } from 'kysely';
+
+import executeTransaction from '../../db/executeTransaction.ts';
+import { type Database } from '../../db/tables/index.ts';
+import { deliverNotifications, type NotificationDelivery } from '../notifications/index.ts';
+import { sendFollowedOrganizationPostingEmail } from '../resend/emails.ts';
+
+export const getOrganizationFollowerCount = async (db: Kysely<Database>, organizationId: number) => {
+  const { count } = await db
+    .selectFrom('organization_follow')
+    .innerJoin('volunteer_account', 'volunteer_account.id', 'organization_follow.volunteer_id')
+    .select(eb => eb.fn.countAll<string>().as('count'))
+    .where('organization_follow.organization_id', '=', organizationId)
+    .where('volunteer_account.is_deleted', '=', false)
+    .executeTakeFirstOrThrow();
+
+  return Number(count);
+};
+
+/**
+ * Tells everyone following a posting's organization that it was published.
+ * Returns how many followers were notified.
+ */
+export async function notifyFollowersOfNewPosting(db: Kysely<Database>, postingId: number) {
+  const posting = await db
+    .selectFrom('posting')
+    .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+    .select([
+      'posting.id',
+      'posting.title',
+      'posting.location_name',
+      'posting.organization_id',
+      'organization_account.name as organization_name',
+    ])
+    .where('posting.id', '=', postingId)
+    .where('posting.is_closed', '=', false)
+    .where('organization_account.is_deleted', '=', false)
+    .where('organization_account.is_disabled', '=', false)
+    .executeTakeFirst();
+
+  if (!posting) return 0;
+
+  const followers = await db
+    .selectFrom('organization_follow')
+    .innerJoin('volunteer_account', 'volunteer_account.id', 'organization_follow.volunteer_id')
+    .select([
+      'volunteer_account.id',
+      'volunteer_account.email',
+      'volunteer_account.first_name',
+      'volunteer_account.last_name',
+    ])
+    .where('organization_follow.organization_id', '=', posting.organization_id)
+    .where('volunteer_account.is_deleted', '=', false)
+    .where('volunteer_account.is_disabled', '=', false)
+    .orderBy('volunteer_account.id', 'asc')
+    .execute();
+
+  if (followers.length === 0) return 0;
+
+  await executeTransaction(db, async (trx) => {
+    await deliverNotifications(trx, followers.map((follower): NotificationDelivery => ({
+      recipient: { user_id: follower.id, role: 'volunteer' },
+      type: 'followed_organization_posting',
+      title: `New posting from ${posting.organization_name}`,
+      message: `${posting.organization_name} published "${posting.title}".`,
+      link: `/posting/${posting.id}`,
+      sendEmail: () => sendFollowedOrganizationPostingEmail({
+        volunteerEmail: follower.email,
+        volunteerName: `${follower.first_name} ${follower.last_name}`,
+        organizationName: posting.organization_name,
+        postingId: posting.id,
+        postingTitle: posting.title,
+        locationName: posting.location_name,
+      }, trx),
+    })));
+  });
+
+  return followers.length;
+}
@@ -0,0 +1,81 @@
+import { type Kysely } from 'kysely';
+
+import { enqueueJob, type JobPayloads } from './queue.ts';
+import { type Database, type JobType } from '../../db/tables/index.ts';
+import {
+  computeOrganizationVector,
+  computePostingVectors,
+  computeVolunteerProfileVector,
+} from '../embeddings/updates.ts';
+import { notifyFollowersOfNewPosting } from '../follows/index.ts';
+import { rejectEndedPendingApplicationsForPostings } from '../posting/rejectEndedPendingApplications.ts';
+import { sendDueRosterReminders, sendDueShiftReminders } from '../reminders/index.ts';
+import { deliverEmail } from '../resend/mailer.ts';
+import { matchSavedSearchesForPosting, sendDueSavedSearchDigests } from '../savedSearches/index.ts';
+
+type JobHandlers = {
+  [T in JobType]: (db: Kysely<Database>, payload: JobPayloads[T]) => Promise<void>;
+};
+
+export type RecurringJobType = 'posting.reject_ended_pending_applications' | 'reminders.send_due' | 'saved_searches.send_digests';
+
+/**
+ * Jobs that reschedule themselves when they run, so exactly one run of each stays queued.
+ */
+export const RECURRING_JOBS: Record<RecurringJobType, { dedupeKey: string; intervalMs: number }> = {
+  'posting.reject_ended_pending_applications': {
+    dedupeKey: 'posting:reject_ended_pending_applications',
+    intervalMs: 5 * 60 * 1000,
+  },
+  'reminders.send_due': {
+    dedupeKey: 'reminders:send_due',
+    intervalMs: 5 * 60 * 1000,
+  },
+  'saved_searches.send_digests': {
+    dedupeKey: 'saved_searches:send_digests',
+    intervalMs: 15 * 60 * 1000,
+  },
+};
+
+export const scheduleRecurringJob = (db: Kysely<Database>, type: RecurringJobType, runAt?: Date) =>
+  enqueueJob(db, type, {}, {
+    dedupeKey: RECURRING_JOBS[type].dedupeKey,
+    ...(runAt ? { runAt } : {}),
+  });
+
+const scheduleNextRun = (db: Kysely<Database>, type: RecurringJobType) =>
+  scheduleRecurringJob(db, type, new Date(Date.now() + RECURRING_JOBS[type].intervalMs));
+
+export const jobHandlers: JobHandlers = {
+  'email.send': async (_db, message) => {
+    await deliverEmail(message);
+  },
+  'embeddings.recompute_organization': async (db, { organizationId }) => {
+    await computeOrganizationVector(organizationId, db);
+  },
+  'embeddings.recompute_posting': async (db, { postingId }) => {
+    await computePostingVectors(postingId, db);
+  },
+  'embeddings.recompute_volunteer': async (db, { volunteerId }) => {
+    await computeVolunteerProfileVector(volunteerId, db);
+  },
+  'follows.notify_new_posting': async (db, { postingId }) => {
+    await notifyFollowersOfNewPosting(db, postingId);
+  },
+  'posting.reject_ended_pending_applications': async (db) => {
+    await scheduleNextRun(db, 'posting.reject_ended_pending_applications');
+    await rejectEndedPendingApplicationsForPostings(db);
+  },
+  'reminders.send_due': async (db) => {
+    await scheduleNextRun(db, 'reminders.send_due');
+    await sendDueShiftReminders(db);
+    await sendDueRosterReminders(db);
+  },
+  'saved_searches.match_posting': async (db, { postingId }) => {
+    await matchSavedSearchesForPosting(db, postingId);
+  },
+  'saved_searches.send_digests': async (db) => {
+    await scheduleNextRun(db, 'saved_searches.send_digests');
+    await sendDueSavedSearchDigests(db);
+  },
+};
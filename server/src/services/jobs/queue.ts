@@ -0,0 +1,182 @@
+import { sql, type Kysely } from 'kysely';
+
+import { type Database, type Job, type JobType } from '../../db/tables/index.ts';
+import { type EmailMessage } from '../resend/mailer.ts';
+
+export type JobPayloads = {
+  'email.send': EmailMessage;
+  'embeddings.recompute_organization': { organizationId: number };
+  'embeddings.recompute_posting': { postingId: number };
+  'embeddings.recompute_volunteer': { volunteerId: number };
+  'follows.notify_new_posting': { postingId: number };
+  'posting.reject_ended_pending_applications': Record<string, never>;
+  'reminders.send_due': Record<string, never>;
+  'saved_searches.match_posting': { postingId: number };
+  'saved_searches.send_digests': Record<string, never>;
+};
+
+export type EnqueueJobOptions = {
+  runAt?: Date;
+  dedupeKey?: string;
+  maxAttempts?: number;
+};
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// A worker that crashed mid-job leaves it running; after this long another worker may take it over
+export const JOB_LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+export const getJobRetryDelayMs = (attempts: number) =>
+  Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+
+/**
+ * Adds a job to the queue. When a pending job with the same dedupe key already
+ * exists nothing is added, since that job will pick up the latest state anyway.
+ */
+export async function enqueueJob<T extends JobType>(
+  db: Kysely<Database>,
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueJobOptions = {},
+) {
+  return db
+    .insertInto('job')
+    .values({
+      type,
+      payload: JSON.stringify(payload),
+      dedupe_key: options.dedupeKey ?? null,
+      ...(options.runAt ? { scheduled_at: options.runAt } : {}),
+      ...(options.maxAttempts ? { max_attempts: options.maxAttempts } : {}),
+    })
+    .onConflict(oc => oc
+      .column('dedupe_key')
+      .where('status', '=', 'pending')
+      .doNothing())
+    .returningAll()
+    .executeTakeFirst();
+}
+
+/**
+ * Locks up to `limit` due jobs for this worker. Rows locked by other workers
+ * are skipped, so several server instances can poll the same table.
+ */
+export async function claimDueJobs(db: Kysely<Database>, workerId: string, limit: number): Promise<Job[]> {
+  const staleLockedAt = new Date(Date.now() - JOB_LOCK_TIMEOUT_MS);
+
+  return db
+    .updateTable('job')
+    .set({
+      status: 'running',
+      attempts: sql`attempts + 1`,
+      locked_at: new Date(),
+      locked_by: workerId,
+    })
+    .where('id', 'in', eb => eb
+      .selectFrom('job')
+      .select('id')
+      .where(eb => eb.or([
+        eb.and([
+          eb('status', '=', 'pending'),
+          eb('scheduled_at', '<=', new Date()),
+        ]),
+        eb.and([
+          eb('status', '=', 'running'),
+          eb('locked_at', '<', staleLockedAt),
+        ]),
+      ]))
+      .orderBy('scheduled_at', 'asc')
+      .orderBy('id', 'asc')
+      .limit(limit)
+      .forUpdate()
+      .skipLocked())
+    .returningAll()
+    .execute();
+}
+
+/**
+ * Marks a job this worker still holds as completed.
+ * Returns false when the lock was lost, e.g. another worker took over a job that ran past the lock timeout.
+ */
+export async function completeJob(db: Kysely<Database>, job: Job) {
+  const result = await db
+    .updateTable('job')
+    .set({
+      status: 'completed',
+      completed_at: new Date(),
+      locked_at: null,
+      locked_by: null,
+      last_error: null,
+    })
+    .where('id', '=', job.id)
+    .where('status', '=', 'running')
+    .where('locked_by', '=', job.locked_by)
+    .executeTakeFirst();
+
+  return Number(result.numUpdatedRows) > 0;
+}
+
+// Recurring jobs queue their next run and embedding jobs get re-enqueued while they are still running,
+// so a pending job with the same dedupe key may already exist. Only one pending job may hold a key.
+const pendingDuplicateExists = sql<boolean>`EXISTS (
+  SELECT 1 FROM job AS pending_job
+  WHERE pending_job.dedupe_key = job.dedupe_key
+    AND pending_job.status = 'pending'
+    AND pending_job.id <> job.id
+)`;
+
+const isUniqueViolation = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'code' in error && error.code === '23505';
+
+/**
+ * Schedules a retry with exponential backoff, or moves the job to the dead
+ * status once it has used all of its attempts. A retry gives up its dedupe key
+ * when another pending job already holds it.
+ * Returns false when the lock was lost, like `completeJob`.
+ */
+export async function failJob(db: Kysely<Database>, job: Job, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  const exhausted = job.attempts >= job.max_attempts;
+
+  const result = await db
+    .updateTable('job')
+    .set({
+      status: exhausted ? 'dead' : 'pending',
+      scheduled_at: exhausted ? job.scheduled_at : new Date(Date.now() + getJobRetryDelayMs(job.attempts)),
+      locked_at: null,
+      locked_by: null,
+      last_error: message,
+      ...(exhausted ? {} : { dedupe_key: sql<string | null>`CASE WHEN ${pendingDuplicateExists} THEN NULL ELSE dedupe_key END` }),
+    })
+    .where('id', '=', job.id)
+    .where('status', '=', 'running')
+    .where('locked_by', '=', job.locked_by)
+    .executeTakeFirst();
+
+  return Number(result.numUpdatedRows) > 0;
+}
+
+/**
+ * Puts a dead job back in the queue with a fresh set of attempts.
+ * Returns nothing when the job is not dead or a pending job with the same dedupe key already covers it.
+ */
+export async function retryJob(db: Kysely<Database>, jobId: number) {
+  try {
+    return await db
+      .updateTable('job')
+      .set({
+        status: 'pending',
+        attempts: 0,
+        scheduled_at: new Date(),
+      })
+      .where('id', '=', jobId)
+      .where('status', '=', 'dead')
+      .where(eb => eb.not(pendingDuplicateExists))
+      .returningAll()
+      .executeTakeFirst();
+  } catch (error) {
+    // A pending duplicate was enqueued between the check and the update
+    if (isUniqueViolation(error)) return undefined;
+    throw error;
+  }
+}
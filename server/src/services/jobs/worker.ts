@@ -0,0 +1,82 @@
+import os from 'os';
+
+import { type Kysely } from 'kysely';
+
+import { jobHandlers, RECURRING_JOBS, type RecurringJobType, scheduleRecurringJob } from './handlers.ts';
+import { claimDueJobs, completeJob, failJob, type JobPayloads } from './queue.ts';
+import config from '../../config.ts';
+import { type Database, type Job } from '../../db/tables/index.ts';
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const JOBS_PER_POLL = 10;
+
+const runJob = async (db: Kysely<Database>, job: Job) => {
+  const handler = jobHandlers[job.type] as (db: Kysely<Database>, payload: JobPayloads[typeof job.type]) => Promise<void>;
+
+  try {
+    await handler(db, job.payload as JobPayloads[typeof job.type]);
+  } catch (error) {
+    console.error(`[jobs] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts})`, error);
+    if (!await failJob(db, job, error)) {
+      console.warn(`[jobs] ${job.type} job ${job.id} lost its lock, leaving the failure to the worker that holds it`);
+    }
+    return;
+  }
+
+  // The job is left to whichever worker took it over after the lock timed out
+  if (!await completeJob(db, job)) {
+    console.warn(`[jobs] ${job.type} job ${job.id} lost its lock before it completed`);
+  }
+};
+
+/**
+ * Claims the jobs that are due and runs them one after another.
+ * Returns how many jobs were run.
+ */
+export async function runDueJobs(db: Kysely<Database>, workerId: string, limit = JOBS_PER_POLL) {
+  const jobs = await claimDueJobs(db, workerId, limit);
+
+  for (const job of jobs) {
+    await runJob(db, job);
+  }
+
+  return jobs.length;
+}
+
+export function startJobWorker(db: Kysely<Database>) {
+  if (config.NODE_ENV === 'test') {
+    return undefined;
+  }
+
+  const workerId = `${os.hostname()}:${process.pid}`;
+  let polling = false;
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+
+    try {
+      // Keep going while full batches come back so a backlog drains without waiting for the next tick
+      while (await runDueJobs(db, workerId) === JOBS_PER_POLL);
+    } catch (error) {
+      console.error('[jobs] Failed to poll the job queue:', error);
+    } finally {
+      polling = false;
+    }
+  };
+
+  const recurringJobTypes = Object.keys(RECURRING_JOBS) as RecurringJobType[];
+  Promise.all(recurringJobTypes.map(type => scheduleRecurringJob(db, type)))
+    .then(() => poll())
+    .catch((error) => {
+      console.error('[jobs] Failed to schedule recurring jobs:', error);
+    });
+
+  const timer = setInterval(() => {
+    void poll();
+  }, POLL_INTERVAL_MS);
+
+  timer.unref?.();
+
+  return timer;
+}
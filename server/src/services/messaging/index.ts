@@ -0,0 +1,345 @@
+import { sql, type Kysely } from 'kysely';
+
+import executeTransaction from '../../db/executeTransaction.ts';
+import { type Database, type MessageSenderRole, type MessageThread } from '../../db/tables/index.ts';
+import { type MessageThreadSummary, type MessageWithSender } from '../../types.ts';
+import { deliverNotifications, type NotificationDelivery } from '../notifications/index.ts';
+import { sendNewMessageEmail } from '../resend/emails.ts';
+
+const MESSAGE_PREVIEW_LENGTH = 200;
+
+export type MessageSender = {
+  role: MessageSenderRole;
+  memberId: number | null;
+};
+
+export type MessageContent = {
+  body: string;
+  attachment?: { path: string; name: string } | null;
+};
+
+const threadLink = (role: MessageSenderRole, threadId: number) => `/${role}/messages?thread=${threadId}`;
+
+const selectThreadSummaries = (db: Kysely<Database>, viewerRole: MessageSenderRole) => db
+  .selectFrom('message_thread')
+  .innerJoin('posting', 'posting.id', 'message_thread.posting_id')
+  .innerJoin('organization_account', 'organization_account.id', 'message_thread.organization_id')
+  .innerJoin('volunteer_account', 'volunteer_account.id', 'message_thread.volunteer_id')
+  .selectAll('message_thread')
+  .select(eb => [
+    'posting.title as posting_title',
+    'organization_account.name as organization_name',
+    sql<string>`volunteer_account.first_name || ' ' || volunteer_account.last_name`.as('volunteer_name'),
+    eb.selectFrom('message')
+      .select('message.body')
+      .whereRef('message.thread_id', '=', 'message_thread.id')
+      .orderBy('message.created_at', 'desc')
+      .orderBy('message.id', 'desc')
+      .limit(1)
+      .as('last_message_body'),
+    sql<number>`(
+      SELECT count(*)::integer FROM message
+      WHERE message.thread_id = message_thread.id
+        AND message.sender_role <> ${viewerRole}
+        AND message.read_at IS NULL
+    )`.as('unread_count'),
+  ]);
+
+/**
+ * Threads of an organization or a volunteer, most recent activity first.
+ * `unread_count` counts the messages the other side sent that the viewer has not opened yet.
+ */
+export async function listThreadSummaries(
+  db: Kysely<Database>,
+  viewer: { role: MessageSenderRole; id: number },
+): Promise<MessageThreadSummary[]> {
+  return selectThreadSummaries(db, viewer.role)
+    .where(viewer.role === 'organization' ? 'message_thread.organization_id' : 'message_thread.volunteer_id', '=', viewer.id)
+    // Mirrors hasVolunteerRelationshipWithOrganization, so threads disappear once the volunteer is no longer related
+    .where(eb => eb.or([
+      eb.exists(
+        eb.selectFrom('enrollment_application')
+          .innerJoin('posting as related_posting', 'related_posting.id', 'enrollment_application.posting_id')
+          .select('enrollment_application.id')
+          .whereRef('enrollment_application.volunteer_id', '=', 'message_thread.volunteer_id')
+          .whereRef('related_posting.organization_id', '=', 'message_thread.organization_id'),
+      ),
+      eb.exists(
+        eb.selectFrom('enrollment')
+          .innerJoin('posting as related_posting', 'related_posting.id', 'enrollment.posting_id')
+          .select('enrollment.id')
+          .whereRef('enrollment.volunteer_id', '=', 'message_thread.volunteer_id')
+          .whereRef('related_posting.organization_id', '=', 'message_thread.organization_id'),
+      ),
+    ]))
+    .orderBy('message_thread.last_message_at', 'desc')
+    .orderBy('message_thread.id', 'desc')
+    .execute();
+}
+
+export async function getThreadSummary(
+  db: Kysely<Database>,
+  threadId: number,
+  viewerRole: MessageSenderRole,
+): Promise<MessageThreadSummary | undefined> {
+  return selectThreadSummaries(db, viewerRole)
+    .where('message_thread.id', '=', threadId)
+    .executeTakeFirst();
+}
+
+/**
+ * The thread, if it belongs to the viewer. Callers still check that the volunteer and the organization are related.
+ */
+export async function findViewerThread(
+  db: Kysely<Database>,
+  threadId: number,
+  viewer: { role: MessageSenderRole; id: number },
+): Promise<MessageThread | undefined> {
+  return db
+    .selectFrom('message_thread')
+    .selectAll()
+    .where('id', '=', threadId)
+    .where(viewer.role === 'organization' ? 'organization_id' : 'volunteer_id', '=', viewer.id)
+    .executeTakeFirst();
+}
+
+/**
+ * Whether the volunteer currently applies to or is enrolled in this posting.
+ * Threads are opened per application or enrollment, and accepting an application turns it into an enrollment.
+ */
+export async function isVolunteerRelatedToPosting(db: Kysely<Database>, postingId: number, volunteerId: number) {
+  const [application, enrollment] = await Promise.all([
+    db
+      .selectFrom('enrollment_application')
+      .select('id')
+      .where('posting_id', '=', postingId)
+      .where('volunteer_id', '=', volunteerId)
+      .executeTakeFirst(),
+    db
+      .selectFrom('enrollment')
+      .select('id')
+      .where('posting_id', '=', postingId)
+      .where('volunteer_id', '=', volunteerId)
+      .executeTakeFirst(),
+  ]);
+
+  return Boolean(application || enrollment);
+}
+
+/**
+ * Returns the thread of a volunteer on a posting, creating it on first contact.
+ */
+export async function findOrCreateThread(
+  db: Kysely<Database>,
+  thread: Pick<MessageThread, 'organization_id' | 'posting_id' | 'volunteer_id'>,
+): Promise<MessageThread> {
+  await db
+    .insertInto('message_thread')
+    .values(thread)
+    .onConflict(oc => oc.columns(['posting_id', 'volunteer_id']).doNothing())
+    .execute();
+
+  return db
+    .selectFrom('message_thread')
+    .selectAll()
+    .where('posting_id', '=', thread.posting_id)
+    .where('volunteer_id', '=', thread.volunteer_id)
+    .executeTakeFirstOrThrow();
+}
+
+const selectMessagesWithSender = (db: Kysely<Database>) => db
+  .selectFrom('message')
+  .innerJoin('message_thread', 'message_thread.id', 'message.thread_id')
+  .innerJoin('organization_account', 'organization_account.id', 'message_thread.organization_id')
+  .innerJoin('volunteer_account', 'volunteer_account.id', 'message_thread.volunteer_id')
+  .leftJoin('organization_member', 'organization_member.id', 'message.sender_member_id')
+  .select([
+    'message.id',
+    'message.thread_id',
+    'message.sender_role',
+    'message.sender_member_id',
+    'message.body',
+    'message.attachment_name',
+    'message.read_at',
+    'message.created_at',
+    sql<string>`CASE
+      WHEN message.sender_role = 'volunteer' THEN volunteer_account.first_name || ' ' || volunteer_account.last_name
+      ELSE COALESCE(organization_member.first_name || ' ' || organization_member.last_name, organization_account.name)
+    END`.as('sender_name'),
+  ]);
+
+export async function getThreadMessages(db: Kysely<Database>, threadId: number): Promise<MessageWithSender[]> {
+  return selectMessagesWithSender(db)
+    .where('message.thread_id', '=', threadId)
+    .orderBy('message.created_at', 'asc')
+    .orderBy('message.id', 'asc')
+    .execute();
+}
+
+/**
+ * Read receipts: marks everything the other side sent in the thread as read by the viewer.
+ */
+export async function markThreadRead(db: Kysely<Database>, threadId: number, readerRole: MessageSenderRole) {
+  await db
+    .updateTable('message')
+    .set({ read_at: sql`now()` })
+    .where('thread_id', '=', threadId)
+    .where('sender_role', '!=', readerRole)
+    .where('read_at', 'is', null)
+    .execute();
+}
+
+const previewOf = (content: MessageContent) => {
+  if (!content.body) return 'Sent an attachment';
+  return content.body.length > MESSAGE_PREVIEW_LENGTH
+    ? `${content.body.slice(0, MESSAGE_PREVIEW_LENGTH)}…`
+    : content.body;
+};
+
+async function createNewMessageDeliveries(
+  db: Kysely<Database>,
+  threadIds: number[],
+  senderRole: MessageSenderRole,
+  content: MessageContent,
+): Promise<NotificationDelivery[]> {
+  const threads = await db
+    .selectFrom('message_thread')
+    .innerJoin('posting', 'posting.id', 'message_thread.posting_id')
+    .innerJoin('organization_account', 'organization_account.id', 'message_thread.organization_id')
+    .innerJoin('volunteer_account', 'volunteer_account.id', 'message_thread.volunteer_id')
+    .select([
+      'message_thread.id',
+      'message_thread.organization_id',
+      'message_thread.volunteer_id',
+      'posting.title as posting_title',
+      'organization_account.name as organization_name',
+      'organization_account.email as organization_email',
+      'volunteer_account.first_name',
+      'volunteer_account.last_name',
+      'volunteer_account.email as volunteer_email',
+    ])
+    .where('message_thread.id', 'in', threadIds)
+    .execute();
+
+  const preview = previewOf(content);
+
+  return threads.map((thread) => {
+    const volunteerName = `${thread.first_name} ${thread.last_name}`;
+    const recipient = senderRole === 'organization'
+      ? { user_id: thread.volunteer_id, role: 'volunteer' as const, email: thread.volunteer_email, name: volunteerName }
+      : { user_id: thread.organization_id, role: 'organization' as const, email: thread.organization_email, name: thread.organization_name };
+    const senderName = senderRole === 'organization' ? thread.organization_name : volunteerName;
+    const link = threadLink(recipient.role, thread.id);
+
+    return {
+      recipient: { user_id: recipient.user_id, role: recipient.role },
+      type: 'new_message',
+      title: `New message from ${senderName}`,
+      message: `About "${thread.posting_title}": ${preview}`,
+      link,
+      sendEmail: () => sendNewMessageEmail({
+        recipientEmail: recipient.email,
+        recipientName: recipient.name,
+        senderName,
+        postingTitle: thread.posting_title,
+        preview,
+        link,
+      }, db),
+    };
+  });
+}
+
+async function insertMessages(
+  trx: Kysely<Database>,
+  threadIds: number[],
+  sender: MessageSender,
+  content: MessageContent,
+) {
+  const inserted = await trx
+    .insertInto('message')
+    .values(threadIds.map(threadId => ({
+      thread_id: threadId,
+      sender_role: sender.role,
+      sender_member_id: sender.memberId,
+      body: content.body,
+      attachment_path: content.attachment?.path ?? null,
+      attachment_name: content.attachment?.name ?? null,
+    })))
+    .returning(['id', 'created_at'])
+    .execute();
+
+  await trx
+    .updateTable('message_thread')
+    .set({ last_message_at: inserted[0]!.created_at })
+    .where('id', 'in', threadIds)
+    .execute();
+
+  return inserted.map(message => message.id);
+}
+
+/**
+ * Posts a message in a thread and notifies the other side in the app and by email.
+ */
+export async function sendMessage(
+  db: Kysely<Database>,
+  threadId: number,
+  sender: MessageSender,
+  content: MessageContent,
+): Promise<MessageWithSender> {
+  const [messageId] = await executeTransaction(db, trx => insertMessages(trx, [threadId], sender, content));
+
+  await deliverNotifications(db, await createNewMessageDeliveries(db, [threadId], sender.role, content));
+
+  return selectMessagesWithSender(db)
+    .where('message.id', '=', messageId!)
+    .executeTakeFirstOrThrow();
+}
+
+/**
+ * Sends the same message to every volunteer enrolled in a posting, each in their own thread,
+ * so replies stay private between the volunteer and the organization.
+ * Returns the number of volunteers reached.
+ */
+export async function broadcastToPostingVolunteers(
+  db: Kysely<Database>,
+  posting: { id: number; organization_id: number },
+  sender: MessageSender,
+  content: MessageContent,
+): Promise<number> {
+  const threadIds = await executeTransaction(db, async (trx) => {
+    const enrollments = await trx
+      .selectFrom('enrollment')
+      .select('volunteer_id')
+      .where('posting_id', '=', posting.id)
+      .execute();
+
+    if (enrollments.length === 0) return [];
+
+    await trx
+      .insertInto('message_thread')
+      .values(enrollments.map(enrollment => ({
+        organization_id: posting.organization_id,
+        posting_id: posting.id,
+        volunteer_id: enrollment.volunteer_id,
+      })))
+      .onConflict(oc => oc.columns(['posting_id', 'volunteer_id']).doNothing())
+      .execute();
+
+    const threads = await trx
+      .selectFrom('message_thread')
+      .select('id')
+      .where('posting_id', '=', posting.id)
+      .where('volunteer_id', 'in', enrollments.map(enrollment => enrollment.volunteer_id))
+      .execute();
+
+    const ids = threads.map(thread => thread.id);
+    await insertMessages(trx, ids, sender, content);
+    return ids;
+  });
+
+  if (threadIds.length > 0) {
+    await deliverNotifications(db, await createNewMessageDeliveries(db, threadIds, sender.role, content));
+  }
+
+  return threadIds.length;
+}
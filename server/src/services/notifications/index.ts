@@ -0,0 +1,143 @@
+import { type Kysely } from 'kysely';
+
+import {
+  type Database,
+  type NotificationPreference,
+  type NotificationRole,
+  type NotificationType,
+} from '../../db/tables/index.ts';
+import { sendPostingDeletedEmail, sendVolunteerApplicationRejectedEmail } from '../resend/emails.ts';
+
+export type NotificationRecipient = {
+  user_id: number;
+  role: NotificationRole;
+};
+
+export type NotificationDelivery = {
+  recipient: NotificationRecipient;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string | null;
+  sendEmail?: () => Promise<void>;
+};
+
+/**
+ * Event types each role can tune in their settings. Emails that carry credentials
+ * or verify an address (password reset, signup verification, the organization
+ * welcome email) are never optional and therefore not listed.
+ */
+export const NOTIFICATION_TYPES_BY_ROLE: Record<NotificationRole, readonly NotificationType[]> = {
+  admin: ['organization_request_submitted'],
+  organization: ['shift_roster', 'new_message'],
+  volunteer: ['application_accepted', 'application_rejected', 'posting_deleted', 'waitlist_promoted', 'shift_reminder', 'saved_search_match', 'followed_organization_posting', 'guardian_consent_response', 'new_message'],
+};
+
+export type PostingDeletedNotice = Parameters<typeof sendPostingDeletedEmail>[0] & {
+  volunteerId: number;
+};
+
+export type ApplicationRejectedNotice = Parameters<typeof sendVolunteerApplicationRejectedEmail>[0] & {
+  volunteerId: number;
+  postingId: number;
+};
+
+const preferenceKey = (recipient: NotificationRecipient, type: NotificationType) =>
+  `${recipient.role}:${recipient.user_id}:${type}`;
+
+export async function getNotificationPreferences(
+  db: Kysely<Database>,
+  recipient: NotificationRecipient,
+): Promise<Pick<NotificationPreference, 'type' | 'email_enabled' | 'in_app_enabled'>[]> {
+  const rows = await db
+    .selectFrom('notification_preference')
+    .select(['type', 'email_enabled', 'in_app_enabled'])
+    .where('user_id', '=', recipient.user_id)
+    .where('role', '=', recipient.role)
+    .execute();
+
+  return NOTIFICATION_TYPES_BY_ROLE[recipient.role].map(type => (
+    rows.find(row => row.type === type) ?? { type, email_enabled: true, in_app_enabled: true }
+  ));
+}
+
+/**
+ * Records in-app notifications and sends the matching emails according to each
+ * recipient's preferences. Both channels are on until a user turns them off.
+ * Delivery failures are logged so they never undo the action that triggered them.
+ * Returns the recipients who want this event by email, for callers that batch
+ * a single email to several users themselves.
+ */
+export async function deliverNotifications(
+  db: Kysely<Database>,
+  deliveries: readonly NotificationDelivery[],
+): Promise<NotificationRecipient[]> {
+  if (deliveries.length === 0) {
+    return [];
+  }
+
+  const preferences = await db
+    .selectFrom('notification_preference')
+    .select(['user_id', 'role', 'type', 'email_enabled', 'in_app_enabled'])
+    .where('user_id', 'in', [...new Set(deliveries.map(delivery => delivery.recipient.user_id))])
+    .where('type', 'in', [...new Set(deliveries.map(delivery => delivery.type))])
+    .execute();
+  const preferencesByKey = new Map(preferences.map(preference => [preferenceKey(preference, preference.type), preference]));
+
+  const inAppDeliveries = deliveries.filter(delivery =>
+    preferencesByKey.get(preferenceKey(delivery.recipient, delivery.type))?.in_app_enabled ?? true);
+  const emailDeliveries = deliveries.filter(delivery =>
+    preferencesByKey.get(preferenceKey(delivery.recipient, delivery.type))?.email_enabled ?? true);
+
+  if (inAppDeliveries.length > 0) {
+    try {
+      await db
+        .insertInto('notification')
+        .values(inAppDeliveries.map(delivery => ({
+          user_id: delivery.recipient.user_id,
+          role: delivery.recipient.role,
+          type: delivery.type,
+          title: delivery.title,
+          message: delivery.message,
+          link: delivery.link ?? null,
+        })))
+        .execute();
+    } catch (err) {
+      console.error('Failed to record in-app notifications:', err);
+    }
+  }
+
+  await Promise.allSettled(
+    emailDeliveries.map(delivery => delivery.sendEmail?.().catch((err) => {
+      console.error(`Failed to send ${delivery.type} email to ${delivery.recipient.role} ${delivery.recipient.user_id}:`, err);
+    })),
+  );
+
+  return emailDeliveries.map(delivery => delivery.recipient);
+}
+
+export const createPostingDeletedDelivery = ({ volunteerId, ...emailOptions }: PostingDeletedNotice): NotificationDelivery => ({
+  recipient: { user_id: volunteerId, role: 'volunteer' },
+  type: 'posting_deleted',
+  title: 'Posting removed',
+  message: `${emailOptions.organizationName} removed "${emailOptions.postingTitle}". Your enrollment has been cancelled.`,
+  link: '/volunteer/enrollments',
+  sendEmail: () => sendPostingDeletedEmail(emailOptions),
+});
+
+export const createApplicationRejectedDelivery = ({
+  volunteerId,
+  postingId,
+  ...emailOptions
+}: ApplicationRejectedNotice): NotificationDelivery => ({
+  recipient: { user_id: volunteerId, role: 'volunteer' },
+  type: 'application_rejected',
+  title: 'Application not accepted',
+  message: `${emailOptions.organizationName} did not accept your application for "${emailOptions.postingTitle}".`,
+  link: `/posting/${postingId}`,
+  sendEmail: () => sendVolunteerApplicationRejectedEmail(emailOptions),
+});
+
+export async function deliverNotification(db: Kysely<Database>, delivery: NotificationDelivery) {
+  await deliverNotifications(db, [delivery]);
+}
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+
+import { type Kysely } from 'kysely';
+
+import { type Database } from '../../db/tables/index.ts';
+
+export const ORGANIZATION_MEMBER_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const organizationMemberResponseColumns = [
+  'organization_member.id',
+  'organization_member.organization_id',
+  'organization_member.email',
+  'organization_member.first_name',
+  'organization_member.last_name',
+  'organization_member.role',
+  'organization_member.invite_expires_at',
+  'organization_member.joined_at',
+  'organization_member.removed_at',
+  'organization_member.created_at',
+] as const;
+
+export const createOrganizationMemberInviteToken = () => {
+  const token = crypto.randomBytes(32).toString('hex');
+  return { token, tokenHash: hashOrganizationMemberInviteToken(token) };
+};
+
+export const hashOrganizationMemberInviteToken = (token: string) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Login looks accounts up by email alone, so an address can only belong to
+ * one organization, volunteer or active member at a time.
+ */
+export async function isAccountEmailTaken(db: Kysely<Database>, email: string) {
+  const [volunteer, organization, organizationRequest, member] = await Promise.all([
+    db
+      .selectFrom('volunteer_account')
+      .select('id')
+      .where('email', '=', email)
+      .executeTakeFirst(),
+    db
+      .selectFrom('organization_account')
+      .select('id')
+      .where('email', '=', email)
+      .executeTakeFirst(),
+    db
+      .selectFrom('organization_request')
+      .select('id')
+      .where('email', '=', email)
+      .executeTakeFirst(),
+    db
+      .selectFrom('organization_member')
+      .select('id')
+      .where('email', '=', email)
+      .where('removed_at', 'is', null)
+      .executeTakeFirst(),
+  ]);
+
+  return Boolean(volunteer || organization || organizationRequest || member);
+}
@@ -0,0 +1,37 @@
+import { type Kysely } from 'kysely';
+
+import { type Database } from '../../db/tables/index.ts';
+
+/**
+ * Whether the volunteer applied to or is enrolled in one of the organization's postings.
+ * Organizations may only see a volunteer's CV and message them while this holds.
+ */
+export const hasVolunteerRelationshipWithOrganization = async (
+  db: Kysely<Database>,
+  organizationId: number,
+  volunteerId: number,
+) => {
+  const relatedApplication = await db
+    .selectFrom('enrollment_application')
+    .innerJoin(
+      'posting',
+      'posting.id',
+      'enrollment_application.posting_id',
+    )
+    .select('enrollment_application.id')
+    .where('enrollment_application.volunteer_id', '=', volunteerId)
+    .where('posting.organization_id', '=', organizationId)
+    .executeTakeFirst();
+
+  if (relatedApplication) return true;
+
+  const relatedEnrollment = await db
+    .selectFrom('enrollment')
+    .innerJoin('posting', 'posting.id', 'enrollment.posting_id')
+    .select('enrollment.id')
+    .where('enrollment.volunteer_id', '=', volunteerId)
+    .where('posting.organization_id', '=', organizationId)
+    .executeTakeFirst();
+
+  return Boolean(relatedEnrollment);
+};
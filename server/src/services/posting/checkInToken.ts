@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+
+import zod from 'zod';
+
+import { idSchema } from '../../schemas/index.ts';
+
+const CHECK_IN_TOKEN_PURPOSE = 'enrollment_date_check_in';
+const SIGNATURE_BYTES = 16;
+const DAY_SECONDS = 24 * 60 * 60;
+
+const checkInPayloadSchema = zod.tuple([
+  idSchema,
+  zod.number().int().positive(),
+]);
+
+export type CheckInTokenPayload = {
+  enrollment_date_id: number;
+  expires_at: Date;
+};
+
+type VerifiedCheckInTokenResult = { valid: true; payload: CheckInTokenPayload } | { valid: false; reason: 'malformed' | 'invalid_signature' | 'expired' };
+
+const getSignature = (payloadBytes: Buffer, secret: string) =>
+  crypto
+    .createHmac('sha256', secret)
+    .update(CHECK_IN_TOKEN_PURPOSE)
+    .update(payloadBytes)
+    .digest()
+    .subarray(0, SIGNATURE_BYTES);
+
+/**
+ * Codes stay valid until the end of the day after the enrollment date,
+ * so late shifts and time zone differences do not lock volunteers out.
+ */
+export const getCheckInTokenExpiry = (date: string) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + 2 * DAY_SECONDS * 1000);
+
+export const signCheckInToken = (payload: CheckInTokenPayload, secret: string) => {
+  const payloadBytes = Buffer.from(JSON.stringify([
+    payload.enrollment_date_id,
+    Math.floor(payload.expires_at.getTime() / 1000),
+  ]), 'utf8');
+
+  return `${payloadBytes.toString('base64url')}.${getSignature(payloadBytes, secret).toString('base64url')}`;
+};
+
+export const verifyCheckInToken = (
+  token: string,
+  secret: string,
+  now: Date = new Date(),
+): VerifiedCheckInTokenResult => {
+  const parts = token.trim().split('.');
+  if (parts.length !== 2 || !parts[0] || !parts[1]) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const payloadBytes = Buffer.from(parts[0], 'base64url');
+  const signatureBytes = Buffer.from(parts[1], 'base64url');
+  const expectedSignature = getSignature(payloadBytes, secret);
+
+  if (signatureBytes.length !== expectedSignature.length || !crypto.timingSafeEqual(signatureBytes, expectedSignature)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payloadBytes.toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const payloadResult = checkInPayloadSchema.safeParse(parsed);
+  if (!payloadResult.success) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const [enrollmentDateId, expiresAtEpochSeconds] = payloadResult.data;
+  const expiresAt = new Date(expiresAtEpochSeconds * 1000);
+  if (now > expiresAt) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, payload: { enrollment_date_id: enrollmentDateId, expires_at: expiresAt } };
+};
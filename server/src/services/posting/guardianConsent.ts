@@ -0,0 +1,474 @@
+import crypto from 'crypto';
+
+import { sql, type Kysely } from 'kysely';
+import zod from 'zod';
+
+import { getPostingOccurrenceDates, getPostingOccurrenceOverrides } from './postingSchedule.ts';
+import { promoteWaitlistedVolunteers, removeVolunteerFromWaitlist } from './waitlist.ts';
+import config from '../../config.ts';
+import executeTransaction from '../../db/executeTransaction.ts';
+import {
+  type Database,
+  type GuardianConsent,
+  type GuardianConsentDecision,
+  type GuardianConsentSummary,
+} from '../../db/tables/index.ts';
+import { idSchema } from '../../schemas/index.ts';
+import { recomputePostingContextVectorOnly } from '../embeddings/updates.ts';
+import { deliverNotification } from '../notifications/index.ts';
+import { sendGuardianConsentRequestEmail, sendVolunteerGuardianConsentResponseEmail } from '../resend/emails.ts';
+
+export const GUARDIAN_CONSENT_AGE = 18;
+export const GUARDIAN_CONSENT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const GUARDIAN_CONSENT_TOKEN_PURPOSE = 'guardian_consent';
+const SIGNATURE_BYTES = 16;
+
+const guardianConsentPayloadSchema = zod.tuple([
+  idSchema,
+  zod.number().int().positive(),
+]);
+
+export type GuardianConsentTokenPayload = {
+  consent_id: number;
+  expires_at: Date;
+};
+
+type VerifiedGuardianConsentTokenResult = { valid: true; payload: GuardianConsentTokenPayload } | { valid: false; reason: 'malformed' | 'invalid_signature' | 'expired' };
+
+export type GuardianConsentOutcome = 'approved' | 'enrolled' | 'full' | 'declined';
+
+const getSignature = (payloadBytes: Buffer, secret: string) =>
+  crypto
+    .createHmac('sha256', secret)
+    .update(GUARDIAN_CONSENT_TOKEN_PURPOSE)
+    .update(payloadBytes)
+    .digest()
+    .subarray(0, SIGNATURE_BYTES);
+
+export const signGuardianConsentToken = (payload: GuardianConsentTokenPayload, secret: string) => {
+  const payloadBytes = Buffer.from(JSON.stringify([
+    payload.consent_id,
+    Math.floor(payload.expires_at.getTime() / 1000),
+  ]), 'utf8');
+
+  return `${payloadBytes.toString('base64url')}.${getSignature(payloadBytes, secret).toString('base64url')}`;
+};
+
+export const verifyGuardianConsentToken = (
+  token: string,
+  secret: string,
+  now: Date = new Date(),
+): VerifiedGuardianConsentTokenResult => {
+  const parts = token.trim().split('.');
+  if (parts.length !== 2 || !parts[0] || !parts[1]) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const payloadBytes = Buffer.from(parts[0], 'base64url');
+  const signatureBytes = Buffer.from(parts[1], 'base64url');
+  const expectedSignature = getSignature(payloadBytes, secret);
+
+  if (signatureBytes.length !== expectedSignature.length || !crypto.timingSafeEqual(signatureBytes, expectedSignature)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payloadBytes.toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const payloadResult = guardianConsentPayloadSchema.safeParse(parsed);
+  if (!payloadResult.success) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const [consentId, expiresAtEpochSeconds] = payloadResult.data;
+  const expiresAt = new Date(expiresAtEpochSeconds * 1000);
+  if (now > expiresAt) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, payload: { consent_id: consentId, expires_at: expiresAt } };
+};
+
+export const toGuardianConsentSummary = (consent: GuardianConsent): GuardianConsentSummary => ({
+  status: consent.status,
+  guardian_email: consent.guardian_email,
+  guardian_name: consent.guardian_name,
+  expires_at: consent.expires_at,
+  responded_at: consent.responded_at,
+});
+
+/**
+ * The most recent consent request of each volunteer for a posting.
+ */
+export async function getLatestGuardianConsents(
+  db: Kysely<Database>,
+  postingId: number,
+  volunteerIds: readonly number[],
+): Promise<Map<number, GuardianConsent>> {
+  const consentsByVolunteerId = new Map<number, GuardianConsent>();
+
+  if (volunteerIds.length === 0) {
+    return consentsByVolunteerId;
+  }
+
+  const consents = await db
+    .selectFrom('guardian_consent')
+    .selectAll()
+    .where('posting_id', '=', postingId)
+    .where('volunteer_id', 'in', volunteerIds)
+    .orderBy('created_at', 'desc')
+    .orderBy('id', 'desc')
+    .execute();
+
+  consents.forEach((consent) => {
+    if (!consentsByVolunteerId.has(consent.volunteer_id)) {
+      consentsByVolunteerId.set(consent.volunteer_id, consent);
+    }
+  });
+
+  return consentsByVolunteerId;
+}
+
+/**
+ * Once a guardian approves, the consent covers later applications to the same posting.
+ */
+export async function hasApprovedGuardianConsent(db: Kysely<Database>, postingId: number, volunteerId: number) {
+  const consent = await db
+    .selectFrom('guardian_consent')
+    .select('id')
+    .where('posting_id', '=', postingId)
+    .where('volunteer_id', '=', volunteerId)
+    .where('status', '=', 'approved')
+    .executeTakeFirst();
+
+  return Boolean(consent);
+}
+
+export async function cancelPendingGuardianConsents(trx: Kysely<Database>, postingId: number, volunteerId: number) {
+  await trx
+    .updateTable('guardian_consent')
+    .set({ status: 'cancelled' })
+    .where('posting_id', '=', postingId)
+    .where('volunteer_id', '=', volunteerId)
+    .where('status', '=', 'pending')
+    .execute();
+}
+
+/**
+ * Cancels pending requests once the volunteer has neither an application nor
+ * a waitlist entry left for the posting, so an old link cannot be used anymore.
+ */
+export async function cancelUnusedGuardianConsents(trx: Kysely<Database>, postingId: number, volunteerId: number) {
+  const [application, waitlistEntry] = await Promise.all([
+    trx
+      .selectFrom('enrollment_application')
+      .select('id')
+      .where('posting_id', '=', postingId)
+      .where('volunteer_id', '=', volunteerId)
+      .executeTakeFirst(),
+    trx
+      .selectFrom('waitlist_entry')
+      .select('id')
+      .where('posting_id', '=', postingId)
+      .where('volunteer_id', '=', volunteerId)
+      .executeTakeFirst(),
+  ]);
+
+  if (!application && !waitlistEntry) {
+    await cancelPendingGuardianConsents(trx, postingId, volunteerId);
+  }
+}
+
+/**
+ * Records a new consent request, replacing any request still waiting for an answer.
+ * Returns the signed token for the link sent to the guardian.
+ */
+export async function requestGuardianConsent(
+  trx: Kysely<Database>,
+  { postingId, postingTitle, volunteerId, guardianEmail }: {
+    postingId: number;
+    postingTitle: string;
+    volunteerId: number;
+    guardianEmail: string;
+  },
+) {
+  await cancelPendingGuardianConsents(trx, postingId, volunteerId);
+
+  const consent = await trx
+    .insertInto('guardian_consent')
+    .values({
+      posting_id: postingId,
+      posting_title: postingTitle,
+      volunteer_id: volunteerId,
+      guardian_email: guardianEmail,
+      expires_at: new Date(Date.now() + GUARDIAN_CONSENT_TTL_MS),
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  return {
+    consent,
+    token: signGuardianConsentToken({ consent_id: consent.id, expires_at: consent.expires_at }, config.JWT_SECRET),
+  };
+}
+
+export async function sendGuardianConsentRequest(db: Kysely<Database>, consent: GuardianConsent, token: string) {
+  const context = await db
+    .selectFrom('guardian_consent')
+    .innerJoin('volunteer_account', 'volunteer_account.id', 'guardian_consent.volunteer_id')
+    .innerJoin('posting', 'posting.id', 'guardian_consent.posting_id')
+    .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+    .select([
+      'volunteer_account.first_name',
+      'volunteer_account.last_name',
+      'posting.title as posting_title',
+      'posting.location_name',
+      sql<string>`to_char(posting.start_date, 'YYYY-MM-DD')`.as('start_date'),
+      'organization_account.name as organization_name',
+    ])
+    .where('guardian_consent.id', '=', consent.id)
+    .executeTakeFirstOrThrow();
+
+  await sendGuardianConsentRequestEmail({
+    guardianEmail: consent.guardian_email,
+    volunteerName: `${context.first_name} ${context.last_name}`,
+    organizationName: context.organization_name,
+    postingTitle: context.posting_title,
+    locationName: context.location_name,
+    startDate: context.start_date,
+    consentToken: token,
+    expiresAt: consent.expires_at,
+  });
+}
+
+const getOutcomeMessage = (outcome: GuardianConsentOutcome, isReviewBased: boolean) => {
+  switch (outcome) {
+    case 'enrolled':
+      return 'You are now enrolled.';
+    case 'full':
+      return 'Unfortunately the posting filled up in the meantime, so your request was closed. You can join the waitlist without asking your guardian again.';
+    case 'declined':
+      return 'Your request was withdrawn. You can apply again with a different guardian email if needed.';
+    case 'approved':
+      return isReviewBased
+        ? 'Your application is now waiting for the organization to review it.'
+        : 'You will be enrolled as soon as a spot opens up.';
+  }
+};
+
+/**
+ * Records a guardian's answer and moves the volunteer's request along.
+ * On open postings an approval turns the held application into an enrollment
+ * when there is still room; review postings leave the application for the
+ * organization. A decline withdraws the application and waitlist entry.
+ * Returns undefined when the request is no longer waiting for an answer.
+ */
+export async function recordGuardianConsentDecision(
+  db: Kysely<Database>,
+  consentId: number,
+  { decision, guardian_name: guardianName }: Omit<GuardianConsentDecision, 'token'>,
+  { ip, userAgent }: { ip: string | null; userAgent: string | null },
+) {
+  const result = await executeTransaction(db, async (trx) => {
+    const consent = await trx
+      .selectFrom('guardian_consent')
+      .selectAll()
+      .where('id', '=', consentId)
+      .forUpdate()
+      .executeTakeFirst();
+
+    if (!consent || consent.status !== 'pending' || consent.expires_at < new Date()) {
+      return undefined;
+    }
+
+    const updatedConsent = await trx
+      .updateTable('guardian_consent')
+      .set({
+        status: decision === 'approve' ? 'approved' : 'declined',
+        guardian_name: guardianName,
+        responded_at: new Date(),
+        response_ip: ip,
+        response_user_agent: userAgent,
+      })
+      .where('id', '=', consentId)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    const posting = consent.posting_id === null
+      ? undefined
+      : await trx
+          .selectFrom('posting')
+          .select([
+            'id',
+            'automatic_acceptance',
+            'max_volunteers',
+            'allows_partial_attendance',
+            'start_date',
+            'end_date',
+            'recurrence_weekdays',
+            'recurrence_interval',
+          ])
+          .where('id', '=', consent.posting_id)
+          .forUpdate()
+          .executeTakeFirst();
+
+    if (!posting) {
+      return { consent: updatedConsent, posting, outcome: decision === 'approve' ? 'approved' : 'declined' } as const;
+    }
+
+    const application = await trx
+      .selectFrom('enrollment_application')
+      .select(['id', 'role_id', 'message'])
+      .where('posting_id', '=', posting.id)
+      .where('volunteer_id', '=', consent.volunteer_id)
+      .executeTakeFirst();
+
+    const removeApplication = async () => {
+      if (!application) return;
+
+      await trx
+        .deleteFrom('enrollment_application_date')
+        .where('application_id', '=', application.id)
+        .execute();
+
+      await trx
+        .deleteFrom('enrollment_application')
+        .where('id', '=', application.id)
+        .execute();
+    };
+
+    if (decision === 'decline') {
+      await removeApplication();
+      await removeVolunteerFromWaitlist(trx, posting.id, consent.volunteer_id);
+      return { consent: updatedConsent, posting, outcome: 'declined' } as const;
+    }
+
+    if (!posting.automatic_acceptance || !application) {
+      return { consent: updatedConsent, posting, outcome: 'approved' } as const;
+    }
+
+    const applicationDates = await trx
+      .selectFrom('enrollment_application_date')
+      .select(sql<string>`to_char(enrollment_application_date.date, 'YYYY-MM-DD')`.as('date'))
+      .where('application_id', '=', application.id)
+      .execute();
+
+    // Partial-attendance applications already hold their dates, so only full-commitment seats need a recount
+    if (!posting.allows_partial_attendance) {
+      const role = application.role_id === null
+        ? undefined
+        : await trx
+            .selectFrom('posting_role')
+            .select('max_volunteers')
+            .where('id', '=', application.role_id)
+            .executeTakeFirst();
+      const maxVolunteers = role ? role.max_volunteers : posting.max_volunteers;
+
+      if (maxVolunteers !== null) {
+        let enrollmentCountQuery = trx
+          .selectFrom('enrollment')
+          .select(sql<number>`count(enrollment.id)`.as('count'))
+          .where('posting_id', '=', posting.id);
+
+        if (application.role_id !== null) {
+          enrollmentCountQuery = enrollmentCountQuery.where('role_id', '=', application.role_id);
+        }
+
+        const enrollmentCountRow = await enrollmentCountQuery.executeTakeFirst();
+        if (Number(enrollmentCountRow?.count ?? 0) >= maxVolunteers) {
+          await removeApplication();
+          return { consent: updatedConsent, posting, outcome: 'full' } as const;
+        }
+      }
+    }
+
+    const enrollmentDates = applicationDates.length > 0
+      ? applicationDates.map(row => row.date)
+      : getPostingOccurrenceDates(posting, (await getPostingOccurrenceOverrides(trx, [posting.id])).get(posting.id));
+
+    const enrollment = await trx
+      .insertInto('enrollment')
+      .values({
+        volunteer_id: consent.volunteer_id,
+        posting_id: posting.id,
+        role_id: application.role_id,
+        message: application.message,
+        attended: false,
+      })
+      .returning('id')
+      .executeTakeFirstOrThrow();
+
+    if (enrollmentDates.length > 0) {
+      await trx
+        .insertInto('enrollment_date')
+        .values(enrollmentDates.map(date => ({
+          enrollment_id: enrollment.id,
+          posting_id: posting.id,
+          date: new Date(`${date}T00:00:00.000Z`),
+          attended: false,
+        })))
+        .execute();
+    }
+
+    await removeApplication();
+    await removeVolunteerFromWaitlist(trx, posting.id, consent.volunteer_id, enrollmentDates);
+
+    return { consent: updatedConsent, posting, outcome: 'enrolled' } as const;
+  });
+
+  if (!result) {
+    return undefined;
+  }
+
+  const { consent, posting, outcome } = result;
+
+  if (posting && outcome === 'enrolled') {
+    await recomputePostingContextVectorOnly(posting.id, db);
+  }
+
+  if (posting && (outcome === 'declined' || outcome === 'full')) {
+    await promoteWaitlistedVolunteers(db, posting.id);
+  }
+
+  const context = await db
+    .selectFrom('volunteer_account')
+    .leftJoin('posting', join => join.on('posting.id', '=', consent.posting_id))
+    .leftJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+    .select([
+      'volunteer_account.email',
+      'volunteer_account.first_name',
+      'volunteer_account.last_name',
+      'organization_account.name as organization_name',
+    ])
+    .where('volunteer_account.id', '=', consent.volunteer_id)
+    .where('volunteer_account.is_deleted', '=', false)
+    .executeTakeFirst();
+
+  if (context) {
+    const approved = consent.status === 'approved';
+    const outcomeMessage = getOutcomeMessage(outcome, posting ? !posting.automatic_acceptance : false);
+
+    await deliverNotification(db, {
+      recipient: { user_id: consent.volunteer_id, role: 'volunteer' },
+      type: 'guardian_consent_response',
+      title: approved ? 'Guardian consent approved' : 'Guardian consent declined',
+      message: `Your guardian ${approved ? 'approved' : 'declined'} your request for "${consent.posting_title}". ${outcomeMessage}`,
+      link: consent.posting_id === null ? null : `/posting/${consent.posting_id}`,
+      sendEmail: () => sendVolunteerGuardianConsentResponseEmail({
+        volunteerEmail: context.email,
+        volunteerName: `${context.first_name} ${context.last_name}`,
+        organizationName: context.organization_name ?? 'The organization',
+        postingTitle: consent.posting_title,
+        approved,
+        outcome: outcomeMessage,
+      }),
+    });
+  }
+
+  return { consent, outcome };
+}
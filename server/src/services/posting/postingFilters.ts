@@ -0,0 +1,163 @@
+import { expressionBuilder, sql, type SelectQueryBuilder } from 'kysely';
+
+import { type Database } from '../../db/tables/index.ts';
+
+export type PostingDateTimeFilters = {
+  startDateFrom?: Date;
+  endDateTo?: Date;
+  startTimeFrom?: string;
+  endTimeTo?: string;
+};
+
+export type PostingDistanceFilter = {
+  latitude: number;
+  longitude: number;
+  radiusKm?: number;
+};
+
+export type PostingBoundsFilter = {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+};
+
+type PostingDateTimeFilterValues = {
+  start_date_from?: string | null | undefined;
+  end_date_to?: string | null | undefined;
+  start_time_from?: string | null | undefined;
+  end_time_to?: string | null | undefined;
+};
+
+type PostingDatabase = Pick<Database, 'posting'>;
+
+// Any select query with `posting` among its tables. Left joins reshape the query's database type,
+// so the conditions below are built against the posting table alone and added as plain expressions.
+type PostingQuery<DB extends PostingDatabase, TB extends keyof DB, O> = SelectQueryBuilder<DB, 'posting' | TB, O>;
+
+const posting = expressionBuilder<PostingDatabase, 'posting'>();
+
+const EARTH_RADIUS_KM = 6371;
+
+const parseDateBoundary = (value: string | null | undefined): Date | undefined => {
+  if (!value) return undefined;
+
+  const parsedDate = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(parsedDate.getTime()) ? undefined : parsedDate;
+};
+
+/**
+ * Turns `YYYY-MM-DD` dates and `HH:MM` times, as sent by clients or kept in saved searches, into posting filters.
+ */
+export const toPostingDateTimeFilters = (values: PostingDateTimeFilterValues): PostingDateTimeFilters => {
+  const startDateFrom = parseDateBoundary(values.start_date_from);
+  const endDateTo = parseDateBoundary(values.end_date_to);
+
+  const filters: PostingDateTimeFilters = {};
+
+  if (startDateFrom) filters.startDateFrom = startDateFrom;
+  if (endDateTo) filters.endDateTo = endDateTo;
+  if (values.start_time_from) filters.startTimeFrom = values.start_time_from;
+  if (values.end_time_to) filters.endTimeTo = values.end_time_to;
+
+  return filters;
+};
+
+/**
+ * Great-circle distance in kilometres between the posting and the search origin (haversine).
+ * Evaluates to NULL when there is no origin or the posting has no coordinates.
+ */
+export const getPostingDistanceExpression = (filter: PostingDistanceFilter | undefined) => {
+  if (!filter) return sql<number | null>`NULL::float8`;
+
+  return sql<number | null>`${sql.lit(EARTH_RADIUS_KM)} * 2 * asin(least(1, sqrt(
+    power(sin(radians(posting.latitude::float8 - ${filter.latitude}::float8) / 2), 2)
+    + cos(radians(${filter.latitude}::float8)) * cos(radians(posting.latitude::float8))
+    * power(sin(radians(posting.longitude::float8 - ${filter.longitude}::float8) / 2), 2)
+  )))`;
+};
+
+export const applyPostingDistanceFilter = <DB extends PostingDatabase, TB extends keyof DB, O>(
+  query: PostingQuery<DB, TB, O>,
+  filter: PostingDistanceFilter | undefined,
+): PostingQuery<DB, TB, O> => {
+  if (filter?.radiusKm === undefined) return query;
+
+  return query.where(sql<boolean>`${getPostingDistanceExpression(filter)} <= ${filter.radiusKm}`);
+};
+
+export const applyPostingBoundsFilter = <DB extends PostingDatabase, TB extends keyof DB, O>(
+  query: PostingQuery<DB, TB, O>,
+  bounds: PostingBoundsFilter | undefined,
+): PostingQuery<DB, TB, O> => {
+  if (!bounds) return query;
+
+  const latitudeQuery = query
+    .where(posting('posting.latitude', '>=', bounds.minLatitude))
+    .where(posting('posting.latitude', '<=', bounds.maxLatitude));
+
+  if (bounds.minLongitude <= bounds.maxLongitude) {
+    return latitudeQuery
+      .where(posting('posting.longitude', '>=', bounds.minLongitude))
+      .where(posting('posting.longitude', '<=', bounds.maxLongitude));
+  }
+
+  return latitudeQuery.where(posting.or([
+    posting('posting.longitude', '>=', bounds.minLongitude),
+    posting('posting.longitude', '<=', bounds.maxLongitude),
+  ]));
+};
+
+/**
+ * Applies the `posting_filter` shortcuts shared by the posting searches. Unknown values, like 'all', leave the query as is.
+ */
+export const applyPostingFilter = <DB extends PostingDatabase, TB extends keyof DB, O>(
+  query: PostingQuery<DB, TB, O>,
+  postingFilter: string,
+): PostingQuery<DB, TB, O> => {
+  switch (postingFilter) {
+    case 'open':
+      return query.where(posting('posting.automatic_acceptance', '=', true));
+    case 'review':
+      return query.where(posting('posting.automatic_acceptance', '=', false));
+    case 'partial':
+      return query.where(posting('posting.allows_partial_attendance', '=', true));
+    case 'full':
+      return query.where(posting('posting.allows_partial_attendance', '=', false));
+    case 'tagged':
+      return query.where(posting('posting.crisis_id', 'is not', null));
+    case 'untagged':
+      return query.where(posting('posting.crisis_id', 'is', null));
+    default:
+      return query;
+  }
+};
+
+export const applyPostingDateTimeFilters = <DB extends PostingDatabase, TB extends keyof DB, O>(
+  query: PostingQuery<DB, TB, O>,
+  filters: PostingDateTimeFilters,
+): PostingQuery<DB, TB, O> => {
+  let nextQuery = query;
+
+  if (filters.startDateFrom) {
+    nextQuery = nextQuery.where(posting('posting.start_date', '>=', filters.startDateFrom));
+  }
+
+  if (filters.endDateTo) {
+    nextQuery = nextQuery
+      .where(posting('posting.end_date', 'is not', null))
+      .where(posting('posting.end_date', '<=', filters.endDateTo));
+  }
+
+  if (filters.startTimeFrom) {
+    nextQuery = nextQuery.where(posting('posting.start_time', '>=', filters.startTimeFrom));
+  }
+
+  if (filters.endTimeTo) {
+    nextQuery = nextQuery
+      .where(posting('posting.end_time', 'is not', null))
+      .where(posting('posting.end_time', '<=', filters.endTimeTo));
+  }
+
+  return nextQuery;
+};
@@ -0,0 +1,156 @@
+import { type Kysely } from 'kysely';
+import zod from 'zod';
+
+import {
+  type ApplicationAnswer,
+  type Database,
+  type NewPostingQuestion,
+  type PostingQuestion,
+} from '../../db/tables/index.ts';
+
+export const MAX_SHORT_TEXT_ANSWER_LENGTH = 500;
+
+export const YES_NO_ANSWERS = ['yes', 'no'] as const;
+
+export const applicationAnswerInputSchema = zod.object({
+  question_id: zod.number().int().positive('Question ID must be a positive number'),
+  answer: zod.string().trim(),
+});
+export type ApplicationAnswerInput = zod.infer<typeof applicationAnswerInputSchema>;
+
+export const getDuplicateQuestionPrompt = (questions: readonly Pick<NewPostingQuestion, 'prompt'>[]) => {
+  const prompts = questions.map(question => question.prompt.trim().toLowerCase());
+  const duplicateIndex = prompts.findIndex((prompt, index) => prompts.indexOf(prompt) !== index);
+  return duplicateIndex === -1 ? undefined : questions[duplicateIndex]!.prompt.trim();
+};
+
+export async function getPostingQuestions(
+  db: Kysely<Database>,
+  postingIds: readonly number[],
+): Promise<Map<number, PostingQuestion[]>> {
+  const questionsByPostingId = new Map<number, PostingQuestion[]>();
+
+  if (postingIds.length === 0) {
+    return questionsByPostingId;
+  }
+
+  const questions = await db
+    .selectFrom('posting_question')
+    .selectAll()
+    .where('posting_id', 'in', postingIds)
+    .orderBy('position', 'asc')
+    .orderBy('id', 'asc')
+    .execute();
+
+  questions.forEach((question) => {
+    if (!questionsByPostingId.has(question.posting_id)) {
+      questionsByPostingId.set(question.posting_id, []);
+    }
+    questionsByPostingId.get(question.posting_id)!.push(question);
+  });
+
+  return questionsByPostingId;
+}
+
+/**
+ * Replaces the questions of a posting, keeping the ids of edited ones.
+ * Answers already given are copies, so they are not touched.
+ */
+export async function replacePostingQuestions(
+  trx: Kysely<Database>,
+  postingId: number,
+  questions: readonly NewPostingQuestion[],
+) {
+  const keptQuestionIds = questions.map(question => question.id).filter((id): id is number => id !== undefined);
+
+  let staleQuestions = trx
+    .deleteFrom('posting_question')
+    .where('posting_id', '=', postingId);
+
+  if (keptQuestionIds.length > 0) {
+    staleQuestions = staleQuestions.where('id', 'not in', keptQuestionIds);
+  }
+
+  await staleQuestions.execute();
+
+  for (const [position, question] of questions.entries()) {
+    const values = {
+      position,
+      prompt: question.prompt.trim(),
+      type: question.type,
+      options: JSON.stringify(question.type === 'multiple_choice' ? question.options : []),
+      is_required: question.is_required,
+    };
+
+    if (question.id !== undefined) {
+      await trx
+        .updateTable('posting_question')
+        .set(values)
+        .where('id', '=', question.id)
+        .where('posting_id', '=', postingId)
+        .executeTakeFirstOrThrow();
+    } else {
+      await trx
+        .insertInto('posting_question')
+        .values({ posting_id: postingId, ...values })
+        .execute();
+    }
+  }
+}
+
+const getAnswerSchema = (question: PostingQuestion) => {
+  switch (question.type) {
+    case 'short_text':
+      return zod.string().max(
+        MAX_SHORT_TEXT_ANSWER_LENGTH,
+        `Your answer to "${question.prompt}" must be at most ${MAX_SHORT_TEXT_ANSWER_LENGTH} characters`,
+      );
+    case 'multiple_choice':
+      return zod.enum(question.options as [string, ...string[]], `Pick one of the options for "${question.prompt}"`);
+    case 'yes_no':
+      return zod.enum(YES_NO_ANSWERS, `Answer "${question.prompt}" with yes or no`);
+  }
+};
+
+/**
+ * Builds the schema that checks a volunteer's answers against the questions of a posting.
+ * Blank answers count as skipped, which only optional questions allow.
+ * The parsed answers carry a copy of each question so they stay readable after the question changes.
+ */
+export const buildApplicationAnswersSchema = (questions: readonly PostingQuestion[]) => zod
+  .array(applicationAnswerInputSchema)
+  .default([])
+  .superRefine((answers, ctx) => {
+    const questionIds = new Set(questions.map(question => question.id));
+    const answeredIds = answers.map(answer => answer.question_id);
+
+    answers.forEach((answer, index) => {
+      if (!questionIds.has(answer.question_id)) {
+        ctx.addIssue({ code: 'custom', path: [index, 'question_id'], message: 'Answer does not match a question of this posting' });
+      } else if (answeredIds.indexOf(answer.question_id) !== index) {
+        ctx.addIssue({ code: 'custom', path: [index, 'question_id'], message: 'A question can only be answered once' });
+      }
+    });
+
+    questions.forEach((question) => {
+      const answer = answers.find(({ question_id }) => question_id === question.id)?.answer ?? '';
+
+      if (!answer) {
+        if (question.is_required) {
+          ctx.addIssue({ code: 'custom', path: [question.id], message: `Please answer "${question.prompt}"` });
+        }
+        return;
+      }
+
+      const result = getAnswerSchema(question).safeParse(answer);
+      if (!result.success) {
+        ctx.addIssue({ code: 'custom', path: [question.id], message: result.error.issues[0]!.message });
+      }
+    });
+  })
+  .transform(answers => questions.flatMap((question): ApplicationAnswer[] => {
+    const answer = answers.find(({ question_id }) => question_id === question.id)?.answer ?? '';
+    return answer
+      ? [{ question_id: question.id, prompt: question.prompt, type: question.type, answer }]
+      : [];
+  }));
@@ -0,0 +1,190 @@
+import { sql, type Kysely } from 'kysely';
+
+import { type Database, type NewPostingRole } from '../../db/tables/index.ts';
+import { type PostingRoleWithContext } from '../../types.ts';
+import { resolveSkills } from '../skills/index.ts';
+
+/**
+ * A posting with roles is capped by the sum of its role capacities.
+ * One role without a cap leaves the whole posting uncapped.
+ */
+export const getRolesTotalCapacity = (roles: readonly Pick<NewPostingRole, 'max_volunteers'>[]) => (
+  roles.every(role => role.max_volunteers != null)
+    ? roles.reduce((total, role) => total + role.max_volunteers!, 0)
+    : null
+);
+
+export const getDuplicateRoleName = (roles: readonly Pick<NewPostingRole, 'name'>[]) => {
+  const names = roles.map(role => role.name.trim().toLowerCase());
+  const duplicateIndex = names.findIndex((name, index) => names.indexOf(name) !== index);
+  return duplicateIndex === -1 ? undefined : roles[duplicateIndex]!.name.trim();
+};
+
+export async function getPostingRoles(
+  db: Kysely<Database>,
+  postingIds: readonly number[],
+): Promise<Map<number, PostingRoleWithContext[]>> {
+  const rolesByPostingId = new Map<number, PostingRoleWithContext[]>();
+
+  if (postingIds.length === 0) {
+    return rolesByPostingId;
+  }
+
+  const roles = await db
+    .selectFrom('posting_role')
+    .select(['id', 'posting_id', 'name', 'max_volunteers', 'minimum_age'])
+    .where('posting_id', 'in', postingIds)
+    .orderBy('id', 'asc')
+    .execute();
+
+  if (roles.length === 0) {
+    return rolesByPostingId;
+  }
+
+  const roleIds = roles.map(role => role.id);
+
+  const [skills, enrollmentCounts, enrollmentDateCounts, applicationDateCounts] = await Promise.all([
+    db
+      .selectFrom('posting_role_skill')
+      .select(['role_id', 'name'])
+      .where('role_id', 'in', roleIds)
+      .execute(),
+    db
+      .selectFrom('enrollment')
+      .select([
+        'role_id',
+        sql<number>`count(enrollment.id)`.as('count'),
+      ])
+      .where('role_id', 'in', roleIds)
+      .groupBy('role_id')
+      .execute(),
+    db
+      .selectFrom('enrollment_date')
+      .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
+      .select([
+        'enrollment.role_id',
+        sql<string>`to_char(enrollment_date.date, 'YYYY-MM-DD')`.as('date'),
+        sql<number>`count(enrollment_date.id)`.as('count'),
+      ])
+      .where('enrollment.role_id', 'in', roleIds)
+      .groupBy(['enrollment.role_id', 'enrollment_date.date'])
+      .execute(),
+    db
+      .selectFrom('enrollment_application_date')
+      .innerJoin('enrollment_application', 'enrollment_application.id', 'enrollment_application_date.application_id')
+      .select([
+        'enrollment_application.role_id',
+        sql<string>`to_char(enrollment_application_date.date, 'YYYY-MM-DD')`.as('date'),
+        sql<number>`count(enrollment_application_date.id)`.as('count'),
+      ])
+      .where('enrollment_application.role_id', 'in', roleIds)
+      .groupBy(['enrollment_application.role_id', 'enrollment_application_date.date'])
+      .execute(),
+  ]);
+
+  const dateCapacityByRoleId = new Map<number, Record<string, number>>();
+  [...enrollmentDateCounts, ...applicationDateCounts].forEach((row) => {
+    if (row.role_id == null) return;
+    if (!dateCapacityByRoleId.has(row.role_id)) {
+      dateCapacityByRoleId.set(row.role_id, {});
+    }
+    const dateCapacity = dateCapacityByRoleId.get(row.role_id)!;
+    dateCapacity[row.date] = (dateCapacity[row.date] ?? 0) + Number(row.count ?? 0);
+  });
+
+  roles.forEach(({ posting_id, ...role }) => {
+    if (!rolesByPostingId.has(posting_id)) {
+      rolesByPostingId.set(posting_id, []);
+    }
+
+    rolesByPostingId.get(posting_id)!.push({
+      ...role,
+      skills: skills.filter(skill => skill.role_id === role.id).map(skill => skill.name).sort(),
+      enrollment_count: Number(enrollmentCounts.find(row => row.role_id === role.id)?.count ?? 0),
+      date_capacity: dateCapacityByRoleId.get(role.id) ?? {},
+    });
+  });
+
+  return rolesByPostingId;
+}
+
+/**
+ * Returns the existing roles that the new role list drops
+ * while volunteers are still enrolled in or applying for them.
+ * Waitlist entries of a dropped role are removed along with it.
+ */
+export async function getOccupiedRemovedRoles(
+  db: Kysely<Database>,
+  postingId: number,
+  roles: readonly Pick<NewPostingRole, 'id'>[],
+) {
+  const keptRoleIds = roles.map(role => role.id).filter((id): id is number => id !== undefined);
+
+  let removedRoles = db
+    .selectFrom('posting_role')
+    .select(['posting_role.id', 'posting_role.name'])
+    .where('posting_role.posting_id', '=', postingId)
+    .where(({ exists, or, selectFrom }) => or([
+      exists(selectFrom('enrollment').select('enrollment.id').whereRef('enrollment.role_id', '=', 'posting_role.id')),
+      exists(selectFrom('enrollment_application').select('enrollment_application.id').whereRef('enrollment_application.role_id', '=', 'posting_role.id')),
+    ]));
+
+  if (keptRoleIds.length > 0) {
+    removedRoles = removedRoles.where('posting_role.id', 'not in', keptRoleIds);
+  }
+
+  return removedRoles.execute();
+}
+
+export async function replacePostingRoles(
+  trx: Kysely<Database>,
+  postingId: number,
+  roles: readonly NewPostingRole[],
+) {
+  const keptRoleIds = roles.map(role => role.id).filter((id): id is number => id !== undefined);
+
+  let staleRoles = trx
+    .deleteFrom('posting_role')
+    .where('posting_id', '=', postingId);
+
+  if (keptRoleIds.length > 0) {
+    staleRoles = staleRoles.where('id', 'not in', keptRoleIds);
+  }
+
+  await staleRoles.execute();
+
+  for (const role of roles) {
+    const values = {
+      name: role.name.trim(),
+      max_volunteers: role.max_volunteers ?? null,
+      minimum_age: role.minimum_age ?? null,
+    };
+
+    const savedRole = role.id !== undefined
+      ? await trx
+          .updateTable('posting_role')
+          .set(values)
+          .where('id', '=', role.id)
+          .where('posting_id', '=', postingId)
+          .returning('id')
+          .executeTakeFirstOrThrow()
+      : await trx
+          .insertInto('posting_role')
+          .values({ posting_id: postingId, ...values })
+          .returning('id')
+          .executeTakeFirstOrThrow();
+
+    await trx
+      .deleteFrom('posting_role_skill')
+      .where('role_id', '=', savedRole.id)
+      .execute();
+
+    const skills = await resolveSkills(trx, role.skills ?? []);
+    if (skills.length > 0) {
+      await trx
+        .insertInto('posting_role_skill')
+        .values(skills.map(skill => ({ role_id: savedRole.id, skill_id: skill.id, name: skill.name })))
+        .execute();
+    }
+  }
+}
@@ -0,0 +1,305 @@
+import { sql, type Kysely } from 'kysely';
+
+import { normalizeStoredDate, normalizeStoredTime } from './postingTime.ts';
+import {
+  type Database,
+  type NewPostingOccurrenceOverride,
+  type PostingOccurrenceOverrideEntry,
+} from '../../db/tables/index.ts';
+
+type DateLike = Date | string | null | undefined;
+
+export type PostingSchedule = {
+  start_date: DateLike;
+  end_date: DateLike;
+  start_time?: string | null | undefined;
+  end_time?: string | null | undefined;
+  recurrence_weekdays?: number[] | null | undefined;
+  recurrence_interval?: number | null | undefined;
+};
+
+type OccurrenceOverrideLike = Pick<NewPostingOccurrenceOverride, 'date' | 'is_skipped' | 'start_time' | 'end_time'>;
+
+export type PostingOccurrence = {
+  date: string;
+  start_time: string | undefined;
+  end_time: string | undefined;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDateToIso = (date: Date) =>
+  `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`;
+
+const parseIsoDate = (value: string | undefined) => {
+  const match = value ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  if (!match) return undefined;
+
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+};
+
+/**
+ * Hours worked on a single attended enrollment date.
+ * A recorded check-in and check-out wins over the scheduled times, which honour per-occurrence overrides.
+ * Must be used in a query that has both `enrollment_date` and `posting` in scope.
+ */
+export const enrollmentDateHoursExpression = sql<number>`GREATEST(
+  0,
+  EXTRACT(EPOCH FROM CASE
+    WHEN enrollment_date.checked_in_at IS NOT NULL AND enrollment_date.checked_out_at IS NOT NULL
+      THEN enrollment_date.checked_out_at - enrollment_date.checked_in_at
+    ELSE
+      (enrollment_date.date + COALESCE((
+        SELECT posting_occurrence_override.end_time
+        FROM posting_occurrence_override
+        WHERE posting_occurrence_override.posting_id = posting.id
+          AND posting_occurrence_override.date = enrollment_date.date
+      ), posting.end_time))
+      - (enrollment_date.date + COALESCE((
+        SELECT posting_occurrence_override.start_time
+        FROM posting_occurrence_override
+        WHERE posting_occurrence_override.posting_id = posting.id
+          AND posting_occurrence_override.date = enrollment_date.date
+      ), posting.start_time))
+  END) / 3600.0
+)`;
+
+/**
+ * Scheduled start of an enrollment date, honouring per-occurrence overrides.
+ * Must be used in a query that has both `enrollment_date` and `posting` in scope.
+ */
+export const enrollmentDateStartExpression = sql<Date>`enrollment_date.date + COALESCE((
+  SELECT posting_occurrence_override.start_time
+  FROM posting_occurrence_override
+  WHERE posting_occurrence_override.posting_id = posting.id
+    AND posting_occurrence_override.date = enrollment_date.date
+), posting.start_time)`;
+
+/**
+ * The occurrences of a posting as `date`, `start_time` and `end_time` rows, the SQL counterpart of `getPostingOccurrences`.
+ * Must be used in a query that has `posting` in scope.
+ */
+export const postingOccurrencesExpression = sql`(
+  SELECT
+    occurrence_day::date AS date,
+    COALESCE(posting_occurrence_override.start_time, posting.start_time) AS start_time,
+    COALESCE(posting_occurrence_override.end_time, posting.end_time) AS end_time
+  FROM generate_series(
+    posting.start_date::timestamp,
+    COALESCE(posting.end_date, posting.start_date)::timestamp,
+    interval '1 day'
+  ) AS occurrence_day
+  LEFT JOIN posting_occurrence_override
+    ON posting_occurrence_override.posting_id = posting.id
+   AND posting_occurrence_override.date = occurrence_day::date
+  WHERE posting_occurrence_override.is_skipped IS NOT TRUE
+    AND (
+      COALESCE(cardinality(posting.recurrence_weekdays), 0) = 0
+      OR (
+        EXTRACT(DOW FROM occurrence_day)::integer = ANY(posting.recurrence_weekdays)
+        AND (occurrence_day::date - (posting.start_date - EXTRACT(DOW FROM posting.start_date)::integer)) / 7
+          % GREATEST(COALESCE(posting.recurrence_interval, 1), 1) = 0
+      )
+    )
+)`;
+
+const isRecurringDate = (date: Date, firstWeekStart: Date, weekdays: readonly number[], interval: number) => {
+  if (!weekdays.includes(date.getUTCDay())) {
+    return false;
+  }
+
+  const weekIndex = Math.floor((date.getTime() - firstWeekStart.getTime()) / (7 * DAY_MS));
+  return weekIndex % interval === 0;
+};
+
+/**
+ * Expands a posting schedule into its individual occurrences.
+ * Without a weekly rule every day between start and end date is an occurrence.
+ */
+export const getPostingOccurrences = (
+  schedule: PostingSchedule,
+  overrides: readonly OccurrenceOverrideLike[] = [],
+): PostingOccurrence[] => {
+  const start = parseIsoDate(normalizeStoredDate(schedule.start_date));
+  const end = parseIsoDate(normalizeStoredDate(schedule.end_date ?? schedule.start_date));
+
+  if (!start || !end) {
+    return [];
+  }
+
+  const weekdays = schedule.recurrence_weekdays && schedule.recurrence_weekdays.length > 0
+    ? schedule.recurrence_weekdays
+    : undefined;
+  const interval = Math.max(1, schedule.recurrence_interval ?? 1);
+  const firstWeekStart = new Date(start.getTime() - start.getUTCDay() * DAY_MS);
+  const overridesByDate = new Map(overrides.map(override => [override.date, override]));
+  const defaultStartTime = normalizeStoredTime(schedule.start_time);
+  const defaultEndTime = normalizeStoredTime(schedule.end_time);
+
+  const occurrences: PostingOccurrence[] = [];
+  const current = new Date(start);
+
+  while (current.getTime() <= end.getTime()) {
+    const date = formatDateToIso(current);
+    const override = overridesByDate.get(date);
+
+    if ((!weekdays || isRecurringDate(current, firstWeekStart, weekdays, interval)) && !override?.is_skipped) {
+      occurrences.push({
+        date,
+        start_time: normalizeStoredTime(override?.start_time) ?? defaultStartTime,
+        end_time: normalizeStoredTime(override?.end_time) ?? defaultEndTime,
+      });
+    }
+
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return occurrences;
+};
+
+export const getPostingOccurrenceDates = (
+  schedule: PostingSchedule,
+  overrides: readonly OccurrenceOverrideLike[] = [],
+): string[] => getPostingOccurrences(schedule, overrides).map(occurrence => occurrence.date);
+
+/**
+ * Returns the override dates that don't fall on an occurrence of the schedule itself.
+ */
+export const getUnmatchedOverrideDates = (
+  schedule: PostingSchedule,
+  overrides: readonly Pick<OccurrenceOverrideLike, 'date'>[],
+): string[] => {
+  const scheduledDates = new Set(getPostingOccurrenceDates(schedule));
+  return overrides
+    .map(override => override.date)
+    .filter(date => !scheduledDates.has(date));
+};
+
+export async function getPostingOccurrenceOverrides(
+  db: Kysely<Database>,
+  postingIds: readonly number[],
+): Promise<Map<number, PostingOccurrenceOverrideEntry[]>> {
+  const overridesByPostingId = new Map<number, PostingOccurrenceOverrideEntry[]>();
+
+  if (postingIds.length === 0) {
+    return overridesByPostingId;
+  }
+
+  const rows = await db
+    .selectFrom('posting_occurrence_override')
+    .select([
+      'posting_id',
+      sql<string>`to_char(posting_occurrence_override.date, 'YYYY-MM-DD')`.as('date'),
+      'is_skipped',
+      'start_time',
+      'end_time',
+    ])
+    .where('posting_id', 'in', postingIds)
+    .orderBy('posting_occurrence_override.date', 'asc')
+    .execute();
+
+  rows.forEach(({ posting_id, ...override }) => {
+    if (!overridesByPostingId.has(posting_id)) {
+      overridesByPostingId.set(posting_id, []);
+    }
+    overridesByPostingId.get(posting_id)!.push(override);
+  });
+
+  return overridesByPostingId;
+}
+
+export async function replacePostingOccurrenceOverrides(
+  trx: Kysely<Database>,
+  postingId: number,
+  overrides: readonly NewPostingOccurrenceOverride[],
+) {
+  await trx
+    .deleteFrom('posting_occurrence_override')
+    .where('posting_id', '=', postingId)
+    .execute();
+
+  if (overrides.length === 0) {
+    return;
+  }
+
+  await trx
+    .insertInto('posting_occurrence_override')
+    .values(overrides.map(override => ({
+      posting_id: postingId,
+      date: new Date(`${override.date}T00:00:00.000Z`),
+      is_skipped: override.is_skipped,
+      start_time: override.is_skipped ? null : override.start_time ?? null,
+      end_time: override.is_skipped ? null : override.end_time ?? null,
+    })))
+    .execute();
+}
+
+/**
+ * Brings enrollment and application dates in line with a changed schedule.
+ * Dates that were already attended are kept so recorded hours never disappear.
+ */
+export async function syncEnrollmentDatesWithSchedule(
+  trx: Kysely<Database>,
+  postingId: number,
+  postingDates: readonly string[],
+  allowsPartialAttendance: boolean,
+) {
+  const postingDateValues = postingDates.map(date => new Date(`${date}T00:00:00.000Z`));
+
+  let staleEnrollmentDates = trx
+    .deleteFrom('enrollment_date')
+    .where('posting_id', '=', postingId)
+    .where('attended', '=', false);
+
+  let staleApplicationDates = trx
+    .deleteFrom('enrollment_application_date')
+    .where('application_id', 'in', trx
+      .selectFrom('enrollment_application')
+      .select('id')
+      .where('posting_id', '=', postingId));
+
+  if (postingDateValues.length > 0) {
+    staleEnrollmentDates = staleEnrollmentDates.where('date', 'not in', postingDateValues);
+    staleApplicationDates = staleApplicationDates.where('date', 'not in', postingDateValues);
+  }
+
+  await staleEnrollmentDates.execute();
+  await staleApplicationDates.execute();
+
+  if (allowsPartialAttendance || postingDateValues.length === 0) {
+    return;
+  }
+
+  const [enrollments, existingDates] = await Promise.all([
+    trx
+      .selectFrom('enrollment')
+      .select('id')
+      .where('posting_id', '=', postingId)
+      .execute(),
+    trx
+      .selectFrom('enrollment_date')
+      .select([
+        'enrollment_id',
+        sql<string>`to_char(enrollment_date.date, 'YYYY-MM-DD')`.as('date'),
+      ])
+      .where('posting_id', '=', postingId)
+      .execute(),
+  ]);
+
+  const existingDateKeys = new Set(existingDates.map(row => `${row.enrollment_id}:${row.date}`));
+  const missingRows = enrollments.flatMap(enrollment => postingDates
+    .filter(date => !existingDateKeys.has(`${enrollment.id}:${date}`))
+    .map(date => ({
+      enrollment_id: enrollment.id,
+      posting_id: postingId,
+      date: new Date(`${date}T00:00:00.000Z`),
+      attended: false,
+    })));
+
+  if (missingRows.length > 0) {
+    await trx
+      .insertInto('enrollment_date')
+      .values(missingRows)
+      .execute();
+  }
+}
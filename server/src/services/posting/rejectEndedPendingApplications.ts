@@ -3,7 +3,7 @@ import { type Kysely } from 'kysely';
 import { hasPostingEnded } from './postingTime.ts';
 import executeTransaction from '../../db/executeTransaction.ts';
 import { type Database } from '../../db/tables/index.ts';
-import { sendVolunteerApplicationRejectedEmail } from '../resend/emails.ts';
+import { createApplicationRejectedDelivery, deliverNotifications } from '../notifications/index.ts';
 
 export async function rejectEndedPendingApplicationsForPostings(
   db: Kysely<Database>,
@@ -64,7 +64,8 @@ export async function rejectEndedPendingApplicationsForPostings(
     .innerJoin('posting', 'posting.id', 'enrollment_application.posting_id')
     .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
     .select([
-      'enrollment_application.id as application_id',
+      'enrollment_application.posting_id',
+      'volunteer_account.id as volunteer_id',
       'volunteer_account.email as volunteer_email',
       'volunteer_account.first_name',
       'volunteer_account.last_name',
@@ -88,21 +89,14 @@ export async function rejectEndedPendingApplicationsForPostings(
       .execute();
   });
 
-  await Promise.allSettled(
-    emailContexts.map(emailContext =>
-      sendVolunteerApplicationRejectedEmail({
-        volunteerEmail: emailContext.volunteer_email,
-        volunteerName: `${emailContext.first_name} ${emailContext.last_name}`,
-        organizationName: emailContext.organization_name,
-        postingTitle: emailContext.posting_title,
-      }).catch((err) => {
-        console.error(
-          `Failed to send ended-posting rejection email for application ${emailContext.application_id}:`,
-          err,
-        );
-      }),
-    ),
-  );
+  await deliverNotifications(db, emailContexts.map(emailContext => createApplicationRejectedDelivery({
+    volunteerId: emailContext.volunteer_id,
+    postingId: emailContext.posting_id,
+    volunteerEmail: emailContext.volunteer_email,
+    volunteerName: `${emailContext.first_name} ${emailContext.last_name}`,
+    organizationName: emailContext.organization_name,
+    postingTitle: emailContext.posting_title,
+  })));
 
   return new Set<number>(endedReviewPostingIds);
 }
@@ -0,0 +1,449 @@
+import { sql, type Kysely } from 'kysely';
+
+import { getPostingOccurrenceDates, getPostingOccurrenceOverrides } from './postingSchedule.ts';
+import { hasPostingEnded } from './postingTime.ts';
+import executeTransaction from '../../db/executeTransaction.ts';
+import { type ApplicationAnswer, type Database } from '../../db/tables/index.ts';
+import { type PostingWaitlistStatus } from '../../types.ts';
+import { recomputePostingContextVectorOnly } from '../embeddings/updates.ts';
+import { deliverNotifications } from '../notifications/index.ts';
+import { sendVolunteerWaitlistPromotedEmail } from '../resend/emails.ts';
+
+type WaitlistPromotion = {
+  volunteer_id: number;
+  dates: string[];
+  is_enrolled: boolean;
+};
+
+const toUtcDateOnly = (isoDate: string) => new Date(`${isoDate}T00:00:00.000Z`);
+
+const waitlistEntryOrder = sql`(waitlist_entry.created_at, waitlist_entry.id)`;
+const ownEntryOrder = sql`(own_entry.created_at, own_entry.id)`;
+
+/**
+ * Seats taken per date, counting both enrollments and pending applications
+ * the same way the enroll endpoint does for partial-attendance postings.
+ * With a role only that role's seats are counted.
+ */
+export async function getTakenSeatsByDate(db: Kysely<Database>, postingId: number, roleId?: number) {
+  let enrollmentCountsQuery = db
+    .selectFrom('enrollment_date')
+    .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
+    .select([
+      sql<string>`to_char(enrollment_date.date, 'YYYY-MM-DD')`.as('date'),
+      sql<number>`count(*)`.as('count'),
+    ])
+    .where('enrollment_date.posting_id', '=', postingId)
+    .groupBy('enrollment_date.date');
+  let applicationCountsQuery = db
+    .selectFrom('enrollment_application_date')
+    .innerJoin('enrollment_application', 'enrollment_application.id', 'enrollment_application_date.application_id')
+    .select([
+      sql<string>`to_char(enrollment_application_date.date, 'YYYY-MM-DD')`.as('date'),
+      sql<number>`count(*)`.as('count'),
+    ])
+    .where('enrollment_application.posting_id', '=', postingId)
+    .groupBy('enrollment_application_date.date');
+
+  if (roleId !== undefined) {
+    enrollmentCountsQuery = enrollmentCountsQuery.where('enrollment.role_id', '=', roleId);
+    applicationCountsQuery = applicationCountsQuery.where('enrollment_application.role_id', '=', roleId);
+  }
+
+  const [enrollmentCounts, applicationCounts] = await Promise.all([
+    enrollmentCountsQuery.execute(),
+    applicationCountsQuery.execute(),
+  ]);
+
+  return [...enrollmentCounts, ...applicationCounts].reduce<Map<string, number>>((acc, row) => {
+    acc.set(row.date, (acc.get(row.date) ?? 0) + Number(row.count));
+    return acc;
+  }, new Map());
+}
+
+export async function getVolunteerWaitlistStatus(
+  db: Kysely<Database>,
+  postingId: number,
+  volunteerId: number,
+): Promise<PostingWaitlistStatus | null> {
+  const entry = await db
+    .selectFrom('waitlist_entry')
+    .select(['id', 'role_id', 'created_at'])
+    .where('posting_id', '=', postingId)
+    .where('volunteer_id', '=', volunteerId)
+    .executeTakeFirst();
+
+  if (!entry) {
+    return null;
+  }
+
+  // Each role keeps its own queue
+  const sameRole = sql<boolean>`waitlist_entry.role_id is not distinct from own_entry.role_id`;
+
+  const [positionRow, datePositions] = await Promise.all([
+    db
+      .selectFrom('waitlist_entry as own_entry')
+      .innerJoin('waitlist_entry', join => join
+        .onRef('waitlist_entry.posting_id', '=', 'own_entry.posting_id')
+        .on(sameRole)
+        .on(sql<boolean>`${waitlistEntryOrder} <= ${ownEntryOrder}`))
+      .select(sql<number>`count(*)`.as('position'))
+      .where('own_entry.id', '=', entry.id)
+      .executeTakeFirstOrThrow(),
+    db
+      .selectFrom('waitlist_entry_date as own_date')
+      .innerJoin('waitlist_entry as own_entry', 'own_entry.id', 'own_date.waitlist_entry_id')
+      .innerJoin('waitlist_entry_date', 'waitlist_entry_date.date', 'own_date.date')
+      .innerJoin('waitlist_entry', join => join
+        .onRef('waitlist_entry.id', '=', 'waitlist_entry_date.waitlist_entry_id')
+        .onRef('waitlist_entry.posting_id', '=', 'own_entry.posting_id')
+        .on(sameRole)
+        .on(sql<boolean>`${waitlistEntryOrder} <= ${ownEntryOrder}`))
+      .select([
+        sql<string>`to_char(own_date.date, 'YYYY-MM-DD')`.as('date'),
+        sql<number>`count(*)`.as('position'),
+      ])
+      .where('own_date.waitlist_entry_id', '=', entry.id)
+      .groupBy('own_date.date')
+      .orderBy('own_date.date', 'asc')
+      .execute(),
+  ]);
+
+  return {
+    role_id: entry.role_id,
+    position: datePositions.length > 0 ? null : Number(positionRow.position),
+    dates: datePositions.map(row => ({ date: row.date, position: Number(row.position) })),
+    created_at: entry.created_at,
+  };
+}
+
+/**
+ * Drops a volunteer's waitlist dates once they hold a seat for them.
+ * Without dates the whole entry is removed.
+ */
+export async function removeVolunteerFromWaitlist(
+  trx: Kysely<Database>,
+  postingId: number,
+  volunteerId: number,
+  dates?: readonly string[],
+) {
+  const entry = await trx
+    .selectFrom('waitlist_entry')
+    .select('id')
+    .where('posting_id', '=', postingId)
+    .where('volunteer_id', '=', volunteerId)
+    .executeTakeFirst();
+
+  if (!entry) {
+    return;
+  }
+
+  if (dates && dates.length > 0) {
+    await trx
+      .deleteFrom('waitlist_entry_date')
+      .where('waitlist_entry_id', '=', entry.id)
+      .where('date', 'in', dates.map(toUtcDateOnly))
+      .execute();
+
+    const remainingDate = await trx
+      .selectFrom('waitlist_entry_date')
+      .select('id')
+      .where('waitlist_entry_id', '=', entry.id)
+      .executeTakeFirst();
+
+    if (remainingDate) {
+      return;
+    }
+  }
+
+  await trx
+    .deleteFrom('waitlist_entry_date')
+    .where('waitlist_entry_id', '=', entry.id)
+    .execute();
+
+  await trx
+    .deleteFrom('waitlist_entry')
+    .where('id', '=', entry.id)
+    .execute();
+}
+
+async function getVolunteerIdsAwaitingGuardianConsent(trx: Kysely<Database>, postingId: number) {
+  const latestConsents = await trx
+    .selectFrom('guardian_consent')
+    .distinctOn('volunteer_id')
+    .select(['volunteer_id', 'status'])
+    .where('posting_id', '=', postingId)
+    .orderBy('volunteer_id')
+    .orderBy('created_at', 'desc')
+    .orderBy('id', 'desc')
+    .execute();
+
+  return new Set(latestConsents.filter(consent => consent.status === 'pending').map(consent => consent.volunteer_id));
+}
+
+async function grantSeat(
+  trx: Kysely<Database>,
+  posting: { id: number; automatic_acceptance: boolean },
+  entry: { volunteer_id: number; role_id: number | null; message: string | null; answers: ApplicationAnswer[] },
+  dates: readonly string[],
+) {
+  if (posting.automatic_acceptance) {
+    const existingEnrollment = await trx
+      .selectFrom('enrollment')
+      .select('id')
+      .where('posting_id', '=', posting.id)
+      .where('volunteer_id', '=', entry.volunteer_id)
+      .executeTakeFirst();
+
+    const enrollment = existingEnrollment ?? await trx
+      .insertInto('enrollment')
+      .values({
+        volunteer_id: entry.volunteer_id,
+        posting_id: posting.id,
+        role_id: entry.role_id,
+        message: entry.message,
+        attended: false,
+      })
+      .returning('id')
+      .executeTakeFirstOrThrow();
+
+    if (dates.length > 0) {
+      await trx
+        .insertInto('enrollment_date')
+        .values(dates.map(date => ({
+          enrollment_id: enrollment.id,
+          posting_id: posting.id,
+          date: toUtcDateOnly(date),
+          attended: false,
+        })))
+        .execute();
+    }
+
+    return;
+  }
+
+  const existingApplication = await trx
+    .selectFrom('enrollment_application')
+    .select('id')
+    .where('posting_id', '=', posting.id)
+    .where('volunteer_id', '=', entry.volunteer_id)
+    .executeTakeFirst();
+
+  const application = existingApplication ?? await trx
+    .insertInto('enrollment_application')
+    .values({
+      volunteer_id: entry.volunteer_id,
+      posting_id: posting.id,
+      role_id: entry.role_id,
+      message: entry.message,
+      answers: JSON.stringify(entry.answers),
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow();
+
+  if (dates.length > 0) {
+    await trx
+      .insertInto('enrollment_application_date')
+      .values(dates.map(date => ({
+        application_id: application.id,
+        date: toUtcDateOnly(date),
+      })))
+      .execute();
+  }
+}
+
+/**
+ * Hands freed seats to waitlisted volunteers in the order they joined.
+ * Partial-attendance postings queue per date, so a volunteer can be promoted
+ * for some of their dates while staying on the waitlist for the others.
+ * Volunteers waiting for a role only take seats freed in that role.
+ * Review postings turn the promotion into a pending application, and so do
+ * open postings for minors whose guardian has not answered yet.
+ */
+export async function promoteWaitlistedVolunteers(db: Kysely<Database>, postingId: number) {
+  const { posting, promotions } = await executeTransaction(db, async (trx) => {
+    const posting = await trx
+      .selectFrom('posting')
+      .select([
+        'id',
+        'max_volunteers',
+        'automatic_acceptance',
+        'allows_partial_attendance',
+        'requires_guardian_consent',
+        'is_closed',
+        'start_date',
+        'start_time',
+        'end_date',
+        'end_time',
+        'recurrence_weekdays',
+        'recurrence_interval',
+      ])
+      .where('id', '=', postingId)
+      .forUpdate()
+      .executeTakeFirst();
+
+    if (!posting || posting.is_closed || hasPostingEnded(posting)) {
+      return { posting, promotions: [] };
+    }
+
+    const entries = await trx
+      .selectFrom('waitlist_entry')
+      .select(['id', 'volunteer_id', 'role_id', 'message', 'answers'])
+      .where('posting_id', '=', postingId)
+      .orderBy('created_at', 'asc')
+      .orderBy('id', 'asc')
+      .execute();
+
+    if (entries.length === 0) {
+      return { posting, promotions: [] };
+    }
+
+    const overrides = await getPostingOccurrenceOverrides(trx, [postingId]);
+    const postingDates = getPostingOccurrenceDates(posting, overrides.get(postingId));
+    const roles = await trx
+      .selectFrom('posting_role')
+      .select(['id', 'max_volunteers'])
+      .where('posting_id', '=', postingId)
+      .execute();
+    const getMaxVolunteers = (roleId: number | null) => {
+      const maxVolunteers = roleId === null
+        ? posting.max_volunteers
+        : roles.find(role => role.id === roleId)?.max_volunteers;
+      return maxVolunteers ?? Infinity;
+    };
+    const promotions: WaitlistPromotion[] = [];
+    const awaitingConsentIds = posting.requires_guardian_consent
+      ? await getVolunteerIdsAwaitingGuardianConsent(trx, postingId)
+      : new Set<number>();
+    const getSeatPosting = (volunteerId: number) => ({
+      id: posting.id,
+      automatic_acceptance: posting.automatic_acceptance && !awaitingConsentIds.has(volunteerId),
+    });
+
+    if (posting.allows_partial_attendance) {
+      const entryDates = await trx
+        .selectFrom('waitlist_entry_date')
+        .select([
+          'waitlist_entry_id',
+          sql<string>`to_char(waitlist_entry_date.date, 'YYYY-MM-DD')`.as('date'),
+        ])
+        .where('waitlist_entry_id', 'in', entries.map(entry => entry.id))
+        .execute();
+      const takenSeatsByRoleId = new Map<number | null, Map<string, number>>();
+
+      for (const entry of entries) {
+        if (!takenSeatsByRoleId.has(entry.role_id)) {
+          takenSeatsByRoleId.set(entry.role_id, await getTakenSeatsByDate(trx, postingId, entry.role_id ?? undefined));
+        }
+        const takenSeats = takenSeatsByRoleId.get(entry.role_id)!;
+        const maxVolunteers = getMaxVolunteers(entry.role_id);
+        const requestedDates = entryDates
+          .filter(row => row.waitlist_entry_id === entry.id && postingDates.includes(row.date))
+          .map(row => row.date);
+        const freedDates = requestedDates.filter(date => (takenSeats.get(date) ?? 0) < maxVolunteers);
+
+        if (freedDates.length === 0) {
+          continue;
+        }
+
+        const seatPosting = getSeatPosting(entry.volunteer_id);
+        await grantSeat(trx, seatPosting, entry, freedDates);
+        await removeVolunteerFromWaitlist(trx, postingId, entry.volunteer_id, freedDates);
+        freedDates.forEach(date => takenSeats.set(date, (takenSeats.get(date) ?? 0) + 1));
+        promotions.push({ volunteer_id: entry.volunteer_id, dates: freedDates, is_enrolled: seatPosting.automatic_acceptance });
+      }
+
+      return { posting, promotions };
+    }
+
+    // Pending applications hold a seat too, so promotions on review postings never outnumber the freed seats
+    const [enrollmentCountRows, applicationCountRows] = await Promise.all([
+      trx
+        .selectFrom('enrollment')
+        .select(['role_id', sql<number>`count(enrollment.id)`.as('count')])
+        .where('posting_id', '=', postingId)
+        .groupBy('role_id')
+        .execute(),
+      trx
+        .selectFrom('enrollment_application')
+        .select(['role_id', sql<number>`count(enrollment_application.id)`.as('count')])
+        .where('posting_id', '=', postingId)
+        .groupBy('role_id')
+        .execute(),
+    ]);
+    const freeSeatsByRoleId = new Map<number | null, number>();
+
+    for (const entry of entries) {
+      if (!freeSeatsByRoleId.has(entry.role_id)) {
+        const takenSeats = [...enrollmentCountRows, ...applicationCountRows]
+          .filter(row => entry.role_id === null || row.role_id === entry.role_id)
+          .reduce((total, row) => total + Number(row.count ?? 0), 0);
+        freeSeatsByRoleId.set(entry.role_id, getMaxVolunteers(entry.role_id) - takenSeats);
+      }
+
+      const freeSeats = freeSeatsByRoleId.get(entry.role_id)!;
+      if (freeSeats <= 0) {
+        continue;
+      }
+
+      const seatPosting = getSeatPosting(entry.volunteer_id);
+      await grantSeat(trx, seatPosting, entry, seatPosting.automatic_acceptance ? postingDates : []);
+      await removeVolunteerFromWaitlist(trx, postingId, entry.volunteer_id);
+      freeSeatsByRoleId.set(entry.role_id, freeSeats - 1);
+      promotions.push({ volunteer_id: entry.volunteer_id, dates: [], is_enrolled: seatPosting.automatic_acceptance });
+    }
+
+    return { posting, promotions };
+  });
+
+  if (!posting || promotions.length === 0) {
+    return promotions;
+  }
+
+  if (posting.automatic_acceptance) {
+    await recomputePostingContextVectorOnly(postingId, db);
+  }
+
+  const [postingContext, volunteers] = await Promise.all([
+    db
+      .selectFrom('posting')
+      .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+      .select([
+        'organization_account.name as organization_name',
+        'posting.title as posting_title',
+      ])
+      .where('posting.id', '=', postingId)
+      .executeTakeFirstOrThrow(),
+    db
+      .selectFrom('volunteer_account')
+      .select(['id', 'email', 'first_name', 'last_name'])
+      .where('id', 'in', promotions.map(promotion => promotion.volunteer_id))
+      .where('is_deleted', '=', false)
+      .where('is_disabled', '=', false)
+      .execute(),
+  ]);
+
+  await deliverNotifications(db, volunteers.map((volunteer) => {
+    const promotion = promotions.find(candidate => candidate.volunteer_id === volunteer.id)!;
+
+    return {
+      recipient: { user_id: volunteer.id, role: 'volunteer' },
+      type: 'waitlist_promoted',
+      title: promotion.is_enrolled ? 'You got a spot' : 'Your application was submitted',
+      message: promotion.is_enrolled
+        ? `A spot opened up on "${postingContext.posting_title}" and you are now enrolled.`
+        : `A spot opened up on "${postingContext.posting_title}" and your application is now waiting for review.`,
+      link: `/posting/${postingId}`,
+      sendEmail: () => sendVolunteerWaitlistPromotedEmail({
+        volunteerEmail: volunteer.email,
+        volunteerName: `${volunteer.first_name} ${volunteer.last_name}`,
+        organizationName: postingContext.organization_name,
+        postingTitle: postingContext.posting_title,
+        isEnrolled: promotion.is_enrolled,
+        dates: promotion.dates,
+      }),
+    };
+  }));
+
+  return promotions;
+}
@@ -0,0 +1,189 @@
+import { sql, type Kysely } from 'kysely';
+
+import config from '../../config.ts';
+import executeTransaction from '../../db/executeTransaction.ts';
+import { type Database } from '../../db/tables/index.ts';
+import { deliverNotifications } from '../notifications/index.ts';
+import { enrollmentDateStartExpression } from '../posting/postingSchedule.ts';
+import { sendOrganizationRosterEmail, sendShiftReminderEmail } from '../resend/emails.ts';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const formatDateToIso = (date: Date) =>
+  `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`;
+
+/**
+ * Each reminder covers the hours between its own offset and the next smaller
+ * one, so a volunteer who enrolls late gets only the nearest reminder instead
+ * of every reminder that is already due.
+ */
+export const getShiftReminderWindows = (offsetHours: readonly number[] = config.SHIFT_REMINDER_HOURS) => {
+  const sorted = [...new Set(offsetHours)].sort((left, right) => right - left);
+  return sorted.map((hours, index) => ({ offsetHours: hours, untilHours: sorted[index + 1] ?? 0 }));
+};
+
+/**
+ * Sends the volunteer reminders that are due. A reminder row is claimed in the
+ * same transaction that queues the email, so each one goes out exactly once.
+ * Returns how many reminders were sent.
+ */
+export async function sendDueShiftReminders(db: Kysely<Database>, now: Date = new Date()) {
+  let sent = 0;
+
+  for (const window of getShiftReminderWindows()) {
+    const dueDates = await db
+      .selectFrom('enrollment_date')
+      .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
+      .innerJoin('posting', 'posting.id', 'enrollment_date.posting_id')
+      .innerJoin('volunteer_account', 'volunteer_account.id', 'enrollment.volunteer_id')
+      .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+      .select([
+        'enrollment_date.id as enrollment_date_id',
+        'posting.id as posting_id',
+        'posting.title as posting_title',
+        'posting.location_name',
+        'volunteer_account.id as volunteer_id',
+        'volunteer_account.email as volunteer_email',
+        'volunteer_account.first_name',
+        'volunteer_account.last_name',
+        'organization_account.name as organization_name',
+        enrollmentDateStartExpression.as('starts_at'),
+      ])
+      .where(enrollmentDateStartExpression, '>', new Date(now.getTime() + window.untilHours * HOUR_MS))
+      .where(enrollmentDateStartExpression, '<=', new Date(now.getTime() + window.offsetHours * HOUR_MS))
+      .where('volunteer_account.is_deleted', '=', false)
+      .where('volunteer_account.is_disabled', '=', false)
+      .where(eb => eb.not(eb.exists(eb
+        .selectFrom('enrollment_date_reminder')
+        .select('enrollment_date_reminder.id')
+        .whereRef('enrollment_date_reminder.enrollment_date_id', '=', 'enrollment_date.id')
+        .where('enrollment_date_reminder.offset_hours', '=', window.offsetHours))))
+      .execute();
+
+    for (const dueDate of dueDates) {
+      const claimed = await executeTransaction(db, async (trx) => {
+        const reminder = await trx
+          .insertInto('enrollment_date_reminder')
+          .values({ enrollment_date_id: dueDate.enrollment_date_id, offset_hours: window.offsetHours })
+          .onConflict(oc => oc.columns(['enrollment_date_id', 'offset_hours']).doNothing())
+          .returning('id')
+          .executeTakeFirst();
+
+        if (!reminder) return false;
+
+        await deliverNotifications(trx, [{
+          recipient: { user_id: dueDate.volunteer_id, role: 'volunteer' },
+          type: 'shift_reminder',
+          title: 'Upcoming shift',
+          message: `Your shift for "${dueDate.posting_title}" at ${dueDate.location_name} starts in ${window.offsetHours} hours or less.`,
+          link: `/posting/${dueDate.posting_id}`,
+          sendEmail: () => sendShiftReminderEmail({
+            volunteerEmail: dueDate.volunteer_email,
+            volunteerName: `${dueDate.first_name} ${dueDate.last_name}`,
+            organizationName: dueDate.organization_name,
+            postingId: dueDate.posting_id,
+            postingTitle: dueDate.posting_title,
+            locationName: dueDate.location_name,
+            startsAt: new Date(dueDate.starts_at),
+          }, trx),
+        }]);
+
+        return true;
+      });
+
+      if (claimed) sent += 1;
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Sends each organization the list of volunteers enrolled for tomorrow,
+ * once per posting and date. Returns how many roster emails were sent.
+ */
+export async function sendDueRosterReminders(db: Kysely<Database>, now: Date = new Date()) {
+  const tomorrow = formatDateToIso(new Date(now.getTime() + DAY_MS));
+
+  const rosterRows = await db
+    .selectFrom('enrollment_date')
+    .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
+    .innerJoin('posting', 'posting.id', 'enrollment_date.posting_id')
+    .innerJoin('volunteer_account', 'volunteer_account.id', 'enrollment.volunteer_id')
+    .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+    .select([
+      'posting.id as posting_id',
+      'posting.title as posting_title',
+      'posting.location_name',
+      'organization_account.id as organization_id',
+      'organization_account.email as organization_email',
+      'organization_account.name as organization_name',
+      'volunteer_account.email as volunteer_email',
+      'volunteer_account.first_name',
+      'volunteer_account.last_name',
+      enrollmentDateStartExpression.as('starts_at'),
+    ])
+    .where('enrollment_date.date', '=', new Date(`${tomorrow}T00:00:00.000Z`))
+    .where('volunteer_account.is_deleted', '=', false)
+    .where('volunteer_account.is_disabled', '=', false)
+    .where('organization_account.is_deleted', '=', false)
+    .where('organization_account.is_disabled', '=', false)
+    .where(eb => eb.not(eb.exists(eb
+      .selectFrom('posting_roster_reminder')
+      .select('posting_roster_reminder.id')
+      .whereRef('posting_roster_reminder.posting_id', '=', 'posting.id')
+      .where('posting_roster_reminder.date', '=', sql<Date>`${tomorrow}::date`))))
+    .orderBy('posting.id', 'asc')
+    .orderBy('volunteer_account.last_name', 'asc')
+    .orderBy('volunteer_account.first_name', 'asc')
+    .execute();
+
+  const rostersByPostingId = new Map<number, typeof rosterRows>();
+  rosterRows.forEach((row) => {
+    if (!rostersByPostingId.has(row.posting_id)) {
+      rostersByPostingId.set(row.posting_id, []);
+    }
+    rostersByPostingId.get(row.posting_id)!.push(row);
+  });
+
+  let sent = 0;
+
+  for (const [postingId, rows] of rostersByPostingId) {
+    const posting = rows[0]!;
+
+    const claimed = await executeTransaction(db, async (trx) => {
+      const reminder = await trx
+        .insertInto('posting_roster_reminder')
+        .values({ posting_id: postingId, date: new Date(`${tomorrow}T00:00:00.000Z`) })
+        .onConflict(oc => oc.columns(['posting_id', 'date']).doNothing())
+        .returning('id')
+        .executeTakeFirst();
+
+      if (!reminder) return false;
+
+      await deliverNotifications(trx, [{
+        recipient: { user_id: posting.organization_id, role: 'organization' },
+        type: 'shift_roster',
+        title: 'Tomorrow\'s roster',
+        message: `${rows.length} volunteer${rows.length === 1 ? ' is' : 's are'} signed up for "${posting.posting_title}" tomorrow.`,
+        link: `/organization/posting/${postingId}/attendance`,
+        sendEmail: () => sendOrganizationRosterEmail({
+          organizationEmail: posting.organization_email,
+          organizationName: posting.organization_name,
+          postingId,
+          postingTitle: posting.posting_title,
+          locationName: posting.location_name,
+          startsAt: new Date(posting.starts_at),
+          volunteers: rows.map(row => ({ name: `${row.first_name} ${row.last_name}`, email: row.volunteer_email })),
+        }, trx),
+      }]);
+
+      return true;
+    });
+
+    if (claimed) sent += 1;
+  }
+
+  return sent;
+}
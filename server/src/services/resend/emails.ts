@@ -1,7 +1,9 @@
+import { type Kysely } from 'kysely';
+
 import { sendEmail } from './mailer.ts';
 import { buildEmailBody } from './template.ts';
 import config from '../../config.ts';
-import { type OrganizationRequest } from '../../db/tables/index.ts';
+import { type Database, type OrganizationRequest } from '../../db/tables/index.ts';
 
 export async function sendOrganizationAcceptanceEmail(
   organizationRequest: OrganizationRequest,
@@ -113,6 +115,18 @@ function formatEmailDate(dateString: string): string {
   }).format(date);
 }
 
+// Shift times are stored without a zone and read back as UTC, so format them in UTC to show the wall time
+function formatEmailDateTime(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'UTC',
+  }).format(date);
+}
+
 export async function sendVolunteerApplicationAcceptedEmail(opts: {
   volunteerEmail: string;
   volunteerName: string;
@@ -168,6 +182,42 @@ export async function sendVolunteerApplicationRejectedEmail(opts: {
   await sendEmail({ to: [opts.volunteerEmail], subject, text, html });
 }
 
+export async function sendVolunteerWaitlistPromotedEmail(opts: {
+  volunteerEmail: string;
+  volunteerName: string;
+  organizationName: string;
+  postingTitle: string;
+  isEnrolled: boolean;
+  dates?: string[];
+}) {
+  const subject = opts.isEnrolled
+    ? 'A spot opened up - you\'re now enrolled'
+    : 'A spot opened up - your application was submitted';
+
+  const rows = [
+    { label: 'Organization', value: opts.organizationName },
+    { label: 'Posting', value: opts.postingTitle },
+  ];
+
+  if (opts.dates && opts.dates.length > 0) {
+    rows.push({ label: 'Dates', value: opts.dates.map(date => formatEmailDate(date)).join(', ') });
+  }
+
+  const { html, text } = buildEmailBody({
+    title: 'You\'re Off the Waitlist!',
+    intro: `Hello ${opts.volunteerName}, a spot opened up on a posting you were waitlisted for.`,
+    rows,
+    paragraphs: [
+      opts.isEnrolled
+        ? 'You have been enrolled automatically. If you can no longer make it, please withdraw so the next volunteer can take your place.'
+        : 'Your application has been submitted and is now waiting for the organization to review it.',
+    ],
+    tone: 'success',
+  });
+
+  await sendEmail({ to: [opts.volunteerEmail], subject, text, html });
+}
+
 export async function sendVolunteerVerificationEmail(opts: {
   volunteerEmail: string;
   volunteerName: string;
@@ -210,3 +260,232 @@ export async function sendPostingDeletedEmail(opts: {
 
   await sendEmail({ to: [opts.volunteerEmail], subject, text, html });
 }
+
+export async function sendOrganizationMemberInviteEmail(opts: {
+  memberEmail: string;
+  organizationName: string;
+  role: string;
+  inviteToken: string;
+}) {
+  const subject = `You have been invited to join ${opts.organizationName} on Willing`;
+  const inviteUrl = `${config.CLIENT_URL}/organization/invite?key=${encodeURIComponent(opts.inviteToken)}`;
+
+  const { html, text } = buildEmailBody({
+    title: 'Join Your Team on Willing',
+    intro: `${opts.organizationName} invited you to help manage their organization on Willing.`,
+    rows: [
+      { label: 'Organization', value: opts.organizationName },
+      { label: 'Role', value: opts.role },
+    ],
+    paragraphs: ['Use the button below to set up your name and password. You will then sign in with this email address.'],
+    ctaLabel: 'Accept Invitation',
+    ctaUrl: inviteUrl,
+    note: 'This invitation expires in 7 days. If you were not expecting it, you can safely ignore this email.',
+    tone: 'primary',
+  });
+
+  await sendEmail({ to: [opts.memberEmail], subject, text, html });
+}
+
+export async function sendShiftReminderEmail(opts: {
+  volunteerEmail: string;
+  volunteerName: string;
+  organizationName: string;
+  postingId: number;
+  postingTitle: string;
+  locationName: string;
+  startsAt: Date;
+}, db?: Kysely<Database>) {
+  const subject = `Reminder: ${opts.postingTitle} on ${formatEmailDateTime(opts.startsAt)}`;
+
+  const { html, text } = buildEmailBody({
+    title: 'Your Shift Is Coming Up',
+    intro: `Hello ${opts.volunteerName}, this is a reminder about your upcoming shift.`,
+    rows: [
+      { label: 'Organization', value: opts.organizationName },
+      { label: 'Posting', value: opts.postingTitle },
+      { label: 'Location', value: opts.locationName },
+      { label: 'Time', value: formatEmailDateTime(opts.startsAt) },
+    ],
+    paragraphs: ['If you can no longer make it, please withdraw so another volunteer can take your place.'],
+    ctaLabel: 'View or Withdraw',
+    ctaUrl: `${config.CLIENT_URL}/posting/${opts.postingId}`,
+    note: 'You can turn off shift reminders in your notification settings.',
+    tone: 'primary',
+  });
+
+  await sendEmail({ to: [opts.volunteerEmail], subject, text, html }, db);
+}
+
+export async function sendOrganizationRosterEmail(opts: {
+  organizationEmail: string;
+  organizationName: string;
+  postingId: number;
+  postingTitle: string;
+  locationName: string;
+  startsAt: Date;
+  volunteers: { name: string; email: string }[];
+}, db?: Kysely<Database>) {
+  const subject = `Tomorrow's roster for ${opts.postingTitle}`;
+
+  const { html, text } = buildEmailBody({
+    title: 'Tomorrow\'s Roster',
+    intro: `Hello ${opts.organizationName}, here is who is signed up for tomorrow.`,
+    rows: [
+      { label: 'Posting', value: opts.postingTitle },
+      { label: 'Location', value: opts.locationName },
+      { label: 'Time', value: formatEmailDateTime(opts.startsAt) },
+      ...opts.volunteers.map((volunteer, index) => ({
+        label: `Volunteer ${index + 1}`,
+        value: `${volunteer.name} (${volunteer.email})`,
+      })),
+    ],
+    ctaLabel: 'Open Attendance',
+    ctaUrl: `${config.CLIENT_URL}/organization/posting/${opts.postingId}/attendance`,
+    note: 'You can turn off roster emails in your notification settings.',
+    tone: 'accent',
+  });
+
+  await sendEmail({ to: [opts.organizationEmail], subject, text, html }, db);
+}
+
+export async function sendSavedSearchAlertEmail(opts: {
+  volunteerEmail: string;
+  volunteerName: string;
+  savedSearchId: number;
+  savedSearchName: string;
+  postings: { id: number; title: string; organizationName: string; locationName: string }[];
+  digest: boolean;
+}, db?: Kysely<Database>) {
+  const [firstPosting] = opts.postings;
+  const subject = opts.postings.length === 1 && firstPosting
+    ? `New posting for "${opts.savedSearchName}": ${firstPosting.title}`
+    : `${opts.postings.length} new postings for "${opts.savedSearchName}"`;
+
+  const { html, text } = buildEmailBody({
+    title: opts.digest ? 'Your Daily Saved Search Digest' : 'New Posting Matches Your Search',
+    intro: `Hello ${opts.volunteerName}, ${opts.postings.length === 1 ? 'a new posting matches' : 'new postings match'} your saved search "${opts.savedSearchName}".`,
+    rows: opts.postings.map(posting => ({
+      label: posting.organizationName,
+      value: `${posting.title} (${posting.locationName})`,
+    })),
+    ctaLabel: opts.postings.length === 1 && firstPosting ? 'View Posting' : 'View Matches',
+    ctaUrl: opts.postings.length === 1 && firstPosting
+      ? `${config.CLIENT_URL}/posting/${firstPosting.id}`
+      : `${config.CLIENT_URL}/volunteer/search?saved_search=${opts.savedSearchId}`,
+    note: 'You can change how often you hear about this search in your settings.',
+    tone: 'primary',
+  });
+
+  await sendEmail({ to: [opts.volunteerEmail], subject, text, html }, db);
+}
+
+export async function sendFollowedOrganizationPostingEmail(opts: {
+  volunteerEmail: string;
+  volunteerName: string;
+  organizationName: string;
+  postingId: number;
+  postingTitle: string;
+  locationName: string;
+}, db?: Kysely<Database>) {
+  const subject = `${opts.organizationName} posted: ${opts.postingTitle}`;
+
+  const { html, text } = buildEmailBody({
+    title: 'New Posting From an Organization You Follow',
+    intro: `Hello ${opts.volunteerName}, ${opts.organizationName} just published a new posting.`,
+    rows: [
+      { label: 'Posting', value: opts.postingTitle },
+      { label: 'Location', value: opts.locationName },
+    ],
+    ctaLabel: 'View Posting',
+    ctaUrl: `${config.CLIENT_URL}/posting/${opts.postingId}`,
+    note: 'You can unfollow the organization from its profile page.',
+    tone: 'primary',
+  });
+
+  await sendEmail({ to: [opts.volunteerEmail], subject, text, html }, db);
+}
+
+export async function sendGuardianConsentRequestEmail(opts: {
+  guardianEmail: string;
+  volunteerName: string;
+  organizationName: string;
+  postingTitle: string;
+  locationName: string;
+  startDate: string;
+  consentToken: string;
+  expiresAt: Date;
+}) {
+  const subject = `${opts.volunteerName} needs your consent to volunteer with ${opts.organizationName}`;
+  const consentUrl = `${config.CLIENT_URL}/guardian-consent?token=${encodeURIComponent(opts.consentToken)}`;
+
+  const { html, text } = buildEmailBody({
+    title: 'Guardian Consent Requested',
+    intro: `${opts.volunteerName} listed you as their parent or guardian and would like to volunteer on Willing.`,
+    rows: [
+      { label: 'Organization', value: opts.organizationName },
+      { label: 'Posting', value: opts.postingTitle },
+      { label: 'Location', value: opts.locationName },
+      { label: 'Starts', value: formatEmailDate(opts.startDate) },
+    ],
+    paragraphs: ['Because they are under 18, the organization needs your consent before they can take part. Use the button below to review the posting and approve or decline.'],
+    ctaLabel: 'Review Request',
+    ctaUrl: consentUrl,
+    note: `This link expires on ${formatEmailDate(opts.expiresAt.toISOString())}. If you do not know this volunteer, you can safely ignore this email.`,
+    tone: 'primary',
+  });
+
+  await sendEmail({ to: [opts.guardianEmail], subject, text, html });
+}
+
+export async function sendVolunteerGuardianConsentResponseEmail(opts: {
+  volunteerEmail: string;
+  volunteerName: string;
+  organizationName: string;
+  postingTitle: string;
+  approved: boolean;
+  outcome: string;
+}) {
+  const subject = opts.approved
+    ? 'Your guardian approved your volunteering request'
+    : 'Your guardian declined your volunteering request';
+
+  const { html, text } = buildEmailBody({
+    title: opts.approved ? 'Guardian Consent Approved' : 'Guardian Consent Declined',
+    intro: `Hello ${opts.volunteerName}, your guardian responded to your request.`,
+    rows: [
+      { label: 'Organization', value: opts.organizationName },
+      { label: 'Posting', value: opts.postingTitle },
+    ],
+    paragraphs: [opts.outcome],
+    tone: opts.approved ? 'success' : 'error',
+  });
+
+  await sendEmail({ to: [opts.volunteerEmail], subject, text, html });
+}
+
+export async function sendNewMessageEmail(opts: {
+  recipientEmail: string;
+  recipientName: string;
+  senderName: string;
+  postingTitle: string;
+  preview: string;
+  link: string;
+}, db?: Kysely<Database>) {
+  const subject = `New message from ${opts.senderName}`;
+
+  const { html, text } = buildEmailBody({
+    title: 'New Message',
+    intro: `Hello ${opts.recipientName}, ${opts.senderName} sent you a message.`,
+    rows: [
+      { label: 'Posting', value: opts.postingTitle },
+      { label: 'Message', value: opts.preview },
+    ],
+    ctaLabel: 'Open Conversation',
+    ctaUrl: `${config.CLIENT_URL}${opts.link}`,
+    note: 'Reply on Willing so the whole conversation stays in one place.',
+    tone: 'primary',
+  });
+
+  await sendEmail({ to: [opts.recipientEmail], subject, text, html }, db);
+}
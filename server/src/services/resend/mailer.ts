@@ -1,6 +1,17 @@
+import { type Kysely } from 'kysely';
 import { Resend } from 'resend';
 
 import config from '../../config.ts';
+import database from '../../db/index.ts';
+import { type Database } from '../../db/tables/index.ts';
+import { enqueueJob } from '../jobs/queue.ts';
+
+export type EmailMessage = {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+};
 
 let resend: Resend;
 if (config.NODE_ENV === 'production') {
@@ -14,12 +25,10 @@ function indentLines(content: string): string {
     .join('\n');
 }
 
-export async function sendEmail(opts: {
-  to: string[];
-  subject: string;
-  text: string;
-  html?: string;
-}) {
+/**
+ * Sends the email right away. Errors are thrown so the job running this can retry it.
+ */
+export async function deliverEmail(opts: EmailMessage) {
   if (config.NODE_ENV === 'production') {
     const { error } = await resend.emails.send({
       from: 'Willing <' + config.WILLING_SENDER_EMAIL + '>',
@@ -28,8 +37,7 @@ export async function sendEmail(opts: {
       html: opts.html || opts.text,
     });
     if (error) {
-      console.error('Couldn\'t send mail:', error);
-      // throw new Error('Something went wrong when sending email.');
+      throw new Error(`Couldn't send mail: ${error.message}`);
     }
   } else {
     const timestamp = new Date().toISOString();
@@ -51,3 +59,17 @@ export async function sendEmail(opts: {
     console.log(output);
   }
 }
+
+/**
+ * Queues the email so a failed delivery is retried instead of lost. Pass a
+ * transaction to only queue it when that transaction commits. Tests deliver
+ * inline since no worker runs there.
+ */
+export async function sendEmail(opts: EmailMessage, db: Kysely<Database> = database) {
+  if (config.NODE_ENV === 'test') {
+    await deliverEmail(opts);
+    return;
+  }
+
+  await enqueueJob(db, 'email.send', opts);
+}
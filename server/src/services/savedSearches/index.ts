@@ -0,0 +1,310 @@
+import { sql, type Kysely } from 'kysely';
+
+import config from '../../config.ts';
+import executeTransaction from '../../db/executeTransaction.ts';
+import { type Database, type SavedSearchFilters } from '../../db/tables/index.ts';
+import { deliverNotifications, type NotificationDelivery } from '../notifications/index.ts';
+import {
+  applyPostingDateTimeFilters,
+  applyPostingDistanceFilter,
+  applyPostingFilter,
+  toPostingDateTimeFilters,
+} from '../posting/postingFilters.ts';
+import { sendSavedSearchAlertEmail } from '../resend/emails.ts';
+import { buildTextSearchQuery, matchesTextSearch } from '../textSearch/index.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_SAVED_SEARCHES_PER_VOLUNTEER = 20;
+
+// Saved searches are matched against a new posting this many at a time, in one query per batch
+const SAVED_SEARCH_MATCH_BATCH_SIZE = 100;
+
+type MatchedPosting = {
+  id: number;
+  title: string;
+  location_name: string;
+  organization_name: string;
+};
+
+const toEmailPosting = (posting: MatchedPosting) => ({
+  id: posting.id,
+  title: posting.title,
+  organizationName: posting.organization_name,
+  locationName: posting.location_name,
+});
+
+/**
+ * Selects the posting when it passes the filters of a saved search the same
+ * way `GET /volunteer/posting` would. Hiding full postings is skipped since
+ * alerts go out for postings nobody has enrolled in yet.
+ */
+const selectPostingMatchingSavedSearch = (db: Kysely<Database>, postingId: number, filters: SavedSearchFilters) => {
+  const textSearchQuery = buildTextSearchQuery(filters.search);
+
+  let query = db
+    .selectFrom('posting')
+    .where('posting.id', '=', postingId);
+
+  if (textSearchQuery) {
+    query = query.where(matchesTextSearch('posting.search_vector', textSearchQuery));
+  }
+
+  if (filters.skill_id != null) {
+    query = query.where(({ exists, selectFrom }) => exists(
+      selectFrom('posting_skill')
+        .select('posting_skill.id')
+        .whereRef('posting_skill.posting_id', '=', 'posting.id')
+        .where('posting_skill.skill_id', '=', filters.skill_id),
+    ));
+  }
+
+  if (filters.crisis_id !== null) {
+    query = query.where('posting.crisis_id', '=', filters.crisis_id);
+  }
+
+  query = applyPostingFilter(query, filters.posting_filter);
+  query = applyPostingDateTimeFilters(query, toPostingDateTimeFilters(filters));
+
+  if (filters.near?.radius_km) {
+    query = applyPostingDistanceFilter(query, {
+      latitude: filters.near.latitude,
+      longitude: filters.near.longitude,
+      radiusKm: filters.near.radius_km,
+    });
+  }
+
+  return query;
+};
+
+/**
+ * Returns the IDs of the saved searches the posting matches, checking the whole batch in one UNION ALL query.
+ */
+async function findMatchingSavedSearchIds(
+  db: Kysely<Database>,
+  postingId: number,
+  savedSearches: readonly { id: number; filters: SavedSearchFilters }[],
+) {
+  const [firstQuery, ...otherQueries] = savedSearches.map(savedSearch => selectPostingMatchingSavedSearch(db, postingId, savedSearch.filters)
+    .select(sql<number>`${savedSearch.id}::integer`.as('saved_search_id')));
+
+  if (!firstQuery) return new Set<number>();
+
+  const rows = await otherQueries
+    .reduce((unionQuery, query) => unionQuery.unionAll(query), firstQuery)
+    .execute();
+
+  return new Set(rows.map(row => row.saved_search_id));
+}
+
+/**
+ * Records which saved searches a newly published posting matches and alerts
+ * volunteers who asked to hear about matches right away. Matches for daily
+ * searches wait for the next digest. A match is recorded once, so running
+ * this again for the same posting sends nothing new.
+ * Returns how many new matches were recorded.
+ */
+export async function matchSavedSearchesForPosting(db: Kysely<Database>, postingId: number) {
+  const posting = await db
+    .selectFrom('posting')
+    .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+    .select([
+      'posting.id',
+      'posting.title',
+      'posting.location_name',
+      'organization_account.name as organization_name',
+    ])
+    .where('posting.id', '=', postingId)
+    .where('posting.is_closed', '=', false)
+    .where('organization_account.is_deleted', '=', false)
+    .where('organization_account.is_disabled', '=', false)
+    .executeTakeFirst();
+
+  if (!posting) return 0;
+
+  const selectSavedSearchBatch = (afterId: number) => db
+    .selectFrom('saved_search')
+    .innerJoin('volunteer_account', 'volunteer_account.id', 'saved_search.volunteer_id')
+    .select([
+      'saved_search.id',
+      'saved_search.name',
+      'saved_search.filters',
+      'saved_search.alert_frequency',
+      'volunteer_account.id as volunteer_id',
+      'volunteer_account.email as volunteer_email',
+      'volunteer_account.first_name',
+      'volunteer_account.last_name',
+    ])
+    .where('saved_search.id', '>', afterId)
+    .where('saved_search.alert_frequency', '!=', 'off')
+    .where('volunteer_account.is_deleted', '=', false)
+    .where('volunteer_account.is_disabled', '=', false)
+    .orderBy('saved_search.id', 'asc')
+    .limit(SAVED_SEARCH_MATCH_BATCH_SIZE)
+    .execute();
+
+  const matchingSearches: Awaited<ReturnType<typeof selectSavedSearchBatch>> = [];
+  let savedSearches = await selectSavedSearchBatch(0);
+
+  while (savedSearches.length > 0) {
+    const matchingIds = await findMatchingSavedSearchIds(db, postingId, savedSearches);
+    matchingSearches.push(...savedSearches.filter(savedSearch => matchingIds.has(savedSearch.id)));
+
+    savedSearches = savedSearches.length < SAVED_SEARCH_MATCH_BATCH_SIZE
+      ? []
+      : await selectSavedSearchBatch(savedSearches.at(-1)!.id);
+  }
+
+  if (matchingSearches.length === 0) return 0;
+
+  return executeTransaction(db, async (trx) => {
+    const inserted = await trx
+      .insertInto('saved_search_match')
+      .values(matchingSearches.map(savedSearch => ({ saved_search_id: savedSearch.id, posting_id: postingId })))
+      .onConflict(oc => oc.columns(['saved_search_id', 'posting_id']).doNothing())
+      .returning('saved_search_id')
+      .execute();
+
+    const insertedIds = new Set(inserted.map(row => row.saved_search_id));
+    const immediateSearches = matchingSearches.filter(savedSearch =>
+      insertedIds.has(savedSearch.id) && savedSearch.alert_frequency === 'immediate');
+
+    if (immediateSearches.length > 0) {
+      await trx
+        .updateTable('saved_search_match')
+        .set({ notified_at: new Date() })
+        .where('posting_id', '=', postingId)
+        .where('saved_search_id', 'in', immediateSearches.map(savedSearch => savedSearch.id))
+        .execute();
+    }
+
+    // A volunteer whose searches overlap hears about the posting once
+    const searchesByVolunteer = new Map<number, typeof immediateSearches>();
+    immediateSearches.forEach((savedSearch) => {
+      searchesByVolunteer.set(savedSearch.volunteer_id, [...searchesByVolunteer.get(savedSearch.volunteer_id) ?? [], savedSearch]);
+    });
+
+    await deliverNotifications(trx, Array.from(searchesByVolunteer.values(), (searches): NotificationDelivery => {
+      const savedSearch = searches[0]!;
+      const searchNames = searches.map(search => `"${search.name}"`).join(', ');
+
+      return {
+        recipient: { user_id: savedSearch.volunteer_id, role: 'volunteer' },
+        type: 'saved_search_match',
+        title: 'New posting matches your search',
+        message: `"${posting.title}" by ${posting.organization_name} matches your saved search${searches.length === 1 ? '' : 'es'} ${searchNames}.`,
+        link: `/posting/${posting.id}`,
+        sendEmail: () => sendSavedSearchAlertEmail({
+          volunteerEmail: savedSearch.volunteer_email,
+          volunteerName: `${savedSearch.first_name} ${savedSearch.last_name}`,
+          savedSearchId: savedSearch.id,
+          savedSearchName: savedSearch.name,
+          postings: [toEmailPosting(posting)],
+          digest: false,
+        }, trx),
+      };
+    }));
+
+    return inserted.length;
+  });
+}
+
+/**
+ * The most recent digest time at or before `now`, at SAVED_SEARCH_DIGEST_HOUR UTC.
+ */
+export const getLatestSavedSearchDigestTime = (now: Date, digestHour: number = config.SAVED_SEARCH_DIGEST_HOUR) => {
+  const todayDigest = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), digestHour));
+  return todayDigest <= now ? todayDigest : new Date(todayDigest.getTime() - DAY_MS);
+};
+
+/**
+ * Sends one digest per daily saved search that picked up matches before the
+ * latest digest time. Matches are claimed in the same transaction that queues
+ * the digest, so each posting is reported once; matches arriving after the
+ * digest time wait for the next day's digest unless they ride along with it.
+ * Returns how many digests were sent.
+ */
+export async function sendDueSavedSearchDigests(db: Kysely<Database>, now: Date = new Date()) {
+  const digestTime = getLatestSavedSearchDigestTime(now);
+
+  const dueSearches = await db
+    .selectFrom('saved_search')
+    .innerJoin('volunteer_account', 'volunteer_account.id', 'saved_search.volunteer_id')
+    .select([
+      'saved_search.id',
+      'saved_search.name',
+      'volunteer_account.id as volunteer_id',
+      'volunteer_account.email as volunteer_email',
+      'volunteer_account.first_name',
+      'volunteer_account.last_name',
+    ])
+    .where('saved_search.alert_frequency', '=', 'daily')
+    .where('volunteer_account.is_deleted', '=', false)
+    .where('volunteer_account.is_disabled', '=', false)
+    .where(eb => eb.exists(eb
+      .selectFrom('saved_search_match')
+      .select('saved_search_match.id')
+      .whereRef('saved_search_match.saved_search_id', '=', 'saved_search.id')
+      .where('saved_search_match.notified_at', 'is', null)
+      .where('saved_search_match.created_at', '<=', digestTime)))
+    .orderBy('saved_search.id', 'asc')
+    .execute();
+
+  let sent = 0;
+
+  for (const savedSearch of dueSearches) {
+    const claimed = await executeTransaction(db, async (trx) => {
+      const claimedMatches = await trx
+        .updateTable('saved_search_match')
+        .set({ notified_at: now })
+        .where('saved_search_id', '=', savedSearch.id)
+        .where('notified_at', 'is', null)
+        .returning('posting_id')
+        .execute();
+
+      if (claimedMatches.length === 0) return false;
+
+      // Postings closed since they matched are left out of the digest
+      const postings = await trx
+        .selectFrom('posting')
+        .innerJoin('organization_account', 'organization_account.id', 'posting.organization_id')
+        .select([
+          'posting.id',
+          'posting.title',
+          'posting.location_name',
+          'organization_account.name as organization_name',
+        ])
+        .where('posting.id', 'in', claimedMatches.map(match => match.posting_id))
+        .where('posting.is_closed', '=', false)
+        .where('organization_account.is_deleted', '=', false)
+        .where('organization_account.is_disabled', '=', false)
+        .orderBy('posting.created_at', 'asc')
+        .orderBy('posting.id', 'asc')
+        .execute();
+
+      if (postings.length === 0) return false;
+
+      await deliverNotifications(trx, [{
+        recipient: { user_id: savedSearch.volunteer_id, role: 'volunteer' },
+        type: 'saved_search_match',
+        title: 'Saved search digest',
+        message: `${postings.length} new posting${postings.length === 1 ? '' : 's'} match${postings.length === 1 ? 'es' : ''} your saved search "${savedSearch.name}".`,
+        link: `/volunteer/search?saved_search=${savedSearch.id}`,
+        sendEmail: () => sendSavedSearchAlertEmail({
+          volunteerEmail: savedSearch.volunteer_email,
+          volunteerName: `${savedSearch.first_name} ${savedSearch.last_name}`,
+          savedSearchId: savedSearch.id,
+          savedSearchName: savedSearch.name,
+          postings: postings.map(toEmailPosting),
+          digest: true,
+        }, trx),
+      }]);
+
+      return true;
+    });
+
+    if (claimed) sent += 1;
+  }
+
+  return sent;
+}
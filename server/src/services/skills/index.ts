@@ -0,0 +1,246 @@
+import { sql, type Kysely } from 'kysely';
+
+import { type Database, type Skill } from '../../db/tables/index.ts';
+
+export type ResolvedSkill = Pick<Skill, 'id' | 'name'>;
+
+const SKILL_OWNER_TABLES = [
+  { table: 'posting_skill', ownerColumn: 'posting_id' },
+  { table: 'volunteer_skill', ownerColumn: 'volunteer_id' },
+  { table: 'posting_role_skill', ownerColumn: 'role_id' },
+] as const;
+
+/**
+ * Key used to match free text against the catalog.
+ * Must stay in sync with the SQL version in migration 55.
+ */
+export const normalizeSkillName = (name: string) => name
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}]+/gu, ' ')
+  .trim()
+  .slice(0, 64);
+
+async function findSkillsByNormalizedName(db: Kysely<Database>, normalizedNames: readonly string[]) {
+  const skillsByNormalizedName = new Map<string, ResolvedSkill>();
+
+  if (normalizedNames.length === 0) {
+    return skillsByNormalizedName;
+  }
+
+  const [skills, synonyms] = await Promise.all([
+    db
+      .selectFrom('skill')
+      .select(['id', 'name', 'normalized_name'])
+      .where('normalized_name', 'in', normalizedNames)
+      .execute(),
+    db
+      .selectFrom('skill_synonym')
+      .innerJoin('skill', 'skill.id', 'skill_synonym.skill_id')
+      .select(['skill.id', 'skill.name', 'skill_synonym.normalized_name'])
+      .where('skill_synonym.normalized_name', 'in', normalizedNames)
+      .execute(),
+  ]);
+
+  [...synonyms, ...skills].forEach(({ normalized_name, ...skill }) => {
+    skillsByNormalizedName.set(normalized_name, skill);
+  });
+
+  return skillsByNormalizedName;
+}
+
+async function resolveSkillsByNormalizedName(trx: Kysely<Database>, names: readonly string[]) {
+  const namesByNormalizedName = new Map<string, string>();
+  names.forEach((name) => {
+    const normalizedName = normalizeSkillName(name);
+    if (normalizedName && !namesByNormalizedName.has(normalizedName)) {
+      namesByNormalizedName.set(normalizedName, name.trim().slice(0, 64));
+    }
+  });
+
+  const skillsByNormalizedName = await findSkillsByNormalizedName(trx, Array.from(namesByNormalizedName.keys()));
+
+  const unknownNames = Array.from(namesByNormalizedName.keys()).filter(normalizedName => !skillsByNormalizedName.has(normalizedName));
+  if (unknownNames.length > 0) {
+    await trx
+      .insertInto('skill')
+      .values(unknownNames.map(normalizedName => ({
+        name: namesByNormalizedName.get(normalizedName)!,
+        normalized_name: normalizedName,
+        category: null,
+      })))
+      .onConflict(oc => oc.column('normalized_name').doNothing())
+      .execute();
+
+    const createdSkills = await findSkillsByNormalizedName(trx, unknownNames);
+    createdSkills.forEach((skill, normalizedName) => skillsByNormalizedName.set(normalizedName, skill));
+  }
+
+  return skillsByNormalizedName;
+}
+
+/**
+ * Maps free-text skill names to catalog entries, matching names and synonyms.
+ * Names the catalog does not know yet are added as uncategorized skills for admins to review.
+ * The result is deduplicated, so "First Aid" and "first-aid" resolve to a single entry.
+ */
+export async function resolveSkills(trx: Kysely<Database>, names: readonly string[]): Promise<ResolvedSkill[]> {
+  const skillsByNormalizedName = await resolveSkillsByNormalizedName(trx, names);
+
+  const resolvedSkills = new Map<number, ResolvedSkill>();
+  names.forEach((name) => {
+    const skill = skillsByNormalizedName.get(normalizeSkillName(name));
+    if (skill && !resolvedSkills.has(skill.id)) {
+      resolvedSkills.set(skill.id, skill);
+    }
+  });
+
+  return Array.from(resolvedSkills.values());
+}
+
+/**
+ * Same as `resolveSkills` for rows that carry a skill name, used for bulk inserts such as seeding.
+ * Rows get the catalog id and name, rows without a usable name are dropped.
+ */
+export async function withSkillIds<T extends { name: string }>(trx: Kysely<Database>, rows: readonly T[]) {
+  const skillsByNormalizedName = await resolveSkillsByNormalizedName(trx, rows.map(row => row.name));
+
+  return rows.flatMap((row) => {
+    const skill = skillsByNormalizedName.get(normalizeSkillName(row.name));
+    return skill ? [{ ...row, skill_id: skill.id, name: skill.name }] : [];
+  });
+}
+
+/**
+ * Catalog entries whose name or one of its synonyms contains the search, names starting with it first.
+ */
+export async function searchSkills(db: Kysely<Database>, search: string, limit: number) {
+  const normalizedSearch = normalizeSkillName(search);
+
+  let query = db
+    .selectFrom('skill')
+    .select(['skill.id', 'skill.name', 'skill.category']);
+
+  if (normalizedSearch) {
+    const containsPattern = `%${normalizedSearch}%`;
+    const prefixPattern = `${normalizedSearch}%`;
+
+    query = query
+      .where(eb => eb.or([
+        eb('skill.normalized_name', 'like', containsPattern),
+        eb.exists(
+          eb.selectFrom('skill_synonym')
+            .select('skill_synonym.id')
+            .whereRef('skill_synonym.skill_id', '=', 'skill.id')
+            .where('skill_synonym.normalized_name', 'like', containsPattern),
+        ),
+      ]))
+      .orderBy(sql`skill.normalized_name LIKE ${prefixPattern}`, 'desc');
+  }
+
+  return query
+    .orderBy('skill.name', 'asc')
+    .limit(limit)
+    .execute();
+}
+
+/**
+ * The first of the given names that already belongs to a skill other than `skillId`, as a name or a synonym.
+ */
+export async function findTakenSkillName(
+  db: Kysely<Database>,
+  names: readonly string[],
+  skillId?: number,
+): Promise<string | undefined> {
+  const normalizedNames = names.map(normalizeSkillName);
+  const skillsByNormalizedName = await findSkillsByNormalizedName(db, normalizedNames.filter(Boolean));
+
+  const takenIndex = normalizedNames.findIndex((normalizedName) => {
+    const skill = skillsByNormalizedName.get(normalizedName);
+    return skill !== undefined && skill.id !== skillId;
+  });
+
+  return takenIndex === -1 ? undefined : names[takenIndex]!.trim();
+}
+
+/**
+ * Replaces the synonyms of a skill. Synonyms that only repeat the skill's own name are dropped.
+ */
+export async function replaceSkillSynonyms(trx: Kysely<Database>, skill: Pick<Skill, 'id' | 'normalized_name'>, synonyms: readonly string[]) {
+  await trx
+    .deleteFrom('skill_synonym')
+    .where('skill_id', '=', skill.id)
+    .execute();
+
+  const synonymsByNormalizedName = new Map<string, string>();
+  synonyms.forEach((synonym) => {
+    const normalizedName = normalizeSkillName(synonym);
+    if (normalizedName && normalizedName !== skill.normalized_name && !synonymsByNormalizedName.has(normalizedName)) {
+      synonymsByNormalizedName.set(normalizedName, synonym.trim());
+    }
+  });
+
+  if (synonymsByNormalizedName.size > 0) {
+    await trx
+      .insertInto('skill_synonym')
+      .values(Array.from(synonymsByNormalizedName, ([normalizedName, name]) => ({
+        skill_id: skill.id,
+        name,
+        normalized_name: normalizedName,
+      })))
+      .execute();
+  }
+}
+
+/**
+ * Copies the catalog name of a skill onto every posting, role and volunteer that uses it.
+ */
+export async function syncSkillName(trx: Kysely<Database>, skill: Pick<Skill, 'id' | 'name'>) {
+  for (const { table } of SKILL_OWNER_TABLES) {
+    await trx
+      .updateTable(table)
+      .set({ name: skill.name })
+      .where('skill_id', '=', skill.id)
+      .execute();
+  }
+}
+
+/**
+ * Folds `source` into `target`. Everyone using the source skill ends up with the target once,
+ * and the source name and synonyms keep resolving to the target.
+ */
+export async function mergeSkills(trx: Kysely<Database>, source: Skill, target: Skill) {
+  for (const { table, ownerColumn } of SKILL_OWNER_TABLES) {
+    await sql`
+      DELETE FROM ${sql.table(table)} AS source_row
+      USING ${sql.table(table)} AS target_row
+      WHERE source_row.skill_id = ${source.id}
+        AND target_row.skill_id = ${target.id}
+        AND source_row.${sql.ref(ownerColumn)} = target_row.${sql.ref(ownerColumn)}
+    `.execute(trx);
+
+    await trx
+      .updateTable(table)
+      .set({ skill_id: target.id, name: target.name })
+      .where('skill_id', '=', source.id)
+      .execute();
+  }
+
+  await trx
+    .updateTable('skill_synonym')
+    .set({ skill_id: target.id })
+    .where('skill_id', '=', source.id)
+    .where('normalized_name', '!=', target.normalized_name)
+    .execute();
+
+  await trx
+    .deleteFrom('skill')
+    .where('id', '=', source.id)
+    .execute();
+
+  if (source.normalized_name !== target.normalized_name) {
+    await trx
+      .insertInto('skill_synonym')
+      .values({ skill_id: target.id, name: source.name, normalized_name: source.normalized_name })
+      .execute();
+  }
+}
@@ -0,0 +1,110 @@
+import { sql, type RawBuilder } from 'kysely';
+
+import { type SearchSnippetSegment } from '../../types.ts';
+
+export type TextSearchQuery = RawBuilder<unknown>;
+
+type TextSearchPart = {
+  kind: 'word' | 'phrase';
+  text: string;
+};
+
+// Must match the languages indexed by search_document() in the full-text search migration
+const TEXT_SEARCH_CONFIGS = ['simple', 'english', 'french', 'arabic'] as const;
+const MAX_TEXT_SEARCH_PARTS = 12;
+
+const HEADLINE_START = '\u0002';
+const HEADLINE_STOP = '\u0003';
+const HEADLINE_OPTIONS = [
+  `StartSel=${HEADLINE_START}`,
+  `StopSel=${HEADLINE_STOP}`,
+  'MaxWords=30',
+  'MinWords=12',
+  'ShortWord=2',
+  'MaxFragments=2',
+  'FragmentDelimiter=" … "',
+].join(', ');
+
+const SEARCH_TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+const SEARCH_PART_PATTERN = /"([^"]*)"?|([^\s"]+)/g;
+
+/**
+ * Splits a search into prefix-matched words and "quoted phrases".
+ * Only letters, marks and digits survive, so the parts are safe to hand to `to_tsquery`.
+ */
+export const parseTextSearch = (search: string): TextSearchPart[] => {
+  const parts: TextSearchPart[] = [];
+
+  for (const [, phrase, word] of search.matchAll(SEARCH_PART_PATTERN)) {
+    const tokens = (phrase ?? word ?? '').match(SEARCH_TOKEN_PATTERN) ?? [];
+
+    if (phrase !== undefined && tokens.length > 1) {
+      parts.push({ kind: 'phrase', text: tokens.join(' ') });
+    } else {
+      tokens.forEach(token => parts.push({ kind: 'word', text: token }));
+    }
+  }
+
+  return parts.slice(0, MAX_TEXT_SEARCH_PARTS);
+};
+
+/**
+ * Builds a tsquery that matches when every part matches in at least one indexed language.
+ * Returns null when the search has nothing to match on.
+ */
+export const buildTextSearchQuery = (search: string): TextSearchQuery | null => {
+  const parts = parseTextSearch(search);
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const queriesByConfig = TEXT_SEARCH_CONFIGS.map((config) => {
+    const regconfig = sql`${sql.lit(config)}::regconfig`;
+    const terms = parts.map(part => (part.kind === 'phrase'
+      ? sql`phraseto_tsquery(${regconfig}, search_unaccent(${part.text}))`
+      : sql`to_tsquery(${regconfig}, search_unaccent(${`'${part.text}':*`}))`));
+
+    return sql`(${sql.join(terms, sql` && `)})`;
+  });
+
+  return sql`(${sql.join(queriesByConfig, sql` || `)})`;
+};
+
+export const matchesTextSearch = (vectorColumn: string, query: TextSearchQuery) => sql<boolean>`${sql.ref(vectorColumn)} @@ ${query}`;
+
+// Title matches (weight A) outrank skills and organization names (B), then location (C) and description (D)
+export const getTextSearchRank = (vectorColumn: string, query: TextSearchQuery) => sql<number>`ts_rank(${sql.ref(vectorColumn)}, ${query})`;
+
+export const getTextSearchHeadline = (textColumn: string, query: TextSearchQuery | null) => (query
+  ? sql<string | null>`ts_headline('simple'::regconfig, ${sql.ref(textColumn)}, ${query}, ${HEADLINE_OPTIONS})`
+  : sql<string | null>`NULL::text`);
+
+/**
+ * Turns a `ts_headline` result into plain and highlighted segments that clients render without parsing HTML.
+ * Returns null when nothing in the text was highlighted.
+ */
+export const toSearchSnippet = (headline: string | null): SearchSnippetSegment[] | null => {
+  if (!headline?.includes(HEADLINE_START)) {
+    return null;
+  }
+
+  const [leading, ...highlightedChunks] = headline.split(HEADLINE_START);
+  const segments: SearchSnippetSegment[] = leading ? [{ text: leading, highlighted: false }] : [];
+
+  highlightedChunks.forEach((chunk) => {
+    const stopIndex = chunk.indexOf(HEADLINE_STOP);
+    const highlighted = stopIndex === -1 ? chunk : chunk.slice(0, stopIndex);
+    const trailing = stopIndex === -1 ? '' : chunk.slice(stopIndex + HEADLINE_STOP.length);
+
+    if (highlighted) segments.push({ text: highlighted, highlighted: true });
+    if (trailing) segments.push({ text: trailing, highlighted: false });
+  });
+
+  return segments;
+};
+
+export const withSearchSnippet = <T extends { search_headline: string | null }>({ search_headline, ...row }: T) => ({
+  ...row,
+  search_snippet: toSearchSnippet(search_headline),
+});
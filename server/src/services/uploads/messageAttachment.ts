@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+
+import multer from 'multer';
+
+import { MESSAGE_ATTACHMENT_UPLOAD_DIR } from './paths.ts';
+
+const ALLOWED_ATTACHMENT_TYPES: Record<string, string[]> = {
+  '.pdf': ['application/pdf'],
+  '.png': ['image/png'],
+  '.jpg': ['image/jpeg', 'image/jpg'],
+  '.jpeg': ['image/jpeg', 'image/jpg'],
+};
+
+export const messageAttachmentStorage = multer.diskStorage({
+  destination: async (_req, _file, cb) => {
+    await fs.promises.mkdir(MESSAGE_ATTACHMENT_UPLOAD_DIR, { recursive: true });
+    cb(null, MESSAGE_ATTACHMENT_UPLOAD_DIR);
+  },
+  filename: (req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    cb(null, `message-${req.userJWT!.role}-${req.userJWT!.id}-${Date.now()}${ext}`);
+  },
+});
+
+export const messageAttachmentMulter = multer({
+  storage: messageAttachmentStorage,
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+
+    if (!ALLOWED_ATTACHMENT_TYPES[ext]?.includes(file.mimetype)) {
+      return cb(new Error('Only PDF, PNG, JPG, and JPEG attachments are allowed.'));
+    }
+
+    cb(null, true);
+  },
+});
+
+export const deleteMessageAttachmentIfExists = async (file?: Express.Multer.File) => {
+  if (!file) return;
+  await fs.promises.unlink(file.path).catch(() => {});
+};
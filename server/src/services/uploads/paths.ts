@@ -6,3 +6,4 @@ export const CV_UPLOAD_DIR = path.resolve(path.join(config.UPLOAD_DIR, 'cvs'));
 export const ORG_LOGO_UPLOAD_DIR = path.resolve(path.join(config.UPLOAD_DIR, 'org-logos'));
 export const ORG_SIGNATURE_UPLOAD_DIR = path.resolve(path.join(config.UPLOAD_DIR, 'org-signatures'));
 export const PLATFORM_SIGNATURE_UPLOAD_DIR = path.resolve(path.join(config.UPLOAD_DIR, 'platform-signatures'));
+export const MESSAGE_ATTACHMENT_UPLOAD_DIR = path.resolve(path.join(config.UPLOAD_DIR, 'message-attachments'));
@@ -0,0 +1,315 @@
+import { sql, type Kysely } from 'kysely';
+
+import { type Database, type PostingOccurrenceOverrideEntry, type VolunteerAvailability } from '../../db/tables/index.ts';
+import {
+  getPostingOccurrences,
+  postingOccurrencesExpression,
+  type PostingOccurrence,
+  type PostingSchedule,
+} from '../posting/postingSchedule.ts';
+import { normalizeStoredTime } from '../posting/postingTime.ts';
+
+import type { ScheduleConflict } from '../../types.ts';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * An occurrence the volunteer is already enrolled in.
+ */
+export type VolunteerCommitment = PostingOccurrence & {
+  posting_id: number;
+  posting_title: string;
+};
+
+const formatDateToIso = (date: Date) =>
+  `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+};
+
+// Occurrences without times take the whole day, and ones ending before they start run until midnight
+const getOccurrenceMinutes = (occurrence: Pick<PostingOccurrence, 'start_time' | 'end_time'>) => {
+  const start = occurrence.start_time ? toMinutes(occurrence.start_time) : 0;
+  const end = occurrence.end_time ? toMinutes(occurrence.end_time) : MINUTES_PER_DAY;
+  return { start, end: end > start ? end : MINUTES_PER_DAY };
+};
+
+const getWeekday = (date: string) => new Date(`${date}T00:00:00.000Z`).getUTCDay();
+
+export async function getVolunteerAvailability(
+  db: Kysely<Database>,
+  volunteerId: number,
+): Promise<VolunteerAvailability> {
+  const [windows, blackoutDates] = await Promise.all([
+    db
+      .selectFrom('volunteer_availability_window')
+      .select([
+        'weekday',
+        sql<string>`to_char(volunteer_availability_window.start_time, 'HH24:MI')`.as('start_time'),
+        sql<string>`to_char(volunteer_availability_window.end_time, 'HH24:MI')`.as('end_time'),
+      ])
+      .where('volunteer_id', '=', volunteerId)
+      .orderBy('weekday', 'asc')
+      .orderBy('start_time', 'asc')
+      .execute(),
+    db
+      .selectFrom('volunteer_blackout_date')
+      .select(sql<string>`to_char(volunteer_blackout_date.date, 'YYYY-MM-DD')`.as('date'))
+      .where('volunteer_id', '=', volunteerId)
+      .orderBy('date', 'asc')
+      .execute(),
+  ]);
+
+  return {
+    windows,
+    blackout_dates: blackoutDates.map(({ date }) => date),
+  };
+}
+
+export async function replaceVolunteerAvailability(
+  trx: Kysely<Database>,
+  volunteerId: number,
+  availability: VolunteerAvailability,
+) {
+  await trx
+    .deleteFrom('volunteer_availability_window')
+    .where('volunteer_id', '=', volunteerId)
+    .execute();
+
+  await trx
+    .deleteFrom('volunteer_blackout_date')
+    .where('volunteer_id', '=', volunteerId)
+    .execute();
+
+  if (availability.windows.length > 0) {
+    await trx
+      .insertInto('volunteer_availability_window')
+      .values(availability.windows.map(window => ({
+        volunteer_id: volunteerId,
+        weekday: window.weekday,
+        start_time: window.start_time,
+        end_time: window.end_time,
+      })))
+      .execute();
+  }
+
+  if (availability.blackout_dates.length > 0) {
+    await trx
+      .insertInto('volunteer_blackout_date')
+      .values(availability.blackout_dates.map(date => ({
+        volunteer_id: volunteerId,
+        date: new Date(`${date}T00:00:00.000Z`),
+      })))
+      .execute();
+  }
+}
+
+/**
+ * Upcoming enrollment dates of a volunteer, with the times of each occurrence.
+ */
+export async function getVolunteerCommitments(
+  db: Kysely<Database>,
+  volunteerId: number,
+  { excludePostingId }: { excludePostingId?: number } = {},
+): Promise<VolunteerCommitment[]> {
+  let query = db
+    .selectFrom('enrollment_date')
+    .innerJoin('enrollment', 'enrollment.id', 'enrollment_date.enrollment_id')
+    .innerJoin('posting', 'posting.id', 'enrollment_date.posting_id')
+    .select([
+      'posting.id as posting_id',
+      'posting.title as posting_title',
+      sql<string>`to_char(enrollment_date.date, 'YYYY-MM-DD')`.as('date'),
+      sql<string | null>`COALESCE((
+        SELECT posting_occurrence_override.start_time
+        FROM posting_occurrence_override
+        WHERE posting_occurrence_override.posting_id = posting.id
+          AND posting_occurrence_override.date = enrollment_date.date
+      ), posting.start_time)`.as('start_time'),
+      sql<string | null>`COALESCE((
+        SELECT posting_occurrence_override.end_time
+        FROM posting_occurrence_override
+        WHERE posting_occurrence_override.posting_id = posting.id
+          AND posting_occurrence_override.date = enrollment_date.date
+      ), posting.end_time)`.as('end_time'),
+    ])
+    .where('enrollment.volunteer_id', '=', volunteerId)
+    .where('enrollment_date.date', '>=', sql<Date>`current_date`);
+
+  if (excludePostingId !== undefined) {
+    query = query.where('enrollment_date.posting_id', '!=', excludePostingId);
+  }
+
+  const rows = await query.orderBy('enrollment_date.date', 'asc').execute();
+
+  return rows.map(row => ({
+    ...row,
+    start_time: normalizeStoredTime(row.start_time),
+    end_time: normalizeStoredTime(row.end_time),
+  }));
+}
+
+/**
+ * Finds the commitments that overlap the given occurrences.
+ */
+export const findScheduleConflicts = (
+  commitments: readonly VolunteerCommitment[],
+  occurrences: readonly PostingOccurrence[],
+): ScheduleConflict[] => occurrences.flatMap((occurrence) => {
+  const { start, end } = getOccurrenceMinutes(occurrence);
+
+  return commitments
+    .filter((commitment) => {
+      if (commitment.date !== occurrence.date) return false;
+      const committed = getOccurrenceMinutes(commitment);
+      return committed.start < end && start < committed.end;
+    })
+    .map(commitment => ({
+      date: commitment.date,
+      posting_id: commitment.posting_id,
+      posting_title: commitment.posting_title,
+      start_time: commitment.start_time,
+      end_time: commitment.end_time,
+    }));
+});
+
+/**
+ * Whether an occurrence falls inside one of the volunteer's weekly windows and outside their blackout dates.
+ */
+export const isOccurrenceWithinAvailability = (
+  availability: VolunteerAvailability,
+  occurrence: PostingOccurrence,
+) => {
+  if (availability.blackout_dates.includes(occurrence.date)) {
+    return false;
+  }
+
+  if (availability.windows.length === 0) {
+    return true;
+  }
+
+  const weekday = getWeekday(occurrence.date);
+  const { start, end } = getOccurrenceMinutes(occurrence);
+
+  return availability.windows.some(window => window.weekday === weekday
+    && toMinutes(window.start_time) <= start
+    && toMinutes(window.end_time) >= end);
+};
+
+/**
+ * Whether the volunteer can attend the upcoming part of a posting.
+ * Full-commitment postings need every upcoming occurrence to fit, partial attendance only one.
+ */
+export const canAttendPosting = (
+  posting: PostingSchedule & {
+    id: number;
+    allows_partial_attendance: boolean;
+    occurrence_overrides?: PostingOccurrenceOverrideEntry[] | undefined;
+  },
+  availability: VolunteerAvailability,
+  commitments: readonly VolunteerCommitment[],
+  today: string = formatDateToIso(new Date()),
+) => {
+  const upcomingOccurrences = getPostingOccurrences(posting, posting.occurrence_overrides)
+    .filter(occurrence => occurrence.date >= today);
+
+  if (upcomingOccurrences.length === 0) {
+    return true;
+  }
+
+  const otherCommitments = commitments.filter(commitment => commitment.posting_id !== posting.id);
+  const isAttendable = (occurrence: PostingOccurrence) => isOccurrenceWithinAvailability(availability, occurrence)
+    && findScheduleConflicts(otherCommitments, [occurrence]).length === 0;
+
+  return posting.allows_partial_attendance
+    ? upcomingOccurrences.some(isAttendable)
+    : upcomingOccurrences.every(isAttendable);
+};
+
+/**
+ * Cheap check used to rank postings, true when one of the volunteer's windows covers the posting's usual times
+ * on a weekday it runs. `canAttendPosting` is the exact check.
+ * Must be used in a query that has `posting` in scope.
+ */
+export const postingFitsAvailabilityExpression = (volunteerId: number) => sql<boolean>`EXISTS (
+  SELECT 1
+  FROM volunteer_availability_window
+  WHERE volunteer_availability_window.volunteer_id = ${volunteerId}
+    AND volunteer_availability_window.weekday = ANY(COALESCE(
+      NULLIF(posting.recurrence_weekdays, '{}'),
+      ARRAY[EXTRACT(DOW FROM posting.start_date)::integer]
+    ))
+    AND volunteer_availability_window.start_time <= posting.start_time
+    AND volunteer_availability_window.end_time >= posting.end_time
+)`;
+
+// Mirrors getOccurrenceMinutes in seconds, for a row source with `start_time` and `end_time` columns
+const occurrenceStartSeconds = (source: string) => sql<number>`COALESCE(EXTRACT(EPOCH FROM ${sql.ref(`${source}.start_time`)}), 0)`;
+const occurrenceEndSeconds = (source: string) => sql<number>`CASE
+  WHEN EXTRACT(EPOCH FROM ${sql.ref(`${source}.end_time`)}) > ${occurrenceStartSeconds(source)}
+    THEN EXTRACT(EPOCH FROM ${sql.ref(`${source}.end_time`)})
+  ELSE ${sql.lit(MINUTES_PER_DAY * 60)}
+END`;
+
+/**
+ * SQL counterpart of `canAttendPosting` for the volunteer's stored availability and upcoming enrollments,
+ * so unattendable postings can be filtered out before a page is cut.
+ * Must be used in a query that has `posting` in scope.
+ */
+export const postingAttendableExpression = (volunteerId: number) => {
+  const commitments = sql`(
+    SELECT
+      enrollment_date.date,
+      COALESCE(posting_occurrence_override.start_time, commitment_posting.start_time) AS start_time,
+      COALESCE(posting_occurrence_override.end_time, commitment_posting.end_time) AS end_time
+    FROM enrollment_date
+    INNER JOIN enrollment ON enrollment.id = enrollment_date.enrollment_id
+    INNER JOIN posting AS commitment_posting ON commitment_posting.id = enrollment_date.posting_id
+    LEFT JOIN posting_occurrence_override
+      ON posting_occurrence_override.posting_id = enrollment_date.posting_id
+     AND posting_occurrence_override.date = enrollment_date.date
+    WHERE enrollment.volunteer_id = ${volunteerId}
+      AND enrollment_date.date >= current_date
+      AND enrollment_date.posting_id <> posting.id
+  )`;
+
+  const isAttendable = sql<boolean>`(
+    NOT EXISTS (
+      SELECT 1
+      FROM volunteer_blackout_date
+      WHERE volunteer_blackout_date.volunteer_id = ${volunteerId}
+        AND volunteer_blackout_date.date = occurrence.date
+    )
+    AND (
+      NOT EXISTS (
+        SELECT 1 FROM volunteer_availability_window WHERE volunteer_availability_window.volunteer_id = ${volunteerId}
+      )
+      OR EXISTS (
+        SELECT 1
+        FROM volunteer_availability_window
+        WHERE volunteer_availability_window.volunteer_id = ${volunteerId}
+          AND volunteer_availability_window.weekday = EXTRACT(DOW FROM occurrence.date)::integer
+          AND EXTRACT(EPOCH FROM volunteer_availability_window.start_time) <= ${occurrenceStartSeconds('occurrence')}
+          AND EXTRACT(EPOCH FROM volunteer_availability_window.end_time) >= ${occurrenceEndSeconds('occurrence')}
+      )
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM ${commitments} AS commitment
+      WHERE commitment.date = occurrence.date
+        AND ${occurrenceStartSeconds('commitment')} < ${occurrenceEndSeconds('occurrence')}
+        AND ${occurrenceStartSeconds('occurrence')} < ${occurrenceEndSeconds('commitment')}
+    )
+  )`;
+
+  return sql<boolean>`CASE
+    WHEN posting.allows_partial_attendance THEN
+      NOT EXISTS (SELECT 1 FROM ${postingOccurrencesExpression} AS occurrence WHERE occurrence.date >= current_date)
+      OR EXISTS (SELECT 1 FROM ${postingOccurrencesExpression} AS occurrence WHERE occurrence.date >= current_date AND ${isAttendable})
+    ELSE NOT EXISTS (
+      SELECT 1 FROM ${postingOccurrencesExpression} AS occurrence WHERE occurrence.date >= current_date AND NOT ${isAttendable}
+    )
+  END`;
+};
@@ -2,7 +2,7 @@ import database from '../../db/index.ts';
 import { hash } from '../../services/bcrypt/index.ts';
 import { generateJWT } from '../../services/jwt/index.ts';
 
-import type { AdminAccount, Database, OrganizationAccount, VolunteerAccount } from '../../db/tables/index.ts';
+import type { AdminAccount, Database, OrganizationAccount, OrganizationMember, OrganizationMemberRole, VolunteerAccount } from '../../db/tables/index.ts';
 import type { Kysely } from 'kysely';
 
 type OrganizationFixtureOptions = {
@@ -22,6 +22,15 @@ type VolunteerFixtureOptions = {
   created_at?: Date;
 };
 
+type OrganizationMemberFixtureOptions = {
+  organizationId: number;
+  email?: string;
+  password?: string;
+  role?: OrganizationMemberRole;
+  first_name?: string;
+  last_name?: string;
+};
+
 type AdminFixtureOptions = {
   email?: string;
   password?: string;
@@ -35,6 +44,9 @@ const HASHED_DEFAULT_ORG_PASSWORD = hash(DEFAULT_ORG_PASSWORD);
 const DEFAULT_VOL_PASSWORD = 'VolPassword123!';
 const HASHED_DEFAULT_VOL_PASSWORD = hash(DEFAULT_VOL_PASSWORD);
 
+const DEFAULT_MEMBER_PASSWORD = 'MemberPassword123!';
+const HASHED_DEFAULT_MEMBER_PASSWORD = hash(DEFAULT_MEMBER_PASSWORD);
+
 const DEFAULT_ADMIN_PASSWORD = 'AdminPassword123!';
 const HASHED_DEFAULT_ADMIN_PASSWORD = hash(DEFAULT_ADMIN_PASSWORD);
 let organizationPhoneCounter = 0;
@@ -139,6 +151,43 @@ export async function createVolunteerAccount(arg1?: DbExecutor | VolunteerFixtur
   };
 }
 
+export async function createOrganizationMemberAccount(options: OrganizationMemberFixtureOptions): Promise<{ member: OrganizationMember; plainPassword: string; token: string }>;
+export async function createOrganizationMemberAccount(db: DbExecutor, options: OrganizationMemberFixtureOptions): Promise<{ member: OrganizationMember; plainPassword: string; token: string }>;
+export async function createOrganizationMemberAccount(arg1: DbExecutor | OrganizationMemberFixtureOptions, arg2?: OrganizationMemberFixtureOptions) {
+  const [db, options] = resolveFixtureArgs<OrganizationMemberFixtureOptions>(arg1, arg2);
+
+  const {
+    organizationId,
+    email = 'member@example.com',
+    password,
+    role = 'coordinator',
+    first_name = 'Sam',
+    last_name = 'Member',
+  } = options;
+
+  const hashedPassword = await (password === undefined ? HASHED_DEFAULT_MEMBER_PASSWORD : hash(password));
+
+  const member = await db
+    .insertInto('organization_member')
+    .values({
+      organization_id: organizationId,
+      email,
+      first_name,
+      last_name,
+      password: hashedPassword,
+      role,
+      joined_at: new Date(),
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  return {
+    member,
+    plainPassword: password === undefined ? DEFAULT_MEMBER_PASSWORD : password,
+    token: await generateJWT({ id: organizationId, role: 'organization', token_version: member.token_version, member_id: member.id }),
+  };
+}
+
 export async function createAdminAccount(options?: AdminFixtureOptions): Promise<{ admin: AdminAccount; plainPassword: string; token: string }>;
 export async function createAdminAccount(db: DbExecutor, options?: AdminFixtureOptions): Promise<{ admin: AdminAccount; plainPassword: string; token: string }>;
 export async function createAdminAccount(arg1?: DbExecutor | AdminFixtureOptions, arg2?: AdminFixtureOptions) {
@@ -1,4 +1,5 @@
 import database from '../../db/index.ts';
+import { withSkillIds } from '../../services/skills/index.ts';
 
 import type { Database, Posting, OrganizationRequest } from '../../db/tables/index.ts';
 import type { Kysely } from 'kysely';
@@ -107,10 +108,10 @@ export async function createPosting(arg1: DbExecutor | PostingOptions, arg2?: Po
   if (skills && skills.length > 0) {
     await db
       .insertInto('posting_skill')
-      .values(skills.map(name => ({
+      .values(await withSkillIds(db, skills.map(name => ({
         posting_id: posting.id,
         name,
-      })))
+      }))))
       .execute();
   }
 
@@ -1,8 +1,16 @@
 import zod from 'zod';
 
 import {
+  type ApplicationAnswer,
+  type GuardianConsentSummary,
+  type IssuedCertificate,
+  type MessageThread,
+  type MessageWithoutAttachmentPath,
+  type PostingOccurrenceOverrideEntry,
+  type PostingRole,
   type PostingWithoutVectors,
   type PostingSkill,
+  type VolunteerFeedback,
   type VolunteerSkill,
   type VolunteerAccountWithoutPassword,
 } from './db/tables/index.ts';
@@ -19,6 +27,8 @@ export interface UserJWT {
   id: number;
   role: Role;
   token_version: number;
+  // Set when an organization member signs in; `id` stays the organization's id
+  member_id?: number;
 }
 
 export const loginInfoSchema = zod.object({
@@ -32,22 +42,57 @@ export type PostingWithSkills = PostingWithoutVectors & {
   skills: PostingSkill[];
 };
 
+export type PostingRoleWithContext = Pick<PostingRole, 'id' | 'name' | 'max_volunteers' | 'minimum_age'> & {
+  skills: string[];
+  enrollment_count: number;
+  date_capacity: Record<string, number>;
+};
+
 export type PostingApplicationStatus = 'none' | 'pending' | 'registered';
 
+export type SearchSnippetSegment = {
+  text: string;
+  highlighted: boolean;
+};
+
 export type PostingWithContext = PostingWithSkills & {
   organization_name: string;
   organization_logo_path: string | null;
   crisis_name: string | null;
   enrollment_count: number;
   application_status: PostingApplicationStatus;
+  occurrence_overrides?: PostingOccurrenceOverrideEntry[];
+  roles?: PostingRoleWithContext[];
   has_ended?: boolean;
   date_capacity?: Record<string, number>;
   confirmed_date_capacity?: Record<string, number>;
+  distance_km?: number | null;
+  search_snippet?: SearchSnippetSegment[] | null;
+};
+
+export type PostingWaitlistStatus = {
+  role_id: number | null;
+  position: number | null;
+  dates: Array<{ date: string; position: number }>;
+  created_at: Date;
+};
+
+/**
+ * An upcoming enrollment date of the volunteer that overlaps an occurrence of another posting.
+ */
+export type ScheduleConflict = {
+  date: string;
+  posting_id: number;
+  posting_title: string;
+  start_time: string | undefined;
+  end_time: string | undefined;
 };
 
 export type PostingEnrollment = {
   enrollment_id: number;
   volunteer_id: number;
+  role_id: number | null;
+  role_name: string | null;
   message: string | null;
   attended: boolean;
   first_name: string;
@@ -57,7 +102,32 @@ export type PostingEnrollment = {
   gender: Gender;
   cv_path?: string | null;
   skills: VolunteerSkill[];
-  dates?: Array<{ id: number; date: string; attended: boolean }>;
+  dates?: Array<{ id: number; date: string; attended: boolean; checked_in_at: Date | null; checked_out_at: Date | null }>;
+  guardian_consent: GuardianConsentSummary | null;
+};
+
+export type OrganizationRatingSummary = {
+  average_rating: number | null;
+  review_count: number;
+};
+
+export type VolunteerFeedbackWithContext = Omit<VolunteerFeedback, 'author_member_id'> & {
+  posting_title: string;
+  organization_id: number;
+  organization_name: string;
+  author_name: string | null;
+};
+
+export type MessageThreadSummary = MessageThread & {
+  posting_title: string;
+  organization_name: string;
+  volunteer_name: string;
+  last_message_body: string | null;
+  unread_count: number;
+};
+
+export type MessageWithSender = MessageWithoutAttachmentPath & {
+  sender_name: string;
 };
 
 export type PostingApplication = Omit<
@@ -67,7 +137,19 @@ export type PostingApplication = Omit<
   skills: VolunteerSkill[];
   volunteer_id: number;
   message: string | null;
+  answers: ApplicationAnswer[];
   created_at: Date;
   application_id: number;
+  role_id: number | null;
+  role_name: string | null;
   requested_dates?: string[];
+  guardian_consent: GuardianConsentSummary | null;
+};
+
+export type IssuedCertificateWithContext = Pick<
+  IssuedCertificate,
+  'id' | 'volunteer_id' | 'total_hours' | 'issued_at' | 'revoked_at' | 'revocation_reason' | 'revoked_by_role'
+> & {
+  volunteer_name: string;
+  organizations: Array<{ id: number; name: string; hours: number }>;
 };
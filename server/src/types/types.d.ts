@@ -1,5 +1,6 @@
 import { type JWTPayload } from 'jose';
 
+import { type OrganizationMemberRole } from '../db/tables/index.ts';
 import { type UserJWT } from '../types.ts';
 
 type UserJWTPayload = JWTPayload & UserJWT;
@@ -8,6 +9,7 @@ declare global {
   namespace Express {
     export interface Request {
       userJWT?: UserJWT;
+      organizationRole?: OrganizationMemberRole;
     }
   }
 }